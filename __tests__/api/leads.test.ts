@@ -80,6 +80,7 @@ describe('/api/leads', () => {
 
       expect(response.status).toBe(201)
       expect(data.message).toBe('Solicitação enviada com sucesso')
+      expect(data).not.toHaveProperty('data')
       expect(mockDb.lead.create).toHaveBeenCalledWith({
         data: expect.objectContaining({
           name: validLeadData.name,
@@ -96,6 +97,51 @@ describe('/api/leads', () => {
       })
     })
 
+    it('should store the calculator simulation with the lead', async () => {
+      mockDb.companyProfile.findUnique.mockResolvedValue({
+        id: 'clp1234567890123456789012',
+        name: 'Solar Tech',
+        userId: 'user-123',
+        user: {
+          email: 'company@example.com',
+          name: 'Solar Tech'
+        }
+      } as any)
+      mockDb.lead.create.mockResolvedValue({ id: 'lead-123', ...validLeadData, createdAt: new Date() } as any)
+      mockDb.notification.create.mockResolvedValue({} as any)
+
+      const simulation = {
+        municipality: { ibgeCode: '3509502', name: 'Campinas', state: 'SP' },
+        monthlyBill: 450,
+        systemSize: 4.4,
+        panelCount: 8,
+        yearlyGeneration: 6200,
+        monthlyGeneration: Array(12).fill(516),
+        systemCost: 20680,
+        monthlySavings: 380,
+        paybackPeriod: 4.6,
+        equipment: [{ productId: 'prod-1', name: 'Kit 4,4 kWp', quantity: 1 }]
+      }
+
+      const request = new NextRequest('http://localhost:3001/api/leads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...validLeadData, source: 'calculator', simulation })
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(201)
+      expect(mockDb.lead.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          source: 'calculator',
+          simulation
+        })
+      })
+    })
+
     it('should return 404 when company not found', async () => {
       mockDb.companyProfile.findUnique.mockResolvedValue(null)
 
@@ -159,7 +205,11 @@ describe('/api/leads', () => {
     it('should list leads for authenticated company', async () => {
       mockDb.companyProfile.findUnique.mockResolvedValue({
         id: 'clp1234567890123456789012',
-        userId: 'user-123'
+        userId: 'user-123',
+        city: 'São Paulo',
+        state: 'SP',
+        serviceAreas: [],
+        leadScoringConfig: null
       } as any)
 
       const mockLeads = [
@@ -167,6 +217,10 @@ describe('/api/leads', () => {
           id: 'lead-1',
           name: 'João Silva',
           email: 'joao@example.com',
+          phone: '11999999999',
+          location: 'São Paulo, SP',
+          projectType: 'Residencial',
+          budget: null,
           status: 'NEW',
           createdAt: new Date().toISOString(),
           quotes: []
@@ -182,7 +236,12 @@ describe('/api/leads', () => {
       const data = await response.json()
 
       expect(response.status).toBe(200)
-      expect(data.data).toEqual(mockLeads)
+      expect(data.data).toEqual([
+        expect.objectContaining({
+          ...mockLeads[0],
+          score: expect.objectContaining({ score: expect.any(Number) })
+        })
+      ])
       expect(data.pagination).toEqual({
         page: 1,
         limit: 10,
@@ -218,6 +277,8 @@ describe('/api/leads', () => {
               id: true,
               status: true,
               totalValue: true,
+              sentAt: true,
+              viewedAt: true,
               createdAt: true
             }
           }
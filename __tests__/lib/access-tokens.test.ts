@@ -0,0 +1,19 @@
+import { generateAccessToken, isValidAccessToken } from '../../lib/access-tokens'
+
+describe('Access Tokens', () => {
+  it('should generate unique URL-safe tokens', () => {
+    const token = generateAccessToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(generateAccessToken()).not.toBe(token)
+  })
+
+  it('should only accept the exact token', () => {
+    expect(isValidAccessToken('abc123', 'abc123')).toBe(true)
+    expect(isValidAccessToken('abc123', 'abc124')).toBe(false)
+    expect(isValidAccessToken('abc123', 'abc')).toBe(false)
+    expect(isValidAccessToken('abc123', '')).toBe(false)
+    expect(isValidAccessToken(null, 'abc123')).toBe(false)
+    expect(isValidAccessToken(undefined, 'abc123')).toBe(false)
+  })
+})
@@ -0,0 +1,132 @@
+import { db } from '../../lib/db'
+import {
+  API_KEY_PREFIX,
+  authenticateApiKey,
+  companyApiKeySchema,
+  generateApiKey,
+  hashApiKey,
+  isOriginAllowed,
+  normalizeOrigin
+} from '../../lib/api-keys'
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    companyApiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    }
+  }
+}))
+
+const mockDb = db as unknown as {
+  companyApiKey: { findUnique: jest.Mock; update: jest.Mock }
+}
+
+describe('API Keys', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('generateApiKey', () => {
+    it('should generate a prefixed key and keep only its hash', () => {
+      const { key, prefix, keyHash } = generateApiKey()
+
+      expect(key.startsWith(API_KEY_PREFIX)).toBe(true)
+      expect(key.startsWith(prefix)).toBe(true)
+      expect(keyHash).toBe(hashApiKey(key))
+      expect(keyHash).not.toContain(key)
+      expect(generateApiKey().key).not.toBe(key)
+    })
+  })
+
+  describe('normalizeOrigin', () => {
+    it('should reduce domains and URLs to their origin', () => {
+      expect(normalizeOrigin('SuaEmpresa.com.br')).toBe('https://suaempresa.com.br')
+      expect(normalizeOrigin('https://www.suaempresa.com.br/contato?x=1')).toBe('https://www.suaempresa.com.br')
+      expect(normalizeOrigin('http://localhost:3000')).toBe('http://localhost:3000')
+      expect(normalizeOrigin('*.suaempresa.com.br')).toBe('https://*.suaempresa.com.br')
+    })
+
+    it('should reject values that are not web domains', () => {
+      expect(normalizeOrigin('')).toBeNull()
+      expect(normalizeOrigin('intranet')).toBeNull()
+      expect(normalizeOrigin('ftp://suaempresa.com.br')).toBeNull()
+    })
+  })
+
+  describe('isOriginAllowed', () => {
+    const allowed = ['https://suaempresa.com.br', 'https://*.solar.com.br']
+
+    it('should accept exact origins and subdomains of wildcard entries', () => {
+      expect(isOriginAllowed('https://suaempresa.com.br', allowed)).toBe(true)
+      expect(isOriginAllowed('https://loja.solar.com.br', allowed)).toBe(true)
+    })
+
+    it('should reject other schemes, hosts and the bare wildcard domain', () => {
+      expect(isOriginAllowed('http://suaempresa.com.br', allowed)).toBe(false)
+      expect(isOriginAllowed('https://www.suaempresa.com.br', allowed)).toBe(false)
+      expect(isOriginAllowed('https://solar.com.br', allowed)).toBe(false)
+      expect(isOriginAllowed('https://fakesolar.com.br', allowed)).toBe(false)
+      expect(isOriginAllowed('null', allowed)).toBe(false)
+      expect(isOriginAllowed('https://suaempresa.com.br', [])).toBe(false)
+    })
+  })
+
+  describe('companyApiKeySchema', () => {
+    it('should normalize and deduplicate the allowed origins', () => {
+      const result = companyApiKeySchema.parse({
+        name: 'Site',
+        allowedOrigins: ['suaempresa.com.br', 'https://suaempresa.com.br/', ' ']
+      })
+
+      expect(result.allowedOrigins).toEqual(['https://suaempresa.com.br'])
+    })
+
+    it('should report invalid domains', () => {
+      const result = companyApiKeySchema.safeParse({ name: 'Site', allowedOrigins: ['não é domínio'] })
+
+      expect(result.success).toBe(false)
+    })
+  })
+
+  describe('authenticateApiKey', () => {
+    const now = new Date('2026-10-19T12:00:00Z')
+
+    it('should reject revoked keys', async () => {
+      mockDb.companyApiKey.findUnique.mockResolvedValue({ id: 'key-1', revokedAt: new Date(), lastUsedAt: null })
+
+      expect(await authenticateApiKey(`${API_KEY_PREFIX}abc`, now)).toBeNull()
+      expect(mockDb.companyApiKey.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { keyHash: hashApiKey(`${API_KEY_PREFIX}abc`) }
+      }))
+    })
+
+    it('should not query keys without the prefix', async () => {
+      expect(await authenticateApiKey('outra-chave', now)).toBeNull()
+      expect(mockDb.companyApiKey.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should only refresh lastUsedAt after a few minutes', async () => {
+      mockDb.companyApiKey.findUnique.mockResolvedValue({
+        id: 'key-1',
+        revokedAt: null,
+        lastUsedAt: new Date('2026-10-19T11:58:00Z')
+      })
+
+      await authenticateApiKey(`${API_KEY_PREFIX}abc`, now)
+      expect(mockDb.companyApiKey.update).not.toHaveBeenCalled()
+
+      mockDb.companyApiKey.findUnique.mockResolvedValue({
+        id: 'key-1',
+        revokedAt: null,
+        lastUsedAt: new Date('2026-10-19T11:50:00Z')
+      })
+
+      await authenticateApiKey(`${API_KEY_PREFIX}abc`, now)
+      expect(mockDb.companyApiKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-1' },
+        data: { lastUsedAt: now }
+      })
+    })
+  })
+})
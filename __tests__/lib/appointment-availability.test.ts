@@ -0,0 +1,181 @@
+import type { Prisma } from '@prisma/client'
+import {
+  chooseTechnician,
+  getBrazilianNationalHolidays,
+  getCompanyDayAvailability,
+  getDayAvailability,
+  getEasterSunday,
+  getNationalHoliday,
+  parseAvailabilityConfig,
+  type DayAvailabilityInput
+} from '@/lib/appointments'
+
+jest.mock('../../lib/db', () => ({ db: {} }))
+
+const day = [{ start: '08:00', end: '12:00' }, { start: '13:00', end: '17:00' }]
+
+// Visitas só de terça a sábado, de hora em hora
+const config = parseAvailabilityConfig({
+  weeklyHours: [[], [], day, day, day, day, day],
+  slotIntervalMinutes: 60,
+  visitDurationMinutes: 60,
+  bufferMinutes: 30,
+  minNoticeHours: 24,
+  maxAdvanceDays: 60
+})
+
+const now = new Date('2026-10-19T12:00:00Z') // segunda-feira, 09:00 em Brasília
+const WEDNESDAY = '2026-10-21'
+
+function availability(overrides: Partial<DayAvailabilityInput> = {}) {
+  return getDayAvailability({
+    date: WEDNESDAY,
+    config,
+    technicians: [],
+    blackouts: [],
+    appointments: [],
+    now,
+    ...overrides
+  })
+}
+
+const visit = (time: string, technicianId: string | null = null, duration = 60) => ({
+  date: new Date(`${WEDNESDAY}T${time}:00-03:00`),
+  duration,
+  technicianId
+})
+
+const availableTimes = (result: ReturnType<typeof getDayAvailability>) =>
+  result.slots.filter(slot => slot.available).map(slot => slot.time)
+
+describe('Brazilian national holidays', () => {
+  it('should compute Easter and the movable holidays', () => {
+    expect(getEasterSunday(2025).toISOString().slice(0, 10)).toBe('2025-04-20')
+    expect(getEasterSunday(2026).toISOString().slice(0, 10)).toBe('2026-04-05')
+
+    const dates = getBrazilianNationalHolidays(2025).map(holiday => holiday.date)
+
+    expect(dates).toEqual(expect.arrayContaining(['2025-03-03', '2025-03-04', '2025-04-18', '2025-06-19']))
+    expect(dates).toHaveLength(13)
+  })
+
+  it('should find fixed holidays by date', () => {
+    expect(getNationalHoliday('2026-11-20')?.name).toBe('Dia Nacional de Zumbi e da Consciência Negra')
+    expect(getNationalHoliday('2026-11-21')).toBeNull()
+  })
+})
+
+describe('getDayAvailability', () => {
+  it('should offer hourly slots inside the working intervals', () => {
+    const result = availability()
+
+    expect(result.closedReason).toBeNull()
+    expect(availableTimes(result)).toEqual(['08:00', '09:00', '10:00', '11:00', '13:00', '14:00', '15:00', '16:00'])
+  })
+
+  it('should close weekdays without working hours', () => {
+    const result = availability({ date: '2026-10-26' })
+
+    expect(result.slots).toEqual([])
+    expect(result.closedReason).toContain('segunda')
+  })
+
+  it('should close national holidays unless the company works on them', () => {
+    expect(availability({ date: '2026-11-20' }).closedReason).toBe('Feriado: Dia Nacional de Zumbi e da Consciência Negra')
+
+    const working = availability({ date: '2026-11-20', config: { ...config, observeNationalHolidays: false } })
+    expect(working.slots.length).toBeGreaterThan(0)
+  })
+
+  it('should close company-wide blackout dates with their reason', () => {
+    const result = availability({
+      blackouts: [{ startDate: '2026-10-20', endDate: '2026-10-23', reason: 'Feriado municipal', technicianId: null }]
+    })
+
+    expect(result.closedReason).toBe('Feriado municipal')
+  })
+
+  it('should keep the travel buffer around existing visits', () => {
+    const result = availability({ appointments: [visit('10:00')] })
+
+    expect(availableTimes(result)).toEqual(['08:00', '13:00', '14:00', '15:00', '16:00'])
+  })
+
+  it('should respect the minimum notice and the booking window', () => {
+    expect(availableTimes(availability({ now: new Date('2026-10-20T12:30:00Z') }))[0]).toBe('10:00')
+    expect(availability({ date: '2026-10-16' }).closedReason).toBe('Data já passou')
+    expect(availability({ date: '2027-01-05' }).closedReason).toContain('60 dias')
+  })
+
+  it('should book technicians in parallel, each with their own schedule', () => {
+    const afternoonOnly = [[], [], [], [{ start: '13:00', end: '17:00' }], [], [], []]
+    const result = availability({
+      technicians: [
+        { id: 'ana', workingHours: null },
+        { id: 'bruno', workingHours: afternoonOnly }
+      ],
+      appointments: [visit('14:00', 'ana')]
+    })
+
+    const slot = (time: string) => result.slots.find(item => item.time === time)
+
+    expect(slot('08:00')?.technicianIds).toEqual(['ana'])
+    expect(slot('14:00')?.technicianIds).toEqual(['bruno'])
+    expect(slot('16:00')?.technicianIds).toEqual(['ana', 'bruno'])
+  })
+
+  it('should count visits without a technician against any of them', () => {
+    const result = availability({
+      technicians: [{ id: 'ana', workingHours: null }, { id: 'bruno', workingHours: null }],
+      appointments: [visit('08:00'), visit('08:00', 'ana')]
+    })
+
+    expect(result.slots.find(slot => slot.time === '08:00')?.available).toBe(false)
+  })
+
+  it('should skip technicians on leave', () => {
+    const result = availability({
+      technicians: [{ id: 'ana', workingHours: null }, { id: 'bruno', workingHours: null }],
+      blackouts: [{ startDate: WEDNESDAY, endDate: WEDNESDAY, reason: 'Férias', technicianId: 'ana' }]
+    })
+
+    expect(result.slots.every(slot => slot.technicianIds.join() === 'bruno')).toBe(true)
+
+    const nobody = availability({
+      technicians: [{ id: 'ana', workingHours: null }],
+      blackouts: [{ startDate: WEDNESDAY, endDate: WEDNESDAY, reason: 'Férias', technicianId: 'ana' }]
+    })
+
+    expect(nobody.closedReason).toBe('Nenhum técnico disponível nesta data')
+  })
+})
+
+describe('chooseTechnician', () => {
+  it('should pick the free technician with fewer visits that day', () => {
+    expect(chooseTechnician(['ana', 'bruno'], [visit('08:00', 'ana')])).toBe('bruno')
+    expect(chooseTechnician(['ana', 'bruno'], [])).toBe('ana')
+    expect(chooseTechnician([], [])).toBeNull()
+  })
+})
+
+describe('getCompanyDayAvailability', () => {
+  it('should read the schedule through the given transaction client', async () => {
+    const client = {
+      companyProfile: { findUnique: jest.fn().mockResolvedValue({ availabilityConfig: config }) },
+      technician: { findMany: jest.fn().mockResolvedValue([]) },
+      companyBlackoutDate: { findMany: jest.fn().mockResolvedValue([]) },
+      appointment: { findMany: jest.fn().mockResolvedValue([visit('10:00')]) }
+    }
+
+    const result = await getCompanyDayAvailability('company-1', WEDNESDAY, {
+      now,
+      excludeAppointmentId: 'appointment-1',
+      client: client as unknown as Prisma.TransactionClient
+    })
+
+    expect(result?.slots.find(slot => slot.time === '10:00')?.available).toBe(false)
+    expect(client.appointment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ companyId: 'company-1', id: { not: 'appointment-1' } })
+    }))
+  })
+})
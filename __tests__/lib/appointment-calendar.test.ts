@@ -0,0 +1,190 @@
+import { db } from '../../lib/db'
+import { sendEmail, createAppointmentEmailTemplate } from '../../lib/email'
+import {
+  buildCalendar,
+  buildCalendarFeed,
+  escapeText,
+  foldLine,
+  sendAppointmentInvites,
+  toCalendarEvent,
+  type CalendarAppointment
+} from '../../lib/appointments'
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    appointment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn()
+    },
+    technician: {
+      findUnique: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn()
+    }
+  }
+}))
+
+jest.mock('../../lib/email', () => ({
+  sendEmail: jest.fn().mockResolvedValue({ success: true }),
+  createAppointmentEmailTemplate: jest.fn().mockReturnValue('<html></html>')
+}))
+
+const mockDb = db as unknown as {
+  appointment: { findUnique: jest.Mock; findMany: jest.Mock }
+  technician: { findUnique: jest.Mock }
+  user: { findUnique: jest.Mock }
+}
+
+const appointment: CalendarAppointment = {
+  id: 'apt-1',
+  title: 'Visita técnica para avaliação',
+  description: 'Telhado cerâmico, duas águas',
+  date: new Date('2026-10-21T13:00:00Z'),
+  duration: 90,
+  location: 'Rua das Flores, 123, Belo Horizonte',
+  status: 'CONFIRMED',
+  notes: 'Portão azul',
+  sequence: 2,
+  updatedAt: new Date('2026-10-19T15:30:00Z'),
+  company: { name: 'Sol Forte', email: 'contato@solforte.com.br', user: { email: 'dono@solforte.com.br' } },
+  user: { name: 'Maria Souza', email: 'maria@email.com' },
+  technician: { name: 'João' }
+}
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+describe('iCalendar', () => {
+  it('should escape text values', () => {
+    expect(escapeText('Rua A, 10; fundos\\casa\nportão')).toBe('Rua A\\, 10\\; fundos\\\\casa\\nportão')
+  })
+
+  it('should fold long lines at 75 octets without splitting accented characters', () => {
+    const line = `DESCRIPTION:${'ação '.repeat(30)}`
+    const folded = foldLine(line).split('\r\n')
+
+    expect(folded.length).toBeGreaterThan(1)
+    folded.forEach(part => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75))
+    expect(folded.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line)
+  })
+
+  it('should build a published event with stable UID, sequence and times in UTC', () => {
+    const ics = buildCalendar([toCalendarEvent(appointment, { audience: 'company' })], { name: 'Visitas - Sol Forte', now })
+    const lines = ics.split('\r\n')
+
+    expect(ics.endsWith('\r\n')).toBe(true)
+    expect(lines).toEqual(expect.arrayContaining([
+      'BEGIN:VCALENDAR',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Visitas - Sol Forte',
+      'UID:appointment-apt-1@solarconnect.com.br',
+      'SEQUENCE:2',
+      'DTSTAMP:20261019T120000Z',
+      'DTSTART:20261021T130000Z',
+      'DTEND:20261021T143000Z',
+      'SUMMARY:Visita técnica para avaliação - Maria Souza',
+      'STATUS:CONFIRMED',
+      'LOCATION:Rua das Flores\\, 123\\, Belo Horizonte',
+      'END:VCALENDAR'
+    ]))
+    expect(ics).not.toContain('ORGANIZER')
+  })
+
+  it('should show the company to the customer and keep internal notes out', () => {
+    const event = toCalendarEvent(appointment, { audience: 'customer' })
+
+    expect(event.summary).toBe('Visita técnica para avaliação - Sol Forte')
+    expect(event.description).toContain('Técnico: João')
+    expect(event.description).not.toContain('Portão azul')
+  })
+
+  it('should map appointment statuses to event statuses', () => {
+    expect(toCalendarEvent({ ...appointment, status: 'SCHEDULED' }, { audience: 'customer' }).status).toBe('TENTATIVE')
+    expect(toCalendarEvent({ ...appointment, status: 'RESCHEDULED' }, { audience: 'customer' }).status).toBe('CONFIRMED')
+    expect(toCalendarEvent({ ...appointment, status: 'CANCELLED' }, { audience: 'customer' }).status).toBe('CANCELLED')
+  })
+
+  it('should add organizer and attendee to invites', () => {
+    const ics = buildCalendar([toCalendarEvent(appointment, { audience: 'customer', withParticipants: true })], { method: 'REQUEST', now })
+
+    expect(ics).toContain('METHOD:REQUEST')
+    expect(ics).toContain('ORGANIZER;CN="Sol Forte":mailto:contato@solforte.com.br')
+    expect(ics).toContain('ATTENDEE;CN="Maria Souza";ROLE=REQ-PARTICIPANT')
+  })
+})
+
+describe('sendAppointmentInvites', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should email the customer and the company with the invite attached', async () => {
+    mockDb.appointment.findUnique.mockResolvedValue({ ...appointment, accessToken: 'token-1' })
+
+    await sendAppointmentInvites('apt-1', 'confirmed')
+
+    const calls = (sendEmail as jest.Mock).mock.calls.map(call => call[0])
+    expect(calls.map(call => call.to)).toEqual(['maria@email.com', 'contato@solforte.com.br'])
+    expect(calls[0].attachments[0]).toEqual(expect.objectContaining({
+      filename: 'convite.ics',
+      contentType: 'text/calendar; charset=utf-8; method=REQUEST'
+    }))
+    expect(calls[0].attachments[0].content).toContain('SUMMARY:Visita técnica para avaliação - Sol Forte')
+
+    // Só o cliente recebe o link para confirmar, remarcar ou cancelar
+    const templates = (createAppointmentEmailTemplate as jest.Mock).mock.calls.map(call => call[0])
+    expect(templates[0].manageUrl).toContain('/visita/apt-1?token=token-1')
+    expect(templates[1].manageUrl).toBeUndefined()
+  })
+
+  it('should send a CANCEL invite when the visit is cancelled', async () => {
+    mockDb.appointment.findUnique.mockResolvedValue({ ...appointment, status: 'CANCELLED', sequence: 3 })
+
+    await sendAppointmentInvites('apt-1', 'cancelled')
+
+    const attachment = (sendEmail as jest.Mock).mock.calls[0][0].attachments[0]
+    expect(attachment.content).toContain('METHOD:CANCEL')
+    expect(attachment.content).toContain('STATUS:CANCELLED')
+    expect(attachment.content).toContain('SEQUENCE:3')
+  })
+})
+
+describe('buildCalendarFeed', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.appointment.findMany.mockResolvedValue([appointment])
+  })
+
+  it('should list the technician visits for a technician link', async () => {
+    mockDb.technician.findUnique.mockResolvedValue({ id: 'tec-1', name: 'João', company: { name: 'Sol Forte' } })
+
+    const ics = await buildCalendarFeed('token', now)
+
+    expect(mockDb.appointment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { technicianId: 'tec-1', date: { gte: new Date('2026-07-21T12:00:00Z') } }
+    }))
+    expect(ics).toContain('X-WR-CALNAME:Visitas - João (Sol Forte)')
+  })
+
+  it('should list company visits for the company user and own visits for customers', async () => {
+    mockDb.technician.findUnique.mockResolvedValue(null)
+    mockDb.user.findUnique.mockResolvedValueOnce({ id: 'user-1', role: 'COMPANY', company: { id: 'company-1', name: 'Sol Forte' } })
+
+    await buildCalendarFeed('token', now)
+    expect(mockDb.appointment.findMany.mock.calls[0][0].where.companyId).toBe('company-1')
+
+    mockDb.user.findUnique.mockResolvedValueOnce({ id: 'user-2', role: 'CUSTOMER', company: null })
+
+    const ics = await buildCalendarFeed('token', now)
+    expect(mockDb.appointment.findMany.mock.calls[1][0].where.userId).toBe('user-2')
+    expect(ics).toContain('SUMMARY:Visita técnica para avaliação - Sol Forte')
+  })
+
+  it('should return null for unknown links', async () => {
+    mockDb.technician.findUnique.mockResolvedValue(null)
+    mockDb.user.findUnique.mockResolvedValue(null)
+
+    expect(await buildCalendarFeed('unknown', now)).toBeNull()
+    expect(mockDb.appointment.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,143 @@
+import { db } from '../../lib/db'
+import { sendEmail, createAppointmentEmailTemplate } from '../../lib/email'
+import {
+  MAX_CUSTOMER_RESCHEDULES,
+  getAppointmentChangeBlocker,
+  getAppointmentReminderStage,
+  sendAppointmentReminders
+} from '../../lib/appointments'
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    appointment: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn()
+    }
+  }
+}))
+
+jest.mock('../../lib/email', () => ({
+  sendEmail: jest.fn().mockResolvedValue({ success: true }),
+  createAppointmentEmailTemplate: jest.fn().mockReturnValue('<html></html>')
+}))
+
+const mockDb = db as unknown as {
+  appointment: { findMany: jest.Mock; updateMany: jest.Mock; update: jest.Mock }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const now = new Date('2026-10-20T12:00:00Z')
+
+function buildAppointment(hoursAhead: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'apt-1',
+    title: 'Visita técnica para avaliação',
+    date: new Date(now.getTime() + hoursAhead * HOUR_MS),
+    duration: 60,
+    location: 'Rua das Flores, 123',
+    status: 'SCHEDULED',
+    accessToken: 'token-1',
+    customerConfirmedAt: null,
+    createdAt: new Date('2026-10-10T12:00:00Z'),
+    reminder24hSentAt: null,
+    reminder2hSentAt: null,
+    company: { name: 'Sol Forte', email: 'contato@solforte.com.br', user: { email: 'dono@solforte.com.br' } },
+    user: { name: 'Maria Souza', email: 'maria@email.com' },
+    technician: null,
+    ...overrides
+  }
+}
+
+describe('getAppointmentReminderStage', () => {
+  it('should send the 24h reminder inside the day before the visit', () => {
+    expect(getAppointmentReminderStage(buildAppointment(30), now)).toBeNull()
+    expect(getAppointmentReminderStage(buildAppointment(20), now)).toBe('24h')
+    expect(getAppointmentReminderStage(buildAppointment(20, { reminder24hSentAt: now }), now)).toBeNull()
+  })
+
+  it('should send only the 2h reminder close to the visit', () => {
+    expect(getAppointmentReminderStage(buildAppointment(1.5), now)).toBe('2h')
+    expect(getAppointmentReminderStage(buildAppointment(1.5, { reminder2hSentAt: now }), now)).toBeNull()
+    expect(getAppointmentReminderStage(buildAppointment(-1), now)).toBeNull()
+  })
+
+  it('should skip the 24h reminder for visits booked inside the window', () => {
+    const bookedYesterday = buildAppointment(20, { createdAt: new Date(now.getTime() - 2 * HOUR_MS) })
+    expect(getAppointmentReminderStage(bookedYesterday, now)).toBeNull()
+  })
+})
+
+describe('sendAppointmentReminders', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.appointment.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('should email the customer once with the link to confirm, reschedule or cancel', async () => {
+    mockDb.appointment.findMany.mockResolvedValue([buildAppointment(20)])
+
+    const reminded = await sendAppointmentReminders(now)
+
+    expect(reminded).toBe(1)
+    expect(mockDb.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'apt-1', reminder24hSentAt: null },
+      data: { reminder24hSentAt: now }
+    })
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'maria@email.com' }))
+    expect(createAppointmentEmailTemplate).toHaveBeenCalledWith(expect.objectContaining({
+      withInvite: false,
+      manageUrl: expect.stringContaining('/visita/apt-1?token=token-1')
+    }))
+  })
+
+  it('should mark the skipped 24h reminder when sending the 2h one', async () => {
+    mockDb.appointment.findMany.mockResolvedValue([buildAppointment(1)])
+
+    await sendAppointmentReminders(now)
+
+    expect(mockDb.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'apt-1', reminder2hSentAt: null },
+      data: { reminder2hSentAt: now, reminder24hSentAt: now }
+    })
+  })
+
+  it('should not email when another server already sent the reminder', async () => {
+    mockDb.appointment.findMany.mockResolvedValue([buildAppointment(20)])
+    mockDb.appointment.updateMany.mockResolvedValue({ count: 0 })
+
+    expect(await sendAppointmentReminders(now)).toBe(0)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('should create the customer link for visits booked before it existed', async () => {
+    mockDb.appointment.findMany.mockResolvedValue([buildAppointment(20, { accessToken: null })])
+
+    await sendAppointmentReminders(now)
+
+    expect(mockDb.appointment.update).toHaveBeenCalledWith({
+      where: { id: 'apt-1' },
+      data: { accessToken: expect.any(String) }
+    })
+    expect(sendEmail).toHaveBeenCalled()
+  })
+})
+
+describe('customer appointment link', () => {
+  it('should block changes to finished or past visits', () => {
+    const upcoming = { status: 'CONFIRMED', date: new Date(now.getTime() + HOUR_MS), rescheduleCount: 0 }
+
+    expect(getAppointmentChangeBlocker(upcoming, 'cancel', now)).toBeNull()
+    expect(getAppointmentChangeBlocker({ ...upcoming, status: 'CANCELLED' }, 'confirm', now)).toBe('Esta visita foi cancelada')
+    expect(getAppointmentChangeBlocker({ ...upcoming, status: 'COMPLETED' }, 'cancel', now)).toBe('Esta visita já foi realizada')
+    expect(getAppointmentChangeBlocker({ ...upcoming, date: new Date(now.getTime() - HOUR_MS) }, 'reschedule', now))
+      .toBe('O horário desta visita já passou')
+  })
+
+  it('should limit how many times the customer reschedules by the link', () => {
+    const visit = { status: 'RESCHEDULED', date: new Date(now.getTime() + 48 * HOUR_MS), rescheduleCount: MAX_CUSTOMER_RESCHEDULES }
+
+    expect(getAppointmentChangeBlocker(visit, 'reschedule', now)).toContain('remarcada o máximo de vezes')
+    expect(getAppointmentChangeBlocker(visit, 'cancel', now)).toBeNull()
+  })
+})
@@ -0,0 +1,207 @@
+import { deflateSync } from 'zlib'
+import { PdfDocument } from '@/lib/pdf'
+import { PdfTextError, extractPdfText } from '@/lib/pdf-text'
+import { getMonthlyConsumptionProfile, parseElectricityBill } from '@/lib/solar'
+
+const CEMIG_TEXT = [
+  'CEMIG DISTRIBUIÇÃO S.A. CNPJ 06.981.180/0001-16',
+  'Nº DA INSTALAÇÃO 3012345678',
+  'Classe Residencial Subclasse Residencial Bifásico',
+  'Referente a MAR/2025 Vencimento 15/04/2025 Valor a pagar (R$) 287,45',
+  'Energia Elétrica kWh 320 0,72116000 0,95650000 306,08',
+  'Energia injetada SCEE kWh 50 0,70000000 -35,00',
+  'Contrib Ilum Publica Municipal 16,37',
+  'Histórico de Consumo',
+  'MAR/25 320 30',
+  'FEV/25 280 29',
+  'JAN/25 300 31',
+  'DEZ/24 350 30',
+  'NOV/24 310 30'
+].join('\n')
+
+const ENEL_TEXT = [
+  'Enel Distribuição São Paulo www.enel.com.br',
+  'Nº do Cliente 12345678',
+  'Tipo de ligação: TRIFÁSICO',
+  'Conta mês 04/2025',
+  'Consumo Uso Sistema [KWh]-TUSD 400 0,41230000 0,52340000 209,36',
+  'Consumo - TE 400 0,28010000 0,35560000 142,24',
+  'Total a pagar R$ 412,10',
+  'Consumo faturado',
+  '04/2025 400 03/2025 380 02/2025 420',
+  '01/2025 1.050'
+].join('\n')
+
+// PDF mínimo comprimido com fonte Type0 e CMap ToUnicode, como os gerados pelas distribuidoras
+function buildType0Pdf(lines: string[]): Buffer {
+  const glyphs = new Map<string, number>()
+  const encode = (text: string) =>
+    Array.from(text).map(char => {
+      if (!glyphs.has(char)) glyphs.set(char, glyphs.size + 1)
+      return glyphs.get(char)!.toString(16).padStart(4, '0')
+    }).join('')
+
+  const content = lines.map((line, index) => `BT /F1 10 Tf 40 ${800 - index * 14} Td <${encode(line)}> Tj ET`).join('\n')
+  const hex = (value: number) => value.toString(16).padStart(4, '0')
+  const cmap = [
+    '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    `${glyphs.size} beginbfchar`,
+    ...Array.from(glyphs.entries()).map(([char, code]) => `<${hex(code)}> <${hex(char.charCodeAt(0))}>`),
+    'endbfchar endcmap CMapName currentdict /CMap defineresource pop end end'
+  ].join('\n')
+
+  const stream = (data: string) => {
+    const compressed = deflateSync(Buffer.from(data, 'latin1')).toString('latin1')
+    return `<< /Length ${compressed.length} /Filter /FlateDecode >>\nstream\n${compressed}\nendstream`
+  }
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>',
+    stream(content),
+    '<< /Type /Font /Subtype /Type0 /BaseFont /Arial /Encoding /Identity-H /DescendantFonts [6 0 R] /ToUnicode 7 0 R >>',
+    '<< /Type /Font /Subtype /CIDFontType2 /BaseFont /Arial /DW 500 >>',
+    stream(cmap)
+  ]
+
+  let pdf = '%PDF-1.5\n'
+  objects.forEach((object, index) => {
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
+
+describe('parseElectricityBill', () => {
+  it('should read a Cemig bill with a single energy item', () => {
+    const bill = parseElectricityBill(CEMIG_TEXT)
+
+    expect(bill.distributor).toBe('CEMIG')
+    expect(bill.ucNumber).toBe('3012345678')
+    expect(bill.connectionType).toBe('BIFASICO')
+    expect(bill.tariff).toBe(0.9565)
+    expect(bill.amountDue).toBe(287.45)
+    expect(bill.referenceMonth).toBe('2025-03')
+    expect(bill.consumptionHistory).toEqual([
+      { month: '2024-11', consumption: 310 },
+      { month: '2024-12', consumption: 350 },
+      { month: '2025-01', consumption: 300 },
+      { month: '2025-02', consumption: 280 },
+      { month: '2025-03', consumption: 320 }
+    ])
+    expect(bill.averageConsumption).toBe(312)
+  })
+
+  it('should add TUSD and TE when the bill splits them', () => {
+    const bill = parseElectricityBill(ENEL_TEXT)
+
+    expect(bill.distributor).toBe('ENEL')
+    expect(bill.ucNumber).toBe('12345678')
+    expect(bill.connectionType).toBe('TRIFASICO')
+    expect(bill.tariff).toBe(0.879)
+    expect(bill.amountDue).toBe(412.1)
+    expect(bill.consumptionHistory.map(record => record.consumption)).toEqual([1050, 420, 380, 400])
+  })
+
+  it('should estimate the tariff from the amount due when no item is readable', () => {
+    const bill = parseElectricityBill('COPEL\nUnidade Consumidora: 87654321\nTotal a pagar 250,00\nMAI/25 200')
+
+    expect(bill.distributor).toBe('COPEL')
+    expect(bill.referenceMonth).toBe('2025-05')
+    expect(bill.tariff).toBe(1.25)
+  })
+
+  it('should leave unknown fields empty', () => {
+    const bill = parseElectricityBill('Documento qualquer')
+
+    expect(bill).toEqual({
+      distributor: null,
+      ucNumber: null,
+      connectionType: null,
+      tariff: null,
+      amountDue: null,
+      referenceMonth: null,
+      consumptionHistory: [],
+      averageConsumption: null
+    })
+  })
+})
+
+describe('getMonthlyConsumptionProfile', () => {
+  it('should place each reading in its calendar month and fill gaps with the average', () => {
+    const profile = getMonthlyConsumptionProfile([
+      { month: '2024-12', consumption: 400 },
+      { month: '2025-01', consumption: 200 }
+    ])
+
+    expect(profile).toHaveLength(12)
+    expect(profile![0]).toBe(200)
+    expect(profile![11]).toBe(400)
+    expect(profile![5]).toBe(300)
+  })
+
+  it('should return undefined without history', () => {
+    expect(getMonthlyConsumptionProfile([])).toBeUndefined()
+  })
+})
+
+describe('extractPdfText', () => {
+  it('should read text written by the report generator', () => {
+    const pdf = new PdfDocument()
+    pdf.text(40, 40, 'CEMIG Nº DA INSTALAÇÃO 3012345678')
+    pdf.text(40, 60, 'MAR/25 320')
+    pdf.text(140, 60, 'FEV/25 280')
+
+    const text = extractPdfText(pdf.toBuffer())
+
+    expect(text.split('\n')).toEqual(['CEMIG Nº DA INSTALAÇÃO 3012345678', 'MAR/25 320 FEV/25 280'])
+  })
+
+  it('should decode compressed streams and Type0 fonts through ToUnicode', () => {
+    const text = extractPdfText(buildType0Pdf(['Enel Nº do Cliente 12345678', 'Consumo - TE 400 0,35560000']))
+
+    expect(text).toBe('Enel Nº do Cliente 12345678\nConsumo - TE 400 0,35560000')
+    expect(parseElectricityBill(text).tariff).toBe(0.3556)
+  })
+
+  it('should stop decompressing past the document budget', () => {
+    const pdf = buildType0Pdf(['Enel Nº do Cliente 12345678'])
+
+    expect(() => extractPdfText(pdf, 16)).toThrow('PDF grande demais')
+  })
+
+  it('should parse many small objects in linear time', () => {
+    const pdf = Buffer.from(`%PDF-1.4\n${'1 0 obj 1 endobj\n'.repeat(40000)}%%EOF`, 'latin1')
+    const started = Date.now()
+
+    expect(extractPdfText(pdf)).toBe('')
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  it('should reject files with too many objects', () => {
+    const pdf = Buffer.from(`%PDF-1.4\n${'1 0 obj 1 endobj\n'.repeat(50001)}%%EOF`, 'latin1')
+
+    expect(() => extractPdfText(pdf)).toThrow('PDF complexo demais')
+  })
+
+  it('should skip long runs of stray delimiters and reject deep nesting', () => {
+    const braces = Buffer.from(`%PDF-1.4\n1 0 obj ${'{'.repeat(200000)} endobj\n%%EOF`, 'latin1')
+    const nested = Buffer.from(`%PDF-1.4\n1 0 obj ${'['.repeat(200000)} endobj\n%%EOF`, 'latin1')
+
+    expect(extractPdfText(braces)).toBe('')
+    expect(() => extractPdfText(nested)).toThrow('PDF complexo demais')
+  })
+
+  it('should reject files that are not PDFs', () => {
+    expect(() => extractPdfText(Buffer.from('not a pdf'))).toThrow(PdfTextError)
+  })
+
+  it('should reject encrypted PDFs', () => {
+    const pdf = Buffer.from('%PDF-1.4\ntrailer\n<< /Root 1 0 R /Encrypt 2 0 R >>\n%%EOF', 'latin1')
+
+    expect(() => extractPdfText(pdf)).toThrow('protegido por senha')
+  })
+})
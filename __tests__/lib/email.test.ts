@@ -1,4 +1,5 @@
 import { createEmailTemplate, createNewLeadEmailTemplate, createQuoteEmailTemplate } from '@/lib/email'
+import { calculatePaymentSummary } from '@/lib/quotes/payment'
 
 describe('Email Templates', () => {
   describe('createEmailTemplate', () => {
@@ -141,5 +142,30 @@ describe('Email Templates', () => {
       expect(result).toContain('https://example.com/logo.png')
       expect(result).toContain('alt="EcoSolar"')
     })
+
+    it('should include payment conditions and the electricity bill comparison', () => {
+      const payment = calculatePaymentSummary(
+        [{ type: 'EQUIPMENT', totalPrice: 20000 }, { type: 'SERVICE', totalPrice: 5000 }],
+        25000,
+        {
+          icmsRate: 12,
+          issRate: 5,
+          cashDiscountPercent: 5,
+          card: { maxInstallments: 12, interestFreeInstallments: 10, monthlyInterestRate: 1.99 },
+          financing: { monthlyInterestRate: 1.5, termMonths: 60, downPaymentPercent: 0 },
+          currentMonthlyBill: 800
+        }
+      )
+
+      const result = createQuoteEmailTemplate({ ...mockQuoteData, payment })
+
+      expect(result).toContain('Condições de Pagamento')
+      expect(result).toMatch(/À vista:<\/strong> R\$\s*23\.750,00/)
+      expect(result).toContain('até 10x sem juros')
+      expect(result).toContain('60x de')
+      expect(result).toContain('Parcela x conta de luz')
+      expect(result).toContain('ICMS sobre equipamentos (12%)')
+      expect(result).toContain('ISS sobre serviços (5%)')
+    })
   })
 })
\ No newline at end of file
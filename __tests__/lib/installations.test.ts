@@ -0,0 +1,245 @@
+import { db } from '../../lib/db'
+import { sendEmail } from '../../lib/email'
+import { createInstallationUpdateNotification } from '../../lib/notifications'
+import {
+  createInstallationProject,
+  getCurrentInstallationStage,
+  getInstallationProgress,
+  getInstallationStepBlocker,
+  INSTALLATION_STAGES,
+  InstallationError,
+  isInstallationStepOverdue,
+  parseExpectedDate,
+  updateInstallationStep,
+  type InstallationStage
+} from '../../lib/installations'
+
+jest.mock('uploadthing/server', () => ({
+  UTApi: jest.fn().mockImplementation(() => ({
+    generateSignedURL: jest.fn(),
+    deleteFiles: jest.fn()
+  }))
+}))
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    installationProject: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), create: jest.fn(), update: jest.fn() },
+    installationStep: { update: jest.fn() },
+    quote: { findUnique: jest.fn() },
+    $transaction: jest.fn()
+  }
+}))
+
+jest.mock('../../lib/email', () => ({
+  sendEmail: jest.fn(),
+  createInstallationUpdateEmailTemplate: jest.fn(() => '<html></html>')
+}))
+
+jest.mock('../../lib/notifications', () => ({
+  createInstallationUpdateNotification: jest.fn()
+}))
+
+const mockDb = db as unknown as {
+  installationProject: { findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; create: jest.Mock; update: jest.Mock }
+  installationStep: { update: jest.Mock }
+  quote: { findUnique: jest.Mock }
+  $transaction: jest.Mock
+}
+
+const mockSendEmail = sendEmail as jest.Mock
+const mockNotification = createInstallationUpdateNotification as jest.Mock
+
+// Etapas concluídas até a informada (inclusive)
+function stepsDoneUntil(last: InstallationStage | null) {
+  const lastIndex = last ? INSTALLATION_STAGES.indexOf(last) : -1
+  return INSTALLATION_STAGES.map((stage, index) => ({
+    id: `step-${stage}`,
+    stage,
+    expectedDate: null as Date | null,
+    completedAt: index <= lastIndex ? new Date('2026-10-01T12:00:00Z') : null,
+    notes: null
+  }))
+}
+
+describe('installation stages', () => {
+  it('should point to the first pending stage', () => {
+    expect(getCurrentInstallationStage(stepsDoneUntil('CONTRACT_SIGNED'))).toBe('EQUIPMENT_PURCHASED')
+    expect(getCurrentInstallationStage(stepsDoneUntil('METER_SWAP'))).toBe('CONNECTED')
+    expect(getCurrentInstallationStage(stepsDoneUntil('CONNECTED'))).toBe('CONNECTED')
+  })
+
+  it('should complete stages in order and reopen only the last completed one', () => {
+    const steps = stepsDoneUntil('INSTALLATION')
+
+    expect(getInstallationStepBlocker(steps, 'ART_ISSUED', true)).toBeNull()
+    expect(getInstallationStepBlocker(steps, 'INSPECTION', true)).toBe('Conclua antes a etapa "ART emitida"')
+    expect(getInstallationStepBlocker(steps, 'INSTALLATION', true)).toBe('Esta etapa já foi concluída')
+    expect(getInstallationStepBlocker(steps, 'INSTALLATION', false)).toBeNull()
+    expect(getInstallationStepBlocker(steps, 'CONTRACT_SIGNED', false)).toBe('Reabra antes a etapa "Instalação"')
+    expect(getInstallationStepBlocker(steps, 'ART_ISSUED', false)).toBe('Esta etapa ainda não foi concluída')
+  })
+
+  it('should report progress and overdue expected dates', () => {
+    const now = new Date('2026-10-20T15:00:00Z')
+
+    expect(getInstallationProgress(stepsDoneUntil('CONTRACT_SIGNED'))).toBe(13)
+    expect(getInstallationProgress(stepsDoneUntil('CONNECTED'))).toBe(100)
+    expect(isInstallationStepOverdue({ stage: 'INSTALLATION', expectedDate: parseExpectedDate('2026-10-19'), completedAt: null }, now)).toBe(true)
+    expect(isInstallationStepOverdue({ stage: 'INSTALLATION', expectedDate: parseExpectedDate('2026-10-20'), completedAt: null }, now)).toBe(false)
+    expect(isInstallationStepOverdue({ stage: 'INSTALLATION', expectedDate: parseExpectedDate('2026-10-19'), completedAt: now }, now)).toBe(false)
+  })
+
+  it('should store expected dates at noon in Brasília', () => {
+    expect(parseExpectedDate('2026-11-05').toISOString()).toBe('2026-11-05T15:00:00.000Z')
+  })
+})
+
+describe('createInstallationProject', () => {
+  const quote = {
+    id: 'quote-1',
+    companyId: 'company-1',
+    leadId: 'lead-1',
+    userId: null,
+    lead: { name: 'Maria Souza', email: 'maria@email.com' },
+    user: null
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.quote.findUnique.mockResolvedValue(quote)
+    mockDb.installationProject.create.mockResolvedValue({ id: 'project-1' })
+    mockDb.installationProject.findUnique.mockImplementation(({ where }) =>
+      where.quoteId
+        ? null
+        : {
+            id: 'project-1',
+            accessToken: 'token',
+            customerName: 'Maria Souza',
+            customerEmail: 'maria@email.com',
+            currentStage: 'EQUIPMENT_PURCHASED',
+            connectedAt: null,
+            userId: null,
+            steps: stepsDoneUntil('CONTRACT_SIGNED'),
+            company: { name: 'Sol Forte', email: 'contato@solforte.com' }
+          }
+    )
+  })
+
+  it('should open the tracker with the contract signed and email the customer', async () => {
+    const signedAt = new Date('2026-10-19T13:00:00Z')
+
+    await createInstallationProject('quote-1', { signedAt, signerName: 'Maria' })
+
+    const { data } = mockDb.installationProject.create.mock.calls[0][0]
+    expect(data).toMatchObject({
+      quoteId: 'quote-1',
+      companyId: 'company-1',
+      leadId: 'lead-1',
+      customerName: 'Maria Souza',
+      customerEmail: 'maria@email.com',
+      currentStage: 'EQUIPMENT_PURCHASED'
+    })
+    expect(data.steps.create).toHaveLength(INSTALLATION_STAGES.length)
+    expect(data.steps.create[0]).toEqual({ stage: 'CONTRACT_SIGNED', completedAt: signedAt })
+    expect(data.steps.create[1]).toEqual({ stage: 'EQUIPMENT_PURCHASED', completedAt: null })
+    expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'maria@email.com',
+      subject: 'Acompanhe a instalação do seu sistema - Sol Forte'
+    }))
+  })
+
+  it('should return the existing tracker for the same quote', async () => {
+    mockDb.installationProject.findUnique.mockResolvedValue({ id: 'project-1' })
+
+    await expect(createInstallationProject('quote-1')).resolves.toEqual({ id: 'project-1' })
+    expect(mockDb.installationProject.create).not.toHaveBeenCalled()
+    expect(mockSendEmail).not.toHaveBeenCalled()
+  })
+})
+
+describe('updateInstallationStep', () => {
+  const now = new Date('2026-10-20T15:00:00Z')
+
+  function mockProject(steps: ReturnType<typeof stepsDoneUntil>, userId: string | null = 'user-1') {
+    mockDb.installationProject.findUnique.mockResolvedValue({
+      id: 'project-1',
+      accessToken: 'token',
+      customerName: 'Maria Souza',
+      customerEmail: 'maria@email.com',
+      currentStage: getCurrentInstallationStage(steps),
+      connectedAt: null,
+      userId,
+      steps,
+      company: { name: 'Sol Forte', email: null }
+    })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.$transaction.mockResolvedValue([])
+  })
+
+  it('should complete the stage, move the project forward and notify the customer', async () => {
+    mockProject(stepsDoneUntil('CONTRACT_SIGNED'))
+
+    const changes = await updateInstallationStep('project-1', 'EQUIPMENT_PURCHASED', { completed: true }, now)
+
+    expect(changes).toEqual([{ kind: 'completed', stage: 'EQUIPMENT_PURCHASED' }])
+    expect(mockDb.installationStep.update).toHaveBeenCalledWith({
+      where: { id: 'step-EQUIPMENT_PURCHASED' },
+      data: { completedAt: now }
+    })
+    expect(mockDb.installationProject.update).toHaveBeenCalledWith({
+      where: { id: 'project-1' },
+      data: { currentStage: 'INSTALLATION', connectedAt: null }
+    })
+    expect(mockSendEmail).toHaveBeenCalledTimes(1)
+    expect(mockNotification).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ id: 'project-1' }),
+      'Etapa concluída: Compra dos equipamentos',
+      expect.any(String),
+      expect.stringContaining('/instalacao/project-1?token=token')
+    )
+  })
+
+  it('should mark the project as connected when the last stage is completed', async () => {
+    mockProject(stepsDoneUntil('METER_SWAP'))
+
+    await updateInstallationStep('project-1', 'CONNECTED', { completed: true }, now)
+
+    expect(mockDb.installationProject.update).toHaveBeenCalledWith({
+      where: { id: 'project-1' },
+      data: { currentStage: 'CONNECTED', connectedAt: now }
+    })
+  })
+
+  it('should notify new expected dates but not notes', async () => {
+    mockProject(stepsDoneUntil('CONTRACT_SIGNED'), null)
+
+    const changes = await updateInstallationStep('project-1', 'INSTALLATION', { expectedDate: '2026-11-05', notes: 'Equipe de 3 pessoas' }, now)
+
+    expect(changes).toEqual([{ kind: 'expected_date', stage: 'INSTALLATION', expectedDate: parseExpectedDate('2026-11-05') }])
+    expect(mockDb.installationStep.update).toHaveBeenCalledWith({
+      where: { id: 'step-INSTALLATION' },
+      data: { expectedDate: parseExpectedDate('2026-11-05'), notes: 'Equipe de 3 pessoas' }
+    })
+    expect(mockNotification).not.toHaveBeenCalled()
+
+    jest.clearAllMocks()
+    mockDb.$transaction.mockResolvedValue([])
+    await expect(updateInstallationStep('project-1', 'INSTALLATION', { notes: 'Chegada às 8h' }, now)).resolves.toEqual([])
+    expect(mockSendEmail).not.toHaveBeenCalled()
+  })
+
+  it('should refuse stages out of order', async () => {
+    mockProject(stepsDoneUntil('CONTRACT_SIGNED'))
+
+    const error = await updateInstallationStep('project-1', 'INSPECTION', { completed: true }, now).catch(e => e)
+
+    expect(error).toBeInstanceOf(InstallationError)
+    expect(error.message).toBe('Conclua antes a etapa "Compra dos equipamentos"')
+    expect(mockDb.$transaction).not.toHaveBeenCalled()
+    expect(mockSendEmail).not.toHaveBeenCalled()
+  })
+})
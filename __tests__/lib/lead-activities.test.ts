@@ -0,0 +1,171 @@
+import { db } from '../../lib/db'
+import { sendEmail } from '../../lib/email'
+import { createTaskReminderNotification } from '../../lib/notifications'
+import { buildLeadTimeline, getTaskDueState } from '../../lib/leads/activities'
+import { sendDueTaskReminders } from '../../lib/leads/tasks'
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    leadTask: {
+      findMany: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}))
+
+jest.mock('../../lib/email', () => ({
+  sendEmail: jest.fn(),
+  createTaskReminderEmailTemplate: jest.fn(() => '<html></html>')
+}))
+
+jest.mock('../../lib/notifications', () => ({
+  createTaskReminderNotification: jest.fn()
+}))
+
+const mockDb = db as unknown as {
+  leadTask: { findMany: jest.Mock; updateMany: jest.Mock }
+}
+const mockNotify = createTaskReminderNotification as jest.Mock
+const mockSendEmail = sendEmail as jest.Mock
+
+describe('Lead Activities', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('buildLeadTimeline', () => {
+    it('should merge activities, stage changes and completed tasks newest first', () => {
+      const timeline = buildLeadTimeline({
+        activities: [
+          { id: 'a1', type: 'CALL', content: 'Cliente pediu retorno', durationMinutes: 5, occurredAt: minutesFromNow(-60) }
+        ],
+        stageChanges: [
+          { id: 's1', fromStatus: null, toStatus: 'NEW', timeInStageMinutes: null, changedAt: minutesFromNow(-120) },
+          { id: 's2', fromStatus: 'NEW', toStatus: 'CONTACTED', timeInStageMinutes: 60, changedAt: minutesFromNow(-30) }
+        ],
+        tasks: [
+          { id: 't1', title: 'Enviar proposta', completedAt: minutesFromNow(-10), assignee: { name: 'Ana' } },
+          { id: 't2', title: 'Agendar visita', completedAt: null }
+        ]
+      })
+
+      expect(timeline.map(entry => entry.id)).toEqual(['t1', 's2', 'a1', 's1'])
+      expect(timeline[1]).toMatchObject({ kind: 'stage', label: 'Novo → Contatado' })
+      expect(timeline[3]).toMatchObject({ kind: 'stage', label: 'Lead recebido em Novo' })
+      expect(timeline[0]).toMatchObject({ kind: 'task', assigneeName: 'Ana' })
+    })
+
+    it('should include quote milestones and messages exchanged with the customer', () => {
+      const timeline = buildLeadTimeline({
+        quotes: [
+          {
+            id: 'q1',
+            title: 'Sistema 5 kWp',
+            createdAt: minutesFromNow(-300),
+            sentAt: minutesFromNow(-240),
+            viewedAt: null,
+            acceptance: { decision: 'ACCEPTED', signedAt: minutesFromNow(-20) }
+          }
+        ],
+        messages: [
+          {
+            id: 'm1',
+            conversationId: 'c1',
+            content: 'Podemos agendar a visita?',
+            createdAt: minutesFromNow(-60),
+            sender: { id: 'company-user', name: 'Solar Ltda' }
+          },
+          {
+            id: 'm2',
+            conversationId: 'c1',
+            content: '',
+            createdAt: minutesFromNow(-50),
+            sender: { id: 'customer', name: 'João' },
+            _count: { attachments: 2 }
+          }
+        ],
+        companyUserId: 'company-user'
+      })
+
+      expect(timeline.map(entry => entry.id)).toEqual(['q1:accepted', 'm2', 'm1', 'q1:sent', 'q1:created'])
+      expect(timeline[0]).toMatchObject({ kind: 'quote', event: 'accepted', label: 'Orçamento aceito: Sistema 5 kWp' })
+      expect(timeline[1]).toMatchObject({ kind: 'message', fromCustomer: true, attachmentCount: 2 })
+      expect(timeline[2]).toMatchObject({ kind: 'message', fromCustomer: false, attachmentCount: 0 })
+    })
+  })
+
+  describe('getTaskDueState', () => {
+    it('should classify tasks by due date', () => {
+      expect(getTaskDueState({ dueAt: minutesFromNow(-1) }, now)).toBe('overdue')
+      expect(getTaskDueState({ dueAt: minutesFromNow(60) }, now)).toBe('due_soon')
+      expect(getTaskDueState({ dueAt: minutesFromNow(3 * 24 * 60) }, now)).toBe('upcoming')
+      expect(getTaskDueState({ dueAt: minutesFromNow(-1), completedAt: now }, now)).toBe('done')
+    })
+  })
+
+  describe('sendDueTaskReminders', () => {
+    const task = {
+      id: 'task-1',
+      title: 'Ligar para o cliente',
+      dueAt: minutesFromNow(20),
+      assignee: { name: 'João', email: 'joao@empresa.com.br' },
+      lead: { id: 'lead-1', name: 'Maria', company: { userId: 'owner', name: 'Solar Sul', email: null } }
+    }
+
+    it('should look up pending tasks due within the reminder window', async () => {
+      mockDb.leadTask.findMany.mockResolvedValue([])
+
+      await sendDueTaskReminders(now, 30)
+
+      expect(mockDb.leadTask.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          completedAt: null,
+          reminderSentAt: null,
+          dueAt: { lte: minutesFromNow(30) }
+        }
+      }))
+    })
+
+    it('should claim each task before notifying the company and emailing the assignee', async () => {
+      mockDb.leadTask.findMany.mockResolvedValue([task])
+      mockDb.leadTask.updateMany.mockResolvedValue({ count: 1 })
+
+      const reminded = await sendDueTaskReminders(now, 30)
+
+      expect(reminded).toBe(1)
+      expect(mockDb.leadTask.updateMany).toHaveBeenCalledWith({
+        where: { id: 'task-1', reminderSentAt: null, completedAt: null },
+        data: { reminderSentAt: now }
+      })
+      expect(mockNotify).toHaveBeenCalledWith('owner', task, task.lead, now)
+      expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'joao@empresa.com.br',
+        subject: 'Tarefa perto do prazo: Ligar para o cliente'
+      }))
+    })
+
+    it('should only notify the company for tasks without an assignee', async () => {
+      mockDb.leadTask.findMany.mockResolvedValue([{ ...task, assignee: null }])
+      mockDb.leadTask.updateMany.mockResolvedValue({ count: 1 })
+
+      await sendDueTaskReminders(now, 30)
+
+      expect(mockNotify).toHaveBeenCalledWith('owner', expect.anything(), task.lead, now)
+      expect(mockSendEmail).not.toHaveBeenCalled()
+    })
+
+    it('should skip tasks already claimed by another run', async () => {
+      mockDb.leadTask.findMany.mockResolvedValue([task])
+      mockDb.leadTask.updateMany.mockResolvedValue({ count: 0 })
+
+      const reminded = await sendDueTaskReminders(now, 30)
+
+      expect(reminded).toBe(0)
+      expect(mockNotify).not.toHaveBeenCalled()
+      expect(mockSendEmail).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { db } from '../../lib/db'
+import {
+  findDuplicateCandidates,
+  matchDuplicate,
+  nameSimilarity,
+  normalizeEmail,
+  normalizePhone
+} from '../../lib/leads/duplicates'
+import { LeadMergeError, mergeLeads } from '../../lib/leads/merge'
+
+jest.mock('../../lib/db', () => {
+  const tx = {
+    quote: { updateMany: jest.fn() },
+    leadActivity: { updateMany: jest.fn(), create: jest.fn() },
+    leadTask: { updateMany: jest.fn() },
+    conversation: { updateMany: jest.fn() },
+    siteSurvey: { updateMany: jest.fn() },
+    installationProject: { updateMany: jest.fn() },
+    lead: { deleteMany: jest.fn(), update: jest.fn() }
+  }
+
+  return {
+    db: {
+      lead: {
+        findUnique: jest.fn()
+      },
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) => callback(tx)),
+      __tx: tx
+    }
+  }
+})
+
+const mockDb = db as unknown as {
+  lead: { findUnique: jest.Mock }
+  __tx: {
+    quote: { updateMany: jest.Mock }
+    leadActivity: { updateMany: jest.Mock; create: jest.Mock }
+    leadTask: { updateMany: jest.Mock }
+    conversation: { updateMany: jest.Mock }
+    siteSurvey: { updateMany: jest.Mock }
+    installationProject: { updateMany: jest.Mock }
+    lead: { deleteMany: jest.Mock; update: jest.Mock }
+  }
+}
+
+describe('Lead Duplicates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('normalizePhone', () => {
+    it('should produce the same key for common Brazilian phone formats', () => {
+      const key = normalizePhone('(11) 98765-4321')
+
+      expect(key).toBe('1187654321')
+      expect(normalizePhone('+55 11 98765-4321')).toBe(key)
+      expect(normalizePhone('011 98765 4321')).toBe(key)
+      expect(normalizePhone('11 8765-4321')).toBe(key) // Sem o nono dígito
+    })
+
+    it('should not build a key without area code', () => {
+      expect(normalizePhone('98765-4321')).toBeNull()
+    })
+  })
+
+  describe('normalizeEmail', () => {
+    it('should lowercase and trim emails', () => {
+      expect(normalizeEmail('  Maria.Silva@Email.com ')).toBe('maria.silva@email.com')
+    })
+  })
+
+  describe('nameSimilarity', () => {
+    it('should ignore accents, case and extra spaces', () => {
+      expect(nameSimilarity('José  da Conceição', 'jose da conceicao')).toBe(1)
+    })
+
+    it('should match names sharing first and last name', () => {
+      expect(nameSimilarity('Maria Silva', 'Maria Aparecida da Silva')).toBeGreaterThanOrEqual(0.85)
+    })
+
+    it('should score unrelated names low', () => {
+      expect(nameSimilarity('Maria Silva', 'Carlos Pereira')).toBeLessThan(0.5)
+    })
+  })
+
+  describe('matchDuplicate', () => {
+    const base = { name: 'Maria Silva', emailKey: 'maria@email.com', phoneKey: '1187654321', createdAt: new Date('2026-10-19T12:00:00Z') }
+
+    it('should flag same phone with high confidence even with a different email', () => {
+      const match = matchDuplicate(base, { ...base, name: 'M. Silva', emailKey: 'outro@email.com' })
+
+      expect(match).toEqual(expect.objectContaining({ confidence: 'high', reasons: ['phone'] }))
+    })
+
+    it('should only consider similar names close in time', () => {
+      const candidate = { name: 'Maria  Sílva', emailKey: null, phoneKey: null }
+
+      expect(matchDuplicate(base, { ...candidate, createdAt: new Date('2026-10-10T12:00:00Z') }))
+        .toEqual(expect.objectContaining({ confidence: 'medium', reasons: ['name'] }))
+      expect(matchDuplicate(base, { ...candidate, createdAt: new Date('2026-01-10T12:00:00Z') })).toBeNull()
+    })
+
+    it('should sort high confidence candidates first and skip the lead itself', () => {
+      const candidates = findDuplicateCandidates({ id: 'lead-1', ...base }, [
+        { id: 'lead-1', ...base },
+        { id: 'lead-2', ...base, emailKey: null, phoneKey: null },
+        { id: 'lead-3', ...base, name: 'Outra Pessoa', phoneKey: null },
+        { id: 'lead-4', ...base, name: 'Carlos Pereira', emailKey: null, phoneKey: null }
+      ])
+
+      expect(candidates.map(candidate => candidate.id)).toEqual(['lead-3', 'lead-2'])
+    })
+  })
+
+  describe('mergeLeads', () => {
+    const primary = { id: 'primary', companyId: 'company-1', budget: null, source: 'website', simulation: null }
+    const duplicate = {
+      id: 'duplicate',
+      companyId: 'company-1',
+      name: 'Maria Silva',
+      email: 'maria@email.com',
+      phone: '11987654321',
+      status: 'CONTACTED',
+      message: 'Quero um orçamento',
+      budget: 'R$ 20.000',
+      source: 'calculator',
+      simulation: { monthlyBill: 500 },
+      createdAt: new Date('2026-10-18T12:00:00Z')
+    }
+
+    beforeEach(() => {
+      mockDb.lead.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+        Promise.resolve(where.id === 'primary' ? primary : duplicate)
+      )
+    })
+
+    it('should move quotes, activities, tasks, conversations, site surveys and installations and fill empty fields', async () => {
+      mockDb.__tx.lead.deleteMany.mockResolvedValue({ count: 1 })
+
+      await mergeLeads('primary', 'duplicate', { mergedById: 'user-1' })
+
+      expect(mockDb.__tx.quote.updateMany).toHaveBeenCalledWith({
+        where: { leadId: 'duplicate' },
+        data: { leadId: 'primary' }
+      })
+      expect(mockDb.__tx.leadActivity.updateMany).toHaveBeenCalled()
+      expect(mockDb.__tx.leadTask.updateMany).toHaveBeenCalled()
+      expect(mockDb.__tx.conversation.updateMany).toHaveBeenCalledWith({
+        where: { leadId: 'duplicate' },
+        data: { leadId: 'primary' }
+      })
+      expect(mockDb.__tx.siteSurvey.updateMany).toHaveBeenCalledWith({
+        where: { leadId: 'duplicate' },
+        data: { leadId: 'primary' }
+      })
+      expect(mockDb.__tx.installationProject.updateMany).toHaveBeenCalledWith({
+        where: { leadId: 'duplicate' },
+        data: { leadId: 'primary' }
+      })
+      expect(mockDb.__tx.leadActivity.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          leadId: 'primary',
+          authorId: 'user-1',
+          type: 'NOTE',
+          content: expect.stringContaining('Lead duplicado mesclado: Maria Silva')
+        })
+      })
+      expect(mockDb.__tx.lead.update).toHaveBeenCalledWith({
+        where: { id: 'primary' },
+        data: {
+          budget: 'R$ 20.000',
+          source: 'website',
+          simulation: { monthlyBill: 500 }
+        }
+      })
+    })
+
+    it('should fail when the duplicate was already merged', async () => {
+      mockDb.__tx.lead.deleteMany.mockResolvedValue({ count: 0 })
+
+      await expect(mergeLeads('primary', 'duplicate')).rejects.toThrow(LeadMergeError)
+      expect(mockDb.__tx.lead.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to merge a lead into itself', async () => {
+      await expect(mergeLeads('primary', 'primary')).rejects.toThrow(LeadMergeError)
+      expect(mockDb.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
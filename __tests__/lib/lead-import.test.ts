@@ -0,0 +1,183 @@
+import { buildCsv, buildXlsx, parseCsv, parseXlsx, SpreadsheetError } from '../../lib/spreadsheet'
+import { suggestLeadColumnMapping, validateLeadImport } from '../../lib/leads/import'
+import { buildLeadExportRows, LEAD_EXPORT_HEADERS } from '../../lib/leads/export'
+
+// ZIP sem compressão com as partes informadas, para montar XLSX que o buildXlsx não gera
+function buildStoredZip(files: Record<string, string>): Buffer {
+  const local: Buffer[] = []
+  const central: Buffer[] = []
+  let offset = 0
+
+  for (const [fileName, content] of Object.entries(files)) {
+    const name = Buffer.from(fileName)
+    const data = Buffer.from(content)
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt32LE(data.length, 18)
+    header.writeUInt32LE(data.length, 22)
+    header.writeUInt16LE(name.length, 26)
+
+    const entry = Buffer.alloc(46)
+    entry.writeUInt32LE(0x02014b50, 0)
+    entry.writeUInt32LE(data.length, 20)
+    entry.writeUInt32LE(data.length, 24)
+    entry.writeUInt16LE(name.length, 28)
+    entry.writeUInt32LE(offset, 42)
+
+    local.push(header, name, data)
+    central.push(entry, name)
+    offset += header.length + name.length + data.length
+  }
+
+  const directory = Buffer.concat(central)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(central.length / 2, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...local, directory, end])
+}
+
+describe('Lead Import/Export', () => {
+  describe('parseCsv', () => {
+    it('should handle quotes, line breaks and semicolon separated files', () => {
+      const rows = parseCsv('\uFEFFNome;Telefone;Mensagem\r\n"Silva; Maria";11 98765-4321;"Disse ""olá""\nna feira"\r\n\r\n')
+
+      expect(rows).toEqual([
+        ['Nome', 'Telefone', 'Mensagem'],
+        ['Silva; Maria', '11 98765-4321', 'Disse "olá"\nna feira']
+      ])
+    })
+
+    it('should read back what buildCsv writes', () => {
+      const csv = buildCsv([['nome', 'valor'], ['Maria, da Silva', 1500], ['=HYPERLINK("x")', null]])
+
+      expect(parseCsv(csv)).toEqual([['nome', 'valor'], ['Maria, da Silva', '1500'], ['\'=HYPERLINK("x")', '']])
+    })
+  })
+
+  describe('xlsx', () => {
+    it('should read back what buildXlsx writes', () => {
+      const buffer = buildXlsx([{ name: 'Leads', rows: [['nome', 'total'], ['José & Cia <Ltda>', 1234.5], [null, 'SP']] }])
+
+      expect(parseXlsx(buffer)).toEqual([['nome', 'total'], ['José & Cia <Ltda>', '1234.5'], ['', 'SP']])
+    })
+
+    it('should reject files that are not xlsx', () => {
+      expect(() => parseXlsx(Buffer.from('nome,email'))).toThrow(SpreadsheetError)
+    })
+
+    it('should stop inflating past the uncompressed size limit', () => {
+      const buffer = buildXlsx([{ name: 'Leads', rows: Array.from({ length: 200 }, () => ['Maria da Silva', 'maria@email.com']) }])
+
+      expect(() => parseXlsx(buffer, 1024)).toThrow('A planilha é grande demais para importar')
+      expect(parseXlsx(buffer)).toHaveLength(200)
+    })
+
+    it('should reject cell references past the last Excel column', () => {
+      const sheet = (reference: string) => buildStoredZip({
+        'xl/worksheets/sheet1.xml': `<worksheet><sheetData><row r="1"><c r="${reference}" t="inlineStr"><is><t>Maria</t></is></c></row></sheetData></worksheet>`
+      })
+
+      expect(parseXlsx(sheet('C1'))).toEqual([['', '', 'Maria']])
+      expect(() => parseXlsx(sheet('ZZZZZZZZ1'))).toThrow('A planilha tem colunas além do limite do Excel')
+      expect(() => parseXlsx(sheet('XFE1'))).toThrow(SpreadsheetError)
+    })
+  })
+
+  describe('suggestLeadColumnMapping', () => {
+    it('should match headers ignoring accents, case and punctuation', () => {
+      expect(suggestLeadColumnMapping(['Nome Completo', 'E-mail', 'Celular', 'Cidade/UF', 'Observações'])).toEqual({
+        name: 0,
+        email: 1,
+        phone: 2,
+        location: 3,
+        message: 4
+      })
+    })
+
+    it('should map every column of the lead export back to its field', () => {
+      const mapping = suggestLeadColumnMapping(LEAD_EXPORT_HEADERS)
+
+      expect(mapping).toEqual(expect.objectContaining({
+        name: 1,
+        email: 2,
+        phone: 3,
+        location: 4,
+        projectType: 5,
+        budget: 6,
+        message: 7,
+        source: 8,
+        status: 9
+      }))
+    })
+  })
+
+  describe('validateLeadImport', () => {
+    const mapping = { name: 0, email: 1, phone: 2, location: 3, status: 4 }
+    const existing = { emailKeys: new Set(['cliente@antigo.com']), phoneKeys: new Set<string>() }
+
+    it('should report invalid rows and duplicates with their spreadsheet line', () => {
+      const result = validateLeadImport([
+        ['Maria Silva', 'maria@email.com', '(11) 98765-4321', 'Campinas, SP', 'Contatado'],
+        ['João', 'email-invalido', '(11) 91234-5678', 'Santos, SP', ''],
+        ['Ana Souza', 'ana@email.com', '98765-4321', 'Santos, SP', ''],
+        ['Cliente Antigo', 'Cliente@Antigo.com', '(21) 99999-0000', 'Niterói, RJ', ''],
+        ['Maria S.', 'outra@email.com', '11 8765-4321', 'Campinas, SP', '']
+      ], mapping, existing)
+
+      expect(result).toEqual(expect.objectContaining({ totalRows: 5, validRows: 1, invalidRows: 2, duplicateRows: 2 }))
+      expect(result.rows[0]).toEqual(expect.objectContaining({
+        line: 2,
+        status: 'CONTACTED',
+        projectType: 'A definir',
+        source: 'importacao',
+        phoneKey: '1187654321'
+      }))
+      expect(result.issues.map(issue => issue.line)).toEqual([3, 4, 5, 6])
+    })
+
+    it('should keep duplicates when asked to', () => {
+      const result = validateLeadImport(
+        [['Cliente Antigo', 'cliente@antigo.com', '(21) 99999-0000', 'Niterói, RJ', '']],
+        mapping,
+        existing,
+        { skipDuplicates: false }
+      )
+
+      expect(result.validRows).toBe(1)
+      expect(result.duplicateRows).toBe(1)
+    })
+
+    it('should require the mandatory columns', () => {
+      const result = validateLeadImport([['Maria']], { name: 0 }, existing)
+
+      expect(result.validRows).toBe(0)
+      expect(result.issues.map(issue => issue.field)).toEqual(['email', 'phone', 'location'])
+    })
+  })
+
+  describe('buildLeadExportRows', () => {
+    it('should sum accepted quotes and use stage labels', () => {
+      const [, row] = buildLeadExportRows([{
+        id: 'lead-1',
+        name: 'Maria Silva',
+        email: 'maria@email.com',
+        phone: '11987654321',
+        location: 'Campinas, SP',
+        projectType: 'Residencial',
+        budget: null,
+        message: 'Quero um orçamento',
+        source: 'website',
+        status: 'NEGOTIATING',
+        createdAt: new Date('2026-10-19T12:00:00Z'),
+        quotes: [{ status: 'ACCEPTED', totalValue: '25000.50' }, { status: 'REJECTED', totalValue: 30000 }]
+      }])
+
+      expect(row[9]).toBe('Negociando')
+      expect(row[10]).toBe(2)
+      expect(row[11]).toBe(25000.5)
+    })
+  })
+})
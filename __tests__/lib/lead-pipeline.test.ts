@@ -0,0 +1,161 @@
+import { db } from '../../lib/db'
+import {
+  calculatePipelineMetrics,
+  changeLeadStage,
+  findPipelineBottleneck,
+  LeadStageConflictError
+} from '../../lib/leads/pipeline'
+import { formatStageDuration, getLeadSlaStatus } from '../../lib/leads/sla'
+
+jest.mock('../../lib/db', () => {
+  const tx = {
+    lead: {
+      updateMany: jest.fn(),
+      findUnique: jest.fn()
+    },
+    leadStageChange: {
+      create: jest.fn()
+    }
+  }
+
+  return {
+    db: {
+      lead: {
+        findUnique: jest.fn()
+      },
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) => callback(tx)),
+      __tx: tx
+    }
+  }
+})
+
+const mockDb = db as unknown as {
+  lead: { findUnique: jest.Mock }
+  __tx: {
+    lead: { updateMany: jest.Mock; findUnique: jest.Mock }
+    leadStageChange: { create: jest.Mock }
+  }
+}
+
+describe('Lead Pipeline', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('getLeadSlaStatus', () => {
+    it('should flag NEW leads not contacted within 2 hours', () => {
+      const sla = getLeadSlaStatus({ status: 'NEW', stageChangedAt: minutesAgo(150) }, now)
+
+      expect(sla.state).toBe('overdue')
+      expect(sla.limitMinutes).toBe(120)
+      expect(sla.remainingMinutes).toBe(-30)
+      expect(sla.dueAt?.toISOString()).toBe('2026-10-19T11:30:00.000Z')
+    })
+
+    it('should warn when 75% of the deadline has passed', () => {
+      expect(getLeadSlaStatus({ status: 'NEW', stageChangedAt: minutesAgo(95) }, now).state).toBe('warning')
+      expect(getLeadSlaStatus({ status: 'NEW', stageChangedAt: minutesAgo(30) }, now).state).toBe('ok')
+    })
+
+    it('should not apply SLA to closed stages', () => {
+      const sla = getLeadSlaStatus({ status: 'CLOSED', stageChangedAt: minutesAgo(10000) }, now)
+
+      expect(sla.state).toBe('none')
+      expect(sla.dueAt).toBeNull()
+    })
+  })
+
+  describe('formatStageDuration', () => {
+    it('should format minutes, hours and days', () => {
+      expect(formatStageDuration(45)).toBe('45 min')
+      expect(formatStageDuration(200)).toBe('3h 20min')
+      expect(formatStageDuration(120)).toBe('2h')
+      expect(formatStageDuration(3120)).toBe('2d 4h')
+      expect(formatStageDuration(-30)).toBe('30 min')
+    })
+  })
+
+  describe('calculatePipelineMetrics', () => {
+    const changes = [
+      { fromStatus: 'NEW', timeInStageMinutes: 60 },
+      { fromStatus: 'NEW', timeInStageMinutes: 90 },
+      { fromStatus: 'NEW', timeInStageMinutes: 300 },
+      { fromStatus: 'CONTACTED', timeInStageMinutes: 4000 },
+      { fromStatus: null, timeInStageMinutes: null }
+    ]
+    const openLeads = [
+      { status: 'NEW', stageChangedAt: minutesAgo(200) },
+      { status: 'NEW', stageChangedAt: minutesAgo(20) },
+      { status: 'NEGOTIATING', stageChangedAt: minutesAgo(60) }
+    ]
+
+    it('should compute time in stage, current load and SLA compliance', () => {
+      const metrics = calculatePipelineMetrics(changes, openLeads, now)
+      const newStage = metrics.find(metric => metric.stage === 'NEW')!
+
+      expect(metrics.map(metric => metric.stage)).toEqual(['NEW', 'CONTACTED', 'PROPOSAL_SENT', 'NEGOTIATING'])
+      expect(newStage).toMatchObject({
+        currentCount: 2,
+        overdueCount: 1,
+        currentAverageAgeMinutes: 110,
+        completedCount: 3,
+        averageMinutes: 150,
+        medianMinutes: 90
+      })
+      expect(newStage.slaComplianceRate).toBeCloseTo(2 / 3)
+    })
+
+    it('should point to the stage where leads stall', () => {
+      const metrics = calculatePipelineMetrics(changes, openLeads, now)
+
+      expect(findPipelineBottleneck(metrics)?.stage).toBe('NEW')
+      expect(findPipelineBottleneck(calculatePipelineMetrics(changes, [], now))?.stage).toBe('CONTACTED')
+      expect(findPipelineBottleneck(calculatePipelineMetrics([], [], now))).toBeNull()
+    })
+  })
+
+  describe('changeLeadStage', () => {
+    it('should record the stage change with time spent in the previous stage', async () => {
+      mockDb.lead.findUnique.mockResolvedValue({ id: 'lead-1', status: 'NEW', stageChangedAt: minutesAgo(45) })
+      mockDb.__tx.lead.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.__tx.lead.findUnique.mockResolvedValue({ id: 'lead-1', status: 'CONTACTED' })
+
+      const lead = await changeLeadStage('lead-1', 'CONTACTED', { changedById: 'user-1', now })
+
+      expect(lead).toEqual({ id: 'lead-1', status: 'CONTACTED' })
+      expect(mockDb.__tx.lead.updateMany).toHaveBeenCalledWith({
+        where: { id: 'lead-1', status: 'NEW' },
+        data: { status: 'CONTACTED', stageChangedAt: now }
+      })
+      expect(mockDb.__tx.leadStageChange.create).toHaveBeenCalledWith({
+        data: {
+          leadId: 'lead-1',
+          fromStatus: 'NEW',
+          toStatus: 'CONTACTED',
+          timeInStageMinutes: 45,
+          changedAt: now,
+          changedById: 'user-1'
+        }
+      })
+    })
+
+    it('should not record history when the stage does not change', async () => {
+      mockDb.lead.findUnique.mockResolvedValue({ id: 'lead-1', status: 'NEW', stageChangedAt: minutesAgo(45) })
+
+      await changeLeadStage('lead-1', 'NEW', { now })
+
+      expect(mockDb.__tx.leadStageChange.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject concurrent moves of the same lead', async () => {
+      mockDb.lead.findUnique.mockResolvedValue({ id: 'lead-1', status: 'NEW', stageChangedAt: minutesAgo(45) })
+      mockDb.__tx.lead.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(changeLeadStage('lead-1', 'CONTACTED', { now })).rejects.toBeInstanceOf(LeadStageConflictError)
+      expect(mockDb.__tx.leadStageChange.create).not.toHaveBeenCalled()
+    })
+  })
+})
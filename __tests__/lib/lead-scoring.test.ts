@@ -0,0 +1,107 @@
+import {
+  calculateLeadScore,
+  estimateLeadInvestment,
+  getLeadDistanceKm,
+  parseLeadScoringConfig
+} from '../../lib/leads/scoring'
+
+describe('Lead Scoring', () => {
+  const company = { id: 'company-1', city: 'São Paulo', state: 'SP', serviceAreas: ['Campinas - SP'] }
+  const now = new Date('2026-10-19T12:00:00Z')
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+
+  const factor = (score: ReturnType<typeof calculateLeadScore>, name: string) =>
+    score.factors.find(f => f.factor === name)!
+
+  describe('estimateLeadInvestment', () => {
+    it('should read the budget ranges used by the lead forms', () => {
+      expect(estimateLeadInvestment({ budget: 'R$ 10.000 - R$ 25.000' })).toBe(17500)
+      expect(estimateLeadInvestment({ budget: '50k-100k' })).toBe(75000)
+      expect(estimateLeadInvestment({ budget: 'Até R$ 10.000' })).toBe(7000)
+      expect(estimateLeadInvestment({ budget: 'Acima de R$ 100.000' })).toBe(125000)
+      expect(estimateLeadInvestment({ budget: 'A definir' })).toBeNull()
+    })
+
+    it('should prefer the simulated system cost', () => {
+      expect(estimateLeadInvestment({ budget: 'Até R$ 10.000', simulation: { systemCost: 32000 } })).toBe(32000)
+    })
+  })
+
+  describe('getLeadDistanceKm', () => {
+    it('should be zero inside the service areas', () => {
+      expect(getLeadDistanceKm({ location: 'Campinas, SP' }, company)).toBe(0)
+      expect(getLeadDistanceKm({ location: 'São Paulo - SP' }, company)).toBe(0)
+    })
+
+    it('should measure the distance to the closest service point', () => {
+      const km = getLeadDistanceKm({ location: 'Ribeirão Preto, SP' }, company)
+
+      expect(km).toBeGreaterThan(150)
+      expect(km).toBeLessThan(300)
+    })
+  })
+
+  describe('calculateLeadScore', () => {
+    const lead = {
+      budget: 'R$ 50.000 - R$ 100.000',
+      projectType: 'Industrial',
+      location: 'Campinas, SP'
+    }
+
+    it('should rate a large nearby lead that opened the quote quickly as hot', () => {
+      const score = calculateLeadScore(
+        { ...lead, quotes: [{ status: 'VIEWED', sentAt: hoursAgo(5), viewedAt: hoursAgo(4) }] },
+        company,
+        undefined,
+        now
+      )
+
+      expect(score.score).toBe(100)
+      expect(score.grade).toBe('hot')
+      expect(score.label).toBe('Quente')
+    })
+
+    it('should penalize quotes the customer never opened', () => {
+      const score = calculateLeadScore(
+        { ...lead, quotes: [{ status: 'SENT', sentAt: hoursAgo(100), viewedAt: null }] },
+        company,
+        undefined,
+        now
+      )
+
+      expect(factor(score, 'engagement').value).toBe(0.2)
+      expect(factor(score, 'responsiveness').value).toBe(0)
+    })
+
+    it('should use a neutral score for missing information', () => {
+      const score = calculateLeadScore(
+        { budget: 'A definir', projectType: 'Outro', location: 'Lugar Nenhum' },
+        company,
+        undefined,
+        now
+      )
+
+      expect(score.factors.every(f => f.value === 0.5)).toBe(true)
+      expect(score.score).toBe(50)
+    })
+
+    it('should apply the company weights', () => {
+      const config = parseLeadScoringConfig({
+        weights: { budget: 100, projectType: 0, distance: 0, engagement: 0, responsiveness: 0 }
+      })
+      const score = calculateLeadScore({ ...lead, budget: 'R$ 10.000 - R$ 25.000' }, company, config, now)
+
+      expect(score.score).toBe(35)
+      expect(score.grade).toBe('cold')
+    })
+  })
+
+  describe('parseLeadScoringConfig', () => {
+    it('should fall back to defaults for invalid settings', () => {
+      const config = parseLeadScoringConfig({ fastResponseHours: 10, slowResponseHours: 5 })
+
+      expect(config.fastResponseHours).toBe(2)
+      expect(config.weights.budget).toBe(30)
+    })
+  })
+})
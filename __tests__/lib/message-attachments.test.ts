@@ -0,0 +1,120 @@
+import { db } from '../../lib/db'
+import {
+  assertPendingAttachments,
+  deletePendingAttachment,
+  getAttachmentDownloadUrl,
+  MessageAttachmentError
+} from '../../lib/messages/attachments'
+import { formatAttachmentSize, isImageAttachment } from '../../lib/messages/attachment-utils'
+
+const mockGenerateSignedURL = jest.fn()
+const mockDeleteFiles = jest.fn()
+
+jest.mock('uploadthing/server', () => ({
+  UTApi: jest.fn().mockImplementation(() => ({
+    generateSignedURL: mockGenerateSignedURL,
+    deleteFiles: mockDeleteFiles
+  }))
+}))
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    messageAttachment: {
+      count: jest.fn(),
+      findFirst: jest.fn(),
+      delete: jest.fn()
+    }
+  }
+}))
+
+const mockDb = db as unknown as {
+  messageAttachment: { count: jest.Mock; findFirst: jest.Mock; delete: jest.Mock }
+}
+
+describe('Message attachments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('attachment utils', () => {
+    it('should format sizes and detect images', () => {
+      expect(formatAttachmentSize(512)).toBe('512 B')
+      expect(formatAttachmentSize(300 * 1024)).toBe('300 KB')
+      expect(formatAttachmentSize(2.5 * 1024 * 1024)).toBe('2,5 MB')
+      expect(isImageAttachment('image/jpeg')).toBe(true)
+      expect(isImageAttachment('application/pdf')).toBe(false)
+    })
+  })
+
+  describe('assertPendingAttachments', () => {
+    it('should accept attachments uploaded by the sender to the conversation', async () => {
+      mockDb.messageAttachment.count.mockResolvedValue(2)
+
+      await expect(assertPendingAttachments('conv-1', 'user-1', ['att-1', 'att-2'])).resolves.toBeUndefined()
+      expect(mockDb.messageAttachment.count).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['att-1', 'att-2'] },
+          conversationId: 'conv-1',
+          uploaderId: 'user-1',
+          messageId: null
+        }
+      })
+    })
+
+    it('should reject attachments from others or already sent', async () => {
+      mockDb.messageAttachment.count.mockResolvedValue(1)
+
+      await expect(assertPendingAttachments('conv-1', 'user-1', ['att-1', 'att-2']))
+        .rejects.toBeInstanceOf(MessageAttachmentError)
+    })
+
+    it('should limit the number of attachments per message', async () => {
+      const ids = ['a', 'b', 'c', 'd', 'e', 'f']
+
+      await expect(assertPendingAttachments('conv-1', 'user-1', ids)).rejects.toBeInstanceOf(MessageAttachmentError)
+      expect(mockDb.messageAttachment.count).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getAttachmentDownloadUrl', () => {
+    it('should not sign files for users outside the conversation', async () => {
+      mockDb.messageAttachment.findFirst.mockResolvedValue(null)
+
+      expect(await getAttachmentDownloadUrl('att-1', 'intruder')).toBeNull()
+      expect(mockDb.messageAttachment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          id: 'att-1',
+          conversation: { participants: { some: { id: 'intruder' } } }
+        })
+      }))
+      expect(mockGenerateSignedURL).not.toHaveBeenCalled()
+    })
+
+    it('should sign the thumbnail when requested and available', async () => {
+      mockDb.messageAttachment.findFirst.mockResolvedValue({ fileKey: 'file-key', thumbnailKey: 'thumb-key' })
+      mockGenerateSignedURL.mockResolvedValue({ ufsUrl: 'https://signed.example/thumb' })
+
+      expect(await getAttachmentDownloadUrl('att-1', 'user-1', true)).toBe('https://signed.example/thumb')
+      expect(mockGenerateSignedURL).toHaveBeenCalledWith('thumb-key', { expiresIn: 300 })
+    })
+
+    it('should fall back to the original file without a thumbnail', async () => {
+      mockDb.messageAttachment.findFirst.mockResolvedValue({ fileKey: 'file-key', thumbnailKey: null })
+      mockGenerateSignedURL.mockResolvedValue({ ufsUrl: 'https://signed.example/file' })
+
+      await getAttachmentDownloadUrl('att-1', 'user-1', true)
+
+      expect(mockGenerateSignedURL).toHaveBeenCalledWith('file-key', { expiresIn: 300 })
+    })
+  })
+
+  describe('deletePendingAttachment', () => {
+    it('should delete the record and the stored files', async () => {
+      mockDb.messageAttachment.findFirst.mockResolvedValue({ id: 'att-1', fileKey: 'file-key', thumbnailKey: 'thumb-key' })
+
+      expect(await deletePendingAttachment('att-1', 'user-1')).toBe(true)
+      expect(mockDb.messageAttachment.delete).toHaveBeenCalledWith({ where: { id: 'att-1' } })
+      expect(mockDeleteFiles).toHaveBeenCalledWith(['file-key', 'thumb-key'])
+    })
+  })
+})
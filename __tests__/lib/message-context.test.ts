@@ -0,0 +1,111 @@
+import { db } from '../../lib/db'
+import { ConversationStartError, startConversation, withVisibleContext } from '../../lib/messages/context'
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    product: { findFirst: jest.fn() },
+    quote: { findUnique: jest.fn() },
+    lead: { findFirst: jest.fn() },
+    user: { findFirst: jest.fn() },
+    conversation: { findFirst: jest.fn(), create: jest.fn() }
+  }
+}))
+
+const mockDb = db as unknown as {
+  product: { findFirst: jest.Mock }
+  quote: { findUnique: jest.Mock }
+  lead: { findFirst: jest.Mock }
+  user: { findFirst: jest.Mock }
+  conversation: { findFirst: jest.Mock; create: jest.Mock }
+}
+
+const customer = { id: 'customer', email: 'joao@example.com' }
+const companyUser = { id: 'company-user', email: 'contato@solar.com' }
+
+const quote = {
+  id: 'quote-1',
+  userId: null,
+  leadId: 'lead-1',
+  acceptanceToken: 'token-123',
+  company: { userId: 'company-user' },
+  lead: { email: 'Joao@Example.com' }
+}
+
+describe('Conversation context', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.conversation.findFirst.mockResolvedValue(null)
+    mockDb.conversation.create.mockResolvedValue({ id: 'conv-new' })
+  })
+
+  describe('startConversation', () => {
+    it('should open a conversation with the company about an approved product', async () => {
+      mockDb.product.findFirst.mockResolvedValue({ id: 'product-1', company: { userId: 'company-user' } })
+
+      expect(await startConversation(customer, { productId: 'product-1' }))
+        .toEqual({ conversationId: 'conv-new', created: true })
+      expect(mockDb.product.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'product-1', status: 'APPROVED' }
+      }))
+      expect(mockDb.conversation.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ productId: 'product-1', quoteId: null, leadId: null })
+      }))
+    })
+
+    it('should reuse the existing conversation about the same subject', async () => {
+      mockDb.product.findFirst.mockResolvedValue({ id: 'product-1', company: { userId: 'company-user' } })
+      mockDb.conversation.findFirst.mockResolvedValue({ id: 'conv-1' })
+
+      expect(await startConversation(customer, { productId: 'product-1' }))
+        .toEqual({ conversationId: 'conv-1', created: false })
+      expect(mockDb.conversation.create).not.toHaveBeenCalled()
+    })
+
+    it('should let the quote recipient start a conversation and link it to the lead', async () => {
+      mockDb.quote.findUnique.mockResolvedValue(quote)
+
+      await startConversation(customer, { quoteId: 'quote-1' })
+
+      expect(mockDb.conversation.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ quoteId: 'quote-1', leadId: 'lead-1' })
+      }))
+    })
+
+    it('should accept the link token for customers with a different email', async () => {
+      mockDb.quote.findUnique.mockResolvedValue(quote)
+      const other = { id: 'other', email: 'outro@example.com' }
+
+      expect(await startConversation(other, { quoteId: 'quote-1' })).toBeNull()
+      expect(await startConversation(other, { quoteId: 'quote-1', token: 'token-123' }))
+        .toEqual({ conversationId: 'conv-new', created: true })
+    })
+
+    it('should require the lead customer to have an account', async () => {
+      mockDb.lead.findFirst.mockResolvedValue({ id: 'lead-1', email: 'joao@example.com' })
+      mockDb.user.findFirst.mockResolvedValue(null)
+
+      await expect(startConversation(companyUser, { leadId: 'lead-1' }))
+        .rejects.toBeInstanceOf(ConversationStartError)
+      expect(mockDb.lead.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'lead-1', company: { userId: 'company-user' } }
+      }))
+    })
+  })
+
+  describe('withVisibleContext', () => {
+    const conversation = {
+      id: 'conv-1',
+      lead: { id: 'lead-1', name: 'João', status: 'NEW', projectType: 'Residencial', company: { userId: 'company-user' } }
+    }
+
+    it('should show the lead only to the company that owns it', () => {
+      expect(withVisibleContext(conversation, 'company-user').lead).toEqual({
+        id: 'lead-1',
+        name: 'João',
+        status: 'NEW',
+        projectType: 'Residencial'
+      })
+      expect(withVisibleContext(conversation, 'customer').lead).toBeNull()
+    })
+  })
+})
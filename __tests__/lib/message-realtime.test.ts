@@ -0,0 +1,115 @@
+import { redis } from '../../lib/redis'
+import {
+  formatServerSentEvent,
+  publishConversationEvent,
+  subscribeToConversation,
+  type ConversationEvent
+} from '../../lib/messages/realtime'
+
+jest.mock('../../lib/redis', () => ({ redis: null }))
+
+const mockRedisModule = jest.requireMock('../../lib/redis') as { redis: unknown }
+
+const typingEvent: ConversationEvent = { type: 'typing', userId: 'user-1', name: 'Maria', isTyping: true }
+
+describe('Message realtime', () => {
+  afterEach(() => {
+    mockRedisModule.redis = null
+  })
+
+  describe('formatServerSentEvent', () => {
+    it('should name the event and serialize it as data', () => {
+      expect(formatServerSentEvent(typingEvent)).toBe(`event: typing\ndata: ${JSON.stringify(typingEvent)}\n\n`)
+    })
+  })
+
+  describe('without Redis', () => {
+    it('should deliver events only to listeners of the same conversation', async () => {
+      expect(redis).toBeNull()
+      const listener = jest.fn()
+      const otherListener = jest.fn()
+      const unsubscribe = subscribeToConversation('conv-1', listener)
+      const unsubscribeOther = subscribeToConversation('conv-2', otherListener)
+
+      await publishConversationEvent('conv-1', typingEvent)
+
+      expect(listener).toHaveBeenCalledWith(typingEvent)
+      expect(otherListener).not.toHaveBeenCalled()
+
+      unsubscribe()
+      unsubscribeOther()
+    })
+
+    it('should stop delivering after unsubscribing', async () => {
+      const listener = jest.fn()
+      const unsubscribe = subscribeToConversation('conv-1', listener)
+      unsubscribe()
+
+      await publishConversationEvent('conv-1', typingEvent)
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('with Redis', () => {
+    const createFakeRedis = () => {
+      const handlers: Record<string, (data: { channel: string; message: unknown }) => void> = {}
+      const subscriber = {
+        on: jest.fn((type: string, handler: (data: { channel: string; message: unknown }) => void) => {
+          handlers[type] = handler
+        }),
+        unsubscribe: jest.fn().mockResolvedValue(undefined)
+      }
+
+      return {
+        handlers,
+        subscriber,
+        client: {
+          publish: jest.fn().mockResolvedValue(1),
+          subscribe: jest.fn(() => subscriber)
+        }
+      }
+    }
+
+    it('should publish through Redis and share one subscription per conversation', async () => {
+      const fake = createFakeRedis()
+      mockRedisModule.redis = fake.client
+      const listener = jest.fn()
+      const secondListener = jest.fn()
+
+      const unsubscribe = subscribeToConversation('conv-3', listener)
+      const unsubscribeSecond = subscribeToConversation('conv-3', secondListener)
+      await publishConversationEvent('conv-3', typingEvent)
+
+      expect(fake.client.subscribe).toHaveBeenCalledTimes(1)
+      expect(fake.client.publish).toHaveBeenCalledWith('solarconnect:conversation:conv-3', JSON.stringify(typingEvent))
+      // O evento só chega aos ouvintes quando volta pelo Redis
+      expect(listener).not.toHaveBeenCalled()
+
+      fake.handlers.message({ channel: 'solarconnect:conversation:conv-3', message: JSON.stringify(typingEvent) })
+      expect(listener).toHaveBeenCalledWith(typingEvent)
+      expect(secondListener).toHaveBeenCalledWith(typingEvent)
+
+      unsubscribe()
+      expect(fake.subscriber.unsubscribe).not.toHaveBeenCalled()
+      unsubscribeSecond()
+      expect(fake.subscriber.unsubscribe).toHaveBeenCalled()
+    })
+
+    it('should fall back to local delivery when publishing fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const fake = createFakeRedis()
+      fake.client.publish.mockRejectedValue(new Error('connection refused'))
+      mockRedisModule.redis = fake.client
+      const listener = jest.fn()
+
+      const unsubscribe = subscribeToConversation('conv-4', listener)
+      await publishConversationEvent('conv-4', typingEvent)
+
+      expect(listener).toHaveBeenCalledWith(typingEvent)
+
+      unsubscribe()
+      consoleSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { PdfDocument, readJpegInfo } from '@/lib/pdf'
+import { renderSimulationPdf, runSolarSimulation } from '@/lib/solar'
+import { solarSimulationSchema } from '@/lib/validations'
+
+// JPEG mínimo: SOI, um segmento APP0 e o cabeçalho SOF0 com altura, largura e canais
+function fakeJpeg(width: number, height: number, components = 3) {
+  return Buffer.from([
+    0xff, 0xd8,
+    0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, components,
+    0xff, 0xd9
+  ])
+}
+
+function parseXref(pdf: Buffer) {
+  const content = pdf.toString('latin1')
+  const startXref = Number(content.match(/startxref\n(\d+)/)![1])
+  const offsets = Array.from(content.slice(startXref).matchAll(/(\d{10}) 00000 n /g)).map(match => Number(match[1]))
+
+  return { content, startXref, offsets }
+}
+
+describe('PdfDocument', () => {
+  it('should write a valid cross-reference table', () => {
+    const pdf = new PdfDocument()
+    pdf.text(40, 40, 'Olá (mundo)')
+    pdf.addPage()
+    pdf.rect(40, 40, 100, 50, { fill: [255, 0, 0] })
+
+    const { content, startXref, offsets } = parseXref(pdf.toBuffer())
+
+    expect(content.startsWith('%PDF-1.4')).toBe(true)
+    expect(content.slice(startXref, startXref + 4)).toBe('xref')
+    offsets.forEach((offset, index) => {
+      expect(content.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+    expect(content).toContain('/Count 2')
+  })
+
+  it('should encode accents as WinAnsi and escape parentheses', () => {
+    const pdf = new PdfDocument()
+    pdf.text(40, 40, 'Geração (kWh) CO₂')
+
+    const content = pdf.toBuffer().toString('latin1')
+
+    expect(content).toContain('(Geração \\(kWh\\) CO2) Tj')
+  })
+
+  it('should embed JPEG images without breaking the cross-reference table', () => {
+    const pdf = new PdfDocument()
+    pdf.image(40, 40, 200, 150, fakeJpeg(800, 600))
+    pdf.addPage()
+
+    const { content, startXref, offsets } = parseXref(pdf.toBuffer())
+
+    expect(content).toContain('/Subtype /Image /Width 800 /Height 600 /ColorSpace /DeviceRGB')
+    expect(content).toContain('/Im1 Do')
+    expect(content.match(/\/XObject << \/Im1 5 0 R >>/g)).toHaveLength(2)
+    expect(content.slice(startXref, startXref + 4)).toBe('xref')
+    offsets.forEach((offset, index) => {
+      expect(content.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+  })
+
+  it('should reject images that are not JPEG', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+    expect(readJpegInfo(png)).toBeNull()
+    expect(readJpegInfo(fakeJpeg(10, 20, 1))).toEqual({ width: 10, height: 20, components: 1 })
+    expect(() => new PdfDocument().image(0, 0, 10, 10, png)).toThrow('Imagem não suportada')
+  })
+
+  it('should measure text using Helvetica metrics', () => {
+    const pdf = new PdfDocument()
+
+    expect(pdf.measureText('0000', 10)).toBeCloseTo(22.24)
+    expect(pdf.measureText('ção', 10)).toBe(pdf.measureText('cao', 10))
+  })
+})
+
+describe('renderSimulationPdf', () => {
+  it('should render the report on two pages', () => {
+    const result = runSolarSimulation(solarSimulationSchema.parse({
+      ibgeCode: '3550308',
+      monthlyBill: 540,
+      energyRate: 0.95,
+      panelPower: 550
+    }))!
+
+    const pdf = renderSimulationPdf({ createdAt: new Date('2026-10-19T12:00:00Z'), result })
+    const content = pdf.toString('latin1')
+
+    expect(content).toContain('/Count 2')
+    expect(content).toContain('(São Paulo - SP')
+    expect(content).toContain('(Fluxo de caixa \\(25 anos\\)) Tj')
+  })
+})
@@ -0,0 +1,118 @@
+import {
+  createQuoteSnapshot,
+  getQuoteResponseBlocker,
+  getRequestMetadata,
+  getSentQuoteSnapshot,
+  hashQuoteSnapshot,
+  renderQuotePdf
+} from '@/lib/quotes'
+
+describe('Quote Acceptance', () => {
+  const quote = {
+    id: 'quote-123',
+    title: 'Sistema 5 kWp',
+    description: 'Instalação completa',
+    totalValue: '25000.00',
+    validUntil: new Date('2026-11-30T12:00:00Z'),
+    terms: 'Pagamento em 3 parcelas',
+    items: [
+      { description: 'Kit solar 5 kWp', quantity: 1, unitPrice: '20000', totalPrice: '20000', category: 'Equipamentos' },
+      { description: 'Instalação', quantity: 1, unitPrice: '5000', totalPrice: '5000', category: null }
+    ],
+    company: { name: 'Solar Tech' }
+  }
+
+  describe('snapshot', () => {
+    it('should convert decimals and produce a stable hash', () => {
+      const snapshot = createQuoteSnapshot(quote)
+
+      expect(snapshot.totalValue).toBe(25000)
+      expect(snapshot.items[0].unitPrice).toBe(20000)
+      expect(snapshot.companyName).toBe('Solar Tech')
+      expect(hashQuoteSnapshot(snapshot)).toBe(hashQuoteSnapshot(createQuoteSnapshot(quote)))
+    })
+
+    it('should change the hash when the quote changes', () => {
+      const original = hashQuoteSnapshot(createQuoteSnapshot(quote))
+      const changed = hashQuoteSnapshot(createQuoteSnapshot({ ...quote, totalValue: '24000.00' }))
+
+      expect(changed).not.toBe(original)
+    })
+
+    it('should cover the discount and payment conditions the customer accepted', () => {
+      const original = hashQuoteSnapshot(createQuoteSnapshot(quote))
+      const withCard = createQuoteSnapshot({
+        ...quote,
+        paymentConditions: { cashDiscountPercent: 5, card: { maxInstallments: 12 } }
+      })
+
+      expect(withCard.paymentConditions).toMatchObject({ cashDiscountPercent: 5, card: { maxInstallments: 12 } })
+      expect(hashQuoteSnapshot(withCard)).not.toBe(original)
+      expect(hashQuoteSnapshot(createQuoteSnapshot({ ...quote, discountPercent: 10 }))).not.toBe(original)
+    })
+  })
+
+  describe('getSentQuoteSnapshot', () => {
+    const sentSnapshot = createQuoteSnapshot(quote)
+    const revision = { snapshot: sentSnapshot, documentHash: hashQuoteSnapshot(sentSnapshot) }
+
+    it('should sign the latest revision sent to the customer', () => {
+      expect(getSentQuoteSnapshot({ ...quote, revisions: [revision] })).toEqual({
+        snapshot: sentSnapshot,
+        documentHash: revision.documentHash
+      })
+    })
+
+    it('should refuse to sign content edited after the last send', () => {
+      expect(getSentQuoteSnapshot({ ...quote, totalValue: '24000.00', revisions: [revision] })).toBeNull()
+    })
+
+    it('should sign the current content of quotes sent before revisions existed', () => {
+      expect(getSentQuoteSnapshot({ ...quote, revisions: [] })?.documentHash).toBe(revision.documentHash)
+    })
+  })
+
+  describe('getQuoteResponseBlocker', () => {
+    const future = new Date(Date.now() + 86400000)
+
+    it('should allow responses to sent and viewed quotes', () => {
+      expect(getQuoteResponseBlocker({ status: 'SENT', validUntil: future })).toBeNull()
+      expect(getQuoteResponseBlocker({ status: 'VIEWED', validUntil: future })).toBeNull()
+    })
+
+    it('should block answered, draft and expired quotes', () => {
+      expect(getQuoteResponseBlocker({ status: 'ACCEPTED', validUntil: future })).toBe('Este orçamento já foi respondido')
+      expect(getQuoteResponseBlocker({ status: 'DRAFT', validUntil: future })).not.toBeNull()
+      expect(getQuoteResponseBlocker({ status: 'SENT', validUntil: new Date(Date.now() - 1000) })).toBe('Este orçamento já expirou')
+    })
+  })
+
+  it('should read the client IP and user agent from the headers', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '200.1.2.3, 10.0.0.1',
+      'user-agent': 'Mozilla/5.0'
+    })
+
+    expect(getRequestMetadata(headers)).toEqual({ ipAddress: '200.1.2.3', userAgent: 'Mozilla/5.0' })
+  })
+
+  it('should render the signature block in the signed PDF', () => {
+    const snapshot = createQuoteSnapshot(quote)
+    const pdf = renderQuotePdf({
+      snapshot,
+      company: { name: 'Solar Tech', city: 'Campinas', state: 'SP' },
+      acceptance: {
+        decision: 'ACCEPTED',
+        signerName: 'João Silva',
+        ipAddress: '200.1.2.3',
+        userAgent: 'Mozilla/5.0',
+        documentHash: hashQuoteSnapshot(snapshot),
+        signedAt: new Date('2026-10-19T15:00:00Z')
+      }
+    }).toString('latin1')
+
+    expect(pdf).toContain('(ORÇAMENTO ACEITO) Tj')
+    expect(pdf).toContain('João Silva')
+    expect(pdf).toContain(hashQuoteSnapshot(snapshot))
+  })
+})
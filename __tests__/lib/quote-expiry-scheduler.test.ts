@@ -0,0 +1,82 @@
+import { quoteExpiryScheduler as scheduler } from '../../lib/quote-expiry-scheduler'
+import { processQuoteExpirations } from '../../lib/quotes/expiry'
+
+// Mock dependencies
+jest.mock('../../lib/quotes/expiry', () => ({
+  processQuoteExpirations: jest.fn()
+}))
+
+jest.mock('../../lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    SYSTEM: 'SYSTEM'
+  }
+}))
+
+const processQuoteExpirationsMock = processQuoteExpirations as jest.MockedFunction<typeof processQuoteExpirations>
+
+describe('quoteExpiryScheduler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers()
+    processQuoteExpirationsMock.mockResolvedValue({ expired: 2, reminded: 1 })
+  })
+
+  afterEach(async () => {
+    await scheduler.stop()
+    jest.useRealTimers()
+  })
+
+  it('should run a cycle on start with the default hourly interval', async () => {
+    await scheduler.start()
+    await jest.advanceTimersByTimeAsync(0)
+
+    const status = scheduler.getStatus()
+    expect(status.isRunning).toBe(true)
+    expect(status.intervalMinutes).toBe(60)
+    expect(status.lastResult).toMatchObject({ expired: 2, reminded: 1 })
+    expect(processQuoteExpirationsMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not start twice', async () => {
+    await scheduler.start()
+    await scheduler.start()
+
+    expect(processQuoteExpirationsMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should run cycles at the configured interval until stopped', async () => {
+    await scheduler.start(1)
+
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000)
+    expect(processQuoteExpirationsMock).toHaveBeenCalledTimes(3)
+
+    await scheduler.stop()
+
+    await jest.advanceTimersByTimeAsync(60 * 1000)
+    expect(processQuoteExpirationsMock).toHaveBeenCalledTimes(3)
+    expect(scheduler.getStatus().isRunning).toBe(false)
+  })
+
+  it('should run a cycle on demand without starting', async () => {
+    await scheduler.runNow()
+
+    expect(processQuoteExpirationsMock).toHaveBeenCalledTimes(1)
+    expect(scheduler.getStatus().isRunning).toBe(false)
+  })
+
+  it('should keep running after a failed cycle', async () => {
+    processQuoteExpirationsMock.mockRejectedValueOnce(new Error('Database unavailable'))
+
+    await expect(scheduler.start(1)).resolves.not.toThrow()
+
+    await jest.advanceTimersByTimeAsync(60 * 1000)
+
+    expect(processQuoteExpirationsMock).toHaveBeenCalledTimes(2)
+    expect(scheduler.getStatus().isRunning).toBe(true)
+  })
+})
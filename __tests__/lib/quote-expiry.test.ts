@@ -0,0 +1,118 @@
+import { db } from '../../lib/db'
+import { sendEmail } from '../../lib/email'
+import { createQuoteExpiryNotification } from '../../lib/notifications'
+import {
+  canRenewQuote,
+  expireOverdueQuotes,
+  getRenewedValidUntil,
+  sendExpiryReminders
+} from '../../lib/quotes/expiry'
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    quote: {
+      findMany: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}))
+
+jest.mock('../../lib/email', () => ({
+  sendEmail: jest.fn().mockResolvedValue({ success: true }),
+  createQuoteExpiryReminderEmailTemplate: jest.fn().mockReturnValue('<html></html>')
+}))
+
+jest.mock('../../lib/notifications', () => ({
+  createQuoteExpiryNotification: jest.fn()
+}))
+
+const quoteMock = db.quote as unknown as { findMany: jest.Mock; updateMany: jest.Mock }
+
+describe('Quote Expiry', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('renewal', () => {
+    it('should extend validity by 15 days', () => {
+      expect(getRenewedValidUntil(now).toISOString()).toBe('2026-11-03T12:00:00.000Z')
+    })
+
+    it('should only renew expired quotes not yet answered', () => {
+      const past = new Date('2026-10-01T00:00:00Z')
+      const future = new Date('2026-11-01T00:00:00Z')
+
+      expect(canRenewQuote({ status: 'EXPIRED', validUntil: past }, now)).toBe(true)
+      expect(canRenewQuote({ status: 'SENT', validUntil: past }, now)).toBe(true)
+      expect(canRenewQuote({ status: 'SENT', validUntil: future }, now)).toBe(false)
+      expect(canRenewQuote({ status: 'ACCEPTED', validUntil: past }, now)).toBe(false)
+      expect(canRenewQuote({ status: 'REJECTED', validUntil: past }, now)).toBe(false)
+    })
+  })
+
+  describe('expireOverdueQuotes', () => {
+    it('should expire overdue quotes and notify the company', async () => {
+      const quote = { id: 'quote-1', title: 'Sistema 5 kWp', validUntil: new Date('2026-10-18T00:00:00Z'), company: { userId: 'company-user' } }
+      quoteMock.findMany.mockResolvedValue([quote])
+      quoteMock.updateMany.mockResolvedValue({ count: 1 })
+
+      await expect(expireOverdueQuotes(now)).resolves.toBe(1)
+
+      expect(quoteMock.updateMany).toHaveBeenCalledWith({
+        where: { id: 'quote-1', status: { in: ['SENT', 'VIEWED'] } },
+        data: { status: 'EXPIRED', expiredAt: now }
+      })
+      expect(createQuoteExpiryNotification).toHaveBeenCalledWith('company-user', quote, true)
+    })
+
+    it('should skip quotes answered during the cycle', async () => {
+      quoteMock.findMany.mockResolvedValue([
+        { id: 'quote-1', title: 'Sistema', validUntil: now, company: { userId: 'company-user' } }
+      ])
+      quoteMock.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(expireOverdueQuotes(now)).resolves.toBe(0)
+      expect(createQuoteExpiryNotification).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sendExpiryReminders', () => {
+    const quote = {
+      id: 'quote-1',
+      title: 'Sistema 5 kWp',
+      totalValue: '25000',
+      validUntil: new Date('2026-10-21T12:00:00Z'),
+      acceptanceToken: 'token-123',
+      lead: { name: 'Maria', email: 'maria@example.com' },
+      user: null,
+      company: { name: 'Solar Tech', email: 'contato@solartech.com', userId: 'company-user' }
+    }
+
+    it('should email the customer once and notify the company', async () => {
+      quoteMock.findMany.mockResolvedValue([quote])
+      quoteMock.updateMany.mockResolvedValue({ count: 1 })
+
+      await expect(sendExpiryReminders(now, 3)).resolves.toBe(1)
+
+      expect(quoteMock.findMany.mock.calls[0][0].where).toMatchObject({
+        expiryReminderSentAt: null,
+        validUntil: { gte: now, lte: new Date('2026-10-22T12:00:00Z') }
+      })
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'maria@example.com',
+        replyTo: 'contato@solartech.com'
+      }))
+      expect(createQuoteExpiryNotification).toHaveBeenCalledWith('company-user', quote, false)
+    })
+
+    it('should not send a reminder already claimed by another run', async () => {
+      quoteMock.findMany.mockResolvedValue([quote])
+      quoteMock.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(sendExpiryReminders(now, 3)).resolves.toBe(0)
+      expect(sendEmail).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import {
+  calculatePaymentSummary,
+  getLeadBillReference,
+  getQuotePaymentSummary,
+  parsePaymentConditions,
+  simulateFinancing,
+  splitQuoteValue
+} from '@/lib/quotes/payment'
+
+describe('Quote Payment Conditions', () => {
+  const items = [
+    { type: 'EQUIPMENT', totalPrice: 20000 },
+    { type: 'SERVICE', totalPrice: 5000 }
+  ]
+
+  describe('splitQuoteValue', () => {
+    it('should split the total between equipment and services', () => {
+      expect(splitQuoteValue(items, 25000)).toEqual({ equipmentValue: 20000, serviceValue: 5000 })
+    })
+
+    it('should apply the quote discount proportionally', () => {
+      expect(splitQuoteValue(items, 22500)).toEqual({ equipmentValue: 18000, serviceValue: 4500 })
+    })
+
+    it('should treat items without type as equipment', () => {
+      expect(splitQuoteValue([{ totalPrice: 1000 }], 1000).equipmentValue).toBe(1000)
+    })
+  })
+
+  describe('simulateFinancing', () => {
+    it('should compute the Price installment over the financed amount', () => {
+      const financing = simulateFinancing(30000, {
+        monthlyInterestRate: 1.5,
+        termMonths: 60,
+        downPaymentPercent: 10
+      })
+
+      expect(financing.downPayment).toBe(3000)
+      expect(financing.financedAmount).toBe(27000)
+      expect(financing.installment).toBe(685.62)
+      expect(financing.totalPaid).toBe(44137.2)
+      expect(financing.totalInterest).toBe(14137.2)
+      expect(financing.annualInterestRate).toBe(19.56)
+    })
+
+    it('should split evenly without interest', () => {
+      const financing = simulateFinancing(12000, { monthlyInterestRate: 0, termMonths: 12, downPaymentPercent: 0 })
+
+      expect(financing.installment).toBe(1000)
+      expect(financing.totalInterest).toBe(0)
+    })
+  })
+
+  describe('calculatePaymentSummary', () => {
+    const conditions = {
+      icmsRate: 12,
+      issRate: 5,
+      cashDiscountPercent: 5,
+      card: { maxInstallments: 12, interestFreeInstallments: 10, monthlyInterestRate: 1.99 },
+      financing: { monthlyInterestRate: 1.5, termMonths: 60, downPaymentPercent: 0 }
+    }
+
+    it('should itemize ICMS on equipment and ISS on services', () => {
+      const summary = calculatePaymentSummary(items, 25000, conditions)
+
+      expect(summary.taxes).toEqual([
+        { tax: 'ICMS', label: 'ICMS sobre equipamentos', base: 20000, rate: 12, value: 2400 },
+        { tax: 'ISS', label: 'ISS sobre serviços', base: 5000, rate: 5, value: 250 }
+      ])
+      expect(summary.totalTaxes).toBe(2650)
+    })
+
+    it('should compute the cash price and card installments', () => {
+      const summary = calculatePaymentSummary(items, 25000, conditions)
+
+      expect(summary.cashDiscountValue).toBe(1250)
+      expect(summary.cashPrice).toBe(23750)
+      expect(summary.cardInstallments).toHaveLength(12)
+      expect(summary.cardInstallments[9].interestFree).toBe(true)
+      expect(summary.cardInstallments[11].interestFree).toBe(false)
+    })
+
+    it('should compare the financing installment against the electricity bill', () => {
+      const summary = calculatePaymentSummary(items, 25000, conditions, {
+        currentMonthlyBill: 900,
+        estimatedMonthlySavings: 780
+      })
+
+      expect(summary.billComparison).toEqual({
+        currentMonthlyBill: 900,
+        estimatedBillWithSolar: 120,
+        monthlyInstallment: 634.84,
+        monthlyOutlay: 754.84,
+        difference: 145.16
+      })
+    })
+
+    it('should prefer the bill informed on the quote', () => {
+      const summary = calculatePaymentSummary(items, 25000, { ...conditions, currentMonthlyBill: 500 }, {
+        currentMonthlyBill: 900
+      })
+
+      expect(summary.billComparison?.currentMonthlyBill).toBe(500)
+      expect(summary.billComparison?.estimatedBillWithSolar).toBeNull()
+    })
+
+    it('should skip the comparison without a bill or installment plan', () => {
+      expect(calculatePaymentSummary(items, 25000, conditions).billComparison).toBeNull()
+      expect(calculatePaymentSummary(items, 25000, { icmsRate: 0, issRate: 0, cashDiscountPercent: 0 }, {
+        currentMonthlyBill: 900
+      }).billComparison).toBeNull()
+    })
+  })
+
+  describe('stored conditions', () => {
+    it('should ignore missing or invalid conditions', () => {
+      expect(parsePaymentConditions(null)).toBeNull()
+      expect(parsePaymentConditions({ issRate: 50 })).toBeNull()
+    })
+
+    it('should read the bill and savings from the lead simulation', () => {
+      expect(getLeadBillReference({ monthlyBill: 650, monthlySavings: 540 })).toEqual({
+        currentMonthlyBill: 650,
+        estimatedMonthlySavings: 540
+      })
+      expect(getLeadBillReference(null)).toEqual({})
+    })
+
+    it('should summarize a stored quote with Prisma decimals', () => {
+      const summary = getQuotePaymentSummary({
+        paymentConditions: { icmsRate: 0, issRate: 5, cashDiscountPercent: 0 },
+        totalValue: '25000',
+        items: [
+          { type: 'EQUIPMENT', totalPrice: '20000' },
+          { type: 'SERVICE', totalPrice: '5000' }
+        ],
+        lead: null
+      })
+
+      expect(summary?.serviceValue).toBe(5000)
+      expect(summary?.taxes).toHaveLength(1)
+      expect(getQuotePaymentSummary({ paymentConditions: null, totalValue: 1000, items: [] })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,112 @@
+import {
+  priceQuoteItems,
+  calculateQuoteTotals,
+  simulateInstallments,
+  templateItemsToLines,
+  QuotePricingError,
+  type CatalogProductSource
+} from '@/lib/quotes'
+
+describe('Quote Pricing', () => {
+  const catalog: CatalogProductSource[] = [
+    { id: 'panel-1', name: 'Painel 550W', price: 890, power: 550, warranty: 25, category: 'PAINEL_SOLAR' },
+    { id: 'inverter-1', name: 'Inversor 5kW', price: 4200.5, power: 5000, warranty: 10, category: 'INVERSOR' }
+  ]
+
+  describe('priceQuoteItems', () => {
+    it('should use catalog name, price, power and warranty for catalog items', () => {
+      const [item] = priceQuoteItems([{ productId: 'panel-1', quantity: 10 }], catalog)
+
+      expect(item).toEqual({
+        description: 'Painel 550W',
+        quantity: 10,
+        unitPrice: 890,
+        totalPrice: 8900,
+        category: 'Painéis Solares',
+        type: 'EQUIPMENT',
+        productId: 'panel-1',
+        power: 550,
+        warranty: 25
+      })
+    })
+
+    it('should allow overriding the catalog price', () => {
+      const [item] = priceQuoteItems([{ productId: 'inverter-1', quantity: 1, unitPrice: 3999.99 }], catalog)
+
+      expect(item.unitPrice).toBe(3999.99)
+      expect(item.totalPrice).toBe(3999.99)
+    })
+
+    it('should price free items from the informed values', () => {
+      const [item] = priceQuoteItems([{ description: ' Instalação ', quantity: 1, unitPrice: 2500 }], catalog)
+
+      expect(item.description).toBe('Instalação')
+      expect(item.productId).toBeNull()
+      expect(item.type).toBe('SERVICE')
+      expect(item.totalPrice).toBe(2500)
+    })
+
+    it('should reject products outside the company catalog', () => {
+      expect(() => priceQuoteItems([{ productId: 'other-company', quantity: 1 }], catalog))
+        .toThrow(QuotePricingError)
+    })
+
+    it('should reject free items without price', () => {
+      expect(() => priceQuoteItems([{ description: 'Frete', quantity: 1 }], catalog))
+        .toThrow('Itens fora do catálogo precisam de descrição e preço unitário')
+    })
+  })
+
+  describe('calculateQuoteTotals', () => {
+    it('should apply the discount over the subtotal', () => {
+      const totals = calculateQuoteTotals([{ totalPrice: 8900 }, { totalPrice: 4200.5 }], 5)
+
+      expect(totals).toEqual({
+        subtotal: 13100.5,
+        discountPercent: 5,
+        discountValue: 655.03,
+        totalValue: 12445.47
+      })
+    })
+
+    it('should default to no discount', () => {
+      expect(calculateQuoteTotals([{ totalPrice: 1000 }]).totalValue).toBe(1000)
+    })
+  })
+
+  describe('simulateInstallments', () => {
+    it('should split the total without interest by default', () => {
+      const options = simulateInstallments(12000)
+
+      expect(options).toHaveLength(12)
+      expect(options[11]).toEqual({ count: 12, amount: 1000, total: 12000, interestFree: true })
+    })
+
+    it('should apply the monthly rate after the interest-free installments', () => {
+      const options = simulateInstallments(10000, {
+        maxInstallments: 12,
+        interestFreeInstallments: 6,
+        monthlyInterestRate: 2
+      })
+
+      expect(options[5].interestFree).toBe(true)
+      expect(options[5].total).toBe(10000)
+      expect(options[11].interestFree).toBe(false)
+      expect(options[11].amount).toBe(945.6)
+      expect(options[11].total).toBeGreaterThan(10000)
+    })
+  })
+
+  describe('templateItemsToLines', () => {
+    it('should order items by position and keep catalog items without fixed price', () => {
+      const lines = templateItemsToLines([
+        { position: 1, description: 'Instalação', quantity: 1, unitPrice: 2500, productId: null },
+        { position: 0, description: 'Painel 550W', quantity: 10, unitPrice: null, productId: 'panel-1' }
+      ])
+
+      expect(lines.map(line => line.description)).toEqual(['Painel 550W', 'Instalação'])
+      expect(lines[0].unitPrice).toBeNull()
+      expect(priceQuoteItems(lines, catalog)[0].unitPrice).toBe(890)
+    })
+  })
+})
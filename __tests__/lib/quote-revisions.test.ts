@@ -0,0 +1,90 @@
+import { diffQuoteSnapshots, summarizeQuoteDiff, type QuoteSnapshot } from '@/lib/quotes'
+
+describe('Quote Revisions', () => {
+  const base: QuoteSnapshot = {
+    quoteId: 'quote-123',
+    title: 'Sistema 5 kWp',
+    description: 'Instalação completa',
+    companyName: 'Solar Tech',
+    totalValue: 25000,
+    validUntil: '2026-11-30T12:00:00.000Z',
+    terms: 'Pagamento em 3 parcelas',
+    items: [
+      { description: 'Kit solar 5 kWp', quantity: 1, unitPrice: 20000, totalPrice: 20000, category: 'Equipamentos' },
+      { description: 'Instalação', quantity: 1, unitPrice: 5000, totalPrice: 5000, category: null }
+    ]
+  }
+
+  describe('diffQuoteSnapshots', () => {
+    it('should report no changes for identical snapshots', () => {
+      const diff = diffQuoteSnapshots(base, { ...base })
+
+      expect(diff.total.delta).toBe(0)
+      expect(diff.addedItems).toHaveLength(0)
+      expect(diff.removedItems).toHaveLength(0)
+      expect(diff.changedItems).toHaveLength(0)
+      expect(summarizeQuoteDiff(diff)).toBe('Sem alterações')
+    })
+
+    it('should detect added, removed and changed items', () => {
+      const current: QuoteSnapshot = {
+        ...base,
+        totalValue: 23500,
+        items: [
+          { description: 'Kit Solar 5 kWp', quantity: 1, unitPrice: 18000, totalPrice: 18000, category: 'Equipamentos' },
+          { description: 'Homologação', quantity: 1, unitPrice: 5500, totalPrice: 5500, category: 'Serviços' }
+        ]
+      }
+
+      const diff = diffQuoteSnapshots(base, current)
+
+      expect(diff.total).toEqual({ from: 25000, to: 23500, delta: -1500 })
+      expect(diff.addedItems.map(item => item.description)).toEqual(['Homologação'])
+      expect(diff.removedItems.map(item => item.description)).toEqual(['Instalação'])
+      expect(diff.changedItems).toEqual([{
+        description: 'Kit Solar 5 kWp',
+        from: { quantity: 1, unitPrice: 20000, totalPrice: 20000 },
+        to: { quantity: 1, unitPrice: 18000, totalPrice: 18000 }
+      }])
+    })
+
+    it('should flag changes to terms and validity', () => {
+      const diff = diffQuoteSnapshots(base, {
+        ...base,
+        terms: 'Pagamento à vista',
+        validUntil: '2026-12-15T12:00:00.000Z'
+      })
+
+      expect(diff.termsChanged).toBe(true)
+      expect(diff.validUntilChanged).toBe(true)
+      expect(diff.titleChanged).toBe(false)
+      expect(diff.paymentConditionsChanged).toBe(false)
+    })
+
+    it('should flag changes to the payment conditions', () => {
+      const diff = diffQuoteSnapshots(base, {
+        ...base,
+        paymentConditions: { icmsRate: 0, issRate: 0, cashDiscountPercent: 5 }
+      })
+
+      expect(diff.paymentConditionsChanged).toBe(true)
+      expect(summarizeQuoteDiff(diff)).toBe('condições de pagamento alteradas')
+    })
+  })
+
+  describe('summarizeQuoteDiff', () => {
+    it('should describe the total change and item counts', () => {
+      const summary = summarizeQuoteDiff(diffQuoteSnapshots(base, {
+        ...base,
+        totalValue: 26000,
+        items: [
+          ...base.items,
+          { description: 'Monitoramento', quantity: 1, unitPrice: 1000, totalPrice: 1000, category: null }
+        ]
+      }))
+
+      expect(summary).toMatch(/^Total R\$\s25\.000,00 → R\$\s26\.000,00 \(\+R\$\s1\.000,00\)/)
+      expect(summary).toContain('1 item(s) incluído(s)')
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { logger } from '../../lib/logger'
+import { ScheduledJob } from '../../lib/scheduler'
+
+jest.mock('../../lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  },
+  LogCategory: {
+    SYSTEM: 'SYSTEM'
+  }
+}))
+
+describe('ScheduledJob', () => {
+  const run = jest.fn()
+  let job: ScheduledJob<{ processed: number }>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers()
+    run.mockResolvedValue({ processed: 1 })
+    job = new ScheduledJob({
+      name: 'Test',
+      run,
+      defaultIntervalMinutes: 5,
+      enabledEnv: 'ENABLE_TEST_JOB',
+      intervalEnv: 'TEST_JOB_INTERVAL_MINUTES'
+    })
+  })
+
+  afterEach(async () => {
+    await job.stop()
+    jest.useRealTimers()
+    delete process.env.ENABLE_TEST_JOB
+    delete process.env.TEST_JOB_INTERVAL_MINUTES
+  })
+
+  it('should skip ticks while the previous cycle is still running', async () => {
+    let finish: (value: { processed: number }) => void = () => {}
+    await job.start(1)
+    run.mockImplementationOnce(() => new Promise(resolve => { finish = resolve }))
+
+    await jest.advanceTimersByTimeAsync(60 * 1000)
+    expect(job.getStatus().inProgress).toBe(true)
+
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000)
+    expect(run).toHaveBeenCalledTimes(2)
+    expect(logger.warn).toHaveBeenCalledWith('SYSTEM', 'Test cycle skipped: previous cycle still running')
+
+    finish({ processed: 3 })
+    await jest.advanceTimersByTimeAsync(60 * 1000)
+
+    expect(run).toHaveBeenCalledTimes(3)
+    expect(job.getStatus().lastResult).toMatchObject({ processed: 1 })
+  })
+
+  it('should not run on demand while a cycle is in progress', async () => {
+    run.mockImplementationOnce(() => new Promise(() => {}))
+    void job.runNow()
+    await job.runNow()
+
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not wait for the first cycle to finish when starting', async () => {
+    run.mockImplementationOnce(() => new Promise(() => {}))
+
+    await job.initialize()
+
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(job.getStatus()).toMatchObject({ isRunning: true, inProgress: true })
+  })
+
+  it('should start with the interval from the environment', async () => {
+    process.env.TEST_JOB_INTERVAL_MINUTES = '15'
+
+    await job.initialize()
+
+    expect(job.getStatus()).toMatchObject({ isRunning: true, intervalMinutes: 15 })
+  })
+
+  it('should fall back to the default interval when the environment value is invalid', async () => {
+    process.env.TEST_JOB_INTERVAL_MINUTES = 'abc'
+
+    await job.initialize()
+
+    expect(job.getStatus().intervalMinutes).toBe(5)
+  })
+
+  it('should not start when disabled', async () => {
+    process.env.ENABLE_TEST_JOB = 'false'
+
+    await job.initialize()
+
+    expect(run).not.toHaveBeenCalled()
+    expect(job.getStatus().isRunning).toBe(false)
+  })
+})
@@ -0,0 +1,200 @@
+import { db } from '../../lib/db'
+import {
+  buildSiteSurveyForm,
+  completeSiteSurvey,
+  formatSurveyAnswer,
+  getSiteSurveyPendingItems,
+  parseSiteSurveyConfig,
+  renderSiteSurveyPdf,
+  SiteSurveyError,
+  updateSiteSurveyDraft
+} from '../../lib/site-surveys'
+
+jest.mock('uploadthing/server', () => ({
+  UTApi: jest.fn().mockImplementation(() => ({
+    generateSignedURL: jest.fn(),
+    deleteFiles: jest.fn()
+  }))
+}))
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    siteSurvey: { findUnique: jest.fn(), update: jest.fn() },
+    appointment: { update: jest.fn() },
+    leadActivity: { create: jest.fn() },
+    lead: { findFirst: jest.fn() },
+    $transaction: jest.fn()
+  }
+}))
+
+const mockDb = db as unknown as {
+  siteSurvey: { findUnique: jest.Mock; update: jest.Mock }
+  appointment: { update: jest.Mock }
+  leadActivity: { create: jest.Mock }
+  lead: { findFirst: jest.Mock }
+  $transaction: jest.Mock
+}
+
+const completeAnswers = {
+  roofType: 'Cerâmica',
+  structureCondition: 'Boa',
+  azimuth: 0,
+  tilt: 20,
+  shading: 'Sem sombreamento',
+  meterDistance: 15,
+  panelBoardCapacity: 63
+}
+
+describe('site survey form', () => {
+  it('should use the defaults when the company has no configuration', () => {
+    const form = buildSiteSurveyForm(parseSiteSurveyConfig(null))
+
+    expect(form.minPhotos).toBe(4)
+    expect(form.fields.map(field => field.key)).toEqual(Object.keys(completeAnswers))
+    expect(form.fields.every(field => field.required)).toBe(true)
+  })
+
+  it('should append the company fields after the standard ones', () => {
+    const form = buildSiteSurveyForm(parseSiteSurveyConfig({
+      requiredFields: ['roofType'],
+      minPhotos: 2,
+      customFields: [
+        { id: 'acesso', label: 'Acesso ao telhado', type: 'select', options: ['Fácil', 'Com andaime'], required: true }
+      ]
+    }))
+
+    expect(form.fields).toHaveLength(8)
+    expect(form.fields[7]).toMatchObject({ key: 'acesso', type: 'select', required: true })
+    expect(form.fields.filter(field => field.required).map(field => field.key)).toEqual(['roofType', 'acesso'])
+  })
+
+  it('should fall back to the defaults for invalid configurations', () => {
+    const config = parseSiteSurveyConfig({
+      customFields: [{ id: 'roofType', label: 'Telhado', type: 'text' }]
+    })
+
+    expect(config.customFields).toEqual([])
+  })
+
+  it('should list missing answers, invalid answers and missing photos', () => {
+    const form = buildSiteSurveyForm(parseSiteSurveyConfig(null))
+
+    expect(getSiteSurveyPendingItems(form, completeAnswers, 4)).toEqual([])
+    expect(getSiteSurveyPendingItems(form, { ...completeAnswers, tilt: 95, roofType: '  ' }, 1)).toEqual([
+      'Tipo de telhado: obrigatório',
+      'Inclinação: máximo de 90°',
+      'Fotos: envie pelo menos 4 (1 enviada)'
+    ])
+  })
+
+  it('should format answers with their units', () => {
+    const [, , azimuth, , , meterDistance] = buildSiteSurveyForm(parseSiteSurveyConfig(null)).fields
+
+    expect(formatSurveyAnswer(azimuth, 180)).toBe('180°')
+    expect(formatSurveyAnswer(meterDistance, 12.5)).toBe('12,5 m')
+    expect(formatSurveyAnswer(meterDistance, null)).toBe('—')
+    expect(formatSurveyAnswer({ key: 'x', label: 'X', type: 'yesno', required: false }, false)).toBe('Não')
+  })
+})
+
+describe('updateSiteSurveyDraft', () => {
+  const form = buildSiteSurveyForm(parseSiteSurveyConfig(null))
+  const survey = { id: 'survey-1', companyId: 'company-1', answers: { roofType: 'Laje' } }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.siteSurvey.update.mockResolvedValue({})
+  })
+
+  it('should merge known answers and drop unknown fields', async () => {
+    await updateSiteSurveyDraft(survey, form, { answers: { tilt: 15, unknown: 'x' }, notes: '' })
+
+    expect(mockDb.siteSurvey.update).toHaveBeenCalledWith({
+      where: { id: 'survey-1' },
+      data: { answers: { roofType: 'Laje', tilt: 15 }, notes: null }
+    })
+  })
+
+  it('should reject invalid answers and leads from other companies', async () => {
+    await expect(updateSiteSurveyDraft(survey, form, { answers: { roofType: 'Palha' } }))
+      .rejects.toThrow('Tipo de telhado: escolha uma das opções')
+
+    mockDb.lead.findFirst.mockResolvedValue(null)
+    await expect(updateSiteSurveyDraft(survey, form, { leadId: 'lead-2' })).rejects.toThrow('Lead não encontrado')
+    expect(mockDb.siteSurvey.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('completeSiteSurvey', () => {
+  const draft = {
+    id: 'survey-1',
+    status: 'DRAFT',
+    answers: completeAnswers,
+    leadId: 'lead-1',
+    company: { siteSurveyConfig: null },
+    appointment: { id: 'apt-1', status: 'CONFIRMED' },
+    _count: { photos: 4 }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDb.$transaction.mockImplementation(callback => callback(mockDb))
+    mockDb.siteSurvey.update.mockResolvedValue({ id: 'survey-1', status: 'COMPLETED' })
+  })
+
+  it('should freeze the form, finish the visit and log it on the lead', async () => {
+    mockDb.siteSurvey.findUnique.mockResolvedValue(draft)
+
+    await completeSiteSurvey('survey-1', 'user-1')
+
+    expect(mockDb.siteSurvey.update).toHaveBeenCalledWith({
+      where: { id: 'survey-1' },
+      data: expect.objectContaining({
+        status: 'COMPLETED',
+        completedById: 'user-1',
+        form: expect.objectContaining({ minPhotos: 4 })
+      })
+    })
+    expect(mockDb.appointment.update).toHaveBeenCalledWith({
+      where: { id: 'apt-1' },
+      data: { status: 'COMPLETED', sequence: { increment: 1 } }
+    })
+    expect(mockDb.leadActivity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ leadId: 'lead-1', type: 'NOTE', authorId: 'user-1' })
+    })
+  })
+
+  it('should refuse incomplete surveys with the pending items', async () => {
+    mockDb.siteSurvey.findUnique.mockResolvedValue({ ...draft, _count: { photos: 0 } })
+
+    const error = await completeSiteSurvey('survey-1', 'user-1').catch(e => e)
+
+    expect(error).toBeInstanceOf(SiteSurveyError)
+    expect(error.pending).toEqual(['Fotos: envie pelo menos 4 (0 enviadas)'])
+    expect(mockDb.$transaction).not.toHaveBeenCalled()
+  })
+})
+
+describe('renderSiteSurveyPdf', () => {
+  it('should render the answers and a placeholder for photos that are not JPEG', () => {
+    const pdf = renderSiteSurveyPdf({
+      form: buildSiteSurveyForm(parseSiteSurveyConfig(null)),
+      answers: completeAnswers,
+      notes: 'Telhado com acesso pela lateral',
+      completedAt: new Date('2026-10-20T15:00:00Z'),
+      completedByName: 'João Técnico',
+      appointment: { title: 'Visita técnica', date: new Date('2026-10-20T13:00:00Z'), location: 'Rua das Flores, 123' },
+      customer: { name: 'Maria Souza', email: 'maria@email.com' },
+      company: { name: 'Sol Forte' },
+      photos: [{ name: 'telhado.png', caption: 'Telhado', data: Buffer.from('png') }]
+    })
+    const content = pdf.toString('latin1')
+
+    expect(content.startsWith('%PDF-1.4')).toBe(true)
+    expect(content).toContain('(Relatório de Vistoria Técnica) Tj')
+    expect(content).toContain('(Cerâmica) Tj')
+    expect(content).toContain('(63 A) Tj')
+    expect(content).toContain('(Foto indisponível no relatório) Tj')
+    expect(content).toContain('(1. Telhado) Tj')
+  })
+})
@@ -0,0 +1,101 @@
+import {
+  calculateFinancialModel,
+  calculateIRR,
+  getCompensationRule,
+  getFioBRate
+} from '@/lib/solar'
+
+describe('Solar Financial Model', () => {
+  const baseInput = {
+    systemCost: 20000,
+    monthlyGeneration: Array(12).fill(450),
+    monthlyConsumption: 500,
+    tariff: 0.9,
+    connectionType: 'BIFASICO' as const,
+    startDate: new Date('2026-03-01T12:00:00Z')
+  }
+
+  describe('compensation rules', () => {
+    it('should classify access requests by the Lei 14.300 deadline', () => {
+      expect(getCompensationRule(new Date('2022-12-15T12:00:00Z'))).toBe('GD_I')
+      expect(getCompensationRule(new Date('2023-02-01T12:00:00Z'))).toBe('GD_II')
+    })
+
+    it('should follow the Fio B transition schedule for GD II', () => {
+      expect(getFioBRate('GD_II', 2023)).toBe(0.15)
+      expect(getFioBRate('GD_II', 2026)).toBe(0.6)
+      expect(getFioBRate('GD_II', 2028)).toBe(0.9)
+      expect(getFioBRate('GD_II', 2029)).toBe(1)
+    })
+
+    it('should keep GD I exempt until 2045', () => {
+      expect(getFioBRate('GD_I', 2045)).toBe(0)
+      expect(getFioBRate('GD_I', 2046)).toBe(1)
+    })
+  })
+
+  describe('calculateFinancialModel', () => {
+    it('should produce a 25-year cash flow', () => {
+      const result = calculateFinancialModel(baseInput)
+
+      expect(result.cashFlows).toHaveLength(25)
+      expect(result.cashFlows[0].calendarYear).toBe(2026)
+      expect(result.cashFlows[0].fioBRate).toBe(0.6)
+      expect(result.compensationRule).toBe('GD_II')
+    })
+
+    it('should never bill less than the minimum availability charge', () => {
+      const result = calculateFinancialModel({
+        ...baseInput,
+        monthlyGeneration: Array(12).fill(2000),
+        fioBShare: 0
+      })
+
+      // 50 kWh/mês faturados no bifásico mesmo com geração excedente
+      expect(result.cashFlows[0].billWithSolar).toBeCloseTo(50 * 0.9 * 12, 2)
+    })
+
+    it('should charge more for trifásico minimum consumption', () => {
+      const bifasico = calculateFinancialModel(baseInput)
+      const trifasico = calculateFinancialModel({ ...baseInput, connectionType: 'TRIFASICO' })
+
+      expect(trifasico.firstYearSavings).toBeLessThan(bifasico.firstYearSavings)
+      expect(trifasico.minimumBilledConsumption).toBe(100)
+    })
+
+    it('should return lower savings under GD II than under GD I', () => {
+      const gdII = calculateFinancialModel(baseInput)
+      const gdI = calculateFinancialModel({ ...baseInput, startDate: new Date('2022-06-01T12:00:00Z') })
+
+      expect(gdII.totalSavings).toBeLessThan(gdI.totalSavings)
+    })
+
+    it('should report discounted payback after simple payback', () => {
+      const result = calculateFinancialModel(baseInput)
+
+      expect(result.paybackPeriod).not.toBeNull()
+      expect(result.discountedPaybackPeriod!).toBeGreaterThan(result.paybackPeriod!)
+      expect(result.netPresentValue).toBeGreaterThan(0)
+      expect(result.internalRateOfReturn!).toBeGreaterThan(0.1)
+    })
+
+    it('should return null payback when savings never cover the investment', () => {
+      const result = calculateFinancialModel({ ...baseInput, systemCost: 1000000 })
+
+      expect(result.paybackPeriod).toBeNull()
+      expect(result.discountedPaybackPeriod).toBeNull()
+      expect(result.netPresentValue).toBeLessThan(0)
+    })
+  })
+
+  describe('calculateIRR', () => {
+    it('should find the rate that zeroes the net present value', () => {
+      expect(calculateIRR([-1000, 1100])).toBeCloseTo(0.1, 4)
+      expect(calculateIRR([-1000, 500, 500, 500])).toBeCloseTo(0.2338, 3)
+    })
+
+    it('should return null when cash flows never change sign', () => {
+      expect(calculateIRR([1000, 100])).toBeNull()
+    })
+  })
+})
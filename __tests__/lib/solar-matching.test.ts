@@ -0,0 +1,56 @@
+import {
+  getCoverageScore,
+  getMunicipalityByCode,
+  matchEquipment,
+  type CatalogProduct
+} from '@/lib/solar'
+
+describe('Solar Matching', () => {
+  const campinas = getMunicipalityByCode('3509502')!
+
+  describe('getCoverageScore', () => {
+    it('should rank explicit service areas above headquarters and state coverage', () => {
+      expect(getCoverageScore({ id: '1', serviceAreas: ['Campinas - SP'] }, campinas)).toBe(3)
+      expect(getCoverageScore({ id: '2', city: 'Campinas', serviceAreas: [] }, campinas)).toBe(2)
+      expect(getCoverageScore({ id: '3', state: 'SP', serviceAreas: [] }, campinas)).toBe(1)
+      expect(getCoverageScore({ id: '4', serviceAreas: ['SP'] }, campinas)).toBe(1)
+    })
+
+    it('should return zero when the company does not serve the municipality', () => {
+      expect(getCoverageScore({ id: '1', state: 'RJ', serviceAreas: ['Niterói'] }, campinas)).toBe(0)
+    })
+  })
+
+  describe('matchEquipment', () => {
+    const products: CatalogProduct[] = [
+      { id: 'kit-5', name: 'Kit 5,5 kWp', category: 'KIT_COMPLETO', power: 5500, price: 19800, companyId: 'a' },
+      { id: 'kit-10', name: 'Kit 10 kWp', category: 'KIT_COMPLETO', power: 10000, price: 32000, companyId: 'a' },
+      { id: 'panel', name: 'Módulo 550W', category: 'PAINEL_SOLAR', power: 550, price: 900, companyId: 'b' },
+      { id: 'inv-5', name: 'Inversor 5kW', category: 'INVERSOR', power: 5000, price: 5200, companyId: 'b' },
+      { id: 'inv-other', name: 'Inversor 5kW', category: 'INVERSOR', power: 5000, price: 3000, companyId: 'c' }
+    ]
+
+    it('should match kits within the power tolerance', () => {
+      const kits = matchEquipment(products, 5).filter(match => match.type === 'KIT')
+
+      expect(kits).toHaveLength(1)
+      expect(kits[0].items[0].productId).toBe('kit-5')
+    })
+
+    it('should combine panels with an inverter from the same company', () => {
+      const components = matchEquipment(products, 5).find(match => match.type === 'COMPONENTS')!
+
+      expect(components.companyId).toBe('b')
+      expect(components.items.map(item => item.productId)).toEqual(['panel', 'inv-5'])
+      expect(components.items[0].quantity).toBe(10)
+      expect(components.totalPrice).toBe(10 * 900 + 5200)
+    })
+
+    it('should sort matches by cost per Wp', () => {
+      const matches = matchEquipment(products, 5)
+      const costs = matches.map(match => match.totalPrice / match.totalPower)
+
+      expect(costs).toEqual([...costs].sort((a, b) => a - b))
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import {
+  calculateMonthlyIrradiance,
+  estimateSystemCost,
+  getMunicipalityByCode,
+  resolveMunicipality,
+  searchMunicipalities,
+  simulateSolarSystem
+} from '@/lib/solar'
+
+describe('Solar Engine', () => {
+  describe('municipalities', () => {
+    it('should find municipality by IBGE code', () => {
+      const municipality = getMunicipalityByCode('3550308')
+
+      expect(municipality?.name).toBe('São Paulo')
+      expect(municipality?.state).toBe('SP')
+    })
+
+    it('should resolve free text location ignoring accents', () => {
+      expect(resolveMunicipality('Sao Jose dos Campos, SP')?.ibgeCode).toBe('3549904')
+      expect(resolveMunicipality('belém - PA')?.ibgeCode).toBe('1501402')
+    })
+
+    it('should fall back to the state capital for unknown cities', () => {
+      expect(resolveMunicipality('Cidade Pequena, MG')?.name).toBe('Belo Horizonte')
+    })
+
+    it('should return undefined when neither city nor state are known', () => {
+      expect(resolveMunicipality('Lugar Nenhum')).toBeUndefined()
+    })
+
+    it('should search municipalities by partial name', () => {
+      const results = searchMunicipalities('campo')
+
+      expect(results.map(m => m.name)).toEqual(
+        expect.arrayContaining(['Campo Grande', 'São José dos Campos'])
+      )
+      expect(searchMunicipalities('')).toEqual([])
+    })
+  })
+
+  describe('calculateMonthlyIrradiance', () => {
+    it('should preserve horizontal irradiation for a flat surface', () => {
+      const result = calculateMonthlyIrradiance(1, 5.2, 23, { latitude: -23.55, tilt: 0, azimuth: 0 })
+
+      expect(result.planeOfArray).toBeCloseTo(5.2, 1)
+    })
+
+    it('should favour north-facing surfaces in winter in the southern hemisphere', () => {
+      const options = { latitude: -23.55, tilt: 24 }
+      const north = calculateMonthlyIrradiance(7, 3.25, 16.4, { ...options, azimuth: 0 })
+      const south = calculateMonthlyIrradiance(7, 3.25, 16.4, { ...options, azimuth: 180 })
+
+      expect(north.planeOfArray).toBeGreaterThan(3.25)
+      expect(south.planeOfArray).toBeLessThan(3.25)
+    })
+
+    it('should derate generation when cells run hotter than 25°C', () => {
+      const result = calculateMonthlyIrradiance(1, 6, 28, { latitude: -3.72, tilt: 10, azimuth: 0 })
+
+      expect(result.cellTemperature).toBeGreaterThan(28)
+      expect(result.temperatureFactor).toBeLessThan(1)
+    })
+  })
+
+  describe('simulateSolarSystem', () => {
+    const saoPaulo = getMunicipalityByCode('3550308')!
+
+    it('should size the system to offset yearly consumption', () => {
+      const result = simulateSolarSystem({
+        municipality: saoPaulo,
+        monthlyConsumption: 500,
+        panelPower: 550,
+        azimuth: 0
+      })
+
+      expect(result.monthly).toHaveLength(12)
+      expect(result.yearlyGeneration).toBeGreaterThanOrEqual(500 * 12)
+      expect(result.systemSize).toBeCloseTo(result.panelCount * 0.55, 5)
+      expect(result.performanceRatio).toBeGreaterThan(0.7)
+      expect(result.performanceRatio).toBeLessThan(0.95)
+    })
+
+    it('should generate more per kWp in Fortaleza than in Porto Alegre', () => {
+      const input = { monthlyConsumption: 1500, panelPower: 550, azimuth: 0 }
+      const fortaleza = simulateSolarSystem({ ...input, municipality: getMunicipalityByCode('2304400')! })
+      const portoAlegre = simulateSolarSystem({ ...input, municipality: getMunicipalityByCode('4314902')! })
+
+      expect(fortaleza.specificYield).toBeGreaterThan(portoAlegre.specificYield)
+      expect(fortaleza.systemSize).toBeLessThan(portoAlegre.systemSize)
+    })
+
+    it('should reduce generation with shading losses', () => {
+      const input = {
+        municipality: saoPaulo,
+        monthlyConsumption: 300,
+        panelPower: 550,
+        azimuth: 0,
+        systemSize: 3.3
+      }
+
+      const clear = simulateSolarSystem(input)
+      const shaded = simulateSolarSystem({ ...input, shadingLoss: 0.15 })
+
+      expect(shaded.yearlyGeneration).toBeCloseTo(clear.yearlyGeneration * 0.85, 5)
+    })
+  })
+
+  describe('estimateSystemCost', () => {
+    it('should apply lower cost per kWp for larger systems', () => {
+      expect(estimateSystemCost(2) / 2).toBeGreaterThan(estimateSystemCost(20) / 20)
+    })
+  })
+})
@@ -0,0 +1,297 @@
+import crypto from 'crypto'
+import { promises as dns } from 'dns'
+import { EventEmitter } from 'events'
+import https from 'https'
+import { Readable } from 'stream'
+import { db } from '../../lib/db'
+import {
+  deliverWebhook,
+  dispatchWebhookEvent,
+  getNextWebhookAttempt,
+  isAllowedWebhookUrl,
+  isPrivateAddress,
+  resolveWebhookTarget,
+  signWebhookPayload,
+  webhookEndpointSchema,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from '../../lib/webhooks'
+
+jest.mock('dns', () => ({
+  promises: { lookup: jest.fn() }
+}))
+
+jest.mock('../../lib/db', () => ({
+  db: {
+    webhookEndpoint: {
+      findMany: jest.fn()
+    },
+    webhookDelivery: {
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn()
+    },
+    $transaction: jest.fn()
+  }
+}))
+
+const mockLookup = dns.lookup as unknown as jest.Mock
+
+const mockDb = db as unknown as {
+  webhookEndpoint: { findMany: jest.Mock }
+  webhookDelivery: { updateMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock; create: jest.Mock }
+  $transaction: jest.Mock
+}
+
+describe('Webhooks', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const requestMock = jest.spyOn(https, 'request') as unknown as jest.Mock
+
+  // Requisição HTTPS falsa: responde com `status` e `body`, ou falha com `error`
+  const mockHttpsResult = (result: { status: number; body?: string } | { error: Error }) => {
+    requestMock.mockImplementation((_url, _options, callback) => {
+      const request = Object.assign(new EventEmitter(), {
+        destroy: jest.fn(),
+        end: jest.fn(() => {
+          if ('error' in result) {
+            request.emit('error', result.error)
+            return
+          }
+          callback(Object.assign(Readable.from([Buffer.from(result.body ?? '')]), { statusCode: result.status }))
+        })
+      })
+      return request
+    })
+  }
+
+  const withProduction = async <T>(run: () => Promise<T>): Promise<T> => {
+    const env = process.env as Record<string, string | undefined>
+    const nodeEnv = env.NODE_ENV
+    env.NODE_ENV = 'production'
+    try {
+      return await run()
+    } finally {
+      env.NODE_ENV = nodeEnv
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const body = JSON.stringify({ id: 'evt_1' })
+      const expected = crypto.createHmac('sha256', 'whsec_test').update(`1792425600.${body}`).digest('hex')
+
+      expect(signWebhookPayload('whsec_test', 1792425600, body)).toBe(`sha256=${expected}`)
+      expect(signWebhookPayload('whsec_test', 1792425601, body)).not.toBe(`sha256=${expected}`)
+    })
+  })
+
+  describe('getNextWebhookAttempt', () => {
+    it('should back off between attempts and stop after the last one', () => {
+      expect(getNextWebhookAttempt(1, now)).toEqual(new Date('2026-10-19T12:01:00Z'))
+      expect(getNextWebhookAttempt(3, now)).toEqual(new Date('2026-10-19T12:30:00Z'))
+      expect(getNextWebhookAttempt(6, now)).toBeNull()
+    })
+  })
+
+  describe('isAllowedWebhookUrl', () => {
+    it('should only accept public HTTPS URLs in production', () => {
+      expect(isAllowedWebhookUrl('https://hooks.suaempresa.com.br/solar', true)).toBe(true)
+      expect(isAllowedWebhookUrl('http://hooks.suaempresa.com.br/solar', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://localhost:3000/hook', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://192.168.0.10/hook', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://172.20.0.1/hook', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://[::ffff:127.0.0.1]/hook', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://[fe80::1]/hook', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://2130706433/hook', true)).toBe(false)
+      expect(isAllowedWebhookUrl('https://8.8.8.8/hook', true)).toBe(true)
+    })
+
+    it('should allow local URLs outside production', () => {
+      expect(isAllowedWebhookUrl('http://localhost:3000/hook', false)).toBe(true)
+      expect(isAllowedWebhookUrl('ftp://suaempresa.com.br', false)).toBe(false)
+    })
+  })
+
+  describe('isPrivateAddress', () => {
+    it('should flag private, loopback and link-local addresses', () => {
+      expect(isPrivateAddress('10.1.2.3')).toBe(true)
+      expect(isPrivateAddress('127.0.0.1')).toBe(true)
+      expect(isPrivateAddress('169.254.169.254')).toBe(true)
+      expect(isPrivateAddress('100.64.0.1')).toBe(true)
+      expect(isPrivateAddress('0.0.0.0')).toBe(true)
+      expect(isPrivateAddress('::1')).toBe(true)
+      expect(isPrivateAddress('::')).toBe(true)
+      expect(isPrivateAddress('fd00::1')).toBe(true)
+      expect(isPrivateAddress('fe80::1')).toBe(true)
+      expect(isPrivateAddress('::ffff:192.168.0.1')).toBe(true)
+      expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true)
+    })
+
+    it('should accept public addresses', () => {
+      expect(isPrivateAddress('8.8.8.8')).toBe(false)
+      expect(isPrivateAddress('172.32.0.1')).toBe(false)
+      expect(isPrivateAddress('2606:4700::1111')).toBe(false)
+      expect(isPrivateAddress('::ffff:808:808')).toBe(false)
+    })
+  })
+
+  describe('resolveWebhookTarget', () => {
+    it('should reject hosts that resolve to a private address', async () => {
+      mockLookup.mockResolvedValue([{ address: '203.0.113.10', family: 4 }, { address: '10.0.0.5', family: 4 }])
+
+      await expect(resolveWebhookTarget('https://hooks.suaempresa.com.br', true))
+        .rejects.toThrow('O endpoint aponta para um endereço que não é público')
+      expect(mockLookup).toHaveBeenCalledWith('hooks.suaempresa.com.br', { all: true })
+    })
+
+    it('should accept hosts that resolve only to public addresses', async () => {
+      mockLookup.mockResolvedValue([{ address: '203.0.113.10', family: 4 }])
+
+      await expect(resolveWebhookTarget('https://hooks.suaempresa.com.br', true))
+        .resolves.toEqual({ address: '203.0.113.10', family: 4 })
+    })
+
+    it('should skip the lookup outside production', async () => {
+      expect(await resolveWebhookTarget('http://localhost:3000/hook', false)).toBeNull()
+
+      expect(mockLookup).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('webhookEndpointSchema', () => {
+    it('should require at least one known event', () => {
+      expect(webhookEndpointSchema.safeParse({ url: 'https://a.com.br', events: [] }).success).toBe(false)
+      expect(webhookEndpointSchema.safeParse({ url: 'https://a.com.br', events: ['lead.deleted'] }).success).toBe(false)
+      expect(webhookEndpointSchema.safeParse({ url: 'https://a.com.br', events: ['lead.created'] }).success).toBe(true)
+    })
+  })
+
+  describe('deliverWebhook', () => {
+    const delivery = {
+      id: 'delivery-1',
+      event: 'lead.created',
+      payload: { id: 'evt_1', event: 'lead.created', data: {} },
+      attempts: 0,
+      endpoint: { url: 'https://hooks.suaempresa.com.br', secret: 'whsec_test', active: true }
+    }
+
+    it('should not send deliveries already claimed by another worker', async () => {
+      mockDb.webhookDelivery.updateMany.mockResolvedValue({ count: 0 })
+
+      expect(await deliverWebhook('delivery-1', now)).toBe(false)
+      expect(requestMock).not.toHaveBeenCalled()
+    })
+
+    it('should send the signed payload and record the success', async () => {
+      mockDb.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.webhookDelivery.findUnique.mockResolvedValue(delivery)
+      mockHttpsResult({ status: 200, body: 'ok' })
+
+      expect(await deliverWebhook('delivery-1', now)).toBe(true)
+
+      const [url, options] = requestMock.mock.calls[0]
+      const request = requestMock.mock.results[0].value
+      const body = request.end.mock.calls[0][0]
+      const timestamp = Math.floor(now.getTime() / 1000)
+      expect(url).toBe('https://hooks.suaempresa.com.br')
+      expect(options.headers[WEBHOOK_TIMESTAMP_HEADER]).toBe(String(timestamp))
+      expect(options.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(signWebhookPayload('whsec_test', timestamp, body))
+      expect(options.lookup).toBeUndefined()
+      expect(mockDb.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'SUCCESS', attempts: 1, nextAttemptAt: null, responseStatus: 200, responseBody: 'ok' })
+      })
+    })
+
+    it('should connect to the validated address instead of resolving the host again in production', async () => {
+      mockDb.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.webhookDelivery.findUnique.mockResolvedValue(delivery)
+      mockLookup.mockResolvedValue([{ address: '203.0.113.10', family: 4 }])
+      mockHttpsResult({ status: 200, body: 'ok' })
+
+      expect(await withProduction(() => deliverWebhook('delivery-1', now))).toBe(true)
+
+      const { lookup } = requestMock.mock.calls[0][1]
+      const callback = jest.fn()
+      lookup('hooks.suaempresa.com.br', { all: true }, callback)
+      lookup('hooks.suaempresa.com.br', {}, callback)
+      expect(callback).toHaveBeenNthCalledWith(1, null, [{ address: '203.0.113.10', family: 4 }])
+      expect(callback).toHaveBeenNthCalledWith(2, null, '203.0.113.10', 4)
+      expect(mockLookup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should schedule a retry when the endpoint fails', async () => {
+      mockDb.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.webhookDelivery.findUnique.mockResolvedValue(delivery)
+      mockHttpsResult({ status: 500, body: 'erro' })
+
+      expect(await deliverWebhook('delivery-1', now)).toBe(false)
+      expect(mockDb.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          status: 'PENDING',
+          nextAttemptAt: new Date('2026-10-19T12:01:00Z'),
+          error: 'Resposta HTTP 500'
+        })
+      })
+    })
+
+    it('should not contact endpoints that resolve to a private address in production', async () => {
+      mockDb.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.webhookDelivery.findUnique.mockResolvedValue(delivery)
+      mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }])
+
+      expect(await withProduction(() => deliverWebhook('delivery-1', now))).toBe(false)
+
+      expect(requestMock).not.toHaveBeenCalled()
+      expect(mockDb.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          responseStatus: null,
+          responseBody: null,
+          error: 'O endpoint aponta para um endereço que não é público'
+        })
+      })
+    })
+
+    it('should give up after the last attempt', async () => {
+      mockDb.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+      mockDb.webhookDelivery.findUnique.mockResolvedValue({ ...delivery, attempts: 5 })
+      mockHttpsResult({ error: new Error('ECONNREFUSED') })
+
+      await deliverWebhook('delivery-1', now)
+
+      expect(mockDb.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'FAILED', attempts: 6, nextAttemptAt: null })
+      })
+    })
+  })
+
+  describe('dispatchWebhookEvent', () => {
+    it('should skip companies without subscribed endpoints', async () => {
+      mockDb.webhookEndpoint.findMany.mockResolvedValue([])
+
+      await dispatchWebhookEvent('company-1', 'lead.created', {})
+
+      expect(mockDb.webhookEndpoint.findMany).toHaveBeenCalledWith({
+        where: { companyId: 'company-1', active: true, events: { has: 'lead.created' } },
+        select: { id: true }
+      })
+      expect(mockDb.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should not throw when the database fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      mockDb.webhookEndpoint.findMany.mockRejectedValue(new Error('db down'))
+
+      await expect(dispatchWebhookEvent('company-1', 'lead.created', {})).resolves.toBeUndefined()
+      consoleSpy.mockRestore()
+    })
+  })
+})
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { createProductModerationNotification, createProjectModerationNotification } from '@/lib/notifications'
+import { dispatchWebhookEvent, serializeWebhookReview } from '@/lib/webhooks'
 
 export async function POST(request: NextRequest) {
   try {
@@ -76,7 +77,12 @@ export async function POST(request: NextRequest) {
         )
         break
 
-      case 'review':
+      case 'review': {
+        const previous = await prisma.review.findUnique({
+          where: { id },
+          select: { status: true }
+        })
+
         result = await prisma.review.update({
           where: { id },
           data: { 
@@ -86,7 +92,14 @@ export async function POST(request: NextRequest) {
             rejectionReason: null
           }
         })
+
+        if (previous?.status !== 'APPROVED') {
+          await dispatchWebhookEvent(result.companyId, 'review.published', {
+            review: serializeWebhookReview(result)
+          })
+        }
         break
+      }
 
       default:
         return NextResponse.json(
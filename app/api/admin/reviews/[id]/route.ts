@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { dispatchWebhookEvent, serializeWebhookReview } from '@/lib/webhooks';
 
 export async function PUT(
   request: NextRequest,
@@ -27,6 +28,11 @@ export async function PUT(
       updateData.moderationNote = moderationNote;
     }
 
+    const previous = await prisma.review.findUnique({
+      where: { id: reviewId },
+      select: { status: true }
+    });
+
     const review = await prisma.review.update({
       where: { id: reviewId },
       data: updateData,
@@ -62,6 +68,12 @@ export async function PUT(
       });
     }
 
+    if (review.status === 'APPROVED' && previous?.status !== 'APPROVED') {
+      await dispatchWebhookEvent(review.companyId, 'review.published', {
+        review: serializeWebhookReview(review)
+      });
+    }
+
     return NextResponse.json(review);
   } catch (error) {
     console.error('Error updating review:', error);
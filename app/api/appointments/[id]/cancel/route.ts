@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { createAppointmentResponseNotification } from '@/lib/notifications'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  getAppointmentChangeBlocker,
+  sendAppointmentInvites
+} from '@/lib/appointments'
+
+const cancelAppointmentSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+  reason: z.string().trim().max(500, 'Motivo muito longo').optional()
+})
+
+// POST - Cliente cancela a visita pelo link do email
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const validatedData = cancelAppointmentSchema.parse(body)
+
+    const appointment = await db.appointment.findUnique({
+      where: { id: params.id },
+      include: {
+        company: { select: { userId: true } },
+        user: { select: { name: true, email: true } }
+      }
+    })
+
+    if (!appointment || !isValidAccessToken(appointment.accessToken, validatedData.token)) {
+      return NextResponse.json(
+        { message: 'Visita não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const blocker = getAppointmentChangeBlocker(appointment, 'cancel')
+    if (blocker) {
+      return NextResponse.json(
+        { message: blocker },
+        { status: 409 }
+      )
+    }
+
+    await db.appointment.update({
+      where: { id: appointment.id },
+      data: {
+        status: 'CANCELLED',
+        sequence: { increment: 1 }
+      }
+    })
+
+    await createAppointmentResponseNotification(
+      appointment.company.userId,
+      appointment,
+      appointment.user.name || appointment.user.email,
+      'cancelled',
+      { reason: validatedData.reason || undefined }
+    )
+
+    await sendAppointmentInvites(appointment.id, 'cancelled')
+
+    return NextResponse.json({ message: 'Visita cancelada com sucesso' })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Appointment cancel error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
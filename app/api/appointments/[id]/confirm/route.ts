@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { createAppointmentResponseNotification } from '@/lib/notifications'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  getAppointmentChangeBlocker,
+  sendAppointmentInvites
+} from '@/lib/appointments'
+
+const confirmAppointmentSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório')
+})
+
+// POST - Cliente confirma presença pelo link do email
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const validatedData = confirmAppointmentSchema.parse(body)
+
+    const appointment = await db.appointment.findUnique({
+      where: { id: params.id },
+      include: {
+        company: { select: { userId: true } },
+        user: { select: { name: true, email: true } }
+      }
+    })
+
+    if (!appointment || !isValidAccessToken(appointment.accessToken, validatedData.token)) {
+      return NextResponse.json(
+        { message: 'Visita não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const blocker = getAppointmentChangeBlocker(appointment, 'confirm')
+    if (blocker) {
+      return NextResponse.json(
+        { message: blocker },
+        { status: 409 }
+      )
+    }
+
+    if (appointment.customerConfirmedAt) {
+      return NextResponse.json({ message: 'Presença já confirmada' })
+    }
+
+    const statusChanged = appointment.status !== 'CONFIRMED'
+
+    await db.appointment.update({
+      where: { id: appointment.id },
+      data: {
+        status: 'CONFIRMED',
+        customerConfirmedAt: new Date(),
+        // Visitas só agendadas saem de provisórias no calendário
+        ...(statusChanged && { sequence: { increment: 1 } })
+      }
+    })
+
+    await createAppointmentResponseNotification(
+      appointment.company.userId,
+      appointment,
+      appointment.user.name || appointment.user.email,
+      'confirmed'
+    )
+
+    if (statusChanged) {
+      await sendAppointmentInvites(appointment.id, 'confirmed')
+    }
+
+    return NextResponse.json({ message: 'Presença confirmada com sucesso' })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Appointment confirm error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  buildCalendar,
+  calendarAppointmentInclude,
+  toCalendarEvent
+} from '@/lib/appointments'
+
+// GET - Arquivo .ics da visita, para adicionar ao calendário. O cliente também
+// acessa sem login, com o token do link da visita (?token=)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const token = new URL(request.url).searchParams.get('token')
+    const session = token ? null : await getServerSession(authOptions)
+
+    if (!token && !session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      include: {
+        ...calendarAppointmentInclude,
+        company: { select: { name: true, email: true, userId: true, user: { select: { email: true } } } }
+      }
+    })
+
+    const isCustomer = token
+      ? isValidAccessToken(appointment?.accessToken, token)
+      : appointment?.userId === session?.user.id
+    const isCompany = !!session && (appointment?.company.userId === session.user.id || session.user.role === 'ADMIN')
+
+    if (!appointment || (!isCustomer && !isCompany)) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 })
+    }
+
+    const calendar = buildCalendar([
+      toCalendarEvent(appointment, { audience: isCustomer ? 'customer' : 'company' })
+    ])
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="visita-${appointment.id}.ics"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting appointment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { createAppointmentResponseNotification } from '@/lib/notifications'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  chooseTechnician,
+  getAppointmentChangeBlocker,
+  getCompanyDayAvailability,
+  sendAppointmentInvites,
+  toBrasiliaDate
+} from '@/lib/appointments'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const APPOINTMENT_CHANGED_MESSAGE = 'Esta visita acabou de ser alterada. Recarregue a página e tente novamente'
+
+const rescheduleAppointmentSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+  date: z.string().regex(DATE_PATTERN, 'Data inválida'),
+  time: z.string().regex(/^\d{2}:\d{2}$/, 'Horário inválido')
+})
+
+async function findAppointment(id: string, token: string) {
+  const appointment = await db.appointment.findUnique({
+    where: { id },
+    include: {
+      company: { select: { userId: true } },
+      user: { select: { name: true, email: true } }
+    }
+  })
+
+  return appointment && isValidAccessToken(appointment.accessToken, token) ? appointment : null
+}
+
+// GET - Horários livres para remarcar, sem contar o horário atual da própria visita
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const token = searchParams.get('token') || ''
+    const date = searchParams.get('date') || ''
+
+    if (!DATE_PATTERN.test(date) || isNaN(new Date(`${date}T12:00:00Z`).getTime())) {
+      return NextResponse.json(
+        { message: 'Data inválida' },
+        { status: 400 }
+      )
+    }
+
+    const appointment = await findAppointment(params.id, token)
+
+    if (!appointment) {
+      return NextResponse.json(
+        { message: 'Visita não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const blocker = getAppointmentChangeBlocker(appointment, 'reschedule')
+    if (blocker) {
+      return NextResponse.json(
+        { message: blocker },
+        { status: 409 }
+      )
+    }
+
+    const availability = await getCompanyDayAvailability(appointment.companyId, date, {
+      duration: appointment.duration,
+      excludeAppointmentId: appointment.id
+    })
+
+    if (!availability) {
+      return NextResponse.json(
+        { message: 'Empresa não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      slots: availability.slots.map(slot => ({ time: slot.time, available: slot.available })),
+      closedReason: availability.closedReason
+    })
+
+  } catch (error) {
+    console.error('Appointment reschedule slots error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Cliente remarca a visita para outro horário livre pelo link do email
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const validatedData = rescheduleAppointmentSchema.parse(body)
+
+    const appointment = await findAppointment(params.id, validatedData.token)
+
+    if (!appointment) {
+      return NextResponse.json(
+        { message: 'Visita não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const blocker = getAppointmentChangeBlocker(appointment, 'reschedule')
+    if (blocker) {
+      return NextResponse.json(
+        { message: blocker },
+        { status: 409 }
+      )
+    }
+
+    const date = toBrasiliaDate(validatedData.date, validatedData.time)
+
+    // Horário e limite de remarcações conferidos na mesma transação serializável da
+    // gravação: pedidos simultâneos não ocupam o mesmo horário nem passam do limite
+    const result = await db.$transaction(async (tx) => {
+      const availability = await getCompanyDayAvailability(appointment.companyId, validatedData.date, {
+        duration: appointment.duration,
+        excludeAppointmentId: appointment.id,
+        client: tx
+      })
+
+      const slot = availability?.slots.find(item => item.time === validatedData.time)
+
+      if (!availability || !slot?.available) {
+        return { conflict: availability?.closedReason || 'Este horário não está mais disponível. Escolha outro' }
+      }
+
+      // Só grava se a visita não foi alterada desde a leitura
+      const { count } = await tx.appointment.updateMany({
+        where: {
+          id: appointment.id,
+          status: appointment.status,
+          rescheduleCount: appointment.rescheduleCount
+        },
+        data: {
+          date,
+          status: 'RESCHEDULED',
+          technicianId: chooseTechnician(slot.technicianIds, availability.appointments),
+          sequence: { increment: 1 },
+          rescheduleCount: { increment: 1 },
+          // Quem escolheu o novo horário já confirmou presença; os lembretes recomeçam
+          customerConfirmedAt: new Date(),
+          reminder24hSentAt: null,
+          reminder2hSentAt: null
+        }
+      })
+
+      if (count === 0) {
+        return { conflict: APPOINTMENT_CHANGED_MESSAGE }
+      }
+
+      return { updated: await tx.appointment.findUniqueOrThrow({ where: { id: appointment.id } }) }
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+
+    if (!result.updated) {
+      return NextResponse.json(
+        { message: result.conflict },
+        { status: 409 }
+      )
+    }
+
+    const { updated } = result
+
+    await createAppointmentResponseNotification(
+      appointment.company.userId,
+      updated,
+      appointment.user.name || appointment.user.email,
+      'rescheduled',
+      { previousDate: appointment.date }
+    )
+
+    await sendAppointmentInvites(appointment.id, 'rescheduled')
+
+    return NextResponse.json({
+      message: 'Visita remarcada com sucesso',
+      data: { date: updated.date }
+    })
+
+  } catch (error) {
+    // Outra remarcação concorrente foi gravada primeiro
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return NextResponse.json(
+        { message: APPOINTMENT_CHANGED_MESSAGE },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Appointment reschedule error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
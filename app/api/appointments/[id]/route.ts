@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { sendAppointmentInvites } from '@/lib/appointments'
+import { z } from 'zod'
+
+const updateStatusSchema = z.object({
+  status: z.enum(['CONFIRMED', 'COMPLETED', 'CANCELLED'])
+})
+
+// Status que ainda podem mudar; visitas concluídas ou canceladas ficam como estão
+const OPEN_STATUSES = ['SCHEDULED', 'CONFIRMED', 'RESCHEDULED']
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = updateStatusSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const { status } = parsed.data
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      include: {
+        company: { select: { userId: true, name: true } },
+        user: { select: { name: true } }
+      }
+    })
+
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 })
+    }
+
+    const isCustomer = appointment.userId === session.user.id
+    const isCompany = appointment.company.userId === session.user.id || session.user.role === 'ADMIN'
+
+    if (!isCustomer && !isCompany) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 })
+    }
+
+    // O cliente confirma presença ou cancela; concluir cabe à empresa
+    if (!isCompany && status === 'COMPLETED') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (OPEN_STATUSES.indexOf(appointment.status) === -1) {
+      return NextResponse.json({ error: 'Appointment can no longer be changed' }, { status: 409 })
+    }
+
+    const updated = await prisma.appointment.update({
+      where: { id: appointment.id },
+      data: {
+        status,
+        sequence: { increment: 1 },
+        ...(!isCompany && status === 'CONFIRMED' && { customerConfirmedAt: new Date() })
+      }
+    })
+
+    if (status === 'CONFIRMED' || status === 'CANCELLED') {
+      const notifyUserId = isCompany ? appointment.userId : appointment.company.userId
+
+      await prisma.notification.create({
+        data: {
+          title: status === 'CONFIRMED' ? 'Visita confirmada!' : 'Visita cancelada',
+          message: status === 'CONFIRMED'
+            ? `${isCompany ? appointment.company.name : appointment.user.name} confirmou a visita: ${appointment.title}`
+            : `${isCompany ? appointment.company.name : appointment.user.name} cancelou a visita: ${appointment.title}`,
+          type: status === 'CONFIRMED' ? 'APPOINTMENT_CONFIRMED' : 'APPOINTMENT_CANCELLED',
+          userId: notifyUserId,
+          data: {
+            appointmentId: appointment.id,
+            date: appointment.date.toISOString(),
+          }
+        }
+      })
+
+      await sendAppointmentInvites(appointment.id, status === 'CONFIRMED' ? 'confirmed' : 'cancelled')
+    }
+
+    // O link do cliente não vai para a empresa
+    const { accessToken, ...appointmentData } = updated
+
+    return NextResponse.json(isCompany ? appointmentData : updated)
+
+  } catch (error) {
+    console.error('Error updating appointment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { generateAccessToken } from '@/lib/access-tokens'
+import {
+  chooseTechnician,
+  getBrasiliaDateKey,
+  getBrasiliaTime,
+  getCompanyDayAvailability,
+  sendAppointmentInvites
+} from '@/lib/appointments'
 
 export async function GET(request: NextRequest) {
   try {
@@ -56,6 +64,12 @@ export async function GET(request: NextRequest) {
               name: true,
               email: true,
             }
+          },
+          technician: {
+            select: {
+              id: true,
+              name: true,
+            }
           }
         },
         orderBy: { date: 'asc' },
@@ -66,7 +80,10 @@ export async function GET(request: NextRequest) {
     ])
 
     return NextResponse.json({
-      data: appointments,
+      // O link do cliente não vai para a empresa
+      data: session.user.role === 'COMPANY'
+        ? appointments.map(({ accessToken, ...appointment }) => appointment)
+        : appointments,
       total,
       page,
       totalPages: Math.ceil(total / limit),
@@ -98,30 +115,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if the time slot is available
     const appointmentDate = new Date(date)
-    const endTime = new Date(appointmentDate.getTime() + (duration || 60) * 60000)
 
-    const conflictingAppointment = await prisma.appointment.findFirst({
-      where: {
-        companyId,
-        status: {
-          in: ['SCHEDULED', 'CONFIRMED']
-        },
-        OR: [
-          {
-            AND: [
-              { date: { lte: appointmentDate } },
-              { date: { gte: new Date(appointmentDate.getTime() - 60 * 60000) } }
-            ]
-          }
-        ]
-      }
-    })
+    if (isNaN(appointmentDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    // Check the slot against working hours, holidays, blackouts and technician schedules
+    const availability = await getCompanyDayAvailability(companyId, getBrasiliaDateKey(appointmentDate), { duration })
 
-    if (conflictingAppointment) {
+    if (!availability) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 })
+    }
+
+    const slot = availability.slots.find(item => item.time === getBrasiliaTime(appointmentDate))
+
+    if (!slot?.available) {
       return NextResponse.json(
-        { error: 'Time slot not available' },
+        { error: 'Time slot not available', reason: availability.closedReason },
         { status: 400 }
       )
     }
@@ -132,11 +143,13 @@ export async function POST(request: NextRequest) {
         title,
         description,
         date: appointmentDate,
-        duration: duration || 60,
+        duration: duration || availability.config.visitDurationMinutes,
         location,
         companyId,
         userId: session.user.id,
+        technicianId: chooseTechnician(slot.technicianIds, availability.appointments),
         notes,
+        accessToken: generateAccessToken(),
       },
       include: {
         company: {
@@ -168,6 +181,8 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await sendAppointmentInvites(appointment.id, 'scheduled')
+
     return NextResponse.json(appointment, { status: 201 })
 
   } catch (error) {
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
+import { getCompanyDayAvailability } from '@/lib/appointments'
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const companyId = searchParams.get('companyId')
     const date = searchParams.get('date')
+    const duration = searchParams.get('duration') ? parseInt(searchParams.get('duration')!) : undefined
 
     if (!companyId || !date) {
       return NextResponse.json(
@@ -14,56 +15,33 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Generate time slots for the day (9 AM to 6 PM)
-    const timeSlots = []
-    for (let hour = 9; hour < 18; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        const time = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`
-        timeSlots.push(time)
-      }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T12:00:00Z`).getTime())) {
+      return NextResponse.json(
+        { error: 'Date must be in YYYY-MM-DD format' },
+        { status: 400 }
+      )
     }
 
-    // Get existing appointments for the date
-    const startOfDay = new Date(`${date}T00:00:00`)
-    const endOfDay = new Date(`${date}T23:59:59`)
+    if (duration !== undefined && (!Number.isFinite(duration) || duration < 15 || duration > 480)) {
+      return NextResponse.json(
+        { error: 'Duration must be between 15 and 480 minutes' },
+        { status: 400 }
+      )
+    }
 
-    const existingAppointments = await prisma.appointment.findMany({
-      where: {
-        companyId,
-        date: {
-          gte: startOfDay,
-          lte: endOfDay,
-        },
-        status: {
-          in: ['SCHEDULED', 'CONFIRMED']
-        }
-      },
-      select: {
-        date: true,
-        duration: true,
-      }
-    })
+    const availability = await getCompanyDayAvailability(companyId, date, { duration })
 
-    // Check availability for each slot
-    const availableSlots = timeSlots.map(time => {
-      const slotDateTime = new Date(`${date}T${time}:00`)
-      
-      // Check if this slot conflicts with any existing appointment
-      const isAvailable = !existingAppointments.some(appointment => {
-        const appointmentStart = new Date(appointment.date)
-        const appointmentEnd = new Date(appointmentStart.getTime() + appointment.duration * 60000)
-        
-        return slotDateTime >= appointmentStart && slotDateTime < appointmentEnd
-      })
+    if (!availability) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 })
+    }
 
-      return {
-        time,
-        available: isAvailable
-      }
+    // Os técnicos livres em cada horário ficam só no servidor
+    return NextResponse.json({
+      slots: availability.slots.map(slot => ({ time: slot.time, available: slot.available })),
+      closedReason: availability.closedReason,
+      duration: duration ?? availability.config.visitDurationMinutes
     })
 
-    return NextResponse.json({ slots: availableSlots })
-
   } catch (error) {
     console.error('Error fetching available slots:', error)
     return NextResponse.json(
@@ -71,4 +49,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { extractPdfText, PdfTextError } from '@/lib/pdf-text'
+import { rateLimiters } from '@/lib/rate-limiter'
+import { parseElectricityBill } from '@/lib/solar'
+
+export const runtime = 'nodejs'
+
+const MAX_BILL_FILE_SIZE = 5 * 1024 * 1024 // 5MB
+
+// POST - Ler a conta de luz em PDF (o arquivo é processado em memória e não é armazenado)
+export async function POST(request: NextRequest) {
+  try {
+    const limit = await rateLimiters.electricityBill.checkLimit(request)
+
+    if (!limit.success) {
+      return NextResponse.json(
+        { message: limit.message },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': Math.ceil((limit.resetTime - Date.now()) / 1000).toString()
+          }
+        }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { message: 'Arquivo não fornecido' },
+        { status: 400 }
+      )
+    }
+
+    if (file.type !== 'application/pdf' && !/\.pdf$/i.test(file.name)) {
+      return NextResponse.json(
+        { message: 'Envie a fatura em PDF, baixada do site ou aplicativo da distribuidora' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_BILL_FILE_SIZE) {
+      return NextResponse.json(
+        { message: 'Arquivo muito grande. Máximo 5MB' },
+        { status: 400 }
+      )
+    }
+
+    const text = extractPdfText(Buffer.from(await file.arrayBuffer()))
+
+    if (!text.trim()) {
+      return NextResponse.json(
+        { message: 'O PDF não tem texto legível (fatura escaneada ou fotografada). Informe os valores manualmente.' },
+        { status: 422 }
+      )
+    }
+
+    const bill = parseElectricityBill(text)
+
+    if (bill.consumptionHistory.length === 0 && bill.tariff === null) {
+      return NextResponse.json(
+        { message: 'Não reconhecemos o layout desta fatura. Informe os valores manualmente.' },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({ data: bill })
+
+  } catch (error) {
+    if (error instanceof PdfTextError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Electricity bill POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
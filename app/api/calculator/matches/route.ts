@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import {
+  getCoverageScore,
+  getMunicipalityByCode,
+  matchEquipment,
+  type CatalogCategory
+} from '@/lib/solar'
+
+const matchesQuerySchema = z.object({
+  ibgeCode: z.string().regex(/^\d{7}$/, 'Código IBGE inválido'),
+  systemSize: z.coerce.number().positive('Potência do sistema inválida').max(5000),
+  limit: z.coerce.number().int().min(1).max(20).default(6)
+})
+
+const MATCHED_CATEGORIES: CatalogCategory[] = ['KIT_COMPLETO', 'PAINEL_SOLAR', 'INVERSOR']
+
+// GET - Empresas que atendem o município e equipamentos compatíveis com a simulação
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { ibgeCode, systemSize, limit } = matchesQuerySchema.parse({
+      ibgeCode: searchParams.get('ibgeCode'),
+      systemSize: searchParams.get('systemSize'),
+      limit: searchParams.get('limit') ?? undefined
+    })
+
+    const municipality = getMunicipalityByCode(ibgeCode)
+
+    if (!municipality) {
+      return NextResponse.json(
+        { message: 'Município não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Pré-filtro no banco; a cobertura é pontuada em memória
+    const candidates = await db.companyProfile.findMany({
+      where: {
+        user: { status: 'ACTIVE' },
+        OR: [
+          { state: municipality.state },
+          { city: { equals: municipality.name, mode: 'insensitive' } },
+          { serviceAreas: { hasSome: [municipality.name, municipality.state] } }
+        ]
+      },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        logo: true,
+        city: true,
+        state: true,
+        rating: true,
+        reviewCount: true,
+        verified: true,
+        serviceAreas: true
+      },
+      take: 100
+    })
+
+    const companies = candidates
+      .map(company => ({ ...company, coverage: getCoverageScore(company, municipality) }))
+      .filter(company => company.coverage > 0)
+      .sort((a, b) =>
+        b.coverage - a.coverage ||
+        Number(b.verified) - Number(a.verified) ||
+        b.rating - a.rating
+      )
+      .slice(0, limit)
+
+    const products = await db.product.findMany({
+      where: {
+        companyId: { in: companies.map(company => company.id) },
+        category: { in: MATCHED_CATEGORIES },
+        status: 'APPROVED',
+        inStock: true,
+        power: { not: null }
+      },
+      select: {
+        id: true,
+        name: true,
+        category: true,
+        power: true,
+        price: true,
+        brand: true,
+        warranty: true,
+        companyId: true
+      }
+    })
+
+    const equipment = matchEquipment(
+      products.map(product => ({
+        ...product,
+        category: product.category as CatalogCategory,
+        power: product.power ?? 0,
+        price: Number(product.price)
+      })),
+      systemSize
+    )
+
+    return NextResponse.json({
+      data: {
+        municipality: {
+          ibgeCode: municipality.ibgeCode,
+          name: municipality.name,
+          state: municipality.state
+        },
+        companies: companies.map(({ serviceAreas, ...company }) => ({
+          ...company,
+          equipment: equipment.filter(match => match.companyId === company.id).slice(0, 3)
+        }))
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Calculator matches GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
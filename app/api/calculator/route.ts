@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { runSolarSimulation, searchMunicipalities } from '@/lib/solar'
+import { solarSimulationSchema } from '@/lib/validations'
+
+// GET - Buscar municípios disponíveis na base de irradiação
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const query = searchParams.get('q') || ''
+
+  const municipalities = searchMunicipalities(query).map(municipality => ({
+    ibgeCode: municipality.ibgeCode,
+    name: municipality.name,
+    state: municipality.state
+  }))
+
+  return NextResponse.json({ data: municipalities })
+}
+
+// POST - Simular sistema solar
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = solarSimulationSchema.parse(body)
+    const simulation = runSolarSimulation(validatedData)
+
+    if (!simulation) {
+      return NextResponse.json(
+        { message: 'Município não encontrado. Informe cidade e UF, ex: Campinas, SP' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: simulation })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Calculator POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildCalendarFeed } from '@/lib/appointments'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Link privado de assinatura da agenda (Google Agenda, Apple Calendário, Outlook)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const token = params.token.replace(/\.ics$/, '')
+    const calendar = await buildCalendarFeed(token)
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="visitas.ics"',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
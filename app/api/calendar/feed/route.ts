@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { generateCalendarFeedToken, getCalendarFeedUrl } from '@/lib/appointments'
+
+// GET - Link da agenda do usuário; criado no primeiro acesso
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Não autorizado' },
+        { status: 401 }
+      )
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: session.user.id },
+      select: { calendarFeedToken: true }
+    })
+
+    let token = user?.calendarFeedToken
+
+    if (!token) {
+      const updated = await db.user.update({
+        where: { id: session.user.id },
+        data: { calendarFeedToken: generateCalendarFeedToken() },
+        select: { calendarFeedToken: true }
+      })
+      token = updated.calendarFeedToken!
+    }
+
+    return NextResponse.json({ data: { url: getCalendarFeedUrl(token) } })
+
+  } catch (error) {
+    console.error('Calendar feed GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Gerar um novo link; o anterior para de funcionar
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Não autorizado' },
+        { status: 401 }
+      )
+    }
+
+    const updated = await db.user.update({
+      where: { id: session.user.id },
+      data: { calendarFeedToken: generateCalendarFeedToken() },
+      select: { calendarFeedToken: true }
+    })
+
+    return NextResponse.json({
+      message: 'Novo link gerado com sucesso',
+      data: { url: getCalendarFeedUrl(updated.calendarFeedToken!) }
+    })
+
+  } catch (error) {
+    console.error('Calendar feed POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { companyApiKeySchema } from '@/lib/api-keys'
+import { z } from 'zod'
+
+const updateApiKeySchema = companyApiKeySchema.partial()
+
+// PATCH - Renomear a chave ou alterar as origens permitidas
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = updateApiKeySchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.companyApiKey.updateMany({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id,
+        revokedAt: null
+      },
+      data: validatedData
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Chave não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Chave atualizada com sucesso'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company API key PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Revogar a chave; os leads já recebidos continuam vinculados a ela
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.companyApiKey.updateMany({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id,
+        revokedAt: null
+      },
+      data: { revokedAt: new Date() }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Chave não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Chave revogada com sucesso'
+    })
+
+  } catch (error) {
+    console.error('Company API key DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
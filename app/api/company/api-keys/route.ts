@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { companyApiKeySchema, generateApiKey } from '@/lib/api-keys'
+import { z } from 'zod'
+
+// O hash nunca sai da API
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  allowedOrigins: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  _count: { select: { leads: true } }
+}
+
+// GET - Chaves da API pública de leads da empresa
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const apiKeys = await db.companyApiKey.findMany({
+      where: { companyId: companyProfile.id },
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ data: apiKeys })
+
+  } catch (error) {
+    console.error('Company API keys GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Criar chave; o valor completo só é devolvido nesta resposta
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = companyApiKeySchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { key, prefix, keyHash } = generateApiKey()
+
+    const apiKey = await db.companyApiKey.create({
+      data: {
+        companyId: companyProfile.id,
+        name: validatedData.name,
+        allowedOrigins: validatedData.allowedOrigins,
+        prefix,
+        keyHash
+      },
+      select: apiKeySelect
+    })
+
+    return NextResponse.json({
+      message: 'Chave criada. Copie agora: ela não será exibida novamente',
+      data: { ...apiKey, key }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company API keys POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+
+// DELETE - Liberar datas bloqueadas
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.companyBlackoutDate.deleteMany({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Bloqueio não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Datas liberadas com sucesso'
+    })
+
+  } catch (error) {
+    console.error('Company blackout DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
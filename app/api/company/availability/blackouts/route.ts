@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { blackoutDateSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+// POST - Bloquear datas da agenda (da empresa inteira ou de um técnico)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = blackoutDateSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    if (validatedData.technicianId) {
+      const technician = await db.technician.findFirst({
+        where: { id: validatedData.technicianId, companyId: companyProfile.id },
+        select: { id: true }
+      })
+
+      if (!technician) {
+        return NextResponse.json(
+          { message: 'Técnico não encontrado' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const blackout = await db.companyBlackoutDate.create({
+      data: {
+        companyId: companyProfile.id,
+        startDate: validatedData.startDate,
+        endDate: validatedData.endDate ?? validatedData.startDate,
+        reason: validatedData.reason || null,
+        technicianId: validatedData.technicianId || null
+      },
+      include: { technician: { select: { id: true, name: true } } }
+    })
+
+    return NextResponse.json({
+      message: 'Datas bloqueadas com sucesso',
+      data: blackout
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company blackout POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  getBrasiliaDateKey,
+  getBrazilianNationalHolidays,
+  getCalendarFeedUrl,
+  parseAvailabilityConfig,
+  parseWeeklyHours
+} from '@/lib/appointments'
+import { availabilityConfigSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET - Agenda de visitas: expediente, técnicos, bloqueios e próximos feriados
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true, availabilityConfig: true }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const today = getBrasiliaDateKey(new Date())
+    const year = parseInt(today.slice(0, 4), 10)
+
+    const [technicians, blackouts] = await Promise.all([
+      db.technician.findMany({
+        where: { companyId: companyProfile.id },
+        orderBy: { name: 'asc' }
+      }),
+      db.companyBlackoutDate.findMany({
+        where: { companyId: companyProfile.id, endDate: { gte: today } },
+        include: { technician: { select: { id: true, name: true } } },
+        orderBy: { startDate: 'asc' }
+      })
+    ])
+
+    const holidays = [...getBrazilianNationalHolidays(year), ...getBrazilianNationalHolidays(year + 1)]
+      .filter(holiday => holiday.date >= today)
+      .slice(0, 8)
+
+    return NextResponse.json({
+      data: {
+        config: parseAvailabilityConfig(companyProfile.availabilityConfig),
+        technicians: technicians.map(({ calendarFeedToken, ...technician }) => ({
+          ...technician,
+          workingHours: parseWeeklyHours(technician.workingHours),
+          calendarFeedUrl: calendarFeedToken ? getCalendarFeedUrl(calendarFeedToken) : null
+        })),
+        blackouts,
+        holidays
+      }
+    })
+
+  } catch (error) {
+    console.error('Company availability GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Atualizar expediente e regras de agendamento
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = availabilityConfigSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const updated = await db.companyProfile.update({
+      where: { id: companyProfile.id },
+      data: { availabilityConfig: validatedData },
+      select: { availabilityConfig: true }
+    })
+
+    return NextResponse.json({
+      message: 'Agenda atualizada com sucesso',
+      data: parseAvailabilityConfig(updated.availabilityConfig)
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company availability PUT error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { parseLeadScoringConfig } from '@/lib/leads'
+import { leadScoringConfigSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+const updateLeadSettingsSchema = z.object({
+  autoMergeDuplicateLeads: z.boolean().optional(),
+  leadScoring: leadScoringConfigSchema.optional()
+})
+
+const leadSettingsSelect = {
+  autoMergeDuplicateLeads: true,
+  leadScoringConfig: true
+}
+
+// A configuração de pontuação volta sempre completa, com os padrões aplicados
+function toLeadSettings(settings: { autoMergeDuplicateLeads: boolean; leadScoringConfig: unknown }) {
+  return {
+    autoMergeDuplicateLeads: settings.autoMergeDuplicateLeads,
+    leadScoring: parseLeadScoringConfig(settings.leadScoringConfig)
+  }
+}
+
+// GET - Preferências de recebimento de leads
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const settings = await db.companyProfile.findUnique({
+      where: { userId: session.user.id },
+      select: leadSettingsSelect
+    })
+
+    if (!settings) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: toLeadSettings(settings) })
+
+  } catch (error) {
+    console.error('Lead settings GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Atualizar preferências de recebimento de leads
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = updateLeadSettingsSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const settings = await db.companyProfile.update({
+      where: { id: companyProfile.id },
+      data: {
+        autoMergeDuplicateLeads: validatedData.autoMergeDuplicateLeads,
+        leadScoringConfig: validatedData.leadScoring
+      },
+      select: leadSettingsSelect
+    })
+
+    return NextResponse.json({
+      message: 'Preferências atualizadas com sucesso',
+      data: toLeadSettings(settings)
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead settings PUT error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
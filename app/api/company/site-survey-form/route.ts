@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { buildSiteSurveyForm, parseSiteSurveyConfig } from '@/lib/site-surveys'
+import { siteSurveyConfigSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET - Configuração do formulário de vistoria técnica
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id },
+      select: { siteSurveyConfig: true }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const config = parseSiteSurveyConfig(companyProfile.siteSurveyConfig)
+
+    return NextResponse.json({
+      data: { config, form: buildSiteSurveyForm(config) }
+    })
+
+  } catch (error) {
+    console.error('Site survey form GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Atualizar campos obrigatórios, campos próprios e fotos mínimas
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = siteSurveyConfigSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Vistorias concluídas guardam o próprio formulário; só os rascunhos mudam
+    const updated = await db.companyProfile.update({
+      where: { id: companyProfile.id },
+      data: { siteSurveyConfig: validatedData },
+      select: { siteSurveyConfig: true }
+    })
+
+    const config = parseSiteSurveyConfig(updated.siteSurveyConfig)
+
+    return NextResponse.json({
+      message: 'Formulário de vistoria atualizado',
+      data: { config, form: buildSiteSurveyForm(config) }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Site survey form PUT error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
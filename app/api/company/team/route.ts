@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+
+const createMemberSchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter pelo menos 2 caracteres').max(100),
+  email: z.string().trim().toLowerCase().email('Email inválido'),
+  role: z.string().trim().max(60).optional()
+})
+
+// GET - Equipe comercial da empresa
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const members = await db.companyMember.findMany({
+      where: { companyId: companyProfile.id },
+      include: {
+        _count: {
+          select: {
+            tasks: { where: { completedAt: null } }
+          }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({ data: members })
+
+  } catch (error) {
+    console.error('Company team GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Adicionar integrante à equipe
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createMemberSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const existingMember = await db.companyMember.findUnique({
+      where: {
+        companyId_email: {
+          companyId: companyProfile.id,
+          email: validatedData.email
+        }
+      }
+    })
+
+    if (existingMember) {
+      return NextResponse.json(
+        { message: 'Este email já faz parte da equipe' },
+        { status: 409 }
+      )
+    }
+
+    // O integrante não é vinculado a uma conta pelo email: os lembretes vão direto para o email cadastrado
+    const member = await db.companyMember.create({
+      data: {
+        companyId: companyProfile.id,
+        name: validatedData.name,
+        email: validatedData.email,
+        role: validatedData.role || null
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Integrante adicionado com sucesso',
+      data: member
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company team POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
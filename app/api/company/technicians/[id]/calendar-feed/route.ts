@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { generateCalendarFeedToken, getCalendarFeedUrl } from '@/lib/appointments'
+
+// POST - Gerar o link da agenda do técnico; um link anterior para de funcionar
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const token = generateCalendarFeedToken()
+    const { count } = await db.technician.updateMany({
+      where: { id: params.id, companyId: companyProfile.id },
+      data: { calendarFeedToken: token }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Técnico não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Link da agenda gerado com sucesso',
+      data: { url: getCalendarFeedUrl(token) }
+    })
+
+  } catch (error) {
+    console.error('Technician calendar feed POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
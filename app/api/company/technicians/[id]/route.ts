@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Prisma } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { technicianSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+const updateTechnicianSchema = technicianSchema.partial()
+
+// PUT - Atualizar técnico; expediente nulo volta a seguir o da empresa
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = updateTechnicianSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.technician.updateMany({
+      where: { id: params.id, companyId: companyProfile.id },
+      data: {
+        name: validatedData.name,
+        phone: validatedData.phone,
+        active: validatedData.active,
+        workingHours: validatedData.workingHours === null ? Prisma.DbNull : validatedData.workingHours
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Técnico não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const technician = await db.technician.findUnique({ where: { id: params.id } })
+
+    return NextResponse.json({
+      message: 'Técnico atualizado com sucesso',
+      data: technician
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company technician PUT error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remover técnico; as visitas dele ficam sem técnico definido
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.technician.deleteMany({
+      where: { id: params.id, companyId: companyProfile.id }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Técnico não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Técnico removido com sucesso'
+    })
+
+  } catch (error) {
+    console.error('Company technician DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
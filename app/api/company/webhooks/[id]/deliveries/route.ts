@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { WebhookDeliveryStatus } from '@prisma/client'
+
+// GET - Histórico de envios do endpoint, mais recentes primeiro
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const endpoint = await db.webhookEndpoint.findFirst({
+      where: { id: params.id, companyId: companyProfile.id },
+      select: { id: true }
+    })
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { message: 'Webhook não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100)
+    const status = searchParams.get('status')
+
+    const where = {
+      endpointId: endpoint.id,
+      ...(status && status in WebhookDeliveryStatus && { status: status as WebhookDeliveryStatus })
+    }
+
+    const [deliveries, total] = await Promise.all([
+      db.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      db.webhookDelivery.count({ where })
+    ])
+
+    return NextResponse.json({
+      data: deliveries,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+
+  } catch (error) {
+    console.error('Company webhook deliveries GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { generateWebhookSecret, webhookEndpointSchema } from '@/lib/webhooks'
+import { z } from 'zod'
+
+const updateWebhookSchema = webhookEndpointSchema.partial().extend({
+  rotateSecret: z.boolean().optional()
+})
+
+// PATCH - Alterar URL, eventos ou status do endpoint, ou trocar o segredo
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { rotateSecret, ...validatedData } = updateWebhookSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const secret = rotateSecret ? generateWebhookSecret() : undefined
+
+    const { count } = await db.webhookEndpoint.updateMany({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      },
+      data: {
+        ...validatedData,
+        ...(validatedData.description !== undefined && { description: validatedData.description || null }),
+        ...(secret && { secret })
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Webhook não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: secret
+        ? 'Segredo trocado. Copie agora: ele não será exibido novamente'
+        : 'Webhook atualizado com sucesso',
+      ...(secret && { data: { secret } })
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company webhook PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remover o endpoint junto com o histórico de envios
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.webhookEndpoint.deleteMany({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Webhook não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Webhook removido com sucesso'
+    })
+
+  } catch (error) {
+    console.error('Company webhook DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
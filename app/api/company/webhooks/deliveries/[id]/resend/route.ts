@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { resendWebhookDelivery, WebhookDeliveryError } from '@/lib/webhooks'
+
+// POST - Reenviar o evento de um envio anterior, como um novo envio
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const delivery = await resendWebhookDelivery(params.id, companyProfile.id)
+
+    if (!delivery) {
+      return NextResponse.json(
+        { message: 'Envio não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: delivery.status === 'SUCCESS'
+        ? 'Evento reenviado com sucesso'
+        : 'O endpoint não confirmou o recebimento; novas tentativas serão feitas automaticamente',
+      data: delivery
+    })
+
+  } catch (error) {
+    if (error instanceof WebhookDeliveryError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Company webhook resend error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
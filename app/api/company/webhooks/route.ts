@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { generateWebhookSecret, webhookEndpointSchema } from '@/lib/webhooks'
+import { z } from 'zod'
+
+// O segredo só sai na criação e na troca
+const webhookEndpointSelect = {
+  id: true,
+  url: true,
+  description: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { deliveries: true } }
+}
+
+// GET - Endpoints de webhook da empresa, com o resultado do último envio
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { companyId: companyProfile.id },
+      select: {
+        ...webhookEndpointSelect,
+        deliveries: {
+          select: { status: true, responseStatus: true, createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      data: endpoints.map(({ deliveries, ...endpoint }) => ({
+        ...endpoint,
+        lastDelivery: deliveries[0] ?? null
+      }))
+    })
+
+  } catch (error) {
+    console.error('Company webhooks GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Cadastrar endpoint; o segredo de assinatura só é devolvido nesta resposta
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = webhookEndpointSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const secret = generateWebhookSecret()
+
+    const endpoint = await db.webhookEndpoint.create({
+      data: {
+        companyId: companyProfile.id,
+        url: validatedData.url,
+        description: validatedData.description || null,
+        events: validatedData.events,
+        active: validatedData.active ?? true,
+        secret
+      },
+      select: webhookEndpointSelect
+    })
+
+    return NextResponse.json({
+      message: 'Webhook criado. Copie o segredo agora: ele não será exibido novamente',
+      data: { ...endpoint, lastDelivery: null, secret }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Company webhooks POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
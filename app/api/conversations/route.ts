@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ConversationStartError, startConversation, type ConversationContextInput } from '@/lib/messages'
+import { z } from 'zod'
+
+const startConversationSchema = z.union([
+  z.object({ productId: z.string().min(1) }).strict(),
+  z.object({ quoteId: z.string().min(1), token: z.string().optional() }).strict(),
+  z.object({ leadId: z.string().min(1) }).strict()
+])
+
+// POST - Start (or reopen) a conversation about a product, quote or lead
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const input: ConversationContextInput = startConversationSchema.parse(body)
+
+    const result = await startConversation(
+      { id: session.user.id, email: session.user.email ?? '' },
+      input
+    )
+
+    if (!result) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { data: { id: result.conversationId } },
+      { status: result.created ? 201 : 200 }
+    )
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Provide exactly one of productId, quoteId or leadId' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ConversationStartError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error starting conversation:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
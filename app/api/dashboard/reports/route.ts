@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { formatStageDuration, getPipelineMetrics } from '@/lib/leads'
 
 export async function GET(request: NextRequest) {
   try {
@@ -124,6 +125,9 @@ export async function GET(request: NextRequest) {
       })
     ])
 
+    // Time-in-stage metrics for the lead pipeline
+    const pipeline = await getPipelineMetrics(company.id, currentPeriodStart, now)
+
     // Calculate changes
     const leadsChange = previousLeads > 0 
       ? ((currentLeads - previousLeads) / previousLeads) * 100
@@ -186,6 +190,14 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    if (pipeline.bottleneck && pipeline.bottleneck.overdueCount > 0) {
+      insights.push({
+        type: 'negative' as const,
+        title: `Leads Parados em "${pipeline.bottleneck.label}"`,
+        description: `${pipeline.bottleneck.overdueCount} lead(s) passaram do prazo nesta etapa${pipeline.bottleneck.medianMinutes !== null ? ` e o tempo mediano nela é de ${formatStageDuration(pipeline.bottleneck.medianMinutes)}` : ''}. Priorize esses contatos no quadro de leads.`
+      })
+    }
+
     if (currentProducts < 5) {
       insights.push({
         type: 'neutral' as const,
@@ -234,6 +246,7 @@ export async function GET(request: NextRequest) {
         topProducts: formattedTopProducts,
         leadSources: formattedLeadSources,
       },
+      pipeline,
       insights
     }
 
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  deleteInstallationDocument,
+  getInstallationDocumentUrl,
+  notifyInstallationChange
+} from '@/lib/installations'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+const documentVisibilitySchema = z.object({
+  visibleToCustomer: z.boolean()
+})
+
+type DocumentParams = { params: { id: string; documentId: string } }
+
+// Documento de uma instalação da empresa logada
+async function findCompanyDocument(userId: string, { id, documentId }: DocumentParams['params']) {
+  return db.installationDocument.findFirst({
+    where: {
+      id: documentId,
+      projectId: id,
+      project: { company: { userId } }
+    },
+    select: { id: true, stage: true, name: true, fileKey: true, visibleToCustomer: true }
+  })
+}
+
+// GET - Redireciona para um link assinado e temporário do documento. A empresa vê
+// todos; o cliente, pelo link do acompanhamento ou pela conta, só os visíveis.
+export async function GET(request: NextRequest, { params }: DocumentParams) {
+  try {
+    const document = await db.installationDocument.findFirst({
+      where: { id: params.documentId, projectId: params.id },
+      select: {
+        fileKey: true,
+        visibleToCustomer: true,
+        project: {
+          select: { accessToken: true, userId: true, company: { select: { userId: true } } }
+        }
+      }
+    })
+
+    if (!document) {
+      return NextResponse.json(
+        { message: 'Documento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const token = request.nextUrl.searchParams.get('token')
+    const session = await getServerSession(authOptions)
+    const isCompany = !!session?.user && session.user.id === document.project.company.userId
+    const isCustomer = (!!token && isValidAccessToken(document.project.accessToken, token)) ||
+      (!!session?.user && session.user.id === document.project.userId)
+
+    if (!isCompany && !(isCustomer && document.visibleToCustomer)) {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const response = NextResponse.redirect(await getInstallationDocumentUrl(document.fileKey))
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
+
+  } catch (error) {
+    console.error('Installation document GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Mostrar ou esconder o documento do cliente
+export async function PATCH(request: NextRequest, { params }: DocumentParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { visibleToCustomer } = documentVisibilitySchema.parse(body)
+
+    const document = await findCompanyDocument(session.user.id, params)
+
+    if (!document) {
+      return NextResponse.json(
+        { message: 'Documento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    if (document.visibleToCustomer !== visibleToCustomer) {
+      await db.installationDocument.update({
+        where: { id: document.id },
+        data: { visibleToCustomer }
+      })
+
+      if (visibleToCustomer) {
+        await notifyInstallationChange(params.id, { kind: 'document', stage: document.stage, name: document.name })
+      }
+    }
+
+    return NextResponse.json({
+      message: visibleToCustomer ? 'Documento visível para o cliente' : 'Documento escondido do cliente'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Installation document PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remover o documento
+export async function DELETE(request: NextRequest, { params }: DocumentParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const document = await findCompanyDocument(session.user.id, params)
+
+    if (!document) {
+      return NextResponse.json(
+        { message: 'Documento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    await deleteInstallationDocument(document)
+
+    return NextResponse.json({ message: 'Documento removido' })
+
+  } catch (error) {
+    console.error('Installation document DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
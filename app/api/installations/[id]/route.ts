@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { getInstallationTrackerUrl, installationDocumentSelect } from '@/lib/installations'
+import { installationProjectUpdateSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+// GET - Acompanhamento da instalação, com etapas, documentos e o link do cliente
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const project = await db.installationProject.findFirst({
+      where: { id: params.id, company: { userId: session.user.id } },
+      include: {
+        steps: true,
+        documents: { orderBy: { createdAt: 'asc' }, select: installationDocumentSelect },
+        quote: { select: { id: true, title: true, totalValue: true } }
+      }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Instalação não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const { accessToken, ...data } = project
+
+    return NextResponse.json({
+      data: { ...data, trackerUrl: getInstallationTrackerUrl(project.id, accessToken) }
+    })
+
+  } catch (error) {
+    console.error('Installation GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Nome e email do cliente que recebe os avisos
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = installationProjectUpdateSchema.parse(body)
+
+    const project = await db.installationProject.findFirst({
+      where: { id: params.id, company: { userId: session.user.id } },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Instalação não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const updated = await db.installationProject.update({
+      where: { id: project.id },
+      data: validatedData,
+      select: { customerName: true, customerEmail: true }
+    })
+
+    return NextResponse.json({
+      message: 'Dados do cliente atualizados',
+      data: updated
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Installation PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
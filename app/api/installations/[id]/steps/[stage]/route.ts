@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  INSTALLATION_STAGES,
+  InstallationError,
+  updateInstallationStep,
+  type InstallationStage
+} from '@/lib/installations'
+import { installationStepUpdateSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+// PATCH - Concluir ou reabrir a etapa, mudar a previsão ou a observação; o cliente é avisado
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; stage: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const stage = params.stage as InstallationStage
+    if (INSTALLATION_STAGES.indexOf(stage) === -1) {
+      return NextResponse.json(
+        { message: 'Etapa não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = installationStepUpdateSchema.parse(body)
+
+    const project = await db.installationProject.findFirst({
+      where: { id: params.id, company: { userId: session.user.id } },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Instalação não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const changes = await updateInstallationStep(project.id, stage, validatedData)
+
+    const updated = await db.installationProject.findUniqueOrThrow({
+      where: { id: project.id },
+      select: { currentStage: true, connectedAt: true, steps: true }
+    })
+
+    return NextResponse.json({
+      message: changes.length > 0 ? 'Etapa atualizada e cliente avisado' : 'Etapa atualizada',
+      data: updated
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof InstallationError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Installation step PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
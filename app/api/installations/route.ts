@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { createInstallationProject } from '@/lib/installations'
+import { z } from 'zod'
+
+const createInstallationSchema = z.object({
+  quoteId: z.string().min(1)
+})
+
+// POST - Abrir o acompanhamento de um orçamento aceito (aceites anteriores ao acompanhamento)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { quoteId } = createInstallationSchema.parse(body)
+
+    const quote = await db.quote.findFirst({
+      where: { id: quoteId, company: { userId: session.user.id } },
+      include: { acceptance: { select: { signedAt: true, signerName: true, signerEmail: true } } }
+    })
+
+    if (!quote) {
+      return NextResponse.json(
+        { message: 'Orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    if (quote.status !== 'ACCEPTED') {
+      return NextResponse.json(
+        { message: 'Só orçamentos aceitos têm acompanhamento de instalação' },
+        { status: 409 }
+      )
+    }
+
+    const project = await createInstallationProject(quote.id, quote.acceptance ?? {})
+
+    return NextResponse.json({ data: { id: project.id } }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Installation POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
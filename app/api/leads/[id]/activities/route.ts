@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { buildLeadTimeline } from '@/lib/leads'
+import { z } from 'zod'
+
+const createActivitySchema = z.object({
+  type: z.enum(['NOTE', 'CALL', 'WHATSAPP', 'EMAIL']),
+  content: z.string().trim().min(1, 'Descreva a atividade').max(5000),
+  outcome: z.string().trim().max(200).optional(),
+  durationMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  occurredAt: z.string().datetime().optional() // Permite registrar um contato feito mais cedo
+})
+
+const authorSelect = {
+  select: {
+    id: true,
+    name: true
+  }
+}
+
+// Mensagens mais recentes exibidas no histórico do lead
+const TIMELINE_MESSAGES_LIMIT = 100
+
+// GET - Linha do tempo do lead: atividades, mudanças de etapa, tarefas concluídas, orçamentos e mensagens
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const lead = await db.lead.findFirst({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      },
+      select: {
+        activities: {
+          include: { author: authorSelect },
+          orderBy: { occurredAt: 'desc' }
+        },
+        stageChanges: {
+          include: { changedBy: authorSelect },
+          orderBy: { changedAt: 'desc' }
+        },
+        tasks: {
+          where: { completedAt: { not: null } },
+          include: { assignee: { select: { name: true } } }
+        },
+        quotes: {
+          select: {
+            id: true,
+            title: true,
+            createdAt: true,
+            sentAt: true,
+            viewedAt: true,
+            acceptance: { select: { decision: true, signedAt: true } }
+          }
+        }
+      }
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { message: 'Lead não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Conversas sobre o próprio lead ou sobre um dos seus orçamentos
+    const messages = await db.message.findMany({
+      where: {
+        conversation: {
+          OR: [
+            { leadId: params.id },
+            { quote: { leadId: params.id } }
+          ]
+        }
+      },
+      select: {
+        id: true,
+        conversationId: true,
+        content: true,
+        createdAt: true,
+        sender: { select: { id: true, name: true } },
+        _count: { select: { attachments: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: TIMELINE_MESSAGES_LIMIT
+    })
+
+    return NextResponse.json({
+      data: buildLeadTimeline({ ...lead, messages, companyUserId: session.user.id })
+    })
+
+  } catch (error) {
+    console.error('Lead activities GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Registrar atividade (nota, ligação, WhatsApp ou email)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createActivitySchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const lead = await db.lead.findFirst({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      },
+      select: { id: true }
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { message: 'Lead não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const activity = await db.leadActivity.create({
+      data: {
+        leadId: lead.id,
+        authorId: session.user.id,
+        type: validatedData.type,
+        content: validatedData.content,
+        outcome: validatedData.outcome || null,
+        durationMinutes: validatedData.type === 'CALL' ? validatedData.durationMinutes ?? null : null,
+        occurredAt: validatedData.occurredAt ? new Date(validatedData.occurredAt) : undefined
+      },
+      include: { author: authorSelect }
+    })
+
+    return NextResponse.json({
+      message: 'Atividade registrada com sucesso',
+      data: activity
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead activities POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { findLeadDuplicates } from '@/lib/leads'
+
+// GET - Possíveis duplicados do lead na mesma empresa
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const lead = await db.lead.findFirst({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      },
+      select: {
+        id: true,
+        companyId: true,
+        name: true,
+        emailKey: true,
+        phoneKey: true,
+        createdAt: true
+      }
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { message: 'Lead não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const duplicates = await findLeadDuplicates(lead)
+
+    return NextResponse.json({ data: duplicates })
+
+  } catch (error) {
+    console.error('Lead duplicates GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
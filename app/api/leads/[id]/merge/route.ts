@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { LeadMergeError, mergeLeads } from '@/lib/leads'
+import { z } from 'zod'
+
+const mergeLeadSchema = z.object({
+  duplicateId: z.string().min(1, 'Informe o lead duplicado')
+})
+
+// POST - Mescla o lead duplicado neste lead
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = mergeLeadSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Os dois leads precisam ser da empresa
+    const count = await db.lead.count({
+      where: {
+        id: { in: [params.id, validatedData.duplicateId] },
+        companyId: companyProfile.id
+      }
+    })
+
+    if (count !== 2) {
+      return NextResponse.json(
+        { message: 'Lead não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const lead = await mergeLeads(params.id, validatedData.duplicateId, { mergedById: session.user.id })
+
+    return NextResponse.json({
+      message: 'Leads mesclados com sucesso',
+      data: lead
+    })
+
+  } catch (error) {
+    if (error instanceof LeadMergeError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead merge error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { changeLeadStage, LeadStageConflictError } from '@/lib/leads'
+import { dispatchWebhookEvent, serializeWebhookLead } from '@/lib/webhooks'
 import { z } from 'zod'
 
 // Schema de validação para atualização de lead
@@ -49,6 +51,17 @@ export async function GET(
             items: true
           },
           orderBy: { createdAt: 'desc' }
+        },
+        stageChanges: {
+          include: {
+            changedBy: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          },
+          orderBy: { changedAt: 'asc' }
         }
       }
     })
@@ -118,14 +131,18 @@ export async function PUT(
       )
     }
 
-    // Atualizar lead
-    const updatedLead = await db.lead.update({
-      where: { id: params.id },
-      data: {
-        status: validatedData.status || existingLead.status,
-        updatedAt: new Date()
-      }
-    })
+    // Mudança de etapa fica no histórico do funil
+    const updatedLead = validatedData.status
+      ? await changeLeadStage(params.id, validatedData.status, { changedById: session.user.id })
+      : existingLead
+
+    if (updatedLead && updatedLead.status !== existingLead.status) {
+      await dispatchWebhookEvent(companyProfile.id, 'lead.status_changed', {
+        lead: serializeWebhookLead(updatedLead),
+        fromStatus: existingLead.status,
+        toStatus: updatedLead.status
+      })
+    }
 
     return NextResponse.json({
       message: 'Lead atualizado com sucesso',
@@ -133,6 +150,13 @@ export async function PUT(
     })
 
   } catch (error) {
+    if (error instanceof LeadStageConflictError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 409 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { 
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+
+const updateTaskSchema = z.object({
+  title: z.string().trim().min(1, 'Informe a tarefa').max(200).optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  dueAt: z.string().datetime().optional(),
+  assigneeId: z.string().nullable().optional(),
+  completed: z.boolean().optional()
+})
+
+// PATCH - Concluir, reabrir ou reagendar tarefa
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = updateTaskSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const task = await db.leadTask.findFirst({
+      where: {
+        id: params.taskId,
+        leadId: params.id,
+        lead: { companyId: companyProfile.id }
+      }
+    })
+
+    if (!task) {
+      return NextResponse.json(
+        { message: 'Tarefa não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    if (validatedData.assigneeId) {
+      const assignee = await db.companyMember.findFirst({
+        where: {
+          id: validatedData.assigneeId,
+          companyId: companyProfile.id
+        },
+        select: { id: true }
+      })
+
+      if (!assignee) {
+        return NextResponse.json(
+          { message: 'Responsável não encontrado na equipe' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const dueAt = validatedData.dueAt ? new Date(validatedData.dueAt) : undefined
+    // Novo prazo ou novo responsável: o lembrete volta a ser enviado
+    const resetReminder = (dueAt && dueAt.getTime() !== task.dueAt.getTime())
+      || (validatedData.assigneeId !== undefined && validatedData.assigneeId !== task.assigneeId)
+
+    const updatedTask = await db.leadTask.update({
+      where: { id: task.id },
+      data: {
+        title: validatedData.title,
+        description: validatedData.description,
+        dueAt,
+        assigneeId: validatedData.assigneeId,
+        completedAt: validatedData.completed === undefined
+          ? undefined
+          : validatedData.completed ? task.completedAt ?? new Date() : null,
+        reminderSentAt: resetReminder ? null : undefined
+      },
+      include: {
+        assignee: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Tarefa atualizada com sucesso',
+      data: updatedTask
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead task PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Excluir tarefa
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { count } = await db.leadTask.deleteMany({
+      where: {
+        id: params.taskId,
+        leadId: params.id,
+        lead: { companyId: companyProfile.id }
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Tarefa não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Tarefa excluída com sucesso'
+    })
+
+  } catch (error) {
+    console.error('Lead task DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
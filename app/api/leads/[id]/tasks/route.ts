@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+
+const createTaskSchema = z.object({
+  title: z.string().trim().min(1, 'Informe a tarefa').max(200),
+  description: z.string().trim().max(2000).optional(),
+  dueAt: z.string().datetime(),
+  assigneeId: z.string().optional()
+})
+
+const taskInclude = {
+  assignee: {
+    select: {
+      id: true,
+      name: true,
+      email: true
+    }
+  }
+}
+
+// GET - Tarefas do lead: pendentes por prazo, depois as concluídas
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const tasks = await db.leadTask.findMany({
+      where: {
+        leadId: params.id,
+        lead: { companyId: companyProfile.id }
+      },
+      include: taskInclude,
+      orderBy: [
+        { completedAt: { sort: 'desc', nulls: 'first' } },
+        { dueAt: 'asc' }
+      ]
+    })
+
+    return NextResponse.json({ data: tasks })
+
+  } catch (error) {
+    console.error('Lead tasks GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Criar tarefa de follow-up
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = createTaskSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const lead = await db.lead.findFirst({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      },
+      select: { id: true }
+    })
+
+    if (!lead) {
+      return NextResponse.json(
+        { message: 'Lead não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    if (validatedData.assigneeId) {
+      const assignee = await db.companyMember.findFirst({
+        where: {
+          id: validatedData.assigneeId,
+          companyId: companyProfile.id
+        },
+        select: { id: true }
+      })
+
+      if (!assignee) {
+        return NextResponse.json(
+          { message: 'Responsável não encontrado na equipe' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const task = await db.leadTask.create({
+      data: {
+        leadId: lead.id,
+        createdById: session.user.id,
+        title: validatedData.title,
+        description: validatedData.description || null,
+        dueAt: new Date(validatedData.dueAt),
+        assigneeId: validatedData.assigneeId || null
+      },
+      include: taskInclude
+    })
+
+    return NextResponse.json({
+      message: 'Tarefa criada com sucesso',
+      data: task
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead tasks POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
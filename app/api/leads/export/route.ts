@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { LeadStatus, Prisma, QuoteStatus } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  buildLeadExportRows,
+  buildQuoteExportRows,
+  EXPORT_DATASET_LABELS,
+  LEAD_STAGES
+} from '@/lib/leads'
+import { buildCsv, buildXlsx, CSV_MIME_TYPE, XLSX_MIME_TYPE } from '@/lib/spreadsheet'
+import { z } from 'zod'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const exportQuerySchema = z.object({
+  dataset: z.enum(['leads', 'quotes']).default('leads'),
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+  // Etapa do lead ou status do orçamento, conforme o conjunto exportado
+  status: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inicial inválida').optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data final inválida').optional()
+})
+
+const QUOTE_STATUSES: QuoteStatus[] = ['DRAFT', 'SENT', 'VIEWED', 'ACCEPTED', 'REJECTED', 'EXPIRED']
+
+// GET - Exportar leads ou orçamentos da empresa em CSV ou XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = exportQuerySchema.parse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ''))
+    )
+
+    const status = query.status && query.status !== 'all' ? query.status.toUpperCase() : null
+    const allowedStatuses: string[] = query.dataset === 'leads' ? LEAD_STAGES : QUOTE_STATUSES
+    if (status && !allowedStatuses.includes(status)) {
+      return NextResponse.json(
+        { message: 'Status inválido para exportação' },
+        { status: 400 }
+      )
+    }
+
+    // Período pela data de criação; a data final entra inteira
+    const createdAt: Prisma.DateTimeFilter = {}
+    if (query.from) createdAt.gte = new Date(`${query.from}T00:00:00.000Z`)
+    if (query.to) createdAt.lt = new Date(new Date(`${query.to}T00:00:00.000Z`).getTime() + DAY_MS)
+    const period = query.from || query.to ? { createdAt } : {}
+
+    // O status já foi conferido na lista do conjunto exportado
+    const leadWhere: Prisma.LeadWhereInput = {
+      companyId: companyProfile.id,
+      ...(status ? { status: status as LeadStatus } : {}),
+      ...period
+    }
+    const quoteWhere: Prisma.QuoteWhereInput = {
+      companyId: companyProfile.id,
+      ...(status ? { status: status as QuoteStatus } : {}),
+      ...period
+    }
+
+    const rows = query.dataset === 'leads'
+      ? buildLeadExportRows(await db.lead.findMany({
+          where: leadWhere,
+          orderBy: { createdAt: 'desc' },
+          include: {
+            quotes: { select: { status: true, totalValue: true } }
+          }
+        }))
+      : buildQuoteExportRows(await db.quote.findMany({
+          where: quoteWhere,
+          orderBy: { createdAt: 'desc' },
+          include: {
+            lead: { select: { name: true, email: true, simulation: true } },
+            items: { select: { type: true, totalPrice: true } },
+            acceptance: { select: { signerName: true, signedAt: true } }
+          }
+        }))
+
+    const fileName = `${query.dataset === 'leads' ? 'leads' : 'orcamentos'}_${new Date().toISOString().split('T')[0]}.${query.format}`
+    const body = query.format === 'xlsx'
+      ? buildXlsx([{ name: EXPORT_DATASET_LABELS[query.dataset], rows }])
+      : buildCsv(rows)
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': query.format === 'xlsx' ? XLSX_MIME_TYPE : CSV_MIME_TYPE,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate'
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead export error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
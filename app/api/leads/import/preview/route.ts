@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  getExistingLeadKeys,
+  LEAD_IMPORT_FIELDS,
+  LeadImportError,
+  readLeadImportUpload,
+  suggestLeadColumnMapping,
+  validateLeadImport
+} from '@/lib/leads'
+
+const PREVIEW_ROWS = 5
+
+// POST - Pré-visualizar planilha de leads: colunas, mapeamento sugerido e relatório de validação
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const upload = await readLeadImportUpload(await request.formData())
+    const mapping = upload.mapping ?? suggestLeadColumnMapping(upload.headers)
+
+    const { rows, ...report } = validateLeadImport(
+      upload.dataRows,
+      mapping,
+      await getExistingLeadKeys(companyProfile.id),
+      { skipDuplicates: upload.skipDuplicates }
+    )
+
+    return NextResponse.json({
+      data: {
+        fileName: upload.fileName,
+        headers: upload.headers,
+        sampleRows: upload.dataRows.slice(0, PREVIEW_ROWS),
+        fields: LEAD_IMPORT_FIELDS.map(({ field, label, required }) => ({ field, label, required })),
+        mapping,
+        report
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof LeadImportError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead import preview error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
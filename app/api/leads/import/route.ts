@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  getExistingLeadKeys,
+  LeadImportError,
+  readLeadImportUpload,
+  suggestLeadColumnMapping,
+  validateLeadImport
+} from '@/lib/leads'
+
+// POST - Importar leads de planilha CSV ou XLSX
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const upload = await readLeadImportUpload(await request.formData())
+
+    const { rows, ...report } = validateLeadImport(
+      upload.dataRows,
+      upload.mapping ?? suggestLeadColumnMapping(upload.headers),
+      await getExistingLeadKeys(companyProfile.id),
+      { skipDuplicates: upload.skipDuplicates }
+    )
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { message: 'Nenhuma linha válida para importar', data: report },
+        { status: 400 }
+      )
+    }
+
+    // Tudo ou nada: uma falha no meio não deixa metade da planilha importada
+    await db.$transaction(rows.map(row => db.lead.create({
+      data: {
+        name: row.name,
+        email: row.email,
+        phone: row.phone,
+        location: row.location,
+        projectType: row.projectType,
+        budget: row.budget,
+        message: row.message,
+        source: row.source,
+        status: row.status,
+        emailKey: row.emailKey,
+        phoneKey: row.phoneKey,
+        companyId: companyProfile.id,
+        stageChanges: {
+          create: { toStatus: row.status }
+        }
+      }
+    })))
+
+    return NextResponse.json({
+      message: `${rows.length} lead(s) importado(s) com sucesso`,
+      data: { ...report, imported: rows.length }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof LeadImportError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Lead import error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
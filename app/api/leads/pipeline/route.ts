@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  getLeadSlaStatus,
+  LEAD_STAGE_LABELS,
+  LEAD_STAGE_SLA_MINUTES,
+  LEAD_STAGES,
+  OPEN_LEAD_STAGES
+} from '@/lib/leads'
+
+// Leads fechados/perdidos ficam no quadro por 30 dias
+const CLOSED_STAGE_VISIBLE_DAYS = 30
+const CLOSED_STAGE_LIMIT = 50
+
+// GET - Quadro Kanban do funil de leads, com SLA de cada card
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const now = new Date()
+    const closedSince = new Date(now.getTime() - CLOSED_STAGE_VISIBLE_DAYS * 24 * 60 * 60 * 1000)
+    const select = {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      location: true,
+      projectType: true,
+      budget: true,
+      source: true,
+      status: true,
+      stageChangedAt: true,
+      createdAt: true,
+      _count: {
+        select: { quotes: true }
+      }
+    }
+
+    const [openLeads, closedLeads] = await Promise.all([
+      db.lead.findMany({
+        where: {
+          companyId: companyProfile.id,
+          status: { in: OPEN_LEAD_STAGES }
+        },
+        // Mais antigos na etapa primeiro: são os que estão mais perto de estourar o SLA
+        orderBy: { stageChangedAt: 'asc' },
+        select
+      }),
+      db.lead.findMany({
+        where: {
+          companyId: companyProfile.id,
+          status: { in: ['CLOSED', 'LOST'] },
+          stageChangedAt: { gte: closedSince }
+        },
+        orderBy: { stageChangedAt: 'desc' },
+        take: CLOSED_STAGE_LIMIT,
+        select
+      })
+    ])
+
+    const leads = [...openLeads, ...closedLeads].map(lead => ({
+      ...lead,
+      sla: getLeadSlaStatus(lead, now)
+    }))
+
+    const stages = LEAD_STAGES.map(stage => {
+      const stageLeads = leads.filter(lead => lead.status === stage)
+      return {
+        status: stage,
+        label: LEAD_STAGE_LABELS[stage],
+        slaMinutes: LEAD_STAGE_SLA_MINUTES[stage] ?? null,
+        overdueCount: stageLeads.filter(lead => lead.sla.state === 'overdue').length,
+        leads: stageLeads
+      }
+    })
+
+    return NextResponse.json({ stages, generatedAt: now })
+
+  } catch (error) {
+    console.error('Lead pipeline GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
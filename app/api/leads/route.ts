@@ -2,12 +2,36 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
-import { z } from 'zod'
 import {
-  sendEmail,
-  createNewLeadEmailTemplate,
-  createLeadConfirmationEmailTemplate
-} from '@/lib/email'
+  calculateLeadScore,
+  captureLead,
+  getDuplicateCounts,
+  parseLeadScoringConfig
+} from '@/lib/leads'
+import { electricityBillSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+// Resumo da simulação da calculadora anexado ao lead
+const leadSimulationSchema = z.object({
+  municipality: z.object({
+    ibgeCode: z.string(),
+    name: z.string(),
+    state: z.string()
+  }),
+  monthlyBill: z.number().positive(),
+  systemSize: z.number().positive(),
+  panelCount: z.number().int().positive(),
+  yearlyGeneration: z.number().nonnegative(),
+  monthlyGeneration: z.array(z.number()).length(12),
+  systemCost: z.number().nonnegative(),
+  monthlySavings: z.number(),
+  paybackPeriod: z.number().nullable(),
+  equipment: z.array(z.object({
+    productId: z.string(),
+    name: z.string(),
+    quantity: z.number().int().positive()
+  })).optional()
+})
 
 // Schema de validação para criação de lead
 const createLeadSchema = z.object({
@@ -19,6 +43,8 @@ const createLeadSchema = z.object({
   budget: z.string().optional(),
   message: z.string().min(10, 'Mensagem deve ter pelo menos 10 caracteres'),
   source: z.string().optional(),
+  simulation: leadSimulationSchema.optional(),
+  electricityBill: electricityBillSchema.optional(),
   companyId: z.string().cuid('ID da empresa inválido')
 })
 
@@ -48,6 +74,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const status = searchParams.get('status')
+    const sort = searchParams.get('sort')
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
     const skip = (page - 1) * limit
@@ -61,19 +88,24 @@ export async function GET(request: NextRequest) {
       where.status = status.toUpperCase()
     }
 
+    // A pontuação depende do tempo decorrido desde o envio dos orçamentos, então é
+    // calculada a cada consulta; para ordenar por ela a paginação é feita em memória
+    const sortByScore = sort === 'score'
+
     // Buscar leads com paginação
     const [leads, total] = await Promise.all([
       db.lead.findMany({
         where,
         orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        ...(sortByScore ? {} : { skip, take: limit }),
         include: {
           quotes: {
             select: {
               id: true,
               status: true,
               totalValue: true,
+              sentAt: true,
+              viewedAt: true,
               createdAt: true
             }
           }
@@ -82,8 +114,25 @@ export async function GET(request: NextRequest) {
       db.lead.count({ where })
     ])
 
+    const scoringConfig = parseLeadScoringConfig(companyProfile.leadScoringConfig)
+    const now = new Date()
+
+    let scoredLeads = leads.map(lead => ({
+      ...lead,
+      score: calculateLeadScore(lead, companyProfile, scoringConfig, now)
+    }))
+
+    if (sortByScore) {
+      scoredLeads = scoredLeads
+        .sort((a, b) => b.score.score - a.score.score)
+        .slice(skip, skip + limit)
+    }
+
+    // Outros leads com o mesmo email ou telefone, para sinalizar duplicados na lista
+    const duplicateCounts = await getDuplicateCounts(companyProfile.id, scoredLeads)
+
     return NextResponse.json({
-      data: leads,
+      data: scoredLeads.map(lead => ({ ...lead, duplicateCount: duplicateCounts[lead.id] ?? 0 })),
       pagination: {
         page,
         limit,
@@ -129,85 +178,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Criar o lead
-    const lead = await db.lead.create({
-      data: {
-        name: validatedData.name,
-        email: validatedData.email,
-        phone: validatedData.phone,
-        location: validatedData.location,
-        projectType: validatedData.projectType,
-        budget: validatedData.budget,
-        message: validatedData.message,
-        source: validatedData.source || 'website',
-        companyId: validatedData.companyId,
-        status: 'NEW'
-      }
-    })
+    await captureLead(company, validatedData)
 
-    // Criar notificação para a empresa
-    await db.notification.create({
-      data: {
-        title: 'Novo Lead Recebido',
-        message: `${validatedData.name} enviou uma solicitação de orçamento para ${validatedData.projectType}`,
-        type: 'LEAD_RECEIVED',
-        userId: company.userId,
-        data: {
-          leadId: lead.id,
-          leadName: validatedData.name,
-          projectType: validatedData.projectType
-        }
-      }
-    })
-
-    // Enviar email para a empresa
-    try {
-      const emailHtml = createNewLeadEmailTemplate({
-        companyName: company.name,
-        leadName: validatedData.name,
-        leadEmail: validatedData.email,
-        leadPhone: validatedData.phone,
-        projectType: validatedData.projectType,
-        location: validatedData.location,
-        budget: validatedData.budget,
-        message: validatedData.message,
-        dashboardUrl: `${process.env.NEXTAUTH_URL}/dashboard/leads`
-      })
-
-      await sendEmail({
-        to: company.user.email,
-        subject: `Novo Lead: ${validatedData.name} - ${validatedData.projectType}`,
-        html: emailHtml,
-        replyTo: validatedData.email
-      })
-    } catch (emailError) {
-      console.error('Error sending lead notification email:', emailError)
-      // Não falha a operação se o email não for enviado
-    }
-
-    // Enviar email de confirmação para o cliente
-    try {
-      const confirmationHtml = createLeadConfirmationEmailTemplate({
-        customerName: validatedData.name,
-        companyName: company.name,
-        projectType: validatedData.projectType,
-        message: validatedData.message
-      })
-
-      await sendEmail({
-        to: validatedData.email,
-        subject: `Confirmação: Sua solicitação foi enviada para ${company.name}`,
-        html: confirmationHtml
-      })
-    } catch (emailError) {
-      console.error('Error sending lead confirmation email:', emailError)
-      // Não falha a operação se o email não for enviado
-    }
-
-    return NextResponse.json({
-      message: 'Solicitação enviada com sucesso',
-      data: lead
-    }, { status: 201 })
+    // A resposta não indica se o contato já existia: o formulário é público
+    return NextResponse.json(
+      { message: 'Solicitação enviada com sucesso' },
+      { status: 201 }
+    )
 
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { deletePendingAttachment, getAttachmentDownloadUrl } from '@/lib/messages'
+
+export const dynamic = 'force-dynamic'
+
+// GET - Redirect conversation participants to a short-lived signed URL of the file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const thumbnail = new URL(request.url).searchParams.get('thumbnail') === '1'
+    const url = await getAttachmentDownloadUrl(params.id, session.user.id, thumbnail)
+
+    if (!url) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    const response = NextResponse.redirect(url)
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
+
+  } catch (error) {
+    console.error('Error downloading attachment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Discard an attachment that was uploaded but not sent
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await deletePendingAttachment(params.id, session.user.id))) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error deleting attachment:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isConversationParticipant, markConversationAsRead } from '@/lib/messages'
+
+// POST - Mark the messages received in a conversation as read and send the read receipt
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { conversationId } = await request.json()
+
+    if (!conversationId) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 })
+    }
+
+    if (!(await isConversationParticipant(conversationId, session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const messageIds = await markConversationAsRead(conversationId, session.user.id)
+
+    return NextResponse.json({ data: { messageIds } })
+
+  } catch (error) {
+    console.error('Error marking messages as read:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
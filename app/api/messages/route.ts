@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import {
+  assertPendingAttachments,
+  conversationContextInclude,
+  conversationMessageInclude,
+  isConversationParticipant,
+  MessageAttachmentError,
+  publishConversationEvent,
+  withVisibleContext
+} from '@/lib/messages'
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,22 +35,7 @@ export async function GET(request: NextRequest) {
             { receiverId: session.user.id }
           ]
         },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              name: true,
-              image: true,
-            }
-          },
-          receiver: {
-            select: {
-              id: true,
-              name: true,
-              image: true,
-            }
-          }
-        },
+        include: conversationMessageInclude,
         orderBy: { createdAt: 'asc' },
         skip: (page - 1) * limit,
         take: limit,
@@ -77,12 +71,15 @@ export async function GET(request: NextRequest) {
                 }
               }
             }
-          }
+          },
+          ...conversationContextInclude
         },
         orderBy: { updatedAt: 'desc' }
       })
 
-      return NextResponse.json({ data: conversations })
+      return NextResponse.json({
+        data: conversations.map(conversation => withVisibleContext(conversation, session.user.id))
+      })
     }
 
   } catch (error) {
@@ -102,18 +99,35 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { content, receiverId, conversationId } = await request.json()
+    const { content = '', receiverId, conversationId, attachmentIds = [] } = await request.json()
+
+    if (!Array.isArray(attachmentIds) || attachmentIds.some((id: unknown) => typeof id !== 'string')) {
+      return NextResponse.json({ error: 'attachmentIds must be a list of ids' }, { status: 400 })
+    }
 
-    if (!content || !receiverId) {
+    if ((!content && attachmentIds.length === 0) || !receiverId) {
       return NextResponse.json(
         { error: 'Content and receiverId are required' },
         { status: 400 }
       )
     }
 
+    // Attachments are uploaded to an existing conversation
+    if (attachmentIds.length > 0 && !conversationId) {
+      return NextResponse.json({ error: 'conversationId is required to send attachments' }, { status: 400 })
+    }
+
+    if (conversationId && !(await isConversationParticipant(conversationId, session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (attachmentIds.length > 0) {
+      await assertPendingAttachments(conversationId, session.user.id, attachmentIds)
+    }
+
     let finalConversationId = conversationId
 
-    // If no conversation ID provided, find or create conversation
+    // If no conversation ID provided, find or create a conversation without a subject
     if (!finalConversationId) {
       const existingConversation = await prisma.conversation.findFirst({
         where: {
@@ -123,7 +137,10 @@ export async function POST(request: NextRequest) {
                 in: [session.user.id, receiverId]
               }
             }
-          }
+          },
+          leadId: null,
+          quoteId: null,
+          productId: null
         }
       })
 
@@ -151,23 +168,11 @@ export async function POST(request: NextRequest) {
         senderId: session.user.id,
         receiverId,
         conversationId: finalConversationId,
-      },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          }
-        },
-        receiver: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          }
+        attachments: {
+          connect: attachmentIds.map((id: string) => ({ id }))
         }
-      }
+      },
+      include: conversationMessageInclude
     })
 
     // Update conversation timestamp
@@ -176,11 +181,16 @@ export async function POST(request: NextRequest) {
       data: { updatedAt: new Date() }
     })
 
+    // Deliver to participants connected to the conversation stream
+    await publishConversationEvent(finalConversationId, { type: 'message', message })
+
     // Create notification for receiver
     await prisma.notification.create({
       data: {
         title: 'Nova mensagem',
-        message: `${session.user.name} enviou uma mensagem: ${content.substring(0, 50)}${content.length > 50 ? '...' : ''}`,
+        message: content
+          ? `${session.user.name} enviou uma mensagem: ${content.substring(0, 50)}${content.length > 50 ? '...' : ''}`
+          : `${session.user.name} enviou ${attachmentIds.length > 1 ? `${attachmentIds.length} anexos` : 'um anexo'}`,
         type: 'MESSAGE_RECEIVED',
         userId: receiverId,
         data: {
@@ -193,6 +203,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(message)
 
   } catch (error) {
+    if (error instanceof MessageAttachmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error sending message:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
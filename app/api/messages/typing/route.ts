@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isConversationParticipant, publishConversationEvent } from '@/lib/messages'
+
+// POST - Notify the other participants that the user started or stopped typing
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { conversationId, isTyping } = await request.json()
+
+    if (!conversationId || typeof isTyping !== 'boolean') {
+      return NextResponse.json(
+        { error: 'conversationId and isTyping are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await isConversationParticipant(conversationId, session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await publishConversationEvent(conversationId, {
+      type: 'typing',
+      userId: session.user.id,
+      name: session.user.name ?? null,
+      isTyping
+    })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error publishing typing indicator:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
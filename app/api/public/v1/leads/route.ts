@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiKey, isOriginAllowed } from '@/lib/api-keys'
+import { captureLead } from '@/lib/leads'
+import { rateLimiters } from '@/lib/rate-limiter'
+import { z } from 'zod'
+
+// Solicitação enviada pelo site da empresa (widget ou integração própria)
+const publicLeadSchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter pelo menos 2 caracteres').max(120),
+  email: z.string().trim().email('Email inválido'),
+  phone: z.string().trim().min(10, 'Telefone deve ter pelo menos 10 caracteres').max(30),
+  location: z.string().trim().min(2, 'Localização é obrigatória').max(120),
+  projectType: z.string().trim().max(60).optional(),
+  budget: z.string().trim().max(60).optional(),
+  message: z.string().trim().max(5000).optional(),
+  source: z.string().trim().max(60).optional(),
+  pageUrl: z.string().url('URL da página inválida').max(2000)
+    .refine(url => /^https?:\/\//i.test(url), 'URL da página inválida')
+    .optional()
+})
+
+function corsHeaders(origin: string | null): Record<string, string> {
+  if (!origin) return {}
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Api-Key',
+    'Access-Control-Max-Age': '86400',
+    'Vary': 'Origin'
+  }
+}
+
+function jsonResponse(origin: string | null, body: object, init: { status: number; headers?: Record<string, string> }) {
+  return NextResponse.json(body, {
+    status: init.status,
+    headers: { ...corsHeaders(origin), ...init.headers }
+  })
+}
+
+// OPTIONS - Pré-verificação CORS do navegador; a chave e a origem são conferidas no POST
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders(request.headers.get('origin'))
+  })
+}
+
+// POST - Receber lead do site da empresa (autenticado por chave de API)
+export async function POST(request: NextRequest) {
+  const origin = request.headers.get('origin')
+
+  try {
+    const key = request.headers.get('x-api-key')
+
+    if (!key) {
+      return jsonResponse(origin, { message: 'Chave de API não informada' }, { status: 401 })
+    }
+
+    for (const limiter of [rateLimiters.publicLeads, rateLimiters.publicLeadsPerKey]) {
+      const limit = await limiter.checkLimit(request)
+
+      if (!limit.success) {
+        return jsonResponse(origin, { message: limit.message }, {
+          status: 429,
+          headers: {
+            'Retry-After': Math.ceil((limit.resetTime - Date.now()) / 1000).toString()
+          }
+        })
+      }
+    }
+
+    const apiKey = await authenticateApiKey(key)
+
+    if (!apiKey) {
+      return jsonResponse(origin, { message: 'Chave de API inválida ou revogada' }, { status: 401 })
+    }
+
+    // Chamadas do navegador precisam vir de um domínio cadastrado na chave;
+    // integrações servidor a servidor não enviam Origin
+    if (origin && !isOriginAllowed(origin, apiKey.allowedOrigins)) {
+      return jsonResponse(origin, { message: 'Origem não autorizada para esta chave de API' }, { status: 403 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return jsonResponse(origin, { message: 'Corpo da requisição deve ser um JSON válido' }, { status: 400 })
+    }
+
+    const { pageUrl, ...validatedData } = publicLeadSchema.parse(body)
+
+    await captureLead(apiKey.company, {
+      ...validatedData,
+      projectType: validatedData.projectType || 'A definir',
+      message: validatedData.message || 'Solicitação enviada pelo formulário do site'
+    }, {
+      defaultSource: 'api',
+      apiKeyId: apiKey.id,
+      sourceUrl: pageUrl
+    })
+
+    // A resposta não indica se o contato já existia: quem envia é o visitante do site
+    return jsonResponse(origin, { message: 'Solicitação enviada com sucesso' }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return jsonResponse(origin, {
+        message: 'Dados inválidos',
+        errors: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 })
+    }
+
+    console.error('Public leads POST error:', error)
+    return jsonResponse(origin, { message: 'Erro interno do servidor' }, { status: 500 })
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from 'next/server'
+import { renderLeadWidgetScript } from '@/lib/leads'
+
+// GET - Script do formulário de leads para incorporar no site da empresa
+export async function GET(request: NextRequest) {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin
+
+  return new Response(renderLeadWidgetScript(`${baseUrl}/api/public/v1/leads`), {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*'
+    }
+  })
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { createInstallationProject } from '@/lib/installations'
+import { createQuoteResponseNotification } from '@/lib/notifications'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  getQuoteResponseBlocker,
+  getRequestMetadata,
+  getSentQuoteSnapshot
+} from '@/lib/quotes'
+import { dispatchWebhookEvent, serializeWebhookQuote } from '@/lib/webhooks'
+
+// Assinatura eletrônica: nome digitado + confirmação explícita dos termos
+const acceptQuoteSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+  signerName: z.string().trim().min(3, 'Digite seu nome completo'),
+  signerEmail: z.string().email('Email inválido').optional(),
+  agreed: z.literal(true, {
+    errorMap: () => ({ message: 'É necessário concordar com os termos do orçamento' })
+  })
+})
+
+// POST - Cliente aceita o orçamento pelo link público
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const validatedData = acceptQuoteSchema.parse(body)
+
+    const quote = await db.quote.findUnique({
+      where: { id: params.id },
+      include: {
+        items: true,
+        revisions: {
+          orderBy: { version: 'desc' },
+          take: 1
+        },
+        company: {
+          select: {
+            name: true,
+            userId: true
+          }
+        }
+      }
+    })
+
+    if (!quote || !isValidAccessToken(quote.acceptanceToken, validatedData.token)) {
+      return NextResponse.json(
+        { message: 'Orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const blocker = getQuoteResponseBlocker(quote)
+    if (blocker) {
+      return NextResponse.json(
+        { message: blocker },
+        { status: 409 }
+      )
+    }
+
+    // Assina a versão que o cliente viu, nunca o conteúdo editado depois do envio
+    const sent = getSentQuoteSnapshot(quote)
+    if (!sent) {
+      return NextResponse.json(
+        { message: 'Este orçamento foi alterado pela empresa e aguarda um novo envio' },
+        { status: 409 }
+      )
+    }
+
+    const { ipAddress, userAgent } = getRequestMetadata(request.headers)
+
+    const acceptance = await db.$transaction(async (tx) => {
+      const record = await tx.quoteAcceptance.create({
+        data: {
+          quoteId: quote.id,
+          decision: 'ACCEPTED',
+          signerName: validatedData.signerName,
+          signerEmail: validatedData.signerEmail,
+          ipAddress,
+          userAgent,
+          snapshot: sent.snapshot as unknown as Prisma.InputJsonValue,
+          documentHash: sent.documentHash
+        }
+      })
+
+      await tx.quote.update({
+        where: { id: quote.id },
+        data: { status: 'ACCEPTED' }
+      })
+
+      return record
+    })
+
+    await createQuoteResponseNotification(quote.company.userId, quote, validatedData.signerName, true)
+
+    // Abre o acompanhamento da instalação; o aceite vale mesmo se isso falhar
+    try {
+      await createInstallationProject(quote.id, {
+        signedAt: acceptance.signedAt,
+        signerName: acceptance.signerName,
+        signerEmail: acceptance.signerEmail
+      })
+    } catch (error) {
+      console.error('Installation project error:', error)
+    }
+
+    await dispatchWebhookEvent(quote.companyId, 'quote.accepted', {
+      quote: serializeWebhookQuote({ ...quote, status: 'ACCEPTED' }),
+      acceptance: {
+        signerName: acceptance.signerName,
+        signerEmail: acceptance.signerEmail,
+        signedAt: acceptance.signedAt.toISOString(),
+        documentHash: acceptance.documentHash
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Orçamento aceito com sucesso',
+      data: {
+        id: acceptance.id,
+        decision: acceptance.decision,
+        signedAt: acceptance.signedAt,
+        documentHash: acceptance.documentHash
+      }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Quote accept error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  createQuoteSnapshot,
+  renderQuotePdf,
+  type QuoteSnapshot
+} from '@/lib/quotes'
+
+// GET - PDF do orçamento, com o bloco de assinatura quando já respondido
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const token = searchParams.get('token')
+
+    const quote = await db.quote.findUnique({
+      where: { id: params.id },
+      include: {
+        items: true,
+        acceptance: true,
+        revisions: {
+          orderBy: { version: 'desc' },
+          take: 1
+        },
+        company: {
+          select: {
+            name: true,
+            email: true,
+            phone: true,
+            city: true,
+            state: true,
+            userId: true
+          }
+        }
+      }
+    })
+
+    if (!quote) {
+      return NextResponse.json(
+        { message: 'Orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Acesso pelo link do cliente ou pela empresa/cliente autenticados
+    let authorized = token ? isValidAccessToken(quote.acceptanceToken, token) : false
+    let isCompany = false
+    if (!authorized) {
+      const session = await getServerSession(authOptions)
+      isCompany = !!session?.user && session.user.id === quote.company.userId
+      authorized = isCompany || (!!session?.user && session.user.id === quote.userId)
+    }
+
+    if (!authorized) {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    // O PDF assinado usa o snapshot gravado no aceite; o cliente recebe a última
+    // versão enviada, e só a empresa vê as edições ainda em rascunho
+    const sentSnapshot = quote.acceptance?.snapshot ?? (isCompany ? null : quote.revisions[0]?.snapshot)
+    const snapshot = sentSnapshot
+      ? sentSnapshot as unknown as QuoteSnapshot
+      : createQuoteSnapshot(quote)
+
+    const pdf = renderQuotePdf({
+      snapshot,
+      company: quote.company,
+      acceptance: quote.acceptance
+    })
+
+    const suffix = quote.acceptance?.decision === 'ACCEPTED' ? '-assinado' : ''
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="orcamento-${quote.id}${suffix}.pdf"`,
+        'Content-Length': pdf.length.toString()
+      }
+    })
+
+  } catch (error) {
+    console.error('Quote PDF error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { createQuoteResponseNotification } from '@/lib/notifications'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  getQuoteResponseBlocker,
+  getRequestMetadata,
+  getSentQuoteSnapshot
+} from '@/lib/quotes'
+
+// A recusa também é assinada, com o motivo informado pelo cliente
+const rejectQuoteSchema = z.object({
+  token: z.string().min(1, 'Token é obrigatório'),
+  signerName: z.string().trim().min(3, 'Digite seu nome completo'),
+  signerEmail: z.string().email('Email inválido').optional(),
+  reason: z.string().trim().min(5, 'Informe o motivo da recusa').max(1000, 'Motivo muito longo')
+})
+
+// POST - Cliente recusa o orçamento pelo link público
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const validatedData = rejectQuoteSchema.parse(body)
+
+    const quote = await db.quote.findUnique({
+      where: { id: params.id },
+      include: {
+        items: true,
+        revisions: {
+          orderBy: { version: 'desc' },
+          take: 1
+        },
+        company: {
+          select: {
+            name: true,
+            userId: true
+          }
+        }
+      }
+    })
+
+    if (!quote || !isValidAccessToken(quote.acceptanceToken, validatedData.token)) {
+      return NextResponse.json(
+        { message: 'Orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const blocker = getQuoteResponseBlocker(quote)
+    if (blocker) {
+      return NextResponse.json(
+        { message: blocker },
+        { status: 409 }
+      )
+    }
+
+    // Assina a versão que o cliente viu, nunca o conteúdo editado depois do envio
+    const sent = getSentQuoteSnapshot(quote)
+    if (!sent) {
+      return NextResponse.json(
+        { message: 'Este orçamento foi alterado pela empresa e aguarda um novo envio' },
+        { status: 409 }
+      )
+    }
+
+    const { ipAddress, userAgent } = getRequestMetadata(request.headers)
+
+    const acceptance = await db.$transaction(async (tx) => {
+      const record = await tx.quoteAcceptance.create({
+        data: {
+          quoteId: quote.id,
+          decision: 'REJECTED',
+          reason: validatedData.reason,
+          signerName: validatedData.signerName,
+          signerEmail: validatedData.signerEmail,
+          ipAddress,
+          userAgent,
+          snapshot: sent.snapshot as unknown as Prisma.InputJsonValue,
+          documentHash: sent.documentHash
+        }
+      })
+
+      await tx.quote.update({
+        where: { id: quote.id },
+        data: { status: 'REJECTED' }
+      })
+
+      return record
+    })
+
+    await createQuoteResponseNotification(quote.company.userId, quote, validatedData.signerName, false, validatedData.reason)
+
+    return NextResponse.json({
+      message: 'Orçamento recusado',
+      data: {
+        id: acceptance.id,
+        decision: acceptance.decision,
+        signedAt: acceptance.signedAt,
+        documentHash: acceptance.documentHash
+      }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Quote reject error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
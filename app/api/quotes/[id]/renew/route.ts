@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { canRenewQuote, getRenewedValidUntil, QUOTE_RENEWAL_DAYS, recordQuoteRevision } from '@/lib/quotes'
+
+// POST - Renovar orçamento vencido por mais 15 dias
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const quote = await db.quote.findFirst({
+      where: {
+        id: params.id,
+        companyId: companyProfile.id
+      }
+    })
+
+    if (!quote) {
+      return NextResponse.json(
+        { message: 'Orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    if (!canRenewQuote(quote)) {
+      return NextResponse.json(
+        { message: 'Apenas orçamentos vencidos e ainda não respondidos podem ser renovados' },
+        { status: 409 }
+      )
+    }
+
+    // Orçamento que já estava com o cliente volta a aguardar resposta
+    const status = quote.status === 'EXPIRED' ? 'SENT' : quote.status
+
+    const renewedQuote = await db.quote.update({
+      where: { id: params.id },
+      data: {
+        validUntil: getRenewedValidUntil(),
+        status,
+        expiredAt: null,
+        expiryReminderSentAt: null
+      }
+    })
+
+    // A nova validade é uma nova versão do que o cliente vê
+    if (status !== 'DRAFT') {
+      await recordQuoteRevision(params.id)
+    }
+
+    return NextResponse.json({
+      message: `Orçamento renovado por mais ${QUOTE_RENEWAL_DAYS} dias`,
+      data: renewedQuote
+    })
+
+  } catch (error) {
+    console.error('Quote renew error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
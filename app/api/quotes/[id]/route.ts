@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { Prisma } from '@prisma/client'
+import {
+  calculateQuoteTotals,
+  QuotePricingError,
+  recordQuoteRevision,
+  resolveQuoteItems
+} from '@/lib/quotes'
+import { createInstallationProject } from '@/lib/installations'
+import { quotePaymentConditionsSchema } from '@/lib/validations'
+import { dispatchWebhookEvent, serializeWebhookQuote } from '@/lib/webhooks'
 import { z } from 'zod'
 
 // Schema de validação para atualização de orçamento
@@ -9,22 +19,31 @@ const updateQuoteSchema = z.object({
   title: z.string().min(5, 'Título deve ter pelo menos 5 caracteres').optional(),
   description: z.string().optional(),
   totalValue: z.number().positive('Valor total deve ser positivo').optional(),
+  discountPercent: z.number().min(0).max(100, 'Desconto deve ser entre 0 e 100%').optional(),
   validUntil: z.string().refine((date) => {
     const validUntilDate = new Date(date)
     return validUntilDate > new Date()
   }, 'Data de validade deve ser futura').optional(),
   status: z.enum(['DRAFT', 'SENT', 'VIEWED', 'ACCEPTED', 'REJECTED', 'EXPIRED']).optional(),
   terms: z.string().optional(),
+  paymentConditions: quotePaymentConditionsSchema.nullable().optional(),
   notes: z.string().optional(),
   items: z.array(z.object({
     id: z.string().optional(),
-    description: z.string().min(2, 'Descrição do item é obrigatória'),
+    productId: z.string().cuid('ID do produto inválido').optional(),
+    description: z.string().min(2, 'Descrição do item é obrigatória').optional(),
     quantity: z.number().int().positive('Quantidade deve ser positiva'),
-    unitPrice: z.number().positive('Preço unitário deve ser positivo'),
-    category: z.string().optional()
+    unitPrice: z.number().positive('Preço unitário deve ser positivo').optional(),
+    category: z.string().optional(),
+    type: z.enum(['EQUIPMENT', 'SERVICE']).optional()
+  }).refine(item => item.productId || (item.description && item.unitPrice !== undefined), {
+    message: 'Informe um produto do catálogo ou a descrição e o preço do item'
   })).optional()
 })
 
+// Campos que alteram o que o cliente vê (notas são internas)
+const QUOTE_CONTENT_FIELDS = ['title', 'description', 'totalValue', 'discountPercent', 'validUntil', 'terms', 'paymentConditions', 'items'] as const
+
 // GET - Buscar orçamento específico
 export async function GET(
   request: NextRequest,
@@ -127,9 +146,13 @@ export async function GET(
 
       // Marcar como visualizado se ainda não foi
       if (quote.status === 'SENT') {
-        await db.quote.update({
+        const viewedQuote = await db.quote.update({
           where: { id: params.id },
-          data: { status: 'VIEWED' }
+          data: { status: 'VIEWED', viewedAt: quote.viewedAt ?? new Date() }
+        })
+
+        await dispatchWebhookEvent(viewedQuote.companyId, 'quote.viewed', {
+          quote: serializeWebhookQuote(viewedQuote)
         })
       }
 
@@ -200,17 +223,73 @@ export async function PUT(
       )
     }
 
+    const changesContent = QUOTE_CONTENT_FIELDS.some(field => validatedData[field] !== undefined)
+
+    // A versão aceita/recusada é a que vale; alterações exigem um novo orçamento
+    if (changesContent && (existingQuote.status === 'ACCEPTED' || existingQuote.status === 'REJECTED')) {
+      return NextResponse.json(
+        { message: 'Orçamentos já respondidos pelo cliente não podem ser editados' },
+        { status: 409 }
+      )
+    }
+
+    // Conteúdo novo só chega ao cliente por um novo envio, que grava a revisão
+    if (changesContent && validatedData.status !== undefined && validatedData.status !== 'DRAFT' && validatedData.status !== 'SENT') {
+      return NextResponse.json(
+        { message: 'Alterações no conteúdo do orçamento exigem um novo envio ao cliente' },
+        { status: 400 }
+      )
+    }
+
     // Preparar dados para atualização
     const updateData: any = {
       updatedAt: new Date()
     }
 
+    // Editar um orçamento enviado volta para rascunho até o próximo envio, que gera nova revisão
+    if (changesContent && (existingQuote.status === 'SENT' || existingQuote.status === 'VIEWED')) {
+      updateData.status = 'DRAFT'
+    }
+
+    // Itens e desconto recalculam subtotal e total no servidor
+    const items = validatedData.items
+      ? await resolveQuoteItems(companyProfile.id, validatedData.items)
+      : null
+
+    if (items || validatedData.discountPercent !== undefined) {
+      const totals = calculateQuoteTotals(
+        items ?? existingQuote.items.map(item => ({ totalPrice: Number(item.totalPrice) })),
+        validatedData.discountPercent ?? existingQuote.discountPercent ?? 0
+      )
+
+      if (validatedData.totalValue !== undefined && Math.abs(totals.totalValue - validatedData.totalValue) > 0.01) {
+        return NextResponse.json(
+          { message: 'Valor total não confere com a soma dos itens' },
+          { status: 400 }
+        )
+      }
+
+      updateData.subtotal = totals.subtotal
+      updateData.discountPercent = totals.discountPercent || null
+      updateData.totalValue = totals.totalValue
+    } else if (validatedData.totalValue !== undefined) {
+      updateData.totalValue = validatedData.totalValue
+    }
+
     if (validatedData.title !== undefined) updateData.title = validatedData.title
     if (validatedData.description !== undefined) updateData.description = validatedData.description
-    if (validatedData.totalValue !== undefined) updateData.totalValue = validatedData.totalValue
-    if (validatedData.validUntil !== undefined) updateData.validUntil = new Date(validatedData.validUntil)
+    if (validatedData.validUntil !== undefined) {
+      updateData.validUntil = new Date(validatedData.validUntil)
+      // Nova validade: o lembrete de vencimento volta a valer para a nova data
+      updateData.expiryReminderSentAt = null
+    }
     if (validatedData.status !== undefined) updateData.status = validatedData.status
+    // Primeiro envio ao cliente: referência do tempo de resposta na pontuação do lead
+    if (validatedData.status === 'SENT' && !existingQuote.sentAt) updateData.sentAt = new Date()
     if (validatedData.terms !== undefined) updateData.terms = validatedData.terms
+    if (validatedData.paymentConditions !== undefined) {
+      updateData.paymentConditions = validatedData.paymentConditions ?? Prisma.DbNull
+    }
     if (validatedData.notes !== undefined) updateData.notes = validatedData.notes
 
     // Atualizar orçamento em transação se houver itens
@@ -222,30 +301,39 @@ export async function PUT(
       })
 
       // Atualizar itens se fornecidos
-      if (validatedData.items) {
+      if (items) {
         // Remover itens existentes
         await tx.quoteItem.deleteMany({
           where: { quoteId: params.id }
         })
 
         // Criar novos itens
-        const itemsWithTotals = validatedData.items.map(item => ({
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          totalPrice: item.quantity * item.unitPrice,
-          category: item.category,
-          quoteId: params.id
-        }))
-
         await tx.quoteItem.createMany({
-          data: itemsWithTotals
+          data: items.map(item => ({ ...item, quoteId: params.id }))
         })
       }
 
       return quote
     })
 
+    if (validatedData.status === 'SENT') {
+      await recordQuoteRevision(params.id)
+    }
+
+    // Aceite registrado pela empresa (ex.: proposta assinada fora da plataforma)
+    if (validatedData.status === 'ACCEPTED' && existingQuote.status !== 'ACCEPTED') {
+      await dispatchWebhookEvent(updatedQuote.companyId, 'quote.accepted', {
+        quote: serializeWebhookQuote(updatedQuote),
+        acceptance: null
+      })
+
+      try {
+        await createInstallationProject(params.id)
+      } catch (error) {
+        console.error('Installation project error:', error)
+      }
+    }
+
     // Buscar orçamento atualizado com itens
     const finalQuote = await db.quote.findUnique({
       where: { id: params.id },
@@ -268,6 +356,13 @@ export async function PUT(
     })
 
   } catch (error) {
+    if (error instanceof QuotePricingError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { 
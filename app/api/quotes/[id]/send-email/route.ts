@@ -3,6 +3,12 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { sendEmail, createQuoteEmailTemplate } from '@/lib/email'
+import { generateAccessToken } from '@/lib/access-tokens'
+import {
+  getPublicQuoteUrl,
+  getQuotePaymentSummary,
+  recordQuoteRevision
+} from '@/lib/quotes'
 
 // POST - Enviar orçamento por email
 export async function POST(
@@ -49,6 +55,11 @@ export async function POST(
       },
       include: {
         items: true,
+        lead: {
+          select: {
+            simulation: true
+          }
+        },
         company: {
           select: {
             name: true,
@@ -74,8 +85,18 @@ export async function POST(
       )
     }
 
-    // Criar URL para visualização do orçamento (público)
-    const quoteUrl = `${process.env.NEXTAUTH_URL}/orcamento/${quote.id}`
+    // Orçamentos antigos não têm token de aceite; gera no primeiro envio
+    let acceptanceToken = quote.acceptanceToken
+    if (!acceptanceToken) {
+      acceptanceToken = generateAccessToken()
+      await db.quote.update({
+        where: { id: params.id },
+        data: { acceptanceToken }
+      })
+    }
+
+    // URL pública do orçamento, com o token que permite aceitar ou recusar
+    const quoteUrl = getPublicQuoteUrl(quote.id, acceptanceToken)
 
     // Criar template do email
     const emailHtml = createQuoteEmailTemplate({
@@ -92,6 +113,7 @@ export async function POST(
         totalPrice: Number(item.totalPrice)
       })),
       terms: quote.terms || undefined,
+      payment: getQuotePaymentSummary(quote) || undefined,
       quoteUrl
     })
 
@@ -111,14 +133,20 @@ export async function POST(
       )
     }
 
-    // Atualizar status do orçamento para SENT se ainda estiver DRAFT
-    if (quote.status === 'DRAFT') {
+    // Atualizar status do orçamento para SENT se ainda estiver DRAFT e registrar o primeiro envio
+    if (quote.status === 'DRAFT' || !quote.sentAt) {
       await db.quote.update({
         where: { id: params.id },
-        data: { status: 'SENT' }
+        data: {
+          ...(quote.status === 'DRAFT' ? { status: 'SENT' as const } : {}),
+          sentAt: quote.sentAt ?? new Date()
+        }
       })
     }
 
+    // Cada envio congela o conteúdo enviado como uma nova revisão
+    const revision = await recordQuoteRevision(quote.id)
+
     // Registrar o envio do email
     await db.notification.create({
       data: {
@@ -134,10 +162,23 @@ export async function POST(
       }
     })
 
+    // O envio também entra na linha do tempo do lead
+    if (quote.leadId) {
+      await db.leadActivity.create({
+        data: {
+          leadId: quote.leadId,
+          authorId: session.user.id,
+          type: 'EMAIL',
+          content: `Orçamento "${quote.title}" (versão ${revision.version}) enviado para ${customerEmail}`
+        }
+      })
+    }
+
     return NextResponse.json({
       message: 'Orçamento enviado por email com sucesso',
       data: {
         quoteId: quote.id,
+        version: revision.version,
         emailSent: true,
         recipientEmail: customerEmail,
         recipientName: customerName,
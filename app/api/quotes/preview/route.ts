@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  calculatePaymentSummary,
+  calculateQuoteTotals,
+  MAX_INSTALLMENTS,
+  QuotePricingError,
+  resolveQuoteItems,
+  simulateInstallments
+} from '@/lib/quotes'
+import { quotePaymentConditionsSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+const previewSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().cuid('ID do produto inválido').optional(),
+    description: z.string().min(2, 'Descrição do item é obrigatória').optional(),
+    quantity: z.number().int().positive('Quantidade deve ser positiva'),
+    unitPrice: z.number().positive('Preço unitário deve ser positivo').optional(),
+    category: z.string().optional(),
+    type: z.enum(['EQUIPMENT', 'SERVICE']).optional()
+  }).refine(item => item.productId || (item.description && item.unitPrice !== undefined), {
+    message: 'Informe um produto do catálogo ou a descrição e o preço do item'
+  })).min(1, 'Pelo menos um item é obrigatório'),
+  discountPercent: z.number().min(0).max(100, 'Desconto deve ser entre 0 e 100%').optional(),
+  installments: z.object({
+    maxInstallments: z.number().int().min(1).max(MAX_INSTALLMENTS),
+    interestFreeInstallments: z.number().int().min(0).max(MAX_INSTALLMENTS).optional(),
+    monthlyInterestRate: z.number().min(0).max(10, 'Taxa mensal deve ser no máximo 10%').optional()
+  }).optional(),
+  paymentConditions: quotePaymentConditionsSchema.optional()
+})
+
+// POST - Calcular itens, totais, parcelamento e condições de pagamento sem salvar o orçamento
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = previewSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const items = await resolveQuoteItems(companyProfile.id, validatedData.items)
+    const totals = calculateQuoteTotals(items, validatedData.discountPercent)
+
+    return NextResponse.json({
+      items,
+      totals,
+      installments: simulateInstallments(totals.totalValue, validatedData.installments),
+      payment: validatedData.paymentConditions
+        ? calculatePaymentSummary(items, totals.totalValue, validatedData.paymentConditions)
+        : null
+    })
+
+  } catch (error) {
+    if (error instanceof QuotePricingError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Quote preview error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,27 +2,53 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { generateAccessToken } from '@/lib/access-tokens'
+import {
+  calculatePaymentSummary,
+  calculateQuoteTotals,
+  findCompanyQuoteTemplate,
+  getLeadBillReference,
+  getTemplateValidUntil,
+  QuotePricingError,
+  resolveQuoteItems,
+  simulateInstallments,
+  templateItemsToLines
+} from '@/lib/quotes'
+import { quotePaymentConditionsSchema } from '@/lib/validations'
 import { z } from 'zod'
 
 // Schema de validação para criação de orçamento
+// Itens do catálogo (productId) herdam preço, potência e garantia do produto
+const quoteItemSchema = z.object({
+  productId: z.string().cuid('ID do produto inválido').optional(),
+  description: z.string().min(2, 'Descrição do item é obrigatória').optional(),
+  quantity: z.number().int().positive('Quantidade deve ser positiva'),
+  unitPrice: z.number().positive('Preço unitário deve ser positivo').optional(),
+  category: z.string().optional(),
+  type: z.enum(['EQUIPMENT', 'SERVICE']).optional()
+}).refine(item => item.productId || (item.description && item.unitPrice !== undefined), {
+  message: 'Informe um produto do catálogo ou a descrição e o preço do item'
+})
+
+// Com um modelo, título, itens, termos e validade podem vir dele
 const createQuoteSchema = z.object({
-  title: z.string().min(5, 'Título deve ter pelo menos 5 caracteres'),
+  templateId: z.string().cuid('ID do modelo inválido').optional(),
+  title: z.string().min(5, 'Título deve ter pelo menos 5 caracteres').optional(),
   description: z.string().optional(),
-  totalValue: z.number().positive('Valor total deve ser positivo'),
+  totalValue: z.number().positive('Valor total deve ser positivo').optional(),
+  discountPercent: z.number().min(0).max(100, 'Desconto deve ser entre 0 e 100%').optional(),
   validUntil: z.string().refine((date) => {
     const validUntilDate = new Date(date)
     return validUntilDate > new Date()
-  }, 'Data de validade deve ser futura'),
+  }, 'Data de validade deve ser futura').optional(),
   leadId: z.string().cuid('ID do lead inválido').optional(),
   userId: z.string().cuid('ID do usuário inválido').optional(),
   terms: z.string().optional(),
+  paymentConditions: quotePaymentConditionsSchema.optional(),
   notes: z.string().optional(),
-  items: z.array(z.object({
-    description: z.string().min(2, 'Descrição do item é obrigatória'),
-    quantity: z.number().int().positive('Quantidade deve ser positiva'),
-    unitPrice: z.number().positive('Preço unitário deve ser positivo'),
-    category: z.string().optional()
-  })).min(1, 'Pelo menos um item é obrigatório')
+  items: z.array(quoteItemSchema).min(1, 'Pelo menos um item é obrigatório').optional()
+}).refine(data => data.templateId || (data.title && data.validUntil && data.items), {
+  message: 'Título, validade e itens são obrigatórios sem um modelo'
 })
 
 // GET - Listar orçamentos da empresa
@@ -73,6 +99,15 @@ export async function GET(request: NextRequest) {
         take: limit,
         include: {
           items: true,
+          revisions: {
+            select: {
+              version: true,
+              totalValue: true,
+              changeSummary: true,
+              createdAt: true
+            },
+            orderBy: { version: 'asc' }
+          },
           lead: {
             select: {
               id: true,
@@ -142,32 +177,42 @@ export async function POST(request: NextRequest) {
     }
 
     // Verificar se o lead existe e pertence à empresa (se fornecido)
-    if (validatedData.leadId) {
-      const lead = await db.lead.findFirst({
-        where: {
-          id: validatedData.leadId,
-          companyId: companyProfile.id
-        }
-      })
+    const lead = validatedData.leadId
+      ? await db.lead.findFirst({
+          where: {
+            id: validatedData.leadId,
+            companyId: companyProfile.id
+          }
+        })
+      : null
 
-      if (!lead) {
-        return NextResponse.json(
-          { message: 'Lead não encontrado' },
-          { status: 404 }
-        )
-      }
+    if (validatedData.leadId && !lead) {
+      return NextResponse.json(
+        { message: 'Lead não encontrado' },
+        { status: 404 }
+      )
     }
 
-    // Calcular preços dos itens
-    const itemsWithTotals = validatedData.items.map(item => ({
-      ...item,
-      totalPrice: item.quantity * item.unitPrice
-    }))
+    const template = validatedData.templateId
+      ? await findCompanyQuoteTemplate(companyProfile.id, validatedData.templateId)
+      : null
 
-    // Verificar se o total bate
-    const calculatedTotal = itemsWithTotals.reduce((sum, item) => sum + item.totalPrice, 0)
-    
-    if (Math.abs(calculatedTotal - validatedData.totalValue) > 0.01) {
+    if (validatedData.templateId && !template) {
+      return NextResponse.json(
+        { message: 'Modelo de orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    // Preços, totais e desconto são sempre calculados no servidor
+    const items = await resolveQuoteItems(
+      companyProfile.id,
+      validatedData.items ?? templateItemsToLines(template!.items)
+    )
+    const totals = calculateQuoteTotals(items, validatedData.discountPercent ?? template?.discountPercent ?? 0)
+
+    // Verificar se o total bate, quando informado pelo cliente
+    if (validatedData.totalValue !== undefined && Math.abs(totals.totalValue - validatedData.totalValue) > 0.01) {
       return NextResponse.json(
         { message: 'Valor total não confere com a soma dos itens' },
         { status: 400 }
@@ -177,18 +222,25 @@ export async function POST(request: NextRequest) {
     // Criar o orçamento
     const quote = await db.quote.create({
       data: {
-        title: validatedData.title,
-        description: validatedData.description,
-        totalValue: validatedData.totalValue,
-        validUntil: new Date(validatedData.validUntil),
-        terms: validatedData.terms,
+        title: validatedData.title ?? template!.title,
+        description: validatedData.description ?? template?.description,
+        subtotal: totals.subtotal,
+        discountPercent: totals.discountPercent || null,
+        totalValue: totals.totalValue,
+        validUntil: validatedData.validUntil
+          ? new Date(validatedData.validUntil)
+          : getTemplateValidUntil(template!.validityDays),
+        terms: validatedData.terms ?? template?.terms,
+        paymentConditions: validatedData.paymentConditions,
         notes: validatedData.notes,
         companyId: companyProfile.id,
         leadId: validatedData.leadId,
         userId: validatedData.userId,
+        templateId: template?.id,
         status: 'DRAFT',
+        acceptanceToken: generateAccessToken(),
         items: {
-          create: itemsWithTotals
+          create: items
         }
       },
       include: {
@@ -206,10 +258,22 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       message: 'Orçamento criado com sucesso',
-      data: quote
+      data: quote,
+      totals,
+      installments: simulateInstallments(totals.totalValue),
+      payment: validatedData.paymentConditions
+        ? calculatePaymentSummary(items, totals.totalValue, validatedData.paymentConditions, getLeadBillReference(lead?.simulation))
+        : null
     }, { status: 201 })
 
   } catch (error) {
+    if (error instanceof QuotePricingError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { 
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { buildTemplateItems } from '@/lib/quotes'
+import { z } from 'zod'
+
+const updateTemplateSchema = z.object({
+  name: z.string().min(3, 'Nome do modelo deve ter pelo menos 3 caracteres').optional(),
+  title: z.string().min(5, 'Título deve ter pelo menos 5 caracteres').optional(),
+  description: z.string().optional(),
+  terms: z.string().optional(),
+  validityDays: z.number().int().min(1).max(180, 'Validade deve ser de até 180 dias').optional(),
+  discountPercent: z.number().min(0).max(100, 'Desconto deve ser entre 0 e 100%').nullable().optional(),
+  items: z.array(z.object({
+    productId: z.string().cuid('ID do produto inválido').optional(),
+    description: z.string().min(2, 'Descrição do item é obrigatória').optional(),
+    quantity: z.number().int().positive('Quantidade deve ser positiva'),
+    unitPrice: z.number().positive('Preço unitário deve ser positivo').optional(),
+    category: z.string().optional(),
+    type: z.enum(['EQUIPMENT', 'SERVICE']).optional()
+  }).refine(item => item.productId || (item.description && item.unitPrice !== undefined), {
+    message: 'Informe um produto do catálogo ou a descrição e o preço do item'
+  })).min(1, 'Pelo menos um item é obrigatório').optional()
+})
+
+async function findOwnTemplate(userId: string, templateId: string) {
+  const companyProfile = await db.companyProfile.findUnique({
+    where: { userId }
+  })
+
+  if (!companyProfile) return null
+
+  const template = await db.quoteTemplate.findFirst({
+    where: { id: templateId, companyId: companyProfile.id },
+    include: {
+      items: {
+        orderBy: { position: 'asc' },
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true,
+              price: true,
+              power: true,
+              warranty: true,
+              inStock: true
+            }
+          }
+        }
+      }
+    }
+  })
+
+  return template ? { companyProfile, template } : null
+}
+
+// GET - Buscar modelo de orçamento
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const result = await findOwnTemplate(session.user.id, params.id)
+
+    if (!result) {
+      return NextResponse.json(
+        { message: 'Modelo de orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: result.template })
+
+  } catch (error) {
+    console.error('Quote template GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Atualizar modelo de orçamento (os itens informados substituem os atuais)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = updateTemplateSchema.parse(body)
+
+    const result = await findOwnTemplate(session.user.id, params.id)
+
+    if (!result) {
+      return NextResponse.json(
+        { message: 'Modelo de orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const items = validatedData.items
+      ? await buildTemplateItems(result.companyProfile.id, validatedData.items)
+      : undefined
+
+    if (items === null) {
+      return NextResponse.json(
+        { message: 'Produto não encontrado no catálogo da empresa' },
+        { status: 400 }
+      )
+    }
+
+    const template = await db.$transaction(async (tx) => {
+      if (items) {
+        await tx.quoteTemplateItem.deleteMany({
+          where: { templateId: params.id }
+        })
+      }
+
+      return tx.quoteTemplate.update({
+        where: { id: params.id },
+        data: {
+          name: validatedData.name,
+          title: validatedData.title,
+          description: validatedData.description,
+          terms: validatedData.terms,
+          validityDays: validatedData.validityDays,
+          discountPercent: validatedData.discountPercent,
+          ...(items && { items: { create: items } })
+        },
+        include: {
+          items: {
+            orderBy: { position: 'asc' }
+          }
+        }
+      })
+    })
+
+    return NextResponse.json({
+      message: 'Modelo atualizado com sucesso',
+      data: template
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Quote template PUT error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Excluir modelo de orçamento (orçamentos criados a partir dele são mantidos)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const result = await findOwnTemplate(session.user.id, params.id)
+
+    if (!result) {
+      return NextResponse.json(
+        { message: 'Modelo de orçamento não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    await db.quoteTemplate.delete({
+      where: { id: params.id }
+    })
+
+    return NextResponse.json({ message: 'Modelo excluído com sucesso' })
+
+  } catch (error) {
+    console.error('Quote template DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { buildTemplateItems } from '@/lib/quotes'
+import { z } from 'zod'
+
+// Item do modelo: sem preço, um item do catálogo usa o preço atual do produto
+const templateItemSchema = z.object({
+  productId: z.string().cuid('ID do produto inválido').optional(),
+  description: z.string().min(2, 'Descrição do item é obrigatória').optional(),
+  quantity: z.number().int().positive('Quantidade deve ser positiva'),
+  unitPrice: z.number().positive('Preço unitário deve ser positivo').optional(),
+  category: z.string().optional(),
+  type: z.enum(['EQUIPMENT', 'SERVICE']).optional()
+}).refine(item => item.productId || (item.description && item.unitPrice !== undefined), {
+  message: 'Informe um produto do catálogo ou a descrição e o preço do item'
+})
+
+const quoteTemplateSchema = z.object({
+  name: z.string().min(3, 'Nome do modelo deve ter pelo menos 3 caracteres'),
+  title: z.string().min(5, 'Título deve ter pelo menos 5 caracteres'),
+  description: z.string().optional(),
+  terms: z.string().optional(),
+  validityDays: z.number().int().min(1).max(180, 'Validade deve ser de até 180 dias').default(30),
+  discountPercent: z.number().min(0).max(100, 'Desconto deve ser entre 0 e 100%').optional(),
+  items: z.array(templateItemSchema).min(1, 'Pelo menos um item é obrigatório')
+})
+
+const templateInclude = {
+  items: {
+    orderBy: { position: 'asc' as const },
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          price: true,
+          power: true,
+          warranty: true,
+          inStock: true
+        }
+      }
+    }
+  }
+}
+
+// GET - Listar modelos de orçamento da empresa
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const templates = await db.quoteTemplate.findMany({
+      where: { companyId: companyProfile.id },
+      orderBy: { name: 'asc' },
+      include: templateInclude
+    })
+
+    return NextResponse.json({ data: templates })
+
+  } catch (error) {
+    console.error('Quote templates GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Criar modelo de orçamento
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = quoteTemplateSchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const items = await buildTemplateItems(companyProfile.id, validatedData.items)
+
+    if (!items) {
+      return NextResponse.json(
+        { message: 'Produto não encontrado no catálogo da empresa' },
+        { status: 400 }
+      )
+    }
+
+    const template = await db.quoteTemplate.create({
+      data: {
+        name: validatedData.name,
+        title: validatedData.title,
+        description: validatedData.description,
+        terms: validatedData.terms,
+        validityDays: validatedData.validityDays,
+        discountPercent: validatedData.discountPercent,
+        companyId: companyProfile.id,
+        items: {
+          create: items
+        }
+      },
+      include: templateInclude
+    })
+
+    return NextResponse.json({
+      message: 'Modelo criado com sucesso',
+      data: template
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Quote templates POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { renderSimulationPdf, type SolarSimulationReport } from '@/lib/solar'
+
+// GET - Relatório da simulação em PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const simulation = await db.simulation.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!simulation) {
+      return NextResponse.json(
+        { message: 'Simulação não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const pdf = renderSimulationPdf({
+      title: simulation.title,
+      createdAt: simulation.createdAt,
+      shareUrl: `${process.env.NEXTAUTH_URL}/simulacao/${simulation.id}`,
+      result: simulation.result as unknown as SolarSimulationReport
+    })
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="simulacao-solar-${simulation.id}.pdf"`,
+        'Content-Length': pdf.length.toString()
+      }
+    })
+
+  } catch (error) {
+    console.error('Simulation PDF error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+
+// GET - Buscar simulação (público, para o link compartilhado)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const simulation = await db.simulation.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        title: true,
+        input: true,
+        result: true,
+        createdAt: true
+      }
+    })
+
+    if (!simulation) {
+      return NextResponse.json(
+        { message: 'Simulação não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: simulation })
+
+  } catch (error) {
+    console.error('Simulation GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Excluir simulação do usuário
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Não autorizado' },
+        { status: 401 }
+      )
+    }
+
+    const simulation = await db.simulation.findFirst({
+      where: {
+        id: params.id,
+        userId: session.user.id
+      }
+    })
+
+    if (!simulation) {
+      return NextResponse.json(
+        { message: 'Simulação não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    await db.simulation.delete({
+      where: { id: params.id }
+    })
+
+    return NextResponse.json({ message: 'Simulação excluída com sucesso' })
+
+  } catch (error) {
+    console.error('Simulation DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
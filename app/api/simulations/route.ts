@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { runSolarSimulation } from '@/lib/solar'
+import { solarSimulationSchema } from '@/lib/validations'
+
+const saveSimulationSchema = z.object({
+  title: z.string().max(100, 'Título muito longo').optional(),
+  input: solarSimulationSchema
+})
+
+// GET - Simulações salvas do usuário logado
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { message: 'Não autorizado' },
+        { status: 401 }
+      )
+    }
+
+    const simulations = await db.simulation.findMany({
+      where: { userId: session.user.id },
+      select: {
+        id: true,
+        title: true,
+        municipalityName: true,
+        state: true,
+        monthlyBill: true,
+        systemSize: true,
+        systemCost: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ data: simulations })
+
+  } catch (error) {
+    console.error('Simulations GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST - Salvar simulação (visitantes também podem salvar para compartilhar o link)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const body = await request.json()
+    const { title, input } = saveSimulationSchema.parse(body)
+
+    // O resultado é recalculado no servidor para que o link compartilhado não possa ser adulterado
+    const result = runSolarSimulation(input)
+
+    if (!result) {
+      return NextResponse.json(
+        { message: 'Município não encontrado. Informe cidade e UF, ex: Campinas, SP' },
+        { status: 404 }
+      )
+    }
+
+    const simulation = await db.simulation.create({
+      data: {
+        title,
+        municipalityCode: result.municipality.ibgeCode,
+        municipalityName: result.municipality.name,
+        state: result.municipality.state,
+        monthlyBill: input.monthlyBill,
+        systemSize: result.systemSize,
+        systemCost: result.systemCost,
+        input,
+        result: result as unknown as Prisma.InputJsonValue,
+        userId: session?.user?.id
+      }
+    })
+
+    return NextResponse.json(
+      {
+        message: 'Simulação salva com sucesso',
+        data: {
+          id: simulation.id,
+          shareUrl: `${process.env.NEXTAUTH_URL}/simulacao/${simulation.id}`
+        }
+      },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Simulations POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { completeSiteSurvey, SiteSurveyError } from '@/lib/site-surveys'
+
+// POST - Concluir a vistoria; a visita passa para realizada
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const survey = await db.siteSurvey.findFirst({
+      where: { id: params.id, company: { userId: session.user.id } },
+      select: { id: true }
+    })
+
+    if (!survey) {
+      return NextResponse.json(
+        { message: 'Vistoria não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const completed = await completeSiteSurvey(survey.id, session.user.id)
+
+    return NextResponse.json({
+      message: 'Vistoria concluída',
+      data: { id: completed.id, status: completed.status, completedAt: completed.completedAt }
+    })
+
+  } catch (error) {
+    if (error instanceof SiteSurveyError) {
+      return NextResponse.json(
+        { message: error.message, pending: error.pending },
+        { status: 400 }
+      )
+    }
+
+    console.error('Site survey complete error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
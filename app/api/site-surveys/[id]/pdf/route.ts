@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { getSiteSurveyReportData, renderSiteSurveyPdf } from '@/lib/site-surveys'
+
+// GET - Relatório da vistoria em PDF, com as fotos
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true }
+    })
+
+    const data = companyProfile ? await getSiteSurveyReportData(params.id, companyProfile.id) : null
+
+    if (!data) {
+      return NextResponse.json(
+        { message: 'Vistoria não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const pdf = renderSiteSurveyPdf(data)
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="vistoria-${params.id}.pdf"`,
+        'Content-Length': pdf.length.toString()
+      }
+    })
+
+  } catch (error) {
+    console.error('Site survey PDF error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
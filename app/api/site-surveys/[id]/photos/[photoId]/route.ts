@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { deleteSiteSurveyPhoto, getSiteSurveyPhotoUrl } from '@/lib/site-surveys'
+import { z } from 'zod'
+
+export const dynamic = 'force-dynamic'
+
+const photoCaptionSchema = z.object({
+  caption: z.string().trim().max(200).nullable()
+})
+
+type PhotoParams = { params: { id: string; photoId: string } }
+
+// Foto de uma vistoria da empresa logada
+async function findCompanyPhoto(userId: string, { id, photoId }: PhotoParams['params']) {
+  return db.siteSurveyPhoto.findFirst({
+    where: {
+      id: photoId,
+      surveyId: id,
+      survey: { company: { userId } }
+    },
+    select: { id: true, fileKey: true, survey: { select: { status: true } } }
+  })
+}
+
+// GET - Redireciona para um link assinado e temporário da foto
+export async function GET(request: NextRequest, { params }: PhotoParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const photo = await findCompanyPhoto(session.user.id, params)
+
+    if (!photo) {
+      return NextResponse.json(
+        { message: 'Foto não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const response = NextResponse.redirect(await getSiteSurveyPhotoUrl(photo.fileKey))
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
+
+  } catch (error) {
+    console.error('Site survey photo GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Legenda da foto, usada no relatório
+export async function PATCH(request: NextRequest, { params }: PhotoParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { caption } = photoCaptionSchema.parse(body)
+
+    const photo = await findCompanyPhoto(session.user.id, params)
+
+    if (!photo) {
+      return NextResponse.json(
+        { message: 'Foto não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    if (photo.survey.status !== 'DRAFT') {
+      return NextResponse.json(
+        { message: 'Vistoria já concluída' },
+        { status: 409 }
+      )
+    }
+
+    await db.siteSurveyPhoto.update({
+      where: { id: photo.id },
+      data: { caption: caption || null }
+    })
+
+    return NextResponse.json({ message: 'Legenda salva' })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Site survey photo PATCH error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE - Remover uma foto do rascunho
+export async function DELETE(request: NextRequest, { params }: PhotoParams) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const photo = await findCompanyPhoto(session.user.id, params)
+
+    if (!photo) {
+      return NextResponse.json(
+        { message: 'Foto não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    if (photo.survey.status !== 'DRAFT') {
+      return NextResponse.json(
+        { message: 'Vistoria já concluída' },
+        { status: 409 }
+      )
+    }
+
+    await deleteSiteSurveyPhoto(photo)
+
+    return NextResponse.json({ message: 'Foto removida' })
+
+  } catch (error) {
+    console.error('Site survey photo DELETE error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
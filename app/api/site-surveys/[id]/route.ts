@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  getSiteSurveyPendingItems,
+  getSurveyAnswers,
+  getSurveyForm,
+  siteSurveyPhotoSelect,
+  SiteSurveyError,
+  updateSiteSurveyDraft
+} from '@/lib/site-surveys'
+import { siteSurveyUpdateSchema } from '@/lib/validations'
+import { z } from 'zod'
+
+async function findCompanySurvey(userId: string, surveyId: string) {
+  const companyProfile = await db.companyProfile.findUnique({
+    where: { userId },
+    select: { id: true, siteSurveyConfig: true }
+  })
+
+  if (!companyProfile) return { companyProfile: null, survey: null }
+
+  const survey = await db.siteSurvey.findFirst({
+    where: { id: surveyId, companyId: companyProfile.id },
+    include: {
+      photos: { orderBy: { createdAt: 'asc' }, select: siteSurveyPhotoSelect },
+      lead: { select: { id: true, name: true } },
+      completedBy: { select: { name: true } }
+    }
+  })
+
+  return { companyProfile, survey }
+}
+
+// GET - Vistoria com formulário, fotos e o que falta para concluir
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const { companyProfile, survey } = await findCompanySurvey(session.user.id, params.id)
+
+    if (!companyProfile || !survey) {
+      return NextResponse.json(
+        { message: 'Vistoria não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const form = getSurveyForm(survey, companyProfile.siteSurveyConfig)
+
+    return NextResponse.json({
+      data: {
+        ...survey,
+        form,
+        pending: survey.status === 'DRAFT'
+          ? getSiteSurveyPendingItems(form, getSurveyAnswers(survey.answers), survey.photos.length)
+          : []
+      }
+    })
+
+  } catch (error) {
+    console.error('Site survey GET error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Salvar respostas, observações e lead do rascunho
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = siteSurveyUpdateSchema.parse(body)
+
+    const { companyProfile, survey } = await findCompanySurvey(session.user.id, params.id)
+
+    if (!companyProfile || !survey) {
+      return NextResponse.json(
+        { message: 'Vistoria não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    if (survey.status !== 'DRAFT') {
+      return NextResponse.json(
+        { message: 'Vistoria já concluída' },
+        { status: 409 }
+      )
+    }
+
+    const form = getSurveyForm(survey, companyProfile.siteSurveyConfig)
+    const updated = await updateSiteSurveyDraft(survey, form, validatedData)
+
+    return NextResponse.json({
+      message: 'Vistoria salva',
+      data: {
+        answers: updated.answers,
+        notes: updated.notes,
+        leadId: updated.leadId,
+        pending: getSiteSurveyPendingItems(form, getSurveyAnswers(updated.answers), survey.photos.length)
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SiteSurveyError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Site survey PUT error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { getOrCreateSiteSurvey, SiteSurveyError } from '@/lib/site-surveys'
+import { z } from 'zod'
+
+const createSiteSurveySchema = z.object({
+  appointmentId: z.string().min(1)
+})
+
+// POST - Abrir (ou criar) a vistoria de uma visita da empresa
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user || session.user.role !== 'COMPANY') {
+      return NextResponse.json(
+        { message: 'Acesso negado' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { appointmentId } = createSiteSurveySchema.parse(body)
+
+    const companyProfile = await db.companyProfile.findUnique({
+      where: { userId: session.user.id },
+      select: { id: true }
+    })
+
+    if (!companyProfile) {
+      return NextResponse.json(
+        { message: 'Perfil da empresa não encontrado' },
+        { status: 404 }
+      )
+    }
+
+    const appointment = await db.appointment.findFirst({
+      where: { id: appointmentId, companyId: companyProfile.id },
+      select: { id: true, companyId: true, status: true, user: { select: { email: true } } }
+    })
+
+    if (!appointment) {
+      return NextResponse.json(
+        { message: 'Visita não encontrada' },
+        { status: 404 }
+      )
+    }
+
+    const survey = await getOrCreateSiteSurvey(appointment)
+
+    return NextResponse.json({ data: { id: survey.id } })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          message: 'Dados inválidos',
+          errors: error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SiteSurveyError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Site survey POST error:', error)
+    return NextResponse.json(
+      { message: 'Erro interno do servidor' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,10 @@ import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { INSTALLATION_STAGES, notifyInstallationChange } from "@/lib/installations";
+import { isConversationParticipant } from "@/lib/messages";
+import { MAX_SITE_SURVEY_PHOTOS } from "@/lib/site-surveys";
+import { z } from "zod";
 
 const f = createUploadthing();
 
@@ -119,6 +123,161 @@ export const ourFileRouter = {
       return { uploadedBy: metadata.userId, url: file.url };
     }),
 
+  // Message attachments: private files, downloaded through /api/messages/attachments/[id]
+  messageAttachment: f({
+    image: { maxFileSize: "8MB", maxFileCount: 5, acl: "private" },
+    pdf: { maxFileSize: "16MB", maxFileCount: 5, acl: "private" },
+  })
+    .input(z.object({ conversationId: z.string() }))
+    .middleware(async ({ input }) => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user) {
+        throw new Error("Unauthorized");
+      }
+
+      if (!(await isConversationParticipant(input.conversationId, session.user.id))) {
+        throw new Error("Only conversation participants can upload attachments");
+      }
+
+      return { userId: session.user.id, conversationId: input.conversationId };
+    })
+    .onUploadComplete(async ({ metadata, file }) => {
+      // Stays pending until it is sent with a message
+      const attachment = await db.messageAttachment.create({
+        data: {
+          name: file.name,
+          mimeType: file.type,
+          size: file.size,
+          fileKey: file.key,
+          conversationId: metadata.conversationId,
+          uploaderId: metadata.userId,
+        }
+      });
+
+      return { attachmentId: attachment.id };
+    }),
+
+  // Thumbnail generated in the browser for an image attachment
+  messageAttachmentThumbnail: f({ image: { maxFileSize: "512KB", maxFileCount: 1, acl: "private" } })
+    .input(z.object({ attachmentId: z.string() }))
+    .middleware(async ({ input }) => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user) {
+        throw new Error("Unauthorized");
+      }
+
+      const attachment = await db.messageAttachment.findFirst({
+        where: {
+          id: input.attachmentId,
+          uploaderId: session.user.id,
+          thumbnailKey: null,
+          mimeType: { startsWith: "image/" }
+        },
+        select: { id: true }
+      });
+
+      if (!attachment) {
+        throw new Error("Attachment not found");
+      }
+
+      return { attachmentId: attachment.id };
+    })
+    .onUploadComplete(async ({ metadata, file }) => {
+      await db.messageAttachment.update({
+        where: { id: metadata.attachmentId },
+        data: { thumbnailKey: file.key }
+      });
+
+      return { attachmentId: metadata.attachmentId };
+    }),
+
+  // Site survey photos: private, shown through /api/site-surveys/[id]/photos/[photoId]
+  siteSurveyPhoto: f({ image: { maxFileSize: "8MB", maxFileCount: 10, acl: "private" } })
+    .input(z.object({ surveyId: z.string() }))
+    .middleware(async ({ input }) => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user || session.user.role !== "COMPANY") {
+        throw new Error("Only companies can upload site survey photos");
+      }
+
+      const survey = await db.siteSurvey.findFirst({
+        where: {
+          id: input.surveyId,
+          status: "DRAFT",
+          company: { userId: session.user.id }
+        },
+        select: { id: true, _count: { select: { photos: true } } }
+      });
+
+      if (!survey) {
+        throw new Error("Site survey not found or already completed");
+      }
+
+      if (survey._count.photos >= MAX_SITE_SURVEY_PHOTOS) {
+        throw new Error(`Site surveys accept up to ${MAX_SITE_SURVEY_PHOTOS} photos`);
+      }
+
+      return { surveyId: survey.id };
+    })
+    .onUploadComplete(async ({ metadata, file }) => {
+      const photo = await db.siteSurveyPhoto.create({
+        data: {
+          name: file.name,
+          mimeType: file.type,
+          size: file.size,
+          fileKey: file.key,
+          surveyId: metadata.surveyId,
+        }
+      });
+
+      return { photoId: photo.id };
+    }),
+
+  // Documentos das etapas da instalação (ART, parecer de acesso, notas fiscais...)
+  installationDocument: f({
+    image: { maxFileSize: "8MB", maxFileCount: 5, acl: "private" },
+    pdf: { maxFileSize: "16MB", maxFileCount: 5, acl: "private" }
+  })
+    .input(z.object({ projectId: z.string(), stage: z.enum(INSTALLATION_STAGES) }))
+    .middleware(async ({ input }) => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user || session.user.role !== "COMPANY") {
+        throw new Error("Only companies can upload installation documents");
+      }
+
+      const project = await db.installationProject.findFirst({
+        where: { id: input.projectId, company: { userId: session.user.id } },
+        select: { id: true }
+      });
+
+      if (!project) {
+        throw new Error("Installation project not found");
+      }
+
+      return { projectId: project.id, stage: input.stage, userId: session.user.id };
+    })
+    .onUploadComplete(async ({ metadata, file }) => {
+      const document = await db.installationDocument.create({
+        data: {
+          stage: metadata.stage,
+          name: file.name,
+          mimeType: file.type,
+          size: file.size,
+          fileKey: file.key,
+          projectId: metadata.projectId,
+          uploadedById: metadata.userId,
+        }
+      });
+
+      await notifyInstallationChange(metadata.projectId, { kind: "document", stage: document.stage, name: document.name });
+
+      return { documentId: document.id };
+    }),
+
 } satisfies FileRouter;
 
 export type OurFileRouter = typeof ourFileRouter;
\ No newline at end of file
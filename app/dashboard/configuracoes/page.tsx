@@ -3,6 +3,13 @@ import { getServerSession } from 'next-auth'
 import { redirect } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
 import { UserSettings } from '@/components/dashboard/user-settings'
+import { TeamManager } from '@/components/dashboard/team-manager'
+import { LeadSettings } from '@/components/dashboard/lead-settings'
+import { ApiKeysManager } from '@/components/dashboard/api-keys-manager'
+import { WebhooksManager } from '@/components/dashboard/webhooks-manager'
+import { AvailabilitySettings } from '@/components/dashboard/availability-settings'
+import { CalendarFeedSettings } from '@/components/dashboard/calendar-feed-settings'
+import { SiteSurveySettings } from '@/components/dashboard/site-survey-settings'
 
 export const metadata: Metadata = {
   title: 'Configurações - Dashboard',
@@ -26,6 +33,21 @@ export default async function SettingsPage() {
       </div>
 
       <UserSettings />
+
+      <div className="mt-8">
+        <CalendarFeedSettings isCompany={session.user.role === 'COMPANY'} />
+      </div>
+
+      {session.user.role === 'COMPANY' && (
+        <div className="mt-8 space-y-6">
+          <LeadSettings />
+          <TeamManager />
+          <AvailabilitySettings />
+          <SiteSurveySettings />
+          <ApiKeysManager />
+          <WebhooksManager />
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
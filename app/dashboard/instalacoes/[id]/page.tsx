@@ -0,0 +1,76 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { db } from '@/lib/db'
+import { Badge } from '@/components/ui/badge'
+import { InstallationManager } from '@/components/dashboard/installation-manager'
+import { getInstallationTrackerUrl, installationDocumentSelect } from '@/lib/installations'
+import { formatExpectedDate, INSTALLATION_STAGE_LABELS } from '@/lib/installations/stages'
+import { ArrowLeft } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'Instalação - Dashboard',
+  description: 'Etapas, previsões e documentos da instalação'
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+
+interface InstallationPageProps {
+  params: { id: string }
+}
+
+export default async function InstallationPage({ params }: InstallationPageProps) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const project = await db.installationProject.findFirst({
+    where: { id: params.id, company: { userId: session.user.id } },
+    include: {
+      steps: true,
+      documents: { orderBy: { createdAt: 'asc' }, select: installationDocumentSelect },
+      quote: { select: { id: true, title: true, totalValue: true } }
+    }
+  })
+
+  if (!project) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/dashboard/instalacoes" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-3">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Voltar para instalações
+        </Link>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
+            Instalação · {project.customerName}
+          </h1>
+          {project.connectedAt ? (
+            <Badge className="bg-green-100 text-green-800">Conectado em {formatExpectedDate(project.connectedAt)}</Badge>
+          ) : (
+            <Badge className="bg-blue-100 text-blue-800">{INSTALLATION_STAGE_LABELS[project.currentStage]}</Badge>
+          )}
+        </div>
+        <p className="text-gray-600 mt-2">
+          {project.quote.title} · {formatCurrency(Number(project.quote.totalValue))}
+        </p>
+      </div>
+
+      <InstallationManager
+        projectId={project.id}
+        trackerUrl={getInstallationTrackerUrl(project.id, project.accessToken)}
+        initialCustomer={{ customerName: project.customerName, customerEmail: project.customerEmail }}
+        initialSteps={project.steps}
+        initialDocuments={project.documents}
+      />
+    </div>
+  )
+}
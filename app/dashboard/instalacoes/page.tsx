@@ -0,0 +1,158 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { db } from '@/lib/db'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { OpenInstallationButton } from '@/components/dashboard/installation-manager'
+import {
+  formatExpectedDate,
+  getInstallationProgress,
+  INSTALLATION_STAGE_LABELS,
+  isInstallationStepOverdue
+} from '@/lib/installations/stages'
+import { CheckCircle, Clock, Wrench } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'Instalações - Dashboard',
+  description: 'Acompanhamento do pós-venda, do contrato à conexão na rede'
+}
+
+async function getInstallations(userId: string) {
+  const company = await db.companyProfile.findUnique({
+    where: { userId },
+    select: { id: true }
+  })
+
+  if (!company) return null
+
+  const [projects, pendingQuotes] = await Promise.all([
+    db.installationProject.findMany({
+      where: { companyId: company.id },
+      orderBy: [{ connectedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+      take: 100,
+      include: {
+        steps: true,
+        quote: { select: { title: true } }
+      }
+    }),
+    // Orçamentos aceitos antes do acompanhamento existir
+    db.quote.findMany({
+      where: { companyId: company.id, status: 'ACCEPTED', installation: null },
+      orderBy: { updatedAt: 'desc' },
+      take: 20,
+      select: { id: true, title: true, user: { select: { name: true } }, lead: { select: { name: true } } }
+    })
+  ])
+
+  return { projects, pendingQuotes }
+}
+
+export default async function InstallationsPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const data = await getInstallations(session.user.id)
+
+  if (!data) {
+    redirect('/dashboard/perfil/criar')
+  }
+
+  const { projects, pendingQuotes } = data
+  const now = new Date()
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Instalações</h1>
+        <p className="text-gray-600 mt-2">
+          Do contrato assinado à conexão na rede; o cliente acompanha cada etapa e recebe um aviso a cada mudança
+        </p>
+      </div>
+
+      {projects.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-600">
+            <Wrench className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            Nenhuma instalação em andamento. O acompanhamento começa quando um orçamento é aceito.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {projects.map(project => {
+            const current = project.steps.find(step => step.stage === project.currentStage)
+            const overdue = project.steps.some(step => isInstallationStepOverdue(step, now))
+
+            return (
+              <Card key={project.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="space-y-2 text-sm flex-1">
+                    <div>
+                      <div className="font-medium text-gray-900">{project.customerName}</div>
+                      <div className="text-gray-600">{project.quote.title}</div>
+                    </div>
+                    <div className="flex items-center gap-3 max-w-md">
+                      <Progress value={getInstallationProgress(project.steps)} className="h-2" />
+                      <span className="text-gray-600 whitespace-nowrap">{getInstallationProgress(project.steps)}%</span>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3">
+                    {project.connectedAt ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Conectado em {formatExpectedDate(project.connectedAt)}
+                      </Badge>
+                    ) : (
+                      <>
+                        <Badge className="bg-blue-100 text-blue-800">
+                          {INSTALLATION_STAGE_LABELS[project.currentStage]}
+                        </Badge>
+                        {current?.expectedDate && (
+                          <span className="flex items-center text-sm text-gray-600">
+                            <Clock className="w-4 h-4 mr-1" />
+                            Previsão {formatExpectedDate(current.expectedDate)}
+                          </span>
+                        )}
+                        {overdue && <Badge className="bg-red-100 text-red-800">Atrasada</Badge>}
+                      </>
+                    )}
+                    <Button asChild size="sm" variant="outline">
+                      <Link href={`/dashboard/instalacoes/${project.id}`}>Gerenciar</Link>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {pendingQuotes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Orçamentos aceitos sem acompanhamento</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {pendingQuotes.map(quote => (
+              <div key={quote.id} className="flex items-center justify-between gap-3">
+                <div>
+                  <div className="font-medium text-gray-900">{quote.lead?.name ?? quote.user?.name ?? 'Cliente'}</div>
+                  <div className="text-gray-600">{quote.title}</div>
+                </div>
+                <OpenInstallationButton quoteId={quote.id} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
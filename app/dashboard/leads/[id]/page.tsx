@@ -0,0 +1,164 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { db } from '@/lib/db'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { LeadActivityPanel } from '@/components/dashboard/lead-activity-panel'
+import { StartConversationButton } from '@/components/messages/start-conversation-button'
+import { LeadElectricityBillCard } from '@/components/dashboard/lead-electricity-bill-card'
+import { LeadSiteSurveyCard } from '@/components/dashboard/lead-site-survey-card'
+import { LEAD_STAGE_LABELS, type LeadStage } from '@/lib/leads/sla'
+import { calculateLeadScore, parseLeadScoringConfig } from '@/lib/leads/scoring'
+import { getLeadSiteSurveys } from '@/lib/site-surveys'
+import { electricityBillSchema } from '@/lib/validations'
+import { ArrowLeft, FileText, Mail, MapPin, Phone } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'Lead - Dashboard',
+  description: 'Histórico de contatos e tarefas do lead'
+}
+
+interface LeadPageProps {
+  params: { id: string }
+}
+
+async function getLeadData(userId: string, leadId: string) {
+  const company = await db.companyProfile.findUnique({
+    where: { userId }
+  })
+
+  if (!company) return null
+
+  const [lead, members, surveys] = await Promise.all([
+    db.lead.findFirst({
+      where: { id: leadId, companyId: company.id },
+      include: {
+        quotes: { select: { status: true, sentAt: true, viewedAt: true } },
+        apiKey: { select: { name: true } },
+        _count: { select: { quotes: true } }
+      }
+    }),
+    db.companyMember.findMany({
+      where: { companyId: company.id },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true }
+    }),
+    getLeadSiteSurveys(leadId, company)
+  ])
+
+  const score = lead
+    ? calculateLeadScore(lead, company, parseLeadScoringConfig(company.leadScoringConfig))
+    : null
+
+  return { lead, members, score, surveys }
+}
+
+export default async function LeadPage({ params }: LeadPageProps) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const data = await getLeadData(session.user.id, params.id)
+
+  if (!data) {
+    redirect('/dashboard/perfil/criar')
+  }
+
+  const { lead, members, score, surveys } = data
+
+  if (!lead || !score) {
+    notFound()
+  }
+
+  const bill = electricityBillSchema.safeParse(lead.electricityBill)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/dashboard/leads" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-3">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Voltar para leads
+        </Link>
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{lead.name}</h1>
+            <p className="text-gray-600 mt-2">
+              {LEAD_STAGE_LABELS[lead.status as LeadStage]} · recebido em {lead.createdAt.toLocaleDateString('pt-BR')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <StartConversationButton context={{ leadId: lead.id }} label="Conversar com o cliente" />
+            <Button asChild>
+              <Link href={`/dashboard/orcamentos/novo?leadId=${lead.id}`}>
+                <FileText className="w-4 h-4 mr-2" />
+                Novo Orçamento
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 grid md:grid-cols-2 gap-4 text-sm text-gray-600">
+          <div className="space-y-2">
+            <div className="flex items-center">
+              <Mail className="w-4 h-4 mr-2" />
+              {lead.email}
+            </div>
+            <div className="flex items-center">
+              <Phone className="w-4 h-4 mr-2" />
+              {lead.phone}
+            </div>
+            <div className="flex items-center">
+              <MapPin className="w-4 h-4 mr-2" />
+              {lead.location}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div><strong>Tipo:</strong> {lead.projectType}</div>
+            {lead.budget && <div><strong>Orçamento:</strong> {lead.budget}</div>}
+            {lead.source && (
+              <div>
+                <strong>Origem:</strong> {lead.source}
+                {lead.apiKey && ` · chave ${lead.apiKey.name}`}
+              </div>
+            )}
+            {lead.sourceUrl && (
+              <div className="truncate">
+                <strong>Página:</strong>{' '}
+                <a href={lead.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                  {lead.sourceUrl}
+                </a>
+              </div>
+            )}
+            <div><strong>Orçamentos criados:</strong> {lead._count.quotes}</div>
+            <div><strong>Pontuação:</strong> {score.score} · {score.label}</div>
+          </div>
+          <div className="md:col-span-2 bg-gray-50 p-3 rounded-lg text-gray-700">
+            <strong>Mensagem:</strong> {lead.message}
+          </div>
+          <div className="md:col-span-2 grid grid-cols-2 md:grid-cols-5 gap-3">
+            {score.factors.map(factor => (
+              <div key={factor.factor} className="border rounded-lg p-3">
+                <div className="text-xs text-gray-500">{factor.label}</div>
+                <div className="font-semibold text-gray-900">{factor.points} pts</div>
+                <div className="text-xs text-gray-500">{factor.detail}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {bill.success && <LeadElectricityBillCard bill={bill.data} />}
+
+      <LeadSiteSurveyCard surveys={surveys} />
+
+      <LeadActivityPanel leadId={lead.id} members={members} />
+    </div>
+  )
+}
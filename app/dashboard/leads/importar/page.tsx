@@ -0,0 +1,39 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { LeadImportManager } from '@/components/dashboard/lead-import-manager'
+import { LeadExportCard } from '@/components/dashboard/lead-export-card'
+import { ArrowLeft } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'Importar e Exportar Leads - Dashboard',
+  description: 'Importe leads de planilhas e exporte leads e orçamentos'
+}
+
+export default async function LeadImportExportPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/dashboard/leads" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-3">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Voltar para leads
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">Importar e Exportar</h1>
+        <p className="text-gray-600 mt-2">
+          Traga contatos de feiras e planilhas para o funil e exporte leads e orçamentos em CSV ou Excel
+        </p>
+      </div>
+
+      <LeadExportCard />
+      <LeadImportManager />
+    </div>
+  )
+}
@@ -2,30 +2,65 @@ import { Metadata } from 'next'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { redirect } from 'next/navigation'
+import Link from 'next/link'
 import { LeadsList } from '@/components/dashboard/leads-list'
+import { LeadsKanban } from '@/components/dashboard/leads-kanban'
+import { Button } from '@/components/ui/button'
+import { Columns, FileSpreadsheet, List } from 'lucide-react'
 
 export const metadata: Metadata = {
   title: 'Leads - Dashboard',
   description: 'Gerencie seus leads e solicitações de orçamento'
 }
 
-export default async function LeadsPage() {
+interface LeadsPageProps {
+  searchParams: { view?: string }
+}
+
+export default async function LeadsPage({ searchParams }: LeadsPageProps) {
   const session = await getServerSession(authOptions)
 
   if (!session?.user || session.user.role !== 'COMPANY') {
     redirect('/login')
   }
 
+  const isKanban = searchParams.view === 'kanban'
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Leads</h1>
-        <p className="text-gray-600 mt-2">
-          Gerencie todas as solicitações de orçamento recebidas
-        </p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Leads</h1>
+          <p className="text-gray-600 mt-2">
+            {isKanban
+              ? 'Arraste os cards entre as etapas; cards em vermelho passaram do prazo'
+              : 'Gerencie todas as solicitações de orçamento recebidas'}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/dashboard/leads/importar">
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Importar / Exportar
+            </Link>
+          </Button>
+          <Button variant={isKanban ? 'outline' : 'default'} size="sm" asChild>
+            <Link href="/dashboard/leads">
+              <List className="w-4 h-4 mr-2" />
+              Lista
+            </Link>
+          </Button>
+          <Button variant={isKanban ? 'default' : 'outline'} size="sm" asChild>
+            <Link href="/dashboard/leads?view=kanban">
+              <Columns className="w-4 h-4 mr-2" />
+              Funil
+            </Link>
+          </Button>
+        </div>
       </div>
 
-      <LeadsList />
+      {isKanban ? <LeadsKanban /> : <LeadsList />}
     </div>
   )
 }
\ No newline at end of file
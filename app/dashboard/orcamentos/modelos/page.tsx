@@ -0,0 +1,66 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { db } from '@/lib/db'
+import { QuoteTemplatesManager } from '@/components/dashboard/quote-templates-manager'
+
+export const metadata: Metadata = {
+  title: 'Modelos de Orçamento - Dashboard',
+  description: 'Modelos reutilizáveis com itens do seu catálogo'
+}
+
+export default async function QuoteTemplatesPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const company = await db.companyProfile.findUnique({
+    where: { userId: session.user.id }
+  })
+
+  if (!company) {
+    redirect('/dashboard/perfil/criar')
+  }
+
+  const [products, templates] = await Promise.all([
+    db.product.findMany({
+      where: { companyId: company.id },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true, price: true, power: true, warranty: true, inStock: true }
+    }),
+    db.quoteTemplate.findMany({
+      where: { companyId: company.id },
+      orderBy: { name: 'asc' },
+      include: {
+        items: {
+          orderBy: { position: 'asc' }
+        }
+      }
+    })
+  ])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Modelos de Orçamento</h1>
+        <p className="text-gray-600 mt-2">
+          Monte uma vez os itens que se repetem e crie orçamentos em poucos cliques
+        </p>
+      </div>
+
+      <QuoteTemplatesManager
+        products={products.map(product => ({ ...product, price: Number(product.price) }))}
+        templates={templates.map(template => ({
+          ...template,
+          items: template.items.map(item => ({
+            ...item,
+            unitPrice: item.unitPrice === null ? null : Number(item.unitPrice)
+          }))
+        }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import { db } from '@/lib/db'
+import { QuoteForm } from '@/components/dashboard/quote-form'
+import { LeadSiteSurveyCard } from '@/components/dashboard/lead-site-survey-card'
+import { getLeadBillReference } from '@/lib/quotes'
+import { getLeadSiteSurveys } from '@/lib/site-surveys'
+
+export const metadata: Metadata = {
+  title: 'Novo Orçamento - Dashboard',
+  description: 'Crie um orçamento a partir do catálogo ou de um modelo'
+}
+
+interface NewQuotePageProps {
+  searchParams: { leadId?: string }
+}
+
+async function getQuoteFormData(userId: string, leadId?: string) {
+  const company = await db.companyProfile.findUnique({
+    where: { userId }
+  })
+
+  if (!company) return null
+
+  const [products, templates, lead, surveys] = await Promise.all([
+    db.product.findMany({
+      where: { companyId: company.id },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true, price: true, power: true, warranty: true, inStock: true }
+    }),
+    db.quoteTemplate.findMany({
+      where: { companyId: company.id },
+      orderBy: { name: 'asc' },
+      include: {
+        items: {
+          orderBy: { position: 'asc' }
+        }
+      }
+    }),
+    leadId
+      ? db.lead.findFirst({
+          where: { id: leadId, companyId: company.id },
+          select: { id: true, name: true, simulation: true }
+        })
+      : null,
+    // Vistoria do lead ao lado do formulário, para dimensionar o sistema
+    leadId ? getLeadSiteSurveys(leadId, company) : []
+  ])
+
+  return { products, templates, lead, surveys: lead ? surveys : [] }
+}
+
+export default async function NewQuotePage({ searchParams }: NewQuotePageProps) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const data = await getQuoteFormData(session.user.id, searchParams.leadId)
+
+  if (!data) {
+    redirect('/dashboard/perfil/criar')
+  }
+
+  // Decimals do Prisma não podem ser passados para componentes client
+  const products = data.products.map(product => ({ ...product, price: Number(product.price) }))
+  const templates = data.templates.map(template => ({
+    ...template,
+    items: template.items.map(item => ({
+      ...item,
+      unitPrice: item.unitPrice === null ? null : Number(item.unitPrice)
+    }))
+  }))
+  const { currentMonthlyBill } = getLeadBillReference(data.lead?.simulation)
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Novo Orçamento</h1>
+        <p className="text-gray-600 mt-2">
+          Use um modelo ou escolha itens do seu catálogo; preços e totais são calculados automaticamente
+        </p>
+      </div>
+
+      <LeadSiteSurveyCard surveys={data.surveys} />
+
+      <QuoteForm
+        leadId={data.lead?.id}
+        leadName={data.lead?.name}
+        products={products}
+        templates={templates}
+        currentMonthlyBill={currentMonthlyBill ?? undefined}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { db } from '@/lib/db'
+import { Card, CardContent } from '@/components/ui/card'
+import { SiteSurveyForm } from '@/components/dashboard/site-survey-form'
+import {
+  getOrCreateSiteSurvey,
+  getSurveyAnswers,
+  getSurveyForm,
+  siteSurveyPhotoSelect
+} from '@/lib/site-surveys'
+import { ArrowLeft, Calendar, MapPin, User } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'Vistoria - Dashboard',
+  description: 'Checklist técnico da visita'
+}
+
+interface SiteSurveyPageProps {
+  params: { appointmentId: string }
+}
+
+async function getSurveyData(userId: string, appointmentId: string) {
+  const company = await db.companyProfile.findUnique({
+    where: { userId },
+    select: { id: true, siteSurveyConfig: true }
+  })
+
+  if (!company) return null
+
+  const appointment = await db.appointment.findFirst({
+    where: { id: appointmentId, companyId: company.id },
+    include: {
+      user: { select: { name: true, email: true } },
+      technician: { select: { name: true } },
+      siteSurvey: { select: { id: true } }
+    }
+  })
+
+  // Visita cancelada sem vistoria começada não abre o formulário
+  if (!appointment || (appointment.status === 'CANCELLED' && !appointment.siteSurvey)) {
+    return { company, appointment: null, survey: null, leads: [] }
+  }
+
+  const { id } = await getOrCreateSiteSurvey(appointment)
+
+  const [survey, leads] = await Promise.all([
+    db.siteSurvey.findUniqueOrThrow({
+      where: { id },
+      include: {
+        photos: { orderBy: { createdAt: 'asc' }, select: siteSurveyPhotoSelect },
+        completedBy: { select: { name: true } }
+      }
+    }),
+    db.lead.findMany({
+      where: { companyId: company.id },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      select: { id: true, name: true, email: true }
+    })
+  ])
+
+  return { company, appointment, survey, leads }
+}
+
+export default async function SiteSurveyPage({ params }: SiteSurveyPageProps) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const data = await getSurveyData(session.user.id, params.appointmentId)
+
+  if (!data) {
+    redirect('/dashboard/perfil/criar')
+  }
+
+  const { company, appointment, survey, leads } = data
+
+  if (!appointment || !survey) {
+    notFound()
+  }
+
+  const form = getSurveyForm(survey, company.siteSurveyConfig)
+  const answers = getSurveyAnswers(survey.answers)
+
+  // O lead ligado pode ser mais antigo que os 100 mais recentes
+  if (survey.leadId && !leads.some(lead => lead.id === survey.leadId)) {
+    const linked = await db.lead.findUnique({
+      where: { id: survey.leadId },
+      select: { id: true, name: true, email: true }
+    })
+    if (linked) leads.unshift(linked)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/dashboard/vistorias" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-3">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Voltar para vistorias
+        </Link>
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
+          Vistoria · {appointment.user.name || appointment.user.email}
+        </h1>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-2 text-sm text-gray-600">
+          <div className="flex items-center">
+            <Calendar className="w-4 h-4 mr-2 shrink-0" />
+            {appointment.date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', dateStyle: 'short', timeStyle: 'short' })}
+          </div>
+          <div className="flex items-center">
+            <MapPin className="w-4 h-4 mr-2 shrink-0" />
+            {appointment.location}
+          </div>
+          {appointment.technician && (
+            <div className="flex items-center">
+              <User className="w-4 h-4 mr-2 shrink-0" />
+              {appointment.technician.name}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SiteSurveyForm
+        surveyId={survey.id}
+        status={survey.status}
+        form={form}
+        initialAnswers={answers}
+        initialNotes={survey.notes ?? ''}
+        initialLeadId={survey.leadId}
+        initialPhotos={survey.photos}
+        completedAt={survey.completedAt}
+        completedByName={survey.completedBy?.name ?? null}
+        leads={leads}
+      />
+    </div>
+  )
+}
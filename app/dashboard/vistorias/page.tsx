@@ -0,0 +1,127 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { db } from '@/lib/db'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Calendar, ClipboardCheck, MapPin, User } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'Vistorias - Dashboard',
+  description: 'Checklist técnico das visitas e relatórios de vistoria'
+}
+
+// Visitas dos últimos 30 dias e as próximas
+const LOOKBACK_DAYS = 30
+
+async function getVisits(userId: string) {
+  const company = await db.companyProfile.findUnique({
+    where: { userId },
+    select: { id: true }
+  })
+
+  if (!company) return null
+
+  return db.appointment.findMany({
+    where: {
+      companyId: company.id,
+      date: { gte: new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000) },
+      OR: [
+        { status: { not: 'CANCELLED' } },
+        { siteSurvey: { isNot: null } }
+      ]
+    },
+    orderBy: { date: 'asc' },
+    take: 100,
+    include: {
+      user: { select: { name: true, email: true } },
+      technician: { select: { name: true } },
+      siteSurvey: {
+        select: { id: true, status: true, _count: { select: { photos: true } } }
+      }
+    }
+  })
+}
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', dateStyle: 'short', timeStyle: 'short' })
+
+export default async function SiteSurveysPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user || session.user.role !== 'COMPANY') {
+    redirect('/login')
+  }
+
+  const visits = await getVisits(session.user.id)
+
+  if (!visits) {
+    redirect('/dashboard/perfil/criar')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Vistorias</h1>
+        <p className="text-gray-600 mt-2">
+          Preencha o checklist técnico no celular durante a visita; o relatório em PDF fica no lead
+        </p>
+      </div>
+
+      {visits.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-600">
+            <ClipboardCheck className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+            Nenhuma visita técnica nos últimos {LOOKBACK_DAYS} dias nem agendada.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {visits.map(visit => (
+            <Card key={visit.id}>
+              <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="space-y-1 text-sm">
+                  <div className="font-medium text-gray-900">{visit.user.name || visit.user.email}</div>
+                  <div className="flex items-center text-gray-600">
+                    <Calendar className="w-4 h-4 mr-2" />
+                    {formatDateTime(visit.date)}
+                  </div>
+                  <div className="flex items-center text-gray-600">
+                    <MapPin className="w-4 h-4 mr-2" />
+                    {visit.location}
+                  </div>
+                  {visit.technician && (
+                    <div className="flex items-center text-gray-600">
+                      <User className="w-4 h-4 mr-2" />
+                      {visit.technician.name}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-3">
+                  {visit.siteSurvey ? (
+                    <Badge className={visit.siteSurvey.status === 'COMPLETED' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                      {visit.siteSurvey.status === 'COMPLETED'
+                        ? 'Concluída'
+                        : `Em andamento · ${visit.siteSurvey._count.photos} foto${visit.siteSurvey._count.photos === 1 ? '' : 's'}`}
+                    </Badge>
+                  ) : (
+                    <Badge className="bg-gray-100 text-gray-800">Não iniciada</Badge>
+                  )}
+                  <Button asChild size="sm" variant={visit.siteSurvey?.status === 'COMPLETED' ? 'outline' : 'default'}>
+                    <Link href={`/dashboard/vistorias/${visit.id}`}>
+                      {!visit.siteSurvey ? 'Iniciar vistoria' : visit.siteSurvey.status === 'COMPLETED' ? 'Ver vistoria' : 'Continuar'}
+                    </Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { db } from '@/lib/db'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  formatExpectedDate,
+  getInstallationProgress,
+  INSTALLATION_STAGE_DESCRIPTIONS,
+  INSTALLATION_STAGE_LABELS,
+  INSTALLATION_STAGES,
+  isInstallationStepOverdue
+} from '@/lib/installations/stages'
+import {
+  Building2,
+  CheckCircle,
+  Circle,
+  CircleDot,
+  Clock,
+  FileText,
+  Mail,
+  Phone
+} from 'lucide-react'
+
+// O link do email é a única forma de acesso; não indexar
+export const metadata: Metadata = {
+  title: 'Acompanhe sua instalação - SolarConnect',
+  robots: { index: false, follow: false }
+}
+
+interface InstallationTrackerPageProps {
+  params: { id: string }
+  searchParams: { token?: string }
+}
+
+export default async function InstallationTrackerPage({ params, searchParams }: InstallationTrackerPageProps) {
+  const project = await db.installationProject.findUnique({
+    where: { id: params.id },
+    include: {
+      steps: true,
+      documents: {
+        where: { visibleToCustomer: true },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, stage: true, name: true }
+      },
+      quote: { select: { title: true } },
+      company: {
+        select: {
+          name: true,
+          logo: true,
+          phone: true,
+          email: true
+        }
+      }
+    }
+  })
+
+  const token = searchParams.token
+
+  if (!project || !token || !isValidAccessToken(project.accessToken, token)) {
+    notFound()
+  }
+
+  const now = new Date()
+  const progress = getInstallationProgress(project.steps)
+  const steps = INSTALLATION_STAGES
+    .map(stage => project.steps.find(step => step.stage === stage))
+    .filter((step): step is NonNullable<typeof step> => !!step)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              {project.company.logo && (
+                <img
+                  src={project.company.logo}
+                  alt={project.company.name}
+                  className="w-16 h-16 object-contain bg-gray-100 rounded-lg p-2"
+                />
+              )}
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{project.quote.title}</h1>
+                <p className="text-gray-600">
+                  Instalação de <strong>{project.company.name}</strong> para {project.customerName}
+                </p>
+              </div>
+            </div>
+
+            {project.connectedAt ? (
+              <Badge className="bg-green-100 text-green-800">Conectado</Badge>
+            ) : (
+              <Badge className="bg-blue-100 text-blue-800">{INSTALLATION_STAGE_LABELS[project.currentStage]}</Badge>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Andamento do projeto</CardTitle>
+                <div className="flex items-center gap-3 pt-2">
+                  <Progress value={progress} className="h-2" />
+                  <span className="text-sm text-gray-600 whitespace-nowrap">{progress}%</span>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-6">
+                  {steps.map(step => {
+                    const isCurrent = !project.connectedAt && step.stage === project.currentStage
+                    const documents = project.documents.filter(document => document.stage === step.stage)
+
+                    return (
+                      <li key={step.stage} className="flex gap-3">
+                        {step.completedAt ? (
+                          <CheckCircle className="w-6 h-6 text-green-600 shrink-0" />
+                        ) : isCurrent ? (
+                          <CircleDot className="w-6 h-6 text-blue-600 shrink-0" />
+                        ) : (
+                          <Circle className="w-6 h-6 text-gray-300 shrink-0" />
+                        )}
+                        <div className="space-y-1 text-sm">
+                          <div className={`font-medium ${step.completedAt || isCurrent ? 'text-gray-900' : 'text-gray-500'}`}>
+                            {INSTALLATION_STAGE_LABELS[step.stage]}
+                          </div>
+                          <p className="text-gray-600">{INSTALLATION_STAGE_DESCRIPTIONS[step.stage]}</p>
+                          {step.completedAt ? (
+                            <p className="text-green-700">Concluída em {formatExpectedDate(step.completedAt)}</p>
+                          ) : step.expectedDate && (
+                            <p className={`flex items-center ${isInstallationStepOverdue(step, now) ? 'text-orange-700' : 'text-gray-700'}`}>
+                              <Clock className="w-4 h-4 mr-1" />
+                              Previsão: {formatExpectedDate(step.expectedDate)}
+                            </p>
+                          )}
+                          {step.notes && (
+                            <p className="bg-gray-50 p-2 rounded text-gray-700 whitespace-pre-line">{step.notes}</p>
+                          )}
+                          {documents.map(document => (
+                            <a
+                              key={document.id}
+                              href={`/api/installations/${project.id}/documents/${document.id}?token=${encodeURIComponent(token)}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center text-blue-600 hover:underline"
+                            >
+                              <FileText className="w-4 h-4 mr-1 shrink-0" />
+                              {document.name}
+                            </a>
+                          ))}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ol>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {project.connectedAt && (
+              <Card>
+                <CardContent className="p-4 flex items-center gap-2 text-green-700">
+                  <CheckCircle className="w-5 h-5" />
+                  Sistema conectado à rede em {formatExpectedDate(project.connectedAt)}
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="w-5 h-5" />
+                  {project.company.name}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {project.company.phone && (
+                  <Button variant="outline" className="w-full justify-start" asChild>
+                    <a href={`tel:${project.company.phone}`}>
+                      <Phone className="w-4 h-4 mr-2" />
+                      Ligar para a empresa
+                    </a>
+                  </Button>
+                )}
+                {project.company.email && (
+                  <Button variant="outline" className="w-full justify-start" asChild>
+                    <a href={`mailto:${project.company.email}`}>
+                      <Mail className="w-4 h-4 mr-2" />
+                      Enviar email
+                    </a>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
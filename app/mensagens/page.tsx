@@ -1,6 +1,10 @@
 import { MessageCenter } from '@/components/messages/message-center'
 
-export default function MessagesPage() {
+interface MessagesPageProps {
+  searchParams: { conversation?: string }
+}
+
+export default function MessagesPage({ searchParams }: MessagesPageProps) {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
@@ -10,7 +14,7 @@ export default function MessagesPage() {
         </p>
       </div>
       
-      <MessageCenter />
+      <MessageCenter initialConversationId={searchParams.conversation} />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Metadata } from 'next'
+import { MySimulations } from '@/components/calculator/my-simulations'
+
+export const metadata: Metadata = {
+  title: 'Minhas Simulações | SolarConnect',
+  description: 'Acesse, compartilhe e baixe as simulações solares que você salvou',
+}
+
+export default function MySimulationsPage() {
+  return <MySimulations />
+}
@@ -4,6 +4,16 @@ import { db } from '@/lib/db'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { QuoteResponseActions } from '@/components/quotes/quote-response-actions'
+import { StartConversationButton } from '@/components/messages/start-conversation-button'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import {
+  createQuoteSnapshot,
+  diffQuoteSnapshots,
+  getQuotePaymentSummary,
+  type QuoteSnapshot
+} from '@/lib/quotes'
+import { dispatchWebhookEvent, serializeWebhookQuote } from '@/lib/webhooks'
 import { 
   FileText, 
   Calendar, 
@@ -12,11 +22,19 @@ import {
   Mail, 
   CheckCircle,
   AlertCircle,
-  Building2
+  Building2,
+  Download,
+  XCircle,
+  History,
+  Banknote,
+  CreditCard,
+  Landmark,
+  Zap
 } from 'lucide-react'
 
 interface QuotePageProps {
   params: { id: string }
+  searchParams: { token?: string }
 }
 
 export async function generateMetadata({ params }: QuotePageProps): Promise<Metadata> {
@@ -29,9 +47,11 @@ export async function generateMetadata({ params }: QuotePageProps): Promise<Meta
     }
   }
 
+  const content = getDisplayedSnapshot(quote)
+
   return {
-    title: `${quote.title} - ${quote.company.name}`,
-    description: `Orçamento de energia solar no valor de ${formatCurrency(Number(quote.totalValue))}`,
+    title: `${content.title} - ${quote.company.name}`,
+    description: `Orçamento de energia solar no valor de ${formatCurrency(content.totalValue)}`,
   }
 }
 
@@ -40,6 +60,17 @@ async function getQuote(id: string) {
     where: { id },
     include: {
       items: true,
+      acceptance: true,
+      revisions: {
+        orderBy: { version: 'asc' }
+      },
+      lead: {
+        select: {
+          name: true,
+          email: true,
+          simulation: true
+        }
+      },
       company: {
         select: {
           name: true,
@@ -59,6 +90,14 @@ async function getQuote(id: string) {
   return quote
 }
 
+// O cliente vê a versão assinada ou a última enviada, nunca edições ainda em rascunho
+function getDisplayedSnapshot(quote: NonNullable<Awaited<ReturnType<typeof getQuote>>>): QuoteSnapshot {
+  const latestRevision = quote.revisions[quote.revisions.length - 1]
+  const sent = quote.acceptance?.snapshot ?? latestRevision?.snapshot
+
+  return sent ? sent as unknown as QuoteSnapshot : createQuoteSnapshot(quote)
+}
+
 function formatCurrency(value: number) {
   return new Intl.NumberFormat('pt-BR', {
     style: 'currency',
@@ -74,7 +113,18 @@ function formatDate(dateString: string) {
   })
 }
 
-export default async function QuotePage({ params }: QuotePageProps) {
+function formatDateTime(date: Date) {
+  return date.toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export default async function QuotePage({ params, searchParams }: QuotePageProps) {
   const quote = await getQuote(params.id)
 
   if (!quote) {
@@ -82,6 +132,9 @@ export default async function QuotePage({ params }: QuotePageProps) {
   }
 
   const isExpired = new Date(quote.validUntil) < new Date()
+  const token = searchParams.token
+  const hasValidToken = !!token && isValidAccessToken(quote.acceptanceToken, token)
+  const pdfUrl = `/api/quotes/${quote.id}/pdf${hasValidToken ? `?token=${encodeURIComponent(token)}` : ''}`
   const statusColors = {
     DRAFT: 'bg-gray-100 text-gray-800',
     SENT: 'bg-blue-100 text-blue-800',
@@ -100,11 +153,45 @@ export default async function QuotePage({ params }: QuotePageProps) {
     EXPIRED: 'Expirado',
   }
 
+  const latestRevision = quote.revisions[quote.revisions.length - 1]
+  const content = getDisplayedSnapshot(quote)
+  // Versões gravadas antes das condições de pagamento não as trazem
+  const discountPercent = content.discountPercent === undefined ? quote.discountPercent : content.discountPercent
+  const paymentConditions = content.paymentConditions === undefined ? quote.paymentConditions : content.paymentConditions
+  const subtotal = content.items.reduce((sum, item) => sum + item.totalPrice, 0)
+
+  const payment = getQuotePaymentSummary({
+    paymentConditions,
+    totalValue: content.totalValue,
+    items: content.items,
+    lead: quote.lead
+  })
+  const lastCardOption = payment?.cardInstallments[payment.cardInstallments.length - 1]
+  const interestFreeCount = payment?.cardInstallments.filter(option => option.interestFree).length ?? 0
+
+  // Cada versão anterior comparada com a seguinte, da mais recente para a mais antiga
+  const revisionHistory = quote.revisions.slice(1).map((revision, index) => {
+    const previous = quote.revisions[index]
+    return {
+      version: revision.version,
+      previousVersion: previous.version,
+      createdAt: revision.createdAt,
+      diff: diffQuoteSnapshots(
+        previous.snapshot as unknown as QuoteSnapshot,
+        revision.snapshot as unknown as QuoteSnapshot
+      )
+    }
+  }).reverse()
+
   // Marcar como visualizado se foi sent
   if (quote.status === 'SENT') {
-    await db.quote.update({
+    const viewedQuote = await db.quote.update({
       where: { id: params.id },
-      data: { status: 'VIEWED' }
+      data: { status: 'VIEWED', viewedAt: quote.viewedAt ?? new Date() }
+    })
+
+    await dispatchWebhookEvent(viewedQuote.companyId, 'quote.viewed', {
+      quote: serializeWebhookQuote(viewedQuote)
     })
   }
 
@@ -123,7 +210,7 @@ export default async function QuotePage({ params }: QuotePageProps) {
                 />
               )}
               <div>
-                <h1 className="text-2xl font-bold text-gray-900">{quote.title}</h1>
+                <h1 className="text-2xl font-bold text-gray-900">{content.title}</h1>
                 <p className="text-gray-600">
                   Orçamento de <strong>{quote.company.name}</strong>
                 </p>
@@ -134,6 +221,9 @@ export default async function QuotePage({ params }: QuotePageProps) {
               <Badge className={`mb-2 ${statusColors[quote.status as keyof typeof statusColors]}`}>
                 {statusLabels[quote.status as keyof typeof statusLabels]}
               </Badge>
+              {latestRevision && (
+                <div className="text-sm text-gray-500 mb-1">Versão {latestRevision.version}</div>
+              )}
               {isExpired && (
                 <div className="flex items-center gap-1 text-red-600">
                   <AlertCircle className="w-4 h-4" />
@@ -162,22 +252,22 @@ export default async function QuotePage({ params }: QuotePageProps) {
                   <div className="flex items-center gap-2">
                     <Calendar className="w-4 h-4 text-gray-500" />
                     <span className="text-sm">
-                      <strong>Válido até:</strong> {formatDate(quote.validUntil.toISOString())}
+                      <strong>Válido até:</strong> {formatDate(content.validUntil)}
                     </span>
                   </div>
                   
                   <div className="flex items-center gap-2">
                     <DollarSign className="w-4 h-4 text-gray-500" />
                     <span className="text-sm">
-                      <strong>Valor Total:</strong> {formatCurrency(Number(quote.totalValue))}
+                      <strong>Valor Total:</strong> {formatCurrency(content.totalValue)}
                     </span>
                   </div>
                 </div>
 
-                {quote.description && (
+                {content.description && (
                   <div className="mb-6">
                     <h3 className="font-semibold mb-2">Descrição</h3>
-                    <p className="text-gray-700 whitespace-pre-line">{quote.description}</p>
+                    <p className="text-gray-700 whitespace-pre-line">{content.description}</p>
                   </div>
                 )}
               </CardContent>
@@ -200,29 +290,53 @@ export default async function QuotePage({ params }: QuotePageProps) {
                       </tr>
                     </thead>
                     <tbody>
-                      {quote.items.map((item, index) => (
-                        <tr key={item.id} className={index % 2 === 0 ? 'bg-gray-50' : ''}>
+                      {content.items.map((item, index) => (
+                        <tr key={index} className={index % 2 === 0 ? 'bg-gray-50' : ''}>
                           <td className="py-3 px-2">
                             <div>
                               <div className="font-medium">{item.description}</div>
                               {item.category && (
                                 <div className="text-sm text-gray-500">{item.category}</div>
                               )}
+                              {(item.power || item.warranty) && (
+                                <div className="text-xs text-gray-500">
+                                  {[
+                                    item.power ? `${item.power}W` : null,
+                                    item.warranty ? `Garantia de ${item.warranty} anos` : null
+                                  ].filter(Boolean).join(' · ')}
+                                </div>
+                              )}
                             </div>
                           </td>
                           <td className="text-center py-3 px-2">{item.quantity}</td>
-                          <td className="text-right py-3 px-2">{formatCurrency(Number(item.unitPrice))}</td>
+                          <td className="text-right py-3 px-2">{formatCurrency(item.unitPrice)}</td>
                           <td className="text-right py-3 px-2 font-semibold">
-                            {formatCurrency(Number(item.totalPrice))}
+                            {formatCurrency(item.totalPrice)}
                           </td>
                         </tr>
                       ))}
+                      {!!discountPercent && (
+                        <>
+                          <tr className="border-t">
+                            <td colSpan={3} className="py-2 px-2 text-right">Subtotal:</td>
+                            <td className="py-2 px-2 text-right">{formatCurrency(subtotal)}</td>
+                          </tr>
+                          <tr>
+                            <td colSpan={3} className="py-2 px-2 text-right text-green-700">
+                              Desconto ({discountPercent}%):
+                            </td>
+                            <td className="py-2 px-2 text-right text-green-700">
+                              -{formatCurrency(subtotal - content.totalValue)}
+                            </td>
+                          </tr>
+                        </>
+                      )}
                       <tr className="border-t-2 border-orange-500 bg-orange-50">
                         <td colSpan={3} className="py-4 px-2 text-right font-bold">
                           TOTAL GERAL:
                         </td>
                         <td className="py-4 px-2 text-right font-bold text-lg text-orange-600">
-                          {formatCurrency(Number(quote.totalValue))}
+                          {formatCurrency(content.totalValue)}
                         </td>
                       </tr>
                     </tbody>
@@ -231,15 +345,197 @@ export default async function QuotePage({ params }: QuotePageProps) {
               </CardContent>
             </Card>
 
+            {/* Payment conditions */}
+            {payment && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <DollarSign className="w-5 h-5" />
+                    Condições de Pagamento
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid md:grid-cols-3 gap-4">
+                    <div className="border rounded-lg p-4">
+                      <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                        <Banknote className="w-4 h-4" />
+                        À vista
+                      </div>
+                      <div className="text-xl font-bold text-gray-900">{formatCurrency(payment.cashPrice)}</div>
+                      {payment.cashDiscountPercent > 0 && (
+                        <div className="text-sm text-green-600">{payment.cashDiscountPercent}% de desconto</div>
+                      )}
+                    </div>
+
+                    {lastCardOption && (
+                      <div className="border rounded-lg p-4">
+                        <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                          <CreditCard className="w-4 h-4" />
+                          Cartão de crédito
+                        </div>
+                        <div className="text-xl font-bold text-gray-900">
+                          {lastCardOption.count}x de {formatCurrency(lastCardOption.amount)}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {interestFreeCount > 1 ? `Até ${interestFreeCount}x sem juros` : `Total de ${formatCurrency(lastCardOption.total)}`}
+                        </div>
+                      </div>
+                    )}
+
+                    {payment.financing && (
+                      <div className="border rounded-lg p-4">
+                        <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                          <Landmark className="w-4 h-4" />
+                          Financiamento solar
+                        </div>
+                        <div className="text-xl font-bold text-gray-900">
+                          {payment.financing.termMonths}x de {formatCurrency(payment.financing.installment)}
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          {payment.financing.downPayment > 0 && `Entrada de ${formatCurrency(payment.financing.downPayment)} · `}
+                          {payment.financing.monthlyInterestRate.toLocaleString('pt-BR')}% a.m.
+                          ({payment.financing.annualInterestRate.toLocaleString('pt-BR')}% a.a.)
+                        </div>
+                        {payment.financing.institution && (
+                          <div className="text-xs text-gray-500 mt-1">{payment.financing.institution}</div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {payment.cardInstallments.length > 1 && (
+                    <details className="text-sm">
+                      <summary className="cursor-pointer text-gray-700">Ver todas as parcelas no cartão</summary>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+                        {payment.cardInstallments.map(option => (
+                          <div key={option.count} className="bg-gray-50 rounded px-2 py-1">
+                            {option.count}x de {formatCurrency(option.amount)}
+                            {option.count > 1 && option.interestFree ? ' sem juros' : ''}
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+
+                  {payment.billComparison && (
+                    <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+                      <div className="flex items-center gap-2 font-semibold text-gray-900 mb-3">
+                        <Zap className="w-4 h-4 text-orange-500" />
+                        Parcela x conta de luz
+                      </div>
+                      <div className="grid md:grid-cols-3 gap-4 text-sm">
+                        <div>
+                          <div className="text-gray-600">Sua conta hoje</div>
+                          <div className="text-lg font-semibold">{formatCurrency(payment.billComparison.currentMonthlyBill)}/mês</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-600">Parcela</div>
+                          <div className="text-lg font-semibold">{formatCurrency(payment.billComparison.monthlyInstallment)}/mês</div>
+                        </div>
+                        {payment.billComparison.estimatedBillWithSolar !== null && (
+                          <div>
+                            <div className="text-gray-600">Conta estimada com energia solar</div>
+                            <div className="text-lg font-semibold">
+                              {formatCurrency(payment.billComparison.estimatedBillWithSolar)}/mês
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                      <p className={`mt-3 font-medium ${payment.billComparison.difference >= 0 ? 'text-green-700' : 'text-gray-700'}`}>
+                        {payment.billComparison.difference >= 0
+                          ? `Você gasta ${formatCurrency(payment.billComparison.difference)} a menos por mês desde a primeira parcela.`
+                          : `A parcela fica ${formatCurrency(-payment.billComparison.difference)} acima da sua conta atual; após a quitação, a economia é integral.`}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="text-sm text-gray-600 border-t pt-3 space-y-1">
+                    <div className="flex justify-between">
+                      <span>Equipamentos</span>
+                      <span>{formatCurrency(payment.equipmentValue)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Serviços</span>
+                      <span>{formatCurrency(payment.serviceValue)}</span>
+                    </div>
+                    {payment.taxes.map(line => (
+                      <div key={line.tax} className="flex justify-between text-xs text-gray-500">
+                        <span>{line.label} ({line.rate.toLocaleString('pt-BR')}%, incluso)</span>
+                        <span>{formatCurrency(line.value)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Previous versions */}
+            {revisionHistory.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="w-5 h-5" />
+                    Versões Anteriores
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {revisionHistory.map(({ version, previousVersion, createdAt, diff }) => (
+                    <details key={version} className="border rounded-lg p-3">
+                      <summary className="cursor-pointer text-sm font-medium">
+                        Versão {previousVersion} → Versão {version}
+                        <span className="text-gray-500 font-normal"> · {formatDateTime(createdAt)}</span>
+                      </summary>
+                      <div className="mt-3 space-y-2 text-sm">
+                        {diff.total.delta !== 0 && (
+                          <p>
+                            <strong>Total:</strong> {formatCurrency(diff.total.from)} → {formatCurrency(diff.total.to)}{' '}
+                            <span className={diff.total.delta < 0 ? 'text-green-600' : 'text-red-600'}>
+                              ({diff.total.delta > 0 ? '+' : '-'}{formatCurrency(Math.abs(diff.total.delta))})
+                            </span>
+                          </p>
+                        )}
+                        {diff.addedItems.map(item => (
+                          <p key={`added-${item.description}`} className="text-green-700">
+                            + {item.description} ({item.quantity} × {formatCurrency(item.unitPrice)})
+                          </p>
+                        ))}
+                        {diff.removedItems.map(item => (
+                          <p key={`removed-${item.description}`} className="text-red-700 line-through">
+                            − {item.description} ({item.quantity} × {formatCurrency(item.unitPrice)})
+                          </p>
+                        ))}
+                        {diff.changedItems.map(change => (
+                          <p key={`changed-${change.description}`}>
+                            {change.description}: {change.from.quantity} × {formatCurrency(change.from.unitPrice)}
+                            {' → '}
+                            {change.to.quantity} × {formatCurrency(change.to.unitPrice)}
+                          </p>
+                        ))}
+                        {(diff.termsChanged || diff.validUntilChanged || diff.titleChanged || diff.descriptionChanged) && (
+                          <p className="text-gray-600">
+                            {[
+                              diff.titleChanged || diff.descriptionChanged ? 'Descrição atualizada' : null,
+                              diff.termsChanged ? 'Termos atualizados' : null,
+                              diff.validUntilChanged ? 'Nova data de validade' : null
+                            ].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    </details>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Terms */}
-            {quote.terms && (
+            {content.terms && (
               <Card>
                 <CardHeader>
                   <CardTitle>Termos e Condições</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="bg-blue-50 p-4 rounded-lg">
-                    <p className="text-sm whitespace-pre-line">{quote.terms}</p>
+                    <p className="text-sm whitespace-pre-line">{content.terms}</p>
                   </div>
                 </CardContent>
               </Card>
@@ -276,6 +572,12 @@ export default async function QuotePage({ params }: QuotePageProps) {
                 )}
 
                 <div className="space-y-3 pt-4 border-t">
+                  <StartConversationButton
+                    context={{ quoteId: quote.id, token: hasValidToken ? token : undefined }}
+                    label="Conversar sobre este orçamento"
+                    className="w-full justify-start"
+                  />
+
                   {quote.company.phone && (
                     <Button 
                       variant="outline" 
@@ -318,29 +620,57 @@ export default async function QuotePage({ params }: QuotePageProps) {
               </CardContent>
             </Card>
 
-            {/* Actions */}
-            {!isExpired && quote.status !== 'ACCEPTED' && quote.status !== 'REJECTED' && (
-              <Card>
+            {/* Signature */}
+            {quote.acceptance && (
+              <Card className={quote.acceptance.decision === 'ACCEPTED' ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
                 <CardHeader>
-                  <CardTitle>Ações</CardTitle>
+                  <CardTitle className="flex items-center gap-2">
+                    {quote.acceptance.decision === 'ACCEPTED' ? (
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-red-600" />
+                    )}
+                    {quote.acceptance.decision === 'ACCEPTED' ? 'Orçamento Aceito' : 'Orçamento Recusado'}
+                  </CardTitle>
                 </CardHeader>
-                <CardContent className="space-y-3">
-                  <Button className="w-full bg-green-600 hover:bg-green-700">
-                    <CheckCircle className="w-4 h-4 mr-2" />
-                    Aceitar Orçamento
-                  </Button>
-                  
-                  <Button variant="outline" className="w-full">
-                    Negociar Valores
-                  </Button>
-                  
-                  <div className="text-xs text-gray-500 text-center">
-                    Ao aceitar, você concorda com os termos apresentados
-                  </div>
+                <CardContent className="space-y-2 text-sm">
+                  <p>
+                    {quote.acceptance.decision === 'ACCEPTED' ? 'Assinado' : 'Recusado'} por{' '}
+                    <strong>{quote.acceptance.signerName}</strong> em {formatDateTime(quote.acceptance.signedAt)}
+                  </p>
+                  {quote.acceptance.reason && (
+                    <p className="text-gray-700">Motivo: {quote.acceptance.reason}</p>
+                  )}
+                  {hasValidToken && (
+                    <Button variant="outline" className="w-full mt-2" asChild>
+                      <a href={pdfUrl}>
+                        <Download className="w-4 h-4 mr-2" />
+                        Baixar PDF {quote.acceptance.decision === 'ACCEPTED' ? 'assinado' : ''}
+                      </a>
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             )}
 
+            {/* Actions */}
+            {!isExpired && !quote.acceptance && (quote.status === 'SENT' || quote.status === 'VIEWED') && (
+              hasValidToken ? (
+                <QuoteResponseActions
+                  quoteId={quote.id}
+                  token={token}
+                  customerName={quote.lead?.name}
+                  customerEmail={quote.lead?.email}
+                />
+              ) : (
+                <Card>
+                  <CardContent className="p-4 text-sm text-gray-600">
+                    Para aceitar ou recusar este orçamento, use o link enviado para o seu email.
+                  </CardContent>
+                </Card>
+              )
+            )}
+
             {/* Validity Warning */}
             <Card className="border-orange-200 bg-orange-50">
               <CardContent className="p-4">
@@ -349,7 +679,7 @@ export default async function QuotePage({ params }: QuotePageProps) {
                   <div className="text-sm">
                     <p className="font-semibold text-orange-800">Validade do Orçamento</p>
                     <p className="text-orange-700">
-                      Este orçamento é válido até <strong>{formatDate(quote.validUntil.toISOString())}</strong>.
+                      Este orçamento é válido até <strong>{formatDate(content.validUntil)}</strong>.
                       Entre em contato com a empresa para mais informações.
                     </p>
                   </div>
@@ -0,0 +1,230 @@
+import { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { db } from '@/lib/db'
+import type { SolarSimulationReport } from '@/lib/solar'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { CashFlowTable, MonthlyGenerationChart } from '@/components/calculator/simulation-charts'
+import {
+  BarChart3,
+  Calculator,
+  DollarSign,
+  Download,
+  Leaf,
+  MapPin,
+  Sun,
+  TrendingUp,
+  Zap
+} from 'lucide-react'
+
+interface SimulationPageProps {
+  params: { id: string }
+}
+
+export async function generateMetadata({ params }: SimulationPageProps): Promise<Metadata> {
+  const simulation = await getSimulation(params.id)
+
+  if (!simulation) {
+    return {
+      title: 'Simulação não encontrada - SolarConnect',
+      description: 'A simulação solicitada não foi encontrada.',
+    }
+  }
+
+  return {
+    title: `${simulation.title || 'Simulação Solar'} - SolarConnect`,
+    description: `Sistema solar de ${formatNumber(simulation.systemSize, 2)} kWp em ${simulation.municipalityName} - ${simulation.state}`,
+    robots: { index: false },
+  }
+}
+
+async function getSimulation(id: string) {
+  const simulation = await db.simulation.findUnique({
+    where: { id }
+  })
+
+  return simulation
+}
+
+function formatCurrency(value: number) {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(value)
+}
+
+function formatNumber(value: number, decimals: number = 0) {
+  return new Intl.NumberFormat('pt-BR', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(value)
+}
+
+function formatYears(value: number | null) {
+  return value === null ? 'Acima de 25 anos' : `${formatNumber(value, 1)} anos`
+}
+
+export default async function SimulationPage({ params }: SimulationPageProps) {
+  const simulation = await getSimulation(params.id)
+
+  if (!simulation) {
+    notFound()
+  }
+
+  const result = simulation.result as unknown as SolarSimulationReport
+  const { financial } = result
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                {simulation.title || 'Simulação Solar'}
+              </h1>
+              <p className="flex items-center text-gray-600">
+                <MapPin className="w-4 h-4 mr-1" />
+                {simulation.municipalityName} - {simulation.state} · Conta de {formatCurrency(Number(simulation.monthlyBill))}/mês
+              </p>
+            </div>
+
+            <div className="flex gap-3">
+              <Button variant="outline" asChild>
+                <a href={`/api/simulations/${simulation.id}/pdf`}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Baixar PDF
+                </a>
+              </Button>
+              <Button className="bg-orange-500 hover:bg-orange-600" asChild>
+                <Link href="/calculadora">
+                  <Calculator className="w-4 h-4 mr-2" />
+                  Fazer minha simulação
+                </Link>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="grid md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <Sun className="w-5 h-5 mr-2" />
+                Sistema Recomendado
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="text-2xl font-bold text-blue-600">
+                {formatNumber(result.systemSize, 2)} kWp
+              </div>
+              <div className="text-sm text-gray-600">
+                {result.panelCount} painéis de {result.panelPower}W · {formatNumber(result.roofArea)} m² de telhado
+              </div>
+              <div className="text-sm text-gray-600">
+                Inclinação de {formatNumber(result.tilt)}°
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <Zap className="w-5 h-5 mr-2" />
+                Geração de Energia
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="text-2xl font-bold text-green-600">
+                {formatNumber(result.monthlyGeneration)} kWh/mês
+              </div>
+              <div className="text-sm text-gray-600">
+                {formatNumber(result.yearlyGeneration)} kWh/ano · {formatNumber(result.specificYield)} kWh/kWp/ano
+              </div>
+              <Badge variant="outline" className="w-full justify-center">
+                <Leaf className="w-4 h-4 mr-1" />
+                {formatNumber(result.co2Reduction)} kg CO₂ evitados/ano
+              </Badge>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center text-lg">
+                <DollarSign className="w-5 h-5 mr-2" />
+                Análise Financeira
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="text-2xl font-bold text-orange-600">
+                {formatCurrency(result.systemCost)}
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <div className="font-semibold text-green-600">{formatCurrency(financial.monthlySavings)}</div>
+                  <div className="text-gray-600">Economia mensal</div>
+                </div>
+                <div>
+                  <div className="font-semibold">{formatYears(financial.paybackPeriod)}</div>
+                  <div className="text-gray-600">Payback simples</div>
+                </div>
+                <div>
+                  <div className="font-semibold">{formatCurrency(financial.netPresentValue)}</div>
+                  <div className="text-gray-600">VPL</div>
+                </div>
+                <div>
+                  <div className="font-semibold">
+                    {financial.internalRateOfReturn !== null
+                      ? `${formatNumber(financial.internalRateOfReturn * 100, 1)}%`
+                      : '-'}
+                  </div>
+                  <div className="text-gray-600">TIR</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <BarChart3 className="w-5 h-5 mr-2" />
+              Geração Mês a Mês
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MonthlyGenerationChart monthly={result.monthly} formatNumber={formatNumber} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <TrendingUp className="w-5 h-5 mr-2" />
+              Fluxo de Caixa em 25 Anos
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-600">
+              Economia total estimada de <strong>{formatCurrency(financial.totalSavings)}</strong> ·{' '}
+              {financial.compensationRule === 'GD_I'
+                ? 'Regra GD I: isento de Fio B até 2045'
+                : 'Regra GD II: Fio B conforme Lei 14.300'}
+            </p>
+            <CashFlowTable cashFlows={financial.cashFlows} formatCurrency={formatCurrency} />
+          </CardContent>
+        </Card>
+
+        <p className="text-xs text-gray-500 text-center">
+          Simulação gerada em {simulation.createdAt.toLocaleDateString('pt-BR')}. Os valores são estimativas e
+          podem variar conforme o local, os equipamentos escolhidos e a instalação.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { db } from '@/lib/db'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AppointmentResponseActions } from '@/components/appointments/appointment-response-actions'
+import { isValidAccessToken } from '@/lib/access-tokens'
+import { getAppointmentChangeBlocker } from '@/lib/appointments'
+import {
+  Building2,
+  Calendar,
+  CalendarPlus,
+  CheckCircle,
+  Clock,
+  Mail,
+  MapPin,
+  Phone,
+  User
+} from 'lucide-react'
+
+// O link do email é a única forma de acesso; não indexar
+export const metadata: Metadata = {
+  title: 'Sua visita técnica - SolarConnect',
+  robots: { index: false, follow: false }
+}
+
+interface AppointmentPageProps {
+  params: { id: string }
+  searchParams: { token?: string }
+}
+
+const statusColors = {
+  SCHEDULED: 'bg-blue-100 text-blue-800',
+  CONFIRMED: 'bg-green-100 text-green-800',
+  RESCHEDULED: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-gray-100 text-gray-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+}
+
+const statusLabels = {
+  SCHEDULED: 'Agendada',
+  CONFIRMED: 'Confirmada',
+  RESCHEDULED: 'Remarcada',
+  COMPLETED: 'Realizada',
+  CANCELLED: 'Cancelada',
+}
+
+function formatDateTime(date: Date, options: Intl.DateTimeFormatOptions) {
+  return date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', ...options })
+}
+
+export default async function AppointmentPage({ params, searchParams }: AppointmentPageProps) {
+  const appointment = await db.appointment.findUnique({
+    where: { id: params.id },
+    include: {
+      company: {
+        select: {
+          name: true,
+          logo: true,
+          phone: true,
+          email: true
+        }
+      },
+      technician: { select: { name: true } }
+    }
+  })
+
+  const token = searchParams.token
+
+  if (!appointment || !token || !isValidAccessToken(appointment.accessToken, token)) {
+    notFound()
+  }
+
+  const changeBlocker = getAppointmentChangeBlocker(appointment, 'cancel')
+  const rescheduleBlocker = getAppointmentChangeBlocker(appointment, 'reschedule')
+  const endsAt = new Date(appointment.date.getTime() + appointment.duration * 60 * 1000)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              {appointment.company.logo && (
+                <img
+                  src={appointment.company.logo}
+                  alt={appointment.company.name}
+                  className="w-16 h-16 object-contain bg-gray-100 rounded-lg p-2"
+                />
+              )}
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{appointment.title}</h1>
+                <p className="text-gray-600">
+                  Visita técnica de <strong>{appointment.company.name}</strong>
+                </p>
+              </div>
+            </div>
+
+            <div className="text-right">
+              <Badge className={statusColors[appointment.status]}>
+                {statusLabels[appointment.status]}
+              </Badge>
+              {appointment.customerConfirmedAt && appointment.status !== 'CANCELLED' && (
+                <div className="flex items-center gap-1 text-green-700 text-sm mt-2">
+                  <CheckCircle className="w-4 h-4" />
+                  Presença confirmada
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calendar className="w-5 h-5" />
+                  Detalhes da Visita
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid md:grid-cols-2 gap-4 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="w-4 h-4 text-gray-500" />
+                    <span className="capitalize">
+                      {formatDateTime(appointment.date, { weekday: 'long', day: '2-digit', month: 'long', year: 'numeric' })}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-gray-500" />
+                    <span>
+                      {formatDateTime(appointment.date, { hour: '2-digit', minute: '2-digit' })} às{' '}
+                      {formatDateTime(endsAt, { hour: '2-digit', minute: '2-digit' })} (horário de Brasília)
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4 text-gray-500" />
+                    <span>{appointment.location}</span>
+                  </div>
+                  {appointment.technician && (
+                    <div className="flex items-center gap-2">
+                      <User className="w-4 h-4 text-gray-500" />
+                      <span>Técnico: {appointment.technician.name}</span>
+                    </div>
+                  )}
+                </div>
+
+                {appointment.description && (
+                  <p className="text-gray-700 whitespace-pre-line">{appointment.description}</p>
+                )}
+
+                {appointment.status !== 'CANCELLED' && (
+                  <Button variant="outline" asChild>
+                    <a href={`/api/appointments/${appointment.id}/ics?token=${encodeURIComponent(token)}`}>
+                      <CalendarPlus className="w-4 h-4 mr-2" />
+                      Adicionar ao calendário
+                    </a>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            {changeBlocker ? (
+              <Card>
+                <CardContent className="p-4 text-sm text-gray-600">
+                  {changeBlocker}.
+                </CardContent>
+              </Card>
+            ) : (
+              <AppointmentResponseActions
+                appointmentId={appointment.id}
+                token={token}
+                customerConfirmed={!!appointment.customerConfirmedAt}
+                rescheduleBlocker={rescheduleBlocker}
+              />
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="w-5 h-5" />
+                  {appointment.company.name}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {appointment.company.phone && (
+                  <Button variant="outline" className="w-full justify-start" asChild>
+                    <a href={`tel:${appointment.company.phone}`}>
+                      <Phone className="w-4 h-4 mr-2" />
+                      Ligar para a empresa
+                    </a>
+                  </Button>
+                )}
+                {appointment.company.email && (
+                  <Button variant="outline" className="w-full justify-start" asChild>
+                    <a href={`mailto:${appointment.company.email}`}>
+                      <Mail className="w-4 h-4 mr-2" />
+                      Enviar email
+                    </a>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
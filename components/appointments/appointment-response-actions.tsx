@@ -0,0 +1,238 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { CalendarClock, CheckCircle, Loader2, XCircle } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+
+interface TimeSlot {
+  time: string
+  available: boolean
+}
+
+interface AppointmentResponseActionsProps {
+  appointmentId: string
+  token: string
+  customerConfirmed: boolean
+  // Motivo pelo qual a remarcação pelo link não está disponível
+  rescheduleBlocker?: string | null
+}
+
+type Mode = 'idle' | 'reschedule' | 'cancel'
+
+export function AppointmentResponseActions({
+  appointmentId,
+  token,
+  customerConfirmed,
+  rescheduleBlocker
+}: AppointmentResponseActionsProps) {
+  const router = useRouter()
+  const [mode, setMode] = useState<Mode>('idle')
+  const [date, setDate] = useState('')
+  const [time, setTime] = useState('')
+  const [slots, setSlots] = useState<TimeSlot[]>([])
+  const [closedReason, setClosedReason] = useState<string | null>(null)
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const { addToast } = useToast()
+
+  useEffect(() => {
+    if (!date) return
+
+    const fetchSlots = async () => {
+      setLoadingSlots(true)
+      setTime('')
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/reschedule?token=${encodeURIComponent(token)}&date=${date}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.message)
+        }
+
+        setSlots(data.slots)
+        setClosedReason(data.closedReason)
+      } catch (error) {
+        setSlots([])
+        setClosedReason(error instanceof Error && error.message ? error.message : 'Não foi possível carregar os horários')
+      } finally {
+        setLoadingSlots(false)
+      }
+    }
+
+    fetchSlots()
+  }, [appointmentId, token, date])
+
+  const submit = async (action: 'confirm' | 'cancel' | 'reschedule') => {
+    setSubmitting(true)
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          action === 'reschedule' ? { token, date, time }
+            : action === 'cancel' ? { token, reason: reason.trim() || undefined }
+              : { token }
+        ),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      addToast({
+        type: 'success',
+        title: {
+          confirm: 'Presença confirmada!',
+          cancel: 'Visita cancelada',
+          reschedule: 'Visita remarcada!'
+        }[action],
+        message: {
+          confirm: 'A empresa foi avisada. Até a visita!',
+          cancel: 'A empresa foi avisada do cancelamento',
+          reschedule: 'A empresa foi avisada e você vai receber o convite atualizado por email'
+        }[action]
+      })
+      setMode('idle')
+      router.refresh()
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível atualizar a visita',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const availableSlots = slots.filter(slot => slot.available)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ações</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {mode === 'idle' && (
+          <>
+            {!customerConfirmed && (
+              <Button
+                className="w-full bg-green-600 hover:bg-green-700"
+                onClick={() => submit('confirm')}
+                disabled={submitting}
+              >
+                {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+                Confirmar presença
+              </Button>
+            )}
+
+            {rescheduleBlocker ? (
+              <p className="text-sm text-gray-600">{rescheduleBlocker}</p>
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => setMode('reschedule')} disabled={submitting}>
+                <CalendarClock className="w-4 h-4 mr-2" />
+                Remarcar
+              </Button>
+            )}
+
+            <Button variant="outline" className="w-full text-red-600 hover:text-red-700" onClick={() => setMode('cancel')} disabled={submitting}>
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancelar visita
+            </Button>
+          </>
+        )}
+
+        {mode === 'reschedule' && (
+          <>
+            <div>
+              <Label htmlFor="rescheduleDate">Nova data</Label>
+              <Input
+                id="rescheduleDate"
+                type="date"
+                min={today}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+
+            {date && (
+              loadingSlots ? (
+                <div className="flex items-center text-sm text-gray-600">
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Carregando horários...
+                </div>
+              ) : closedReason || availableSlots.length === 0 ? (
+                <p className="text-sm text-gray-600">{closedReason || 'Sem horários livres neste dia'}</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  {availableSlots.map(slot => (
+                    <Button
+                      key={slot.time}
+                      size="sm"
+                      variant={time === slot.time ? 'default' : 'outline'}
+                      onClick={() => setTime(slot.time)}
+                    >
+                      {slot.time}
+                    </Button>
+                  ))}
+                </div>
+              )
+            )}
+
+            <Button className="w-full" disabled={!date || !time || submitting} onClick={() => submit('reschedule')}>
+              {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarClock className="w-4 h-4 mr-2" />}
+              {time ? `Remarcar para ${time}` : 'Escolha um horário'}
+            </Button>
+
+            <Button variant="ghost" className="w-full" onClick={() => setMode('idle')} disabled={submitting}>
+              Voltar
+            </Button>
+          </>
+        )}
+
+        {mode === 'cancel' && (
+          <>
+            <div>
+              <Label htmlFor="cancelReason">Motivo (opcional)</Label>
+              <Textarea
+                id="cancelReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Conte para a empresa por que não vai poder receber a visita"
+                rows={3}
+                className="mt-1"
+              />
+            </div>
+
+            <Button variant="destructive" className="w-full" disabled={submitting} onClick={() => submit('cancel')}>
+              {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <XCircle className="w-4 h-4 mr-2" />}
+              Confirmar cancelamento
+            </Button>
+
+            <Button variant="ghost" className="w-full" onClick={() => setMode('idle')} disabled={submitting}>
+              Voltar
+            </Button>
+          </>
+        )}
+
+        <div className="text-xs text-gray-500 text-center">
+          Horários de Brasília
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,7 +18,8 @@ import {
   CheckCircle,
   XCircle,
   Edit,
-  Trash2
+  Trash2,
+  CalendarPlus
 } from 'lucide-react'
 import { useToast } from '@/components/ui/toast'
 
@@ -36,6 +37,7 @@ interface Appointment {
   location: string
   status: string
   notes?: string
+  customerConfirmedAt?: string | null
   company: {
     name: string
     phone?: string
@@ -58,6 +60,7 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
   const [selectedDate, setSelectedDate] = useState('')
   const [selectedTime, setSelectedTime] = useState('')
   const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([])
+  const [closedReason, setClosedReason] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     title: 'Visita técnica para avaliação',
     description: '',
@@ -73,7 +76,7 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
     if (selectedDate) {
       fetchAvailableSlots()
     }
-  }, [selectedDate])
+  }, [selectedDate, formData.duration])
 
   useEffect(() => {
     fetchAppointments()
@@ -81,10 +84,14 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
 
   const fetchAvailableSlots = async () => {
     try {
-      const response = await fetch(`/api/appointments/slots?companyId=${companyId}&date=${selectedDate}`)
+      const response = await fetch(`/api/appointments/slots?companyId=${companyId}&date=${selectedDate}&duration=${formData.duration}`)
       if (response.ok) {
         const data = await response.json()
         setAvailableSlots(data.slots || [])
+        setClosedReason(data.closedReason)
+        if (!data.slots?.some((slot: TimeSlot) => slot.time === selectedTime && slot.available)) {
+          setSelectedTime('')
+        }
       }
     } catch (error) {
       console.error('Error fetching slots:', error)
@@ -125,7 +132,8 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
     try {
       setLoading(true)
       
-      const appointmentDate = new Date(`${selectedDate}T${selectedTime}:00`)
+      // Os horários da agenda são sempre no horário de Brasília
+      const appointmentDate = new Date(`${selectedDate}T${selectedTime}:00-03:00`)
       
       const response = await fetch('/api/appointments', {
         method: 'POST',
@@ -161,7 +169,7 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
         onSuccess?.()
       } else {
         const error = await response.json()
-        throw new Error(error.message || 'Erro ao agendar')
+        throw new Error(error.reason || (response.status === 400 ? 'Horário indisponível, escolha outro' : 'Erro ao agendar'))
       }
     } catch (error) {
       addToast({
@@ -313,7 +321,11 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
             
             <div>
               <Label htmlFor="time">Horário *</Label>
-              {selectedDate ? (
+              {selectedDate && (closedReason || availableSlots.length === 0) ? (
+                <div className="mt-1 p-2 border border-gray-300 rounded-md text-gray-500 text-sm">
+                  {closedReason || 'Sem horários neste dia'}
+                </div>
+              ) : selectedDate ? (
                 <select
                   id="time"
                   value={selectedTime}
@@ -388,6 +400,9 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
                         {appointment.title}
                       </h3>
                       {getStatusBadge(appointment.status)}
+                      {appointment.customerConfirmedAt && appointment.status !== 'CANCELLED' && (
+                        <Badge variant="outline" className="text-green-700">Presença confirmada</Badge>
+                      )}
                     </div>
                     
                     <div className="grid md:grid-cols-2 gap-4 text-sm text-gray-600">
@@ -417,6 +432,13 @@ export function AppointmentScheduler({ companyId, companyName, onSuccess }: Appo
                   </div>
                   
                   <div className="flex items-center space-x-2 ml-4">
+                    {appointment.status !== 'CANCELLED' && (
+                      <Button size="sm" variant="outline" asChild>
+                        <a href={`/api/appointments/${appointment.id}/ics`} title="Adicionar ao calendário">
+                          <CalendarPlus className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    )}
                     {appointment.status === 'SCHEDULED' && (
                       <>
                         <Button
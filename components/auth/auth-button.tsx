@@ -3,7 +3,7 @@
 import { useSession, signOut } from 'next-auth/react'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
-import { User, LogOut, LayoutDashboard, Shield } from 'lucide-react'
+import { User, LogOut, LayoutDashboard, Shield, Sun } from 'lucide-react'
 import { useState } from 'react'
 
 export function AuthButton() {
@@ -81,6 +81,17 @@ export function AuthButton() {
             Meu Perfil
           </Link>
 
+          {session.user.role === 'CUSTOMER' && (
+            <Link
+              href="/minhas-simulacoes"
+              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+              onClick={() => setShowMenu(false)}
+            >
+              <Sun className="w-4 h-4 mr-2" />
+              Minhas Simulações
+            </Link>
+          )}
+
           <Link
             href="/test-auth"
             className="flex items-center px-4 py-2 text-sm text-blue-600 hover:bg-blue-50 text-xs"
@@ -0,0 +1,127 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { FileText, Loader2, Upload, X } from 'lucide-react'
+import { BILL_LAYOUTS, type ElectricityBill } from '@/lib/solar/bill'
+
+interface ElectricityBillUploadProps {
+  bill: ElectricityBill | null
+  onChange: (bill: ElectricityBill | null) => void
+}
+
+const CONNECTION_LABELS: Record<string, string> = {
+  MONOFASICO: 'Monofásica',
+  BIFASICO: 'Bifásica',
+  TRIFASICO: 'Trifásica'
+}
+
+const formatNumber = (value: number, decimals: number = 0) =>
+  new Intl.NumberFormat('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(value)
+
+export function ElectricityBillUpload({ bill, onChange }: ElectricityBillUploadProps) {
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // O erro fica no próprio componente: ele é usado em páginas sem ToastProvider
+  const handleFile = async (file: File) => {
+    setUploading(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/calculator/bill', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.message || 'Não foi possível ler a fatura')
+        return
+      }
+
+      onChange(data.data)
+    } catch (error) {
+      setError('Não foi possível ler a fatura. Tente novamente ou informe os valores manualmente')
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  if (bill) {
+    return (
+      <div className="border rounded-lg p-3 bg-green-50 border-green-200 text-sm">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-2 font-medium text-green-900">
+            <FileText className="w-4 h-4" />
+            Conta de luz {bill.distributor ? BILL_LAYOUTS[bill.distributor].name : ''}
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} aria-label="Remover fatura">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 text-green-900">
+          {bill.ucNumber && (
+            <>
+              <dt className="text-green-700">Unidade consumidora</dt>
+              <dd>{bill.ucNumber}</dd>
+            </>
+          )}
+          {bill.connectionType && (
+            <>
+              <dt className="text-green-700">Ligação</dt>
+              <dd>{CONNECTION_LABELS[bill.connectionType]}</dd>
+            </>
+          )}
+          {bill.averageConsumption !== null && (
+            <>
+              <dt className="text-green-700">Consumo médio</dt>
+              <dd>{formatNumber(bill.averageConsumption)} kWh/mês ({bill.consumptionHistory.length} meses)</dd>
+            </>
+          )}
+          {bill.tariff !== null && (
+            <>
+              <dt className="text-green-700">Tarifa</dt>
+              <dd>R$ {formatNumber(bill.tariff, 4)}/kWh</dd>
+            </>
+          )}
+        </dl>
+      </div>
+    )
+  }
+
+  return (
+    <div className="border border-dashed rounded-lg p-3 text-sm">
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/pdf,.pdf"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) handleFile(file)
+        }}
+      />
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-gray-600">
+          Tem a fatura em PDF? Importamos o histórico de consumo, a tarifa e o tipo de ligação.
+          <span className="block text-xs text-gray-500 mt-1">
+            Cemig, Enel, CPFL, Light e Copel. O arquivo não é armazenado.
+          </span>
+        </p>
+        <Button type="button" variant="outline" size="sm" disabled={uploading} onClick={() => inputRef.current?.click()}>
+          {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {uploading ? 'Lendo...' : 'Enviar PDF'}
+        </Button>
+      </div>
+      {error && (
+        <p className="text-red-600 text-xs mt-2" role="alert">{error}</p>
+      )}
+    </div>
+  )
+}
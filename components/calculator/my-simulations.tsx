@@ -0,0 +1,207 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Calculator, Download, Eye, MapPin, Sun, Trash2 } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+
+interface SavedSimulation {
+  id: string
+  title?: string | null
+  municipalityName: string
+  state: string
+  monthlyBill: number
+  systemSize: number
+  systemCost: number
+  createdAt: string
+}
+
+export function MySimulations() {
+  const { data: session } = useSession()
+  const [simulations, setSimulations] = useState<SavedSimulation[]>([])
+  const [loading, setLoading] = useState(true)
+  const { addToast } = useToast()
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchSimulations()
+    }
+  }, [session])
+
+  const fetchSimulations = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/simulations')
+
+      if (response.ok) {
+        const data = await response.json()
+        setSimulations(data.data || [])
+      }
+    } catch (error) {
+      console.error('Error fetching simulations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const deleteSimulation = async (id: string) => {
+    if (!confirm('Excluir esta simulação? O link compartilhado deixará de funcionar.')) return
+
+    try {
+      const response = await fetch(`/api/simulations/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        throw new Error()
+      }
+
+      setSimulations(prev => prev.filter(simulation => simulation.id !== id))
+      addToast({
+        type: 'success',
+        title: 'Simulação excluída',
+        message: 'A simulação foi removida da sua lista'
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Erro ao excluir',
+        message: 'Não foi possível excluir a simulação. Tente novamente.'
+      })
+    }
+  }
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('pt-BR')
+  }
+
+  if (!session?.user) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <Sun className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Faça login para ver suas simulações
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Salve as simulações da calculadora para compartilhá-las e baixar o relatório depois
+          </p>
+          <Button asChild>
+            <Link href="/login">Fazer Login</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Minhas Simulações</h1>
+          <p className="text-gray-600">
+            Compartilhe o link ou baixe o relatório em PDF das suas simulações
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/calculadora">
+            <Calculator className="w-4 h-4 mr-2" />
+            Nova simulação
+          </Link>
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {[...Array(3)].map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="p-6">
+                <div className="h-4 bg-gray-200 rounded mb-4"></div>
+                <div className="h-3 bg-gray-200 rounded mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-2/3"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : simulations.length === 0 ? (
+        <div className="text-center py-12">
+          <Sun className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Nenhuma simulação salva
+          </h3>
+          <p className="text-gray-600 mb-6">
+            Use a calculadora solar e salve o resultado para encontrá-lo aqui
+          </p>
+          <Button asChild>
+            <Link href="/calculadora">Ir para a calculadora</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {simulations.map(simulation => (
+            <Card key={simulation.id} className="hover:shadow-lg transition-shadow">
+              <CardContent className="p-6">
+                <h3 className="font-semibold text-gray-900 mb-1">
+                  {simulation.title || `Simulação de ${formatDate(simulation.createdAt)}`}
+                </h3>
+                <div className="flex items-center text-sm text-gray-600 mb-4">
+                  <MapPin className="w-4 h-4 mr-1" />
+                  {simulation.municipalityName} - {simulation.state}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 text-sm mb-4">
+                  <div>
+                    <div className="text-gray-500">Sistema</div>
+                    <div className="font-semibold">{Number(simulation.systemSize).toFixed(2)} kWp</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Investimento</div>
+                    <div className="font-semibold">{formatCurrency(Number(simulation.systemCost))}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Conta mensal</div>
+                    <div className="font-semibold">{formatCurrency(Number(simulation.monthlyBill))}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Salva em</div>
+                    <div className="font-semibold">{formatDate(simulation.createdAt)}</div>
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button size="sm" className="flex-1" asChild>
+                    <Link href={`/simulacao/${simulation.id}`}>
+                      <Eye className="w-4 h-4 mr-1" />
+                      Ver
+                    </Link>
+                  </Button>
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/simulations/${simulation.id}/pdf`}>
+                      <Download className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => deleteSimulation(simulation.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
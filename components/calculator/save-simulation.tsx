@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Copy, Download, Loader2, Save, Share2 } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+
+interface SaveSimulationProps {
+  input: Record<string, unknown>
+  defaultTitle: string
+}
+
+interface SavedSimulation {
+  id: string
+  shareUrl: string
+}
+
+export function SaveSimulation({ input, defaultTitle }: SaveSimulationProps) {
+  const { data: session } = useSession()
+  const [title, setTitle] = useState(defaultTitle)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState<SavedSimulation | null>(null)
+  const { addToast } = useToast()
+
+  const saveSimulation = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/simulations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ title: title || undefined, input }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      setSaved(data.data)
+      addToast({
+        type: 'success',
+        title: 'Simulação salva!',
+        message: 'Compartilhe o link ou baixe o relatório em PDF'
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Erro ao salvar',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const copyLink = async () => {
+    if (!saved) return
+
+    await navigator.clipboard.writeText(saved.shareUrl)
+    addToast({
+      type: 'success',
+      title: 'Link copiado!',
+      message: 'Envie para quem você quiser'
+    })
+  }
+
+  return (
+    <Card className="md:col-span-2 lg:col-span-3">
+      <CardContent className="p-6">
+        {saved ? (
+          <div className="space-y-3">
+            <div className="flex items-center font-semibold">
+              <Share2 className="w-5 h-5 mr-2" />
+              Compartilhe sua simulação
+            </div>
+            <div className="flex flex-col md:flex-row gap-3">
+              <Input value={saved.shareUrl} readOnly className="flex-1" />
+              <Button variant="outline" onClick={copyLink}>
+                <Copy className="w-4 h-4 mr-2" />
+                Copiar link
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/simulations/${saved.id}/pdf`}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Baixar PDF
+                </a>
+              </Button>
+            </div>
+            <p className="text-sm text-gray-600">
+              {session?.user ? (
+                <>Ela também fica disponível em <Link href="/minhas-simulacoes" className="underline">Minhas simulações</Link>.</>
+              ) : (
+                <>Entre na sua conta antes de salvar para encontrar suas simulações depois em Minhas simulações.</>
+              )}
+            </p>
+          </div>
+        ) : (
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={100}
+              placeholder="Nome da simulação"
+              className="flex-1"
+            />
+            <Button onClick={saveSimulation} disabled={saving}>
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Salvar e compartilhar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,102 @@
+export interface MonthlyGeneration {
+  month: number
+  label: string
+  horizontalIrradiation: number // kWh/m²/dia
+  planeOfArrayIrradiation: number // kWh/m²/dia
+  cellTemperature: number // °C
+  generation: number // kWh
+  consumption: number // kWh
+}
+
+export interface YearlyCashFlow {
+  year: number
+  calendarYear: number
+  fioBRate: number
+  savings: number
+  costs: number
+  cashFlow: number
+  cumulativeCashFlow: number
+}
+
+export function MonthlyGenerationChart({
+  monthly,
+  formatNumber
+}: {
+  monthly: MonthlyGeneration[]
+  formatNumber: (value: number, decimals?: number) => string
+}) {
+  const maxValue = Math.max(...monthly.map(month => Math.max(month.generation, month.consumption)))
+
+  return (
+    <div>
+      <div className="flex items-end gap-2 h-48">
+        {monthly.map(month => (
+          <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full">
+            <div className="relative w-full flex-1 flex items-end">
+              <div
+                className="w-full bg-yellow-400 rounded-t"
+                style={{ height: `${(month.generation / maxValue) * 100}%` }}
+                title={`${formatNumber(month.generation)} kWh`}
+              />
+              <div
+                className="absolute left-0 right-0 border-t-2 border-dashed border-blue-600"
+                style={{ bottom: `${(month.consumption / maxValue) * 100}%` }}
+              />
+            </div>
+            <div className="text-xs text-gray-600 mt-1">{month.label}</div>
+            <div className="text-xs font-medium">{formatNumber(month.generation)}</div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-6 mt-4 text-sm text-gray-600">
+        <div className="flex items-center gap-2">
+          <span className="inline-block w-3 h-3 bg-yellow-400 rounded-sm" />
+          Geração (kWh)
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="inline-block w-4 border-t-2 border-dashed border-blue-600" />
+          Consumo médio (kWh)
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function CashFlowTable({
+  cashFlows,
+  formatCurrency
+}: {
+  cashFlows: YearlyCashFlow[]
+  formatCurrency: (value: number) => string
+}) {
+  return (
+    <div className="mt-8 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-gray-600">
+            <th className="text-left py-2 px-2">Ano</th>
+            <th className="text-right py-2 px-2">Fio B cobrado</th>
+            <th className="text-right py-2 px-2">Economia</th>
+            <th className="text-right py-2 px-2">Custos</th>
+            <th className="text-right py-2 px-2">Fluxo de caixa</th>
+            <th className="text-right py-2 px-2">Acumulado</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cashFlows.map((flow, index) => (
+            <tr key={flow.year} className={index % 2 === 0 ? 'bg-gray-50' : ''}>
+              <td className="py-2 px-2">{flow.calendarYear}</td>
+              <td className="text-right py-2 px-2">{Math.round(flow.fioBRate * 100)}%</td>
+              <td className="text-right py-2 px-2">{formatCurrency(flow.savings)}</td>
+              <td className="text-right py-2 px-2">{formatCurrency(flow.costs)}</td>
+              <td className="text-right py-2 px-2">{formatCurrency(flow.cashFlow)}</td>
+              <td className={`text-right py-2 px-2 font-medium ${flow.cumulativeCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(flow.cumulativeCashFlow)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Building2, CheckCircle, Loader2, Package, Send, Star } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+import type { ElectricityBill } from '@/lib/solar/bill'
+
+export interface LeadSimulation {
+  municipality: { ibgeCode: string; name: string; state: string }
+  monthlyBill: number
+  systemSize: number
+  panelCount: number
+  yearlyGeneration: number
+  monthlyGeneration: number[]
+  systemCost: number
+  monthlySavings: number
+  paybackPeriod: number | null
+}
+
+interface EquipmentItem {
+  productId: string
+  name: string
+  category: string
+  quantity: number
+  unitPrice: number
+  power: number
+}
+
+interface EquipmentMatch {
+  type: 'KIT' | 'COMPONENTS'
+  items: EquipmentItem[]
+  totalPower: number
+  totalPrice: number
+}
+
+interface MatchedCompany {
+  id: string
+  name: string
+  slug: string
+  logo?: string | null
+  city?: string | null
+  state?: string | null
+  rating: number
+  reviewCount: number
+  verified: boolean
+  coverage: number
+  equipment: EquipmentMatch[]
+}
+
+interface SimulationMatchesProps {
+  simulation: LeadSimulation
+  electricityBill?: ElectricityBill | null // Fatura enviada na calculadora, repassada à empresa
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+const formatPower = (watts: number) =>
+  `${new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 }).format(watts / 1000)} kWp`
+
+export function SimulationMatches({ simulation, electricityBill }: SimulationMatchesProps) {
+  const [companies, setCompanies] = useState<MatchedCompany[]>([])
+  const [loading, setLoading] = useState(true)
+  const [contact, setContact] = useState({ name: '', email: '', phone: '' })
+  const [submittingId, setSubmittingId] = useState<string | null>(null)
+  const [requestedIds, setRequestedIds] = useState<string[]>([])
+  const { addToast } = useToast()
+
+  useEffect(() => {
+    const params = new URLSearchParams({
+      ibgeCode: simulation.municipality.ibgeCode,
+      systemSize: simulation.systemSize.toString()
+    })
+
+    setLoading(true)
+    fetch(`/api/calculator/matches?${params}`)
+      .then(response => response.ok ? response.json() : { data: { companies: [] } })
+      .then(({ data }) => setCompanies(data.companies))
+      .catch(() => setCompanies([]))
+      .finally(() => setLoading(false))
+  }, [simulation.municipality.ibgeCode, simulation.systemSize])
+
+  const requestQuote = async (company: MatchedCompany, equipment?: EquipmentMatch) => {
+    if (!contact.name || !contact.email || contact.phone.length < 10) {
+      addToast({
+        type: 'error',
+        title: 'Dados de contato',
+        message: 'Preencha nome, email e telefone para solicitar o orçamento'
+      })
+      return
+    }
+
+    setSubmittingId(company.id)
+
+    try {
+      const location = `${simulation.municipality.name}, ${simulation.municipality.state}`
+      const response = await fetch('/api/leads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...contact,
+          location,
+          projectType: 'Residencial',
+          budget: formatCurrency(simulation.systemCost),
+          message: `Simulação na calculadora: sistema de ${simulation.systemSize.toFixed(2)} kWp ` +
+            `(${simulation.panelCount} painéis) em ${location}, conta média de ${formatCurrency(simulation.monthlyBill)}.`,
+          source: 'calculator',
+          companyId: company.id,
+          simulation: {
+            ...simulation,
+            equipment: equipment?.items.map(item => ({
+              productId: item.productId,
+              name: item.name,
+              quantity: item.quantity
+            }))
+          },
+          electricityBill: electricityBill ?? undefined
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.message)
+      }
+
+      setRequestedIds(prev => [...prev, company.id])
+      addToast({
+        type: 'success',
+        title: 'Solicitação enviada!',
+        message: `${company.name} recebeu sua simulação e entrará em contato`
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Erro ao enviar',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSubmittingId(null)
+    }
+  }
+
+  return (
+    <Card className="md:col-span-2 lg:col-span-3">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Building2 className="w-5 h-5 mr-2" />
+          Empresas que atendem {simulation.municipality.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="contactName">Seu nome</Label>
+            <Input
+              id="contactName"
+              value={contact.name}
+              onChange={(e) => setContact(prev => ({ ...prev, name: e.target.value }))}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="contactEmail">Email</Label>
+            <Input
+              id="contactEmail"
+              type="email"
+              value={contact.email}
+              onChange={(e) => setContact(prev => ({ ...prev, email: e.target.value }))}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="contactPhone">Telefone</Label>
+            <Input
+              id="contactPhone"
+              type="tel"
+              value={contact.phone}
+              onChange={(e) => setContact(prev => ({ ...prev, phone: e.target.value }))}
+              className="mt-1"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Buscando empresas e kits compatíveis...
+          </div>
+        ) : companies.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            Nenhuma empresa cadastrada atende esta região ainda.
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-4">
+            {companies.map(company => {
+              const requested = requestedIds.includes(company.id)
+              const bestMatch = company.equipment[0]
+
+              return (
+                <div key={company.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <Link href={`/empresa/${company.slug}`} className="font-semibold hover:underline">
+                        {company.name}
+                      </Link>
+                      <div className="text-sm text-gray-600">
+                        {[company.city, company.state].filter(Boolean).join(', ')}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {company.verified && <Badge variant="outline">Verificada</Badge>}
+                      {company.rating > 0 && (
+                        <span className="flex items-center text-sm">
+                          <Star className="w-4 h-4 text-yellow-500 mr-1" />
+                          {company.rating.toFixed(1)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {company.equipment.length > 0 ? (
+                    <div className="space-y-2">
+                      {company.equipment.map((match, index) => (
+                        <div key={index} className="bg-gray-50 rounded p-3 text-sm">
+                          <div className="flex items-center justify-between font-medium">
+                            <span className="flex items-center">
+                              <Package className="w-4 h-4 mr-1" />
+                              {match.type === 'KIT' ? 'Kit completo' : 'Módulos + inversor'} · {formatPower(match.totalPower)}
+                            </span>
+                            <span>{formatCurrency(match.totalPrice)}</span>
+                          </div>
+                          <ul className="text-gray-600 mt-1">
+                            {match.items.map(item => (
+                              <li key={item.productId}>{item.quantity}x {item.name}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-500">
+                      Sem kits cadastrados para {formatPower(simulation.systemSize * 1000)}; a empresa montará a proposta.
+                    </div>
+                  )}
+
+                  <Button
+                    className="w-full"
+                    disabled={requested || submittingId === company.id}
+                    onClick={() => requestQuote(company, bestMatch)}
+                  >
+                    {requested ? (
+                      <>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Solicitação enviada
+                      </>
+                    ) : submittingId === company.id ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Enviando...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="w-4 h-4 mr-2" />
+                        Solicitar orçamento com esta simulação
+                      </>
+                    )}
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
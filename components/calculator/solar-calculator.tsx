@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -15,44 +15,135 @@ import {
   Sun,
   Home,
   TrendingUp,
-  Info
+  Info,
+  BarChart3
 } from 'lucide-react'
 import { useToast } from '@/components/ui/toast'
+import { useDebounce } from '@/hooks/use-debounce'
+import { SaveSimulation } from './save-simulation'
+import { SimulationMatches } from './simulation-matches'
+import { ElectricityBillUpload } from './electricity-bill-upload'
+import { getMonthlyConsumptionProfile, type ElectricityBill } from '@/lib/solar/bill'
+import {
+  CashFlowTable,
+  MonthlyGenerationChart,
+  type MonthlyGeneration,
+  type YearlyCashFlow
+} from './simulation-charts'
+
+interface FinancialAnalysis {
+  compensationRule: 'GD_I' | 'GD_II'
+  minimumBilledConsumption: number // kWh
+  monthlySavings: number
+  firstYearSavings: number
+  totalSavings: number
+  netPresentValue: number
+  internalRateOfReturn: number | null
+  paybackPeriod: number | null // years
+  discountedPaybackPeriod: number | null // years
+  cashFlows: YearlyCashFlow[]
+}
 
 interface CalculationResult {
+  municipality: { ibgeCode: string; name: string; state: string }
+  monthlyBill: number // R$ informado na simulação
   systemSize: number // kWp
   panelCount: number
+  tilt: number // graus
+  monthly: MonthlyGeneration[]
   monthlyGeneration: number // kWh
   yearlyGeneration: number // kWh
+  specificYield: number // kWh/kWp/ano
+  performanceRatio: number
   systemCost: number
-  monthlySavings: number
-  yearlySavings: number
-  paybackPeriod: number // years
+  financial: FinancialAnalysis
   co2Reduction: number // kg/year
   roofArea: number // m²
 }
 
+interface MunicipalityOption {
+  ibgeCode: string
+  name: string
+  state: string
+}
+
+// Azimute da face do telhado (0 = Norte, sentido horário)
+const ORIENTATION_AZIMUTHS: Record<string, number> = {
+  north: 0,
+  northeast: 45,
+  east: 90,
+  southeast: 135,
+  south: 180,
+  southwest: 225,
+  west: 270,
+  northwest: 315
+}
+
 export function SolarCalculator() {
   const [formData, setFormData] = useState({
     monthlyBill: '',
     energyRate: '0.75', // R$/kWh
     location: '',
+    ibgeCode: '',
     roofType: 'ceramic', // ceramic, metal, concrete
-    roofOrientation: 'south', // north, south, east, west
+    roofOrientation: 'north', // north, northeast, east, ...
+    roofTilt: '', // graus; vazio = inclinação recomendada
     shading: 'none', // none, partial, heavy
     panelType: 'monocrystalline', // monocrystalline, polycrystalline
     panelPower: '550', // Watts
-    systemEfficiency: '85' // %
+    connectionType: 'BIFASICO', // MONOFASICO, BIFASICO, TRIFASICO
+    tariffEscalation: '6' // % a.a.
   })
   
   const [result, setResult] = useState<CalculationResult | null>(null)
+  const [bill, setBill] = useState<ElectricityBill | null>(null)
+  const [simulationInput, setSimulationInput] = useState<Record<string, unknown> | null>(null)
   const [calculating, setCalculating] = useState(false)
+  const [municipalityOptions, setMunicipalityOptions] = useState<MunicipalityOption[]>([])
+  const debouncedLocation = useDebounce(formData.location, 300)
   const { addToast } = useToast()
 
+  useEffect(() => {
+    if (debouncedLocation.length < 2) {
+      setMunicipalityOptions([])
+      return
+    }
+
+    fetch(`/api/calculator?q=${encodeURIComponent(debouncedLocation)}`)
+      .then(response => response.ok ? response.json() : { data: [] })
+      .then(({ data }) => setMunicipalityOptions(data))
+      .catch(() => setMunicipalityOptions([]))
+  }, [debouncedLocation])
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  const handleLocationChange = (value: string) => {
+    const selected = municipalityOptions.find(option => `${option.name}, ${option.state}` === value)
+    setFormData(prev => ({ ...prev, location: value, ibgeCode: selected?.ibgeCode || '' }))
+  }
+
+  // Preenche a conta, a tarifa e a ligação com o que foi lido da fatura
+  const handleBillChange = (parsed: ElectricityBill | null) => {
+    setBill(parsed)
+    if (!parsed) return
+
+    setFormData(prev => {
+      const energyRate = parsed.tariff ?? parseFloat(prev.energyRate)
+      const monthlyBill = parsed.averageConsumption !== null && energyRate
+        ? parsed.averageConsumption * energyRate
+        : parsed.amountDue
+
+      return {
+        ...prev,
+        energyRate: parsed.tariff !== null ? parsed.tariff.toString() : prev.energyRate,
+        monthlyBill: monthlyBill ? monthlyBill.toFixed(2) : prev.monthlyBill,
+        connectionType: parsed.connectionType ?? prev.connectionType
+      }
+    })
+  }
+
   const calculateSystem = async () => {
     if (!formData.monthlyBill || !formData.location) {
       addToast({
@@ -65,76 +156,47 @@ export function SolarCalculator() {
 
     setCalculating(true)
 
-    try {
-      // Simulate calculation delay
-      await new Promise(resolve => setTimeout(resolve, 1500))
+    const simulationInput = {
+      ibgeCode: formData.ibgeCode || undefined,
+      location: formData.location,
+      monthlyBill: parseFloat(formData.monthlyBill),
+      energyRate: parseFloat(formData.energyRate),
+      panelPower: parseInt(formData.panelPower),
+      tilt: formData.roofTilt ? parseFloat(formData.roofTilt) : undefined,
+      azimuth: ORIENTATION_AZIMUTHS[formData.roofOrientation] ?? 0,
+      shading: formData.shading,
+      connectionType: formData.connectionType,
+      tariffEscalation: formData.tariffEscalation ? parseFloat(formData.tariffEscalation) / 100 : undefined,
+      consumptionProfile: bill ? getMonthlyConsumptionProfile(bill.consumptionHistory) : undefined
+    }
 
-      const monthlyBill = parseFloat(formData.monthlyBill)
-      const energyRate = parseFloat(formData.energyRate)
-      const panelPower = parseFloat(formData.panelPower)
-      const systemEfficiency = parseFloat(formData.systemEfficiency) / 100
+    try {
+      const response = await fetch('/api/calculator', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(simulationInput),
+      })
 
-      // Calculate monthly consumption
-      const monthlyConsumption = monthlyBill / energyRate // kWh
+      const data = await response.json()
 
-      // Solar irradiation by location (simplified)
-      const solarIrradiation = getSolarIrradiation(formData.location)
-      
-      // Orientation factor
-      const orientationFactor = getOrientationFactor(formData.roofOrientation)
-      
-      // Shading factor
-      const shadingFactor = getShadingFactor(formData.shading)
-      
-      // Calculate system size needed
-      const dailyGeneration = monthlyConsumption / 30 // kWh/day
-      const peakSunHours = solarIrradiation * orientationFactor * shadingFactor
-      const systemSize = dailyGeneration / peakSunHours // kWp
-      
-      // Calculate panel count
-      const panelCount = Math.ceil((systemSize * 1000) / panelPower)
-      
-      // Recalculate actual system size based on panel count
-      const actualSystemSize = (panelCount * panelPower) / 1000 // kWp
-      
-      // Calculate generation
-      const monthlyGeneration = actualSystemSize * peakSunHours * 30 * systemEfficiency
-      const yearlyGeneration = monthlyGeneration * 12
-      
-      // Calculate costs and savings
-      const systemCostPerKw = 4500 // R$/kWp (average)
-      const systemCost = actualSystemSize * systemCostPerKw
-      
-      const monthlySavings = Math.min(monthlyGeneration * energyRate, monthlyBill * 0.9) // Max 90% savings
-      const yearlySavings = monthlySavings * 12
-      
-      const paybackPeriod = systemCost / yearlySavings
-      
-      // Environmental impact
-      const co2Reduction = yearlyGeneration * 0.0817 // kg CO2/kWh (Brazil grid factor)
-      
-      // Roof area needed (approximately 6m² per kWp)
-      const roofArea = actualSystemSize * 6
-
-      const calculationResult: CalculationResult = {
-        systemSize: actualSystemSize,
-        panelCount,
-        monthlyGeneration,
-        yearlyGeneration,
-        systemCost,
-        monthlySavings,
-        yearlySavings,
-        paybackPeriod,
-        co2Reduction,
-        roofArea
+      if (!response.ok) {
+        addToast({
+          type: 'error',
+          title: 'Erro no cálculo',
+          message: data.message || 'Não foi possível calcular o sistema. Tente novamente.'
+        })
+        return
       }
 
-      setResult(calculationResult)
+      setResult({ ...data.data, monthlyBill: simulationInput.monthlyBill })
+      setSimulationInput(simulationInput)
       
       addToast({
         type: 'success',
         title: 'Cálculo concluído!',
-        message: 'Sua simulação foi calculada com sucesso'
+        message: `Simulação baseada na irradiação de ${data.data.municipality.name} - ${data.data.municipality.state}`
       })
 
     } catch (error) {
@@ -148,43 +210,6 @@ export function SolarCalculator() {
     }
   }
 
-  const getSolarIrradiation = (location: string): number => {
-    // Simplified solar irradiation by region (kWh/m²/day)
-    const irradiationMap: Record<string, number> = {
-      'nordeste': 5.5,
-      'sudeste': 4.8,
-      'centro-oeste': 5.2,
-      'sul': 4.2,
-      'norte': 4.9
-    }
-    
-    const region = location.toLowerCase()
-    for (const [key, value] of Object.entries(irradiationMap)) {
-      if (region.includes(key)) return value
-    }
-    
-    return 4.8 // Default
-  }
-
-  const getOrientationFactor = (orientation: string): number => {
-    const factors: Record<string, number> = {
-      'north': 1.0,
-      'south': 0.85,
-      'east': 0.9,
-      'west': 0.9
-    }
-    return factors[orientation] || 1.0
-  }
-
-  const getShadingFactor = (shading: string): number => {
-    const factors: Record<string, number> = {
-      'none': 1.0,
-      'partial': 0.85,
-      'heavy': 0.7
-    }
-    return factors[shading] || 1.0
-  }
-
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -199,6 +224,10 @@ export function SolarCalculator() {
     }).format(value)
   }
 
+  const formatYears = (value: number | null) => {
+    return value !== null ? `${formatNumber(value, 1)} anos` : 'Acima de 25 anos'
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -213,6 +242,8 @@ export function SolarCalculator() {
         </CardHeader>
         
         <CardContent className="space-y-6">
+          <ElectricityBillUpload bill={bill} onChange={handleBillChange} />
+
           {/* Basic Information */}
           <div className="grid md:grid-cols-2 gap-4">
             <div>
@@ -240,15 +271,49 @@ export function SolarCalculator() {
             </div>
           </div>
 
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="connectionType">Tipo de ligação</Label>
+              <select
+                id="connectionType"
+                value={formData.connectionType}
+                onChange={(e) => handleInputChange('connectionType', e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md"
+              >
+                <option value="MONOFASICO">Monofásico (mínimo 30 kWh)</option>
+                <option value="BIFASICO">Bifásico (mínimo 50 kWh)</option>
+                <option value="TRIFASICO">Trifásico (mínimo 100 kWh)</option>
+              </select>
+            </div>
+
+            <div>
+              <Label htmlFor="tariffEscalation">Reajuste anual da tarifa (%)</Label>
+              <Input
+                id="tariffEscalation"
+                type="number"
+                step="0.5"
+                value={formData.tariffEscalation}
+                onChange={(e) => handleInputChange('tariffEscalation', e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
           <div>
             <Label htmlFor="location">Localização *</Label>
             <Input
               id="location"
+              list="municipality-options"
               placeholder="Ex: São Paulo, SP"
               value={formData.location}
-              onChange={(e) => handleInputChange('location', e.target.value)}
+              onChange={(e) => handleLocationChange(e.target.value)}
               className="mt-1"
             />
+            <datalist id="municipality-options">
+              {municipalityOptions.map(option => (
+                <option key={option.ibgeCode} value={`${option.name}, ${option.state}`} />
+              ))}
+            </datalist>
           </div>
 
           {/* Advanced Options */}
@@ -279,11 +344,29 @@ export function SolarCalculator() {
                   className="mt-1 w-full p-2 border border-gray-300 rounded-md"
                 >
                   <option value="north">Norte (ideal)</option>
-                  <option value="south">Sul</option>
+                  <option value="northeast">Nordeste</option>
+                  <option value="northwest">Noroeste</option>
                   <option value="east">Leste</option>
                   <option value="west">Oeste</option>
+                  <option value="southeast">Sudeste</option>
+                  <option value="southwest">Sudoeste</option>
+                  <option value="south">Sul</option>
                 </select>
               </div>
+
+              <div>
+                <Label htmlFor="roofTilt">Inclinação do telhado (°)</Label>
+                <Input
+                  id="roofTilt"
+                  type="number"
+                  min="0"
+                  max="90"
+                  placeholder="Automática"
+                  value={formData.roofTilt}
+                  onChange={(e) => handleInputChange('roofTilt', e.target.value)}
+                  className="mt-1"
+                />
+              </div>
               
               <div>
                 <Label htmlFor="shading">Sombreamento</Label>
@@ -364,6 +447,10 @@ export function SolarCalculator() {
                 </div>
                 <div className="text-sm text-gray-600">Área necessária</div>
               </div>
+
+              <div className="text-sm text-gray-600">
+                Inclinação de {formatNumber(result.tilt)}° em {result.municipality.name} - {result.municipality.state}
+              </div>
             </CardContent>
           </Card>
 
@@ -390,6 +477,10 @@ export function SolarCalculator() {
                 <div className="text-sm text-gray-600">Por ano</div>
               </div>
               
+              <div className="text-sm text-gray-600">
+                {formatNumber(result.specificYield)} kWh/kWp/ano · PR {formatNumber(result.performanceRatio * 100)}%
+              </div>
+              
               <Badge variant="outline" className="w-full justify-center">
                 <Leaf className="w-4 h-4 mr-1" />
                 {formatNumber(result.co2Reduction)} kg CO₂ evitados/ano
@@ -415,17 +506,61 @@ export function SolarCalculator() {
               
               <div>
                 <div className="text-xl font-semibold text-green-600">
-                  {formatCurrency(result.monthlySavings)}
+                  {formatCurrency(result.financial.monthlySavings)}
                 </div>
-                <div className="text-sm text-gray-600">Economia mensal</div>
+                <div className="text-sm text-gray-600">Economia mensal no 1º ano</div>
               </div>
               
-              <div>
-                <div className="text-lg font-medium">
-                  {formatNumber(result.paybackPeriod, 1)} anos
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-lg font-medium">
+                    {formatYears(result.financial.paybackPeriod)}
+                  </div>
+                  <div className="text-sm text-gray-600">Payback simples</div>
+                </div>
+
+                <div>
+                  <div className="text-lg font-medium">
+                    {formatYears(result.financial.discountedPaybackPeriod)}
+                  </div>
+                  <div className="text-sm text-gray-600">Payback descontado</div>
+                </div>
+
+                <div>
+                  <div className="text-lg font-medium">
+                    {formatCurrency(result.financial.netPresentValue)}
+                  </div>
+                  <div className="text-sm text-gray-600">VPL</div>
+                </div>
+
+                <div>
+                  <div className="text-lg font-medium">
+                    {result.financial.internalRateOfReturn !== null
+                      ? `${formatNumber(result.financial.internalRateOfReturn * 100, 1)}%`
+                      : '-'}
+                  </div>
+                  <div className="text-sm text-gray-600">TIR</div>
                 </div>
-                <div className="text-sm text-gray-600">Retorno do investimento</div>
               </div>
+
+              <Badge variant="outline" className="w-full justify-center">
+                {result.financial.compensationRule === 'GD_I'
+                  ? 'Regra GD I: isento de Fio B até 2045'
+                  : 'Regra GD II: Fio B conforme Lei 14.300'}
+              </Badge>
+            </CardContent>
+          </Card>
+
+          {/* Monthly Generation Curve */}
+          <Card className="md:col-span-2 lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <BarChart3 className="w-5 h-5 mr-2" />
+                Geração Mês a Mês
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MonthlyGenerationChart monthly={result.monthly} formatNumber={formatNumber} />
             </CardContent>
           </Card>
 
@@ -441,7 +576,7 @@ export function SolarCalculator() {
               <div className="grid md:grid-cols-4 gap-6 text-center">
                 <div>
                   <div className="text-3xl font-bold text-green-600">
-                    {formatCurrency(result.yearlySavings * 25)}
+                    {formatCurrency(result.financial.totalSavings)}
                   </div>
                   <div className="text-sm text-gray-600">Economia total</div>
                 </div>
@@ -455,7 +590,7 @@ export function SolarCalculator() {
                 
                 <div>
                   <div className="text-3xl font-bold text-purple-600">
-                    {formatNumber((result.yearlySavings * 25 - result.systemCost) / result.systemCost * 100)}%
+                    {formatNumber((result.financial.totalSavings - result.systemCost) / result.systemCost * 100)}%
                   </div>
                   <div className="text-sm text-gray-600">ROI total</div>
                 </div>
@@ -467,8 +602,33 @@ export function SolarCalculator() {
                   <div className="text-sm text-gray-600">CO₂ evitado</div>
                 </div>
               </div>
+
+              <CashFlowTable cashFlows={result.financial.cashFlows} formatCurrency={formatCurrency} />
             </CardContent>
           </Card>
+
+          {simulationInput && (
+            <SaveSimulation
+              key={JSON.stringify(simulationInput)}
+              input={simulationInput}
+              defaultTitle={`Simulação ${formatNumber(result.systemSize, 2)} kWp - ${result.municipality.name}`}
+            />
+          )}
+
+          <SimulationMatches
+            simulation={{
+              municipality: result.municipality,
+              monthlyBill: result.monthlyBill,
+              systemSize: result.systemSize,
+              panelCount: result.panelCount,
+              yearlyGeneration: result.yearlyGeneration,
+              monthlyGeneration: result.monthly.map(month => month.generation),
+              systemCost: result.systemCost,
+              monthlySavings: result.financial.monthlySavings,
+              paybackPeriod: result.financial.paybackPeriod
+            }}
+            electricityBill={bill}
+          />
         </div>
       )}
 
@@ -487,4 +647,4 @@ export function SolarCalculator() {
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
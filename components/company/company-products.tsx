@@ -1,6 +1,7 @@
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
+import { StartConversationButton } from "@/components/messages/start-conversation-button"
 import { Eye, ShoppingCart } from "lucide-react"
 
 interface Product {
@@ -128,6 +129,13 @@ export function CompanyProducts({ products, companySlug }: CompanyProductsProps)
               <Eye className="w-3 h-3 mr-2" />
               Ver Detalhes
             </Button>
+
+            <StartConversationButton
+              context={{ productId: product.id }}
+              label="Conversar sobre este produto"
+              size="sm"
+              className="w-full mt-2"
+            />
           </CardContent>
         </Card>
       ))}
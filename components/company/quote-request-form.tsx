@@ -7,6 +7,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ElectricityBillUpload } from '@/components/calculator/electricity-bill-upload'
+import type { ElectricityBill } from '@/lib/solar/bill'
 import { 
   MessageSquare, 
   Send, 
@@ -42,6 +44,7 @@ export function QuoteRequestForm({ companyId, companyName }: QuoteRequestFormPro
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [bill, setBill] = useState<ElectricityBill | null>(null)
 
   const {
     register,
@@ -69,13 +72,15 @@ export function QuoteRequestForm({ companyId, companyName }: QuoteRequestFormPro
         body: JSON.stringify({
           ...data,
           companyId,
-          source: 'company_profile'
+          source: 'company_profile',
+          electricityBill: bill ?? undefined
         }),
       })
 
       if (response.ok) {
         setIsSuccess(true)
         reset()
+        setBill(null)
         // Reset success state after 5 seconds
         setTimeout(() => setIsSuccess(false), 5000)
       } else {
@@ -231,6 +236,14 @@ export function QuoteRequestForm({ companyId, companyName }: QuoteRequestFormPro
             </div>
           </div>
 
+          {/* Electricity bill */}
+          <div>
+            <Label>Conta de luz (opcional)</Label>
+            <div className="mt-1">
+              <ElectricityBillUpload bill={bill} onChange={setBill} />
+            </div>
+          </div>
+
           {/* Message */}
           <div>
             <Label htmlFor="message">Mensagem *</Label>
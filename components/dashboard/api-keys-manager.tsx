@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { Ban, Code, Copy, KeyRound, Loader2, Pencil, Plus } from 'lucide-react'
+
+interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  allowedOrigins: string[]
+  lastUsedAt?: string | null
+  revokedAt?: string | null
+  createdAt: string
+  _count: { leads: number }
+}
+
+const EMPTY_FORM = { name: '', origins: '' }
+
+// Aceita um domínio por linha ou separados por vírgula
+const parseOrigins = (value: string) =>
+  value.split(/[\n,]/).map(origin => origin.trim()).filter(Boolean)
+
+export function ApiKeysManager() {
+  const { addToast } = useToast()
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingOrigins, setEditingOrigins] = useState('')
+  const [appUrl, setAppUrl] = useState('')
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await fetch('/api/company/api-keys')
+      if (response.ok) {
+        const data = await response.json()
+        setApiKeys(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching API keys:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setAppUrl(process.env.NEXT_PUBLIC_APP_URL || window.location.origin)
+    fetchApiKeys()
+  }, [])
+
+  const showError = (title: string, error: unknown) => {
+    addToast({
+      type: 'error',
+      title,
+      message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+    })
+  }
+
+  const createKey = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/company/api-keys', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          allowedOrigins: parseOrigins(form.origins)
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setForm(EMPTY_FORM)
+      setCreatedKey(data.data.key)
+      fetchApiKeys()
+    } catch (error) {
+      showError('Não foi possível criar a chave', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveOrigins = async (apiKey: ApiKey) => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(`/api/company/api-keys/${apiKey.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ allowedOrigins: parseOrigins(editingOrigins) }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setEditingId(null)
+      fetchApiKeys()
+    } catch (error) {
+      showError('Não foi possível salvar os domínios', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const revokeKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Revogar a chave "${apiKey.name}"? Os formulários que a usam deixarão de enviar leads.`)) return
+
+    try {
+      const response = await fetch(`/api/company/api-keys/${apiKey.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        fetchApiKeys()
+      }
+    } catch (error) {
+      console.error('Error revoking API key:', error)
+    }
+  }
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      addToast({ type: 'success', title: 'Copiado!' })
+    } catch (error) {
+      showError('Não foi possível copiar', error)
+    }
+  }
+
+  const snippet = [
+    '<div id="solarconnect-leads"></div>',
+    `<script src="${appUrl}/api/public/v1/widget.js"`,
+    `  data-api-key="${createdKey ?? 'SUA_CHAVE'}"`,
+    '  data-target="#solarconnect-leads" async></script>'
+  ].join('\n')
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Formulário no seu Site
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Receba no funil os pedidos de orçamento do seu próprio site, pelo formulário pronto ou pela API
+          pública. Cada chave só aceita envios do navegador a partir dos domínios cadastrados.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-3">
+          <div>
+            <Label htmlFor="api-key-name">Nome da chave</Label>
+            <Input
+              id="api-key-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Ex.: Site institucional"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="api-key-origins">Domínios permitidos</Label>
+            <Textarea
+              id="api-key-origins"
+              rows={2}
+              value={form.origins}
+              onChange={(e) => setForm({ ...form, origins: e.target.value })}
+              placeholder={'www.suaempresa.com.br\n*.suaempresa.com.br'}
+            />
+          </div>
+        </div>
+        <Button onClick={createKey} disabled={saving || !form.name}>
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Criar chave
+        </Button>
+
+        {createdKey && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium text-amber-900">
+              Copie a chave agora: por segurança ela não será exibida novamente.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdKey} className="font-mono text-sm" />
+              <Button variant="outline" onClick={() => copy(createdKey)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="border rounded-lg">
+          <div className="flex items-center justify-between bg-muted p-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <Code className="w-4 h-4" />
+              Código para o site
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => copy(snippet)}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar
+            </Button>
+          </div>
+          <pre className="p-3 text-xs overflow-x-auto">{snippet}</pre>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center text-gray-600">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Carregando chaves...
+          </div>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-600">Nenhuma chave criada.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {apiKeys.map(apiKey => (
+              <div key={apiKey.id} className="p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {apiKey.name}
+                      <span className="font-mono text-sm text-gray-500 font-normal"> · {apiKey.prefix}…</span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {apiKey._count.leads} lead(s) recebidos
+                      {apiKey.lastUsedAt && ` · último uso em ${new Date(apiKey.lastUsedAt).toLocaleString('pt-BR')}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {apiKey.revokedAt ? (
+                      <Badge variant="outline">Revogada</Badge>
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingId(apiKey.id)
+                            setEditingOrigins(apiKey.allowedOrigins.join('\n'))
+                          }}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => revokeKey(apiKey)}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {editingId === apiKey.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      rows={3}
+                      value={editingOrigins}
+                      onChange={(e) => setEditingOrigins(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => saveOrigins(apiKey)} disabled={saving}>
+                        Salvar domínios
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Cancelar
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.allowedOrigins.length === 0 ? (
+                      <span className="text-xs text-gray-500">
+                        Sem domínios: aceita apenas chamadas de servidor
+                      </span>
+                    ) : (
+                      apiKey.allowedOrigins.map(origin => (
+                        <Badge key={origin} variant="secondary">{origin}</Badge>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,554 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { CalendarOff, CalendarClock, Copy, HardHat, Link2, Loader2, Plus, Trash2, X } from 'lucide-react'
+import { WEEKDAY_LABELS } from '@/lib/appointments/availability'
+import type { AvailabilityConfig, WeeklyHours } from '@/lib/validations'
+
+interface Technician {
+  id: string
+  name: string
+  phone?: string | null
+  active: boolean
+  workingHours: WeeklyHours | null
+  calendarFeedUrl: string | null
+}
+
+interface BlackoutDate {
+  id: string
+  startDate: string
+  endDate: string
+  reason?: string | null
+  technician?: { id: string; name: string } | null
+}
+
+interface Holiday {
+  date: string
+  name: string
+}
+
+const parameterFields: Array<{
+  key: 'slotIntervalMinutes' | 'visitDurationMinutes' | 'bufferMinutes' | 'minNoticeHours' | 'maxAdvanceDays'
+  label: string
+  hint: string
+}> = [
+  { key: 'visitDurationMinutes', label: 'Duração da visita (min)', hint: 'Usada quando o cliente não escolhe outra' },
+  { key: 'slotIntervalMinutes', label: 'Intervalo entre horários (min)', hint: 'Ex.: 30 oferece 09:00, 09:30, 10:00...' },
+  { key: 'bufferMinutes', label: 'Deslocamento entre visitas (min)', hint: 'Folga antes e depois de cada visita do técnico' },
+  { key: 'minNoticeHours', label: 'Antecedência mínima (horas)', hint: 'Horários mais próximos não aparecem para o cliente' },
+  { key: 'maxAdvanceDays', label: 'Agenda aberta (dias)', hint: 'Até quantos dias à frente é possível agendar' }
+]
+
+const EMPTY_BLACKOUT = { startDate: '', endDate: '', reason: '', technicianId: '' }
+
+const formatDateKey = (date: string) => date.split('-').reverse().join('/')
+
+interface WeeklyHoursEditorProps {
+  value: WeeklyHours
+  onChange: (value: WeeklyHours) => void
+}
+
+// Expediente de cada dia da semana, com até quatro intervalos (ex.: manhã e tarde)
+function WeeklyHoursEditor({ value, onChange }: WeeklyHoursEditorProps) {
+  const updateDay = (weekday: number, intervals: WeeklyHours[number]) =>
+    onChange(value.map((day, index) => (index === weekday ? intervals : day)))
+
+  return (
+    <div className="divide-y border rounded-lg">
+      {value.map((intervals, weekday) => (
+        <div key={weekday} className="flex flex-wrap items-center gap-3 p-3">
+          <label className="flex items-center gap-2 w-32 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={intervals.length > 0}
+              onChange={(e) => updateDay(weekday, e.target.checked ? [{ start: '09:00', end: '18:00' }] : [])}
+            />
+            <span className="font-medium text-gray-900">{WEEKDAY_LABELS[weekday]}</span>
+          </label>
+
+          {intervals.length === 0 ? (
+            <span className="text-sm text-gray-500">Sem visitas</span>
+          ) : (
+            intervals.map((interval, index) => (
+              <div key={index} className="flex items-center gap-1">
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={interval.start}
+                  onChange={(e) => updateDay(weekday, intervals.map((item, i) => (i === index ? { ...item, start: e.target.value } : item)))}
+                />
+                <span className="text-gray-500">–</span>
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={interval.end}
+                  onChange={(e) => updateDay(weekday, intervals.map((item, i) => (i === index ? { ...item, end: e.target.value } : item)))}
+                />
+                {intervals.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Remover intervalo"
+                    onClick={() => updateDay(weekday, intervals.filter((_, i) => i !== index))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+
+          {intervals.length > 0 && intervals.length < 4 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateDay(weekday, [...intervals, { start: intervals[intervals.length - 1].end, end: '18:00' }])}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Intervalo
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AvailabilitySettings() {
+  const { addToast } = useToast()
+  const [config, setConfig] = useState<AvailabilityConfig | null>(null)
+  const [technicians, setTechnicians] = useState<Technician[]>([])
+  const [blackouts, setBlackouts] = useState<BlackoutDate[]>([])
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [saving, setSaving] = useState(false)
+  const [technicianForm, setTechnicianForm] = useState({ name: '', phone: '' })
+  const [editingHoursId, setEditingHoursId] = useState<string | null>(null)
+  const [blackoutForm, setBlackoutForm] = useState(EMPTY_BLACKOUT)
+
+  const fetchAvailability = async () => {
+    try {
+      const response = await fetch('/api/company/availability')
+      if (response.ok) {
+        const data = await response.json()
+        setConfig(data.data.config)
+        setTechnicians(data.data.technicians)
+        setBlackouts(data.data.blackouts)
+        setHolidays(data.data.holidays)
+      }
+    } catch (error) {
+      console.error('Error fetching availability:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchAvailability()
+  }, [])
+
+  // Envia a requisição e mostra o primeiro erro de validação; retorna os dados ou null
+  const send = async (url: string, method: string, body: unknown, errorTitle: string) => {
+    setSaving(true)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      return data
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: errorTitle,
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveConfig = async () => {
+    if (!config) return
+
+    const data = await send('/api/company/availability', 'PUT', config, 'Não foi possível salvar a agenda')
+    if (data) {
+      setConfig(data.data)
+      addToast({
+        type: 'success',
+        title: 'Agenda atualizada!',
+        message: 'Os novos horários já aparecem para os clientes'
+      })
+    }
+  }
+
+  const addTechnician = async () => {
+    const data = await send('/api/company/technicians', 'POST', {
+      name: technicianForm.name,
+      phone: technicianForm.phone || undefined
+    }, 'Não foi possível cadastrar o técnico')
+
+    if (data) {
+      setTechnicianForm({ name: '', phone: '' })
+      fetchAvailability()
+    }
+  }
+
+  const updateTechnician = async (technician: Technician, changes: Partial<Technician>) => {
+    const data = await send(`/api/company/technicians/${technician.id}`, 'PUT', changes, 'Não foi possível atualizar o técnico')
+
+    if (data) {
+      setTechnicians(prev => prev.map(item => (item.id === technician.id ? { ...item, ...changes } : item)))
+    }
+    return !!data
+  }
+
+  const removeTechnician = async (technician: Technician) => {
+    if (!confirm(`Remover ${technician.name}? As visitas já agendadas com ele ficam sem técnico definido.`)) return
+
+    const data = await send(`/api/company/technicians/${technician.id}`, 'DELETE', undefined, 'Não foi possível remover o técnico')
+    if (data) {
+      fetchAvailability()
+    }
+  }
+
+  // Link da agenda do técnico para assinar no celular; gerar de novo invalida o anterior
+  const generateFeed = async (technician: Technician) => {
+    if (technician.calendarFeedUrl && !confirm(`Gerar um novo link para ${technician.name}? O link atual para de funcionar.`)) return
+
+    const data = await send(`/api/company/technicians/${technician.id}/calendar-feed`, 'POST', undefined, 'Não foi possível gerar o link')
+    if (data) {
+      setTechnicians(prev => prev.map(item => (item.id === technician.id ? { ...item, calendarFeedUrl: data.data.url } : item)))
+    }
+  }
+
+  const copyFeed = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      addToast({ type: 'success', title: 'Copiado!' })
+    } catch (error) {
+      addToast({ type: 'error', title: 'Não foi possível copiar', message: 'Selecione o link e copie manualmente' })
+    }
+  }
+
+  const addBlackout = async () => {
+    const data = await send('/api/company/availability/blackouts', 'POST', {
+      startDate: blackoutForm.startDate,
+      endDate: blackoutForm.endDate || undefined,
+      reason: blackoutForm.reason || undefined,
+      technicianId: blackoutForm.technicianId || undefined
+    }, 'Não foi possível bloquear as datas')
+
+    if (data) {
+      setBlackoutForm(EMPTY_BLACKOUT)
+      setBlackouts(prev => [...prev, data.data].sort((a, b) => (a.startDate < b.startDate ? -1 : 1)))
+    }
+  }
+
+  const removeBlackout = async (blackout: BlackoutDate) => {
+    const data = await send(`/api/company/availability/blackouts/${blackout.id}`, 'DELETE', undefined, 'Não foi possível liberar as datas')
+    if (data) {
+      setBlackouts(prev => prev.filter(item => item.id !== blackout.id))
+    }
+  }
+
+  if (!config) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center text-gray-600">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Carregando agenda...
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Agenda de Visitas
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Dias e horários em que os clientes podem agendar visitas técnicas (horário de Brasília).
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <WeeklyHoursEditor value={config.weeklyHours} onChange={(weeklyHours) => setConfig({ ...config, weeklyHours })} />
+
+          <div className="grid md:grid-cols-3 gap-4">
+            {parameterFields.map(field => (
+              <div key={field.key}>
+                <Label htmlFor={`availability-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`availability-${field.key}`}
+                  type="number"
+                  min={0}
+                  value={config[field.key]}
+                  onChange={(e) => setConfig({ ...config, [field.key]: Number(e.target.value) })}
+                />
+                <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={config.observeNationalHolidays}
+              onChange={(e) => setConfig({ ...config, observeNationalHolidays: e.target.checked })}
+            />
+            <span>
+              <span className="font-medium text-gray-900">Não atender em feriados nacionais</span>
+              <span className="block text-sm text-gray-600">
+                Inclui Carnaval e Corpus Christi. Feriados estaduais e municipais entram nas datas bloqueadas.
+              </span>
+              {config.observeNationalHolidays && holidays.length > 0 && (
+                <span className="block text-xs text-gray-500 mt-1">
+                  Próximos: {holidays.map(holiday => `${formatDateKey(holiday.date)} ${holiday.name}`).join(' · ')}
+                </span>
+              )}
+            </span>
+          </label>
+
+          <div className="flex justify-end">
+            <Button onClick={saveConfig} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar agenda
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HardHat className="w-5 h-5" />
+            Técnicos
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Cada técnico faz uma visita por vez. Com mais técnicos, o mesmo horário aceita mais de um cliente;
+            sem nenhum cadastrado, a empresa atende uma visita por vez.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-3 gap-3">
+            <Input
+              value={technicianForm.name}
+              onChange={(e) => setTechnicianForm({ ...technicianForm, name: e.target.value })}
+              placeholder="Nome"
+            />
+            <Input
+              value={technicianForm.phone}
+              onChange={(e) => setTechnicianForm({ ...technicianForm, phone: e.target.value })}
+              placeholder="Telefone (opcional)"
+            />
+            <Button onClick={addTechnician} disabled={saving || !technicianForm.name}>
+              <Plus className="w-4 h-4 mr-2" />
+              Adicionar
+            </Button>
+          </div>
+
+          {technicians.length === 0 ? (
+            <p className="text-sm text-gray-600">Nenhum técnico cadastrado.</p>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {technicians.map(technician => (
+                <div key={technician.id} className="p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <div className="font-medium text-gray-900">{technician.name}</div>
+                      <div className="text-sm text-gray-600">
+                        {technician.phone || 'Sem telefone'} · {technician.workingHours ? 'Expediente próprio' : 'Expediente da empresa'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!technician.active && <Badge variant="outline">Inativo</Badge>}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingHoursId(editingHoursId === technician.id ? null : technician.id)}
+                      >
+                        Expediente
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => generateFeed(technician)}
+                        title="Link da agenda para o celular do técnico"
+                      >
+                        <Link2 className="w-4 h-4 mr-1" />
+                        {technician.calendarFeedUrl ? 'Novo link' : 'Link da agenda'}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => updateTechnician(technician, { active: !technician.active })}
+                      >
+                        {technician.active ? 'Desativar' : 'Ativar'}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={saving}
+                        onClick={() => removeTechnician(technician)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {technician.calendarFeedUrl && (
+                    <div className="flex gap-2">
+                      <Input readOnly value={technician.calendarFeedUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                      <Button variant="outline" size="sm" onClick={() => copyFeed(technician.calendarFeedUrl!)} aria-label="Copiar link">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+
+                  {editingHoursId === technician.id && (
+                    <div className="space-y-3">
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!technician.workingHours}
+                          onChange={(e) => setTechnicians(prev => prev.map(item => (
+                            item.id === technician.id
+                              ? { ...item, workingHours: e.target.checked ? config.weeklyHours : null }
+                              : item
+                          )))}
+                        />
+                        Usar expediente próprio
+                      </label>
+                      {technician.workingHours && (
+                        <WeeklyHoursEditor
+                          value={technician.workingHours}
+                          onChange={(workingHours) => setTechnicians(prev => prev.map(item => (
+                            item.id === technician.id ? { ...item, workingHours } : item
+                          )))}
+                        />
+                      )}
+                      <div className="flex justify-end">
+                        <Button
+                          size="sm"
+                          disabled={saving}
+                          onClick={async () => {
+                            if (await updateTechnician(technician, { workingHours: technician.workingHours })) {
+                              setEditingHoursId(null)
+                            }
+                          }}
+                        >
+                          Salvar expediente
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="w-5 h-5" />
+            Datas Bloqueadas
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Férias, folgas e feriados locais. Sem técnico selecionado, a empresa inteira fica sem visitas.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-5 gap-3">
+            <Input
+              type="date"
+              aria-label="Data inicial"
+              value={blackoutForm.startDate}
+              onChange={(e) => setBlackoutForm({ ...blackoutForm, startDate: e.target.value })}
+            />
+            <Input
+              type="date"
+              aria-label="Data final"
+              min={blackoutForm.startDate}
+              value={blackoutForm.endDate}
+              onChange={(e) => setBlackoutForm({ ...blackoutForm, endDate: e.target.value })}
+            />
+            <select
+              aria-label="Técnico"
+              value={blackoutForm.technicianId}
+              onChange={(e) => setBlackoutForm({ ...blackoutForm, technicianId: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Empresa inteira</option>
+              {technicians.map(technician => (
+                <option key={technician.id} value={technician.id}>{technician.name}</option>
+              ))}
+            </select>
+            <Input
+              value={blackoutForm.reason}
+              onChange={(e) => setBlackoutForm({ ...blackoutForm, reason: e.target.value })}
+              placeholder="Motivo (opcional)"
+            />
+            <Button onClick={addBlackout} disabled={saving || !blackoutForm.startDate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Bloquear
+            </Button>
+          </div>
+
+          {blackouts.length === 0 ? (
+            <p className="text-sm text-gray-600">Nenhuma data bloqueada.</p>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {blackouts.map(blackout => (
+                <div key={blackout.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {formatDateKey(blackout.startDate)}
+                      {blackout.endDate !== blackout.startDate && ` a ${formatDateKey(blackout.endDate)}`}
+                      {blackout.reason && <span className="text-sm text-gray-500 font-normal"> · {blackout.reason}</span>}
+                    </div>
+                    <div className="text-sm text-gray-600">{blackout.technician?.name ?? 'Empresa inteira'}</div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    disabled={saving}
+                    onClick={() => removeBlackout(blackout)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
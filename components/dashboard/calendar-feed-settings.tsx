@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useToast } from '@/components/ui/toast'
+import { CalendarPlus, Copy, Loader2, RefreshCw } from 'lucide-react'
+
+interface CalendarFeedSettingsProps {
+  isCompany: boolean
+}
+
+export function CalendarFeedSettings({ isCompany }: CalendarFeedSettingsProps) {
+  const { addToast } = useToast()
+  const [url, setUrl] = useState<string | null>(null)
+  const [regenerating, setRegenerating] = useState(false)
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const response = await fetch('/api/calendar/feed')
+        if (response.ok) {
+          const data = await response.json()
+          setUrl(data.data.url)
+        }
+      } catch (error) {
+        console.error('Error fetching calendar feed:', error)
+      }
+    }
+
+    fetchFeed()
+  }, [])
+
+  const copy = async () => {
+    if (!url) return
+
+    try {
+      await navigator.clipboard.writeText(url)
+      addToast({ type: 'success', title: 'Copiado!' })
+    } catch (error) {
+      addToast({ type: 'error', title: 'Não foi possível copiar', message: 'Selecione o link e copie manualmente' })
+    }
+  }
+
+  const regenerate = async () => {
+    if (!confirm('Gerar um novo link? Calendários que usam o link atual param de receber as visitas.')) return
+
+    setRegenerating(true)
+    try {
+      const response = await fetch('/api/calendar/feed', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      setUrl(data.data.url)
+      addToast({ type: 'success', title: 'Novo link gerado!', message: 'Atualize a assinatura nos seus calendários' })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível gerar o link',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setRegenerating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarPlus className="w-5 h-5" />
+          Agenda no Calendário
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {isCompany
+            ? 'Assine este link no Google Agenda, Apple Calendário ou Outlook para ver todas as visitas da empresa. Cada técnico tem o próprio link, em Técnicos.'
+            : 'Assine este link no Google Agenda, Apple Calendário ou Outlook para ver suas visitas agendadas.'}
+          {' '}Confirmações, remarcações e cancelamentos aparecem automaticamente. Não compartilhe o link.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {!url ? (
+          <div className="flex items-center text-gray-600">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Carregando...
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input readOnly value={url} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" onClick={copy} aria-label="Copiar link">
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={regenerate} disabled={regenerating} aria-label="Gerar novo link">
+              {regenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
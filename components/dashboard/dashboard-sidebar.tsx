@@ -12,7 +12,9 @@ import {
   Settings,
   Users,
   MessageSquare,
-  FileText
+  FileText,
+  ClipboardCheck,
+  Wrench
 } from 'lucide-react'
 
 const navigation = [
@@ -51,6 +53,16 @@ const navigation = [
     href: '/dashboard/orcamentos',
     icon: FileText,
   },
+  {
+    name: 'Vistorias',
+    href: '/dashboard/vistorias',
+    icon: ClipboardCheck,
+  },
+  {
+    name: 'Instalações',
+    href: '/dashboard/instalacoes',
+    icon: Wrench,
+  },
   {
     name: 'Mensagens',
     href: '/dashboard/mensagens',
@@ -0,0 +1,468 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/components/ui/toast'
+import { useUploadThing } from '@/hooks/use-uploadthing'
+import {
+  formatExpectedDate,
+  getInstallationProgress,
+  getInstallationStepBlocker,
+  INSTALLATION_STAGE_DESCRIPTIONS,
+  INSTALLATION_STAGE_LABELS,
+  INSTALLATION_STAGES,
+  isInstallationStepOverdue,
+  toExpectedDateKey,
+  type InstallationStage
+} from '@/lib/installations/stages'
+import {
+  CheckCircle,
+  Circle,
+  Copy,
+  Eye,
+  EyeOff,
+  FileText,
+  Loader2,
+  RotateCcw,
+  Trash2,
+  Upload
+} from 'lucide-react'
+
+interface InstallationStep {
+  stage: InstallationStage
+  expectedDate: Date | string | null
+  completedAt: Date | string | null
+  notes: string | null
+}
+
+interface InstallationDocument {
+  id: string
+  stage: InstallationStage
+  name: string
+  visibleToCustomer: boolean
+}
+
+interface InstallationManagerProps {
+  projectId: string
+  trackerUrl: string
+  initialCustomer: { customerName: string; customerEmail: string | null }
+  initialSteps: InstallationStep[]
+  initialDocuments: InstallationDocument[]
+}
+
+const byStageOrder = (a: InstallationStep, b: InstallationStep) =>
+  INSTALLATION_STAGES.indexOf(a.stage) - INSTALLATION_STAGES.indexOf(b.stage)
+
+// Abre o acompanhamento de um orçamento aceito antes do recurso existir
+export function OpenInstallationButton({ quoteId }: { quoteId: string }) {
+  const router = useRouter()
+  const { addToast } = useToast()
+  const [opening, setOpening] = useState(false)
+
+  const open = async () => {
+    setOpening(true)
+
+    try {
+      const response = await fetch('/api/installations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ quoteId }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      router.push(`/dashboard/instalacoes/${data.data.id}`)
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível abrir o acompanhamento',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+      setOpening(false)
+    }
+  }
+
+  return (
+    <Button size="sm" onClick={open} disabled={opening}>
+      {opening && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+      Abrir acompanhamento
+    </Button>
+  )
+}
+
+// Etapas, previsões e documentos da instalação; cada mudança avisa o cliente
+export function InstallationManager({
+  projectId,
+  trackerUrl,
+  initialCustomer,
+  initialSteps,
+  initialDocuments
+}: InstallationManagerProps) {
+  const { addToast } = useToast()
+  const { startUpload } = useUploadThing('installationDocument')
+  const [customer, setCustomer] = useState({
+    customerName: initialCustomer.customerName,
+    customerEmail: initialCustomer.customerEmail ?? ''
+  })
+  const [steps, setSteps] = useState<InstallationStep[]>([...initialSteps].sort(byStageOrder))
+  const [drafts, setDrafts] = useState<Record<string, { expectedDate: string; notes: string }>>(() =>
+    Object.fromEntries(initialSteps.map(step => [step.stage, {
+      expectedDate: step.expectedDate ? toExpectedDateKey(step.expectedDate) : '',
+      notes: step.notes ?? ''
+    }]))
+  )
+  const [documents, setDocuments] = useState<InstallationDocument[]>(initialDocuments)
+  const [savingCustomer, setSavingCustomer] = useState(false)
+  const [busyStage, setBusyStage] = useState<InstallationStage | null>(null)
+  const [uploadStage, setUploadStage] = useState<InstallationStage | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const pendingUploadStage = useRef<InstallationStage | null>(null)
+
+  const now = new Date()
+
+  const saveCustomer = async () => {
+    setSavingCustomer(true)
+
+    try {
+      const response = await fetch(`/api/installations/${projectId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          customerName: customer.customerName,
+          customerEmail: customer.customerEmail || null
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      addToast({ type: 'success', title: 'Dados do cliente salvos' })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível salvar os dados do cliente',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSavingCustomer(false)
+    }
+  }
+
+  const copyTrackerUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(trackerUrl)
+      addToast({ type: 'success', title: 'Link copiado', message: 'Envie ao cliente para ele acompanhar a instalação' })
+    } catch (error) {
+      console.error('Error copying tracker URL:', error)
+    }
+  }
+
+  const updateStep = async (
+    stage: InstallationStage,
+    body: { completed?: boolean; expectedDate?: string | null; notes?: string | null }
+  ) => {
+    setBusyStage(stage)
+
+    try {
+      const response = await fetch(`/api/installations/${projectId}/steps/${stage}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setSteps([...data.data.steps].sort(byStageOrder))
+      addToast({ type: 'success', title: data.message })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível atualizar a etapa',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setBusyStage(null)
+    }
+  }
+
+  const saveStepDetails = (stage: InstallationStage) => {
+    const draft = drafts[stage]
+    return updateStep(stage, { expectedDate: draft.expectedDate || null, notes: draft.notes || null })
+  }
+
+  const chooseFiles = (stage: InstallationStage) => {
+    pendingUploadStage.current = stage
+    fileInputRef.current?.click()
+  }
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const stage = pendingUploadStage.current
+    const selected = Array.from(event.target.files ?? [])
+    if (!stage || selected.length === 0) return
+
+    setUploadStage(stage)
+
+    try {
+      const uploaded = await startUpload(selected, { projectId, stage })
+      if (!uploaded) throw new Error('Upload failed')
+
+      setDocuments(prev => [
+        ...prev,
+        ...uploaded.map(file => ({ id: file.serverData.documentId, stage, name: file.name, visibleToCustomer: true }))
+      ])
+    } catch (error) {
+      console.error('Error uploading installation documents:', error)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível enviar os documentos',
+        message: 'Envie PDFs de até 16MB ou imagens de até 8MB'
+      })
+    } finally {
+      setUploadStage(null)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const toggleVisibility = async (document: InstallationDocument) => {
+    const visibleToCustomer = !document.visibleToCustomer
+    setDocuments(prev => prev.map(item => (item.id === document.id ? { ...item, visibleToCustomer } : item)))
+
+    try {
+      const response = await fetch(`/api/installations/${projectId}/documents/${document.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ visibleToCustomer }),
+      })
+      if (!response.ok) throw new Error('Update failed')
+    } catch (error) {
+      setDocuments(prev => prev.map(item => (item.id === document.id ? document : item)))
+      addToast({
+        type: 'error',
+        title: 'Não foi possível alterar o documento',
+        message: 'Tente novamente mais tarde'
+      })
+    }
+  }
+
+  const removeDocument = async (documentId: string) => {
+    if (!confirm('Remover este documento?')) return
+
+    const previous = documents
+    setDocuments(prev => prev.filter(item => item.id !== documentId))
+
+    try {
+      const response = await fetch(`/api/installations/${projectId}/documents/${documentId}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Delete failed')
+    } catch (error) {
+      setDocuments(previous)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível remover o documento',
+        message: 'Tente novamente mais tarde'
+      })
+    }
+  }
+
+  const progress = getInstallationProgress(steps)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Cliente</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="installation-customer-name">Nome</Label>
+              <Input
+                id="installation-customer-name"
+                value={customer.customerName}
+                onChange={(e) => setCustomer(prev => ({ ...prev, customerName: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="installation-customer-email">Email para os avisos</Label>
+              <Input
+                id="installation-customer-email"
+                type="email"
+                value={customer.customerEmail}
+                onChange={(e) => setCustomer(prev => ({ ...prev, customerEmail: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={saveCustomer} disabled={savingCustomer}>
+              {savingCustomer && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+            <Button variant="outline" onClick={copyTrackerUrl}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar link do cliente
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Etapas</CardTitle>
+          <div className="flex items-center gap-3 pt-2">
+            <Progress value={progress} className="h-2" />
+            <span className="text-sm text-gray-600 whitespace-nowrap">{progress}%</span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf,image/*"
+            multiple
+            className="hidden"
+            onChange={handleFiles}
+          />
+
+          {steps.map(step => {
+            const draft = drafts[step.stage] ?? { expectedDate: '', notes: '' }
+            const stageDocuments = documents.filter(document => document.stage === step.stage)
+            const canComplete = !step.completedAt && !getInstallationStepBlocker(steps, step.stage, true)
+            const canReopen = !!step.completedAt && !getInstallationStepBlocker(steps, step.stage, false)
+            const busy = busyStage === step.stage
+
+            return (
+              <div key={step.stage} className="border-b border-gray-100 pb-6 last:border-0 last:pb-0 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="flex items-start gap-3">
+                    {step.completedAt ? (
+                      <CheckCircle className="w-5 h-5 mt-0.5 text-green-600 shrink-0" />
+                    ) : (
+                      <Circle className="w-5 h-5 mt-0.5 text-gray-300 shrink-0" />
+                    )}
+                    <div>
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {INSTALLATION_STAGE_LABELS[step.stage]}
+                        {isInstallationStepOverdue(step, now) && <Badge className="bg-red-100 text-red-800">Atrasada</Badge>}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {step.completedAt
+                          ? `Concluída em ${formatExpectedDate(step.completedAt)}`
+                          : INSTALLATION_STAGE_DESCRIPTIONS[step.stage]}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {canComplete && (
+                      <Button size="sm" onClick={() => updateStep(step.stage, { completed: true })} disabled={busy}>
+                        {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Concluir etapa
+                      </Button>
+                    )}
+                    {canReopen && (
+                      <Button size="sm" variant="outline" onClick={() => updateStep(step.stage, { completed: false })} disabled={busy}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reabrir
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid md:grid-cols-[180px_1fr_auto] gap-3 md:items-end pl-8">
+                  <div>
+                    <Label htmlFor={`expected-${step.stage}`} className="text-xs text-gray-500">Previsão</Label>
+                    <Input
+                      id={`expected-${step.stage}`}
+                      type="date"
+                      value={draft.expectedDate}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [step.stage]: { ...draft, expectedDate: e.target.value } }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`notes-${step.stage}`} className="text-xs text-gray-500">Observação para o cliente</Label>
+                    <Textarea
+                      id={`notes-${step.stage}`}
+                      rows={1}
+                      maxLength={1000}
+                      value={draft.notes}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [step.stage]: { ...draft, notes: e.target.value } }))}
+                    />
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => saveStepDetails(step.stage)} disabled={busy}>
+                    Salvar
+                  </Button>
+                </div>
+
+                <div className="pl-8 space-y-2">
+                  {stageDocuments.map(document => (
+                    <div key={document.id} className="flex items-center justify-between gap-2 text-sm">
+                      <a
+                        href={`/api/installations/${projectId}/documents/${document.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-blue-600 hover:underline truncate"
+                      >
+                        <FileText className="w-4 h-4 mr-1 shrink-0" />
+                        {document.name}
+                      </a>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleVisibility(document)}
+                          title={document.visibleToCustomer ? 'Visível para o cliente' : 'Só a empresa vê'}
+                        >
+                          {document.visibleToCustomer ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4 text-gray-400" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => removeDocument(document.id)}>
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => chooseFiles(step.stage)}
+                    disabled={uploadStage !== null}
+                  >
+                    {uploadStage === step.stage ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Upload className="w-4 h-4 mr-2" />
+                    )}
+                    Anexar documento
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
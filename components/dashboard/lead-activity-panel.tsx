@@ -0,0 +1,562 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import {
+  ArrowRight,
+  CheckCircle,
+  Circle,
+  Clock,
+  FileText,
+  ListTodo,
+  Loader2,
+  Mail,
+  MessageCircle,
+  MessageSquare,
+  Paperclip,
+  Phone,
+  Plus,
+  StickyNote,
+  Trash2
+} from 'lucide-react'
+import {
+  getTaskDueState,
+  LEAD_ACTIVITY_LABELS,
+  LEAD_ACTIVITY_TYPES,
+  type LeadActivityType,
+  type LeadTaskDueState
+} from '@/lib/leads/activities'
+import { formatStageDuration } from '@/lib/leads/sla'
+import { LeadDuplicatesCard } from './lead-duplicates-card'
+
+interface TeamMemberOption {
+  id: string
+  name: string
+}
+
+interface LeadTask {
+  id: string
+  title: string
+  description?: string | null
+  dueAt: string
+  completedAt?: string | null
+  assignee?: { id: string; name: string } | null
+}
+
+// Entradas da linha do tempo como chegam da API (datas serializadas)
+type TimelineEntry =
+  | {
+      kind: 'activity'
+      id: string
+      at: string
+      type: LeadActivityType
+      content: string
+      outcome: string | null
+      durationMinutes: number | null
+      author: { name: string | null } | null
+    }
+  | {
+      kind: 'stage'
+      id: string
+      at: string
+      label: string
+      timeInStageMinutes: number | null
+      author: { name: string | null } | null
+    }
+  | {
+      kind: 'task'
+      id: string
+      at: string
+      title: string
+      assigneeName: string | null
+    }
+  | {
+      kind: 'message'
+      id: string
+      at: string
+      conversationId: string
+      content: string
+      senderName: string | null
+      fromCustomer: boolean
+      attachmentCount: number
+    }
+  | {
+      kind: 'quote'
+      id: string
+      at: string
+      quoteId: string
+      label: string
+    }
+
+interface LeadActivityPanelProps {
+  leadId: string
+  members: TeamMemberOption[]
+}
+
+const activityIcons: Record<LeadActivityType, typeof StickyNote> = {
+  NOTE: StickyNote,
+  CALL: Phone,
+  WHATSAPP: MessageCircle,
+  EMAIL: Mail
+}
+
+const dueStateStyles: Record<LeadTaskDueState, string> = {
+  done: 'text-gray-500',
+  overdue: 'text-red-600 font-medium',
+  due_soon: 'text-amber-700',
+  upcoming: 'text-gray-600'
+}
+
+const EMPTY_ACTIVITY = { type: 'NOTE' as LeadActivityType, content: '', outcome: '', durationMinutes: '' }
+const EMPTY_TASK = { title: '', dueAt: '', assigneeId: '' }
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+
+export function LeadActivityPanel({ leadId, members }: LeadActivityPanelProps) {
+  const router = useRouter()
+  const { addToast } = useToast()
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([])
+  const [tasks, setTasks] = useState<LeadTask[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [activity, setActivity] = useState(EMPTY_ACTIVITY)
+  const [task, setTask] = useState(EMPTY_TASK)
+  const [savingActivity, setSavingActivity] = useState(false)
+  const [savingTask, setSavingTask] = useState(false)
+  const [updatingTaskId, setUpdatingTaskId] = useState<string | null>(null)
+
+  const fetchData = async () => {
+    try {
+      const [timelineResponse, tasksResponse] = await Promise.all([
+        fetch(`/api/leads/${leadId}/activities`),
+        fetch(`/api/leads/${leadId}/tasks`)
+      ])
+
+      if (timelineResponse.ok) {
+        const data = await timelineResponse.json()
+        setTimeline(data.data)
+      }
+      if (tasksResponse.ok) {
+        const data = await tasksResponse.json()
+        setTasks(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching lead activities:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [leadId])
+
+  const showError = (title: string, error: unknown) => {
+    addToast({
+      type: 'error',
+      title,
+      message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+    })
+  }
+
+  const saveActivity = async () => {
+    setSavingActivity(true)
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/activities`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: activity.type,
+          content: activity.content,
+          outcome: activity.outcome || undefined,
+          durationMinutes: activity.type === 'CALL' && activity.durationMinutes
+            ? parseInt(activity.durationMinutes)
+            : undefined
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setActivity({ ...EMPTY_ACTIVITY, type: activity.type })
+      fetchData()
+    } catch (error) {
+      showError('Não foi possível registrar a atividade', error)
+    } finally {
+      setSavingActivity(false)
+    }
+  }
+
+  const saveTask = async () => {
+    setSavingTask(true)
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/tasks`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: task.title,
+          dueAt: new Date(task.dueAt).toISOString(),
+          assigneeId: task.assigneeId || undefined
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setTask(EMPTY_TASK)
+      fetchData()
+    } catch (error) {
+      showError('Não foi possível criar a tarefa', error)
+    } finally {
+      setSavingTask(false)
+    }
+  }
+
+  const toggleTask = async (taskId: string, completed: boolean) => {
+    setUpdatingTaskId(taskId)
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ completed }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.message)
+      }
+
+      fetchData()
+    } catch (error) {
+      showError('Não foi possível atualizar a tarefa', error)
+    } finally {
+      setUpdatingTaskId(null)
+    }
+  }
+
+  const deleteTask = async (taskId: string) => {
+    if (!confirm('Excluir esta tarefa?')) return
+
+    setUpdatingTaskId(taskId)
+    try {
+      const response = await fetch(`/api/leads/${leadId}/tasks/${taskId}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        setTasks(prev => prev.filter(t => t.id !== taskId))
+      }
+    } catch (error) {
+      console.error('Error deleting lead task:', error)
+    } finally {
+      setUpdatingTaskId(null)
+    }
+  }
+
+  const pendingTasks = tasks.filter(t => !t.completedAt)
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        <LeadDuplicatesCard
+          leadId={leadId}
+          onMerged={() => {
+            fetchData()
+            router.refresh()
+          }}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Registrar Atividade</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {LEAD_ACTIVITY_TYPES.map(type => {
+                const Icon = activityIcons[type]
+                return (
+                  <Button
+                    key={type}
+                    type="button"
+                    size="sm"
+                    variant={activity.type === type ? 'default' : 'outline'}
+                    onClick={() => setActivity({ ...activity, type })}
+                  >
+                    <Icon className="w-4 h-4 mr-2" />
+                    {LEAD_ACTIVITY_LABELS[type]}
+                  </Button>
+                )
+              })}
+            </div>
+
+            <Textarea
+              rows={3}
+              value={activity.content}
+              onChange={(e) => setActivity({ ...activity, content: e.target.value })}
+              placeholder={activity.type === 'NOTE'
+                ? 'Ex: Cliente pediu para incluir carregador de carro elétrico'
+                : 'O que foi conversado?'}
+            />
+
+            {activity.type !== 'NOTE' && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="outcome">Resultado</Label>
+                  <Input
+                    id="outcome"
+                    value={activity.outcome}
+                    onChange={(e) => setActivity({ ...activity, outcome: e.target.value })}
+                    placeholder="Ex: Não atendeu, pediu retorno amanhã"
+                  />
+                </div>
+                {activity.type === 'CALL' && (
+                  <div>
+                    <Label htmlFor="durationMinutes">Duração (min)</Label>
+                    <Input
+                      id="durationMinutes"
+                      type="number"
+                      min="0"
+                      value={activity.durationMinutes}
+                      onChange={(e) => setActivity({ ...activity, durationMinutes: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Button onClick={saveActivity} disabled={savingActivity || !activity.content.trim()}>
+              {savingActivity ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Registrar
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Histórico</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center text-gray-600">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Carregando histórico...
+              </div>
+            ) : timeline.length === 0 ? (
+              <p className="text-sm text-gray-600">Nenhuma atividade registrada ainda.</p>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                {timeline.map(entry => (
+                  <li key={`${entry.kind}-${entry.id}`} className="ml-6">
+                    <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-white border border-gray-200">
+                      {entry.kind === 'activity' ? (
+                        (() => {
+                          const Icon = activityIcons[entry.type]
+                          return <Icon className="w-3 h-3 text-orange-600" />
+                        })()
+                      ) : entry.kind === 'stage' ? (
+                        <ArrowRight className="w-3 h-3 text-blue-600" />
+                      ) : entry.kind === 'message' ? (
+                        <MessageSquare className="w-3 h-3 text-purple-600" />
+                      ) : entry.kind === 'quote' ? (
+                        <FileText className="w-3 h-3 text-blue-600" />
+                      ) : (
+                        <CheckCircle className="w-3 h-3 text-green-600" />
+                      )}
+                    </span>
+
+                    <div className="text-xs text-gray-500 mb-1">
+                      {formatDateTime(entry.at)}
+                      {(entry.kind === 'activity' || entry.kind === 'stage') && entry.author?.name && ` · ${entry.author.name}`}
+                      {entry.kind === 'message' && ` · ${entry.senderName ?? 'Usuário'}${entry.fromCustomer ? ' (cliente)' : ''}`}
+                    </div>
+
+                    {entry.kind === 'activity' && (
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant="secondary">{LEAD_ACTIVITY_LABELS[entry.type]}</Badge>
+                          {entry.durationMinutes !== null && (
+                            <span className="text-xs text-gray-500">{formatStageDuration(entry.durationMinutes)}</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-800 whitespace-pre-line">{entry.content}</p>
+                        {entry.outcome && (
+                          <p className="text-sm text-gray-600 mt-1"><strong>Resultado:</strong> {entry.outcome}</p>
+                        )}
+                      </div>
+                    )}
+
+                    {entry.kind === 'stage' && (
+                      <p className="text-sm text-gray-800">
+                        {entry.label}
+                        {entry.timeInStageMinutes !== null && (
+                          <span className="text-gray-500"> · {formatStageDuration(entry.timeInStageMinutes)} na etapa anterior</span>
+                        )}
+                      </p>
+                    )}
+
+                    {entry.kind === 'task' && (
+                      <p className="text-sm text-gray-800">
+                        Tarefa concluída: {entry.title}
+                        {entry.assigneeName && <span className="text-gray-500"> · {entry.assigneeName}</span>}
+                      </p>
+                    )}
+
+                    {entry.kind === 'message' && (
+                      <div>
+                        {entry.content && (
+                          <p className="text-sm text-gray-800 whitespace-pre-line line-clamp-3">{entry.content}</p>
+                        )}
+                        {entry.attachmentCount > 0 && (
+                          <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                            <Paperclip className="w-3 h-3" />
+                            {entry.attachmentCount === 1 ? '1 anexo' : `${entry.attachmentCount} anexos`}
+                          </p>
+                        )}
+                        <Link
+                          href={`/mensagens?conversation=${entry.conversationId}`}
+                          className="text-xs text-blue-600 hover:underline"
+                        >
+                          Abrir conversa
+                        </Link>
+                      </div>
+                    )}
+
+                    {entry.kind === 'quote' && (
+                      <p className="text-sm text-gray-800">
+                        <Link href={`/orcamento/${entry.quoteId}`} className="hover:underline">
+                          {entry.label}
+                        </Link>
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListTodo className="w-5 h-5" />
+            Tarefas
+            {pendingTasks.length > 0 && <Badge variant="secondary">{pendingTasks.length}</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-3">
+            <Input
+              value={task.title}
+              onChange={(e) => setTask({ ...task, title: e.target.value })}
+              placeholder="Ex: Ligar para confirmar visita técnica"
+            />
+            <div>
+              <Label htmlFor="dueAt">Prazo</Label>
+              <Input
+                id="dueAt"
+                type="datetime-local"
+                value={task.dueAt}
+                onChange={(e) => setTask({ ...task, dueAt: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="assigneeId">Responsável</Label>
+              <select
+                id="assigneeId"
+                value={task.assigneeId}
+                onChange={(e) => setTask({ ...task, assigneeId: e.target.value })}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Eu</option>
+                {members.map(member => (
+                  <option key={member.id} value={member.id}>{member.name}</option>
+                ))}
+              </select>
+              {members.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Cadastre sua equipe em Configurações para atribuir tarefas.
+                </p>
+              )}
+            </div>
+            <Button
+              className="w-full"
+              onClick={saveTask}
+              disabled={savingTask || !task.title.trim() || !task.dueAt}
+            >
+              {savingTask ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Adicionar Tarefa
+            </Button>
+          </div>
+
+          <div className="border-t pt-4 space-y-3">
+            {tasks.length === 0 ? (
+              <p className="text-sm text-gray-600">Nenhuma tarefa para este lead.</p>
+            ) : (
+              tasks.map(item => {
+                const dueState = getTaskDueState(item)
+
+                return (
+                  <div key={item.id} className="flex items-start gap-2">
+                    <button
+                      type="button"
+                      onClick={() => toggleTask(item.id, !item.completedAt)}
+                      disabled={updatingTaskId === item.id}
+                      className="mt-0.5 text-gray-400 hover:text-green-600"
+                      aria-label={item.completedAt ? 'Reabrir tarefa' : 'Concluir tarefa'}
+                    >
+                      {item.completedAt
+                        ? <CheckCircle className="w-5 h-5 text-green-600" />
+                        : <Circle className="w-5 h-5" />}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm ${item.completedAt ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                        {item.title}
+                      </div>
+                      <div className={`flex items-center text-xs ${dueStateStyles[dueState]}`}>
+                        <Clock className="w-3 h-3 mr-1" />
+                        {formatDateTime(item.dueAt)}
+                        {dueState === 'overdue' && ' · atrasada'}
+                        {item.assignee && <span className="text-gray-500"> · {item.assignee.name}</span>}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => deleteTask(item.id)}
+                      disabled={updatingTaskId === item.id}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { Copy, GitMerge, Loader2 } from 'lucide-react'
+import { DUPLICATE_REASON_LABELS, type DuplicateMatch } from '@/lib/leads/duplicates'
+import { LEAD_STAGE_LABELS, type LeadStage } from '@/lib/leads/sla'
+
+interface DuplicateLead {
+  id: string
+  name: string
+  email: string
+  phone: string
+  status: LeadStage
+  location: string
+  createdAt: string
+  _count: { quotes: number; activities: number }
+  match: DuplicateMatch
+}
+
+interface LeadDuplicatesCardProps {
+  leadId: string
+  onMerged: () => void
+}
+
+export function LeadDuplicatesCard({ leadId, onMerged }: LeadDuplicatesCardProps) {
+  const { addToast } = useToast()
+  const [duplicates, setDuplicates] = useState<DuplicateLead[]>([])
+  const [mergingId, setMergingId] = useState<string | null>(null)
+
+  const fetchDuplicates = async () => {
+    try {
+      const response = await fetch(`/api/leads/${leadId}/duplicates`)
+      if (response.ok) {
+        const data = await response.json()
+        setDuplicates(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching lead duplicates:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchDuplicates()
+  }, [leadId])
+
+  const mergeDuplicate = async (duplicate: DuplicateLead) => {
+    if (!confirm(`Mesclar o lead de ${duplicate.name} neste lead? Orçamentos, atividades e tarefas serão movidos e o lead duplicado será excluído.`)) return
+
+    setMergingId(duplicate.id)
+    try {
+      const response = await fetch(`/api/leads/${leadId}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ duplicateId: duplicate.id }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      addToast({
+        type: 'success',
+        title: 'Leads mesclados!',
+        message: `O histórico de ${duplicate.name} agora está neste lead`
+      })
+      setDuplicates(prev => prev.filter(d => d.id !== duplicate.id))
+      onMerged()
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível mesclar os leads',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+      fetchDuplicates()
+    } finally {
+      setMergingId(null)
+    }
+  }
+
+  if (duplicates.length === 0) return null
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="w-5 h-5 text-amber-600" />
+          Possíveis Duplicados
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {duplicates.map(duplicate => (
+          <div key={duplicate.id} className="flex items-start justify-between gap-4 border rounded-lg p-3">
+            <div className="min-w-0">
+              <Link href={`/dashboard/leads/${duplicate.id}`} className="font-medium text-gray-900 hover:text-orange-600">
+                {duplicate.name}
+              </Link>
+              <div className="text-sm text-gray-600 truncate">
+                {duplicate.email} · {duplicate.phone}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {LEAD_STAGE_LABELS[duplicate.status]} · recebido em {new Date(duplicate.createdAt).toLocaleDateString('pt-BR')}
+                {' · '}{duplicate._count.quotes} orçamento(s) · {duplicate._count.activities} atividade(s)
+              </div>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {duplicate.match.reasons.map(reason => (
+                  <Badge
+                    key={reason}
+                    variant={duplicate.match.confidence === 'high' ? 'secondary' : 'outline'}
+                  >
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => mergeDuplicate(duplicate)}
+              disabled={mergingId !== null}
+            >
+              {mergingId === duplicate.id
+                ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                : <GitMerge className="w-4 h-4 mr-2" />}
+              Mesclar neste lead
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Zap } from 'lucide-react'
+import { BILL_LAYOUTS, MONTH_LABELS } from '@/lib/solar'
+import type { ElectricityBillInput } from '@/lib/validations'
+
+interface LeadElectricityBillCardProps {
+  bill: ElectricityBillInput
+}
+
+const CONNECTION_LABELS: Record<string, string> = {
+  MONOFASICO: 'Monofásica',
+  BIFASICO: 'Bifásica',
+  TRIFASICO: 'Trifásica'
+}
+
+const formatNumber = (value: number, decimals: number = 0) =>
+  new Intl.NumberFormat('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(value)
+
+const formatMonth = (month: string) =>
+  `${MONTH_LABELS[parseInt(month.slice(5, 7), 10) - 1]}/${month.slice(2, 4)}`
+
+// Dados da conta de luz enviada pelo cliente, com o histórico de consumo
+export function LeadElectricityBillCard({ bill }: LeadElectricityBillCardProps) {
+  const maxConsumption = Math.max(1, ...bill.consumptionHistory.map(record => record.consumption))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="w-5 h-5" />
+          Conta de luz{bill.distributor ? ` · ${BILL_LAYOUTS[bill.distributor].name}` : ''}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <div className="text-xs text-gray-500">Unidade consumidora</div>
+            <div className="font-medium">{bill.ucNumber ?? '—'}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Ligação</div>
+            <div className="font-medium">{bill.connectionType ? CONNECTION_LABELS[bill.connectionType] : '—'}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Consumo médio</div>
+            <div className="font-medium">
+              {bill.averageConsumption !== null ? `${formatNumber(bill.averageConsumption)} kWh/mês` : '—'}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Tarifa com tributos</div>
+            <div className="font-medium">{bill.tariff !== null ? `R$ ${formatNumber(bill.tariff, 4)}/kWh` : '—'}</div>
+          </div>
+        </div>
+
+        {bill.consumptionHistory.length > 0 && (
+          <div className="flex items-end gap-1 h-32">
+            {bill.consumptionHistory.map(record => (
+              <div key={record.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="text-[10px] text-gray-500">{formatNumber(record.consumption)}</span>
+                <div
+                  className="w-full bg-yellow-400 rounded-t"
+                  style={{ height: `${(record.consumption / maxConsumption) * 80}%` }}
+                  title={`${formatMonth(record.month)}: ${formatNumber(record.consumption)} kWh`}
+                />
+                <span className="text-[10px] text-gray-500 mt-1">{formatMonth(record.month)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
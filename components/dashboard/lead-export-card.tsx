@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/components/ui/toast'
+import { Download, Loader2 } from 'lucide-react'
+import { LEAD_STAGES, LEAD_STAGE_LABELS } from '@/lib/leads/sla'
+
+type ExportDataset = 'leads' | 'quotes'
+type ExportFormat = 'csv' | 'xlsx'
+
+const quoteStatusLabels: Record<string, string> = {
+  DRAFT: 'Rascunho',
+  SENT: 'Enviado',
+  VIEWED: 'Visualizado',
+  ACCEPTED: 'Aceito',
+  REJECTED: 'Rejeitado',
+  EXPIRED: 'Expirado',
+}
+
+export function LeadExportCard() {
+  const { addToast } = useToast()
+  const [dataset, setDataset] = useState<ExportDataset>('leads')
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [status, setStatus] = useState('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [exporting, setExporting] = useState(false)
+
+  const statusOptions: Array<[string, string]> = dataset === 'leads'
+    ? LEAD_STAGES.map(stage => [stage, LEAD_STAGE_LABELS[stage]])
+    : Object.entries(quoteStatusLabels)
+
+  const changeDataset = (value: ExportDataset) => {
+    setDataset(value)
+    setStatus('all')
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+
+    try {
+      const params = new URLSearchParams({ dataset, format, status, from, to })
+      const response = await fetch(`/api/leads/export?${params}`)
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.message)
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        ?? `${dataset}.${format}`
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.style.display = 'none'
+      a.href = url
+      a.download = fileName
+      document.body.appendChild(a)
+      a.click()
+      a.remove()
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível exportar',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="w-5 h-5" />
+          Exportar
+        </CardTitle>
+        <CardDescription>
+          Baixe os leads ou os orçamentos do período, com valores de equipamentos, serviços e tributos
+          para a conciliação com a contabilidade.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div>
+            <Label htmlFor="export-dataset">Dados</Label>
+            <select
+              id="export-dataset"
+              value={dataset}
+              onChange={(e) => changeDataset(e.target.value as ExportDataset)}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="leads">Leads</option>
+              <option value="quotes">Orçamentos</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="export-status">{dataset === 'leads' ? 'Etapa' : 'Status'}</Label>
+            <select
+              id="export-status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="all">Todos</option>
+              {statusOptions.map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="export-from">De</Label>
+            <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="export-to">Até</Label>
+            <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="export-format">Formato</Label>
+            <select
+              id="export-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="xlsx">Excel (.xlsx)</option>
+              <option value="csv">CSV</option>
+            </select>
+          </div>
+        </div>
+
+        <Button onClick={handleExport} disabled={exporting}>
+          {exporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Baixar arquivo
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
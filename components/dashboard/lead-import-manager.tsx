@@ -0,0 +1,387 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useDropzone } from 'react-dropzone'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Database,
+  Eye,
+  FileText,
+  Loader2,
+  Upload
+} from 'lucide-react'
+import type { LeadImportField, LeadImportIssue, LeadImportReport } from '@/lib/leads/import'
+import type { LeadImportMapping } from '@/lib/validations'
+
+interface ImportField {
+  field: LeadImportField
+  label: string
+  required: boolean
+}
+
+interface ImportPreview {
+  fileName: string
+  headers: string[]
+  sampleRows: string[][]
+  fields: ImportField[]
+  mapping: LeadImportMapping
+  report: LeadImportReport
+}
+
+interface ImportResult extends LeadImportReport {
+  imported: number
+}
+
+export function LeadImportManager() {
+  const { addToast } = useToast()
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mapping, setMapping] = useState<LeadImportMapping>({})
+  const [skipDuplicates, setSkipDuplicates] = useState(true)
+  const [validating, setValidating] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const buildFormData = (selectedFile: File, selectedMapping: LeadImportMapping | null, skip: boolean) => {
+    const formData = new FormData()
+    formData.append('file', selectedFile)
+    if (selectedMapping) formData.append('mapping', JSON.stringify(selectedMapping))
+    formData.append('skipDuplicates', String(skip))
+    return formData
+  }
+
+  const validate = async (selectedFile: File, selectedMapping: LeadImportMapping | null, skip: boolean) => {
+    setValidating(true)
+    try {
+      const response = await fetch('/api/leads/import/preview', {
+        method: 'POST',
+        body: buildFormData(selectedFile, selectedMapping, skip),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      setPreview(data.data)
+      setMapping(data.data.mapping)
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível ler a planilha',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setValidating(false)
+    }
+  }
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: {
+      'text/csv': ['.csv'],
+      'application/vnd.ms-excel': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx']
+    },
+    maxFiles: 1,
+    onDrop: async (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        setFile(acceptedFiles[0])
+        setResult(null)
+        await validate(acceptedFiles[0], null, skipDuplicates)
+      }
+    }
+  })
+
+  const changeMapping = (field: LeadImportField, value: string) => {
+    const next = { ...mapping }
+    if (value === '') {
+      delete next[field]
+    } else {
+      next[field] = Number(value)
+    }
+    setMapping(next)
+    if (file) validate(file, next, skipDuplicates)
+  }
+
+  const changeSkipDuplicates = (skip: boolean) => {
+    setSkipDuplicates(skip)
+    if (file) validate(file, mapping, skip)
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setImporting(true)
+    try {
+      const response = await fetch('/api/leads/import', {
+        method: 'POST',
+        body: buildFormData(file, mapping, skipDuplicates),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      setResult(data.data)
+      setPreview(null)
+      addToast({
+        type: 'success',
+        title: 'Importação concluída!',
+        message: data.message
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível importar os leads',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const reset = () => {
+    setFile(null)
+    setPreview(null)
+    setMapping({})
+    setResult(null)
+  }
+
+  const formatIssue = (issue: LeadImportIssue) =>
+    issue.line ? `Linha ${issue.line}: ${issue.message}` : issue.message
+
+  if (result) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            Resultado da Importação
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-green-50 p-4 rounded-lg">
+              <div className="font-semibold text-green-900">Importados</div>
+              <div className="text-2xl font-bold text-green-600">{result.imported}</div>
+            </div>
+            <div className="bg-red-50 p-4 rounded-lg">
+              <div className="font-semibold text-red-900">Com erro</div>
+              <div className="text-2xl font-bold text-red-600">{result.invalidRows}</div>
+            </div>
+            <div className="bg-amber-50 p-4 rounded-lg">
+              <div className="font-semibold text-amber-900">Duplicados</div>
+              <div className="text-2xl font-bold text-amber-600">{result.duplicateRows}</div>
+            </div>
+          </div>
+
+          {result.issues.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <h4 className="font-semibold text-red-900 mb-2">Linhas não importadas:</h4>
+              <ul className="text-sm text-red-700 space-y-1">
+                {result.issues.map((issue, index) => (
+                  <li key={index}>• {formatIssue(issue)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <Button variant="outline" onClick={reset}>
+              <Upload className="w-4 h-4 mr-2" />
+              Importar outro arquivo
+            </Button>
+            <Button asChild>
+              <Link href="/dashboard/leads">Ver leads</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!preview) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Importar Leads
+          </CardTitle>
+          <CardDescription>
+            Envie a planilha de contatos de uma feira ou de outro sistema. Na próxima etapa você escolhe
+            qual coluna corresponde a cada campo.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+              isDragActive ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+            }`}
+          >
+            <input {...getInputProps()} />
+            {validating ? (
+              <Loader2 className="w-12 h-12 text-muted-foreground mx-auto mb-4 animate-spin" />
+            ) : (
+              <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            )}
+            <h3 className="text-lg font-semibold mb-2">
+              {isDragActive ? 'Solte o arquivo aqui' : 'Arraste sua planilha ou clique para selecionar'}
+            </h3>
+            <p className="text-muted-foreground">
+              Formatos aceitos: .csv e .xlsx (máximo 10MB)
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { report } = preview
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="w-5 h-5" />
+          Conferir Importação
+        </CardTitle>
+        <CardDescription className="flex items-center gap-2">
+          <FileText className="w-4 h-4" />
+          {preview.fileName}
+          <Badge variant="secondary">{report.totalRows} linha(s)</Badge>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Mapeamento */}
+        <div>
+          <h4 className="font-medium text-gray-900 mb-3">Colunas</h4>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {preview.fields.map(field => (
+              <div key={field.field}>
+                <label htmlFor={`mapping-${field.field}`} className="text-sm font-medium text-gray-700">
+                  {field.label}{field.required && ' *'}
+                </label>
+                <select
+                  id={`mapping-${field.field}`}
+                  value={mapping[field.field] ?? ''}
+                  onChange={(e) => changeMapping(field.field, e.target.value)}
+                  disabled={validating || importing}
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="">— Não importar —</option>
+                  {preview.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Coluna ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={skipDuplicates}
+              disabled={validating || importing}
+              onChange={(e) => changeSkipDuplicates(e.target.checked)}
+            />
+            Ignorar contatos que já estão na lista de leads (mesmo email ou telefone)
+          </label>
+        </div>
+
+        {/* Relatório */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-green-50 p-4 rounded-lg">
+            <div className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              <span className="font-semibold text-green-900">Prontos</span>
+            </div>
+            <div className="text-2xl font-bold text-green-600">{report.validRows}</div>
+          </div>
+          <div className="bg-red-50 p-4 rounded-lg">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <span className="font-semibold text-red-900">Com erro</span>
+            </div>
+            <div className="text-2xl font-bold text-red-600">{report.invalidRows}</div>
+          </div>
+          <div className="bg-amber-50 p-4 rounded-lg">
+            <div className="flex items-center gap-2">
+              <Copy className="w-5 h-5 text-amber-600" />
+              <span className="font-semibold text-amber-900">Duplicados</span>
+            </div>
+            <div className="text-2xl font-bold text-amber-600">{report.duplicateRows}</div>
+          </div>
+        </div>
+
+        {report.issues.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 max-h-64 overflow-y-auto">
+            <h4 className="font-semibold text-red-900 mb-2">Problemas encontrados:</h4>
+            <ul className="text-sm text-red-700 space-y-1">
+              {report.issues.map((issue, index) => (
+                <li key={index}>• {formatIssue(issue)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Amostra */}
+        <div className="border rounded-lg overflow-hidden">
+          <div className="bg-muted p-2">
+            <h4 className="font-medium">Primeiras linhas da planilha</h4>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {preview.headers.map((header, index) => (
+                    <th key={index} className="px-4 py-2 text-left text-sm font-medium whitespace-nowrap">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.sampleRows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t">
+                    {preview.headers.map((_, cellIndex) => (
+                      <td key={cellIndex} className="px-4 py-2 text-sm whitespace-nowrap">
+                        {row[cellIndex]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex gap-4">
+          <Button onClick={reset} variant="outline" disabled={importing}>
+            Cancelar
+          </Button>
+          <Button onClick={handleImport} disabled={importing || validating || report.validRows === 0}>
+            {importing ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Database className="w-4 h-4 mr-2" />
+            )}
+            Importar {report.validRows} lead(s)
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
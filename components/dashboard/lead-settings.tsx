@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/components/ui/toast'
+import { Flame, Inbox, Loader2 } from 'lucide-react'
+import type { LeadScoringConfig } from '@/lib/validations'
+
+interface LeadSettingsData {
+  autoMergeDuplicateLeads: boolean
+  leadScoring: LeadScoringConfig
+}
+
+const weightLabels: Record<keyof LeadScoringConfig['weights'], string> = {
+  budget: 'Investimento',
+  projectType: 'Tipo de projeto',
+  distance: 'Distância',
+  engagement: 'Engajamento',
+  responsiveness: 'Tempo de resposta'
+}
+
+const parameterFields: Array<{
+  key: 'idealBudget' | 'maxDistanceKm' | 'fastResponseHours' | 'slowResponseHours'
+  label: string
+  hint: string
+}> = [
+  { key: 'idealBudget', label: 'Investimento de referência (R$)', hint: 'Leads a partir deste valor recebem a nota máxima' },
+  { key: 'maxDistanceKm', label: 'Distância máxima (km)', hint: 'A partir desta distância a nota é zero' },
+  { key: 'fastResponseHours', label: 'Resposta rápida (horas)', hint: 'Abrir o orçamento até este prazo vale nota máxima' },
+  { key: 'slowResponseHours', label: 'Resposta lenta (horas)', hint: 'Depois deste prazo a nota é zero' }
+]
+
+export function LeadSettings() {
+  const { addToast } = useToast()
+  const [settings, setSettings] = useState<LeadSettingsData | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [scoring, setScoring] = useState<LeadScoringConfig | null>(null)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/company/lead-settings')
+        if (response.ok) {
+          const data = await response.json()
+          setSettings(data.data)
+          setScoring(data.data.leadScoring)
+        }
+      } catch (error) {
+        console.error('Error fetching lead settings:', error)
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const updateSettings = async (changes: Partial<LeadSettingsData>) => {
+    if (!settings) return false
+
+    const previous = settings
+    setSettings({ ...settings, ...changes })
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/company/lead-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...settings, ...changes }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      setSettings(data.data)
+      return true
+    } catch (error) {
+      setSettings(previous)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível salvar a preferência',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveScoring = async () => {
+    if (!scoring) return
+
+    if (await updateSettings({ leadScoring: scoring })) {
+      addToast({
+        type: 'success',
+        title: 'Pontuação atualizada!',
+        message: 'A lista de leads já usa os novos pesos'
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="w-5 h-5" />
+            Recebimento de Leads
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!settings ? (
+            <div className="flex items-center text-gray-600">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Carregando...
+            </div>
+          ) : (
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={settings.autoMergeDuplicateLeads}
+                disabled={saving}
+                onChange={(e) => updateSettings({ autoMergeDuplicateLeads: e.target.checked })}
+              />
+              <span>
+                <span className="font-medium text-gray-900">Anexar solicitações repetidas ao lead aberto</span>
+                <span className="block text-sm text-gray-600">
+                  Quando um cliente com o mesmo email ou telefone enviar o formulário de novo, a mensagem entra
+                  no histórico do lead que já está em atendimento em vez de criar um lead novo.
+                </span>
+              </span>
+            </label>
+          )}
+        </CardContent>
+      </Card>
+
+      {scoring && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Flame className="w-5 h-5" />
+              Pontuação de Leads
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <h4 className="font-medium text-gray-900">Pesos</h4>
+              <p className="text-sm text-gray-600 mb-3">
+                A pontuação final vai de 0 a 100; os pesos são proporcionais entre si.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {(Object.keys(weightLabels) as Array<keyof LeadScoringConfig['weights']>).map(factor => (
+                  <div key={factor}>
+                    <Label htmlFor={`weight-${factor}`}>{weightLabels[factor]}</Label>
+                    <Input
+                      id={`weight-${factor}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={scoring.weights[factor]}
+                      onChange={(e) => setScoring({
+                        ...scoring,
+                        weights: { ...scoring.weights, [factor]: Number(e.target.value) }
+                      })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {parameterFields.map(field => (
+                <div key={field.key}>
+                  <Label htmlFor={`scoring-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`scoring-${field.key}`}
+                    type="number"
+                    min={0}
+                    value={scoring[field.key]}
+                    onChange={(e) => setScoring({ ...scoring, [field.key]: Number(e.target.value) })}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={saveScoring} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Salvar pontuação
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ClipboardCheck, Download, ImageIcon } from 'lucide-react'
+import type { LeadSiteSurveySummary } from '@/lib/site-surveys'
+
+interface LeadSiteSurveyCardProps {
+  surveys: LeadSiteSurveySummary[]
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+
+// Vistorias técnicas do lead com as respostas e o relatório em PDF
+export function LeadSiteSurveyCard({ surveys }: LeadSiteSurveyCardProps) {
+  if (surveys.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Vistoria técnica
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        {surveys.map(survey => (
+          <div key={survey.id} className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge className={survey.status === 'COMPLETED' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                  {survey.status === 'COMPLETED' ? 'Concluída' : 'Em andamento'}
+                </Badge>
+                <span className="text-gray-600">
+                  Visita de {formatDate(survey.appointmentDate)}
+                  {survey.completedAt && ` · concluída em ${formatDate(survey.completedAt)}`}
+                </span>
+                <span className="flex items-center text-gray-500">
+                  <ImageIcon className="w-4 h-4 mr-1" />
+                  {survey.photoCount}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/dashboard/vistorias/${survey.appointmentId}`}>Abrir</Link>
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={`/api/site-surveys/${survey.id}/pdf`}>
+                    <Download className="w-4 h-4 mr-1" />
+                    Relatório PDF
+                  </a>
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {survey.answers.map(answer => (
+                <div key={answer.label}>
+                  <div className="text-xs text-gray-500">{answer.label}</div>
+                  <div className="font-medium">{answer.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {survey.notes && (
+              <p className="bg-gray-50 p-3 rounded-lg text-gray-700 whitespace-pre-line">{survey.notes}</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
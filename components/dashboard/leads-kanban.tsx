@@ -0,0 +1,238 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { AlertTriangle, Clock, FileText, Loader2, MapPin } from 'lucide-react'
+import {
+  formatStageDuration,
+  getLeadSlaStatus,
+  type LeadSlaStatus,
+  type LeadStage
+} from '@/lib/leads/sla'
+
+interface PipelineLead {
+  id: string
+  name: string
+  location: string
+  projectType: string
+  budget?: string | null
+  status: LeadStage
+  stageChangedAt: string
+  createdAt: string
+  _count: { quotes: number }
+  sla: LeadSlaStatus
+}
+
+interface PipelineStage {
+  status: LeadStage
+  label: string
+  slaMinutes: number | null
+  overdueCount: number
+  leads: PipelineLead[]
+}
+
+// Atualiza os cronômetros de SLA a cada minuto
+const REFRESH_INTERVAL_MS = 60 * 1000
+
+const slaStyles: Record<LeadSlaStatus['state'], string> = {
+  none: 'border-gray-200',
+  ok: 'border-gray-200',
+  warning: 'border-amber-400',
+  overdue: 'border-red-500 ring-1 ring-red-200'
+}
+
+function SlaBadge({ sla }: { sla: LeadSlaStatus }) {
+  if (sla.state === 'none' || sla.remainingMinutes === null) return null
+
+  if (sla.state === 'overdue') {
+    return (
+      <Badge className="bg-red-100 text-red-800 hover:bg-red-100">
+        <AlertTriangle className="w-3 h-3 mr-1" />
+        Atrasado {formatStageDuration(sla.remainingMinutes)}
+      </Badge>
+    )
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={sla.state === 'warning' ? 'text-amber-700 border-amber-300' : 'text-gray-600'}
+    >
+      Vence em {formatStageDuration(sla.remainingMinutes)}
+    </Badge>
+  )
+}
+
+export function LeadsKanban() {
+  const { addToast } = useToast()
+  const [stages, setStages] = useState<PipelineStage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<LeadStage | null>(null)
+
+  const fetchPipeline = async () => {
+    try {
+      const response = await fetch('/api/leads/pipeline')
+      if (response.ok) {
+        const data = await response.json()
+        setStages(data.stages)
+      }
+    } catch (error) {
+      console.error('Error fetching lead pipeline:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPipeline()
+    const interval = setInterval(fetchPipeline, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const moveLead = async (leadId: string, toStatus: LeadStage) => {
+    const lead = stages.flatMap(stage => stage.leads).find(l => l.id === leadId)
+    if (!lead || lead.status === toStatus) return
+
+    const previousStages = stages
+    const stageChangedAt = new Date().toISOString()
+    const moved: PipelineLead = {
+      ...lead,
+      status: toStatus,
+      stageChangedAt,
+      sla: getLeadSlaStatus({ status: toStatus, stageChangedAt })
+    }
+
+    // Atualização otimista; desfeita se a API recusar
+    setStages(current => current.map(stage => {
+      const leads = stage.leads.filter(l => l.id !== leadId)
+      return {
+        ...stage,
+        leads: stage.status === toStatus ? [...leads, moved] : leads,
+        overdueCount: (stage.status === toStatus ? [...leads, moved] : leads)
+          .filter(l => l.sla.state === 'overdue').length
+      }
+    }))
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: toStatus }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.message)
+      }
+    } catch (error) {
+      setStages(previousStages)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível mover o lead',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+      fetchPipeline()
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-600">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Carregando funil...
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {stages.map(stage => (
+        <div
+          key={stage.status}
+          onDragOver={(e) => {
+            e.preventDefault()
+            setDropTarget(stage.status)
+          }}
+          onDragLeave={() => setDropTarget(current => (current === stage.status ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault()
+            const leadId = e.dataTransfer.getData('text/plain')
+            setDropTarget(null)
+            setDraggingId(null)
+            if (leadId) moveLead(leadId, stage.status)
+          }}
+          className={`flex-shrink-0 w-72 rounded-lg p-3 transition-colors ${
+            dropTarget === stage.status ? 'bg-orange-50 ring-2 ring-orange-300' : 'bg-gray-100'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <h3 className="font-semibold text-gray-900">{stage.label}</h3>
+            <Badge variant="secondary">{stage.leads.length}</Badge>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-500 mb-3 min-h-[1.25rem]">
+            {stage.slaMinutes !== null && (
+              <span className="flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                Prazo: {formatStageDuration(stage.slaMinutes)}
+              </span>
+            )}
+            {stage.overdueCount > 0 && (
+              <span className="text-red-600 font-medium">{stage.overdueCount} atrasado(s)</span>
+            )}
+          </div>
+
+          <div className="space-y-2 min-h-[4rem]">
+            {stage.leads.map(lead => (
+              <div
+                key={lead.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData('text/plain', lead.id)
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggingId(lead.id)
+                }}
+                onDragEnd={() => setDraggingId(null)}
+                className={`bg-white rounded-md border-2 p-3 shadow-sm cursor-grab active:cursor-grabbing ${
+                  slaStyles[lead.sla.state]
+                } ${draggingId === lead.id ? 'opacity-50' : ''}`}
+              >
+                <Link
+                  href={`/dashboard/leads/${lead.id}`}
+                  className="block font-medium text-gray-900 truncate hover:text-orange-600"
+                >
+                  {lead.name}
+                </Link>
+                <div className="text-xs text-gray-600 mt-1 space-y-1">
+                  <div className="flex items-center gap-1 truncate">
+                    <MapPin className="w-3 h-3 flex-shrink-0" />
+                    {lead.location}
+                  </div>
+                  <div className="truncate">{lead.projectType}{lead.budget ? ` · ${lead.budget}` : ''}</div>
+                </div>
+                <div className="flex items-center justify-between mt-2 gap-2">
+                  <span className="text-xs text-gray-500">
+                    Na etapa há {formatStageDuration(lead.sla.elapsedMinutes)}
+                  </span>
+                  {lead._count.quotes > 0 && (
+                    <span className="flex items-center text-xs text-gray-500">
+                      <FileText className="w-3 h-3 mr-1" />
+                      {lead._count.quotes}
+                    </span>
+                  )}
+                </div>
+                <div className="mt-2">
+                  <SlaBadge sla={lead.sla} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { 
@@ -14,8 +15,13 @@ import {
   Eye,
   CheckCircle,
   Clock,
-  AlertCircle
+  AlertCircle,
+  AlertTriangle,
+  Copy,
+  Flame
 } from 'lucide-react'
+import { formatStageDuration, getLeadSlaStatus } from '@/lib/leads/sla'
+import type { LeadScore, LeadScoreGrade } from '@/lib/leads/scoring'
 
 interface Lead {
   id: string
@@ -27,24 +33,30 @@ interface Lead {
   budget?: string
   message: string
   status: string
+  stageChangedAt: string
   source?: string
   createdAt: string
+  duplicateCount: number
+  score: LeadScore
 }
 
+type LeadSort = 'recent' | 'score'
+
 export function LeadsList() {
   const [selectedStatus, setSelectedStatus] = useState('all')
+  const [sort, setSort] = useState<LeadSort>('recent')
   const [leads, setLeads] = useState<Lead[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
   // Fetch leads from API
   useEffect(() => {
     fetchLeads()
-  }, [selectedStatus])
+  }, [selectedStatus, sort])
 
   const fetchLeads = async () => {
     setIsLoading(true)
     try {
-      const response = await fetch(`/api/leads?status=${selectedStatus}`)
+      const response = await fetch(`/api/leads?status=${selectedStatus}&sort=${sort}`)
       if (response.ok) {
         const data = await response.json()
         setLeads(data.data || [])
@@ -101,6 +113,18 @@ export function LeadsList() {
     LOST: AlertCircle,
   }
 
+  const scoreColors: Record<LeadScoreGrade, string> = {
+    hot: 'bg-red-100 text-red-800',
+    warm: 'bg-orange-100 text-orange-800',
+    cold: 'bg-slate-100 text-slate-700',
+  }
+
+  // Resumo dos fatores exibido ao passar o mouse sobre a pontuação
+  const formatScoreBreakdown = (score: LeadScore) =>
+    score.factors
+      .map(factor => `${factor.label}: ${factor.points} pts (${factor.detail})`)
+      .join('\n')
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('pt-BR')
   }
@@ -168,7 +192,7 @@ export function LeadsList() {
           <CardTitle>Filtros</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-wrap gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             <Button
               variant={selectedStatus === 'all' ? 'default' : 'outline'}
               size="sm"
@@ -192,6 +216,19 @@ export function LeadsList() {
                 </Button>
               )
             })}
+
+            <div className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+              <label htmlFor="lead-sort">Ordenar por</label>
+              <select
+                id="lead-sort"
+                value={sort}
+                onChange={(e) => setSort(e.target.value as LeadSort)}
+                className="p-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="recent">Mais recentes</option>
+                <option value="score">Maior pontuação</option>
+              </select>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -218,9 +255,13 @@ export function LeadsList() {
         ) : (
           leads.map((lead) => {
           const StatusIcon = statusIcons[lead.status]
+          const sla = getLeadSlaStatus(lead)
           
           return (
-            <Card key={lead.id} className="hover:shadow-md transition-shadow">
+            <Card
+              key={lead.id}
+              className={`hover:shadow-md transition-shadow ${sla.state === 'overdue' ? 'border-red-300' : ''}`}
+            >
               <CardContent className="p-6">
                 <div className="flex items-start justify-between mb-4">
                   <div className="flex-1">
@@ -232,6 +273,28 @@ export function LeadsList() {
                         <StatusIcon className="w-3 h-3 mr-1" />
                         {statusLabels[lead.status]}
                       </span>
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full flex items-center cursor-help ${scoreColors[lead.score.grade]}`}
+                        title={formatScoreBreakdown(lead.score)}
+                      >
+                        <Flame className="w-3 h-3 mr-1" />
+                        {lead.score.score} · {lead.score.label}
+                      </span>
+                      {sla.state === 'overdue' && sla.remainingMinutes !== null && (
+                        <span className="text-xs px-2 py-1 rounded-full flex items-center bg-red-100 text-red-800">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Atrasado {formatStageDuration(sla.remainingMinutes)}
+                        </span>
+                      )}
+                      {lead.duplicateCount > 0 && (
+                        <Link
+                          href={`/dashboard/leads/${lead.id}`}
+                          className="text-xs px-2 py-1 rounded-full flex items-center bg-amber-100 text-amber-800 hover:bg-amber-200"
+                        >
+                          <Copy className="w-3 h-3 mr-1" />
+                          Possível duplicado
+                        </Link>
+                      )}
                     </div>
                     
                     <div className="grid md:grid-cols-2 gap-4 text-sm text-gray-600 mb-4">
@@ -277,9 +340,11 @@ export function LeadsList() {
 
                   {/* Actions */}
                   <div className="flex flex-col space-y-2 ml-4">
-                    <Button size="sm" variant="outline">
-                      <Eye className="w-4 h-4 mr-2" />
-                      Ver Detalhes
+                    <Button size="sm" variant="outline" asChild>
+                      <Link href={`/dashboard/leads/${lead.id}`}>
+                        <Eye className="w-4 h-4 mr-2" />
+                        Ver Detalhes
+                      </Link>
                     </Button>
                     
                     <Button size="sm" className="bg-green-600 hover:bg-green-700">
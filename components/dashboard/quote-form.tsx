@@ -1,55 +1,190 @@
 "use client"
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { 
-  Plus, 
-  Trash2, 
-  Save, 
-  Send,
+import { Badge } from '@/components/ui/badge'
+import {
+  Plus,
+  Trash2,
+  Save,
   Calculator,
   FileText,
-  Loader2
+  Loader2,
+  Package,
+  Landmark,
+  Zap
 } from 'lucide-react'
 import { useForm, useFieldArray } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
+import type { QuotePaymentSummary } from '@/lib/quotes/payment'
 
 const quoteItemSchema = z.object({
-  description: z.string().min(2, 'Descrição é obrigatória'),
+  productId: z.string().optional(),
+  description: z.string().optional(),
   quantity: z.number().int().positive('Quantidade deve ser positiva'),
-  unitPrice: z.number().positive('Preço deve ser positivo'),
-  category: z.string().optional()
+  unitPrice: z.number().positive('Preço deve ser positivo').optional(),
+  category: z.string().optional(),
+  type: z.enum(['EQUIPMENT', 'SERVICE'])
+}).refine(item => item.productId || (item.description && item.description.length >= 2), {
+  message: 'Descrição é obrigatória',
+  path: ['description']
+}).refine(item => item.productId || item.unitPrice !== undefined, {
+  message: 'Preço deve ser positivo',
+  path: ['unitPrice']
 })
 
 const quoteFormSchema = z.object({
+  templateId: z.string().optional(),
   title: z.string().min(5, 'Título deve ter pelo menos 5 caracteres'),
   description: z.string().optional(),
   validUntil: z.string().min(1, 'Data de validade é obrigatória'),
+  discountPercent: z.number().min(0).max(100, 'Desconto deve ser entre 0 e 100%').optional(),
   leadId: z.string().optional(),
   userId: z.string().optional(),
   terms: z.string().optional(),
   notes: z.string().optional(),
-  items: z.array(quoteItemSchema).min(1, 'Pelo menos um item é obrigatório')
+  items: z.array(quoteItemSchema).min(1, 'Pelo menos um item é obrigatório'),
+  payment: z.object({
+    icmsRate: z.number().min(0).max(25, 'ICMS deve ser entre 0 e 25%').optional(),
+    issRate: z.number().min(0).max(5, 'ISS deve ser entre 0 e 5%').optional(),
+    cashDiscountPercent: z.number().min(0).max(30, 'Desconto à vista deve ser entre 0 e 30%').optional(),
+    cardMaxInstallments: z.number().int().min(1).max(24, 'Máximo de 24 parcelas').optional(),
+    cardInterestFreeInstallments: z.number().int().min(0).max(24).optional(),
+    cardMonthlyRate: z.number().min(0).max(10, 'Taxa deve ser no máximo 10% a.m.').optional(),
+    financingEnabled: z.boolean(),
+    financingInstitution: z.string().optional(),
+    financingMonthlyRate: z.number().min(0).max(10, 'Taxa deve ser no máximo 10% a.m.').optional(),
+    financingTermMonths: z.number().int().min(6, 'Prazo mínimo de 6 meses').max(120, 'Prazo máximo de 120 meses').optional(),
+    financingDownPaymentPercent: z.number().min(0).max(90, 'Entrada deve ser entre 0 e 90%').optional(),
+    currentMonthlyBill: z.number().positive('Valor da conta deve ser positivo').optional()
+  })
 })
 
 type QuoteFormData = z.infer<typeof quoteFormSchema>
 
+export interface CatalogProductOption {
+  id: string
+  name: string
+  price: number
+  power?: number | null
+  warranty?: number | null
+  inStock: boolean
+}
+
+export interface QuoteTemplateOption {
+  id: string
+  name: string
+  title: string
+  description?: string | null
+  terms?: string | null
+  validityDays: number
+  discountPercent?: number | null
+  items: Array<{
+    productId?: string | null
+    description: string
+    quantity: number
+    unitPrice?: number | null
+    category?: string | null
+    type?: 'EQUIPMENT' | 'SERVICE' | null
+  }>
+}
+
+interface QuotePreview {
+  totals: {
+    subtotal: number
+    discountValue: number
+    totalValue: number
+  }
+  installments: Array<{
+    count: number
+    amount: number
+    interestFree: boolean
+  }>
+  payment: QuotePaymentSummary | null
+}
+
 interface QuoteFormProps {
   leadId?: string
   leadName?: string
+  products?: CatalogProductOption[]
+  templates?: QuoteTemplateOption[]
+  currentMonthlyBill?: number // Conta de luz informada pelo lead na calculadora
   onSuccess?: () => void
   onCancel?: () => void
 }
 
-export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormProps) {
+const EMPTY_ITEM = { productId: '', description: '', quantity: 1, unitPrice: undefined, category: '', type: 'EQUIPMENT' as const }
+
+const optionalNumber = {
+  setValueAs: (value: unknown) => value === '' || value === null ? undefined : Number(value)
+}
+
+const finiteOrUndefined = (value?: number) => Number.isFinite(value) ? value : undefined
+
+// Converte os campos do formulário nas condições aceitas pela API; sem nenhuma
+// condição preenchida, o orçamento segue sem condições estruturadas
+const toPaymentConditions = (payment: QuoteFormData['payment']) => {
+  const card = finiteOrUndefined(payment.cardMaxInstallments)
+    ? {
+        maxInstallments: payment.cardMaxInstallments!,
+        interestFreeInstallments: finiteOrUndefined(payment.cardInterestFreeInstallments) ?? 0,
+        monthlyInterestRate: finiteOrUndefined(payment.cardMonthlyRate) ?? 0
+      }
+    : undefined
+  const financing = payment.financingEnabled && finiteOrUndefined(payment.financingTermMonths)
+    ? {
+        institution: payment.financingInstitution || undefined,
+        monthlyInterestRate: finiteOrUndefined(payment.financingMonthlyRate) ?? 0,
+        termMonths: payment.financingTermMonths!,
+        downPaymentPercent: finiteOrUndefined(payment.financingDownPaymentPercent) ?? 0
+      }
+    : undefined
+  const icmsRate = finiteOrUndefined(payment.icmsRate)
+  const issRate = finiteOrUndefined(payment.issRate)
+  const cashDiscountPercent = finiteOrUndefined(payment.cashDiscountPercent)
+
+  if (!card && !financing && icmsRate === undefined && issRate === undefined && cashDiscountPercent === undefined) {
+    return undefined
+  }
+
+  return {
+    icmsRate: icmsRate ?? 0,
+    issRate: issRate ?? 0,
+    cashDiscountPercent: cashDiscountPercent ?? 0,
+    card,
+    financing,
+    currentMonthlyBill: finiteOrUndefined(payment.currentMonthlyBill)
+  }
+}
+
+// Parcelas exibidas no resumo
+const HIGHLIGHTED_INSTALLMENTS = [1, 6, 10, 12]
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0]
+
+export function QuoteForm({
+  leadId,
+  leadName,
+  products = [],
+  templates = [],
+  currentMonthlyBill,
+  onSuccess,
+  onCancel
+}: QuoteFormProps) {
+  const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<QuotePreview | null>(null)
+  const [isCalculating, setIsCalculating] = useState(false)
 
   const {
     register,
@@ -62,47 +197,146 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
     resolver: zodResolver(quoteFormSchema),
     defaultValues: {
       leadId: leadId || '',
-      validUntil: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 30 days from now
-      items: [
-        { description: '', quantity: 1, unitPrice: 0, category: '' }
-      ]
+      validUntil: toDateInput(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)), // 30 days from now
+      items: [EMPTY_ITEM],
+      payment: {
+        financingEnabled: false,
+        currentMonthlyBill
+      }
     }
   })
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, replace } = useFieldArray({
     control,
     name: 'items'
   })
 
   const watchedItems = watch('items')
-  
-  // Calculate totals
-  const totalValue = watchedItems.reduce((sum, item) => {
-    return sum + (item.quantity * item.unitPrice)
-  }, 0)
+  const discountPercent = watch('discountPercent')
+  const watchedPayment = watch('payment')
+  const productsById = new Map(products.map(product => [product.id, product]))
+
+  // Totais, parcelamento e condições de pagamento vêm do servidor, com os preços atuais do catálogo
+  const previewKey = JSON.stringify({ items: watchedItems, discountPercent, payment: watchedPayment })
+  useEffect(() => {
+    const items = watchedItems
+      .filter(item => item.productId || (item.description && item.unitPrice))
+      .map(item => ({
+        productId: item.productId || undefined,
+        description: item.description || undefined,
+        quantity: item.quantity || 1,
+        unitPrice: Number.isFinite(item.unitPrice) ? item.unitPrice : undefined,
+        category: item.category || undefined,
+        type: item.type
+      }))
+
+    if (items.length === 0) {
+      setPreview(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      setIsCalculating(true)
+      try {
+        const response = await fetch('/api/quotes/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            items,
+            discountPercent: Number.isFinite(discountPercent) ? discountPercent : undefined,
+            installments: { maxInstallments: 12 },
+            paymentConditions: toPaymentConditions(watchedPayment)
+          }),
+        })
+
+        if (response.ok) {
+          setPreview(await response.json())
+        }
+      } catch (error) {
+        console.error('Error calculating quote preview:', error)
+      } finally {
+        setIsCalculating(false)
+      }
+    }, 400)
+
+    return () => clearTimeout(timeout)
+  }, [previewKey])
+
+  const applyTemplate = (templateId: string) => {
+    setValue('templateId', templateId)
+    const template = templates.find(t => t.id === templateId)
+    if (!template) return
+
+    setValue('title', template.title)
+    setValue('description', template.description || '')
+    setValue('terms', template.terms || '')
+    setValue('discountPercent', template.discountPercent ?? undefined)
+    setValue('validUntil', toDateInput(new Date(Date.now() + template.validityDays * 24 * 60 * 60 * 1000)))
+    replace(template.items.map(item => {
+      const product = item.productId ? productsById.get(item.productId) : undefined
+      return {
+        productId: product?.id || '',
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice ?? product?.price,
+        category: item.category || '',
+        type: item.type || (product ? 'EQUIPMENT' : 'SERVICE')
+      }
+    }))
+  }
+
+  const selectProduct = (index: number, productId: string) => {
+    setValue(`items.${index}.productId`, productId)
+    const product = productsById.get(productId)
+    if (product) {
+      setValue(`items.${index}.description`, product.name)
+      setValue(`items.${index}.unitPrice`, product.price)
+      setValue(`items.${index}.type`, 'EQUIPMENT')
+    }
+  }
 
   const onSubmit = async (data: QuoteFormData) => {
     setIsSubmitting(true)
     setError(null)
 
     try {
+      const { payment, ...quoteData } = data
       const response = await fetch('/api/quotes', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          ...data,
-          totalValue,
+          ...quoteData,
+          templateId: data.templateId || undefined,
+          leadId: data.leadId || undefined,
+          userId: data.userId || undefined,
+          discountPercent: Number.isFinite(data.discountPercent) ? data.discountPercent : undefined,
+          items: data.items.map(item => ({
+            productId: item.productId || undefined,
+            description: item.description || undefined,
+            quantity: item.quantity,
+            unitPrice: Number.isFinite(item.unitPrice) ? item.unitPrice : undefined,
+            category: item.category || undefined,
+            type: item.type
+          })),
+          paymentConditions: toPaymentConditions(payment),
           validUntil: new Date(data.validUntil).toISOString()
         }),
       })
 
       if (response.ok) {
-        onSuccess?.()
+        if (onSuccess) {
+          onSuccess()
+        } else {
+          router.push('/dashboard/orcamentos')
+          router.refresh()
+        }
       } else {
         const errorData = await response.json()
-        setError(errorData.message || 'Erro ao criar orçamento')
+        setError(errorData.errors?.[0]?.message || errorData.message || 'Erro ao criar orçamento')
       }
     } catch (error) {
       console.error('Error creating quote:', error)
@@ -123,6 +357,24 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {/* Template */}
+          {templates.length > 0 && (
+            <div>
+              <Label htmlFor="templateId">Modelo de orçamento (opcional)</Label>
+              <select
+                id="templateId"
+                defaultValue=""
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Começar do zero</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Basic Information */}
           <div className="grid md:grid-cols-2 gap-4">
             <div>
@@ -168,7 +420,7 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
                 type="button"
                 variant="outline"
                 size="sm"
-                onClick={() => append({ description: '', quantity: 1, unitPrice: 0, category: '' })}
+                onClick={() => append(EMPTY_ITEM)}
               >
                 <Plus className="w-4 h-4 mr-2" />
                 Adicionar Item
@@ -176,94 +428,141 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
             </div>
 
             <div className="space-y-4">
-              {fields.map((field, index) => (
-                <Card key={field.id} className="p-4">
-                  <div className="grid md:grid-cols-12 gap-4 items-end">
-                    <div className="md:col-span-4">
-                      <Label htmlFor={`items.${index}.description`}>Descrição *</Label>
-                      <Input
-                        {...register(`items.${index}.description`)}
-                        placeholder="Descrição do item"
-                      />
-                      {errors.items?.[index]?.description && (
-                        <p className="text-sm text-red-600 mt-1">
-                          {errors.items[index]?.description?.message}
-                        </p>
-                      )}
-                    </div>
+              {fields.map((field, index) => {
+                const product = watchedItems[index]?.productId
+                  ? productsById.get(watchedItems[index].productId!)
+                  : undefined
 
-                    <div className="md:col-span-2">
-                      <Label htmlFor={`items.${index}.quantity`}>Qtd *</Label>
-                      <Input
-                        type="number"
-                        min="1"
-                        {...register(`items.${index}.quantity`, { valueAsNumber: true })}
-                        placeholder="1"
-                      />
-                      {errors.items?.[index]?.quantity && (
-                        <p className="text-sm text-red-600 mt-1">
-                          {errors.items[index]?.quantity?.message}
-                        </p>
-                      )}
-                    </div>
+                return (
+                  <Card key={field.id} className="p-4">
+                    {products.length > 0 && (
+                      <div className="mb-3">
+                        <Label htmlFor={`items.${index}.productId`}>Produto do catálogo</Label>
+                        <select
+                          id={`items.${index}.productId`}
+                          value={watchedItems[index]?.productId || ''}
+                          onChange={(e) => selectProduct(index, e.target.value)}
+                          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">Item livre (sem vínculo com o catálogo)</option>
+                          {products.map(option => (
+                            <option key={option.id} value={option.id}>
+                              {option.name} — {formatCurrency(option.price)}{!option.inStock ? ' (sem estoque)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                        {product && (
+                          <div className="flex gap-2 mt-2">
+                            {product.power && <Badge variant="secondary">{product.power} W</Badge>}
+                            {product.warranty && <Badge variant="secondary">Garantia de {product.warranty} anos</Badge>}
+                          </div>
+                        )}
+                      </div>
+                    )}
 
-                    <div className="md:col-span-2">
-                      <Label htmlFor={`items.${index}.unitPrice`}>Preço Unit. *</Label>
-                      <Input
-                        type="number"
-                        step="0.01"
-                        min="0"
-                        {...register(`items.${index}.unitPrice`, { valueAsNumber: true })}
-                        placeholder="0.00"
-                      />
-                      {errors.items?.[index]?.unitPrice && (
-                        <p className="text-sm text-red-600 mt-1">
-                          {errors.items[index]?.unitPrice?.message}
-                        </p>
-                      )}
-                    </div>
+                    <div className="grid md:grid-cols-12 gap-4 items-end">
+                      <div className="md:col-span-4">
+                        <Label htmlFor={`items.${index}.description`}>Descrição *</Label>
+                        <Input
+                          {...register(`items.${index}.description`)}
+                          placeholder="Descrição do item"
+                        />
+                        {errors.items?.[index]?.description && (
+                          <p className="text-sm text-red-600 mt-1">
+                            {errors.items[index]?.description?.message}
+                          </p>
+                        )}
+                      </div>
 
-                    <div className="md:col-span-2">
-                      <Label>Total</Label>
-                      <div className="h-10 flex items-center px-3 bg-gray-50 border rounded-md">
-                        R$ {((watchedItems[index]?.quantity || 0) * (watchedItems[index]?.unitPrice || 0)).toFixed(2)}
+                      <div className="md:col-span-2">
+                        <Label htmlFor={`items.${index}.quantity`}>Qtd *</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          {...register(`items.${index}.quantity`, { valueAsNumber: true })}
+                          placeholder="1"
+                        />
+                        {errors.items?.[index]?.quantity && (
+                          <p className="text-sm text-red-600 mt-1">
+                            {errors.items[index]?.quantity?.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <Label htmlFor={`items.${index}.unitPrice`}>Preço Unit. *</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          {...register(`items.${index}.unitPrice`, {
+                            setValueAs: (value) => value === '' || value === null ? undefined : Number(value)
+                          })}
+                          placeholder="0.00"
+                        />
+                        {errors.items?.[index]?.unitPrice && (
+                          <p className="text-sm text-red-600 mt-1">
+                            {errors.items[index]?.unitPrice?.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="md:col-span-2">
+                        <Label>Total</Label>
+                        <div className="h-10 flex items-center px-3 bg-gray-50 border rounded-md">
+                          {formatCurrency((watchedItems[index]?.quantity || 0) * (watchedItems[index]?.unitPrice || 0))}
+                        </div>
+                      </div>
+
+                      <div className="md:col-span-2 flex justify-end">
+                        {fields.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => remove(index)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
 
-                    <div className="md:col-span-2 flex justify-end">
-                      {fields.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          onClick={() => remove(index)}
-                          className="text-red-600 hover:text-red-700"
+                    <div className="mt-3 grid md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor={`items.${index}.category`}>Categoria (opcional)</Label>
+                        <select
+                          id={`items.${index}.category`}
+                          {...register(`items.${index}.category`)}
+                          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
                         >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      )}
-                    </div>
-                  </div>
+                          <option value="">{product ? 'Categoria do produto' : 'Selecione uma categoria'}</option>
+                          <option value="Painéis Solares">Painéis Solares</option>
+                          <option value="Inversores">Inversores</option>
+                          <option value="Estruturas">Estruturas</option>
+                          <option value="Cabos">Cabos</option>
+                          <option value="Instalação">Instalação</option>
+                          <option value="Mão de Obra">Mão de Obra</option>
+                          <option value="Outros">Outros</option>
+                        </select>
+                      </div>
 
-                  <div className="mt-3">
-                    <Label htmlFor={`items.${index}.category`}>Categoria (opcional)</Label>
-                    <Select onValueChange={(value) => setValue(`items.${index}.category`, value)}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Selecione uma categoria" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Painéis Solares">Painéis Solares</SelectItem>
-                        <SelectItem value="Inversores">Inversores</SelectItem>
-                        <SelectItem value="Estruturas">Estruturas</SelectItem>
-                        <SelectItem value="Cabos">Cabos</SelectItem>
-                        <SelectItem value="Instalação">Instalação</SelectItem>
-                        <SelectItem value="Mão de Obra">Mão de Obra</SelectItem>
-                        <SelectItem value="Outros">Outros</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </Card>
-              ))}
+                      <div>
+                        <Label htmlFor={`items.${index}.type`}>Tributação</Label>
+                        <select
+                          id={`items.${index}.type`}
+                          {...register(`items.${index}.type`)}
+                          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="EQUIPMENT">Equipamento (ICMS)</option>
+                          <option value="SERVICE">Serviço (ISS)</option>
+                        </select>
+                      </div>
+                    </div>
+                  </Card>
+                )
+              })}
             </div>
 
             {errors.items && (
@@ -273,16 +572,194 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
 
           {/* Total Summary */}
           <Card className="bg-gray-50">
-            <CardContent className="p-4">
-              <div className="flex items-center justify-between">
+            <CardContent className="p-4 space-y-3">
+              <div className="grid md:grid-cols-2 gap-4 items-end">
+                <div>
+                  <Label htmlFor="discountPercent">Desconto (%)</Label>
+                  <Input
+                    id="discountPercent"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max="100"
+                    {...register('discountPercent', {
+                      setValueAs: (value) => value === '' || value === null ? undefined : Number(value)
+                    })}
+                    placeholder="0"
+                  />
+                  {errors.discountPercent && (
+                    <p className="text-sm text-red-600 mt-1">{errors.discountPercent.message}</p>
+                  )}
+                </div>
+
+                {preview && (
+                  <div className="text-sm space-y-1 text-right">
+                    <div>Subtotal: {formatCurrency(preview.totals.subtotal)}</div>
+                    {preview.totals.discountValue > 0 && (
+                      <div className="text-red-600">Desconto: -{formatCurrency(preview.totals.discountValue)}</div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between border-t pt-3">
                 <div className="flex items-center gap-2">
                   <Calculator className="w-5 h-5" />
                   <span className="font-semibold">Valor Total do Orçamento:</span>
+                  {isCalculating && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
                 </div>
                 <div className="text-2xl font-bold text-green-600">
-                  R$ {totalValue.toFixed(2)}
+                  {formatCurrency(preview?.totals.totalValue ?? 0)}
                 </div>
               </div>
+
+              {preview && (
+                <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+                  {preview.installments
+                    .filter(option => HIGHLIGHTED_INSTALLMENTS.includes(option.count))
+                    .map(option => (
+                      <span key={option.count} className="px-2 py-1 bg-white border rounded">
+                        {option.count}x de {formatCurrency(option.amount)}
+                        {option.count > 1 && option.interestFree ? ' sem juros' : ''}
+                      </span>
+                    ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Payment Conditions */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Landmark className="w-4 h-4" />
+                Condições de Pagamento
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="payment.icmsRate">ICMS sobre equipamentos (%)</Label>
+                  <Input id="payment.icmsRate" type="number" step="0.01" min="0" {...register('payment.icmsRate', optionalNumber)} placeholder="0" />
+                  {errors.payment?.icmsRate && (
+                    <p className="text-sm text-red-600 mt-1">{errors.payment.icmsRate.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="payment.issRate">ISS sobre serviços (%)</Label>
+                  <Input id="payment.issRate" type="number" step="0.01" min="0" {...register('payment.issRate', optionalNumber)} placeholder="0" />
+                  {errors.payment?.issRate && (
+                    <p className="text-sm text-red-600 mt-1">{errors.payment.issRate.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="payment.cashDiscountPercent">Desconto à vista (%)</Label>
+                  <Input id="payment.cashDiscountPercent" type="number" step="0.1" min="0" {...register('payment.cashDiscountPercent', optionalNumber)} placeholder="0" />
+                  {errors.payment?.cashDiscountPercent && (
+                    <p className="text-sm text-red-600 mt-1">{errors.payment.cashDiscountPercent.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="payment.cardMaxInstallments">Parcelas no cartão</Label>
+                  <Input id="payment.cardMaxInstallments" type="number" min="1" max="24" {...register('payment.cardMaxInstallments', optionalNumber)} placeholder="Ex: 12" />
+                  {errors.payment?.cardMaxInstallments && (
+                    <p className="text-sm text-red-600 mt-1">{errors.payment.cardMaxInstallments.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="payment.cardInterestFreeInstallments">Sem juros até</Label>
+                  <Input id="payment.cardInterestFreeInstallments" type="number" min="0" max="24" {...register('payment.cardInterestFreeInstallments', optionalNumber)} placeholder="Ex: 10" />
+                </div>
+                <div>
+                  <Label htmlFor="payment.cardMonthlyRate">Juros do cartão (% a.m.)</Label>
+                  <Input id="payment.cardMonthlyRate" type="number" step="0.01" min="0" {...register('payment.cardMonthlyRate', optionalNumber)} placeholder="0" />
+                  {errors.payment?.cardMonthlyRate && (
+                    <p className="text-sm text-red-600 mt-1">{errors.payment.cardMonthlyRate.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="border-t pt-4">
+                <label className="flex items-center gap-2 text-sm font-medium">
+                  <input type="checkbox" {...register('payment.financingEnabled')} />
+                  Incluir simulação de financiamento solar
+                </label>
+
+                {watchedPayment?.financingEnabled && (
+                  <div className="grid md:grid-cols-4 gap-4 mt-3">
+                    <div>
+                      <Label htmlFor="payment.financingInstitution">Instituição</Label>
+                      <Input id="payment.financingInstitution" {...register('payment.financingInstitution')} placeholder="Ex: BV, Santander" />
+                    </div>
+                    <div>
+                      <Label htmlFor="payment.financingMonthlyRate">Taxa (% a.m.)</Label>
+                      <Input id="payment.financingMonthlyRate" type="number" step="0.01" min="0" {...register('payment.financingMonthlyRate', optionalNumber)} placeholder="Ex: 1.49" />
+                      {errors.payment?.financingMonthlyRate && (
+                        <p className="text-sm text-red-600 mt-1">{errors.payment.financingMonthlyRate.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="payment.financingTermMonths">Prazo (meses)</Label>
+                      <Input id="payment.financingTermMonths" type="number" min="6" max="120" {...register('payment.financingTermMonths', optionalNumber)} placeholder="Ex: 60" />
+                      {errors.payment?.financingTermMonths && (
+                        <p className="text-sm text-red-600 mt-1">{errors.payment.financingTermMonths.message}</p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="payment.financingDownPaymentPercent">Entrada (%)</Label>
+                      <Input id="payment.financingDownPaymentPercent" type="number" step="1" min="0" max="90" {...register('payment.financingDownPaymentPercent', optionalNumber)} placeholder="0" />
+                      {errors.payment?.financingDownPaymentPercent && (
+                        <p className="text-sm text-red-600 mt-1">{errors.payment.financingDownPaymentPercent.message}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="md:w-1/3">
+                <Label htmlFor="payment.currentMonthlyBill">Conta de luz atual do cliente (R$/mês)</Label>
+                <Input id="payment.currentMonthlyBill" type="number" step="0.01" min="0" {...register('payment.currentMonthlyBill', optionalNumber)} placeholder="Ex: 450" />
+                {errors.payment?.currentMonthlyBill && (
+                  <p className="text-sm text-red-600 mt-1">{errors.payment.currentMonthlyBill.message}</p>
+                )}
+              </div>
+
+              {preview?.payment && (
+                <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-2">
+                  <div className="flex justify-between">
+                    <span>Equipamentos / Serviços</span>
+                    <span>{formatCurrency(preview.payment.equipmentValue)} / {formatCurrency(preview.payment.serviceValue)}</span>
+                  </div>
+                  {preview.payment.taxes.map(line => (
+                    <div key={line.tax} className="flex justify-between text-gray-600">
+                      <span>{line.label} ({line.rate}%)</span>
+                      <span>{formatCurrency(line.value)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-medium">
+                    <span>À vista</span>
+                    <span>{formatCurrency(preview.payment.cashPrice)}</span>
+                  </div>
+                  {preview.payment.financing && (
+                    <div className="flex justify-between font-medium">
+                      <span>Financiamento</span>
+                      <span>
+                        {preview.payment.financing.termMonths}x de {formatCurrency(preview.payment.financing.installment)}
+                      </span>
+                    </div>
+                  )}
+                  {preview.payment.billComparison && (
+                    <div className="flex items-center gap-2 border-t pt-2">
+                      <Zap className="w-4 h-4 text-orange-500" />
+                      Parcela de {formatCurrency(preview.payment.billComparison.monthlyInstallment)} contra conta de{' '}
+                      {formatCurrency(preview.payment.billComparison.currentMonthlyBill)}/mês
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -316,10 +793,17 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
             </div>
           )}
 
+          {products.length === 0 && (
+            <p className="text-xs text-gray-500 flex items-center gap-1">
+              <Package className="w-3 h-3" />
+              Cadastre produtos no catálogo para incluí-los nos orçamentos com preço, potência e garantia automáticos.
+            </p>
+          )}
+
           {/* Actions */}
           <div className="flex gap-4 pt-4">
-            <Button 
-              type="submit" 
+            <Button
+              type="submit"
               disabled={isSubmitting}
               className="flex-1"
             >
@@ -346,4 +830,4 @@ export function QuoteForm({ leadId, leadName, onSuccess, onCancel }: QuoteFormPr
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,378 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { FileText, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import type { CatalogProductOption, QuoteTemplateOption } from './quote-form'
+
+interface TemplateItemDraft {
+  productId: string
+  description: string
+  quantity: number
+  unitPrice: string
+  type: 'EQUIPMENT' | 'SERVICE'
+}
+
+interface QuoteTemplatesManagerProps {
+  templates: QuoteTemplateOption[]
+  products: CatalogProductOption[]
+}
+
+const EMPTY_ITEM: TemplateItemDraft = { productId: '', description: '', quantity: 1, unitPrice: '', type: 'EQUIPMENT' }
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+export function QuoteTemplatesManager({ templates, products }: QuoteTemplatesManagerProps) {
+  const router = useRouter()
+  const { addToast } = useToast()
+  const [showForm, setShowForm] = useState(templates.length === 0)
+  const [saving, setSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [form, setForm] = useState({
+    name: '',
+    title: '',
+    description: '',
+    terms: '',
+    validityDays: 30,
+    discountPercent: ''
+  })
+  const [items, setItems] = useState<TemplateItemDraft[]>([EMPTY_ITEM])
+  const productsById = new Map(products.map(product => [product.id, product]))
+
+  const updateItem = (index: number, changes: Partial<TemplateItemDraft>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)))
+  }
+
+  const resetForm = () => {
+    setForm({ name: '', title: '', description: '', terms: '', validityDays: 30, discountPercent: '' })
+    setItems([EMPTY_ITEM])
+  }
+
+  const saveTemplate = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/quotes/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          title: form.title,
+          description: form.description || undefined,
+          terms: form.terms || undefined,
+          validityDays: form.validityDays,
+          discountPercent: form.discountPercent ? Number(form.discountPercent) : undefined,
+          // Sem preço, itens do catálogo acompanham o preço atual do produto
+          items: items.map(item => ({
+            productId: item.productId || undefined,
+            description: item.description || undefined,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice ? Number(item.unitPrice) : undefined,
+            type: item.type
+          }))
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      addToast({
+        type: 'success',
+        title: 'Modelo salvo!',
+        message: 'O modelo já pode ser usado em novos orçamentos'
+      })
+      resetForm()
+      setShowForm(false)
+      router.refresh()
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível salvar o modelo',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTemplate = async (templateId: string) => {
+    if (!confirm('Excluir este modelo? Orçamentos já criados não são afetados.')) return
+
+    setDeletingId(templateId)
+    try {
+      const response = await fetch(`/api/quotes/templates/${templateId}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        router.refresh()
+      }
+    } catch (error) {
+      console.error('Error deleting quote template:', error)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo Modelo
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Novo Modelo de Orçamento
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">Nome do modelo *</Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Ex: Residencial 5kWp em telhado cerâmico"
+                />
+              </div>
+              <div>
+                <Label htmlFor="title">Título do orçamento *</Label>
+                <Input
+                  id="title"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="Ex: Sistema Solar Residencial 5kWp"
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="validityDays">Validade (dias)</Label>
+                <Input
+                  id="validityDays"
+                  type="number"
+                  min="1"
+                  max="180"
+                  value={form.validityDays}
+                  onChange={(e) => setForm({ ...form, validityDays: parseInt(e.target.value) || 30 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="discountPercent">Desconto padrão (%)</Label>
+                <Input
+                  id="discountPercent"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  value={form.discountPercent}
+                  onChange={(e) => setForm({ ...form, discountPercent: e.target.value })}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Label className="text-base font-semibold">Itens</Label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setItems([...items, EMPTY_ITEM])}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Adicionar Item
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                {items.map((item, index) => {
+                  const product = item.productId ? productsById.get(item.productId) : undefined
+
+                  return (
+                    <div key={index} className="grid md:grid-cols-12 gap-3 items-end border rounded-lg p-3">
+                      <div className="md:col-span-3">
+                        <Label>Produto do catálogo</Label>
+                        <select
+                          value={item.productId}
+                          onChange={(e) => updateItem(index, {
+                            productId: e.target.value,
+                            description: productsById.get(e.target.value)?.name || item.description,
+                            type: e.target.value ? 'EQUIPMENT' : item.type
+                          })}
+                          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">Item livre</option>
+                          {products.map(option => (
+                            <option key={option.id} value={option.id}>{option.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="md:col-span-3">
+                        <Label>Descrição</Label>
+                        <Input
+                          value={item.description}
+                          onChange={(e) => updateItem(index, { description: e.target.value })}
+                          placeholder="Ex: Mão de obra de instalação"
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <Label>Tributação</Label>
+                        <select
+                          value={item.type}
+                          onChange={(e) => updateItem(index, { type: e.target.value as TemplateItemDraft['type'] })}
+                          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="EQUIPMENT">Equipamento</option>
+                          <option value="SERVICE">Serviço</option>
+                        </select>
+                      </div>
+                      <div className="md:col-span-1">
+                        <Label>Qtd</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={item.quantity}
+                          onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 1 })}
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <Label>Preço unit.</Label>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={item.unitPrice}
+                          onChange={(e) => updateItem(index, { unitPrice: e.target.value })}
+                          placeholder={product ? formatCurrency(product.price) : '0,00'}
+                        />
+                      </div>
+                      <div className="md:col-span-1 flex justify-end">
+                        {items.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setItems(items.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Deixe o preço em branco nos itens do catálogo para usar sempre o preço atual do produto.
+              </p>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="description">Descrição</Label>
+                <Textarea
+                  id="description"
+                  rows={3}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="terms">Termos e Condições</Label>
+                <Textarea
+                  id="terms"
+                  rows={3}
+                  value={form.terms}
+                  onChange={(e) => setForm({ ...form, terms: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <Button onClick={saveTemplate} disabled={saving || !form.name || !form.title}>
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Salvar Modelo
+              </Button>
+              <Button variant="outline" onClick={() => { resetForm(); setShowForm(false) }} disabled={saving}>
+                Cancelar
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {templates.length === 0 && !showForm ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-600">
+            Nenhum modelo cadastrado ainda.
+          </CardContent>
+        </Card>
+      ) : (
+        templates.map(template => (
+          <Card key={template.id}>
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{template.name}</h3>
+                  <p className="text-sm text-gray-600">{template.title}</p>
+                  <div className="flex gap-2 mt-2">
+                    <Badge variant="secondary">{template.items.length} itens</Badge>
+                    <Badge variant="secondary">Validade de {template.validityDays} dias</Badge>
+                    {!!template.discountPercent && (
+                      <Badge variant="secondary">{template.discountPercent}% de desconto</Badge>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => deleteTemplate(template.id)}
+                  disabled={deletingId === template.id}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Excluir
+                </Button>
+              </div>
+
+              <div className="bg-gray-50 p-3 rounded-lg mt-4 space-y-1">
+                {template.items.map((item, index) => (
+                  <div key={index} className="flex justify-between text-xs">
+                    <span className="truncate">
+                      {item.quantity}x {item.description}
+                      {item.productId && <span className="text-gray-500"> · catálogo</span>}
+                    </span>
+                    <span className="font-medium">
+                      {item.unitPrice !== null && item.unitPrice !== undefined
+                        ? formatCurrency(item.unitPrice)
+                        : 'Preço do catálogo'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { 
@@ -15,7 +16,10 @@ import {
   AlertCircle,
   Calendar,
   User,
-  Plus
+  Plus,
+  History,
+  RefreshCw,
+  Layers
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 
@@ -28,6 +32,13 @@ interface QuoteItem {
   category?: string
 }
 
+interface QuoteRevision {
+  version: number
+  totalValue: number
+  changeSummary?: string | null
+  createdAt: string
+}
+
 interface Quote {
   id: string
   title: string
@@ -40,6 +51,7 @@ interface Quote {
   createdAt: string
   updatedAt: string
   items: QuoteItem[]
+  revisions: QuoteRevision[]
   lead?: {
     id: string
     name: string
@@ -96,6 +108,20 @@ export function QuotesList() {
     }
   }
 
+  const renewQuote = async (quoteId: string) => {
+    try {
+      const response = await fetch(`/api/quotes/${quoteId}/renew`, {
+        method: 'POST',
+      })
+
+      if (response.ok) {
+        fetchQuotes() // Refresh the list
+      }
+    } catch (error) {
+      console.error('Error renewing quote:', error)
+    }
+  }
+
   const statusLabels: Record<string, string> = {
     DRAFT: 'Rascunho',
     SENT: 'Enviado',
@@ -151,6 +177,7 @@ export function QuotesList() {
       viewed: stats.VIEWED || 0,
       accepted: stats.ACCEPTED || 0,
       rejected: stats.REJECTED || 0,
+      expired: stats.EXPIRED || 0,
     }
   }
 
@@ -159,7 +186,7 @@ export function QuotesList() {
   return (
     <div className="space-y-6">
       {/* Stats Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-4">
         <Card>
           <CardContent className="p-4 text-center">
             <div className="text-2xl font-bold text-gray-900">{stats.total}</div>
@@ -201,6 +228,13 @@ export function QuotesList() {
             <div className="text-sm text-gray-600">Rejeitados</div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold text-orange-600">{stats.expired}</div>
+            <div className="text-sm text-gray-600">Expirados</div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Actions */}
@@ -231,10 +265,20 @@ export function QuotesList() {
           })}
         </div>
 
-        <Button className="flex items-center gap-2">
-          <Plus className="w-4 h-4" />
-          Novo Orçamento
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/dashboard/orcamentos/modelos">
+              <Layers className="w-4 h-4 mr-2" />
+              Modelos
+            </Link>
+          </Button>
+          <Button className="flex items-center gap-2" asChild>
+            <Link href="/dashboard/orcamentos/novo">
+              <Plus className="w-4 h-4" />
+              Novo Orçamento
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Quotes List */}
@@ -309,6 +353,14 @@ export function QuotesList() {
                           <div>
                             <strong>Itens:</strong> {quote.items.length}
                           </div>
+                          {quote.revisions.length > 0 && (
+                            <div className="flex items-center">
+                              <History className="w-4 h-4 mr-2" />
+                              {quote.revisions.length === 1
+                                ? '1 versão enviada'
+                                : `${quote.revisions.length} versões enviadas`}
+                            </div>
+                          )}
                           {quote.description && (
                             <div className="text-xs text-gray-500 truncate">
                               {quote.description}
@@ -317,6 +369,38 @@ export function QuotesList() {
                         </div>
                       </div>
 
+                      {/* Revision history */}
+                      {quote.revisions.length > 1 && (
+                        <div className="border border-blue-100 bg-blue-50 p-3 rounded-lg mb-4">
+                          <h4 className="font-medium text-sm mb-2">Histórico de versões:</h4>
+                          <div className="space-y-1">
+                            {quote.revisions.map((revision, index) => {
+                              const previous = quote.revisions[index - 1]
+                              const delta = previous ? Number(revision.totalValue) - Number(previous.totalValue) : 0
+
+                              return (
+                                <div key={revision.version} className="flex justify-between text-xs">
+                                  <span className="truncate">
+                                    v{revision.version} · {formatDate(revision.createdAt)}
+                                    {revision.changeSummary && (
+                                      <span className="text-gray-500"> · {revision.changeSummary}</span>
+                                    )}
+                                  </span>
+                                  <span className="font-medium whitespace-nowrap ml-2">
+                                    {formatCurrency(Number(revision.totalValue))}
+                                    {delta !== 0 && (
+                                      <span className={delta < 0 ? 'text-red-600' : 'text-green-600'}>
+                                        {' '}({delta > 0 ? '+' : '-'}{formatCurrency(Math.abs(delta))})
+                                      </span>
+                                    )}
+                                  </span>
+                                </div>
+                              )
+                            })}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Items preview */}
                       <div className="bg-gray-50 p-3 rounded-lg mb-4">
                         <h4 className="font-medium text-sm mb-2">Itens do Orçamento:</h4>
@@ -362,6 +446,18 @@ export function QuotesList() {
                           Enviar
                         </Button>
                       )}
+
+                      {(quote.status === 'EXPIRED' || expired) && quote.status !== 'ACCEPTED' && quote.status !== 'REJECTED' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-orange-300 text-orange-700 hover:bg-orange-50"
+                          onClick={() => renewQuote(quote.id)}
+                        >
+                          <RefreshCw className="w-4 h-4 mr-2" />
+                          Renovar por 15 dias
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -16,8 +16,11 @@ import {
   DollarSign,
   Eye,
   MessageCircle,
-  Filter
+  Filter,
+  Clock
 } from 'lucide-react'
+import { formatStageDuration } from '@/lib/leads/sla'
+import type { PipelineStageMetrics } from '@/lib/leads/pipeline'
 
 interface ReportData {
   period: string
@@ -35,6 +38,10 @@ interface ReportData {
     topProducts: Array<{ name: string; views: number; leads: number }>
     leadSources: Array<{ source: string; count: number; percentage: number }>
   }
+  pipeline?: {
+    stages: PipelineStageMetrics[]
+    bottleneck: PipelineStageMetrics | null
+  }
   insights: Array<{
     type: 'positive' | 'negative' | 'neutral'
     title: string
@@ -360,6 +367,68 @@ export function ReportsDashboard() {
         </Card>
       </div>
 
+      {/* Pipeline time in stage */}
+      {reportData.pipeline && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5" />
+              Tempo por Etapa do Funil
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-600">
+                    <th className="text-left py-2">Etapa</th>
+                    <th className="text-right py-2">Leads agora</th>
+                    <th className="text-right py-2">Atrasados</th>
+                    <th className="text-right py-2">Tempo mediano</th>
+                    <th className="text-right py-2">Tempo médio</th>
+                    <th className="text-right py-2">Prazo (SLA)</th>
+                    <th className="text-right py-2">Dentro do prazo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reportData.pipeline.stages.map(stage => {
+                    const isBottleneck = reportData.pipeline?.bottleneck?.stage === stage.stage
+
+                    return (
+                      <tr key={stage.stage} className={`border-b ${isBottleneck ? 'bg-red-50' : ''}`}>
+                        <td className="py-2 font-medium text-gray-900">
+                          {stage.label}
+                          {isBottleneck && <Badge variant="outline" className="ml-2 text-red-700">Gargalo</Badge>}
+                        </td>
+                        <td className="text-right py-2">{formatNumber(stage.currentCount)}</td>
+                        <td className={`text-right py-2 ${stage.overdueCount > 0 ? 'text-red-600 font-semibold' : ''}`}>
+                          {formatNumber(stage.overdueCount)}
+                        </td>
+                        <td className="text-right py-2">
+                          {stage.medianMinutes !== null ? formatStageDuration(stage.medianMinutes) : '—'}
+                        </td>
+                        <td className="text-right py-2">
+                          {stage.averageMinutes !== null ? formatStageDuration(stage.averageMinutes) : '—'}
+                        </td>
+                        <td className="text-right py-2">
+                          {stage.slaMinutes !== null ? formatStageDuration(stage.slaMinutes) : '—'}
+                        </td>
+                        <td className="text-right py-2">
+                          {stage.slaComplianceRate !== null ? `${(stage.slaComplianceRate * 100).toFixed(0)}%` : '—'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              Tempos calculados a partir das mudanças de etapa no período selecionado.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Insights */}
       <Card>
         <CardHeader>
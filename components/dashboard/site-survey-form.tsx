@@ -0,0 +1,488 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/components/ui/toast'
+import { useUploadThing } from '@/hooks/use-uploadthing'
+import { imageUpload } from '@/lib/image-upload'
+import {
+  formatSurveyAnswer,
+  getSiteSurveyPendingItems,
+  type SiteSurveyAnswer,
+  type SiteSurveyAnswers,
+  type SiteSurveyField,
+  type SiteSurveyForm as SiteSurveyFormDefinition
+} from '@/lib/site-surveys/fields'
+import { AlertCircle, Camera, CheckCircle, Download, Loader2, Trash2 } from 'lucide-react'
+
+// Espera depois da última alteração antes de salvar o rascunho
+const AUTOSAVE_DELAY_MS = 1500
+
+interface SurveyPhoto {
+  id: string
+  name: string
+  caption: string | null
+}
+
+interface SiteSurveyFormProps {
+  surveyId: string
+  status: 'DRAFT' | 'COMPLETED'
+  form: SiteSurveyFormDefinition
+  initialAnswers: SiteSurveyAnswers
+  initialNotes: string
+  initialLeadId: string | null
+  initialPhotos: SurveyPhoto[]
+  completedAt: Date | null
+  completedByName: string | null
+  leads: Array<{ id: string; name: string; email: string }>
+}
+
+type SaveState = 'idle' | 'pending' | 'saving' | 'saved' | 'error'
+
+function FieldInput({
+  field,
+  value,
+  onChange
+}: {
+  field: SiteSurveyField
+  value: SiteSurveyAnswer | undefined
+  onChange: (value: SiteSurveyAnswer) => void
+}) {
+  const id = `survey-${field.key}`
+
+  switch (field.type) {
+    case 'select':
+      return (
+        <select
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className="w-full p-3 border border-gray-300 rounded-md text-base"
+        >
+          <option value="">Selecione</option>
+          {(field.options ?? []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      )
+    case 'yesno':
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map(option => (
+            <Button
+              key={String(option)}
+              type="button"
+              variant={value === option ? 'default' : 'outline'}
+              className="h-12"
+              onClick={() => onChange(value === option ? null : option)}
+            >
+              {option ? 'Sim' : 'Não'}
+            </Button>
+          ))}
+        </div>
+      )
+    case 'number':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            id={id}
+            type="number"
+            inputMode="decimal"
+            min={field.min}
+            max={field.max}
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+            className="h-12 text-base"
+          />
+          {field.unit && <span className="text-gray-600">{field.unit}</span>}
+        </div>
+      )
+    default:
+      return (
+        <Input
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-12 text-base"
+        />
+      )
+  }
+}
+
+// Checklist da vistoria técnica, pensado para o celular do técnico em campo
+export function SiteSurveyForm({
+  surveyId,
+  status,
+  form,
+  initialAnswers,
+  initialNotes,
+  initialLeadId,
+  initialPhotos,
+  completedAt,
+  completedByName,
+  leads
+}: SiteSurveyFormProps) {
+  const router = useRouter()
+  const { addToast } = useToast()
+  const { startUpload } = useUploadThing('siteSurveyPhoto')
+  const [answers, setAnswers] = useState<SiteSurveyAnswers>(initialAnswers)
+  const [notes, setNotes] = useState(initialNotes)
+  const [leadId, setLeadId] = useState(initialLeadId ?? '')
+  const [photos, setPhotos] = useState<SurveyPhoto[]>(initialPhotos)
+  const [saveState, setSaveState] = useState<SaveState>('idle')
+  const [uploading, setUploading] = useState(false)
+  const [completing, setCompleting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+  const dirtyRef = useRef(false)
+
+  const readOnly = status === 'COMPLETED'
+  const pending = getSiteSurveyPendingItems(form, answers, photos.length)
+
+  const save = useCallback(async (): Promise<boolean> => {
+    clearTimeout(saveTimeoutRef.current)
+    dirtyRef.current = false
+    setSaveState('saving')
+
+    try {
+      const response = await fetch(`/api/site-surveys/${surveyId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answers, notes, leadId: leadId || null }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setSaveState('saved')
+      return true
+    } catch (error) {
+      dirtyRef.current = true
+      setSaveState('error')
+      addToast({
+        type: 'error',
+        title: 'Não foi possível salvar a vistoria',
+        message: error instanceof Error && error.message ? error.message : 'Verifique a conexão e tente novamente'
+      })
+      return false
+    }
+  }, [surveyId, answers, notes, leadId, addToast])
+
+  // Salva o rascunho alguns instantes depois da última alteração
+  useEffect(() => {
+    if (!dirtyRef.current) return
+
+    setSaveState('pending')
+    saveTimeoutRef.current = setTimeout(save, AUTOSAVE_DELAY_MS)
+    return () => clearTimeout(saveTimeoutRef.current)
+  }, [save])
+
+  const change = (update: () => void) => {
+    dirtyRef.current = true
+    update()
+  }
+
+  const handlePhotos = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? [])
+    if (selected.length === 0) return
+
+    setUploading(true)
+
+    try {
+      // Fotos em JPEG reduzido, para caberem no relatório em PDF
+      const files = await Promise.all(selected.map(async file => {
+        try {
+          return await imageUpload.toJpeg(file)
+        } catch (error) {
+          console.error('Error converting survey photo:', error)
+          return file
+        }
+      }))
+
+      const uploaded = await startUpload(files, { surveyId })
+      if (!uploaded) throw new Error('Upload failed')
+
+      setPhotos(prev => [
+        ...prev,
+        ...uploaded.map(file => ({ id: file.serverData.photoId, name: file.name, caption: null }))
+      ])
+    } catch (error) {
+      console.error('Error uploading survey photos:', error)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível enviar as fotos',
+        message: 'Envie até 10 fotos por vez, com no máximo 8MB cada'
+      })
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const saveCaption = async (photo: SurveyPhoto) => {
+    try {
+      await fetch(`/api/site-surveys/${surveyId}/photos/${photo.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ caption: photo.caption }),
+      })
+    } catch (error) {
+      console.error('Error saving photo caption:', error)
+    }
+  }
+
+  const removePhoto = async (photoId: string) => {
+    const previous = photos
+    setPhotos(prev => prev.filter(photo => photo.id !== photoId))
+
+    try {
+      const response = await fetch(`/api/site-surveys/${surveyId}/photos/${photoId}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Delete failed')
+    } catch (error) {
+      setPhotos(previous)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível remover a foto',
+        message: 'Tente novamente mais tarde'
+      })
+    }
+  }
+
+  const complete = async () => {
+    setCompleting(true)
+
+    try {
+      if (dirtyRef.current && !(await save())) return
+
+      const response = await fetch(`/api/site-surveys/${surveyId}/complete`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.pending?.[0] || data.message)
+      }
+
+      addToast({
+        type: 'success',
+        title: 'Vistoria concluída!',
+        message: 'O relatório em PDF já está disponível no lead'
+      })
+      router.refresh()
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível concluir a vistoria',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setCompleting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 pb-24 md:pb-0">
+      {readOnly && (
+        <Card>
+          <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="w-5 h-5" />
+              Vistoria concluída
+              {completedAt && ` em ${new Date(completedAt).toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', dateStyle: 'short', timeStyle: 'short' })}`}
+              {completedByName && ` por ${completedByName}`}
+            </div>
+            <Button asChild>
+              <a href={`/api/site-surveys/${surveyId}/pdf`}>
+                <Download className="w-4 h-4 mr-2" />
+                Relatório PDF
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Levantamento técnico</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {form.fields.map(field => (
+            <div key={field.key}>
+              {readOnly ? (
+                <>
+                  <div className="text-xs text-gray-500">{field.label}</div>
+                  <div className="font-medium">{formatSurveyAnswer(field, answers[field.key])}</div>
+                </>
+              ) : (
+                <>
+                  <Label htmlFor={`survey-${field.key}`} className="text-base">
+                    {field.label}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  {field.hint && <p className="text-xs text-gray-500">{field.hint}</p>}
+                  <div className="mt-2">
+                    <FieldInput
+                      field={field}
+                      value={answers[field.key]}
+                      onChange={(value) => change(() => setAnswers(prev => ({ ...prev, [field.key]: value })))}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+
+          <div>
+            <Label htmlFor="surveyNotes" className="text-base">Observações</Label>
+            {readOnly ? (
+              <p className="text-gray-700 whitespace-pre-line">{notes || '—'}</p>
+            ) : (
+              <Textarea
+                id="surveyNotes"
+                value={notes}
+                onChange={(e) => change(() => setNotes(e.target.value))}
+                placeholder="Acesso ao telhado, pontos de atenção, pedidos do cliente..."
+                rows={4}
+                className="mt-2 text-base"
+              />
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="surveyLead" className="text-base">Lead</Label>
+            <select
+              id="surveyLead"
+              value={leadId}
+              disabled={readOnly}
+              onChange={(e) => change(() => setLeadId(e.target.value))}
+              className="mt-2 w-full p-3 border border-gray-300 rounded-md text-base"
+            >
+              <option value="">Sem lead vinculado</option>
+              {leads.map(lead => (
+                <option key={lead.id} value={lead.id}>{lead.name} · {lead.email}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">O relatório aparece na ficha do lead e ao montar o orçamento.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Fotos ({photos.length}{form.minPhotos > 0 ? ` de ${form.minPhotos}` : ''})</span>
+            {!readOnly && (
+              <Button onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Camera className="w-4 h-4 mr-2" />}
+                Adicionar fotos
+              </Button>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            className="hidden"
+            onChange={handlePhotos}
+          />
+
+          {photos.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Fotografe o telhado, a estrutura, o padrão de entrada e o quadro de distribuição.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {photos.map((photo, index) => (
+                <div key={photo.id} className="space-y-2">
+                  <div className="relative">
+                    <img
+                      src={`/api/site-surveys/${surveyId}/photos/${photo.id}`}
+                      alt={photo.caption || photo.name}
+                      className="w-full aspect-square object-cover rounded-lg bg-gray-100"
+                    />
+                    {!readOnly && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        aria-label="Remover foto"
+                        className="absolute top-2 right-2"
+                        onClick={() => removePhoto(photo.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {readOnly ? (
+                    photo.caption && <p className="text-xs text-gray-600">{photo.caption}</p>
+                  ) : (
+                    <Input
+                      aria-label={`Legenda da foto ${index + 1}`}
+                      value={photo.caption ?? ''}
+                      placeholder="Legenda"
+                      onChange={(e) => setPhotos(prev => prev.map(p => (
+                        p.id === photo.id ? { ...p, caption: e.target.value } : p
+                      )))}
+                      onBlur={() => saveCaption(photo)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!readOnly && (
+        <div className="fixed bottom-0 inset-x-0 md:static bg-white md:bg-transparent border-t md:border-0 p-4 md:p-0 space-y-3">
+          {pending.length > 0 && (
+            <div className="hidden md:block text-sm text-gray-700">
+              <div className="flex items-center gap-2 font-medium mb-1">
+                <AlertCircle className="w-4 h-4 text-orange-600" />
+                Falta para concluir
+              </div>
+              <ul className="list-disc ml-6 space-y-1">
+                {pending.map(item => <li key={item}>{item}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-3">
+            <Badge className="bg-gray-100 text-gray-700">
+              {{
+                idle: 'Rascunho',
+                pending: 'Alterações não salvas',
+                saving: 'Salvando...',
+                saved: 'Rascunho salvo',
+                error: 'Erro ao salvar'
+              }[saveState]}
+            </Badge>
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              disabled={pending.length > 0 || completing || uploading}
+              onClick={complete}
+              title={pending[0]}
+            >
+              {completing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+              {pending.length > 0 ? `${pending.length} pendência${pending.length === 1 ? '' : 's'}` : 'Concluir vistoria'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/components/ui/toast'
+import { ClipboardCheck, Loader2, Plus, Trash2 } from 'lucide-react'
+import {
+  SITE_SURVEY_FIELD_TYPE_LABELS,
+  STANDARD_SITE_SURVEY_FIELDS,
+  type SiteSurveyFieldType
+} from '@/lib/site-surveys/fields'
+import type { SiteSurveyConfig, SiteSurveyCustomField, SiteSurveyStandardField } from '@/lib/validations'
+
+// Opções da lista editadas como texto, uma por linha
+type EditableCustomField = SiteSurveyCustomField & { optionsText: string }
+
+const standardFields = Object.keys(STANDARD_SITE_SURVEY_FIELDS) as SiteSurveyStandardField[]
+
+function newFieldId() {
+  return `campo_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function SiteSurveySettings() {
+  const { addToast } = useToast()
+  const [requiredFields, setRequiredFields] = useState<SiteSurveyStandardField[] | null>(null)
+  const [customFields, setCustomFields] = useState<EditableCustomField[]>([])
+  const [minPhotos, setMinPhotos] = useState(4)
+  const [saving, setSaving] = useState(false)
+
+  const applyConfig = (config: SiteSurveyConfig) => {
+    setRequiredFields(config.requiredFields)
+    setCustomFields(config.customFields.map(field => ({ ...field, optionsText: field.options.join('\n') })))
+    setMinPhotos(config.minPhotos)
+  }
+
+  useEffect(() => {
+    const fetchConfig = async () => {
+      try {
+        const response = await fetch('/api/company/site-survey-form')
+        if (response.ok) {
+          const data = await response.json()
+          applyConfig(data.data.config)
+        }
+      } catch (error) {
+        console.error('Error fetching site survey form:', error)
+      }
+    }
+
+    fetchConfig()
+  }, [])
+
+  const updateField = (index: number, changes: Partial<EditableCustomField>) => {
+    setCustomFields(fields => fields.map((field, i) => (i === index ? { ...field, ...changes } : field)))
+  }
+
+  const toggleRequired = (key: SiteSurveyStandardField, required: boolean) => {
+    if (!requiredFields) return
+    setRequiredFields(required ? [...requiredFields, key] : requiredFields.filter(field => field !== key))
+  }
+
+  const save = async () => {
+    if (!requiredFields) return
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/company/site-survey-form', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          requiredFields,
+          minPhotos,
+          customFields: customFields.map(({ optionsText, ...field }) => ({
+            ...field,
+            options: field.type === 'select'
+              ? optionsText.split('\n').map(option => option.trim()).filter(Boolean)
+              : [],
+            unit: field.type === 'number' ? field.unit || null : null
+          }))
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      applyConfig(data.data.config)
+      addToast({
+        type: 'success',
+        title: 'Formulário atualizado!',
+        message: 'As próximas vistorias já usam os novos campos'
+      })
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível salvar o formulário',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Formulário de Vistoria Técnica
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!requiredFields ? (
+          <div className="flex items-center text-gray-600">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Carregando...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h4 className="font-medium text-gray-900">Campos padrão obrigatórios</h4>
+              <p className="text-sm text-gray-600 mb-3">
+                Todos aparecem no formulário; os marcados precisam ser preenchidos para concluir a vistoria.
+              </p>
+              <div className="grid md:grid-cols-2 gap-2">
+                {standardFields.map(key => (
+                  <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={requiredFields.indexOf(key) !== -1}
+                      onChange={(e) => toggleRequired(key, e.target.checked)}
+                    />
+                    {STANDARD_SITE_SURVEY_FIELDS[key].label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="max-w-xs">
+              <Label htmlFor="surveyMinPhotos">Fotos mínimas</Label>
+              <Input
+                id="surveyMinPhotos"
+                type="number"
+                min={0}
+                max={20}
+                value={minPhotos}
+                onChange={(e) => setMinPhotos(Number(e.target.value))}
+              />
+            </div>
+
+            <div>
+              <h4 className="font-medium text-gray-900">Campos da empresa</h4>
+              <p className="text-sm text-gray-600 mb-3">
+                Perguntas extras que sua equipe responde em toda vistoria.
+              </p>
+
+              <div className="space-y-3">
+                {customFields.map((field, index) => (
+                  <div key={field.id} className="border rounded-lg p-3 space-y-3">
+                    <div className="grid md:grid-cols-3 gap-3">
+                      <Input
+                        aria-label="Nome do campo"
+                        value={field.label}
+                        onChange={(e) => updateField(index, { label: e.target.value })}
+                        placeholder="Ex.: Acesso ao telhado"
+                      />
+                      <select
+                        aria-label="Tipo do campo"
+                        value={field.type}
+                        onChange={(e) => updateField(index, { type: e.target.value as SiteSurveyFieldType })}
+                        className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                      >
+                        {(Object.keys(SITE_SURVEY_FIELD_TYPE_LABELS) as SiteSurveyFieldType[]).map(type => (
+                          <option key={type} value={type}>{SITE_SURVEY_FIELD_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      <div className="flex items-center justify-between gap-3">
+                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={field.required}
+                            onChange={(e) => updateField(index, { required: e.target.checked })}
+                          />
+                          Obrigatório
+                        </label>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label="Remover campo"
+                          onClick={() => setCustomFields(fields => fields.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {field.type === 'number' && (
+                      <Input
+                        aria-label="Unidade"
+                        value={field.unit ?? ''}
+                        onChange={(e) => updateField(index, { unit: e.target.value })}
+                        placeholder="Unidade (opcional), ex.: m²"
+                        className="max-w-xs"
+                      />
+                    )}
+
+                    {field.type === 'select' && (
+                      <textarea
+                        aria-label="Opções"
+                        value={field.optionsText}
+                        onChange={(e) => updateField(index, { optionsText: e.target.value })}
+                        placeholder="Uma opção por linha"
+                        rows={3}
+                        className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <Button
+                variant="outline"
+                className="mt-3"
+                disabled={customFields.length >= 20}
+                onClick={() => setCustomFields(fields => [
+                  ...fields,
+                  { id: newFieldId(), label: '', type: 'text', options: [], optionsText: '', unit: null, required: false }
+                ])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Adicionar campo
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={save} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Salvar formulário
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
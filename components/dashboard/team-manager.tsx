@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { Loader2, Plus, Trash2, Users } from 'lucide-react'
+
+interface TeamMember {
+  id: string
+  name: string
+  email: string
+  role?: string | null
+  _count: { tasks: number }
+}
+
+const EMPTY_MEMBER = { name: '', email: '', role: '' }
+
+export function TeamManager() {
+  const { addToast } = useToast()
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const [form, setForm] = useState(EMPTY_MEMBER)
+
+  const fetchMembers = async () => {
+    try {
+      const response = await fetch('/api/company/team')
+      if (response.ok) {
+        const data = await response.json()
+        setMembers(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching team members:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchMembers()
+  }, [])
+
+  const addMember = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/company/team', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          email: form.email,
+          role: form.role || undefined
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setForm(EMPTY_MEMBER)
+      fetchMembers()
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível adicionar o integrante',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeMember = async (member: TeamMember) => {
+    const pending = member._count.tasks > 0
+      ? ` As ${member._count.tasks} tarefa(s) pendentes ficarão sem responsável.`
+      : ''
+    if (!confirm(`Remover ${member.name} da equipe?${pending}`)) return
+
+    setRemovingId(member.id)
+    try {
+      const response = await fetch(`/api/company/team/${member.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        setMembers(prev => prev.filter(m => m.id !== member.id))
+      }
+    } catch (error) {
+      console.error('Error removing team member:', error)
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Equipe Comercial
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Integrantes podem receber tarefas dos leads. Os lembretes chegam por email para o responsável
+          e nas suas notificações.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-4 gap-3">
+          <Input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Nome"
+          />
+          <Input
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            placeholder="Email"
+          />
+          <Input
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value })}
+            placeholder="Cargo (opcional)"
+          />
+          <Button onClick={addMember} disabled={saving || !form.name || !form.email}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Adicionar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center text-gray-600">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Carregando equipe...
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-gray-600">Nenhum integrante cadastrado.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {members.map(member => (
+              <div key={member.id} className="flex items-center justify-between p-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {member.name}
+                    {member.role && <span className="text-sm text-gray-500 font-normal"> · {member.role}</span>}
+                  </div>
+                  <div className="text-sm text-gray-600">{member.email}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {member._count.tasks > 0 && (
+                    <Badge variant="secondary">{member._count.tasks} tarefa(s)</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => removeMember(member)}
+                    disabled={removingId === member.id}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,438 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/toast'
+import { WEBHOOK_EVENTS, WEBHOOK_EVENT_LABELS, type WebhookEvent } from '@/lib/webhooks/events'
+import {
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Loader2,
+  Plus,
+  Power,
+  RotateCcw,
+  Trash2,
+  Webhook
+} from 'lucide-react'
+
+type DeliveryStatus = 'PENDING' | 'SUCCESS' | 'FAILED'
+
+interface WebhookEndpoint {
+  id: string
+  url: string
+  description?: string | null
+  events: WebhookEvent[]
+  active: boolean
+  createdAt: string
+  lastDelivery: { status: DeliveryStatus; responseStatus?: number | null; createdAt: string } | null
+  _count: { deliveries: number }
+}
+
+interface WebhookDelivery {
+  id: string
+  event: WebhookEvent
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt?: string | null
+  lastAttemptAt?: string | null
+  responseStatus?: number | null
+  responseBody?: string | null
+  error?: string | null
+  createdAt: string
+}
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  PENDING: 'Aguardando',
+  SUCCESS: 'Entregue',
+  FAILED: 'Falhou'
+}
+
+const STATUS_CLASSES: Record<DeliveryStatus, string> = {
+  PENDING: 'bg-amber-100 text-amber-800',
+  SUCCESS: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800'
+}
+
+const EMPTY_FORM = { url: '', description: '', events: [] as WebhookEvent[] }
+
+export function WebhooksManager() {
+  const { addToast } = useToast()
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null)
+  const [openEndpointId, setOpenEndpointId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false)
+  const [resendingId, setResendingId] = useState<string | null>(null)
+
+  const fetchEndpoints = async () => {
+    try {
+      const response = await fetch('/api/company/webhooks')
+      if (response.ok) {
+        const data = await response.json()
+        setEndpoints(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching webhooks:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchDeliveries = async (endpointId: string) => {
+    setLoadingDeliveries(true)
+
+    try {
+      const response = await fetch(`/api/company/webhooks/${endpointId}/deliveries`)
+      if (response.ok) {
+        const data = await response.json()
+        setDeliveries(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error)
+    } finally {
+      setLoadingDeliveries(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEndpoints()
+  }, [])
+
+  const showError = (title: string, error: unknown) => {
+    addToast({
+      type: 'error',
+      title,
+      message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+    })
+  }
+
+  const toggleFormEvent = (event: WebhookEvent) => {
+    setForm({
+      ...form,
+      events: form.events.indexOf(event) === -1
+        ? [...form.events, event]
+        : form.events.filter(selected => selected !== event)
+    })
+  }
+
+  const createEndpoint = async () => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/company/webhooks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url: form.url,
+          description: form.description || undefined,
+          events: form.events
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      setForm(EMPTY_FORM)
+      setRevealedSecret(data.data.secret)
+      fetchEndpoints()
+    } catch (error) {
+      showError('Não foi possível criar o webhook', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateEndpoint = async (endpoint: WebhookEndpoint, changes: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/company/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      if (data.data?.secret) {
+        setRevealedSecret(data.data.secret)
+      }
+      fetchEndpoints()
+    } catch (error) {
+      showError('Não foi possível atualizar o webhook', error)
+    }
+  }
+
+  const rotateSecret = (endpoint: WebhookEndpoint) => {
+    if (!confirm('Trocar o segredo? Envios com o segredo antigo deixarão de ser validados pelo seu sistema.')) return
+    updateEndpoint(endpoint, { rotateSecret: true })
+  }
+
+  const deleteEndpoint = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Remover o webhook ${endpoint.url}? O histórico de envios também será apagado.`)) return
+
+    try {
+      const response = await fetch(`/api/company/webhooks/${endpoint.id}`, { method: 'DELETE' })
+
+      if (response.ok) {
+        if (openEndpointId === endpoint.id) setOpenEndpointId(null)
+        fetchEndpoints()
+      }
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+    }
+  }
+
+  const toggleDeliveries = (endpoint: WebhookEndpoint) => {
+    if (openEndpointId === endpoint.id) {
+      setOpenEndpointId(null)
+      return
+    }
+
+    setOpenEndpointId(endpoint.id)
+    setDeliveries([])
+    fetchDeliveries(endpoint.id)
+  }
+
+  const resendDelivery = async (delivery: WebhookDelivery) => {
+    setResendingId(delivery.id)
+
+    try {
+      const response = await fetch(`/api/company/webhooks/deliveries/${delivery.id}/resend`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message)
+      }
+
+      addToast({
+        type: data.data.status === 'SUCCESS' ? 'success' : 'warning',
+        title: data.message
+      })
+
+      if (openEndpointId) fetchDeliveries(openEndpointId)
+      fetchEndpoints()
+    } catch (error) {
+      showError('Não foi possível reenviar o evento', error)
+    } finally {
+      setResendingId(null)
+    }
+  }
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      addToast({ type: 'success', title: 'Copiado!' })
+    } catch (error) {
+      showError('Não foi possível copiar', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="w-5 h-5" />
+          Webhooks
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Envie leads, orçamentos e avaliações para o seu CRM ou automações (Zapier, Make, n8n).
+          Cada envio é assinado com o segredo do endpoint e repetido automaticamente em caso de falha.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-3">
+          <div className="md:col-span-2">
+            <Label htmlFor="webhook-url">URL do endpoint</Label>
+            <Input
+              id="webhook-url"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder="https://hooks.suaempresa.com.br/solarconnect"
+            />
+          </div>
+          <div>
+            <Label htmlFor="webhook-description">Descrição</Label>
+            <Input
+              id="webhook-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Ex.: CRM"
+            />
+          </div>
+        </div>
+        <div>
+          <Label>Eventos</Label>
+          <div className="mt-1 grid sm:grid-cols-2 gap-2">
+            {WEBHOOK_EVENTS.map(event => (
+              <label key={event} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.events.indexOf(event) !== -1}
+                  onChange={() => toggleFormEvent(event)}
+                />
+                {WEBHOOK_EVENT_LABELS[event]}
+                <span className="font-mono text-xs text-gray-500">{event}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <Button onClick={createEndpoint} disabled={saving || !form.url || form.events.length === 0}>
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Adicionar webhook
+        </Button>
+
+        {revealedSecret && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium text-amber-900">
+              Copie o segredo agora: por segurança ele não será exibido novamente. Use-o para validar
+              o cabeçalho X-SolarConnect-Signature.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={revealedSecret} className="font-mono text-sm" />
+              <Button variant="outline" onClick={() => copy(revealedSecret)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center text-gray-600">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Carregando webhooks...
+          </div>
+        ) : endpoints.length === 0 ? (
+          <p className="text-sm text-gray-600">Nenhum webhook cadastrado.</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {endpoints.map(endpoint => (
+              <div key={endpoint.id} className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 break-all">
+                      {endpoint.url}
+                      {!endpoint.active && <Badge variant="outline" className="ml-2">Desativado</Badge>}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {endpoint.description && `${endpoint.description} · `}
+                      {endpoint._count.deliveries} envio(s)
+                      {endpoint.lastDelivery && (
+                        <> · último: {STATUS_LABELS[endpoint.lastDelivery.status].toLowerCase()} em{' '}
+                          {new Date(endpoint.lastDelivery.createdAt).toLocaleString('pt-BR')}</>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={endpoint.active ? 'Desativar' : 'Ativar'}
+                      onClick={() => updateEndpoint(endpoint, { active: !endpoint.active })}
+                    >
+                      <Power className={`w-4 h-4 ${endpoint.active ? 'text-green-600' : 'text-gray-400'}`} />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Trocar segredo" onClick={() => rotateSecret(endpoint)}>
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      title="Remover"
+                      onClick={() => deleteEndpoint(endpoint)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {endpoint.events.map(event => (
+                    <Badge key={event} variant="secondary">{WEBHOOK_EVENT_LABELS[event] ?? event}</Badge>
+                  ))}
+                </div>
+
+                <Button variant="ghost" size="sm" onClick={() => toggleDeliveries(endpoint)}>
+                  {openEndpointId === endpoint.id
+                    ? <ChevronUp className="w-4 h-4 mr-2" />
+                    : <ChevronDown className="w-4 h-4 mr-2" />}
+                  Histórico de envios
+                </Button>
+
+                {openEndpointId === endpoint.id && (
+                  loadingDeliveries && deliveries.length === 0 ? (
+                    <div className="flex items-center text-sm text-gray-600">
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Carregando envios...
+                    </div>
+                  ) : deliveries.length === 0 ? (
+                    <p className="text-sm text-gray-600">Nenhum envio ainda.</p>
+                  ) : (
+                    <div className="border rounded-md divide-y text-sm">
+                      {deliveries.map(delivery => (
+                        <div key={delivery.id} className="p-2 flex items-start justify-between gap-2">
+                          <div className="min-w-0 space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge className={STATUS_CLASSES[delivery.status]}>
+                                {STATUS_LABELS[delivery.status]}
+                              </Badge>
+                              <span className="font-mono text-xs">{delivery.event}</span>
+                              <span className="text-xs text-gray-500">
+                                {new Date(delivery.createdAt).toLocaleString('pt-BR')}
+                              </span>
+                            </div>
+                            <div className="text-xs text-gray-600">
+                              {delivery.attempts} tentativa(s)
+                              {delivery.responseStatus && ` · HTTP ${delivery.responseStatus}`}
+                              {delivery.error && ` · ${delivery.error}`}
+                              {delivery.status === 'PENDING' && delivery.nextAttemptAt &&
+                                ` · próxima tentativa em ${new Date(delivery.nextAttemptAt).toLocaleString('pt-BR')}`}
+                            </div>
+                            {delivery.responseBody && (
+                              <pre className="text-xs bg-muted rounded p-1 max-h-24 overflow-auto whitespace-pre-wrap break-all">
+                                {delivery.responseBody}
+                              </pre>
+                            )}
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!endpoint.active || resendingId === delivery.id}
+                            onClick={() => resendDelivery(delivery)}
+                          >
+                            {resendingId === delivery.id
+                              ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              : <RotateCcw className="w-4 h-4 mr-2" />}
+                            Reenviar
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,6 +2,18 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { useConversationStream } from '@/hooks/use-conversation-stream'
+import { useUploadThing } from '@/hooks/use-uploadthing'
+import { imageUpload } from '@/lib/image-upload'
+import type { ConversationEvent } from '@/lib/messages/realtime'
+import { LEAD_STAGE_LABELS, type LeadStage } from '@/lib/leads/sla'
+import {
+  formatAttachmentSize,
+  isImageAttachment,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MESSAGE_ATTACHMENT_ACCEPT
+} from '@/lib/messages/attachment-utils'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -13,14 +25,31 @@ import {
   Search,
   Phone,
   Video,
-  MoreVertical
+  MoreVertical,
+  Check,
+  CheckCheck,
+  Paperclip,
+  FileText,
+  Loader2,
+  X,
+  Package,
+  User
 } from 'lucide-react'
 
+interface Attachment {
+  id: string
+  name: string
+  mimeType: string
+  size: number
+}
+
 interface Message {
   id: string
   content: string
   createdAt: string
   read: boolean
+  readAt?: string | null
+  attachments?: Attachment[]
   sender: {
     id: string
     name: string
@@ -42,17 +71,77 @@ interface Conversation {
   }>
   messages: Message[]
   updatedAt: string
+  // Assunto da conversa; o lead só vem para a empresa dona dele
+  lead?: {
+    id: string
+    name: string
+    status: string
+    projectType: string
+  } | null
+  quote?: {
+    id: string
+    title: string
+    status: string
+    totalValue: number
+    validUntil: string
+  } | null
+  product?: {
+    id: string
+    name: string
+    price: number
+    images: string[]
+    company: {
+      name: string
+      slug: string
+    }
+  } | null
+}
+
+interface MessageCenterProps {
+  initialConversationId?: string
+}
+
+const QUOTE_STATUS_LABELS: Record<string, string> = {
+  DRAFT: 'Rascunho',
+  SENT: 'Enviado',
+  VIEWED: 'Visualizado',
+  ACCEPTED: 'Aceito',
+  REJECTED: 'Rejeitado',
+  EXPIRED: 'Expirado'
 }
 
-export function MessageCenter() {
+// Sem novo sinal do outro participante, o indicador de digitação some
+const TYPING_TIMEOUT_MS = 6000
+// Intervalo mínimo entre avisos de "digitando" enviados ao servidor
+const TYPING_THROTTLE_MS = 3000
+
+export function MessageCenter({ initialConversationId }: MessageCenterProps = {}) {
   const { data: session } = useSession()
   const [conversations, setConversations] = useState<Conversation[]>([])
-  const [selectedConversation, setSelectedConversation] = useState<string | null>(null)
+  const [selectedConversation, setSelectedConversation] = useState<string | null>(initialConversationId ?? null)
   const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState('')
   const [loading, setLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [typingName, setTypingName] = useState<string | null>(null)
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([])
+  const [uploadingAttachments, setUploadingAttachments] = useState(false)
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>()
+  const stopTypingRef = useRef<ReturnType<typeof setTimeout>>()
+  const lastTypingSentRef = useRef(0)
+
+  const { startUpload: startAttachmentUpload } = useUploadThing('messageAttachment')
+  const { startUpload: startThumbnailUpload } = useUploadThing('messageAttachmentThumbnail')
+
+  const { connected } = useConversationStream(selectedConversation, {
+    onEvent: (event) => handleConversationEvent(event),
+    onReconnect: () => {
+      if (selectedConversation) fetchMessages(selectedConversation)
+    }
+  })
 
   useEffect(() => {
     if (session?.user) {
@@ -64,8 +153,19 @@ export function MessageCenter() {
     if (selectedConversation) {
       fetchMessages(selectedConversation)
     }
+    setTypingName(null)
+    setPendingAttachments([])
+    setAttachmentError(null)
+    lastTypingSentRef.current = 0
   }, [selectedConversation])
 
+  useEffect(() => {
+    return () => {
+      clearTimeout(typingTimeoutRef.current)
+      clearTimeout(stopTypingRef.current)
+    }
+  }, [])
+
   useEffect(() => {
     scrollToBottom()
   }, [messages])
@@ -92,14 +192,146 @@ export function MessageCenter() {
       if (response.ok) {
         const data = await response.json()
         setMessages(data.data)
+        markAsRead(conversationId)
       }
     } catch (error) {
       console.error('Error fetching messages:', error)
     }
   }
 
+  const markAsRead = async (conversationId: string) => {
+    try {
+      await fetch('/api/messages/read', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ conversationId }),
+      })
+    } catch (error) {
+      console.error('Error marking messages as read:', error)
+    }
+  }
+
+  const sendTyping = async (isTyping: boolean) => {
+    if (!selectedConversation) return
+
+    try {
+      await fetch('/api/messages/typing', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ conversationId: selectedConversation, isTyping }),
+      })
+    } catch (error) {
+      console.error('Error sending typing indicator:', error)
+    }
+  }
+
+  const handleTyping = () => {
+    const now = Date.now()
+    if (now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now
+      sendTyping(true)
+    }
+
+    clearTimeout(stopTypingRef.current)
+    stopTypingRef.current = setTimeout(() => {
+      lastTypingSentRef.current = 0
+      sendTyping(false)
+    }, TYPING_THROTTLE_MS)
+  }
+
+  const uploadAttachments = async (fileList: FileList | null) => {
+    if (!fileList || !selectedConversation) return
+
+    const files = Array.from(fileList).slice(0, MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length)
+    if (files.length === 0) {
+      setAttachmentError(`Envie no máximo ${MAX_ATTACHMENTS_PER_MESSAGE} anexos por mensagem`)
+      return
+    }
+
+    setUploadingAttachments(true)
+    setAttachmentError(null)
+
+    try {
+      const uploaded = await startAttachmentUpload(files, { conversationId: selectedConversation })
+      if (!uploaded) throw new Error('Upload failed')
+
+      const attachments = uploaded.map(file => ({
+        id: file.serverData.attachmentId,
+        name: file.name,
+        mimeType: file.type,
+        size: file.size
+      }))
+
+      // Miniaturas das fotos, geradas no navegador
+      await Promise.all(attachments.filter(attachment => isImageAttachment(attachment.mimeType)).map(async attachment => {
+        const original = files.find(file => file.name === attachment.name)
+        if (!original) return
+
+        try {
+          const thumbnail = await imageUpload.createThumbnail(original)
+          await startThumbnailUpload([thumbnail], { attachmentId: attachment.id })
+        } catch (error) {
+          console.error('Error uploading attachment thumbnail:', error)
+        }
+      }))
+
+      setPendingAttachments(prev => [...prev, ...attachments])
+    } catch (error) {
+      console.error('Error uploading attachments:', error)
+      setAttachmentError('Não foi possível enviar o arquivo. Fotos até 8MB e PDFs até 16MB.')
+    } finally {
+      setUploadingAttachments(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const removePendingAttachment = async (attachmentId: string) => {
+    setPendingAttachments(prev => prev.filter(attachment => attachment.id !== attachmentId))
+
+    try {
+      await fetch(`/api/messages/attachments/${attachmentId}`, { method: 'DELETE' })
+    } catch (error) {
+      console.error('Error removing attachment:', error)
+    }
+  }
+
+  const handleConversationEvent = (event: ConversationEvent) => {
+    const userId = session?.user?.id
+
+    if (event.type === 'message') {
+      const message = event.message as unknown as Message
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
+
+      if (message.sender.id !== userId) {
+        setTypingName(null)
+        if (selectedConversation) markAsRead(selectedConversation)
+      }
+      fetchConversations()
+    } else if (event.type === 'typing') {
+      if (event.userId === userId) return
+
+      clearTimeout(typingTimeoutRef.current)
+      if (event.isTyping) {
+        setTypingName(event.name || 'Participante')
+        typingTimeoutRef.current = setTimeout(() => setTypingName(null), TYPING_TIMEOUT_MS)
+      } else {
+        setTypingName(null)
+      }
+    } else if (event.type === 'read') {
+      if (event.readerId === userId) return
+
+      setMessages(prev => prev.map(m =>
+        event.messageIds.indexOf(m.id) !== -1 ? { ...m, read: true, readAt: event.readAt } : m
+      ))
+    }
+  }
+
   const sendMessage = async () => {
-    if (!newMessage.trim() || !selectedConversation || loading) return
+    if ((!newMessage.trim() && pendingAttachments.length === 0) || !selectedConversation || loading || uploadingAttachments) return
 
     const currentConversation = conversations.find(c => c.id === selectedConversation)
     if (!currentConversation) return
@@ -118,13 +350,18 @@ export function MessageCenter() {
           content: newMessage,
           receiverId,
           conversationId: selectedConversation,
+          attachmentIds: pendingAttachments.map(attachment => attachment.id),
         }),
       })
 
       if (response.ok) {
         const message = await response.json()
-        setMessages(prev => [...prev, message])
+        setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
         setNewMessage('')
+        setPendingAttachments([])
+        clearTimeout(stopTypingRef.current)
+        lastTypingSentRef.current = 0
+        sendTyping(false)
         fetchConversations() // Refresh conversations to update last message
       }
     } catch (error) {
@@ -240,7 +477,7 @@ export function MessageCenter() {
                       {lastMessage && (
                         <p className="text-xs text-gray-500 truncate mt-1">
                           {lastMessage.sender.id === session.user.id ? 'Você: ' : ''}
-                          {lastMessage.content}
+                          {lastMessage.content || 'Anexo'}
                         </p>
                       )}
                     </div>
@@ -270,7 +507,11 @@ export function MessageCenter() {
                     <h3 className="font-semibold">
                       {getOtherParticipant(conversations.find(c => c.id === selectedConversation)!)?.name}
                     </h3>
-                    <p className="text-sm text-gray-500">Online</p>
+                    <p className="text-sm text-gray-500">
+                      {typingName
+                        ? <span className="text-blue-600">{typingName} está digitando...</span>
+                        : connected ? 'Conectado' : 'Reconectando...'}
+                    </p>
                   </div>
                 </div>
                 
@@ -288,6 +529,8 @@ export function MessageCenter() {
               </div>
             </CardHeader>
 
+            <ConversationContextCard conversation={conversations.find(c => c.id === selectedConversation)} />
+
             {/* Messages */}
             <CardContent className="flex-1 p-4 max-h-96 overflow-y-auto">
               <div className="space-y-4">
@@ -310,11 +553,52 @@ export function MessageCenter() {
                             ? 'bg-blue-500 text-white' 
                             : 'bg-gray-200 text-gray-900'
                         }`}>
-                          <p className="text-sm">{message.content}</p>
-                          <p className={`text-xs mt-1 ${
-                            isOwnMessage ? 'text-blue-100' : 'text-gray-500'
+                          {message.attachments && message.attachments.length > 0 && (
+                            <div className="space-y-2 mb-1">
+                              {message.attachments.map(attachment => isImageAttachment(attachment.mimeType) ? (
+                                <a
+                                  key={attachment.id}
+                                  href={`/api/messages/attachments/${attachment.id}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="block"
+                                >
+                                  <img
+                                    src={`/api/messages/attachments/${attachment.id}?thumbnail=1`}
+                                    alt={attachment.name}
+                                    className="w-40 h-40 object-cover rounded"
+                                  />
+                                </a>
+                              ) : (
+                                <a
+                                  key={attachment.id}
+                                  href={`/api/messages/attachments/${attachment.id}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-2 text-sm underline"
+                                >
+                                  <FileText className="w-4 h-4 shrink-0" />
+                                  <span className="truncate">{attachment.name}</span>
+                                  <span className="text-xs opacity-75 no-underline">
+                                    {formatAttachmentSize(attachment.size)}
+                                  </span>
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                          {message.content && <p className="text-sm">{message.content}</p>}
+                          <p className={`text-xs mt-1 flex items-center gap-1 ${
+                            isOwnMessage ? 'text-blue-100 justify-end' : 'text-gray-500'
                           }`}>
                             {formatTime(message.createdAt)}
+                            {isOwnMessage && (message.read ? (
+                              <CheckCheck
+                                className="w-3 h-3"
+                                aria-label={message.readAt ? `Lida às ${formatTime(message.readAt)}` : 'Lida'}
+                              />
+                            ) : (
+                              <Check className="w-3 h-3" aria-label="Enviada" />
+                            ))}
                           </p>
                         </div>
                       </div>
@@ -327,18 +611,58 @@ export function MessageCenter() {
 
             {/* Message Input */}
             <div className="border-t p-4">
+              {(pendingAttachments.length > 0 || attachmentError) && (
+                <div className="mb-2 space-y-1">
+                  <div className="flex flex-wrap gap-2">
+                    {pendingAttachments.map(attachment => (
+                      <Badge key={attachment.id} variant="secondary" className="gap-1">
+                        {isImageAttachment(attachment.mimeType) ? <Paperclip /> : <FileText />}
+                        {attachment.name}
+                        <button
+                          type="button"
+                          onClick={() => removePendingAttachment(attachment.id)}
+                          aria-label={`Remover ${attachment.name}`}
+                        >
+                          <X />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  {attachmentError && <p className="text-xs text-red-600">{attachmentError}</p>}
+                </div>
+              )}
               <div className="flex items-center space-x-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={MESSAGE_ATTACHMENT_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => uploadAttachments(e.target.files)}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading || uploadingAttachments || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  aria-label="Anexar foto ou documento"
+                >
+                  {uploadingAttachments ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+                </Button>
                 <Input
                   placeholder="Digite sua mensagem..."
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
+                  onChange={(e) => {
+                    setNewMessage(e.target.value)
+                    handleTyping()
+                  }}
                   onKeyPress={handleKeyPress}
                   disabled={loading}
                   className="flex-1"
                 />
                 <Button 
                   onClick={sendMessage}
-                  disabled={loading || !newMessage.trim()}
+                  disabled={loading || uploadingAttachments || (!newMessage.trim() && pendingAttachments.length === 0)}
                   size="sm"
                 >
                   <Send className="w-4 h-4" />
@@ -357,4 +681,70 @@ export function MessageCenter() {
       </Card>
     </div>
   )
-}
\ No newline at end of file
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+// Cartão com o assunto da conversa: produto, orçamento e, para a empresa, o lead
+function ConversationContextCard({ conversation }: { conversation?: Conversation }) {
+  if (!conversation || (!conversation.product && !conversation.quote && !conversation.lead)) {
+    return null
+  }
+
+  const { product, quote, lead } = conversation
+
+  return (
+    <div className="border-b bg-gray-50 px-4 py-3 space-y-2">
+      {product && (
+        <Link href={`/empresa/${product.company.slug}`} className="flex items-center gap-3 hover:opacity-80">
+          {product.images[0] ? (
+            <img src={product.images[0]} alt={product.name} className="w-10 h-10 rounded object-cover" />
+          ) : (
+            <div className="w-10 h-10 rounded bg-gray-200 flex items-center justify-center">
+              <Package className="w-5 h-5 text-gray-500" />
+            </div>
+          )}
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{product.name}</p>
+            <p className="text-xs text-gray-500">
+              {formatCurrency(product.price)} · {product.company.name}
+            </p>
+          </div>
+        </Link>
+      )}
+
+      {quote && (
+        <Link href={`/orcamento/${quote.id}`} className="flex items-center gap-3 hover:opacity-80">
+          <div className="w-10 h-10 rounded bg-blue-100 flex items-center justify-center">
+            <FileText className="w-5 h-5 text-blue-600" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{quote.title}</p>
+            <p className="text-xs text-gray-500">
+              {formatCurrency(quote.totalValue)} · válido até {new Date(quote.validUntil).toLocaleDateString('pt-BR')}
+            </p>
+          </div>
+          <Badge variant="secondary" className="ml-auto">
+            {QUOTE_STATUS_LABELS[quote.status] ?? quote.status}
+          </Badge>
+        </Link>
+      )}
+
+      {lead && (
+        <Link href={`/dashboard/leads/${lead.id}`} className="flex items-center gap-3 hover:opacity-80">
+          <div className="w-10 h-10 rounded bg-orange-100 flex items-center justify-center">
+            <User className="w-5 h-5 text-orange-600" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">Lead: {lead.name}</p>
+            <p className="text-xs text-gray-500">{lead.projectType}</p>
+          </div>
+          <Badge variant="outline" className="ml-auto">
+            {LEAD_STAGE_LABELS[lead.status as LeadStage] ?? lead.status}
+          </Badge>
+        </Link>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, MessageCircle } from 'lucide-react'
+import { Button, type ButtonProps } from '@/components/ui/button'
+import { useToast } from '@/components/ui/toast'
+import type { ConversationContextInput } from '@/lib/messages/context'
+
+interface StartConversationButtonProps {
+  context: ConversationContextInput
+  label?: string
+  variant?: ButtonProps['variant']
+  size?: ButtonProps['size']
+  className?: string
+}
+
+export function StartConversationButton({
+  context,
+  label = 'Enviar mensagem',
+  variant = 'outline',
+  size,
+  className
+}: StartConversationButtonProps) {
+  const router = useRouter()
+  const { addToast } = useToast()
+  const [loading, setLoading] = useState(false)
+
+  const handleClick = async () => {
+    setLoading(true)
+
+    try {
+      const response = await fetch('/api/conversations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(context)
+      })
+
+      if (response.status === 401) {
+        router.push('/login')
+        return
+      }
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        addToast({
+          type: 'error',
+          title: 'Não foi possível abrir a conversa',
+          message: data.error
+        })
+        return
+      }
+
+      router.push(`/mensagens?conversation=${data.data.id}`)
+    } catch (error) {
+      console.error('Error starting conversation:', error)
+      addToast({
+        type: 'error',
+        title: 'Não foi possível abrir a conversa',
+        message: 'Tente novamente em instantes'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Button type="button" variant={variant} size={size} className={className} onClick={handleClick} disabled={loading}>
+      {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageCircle className="w-4 h-4" />}
+      {label}
+    </Button>
+  )
+}
@@ -103,6 +103,15 @@ export function NotificationBell() {
         return '⭐'
       case 'MESSAGE_RECEIVED':
         return '💬'
+      case 'TASK_DUE':
+        return '⏰'
+      case 'APPOINTMENT_SCHEDULED':
+      case 'APPOINTMENT_CONFIRMED':
+        return '📅'
+      case 'APPOINTMENT_CANCELLED':
+        return '🚫'
+      case 'INSTALLATION_UPDATE':
+        return '🔧'
       case 'SYSTEM_UPDATE':
         return '🔔'
       default:
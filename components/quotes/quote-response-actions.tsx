@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { CheckCircle, Loader2, PenLine, XCircle } from 'lucide-react'
+import { useToast } from '@/components/ui/toast'
+
+interface QuoteResponseActionsProps {
+  quoteId: string
+  token: string
+  customerName?: string
+  customerEmail?: string
+}
+
+type Mode = 'idle' | 'accept' | 'reject'
+
+export function QuoteResponseActions({ quoteId, token, customerName, customerEmail }: QuoteResponseActionsProps) {
+  const router = useRouter()
+  const [mode, setMode] = useState<Mode>('idle')
+  const [signerName, setSignerName] = useState(customerName || '')
+  const [agreed, setAgreed] = useState(false)
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const { addToast } = useToast()
+
+  const submit = async () => {
+    setSubmitting(true)
+
+    try {
+      const response = await fetch(`/api/quotes/${quoteId}/${mode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(mode === 'accept'
+          ? { token, signerName, signerEmail: customerEmail, agreed }
+          : { token, signerName, signerEmail: customerEmail, reason }
+        ),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.errors?.[0]?.message || data.message)
+      }
+
+      addToast({
+        type: 'success',
+        title: mode === 'accept' ? 'Orçamento aceito!' : 'Orçamento recusado',
+        message: mode === 'accept'
+          ? 'A empresa foi notificada e entrará em contato para os próximos passos'
+          : 'A empresa foi notificada da sua decisão'
+      })
+      router.refresh()
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Não foi possível registrar sua resposta',
+        message: error instanceof Error && error.message ? error.message : 'Tente novamente mais tarde'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const canSubmit = signerName.trim().length >= 3 &&
+    (mode === 'accept' ? agreed : reason.trim().length >= 5)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Ações</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {mode === 'idle' ? (
+          <>
+            <Button className="w-full bg-green-600 hover:bg-green-700" onClick={() => setMode('accept')}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Aceitar Orçamento
+            </Button>
+
+            <Button variant="outline" className="w-full" onClick={() => setMode('reject')}>
+              <XCircle className="w-4 h-4 mr-2" />
+              Recusar Orçamento
+            </Button>
+          </>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="signerName">Nome completo</Label>
+              <Input
+                id="signerName"
+                value={signerName}
+                onChange={(e) => setSignerName(e.target.value)}
+                placeholder="Digite seu nome como assinatura"
+                className="mt-1"
+              />
+            </div>
+
+            {mode === 'accept' ? (
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={agreed}
+                  onChange={(e) => setAgreed(e.target.checked)}
+                  className="mt-1"
+                />
+                Li e concordo com os itens, valores e termos deste orçamento e o assino eletronicamente.
+              </label>
+            ) : (
+              <div>
+                <Label htmlFor="reason">Motivo da recusa</Label>
+                <Textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Conte para a empresa o que não atendeu"
+                  rows={3}
+                  className="mt-1"
+                />
+              </div>
+            )}
+
+            <Button
+              className={`w-full ${mode === 'accept' ? 'bg-green-600 hover:bg-green-700' : ''}`}
+              variant={mode === 'accept' ? 'default' : 'destructive'}
+              disabled={!canSubmit || submitting}
+              onClick={submit}
+            >
+              {submitting ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <PenLine className="w-4 h-4 mr-2" />
+              )}
+              {mode === 'accept' ? 'Assinar e aceitar' : 'Confirmar recusa'}
+            </Button>
+
+            <Button variant="ghost" className="w-full" onClick={() => setMode('idle')} disabled={submitting}>
+              Voltar
+            </Button>
+          </>
+        )}
+
+        <div className="text-xs text-gray-500 text-center">
+          Sua resposta fica registrada com data, hora, IP e navegador
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { ConversationEvent } from '@/lib/messages/realtime'
+
+interface ConversationStreamHandlers {
+  onEvent: (event: ConversationEvent) => void
+  // Chamado quando a conexão volta após uma queda, para buscar o que se perdeu
+  onReconnect?: () => void
+}
+
+const EVENT_TYPES: ConversationEvent['type'][] = ['message', 'typing', 'read']
+
+export function useConversationStream(conversationId: string | null, handlers: ConversationStreamHandlers) {
+  const [connected, setConnected] = useState(false)
+  const handlersRef = useRef(handlers)
+
+  useEffect(() => {
+    handlersRef.current = handlers
+  })
+
+  useEffect(() => {
+    if (!conversationId) return
+
+    const source = new EventSource(`/api/messages/stream?conversationId=${encodeURIComponent(conversationId)}`)
+    let dropped = false
+
+    const handleEvent = (event: MessageEvent) => {
+      try {
+        handlersRef.current.onEvent(JSON.parse(event.data))
+      } catch (error) {
+        console.error('Error handling conversation event:', error)
+      }
+    }
+
+    EVENT_TYPES.forEach(type => source.addEventListener(type, handleEvent as EventListener))
+
+    source.onopen = () => {
+      setConnected(true)
+      if (dropped) {
+        dropped = false
+        handlersRef.current.onReconnect?.()
+      }
+    }
+
+    // O EventSource reconecta sozinho
+    source.onerror = () => {
+      setConnected(false)
+      dropped = true
+    }
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [conversationId])
+
+  return { connected }
+}
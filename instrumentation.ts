@@ -0,0 +1,16 @@
+export async function register() {
+  // Jobs agendados só rodam no servidor Node.js, nunca no runtime edge
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { quoteExpiryScheduler } = await import('./lib/quote-expiry-scheduler')
+    await quoteExpiryScheduler.initialize()
+
+    const { leadTaskReminderScheduler } = await import('./lib/lead-task-scheduler')
+    await leadTaskReminderScheduler.initialize()
+
+    const { appointmentReminderScheduler } = await import('./lib/appointment-reminder-scheduler')
+    await appointmentReminderScheduler.initialize()
+
+    const { webhookDeliveryScheduler } = await import('./lib/webhook-scheduler')
+    await webhookDeliveryScheduler.initialize()
+  }
+}
@@ -0,0 +1,21 @@
+import crypto from 'crypto'
+
+/**
+ * Token aleatório dos links enviados ao cliente (orçamento, visita, instalação).
+ */
+export function generateAccessToken(): string {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+/**
+ * Compara o token informado com o esperado em tempo constante. Os dois lados
+ * passam por SHA-256 antes, então nem o tamanho do token vaza pelo tempo de resposta.
+ */
+export function isValidAccessToken(expected: string | null | undefined, received: string): boolean {
+  if (!expected) return false
+
+  const expectedHash = crypto.createHash('sha256').update(expected).digest()
+  const receivedHash = crypto.createHash('sha256').update(received).digest()
+
+  return crypto.timingSafeEqual(expectedHash, receivedHash)
+}
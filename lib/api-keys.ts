@@ -0,0 +1,132 @@
+import crypto from 'crypto'
+import { z } from 'zod'
+import { db } from './db'
+
+// Chaves da API pública de captura de leads: "sc_live_" + 32 bytes aleatórios em base64url
+export const API_KEY_PREFIX = 'sc_live_'
+const API_KEY_BYTES = 32
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6
+
+// Atualizar lastUsedAt a cada requisição geraria uma escrita por lead; basta a cada poucos minutos
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000
+
+export interface GeneratedApiKey {
+  key: string // Mostrada uma única vez para a empresa
+  prefix: string
+  keyHash: string
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const key = API_KEY_PREFIX + crypto.randomBytes(API_KEY_BYTES).toString('base64url')
+
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key)
+  }
+}
+
+/**
+ * Normaliza uma entrada da lista de origens permitidas: "exemplo.com.br",
+ * "https://www.exemplo.com.br/contato" e "*.exemplo.com.br" viram
+ * "https://exemplo.com.br", "https://www.exemplo.com.br" e "https://*.exemplo.com.br".
+ * Retorna null quando a entrada não é um domínio válido.
+ */
+export function normalizeOrigin(value: string): string | null {
+  const trimmed = value.trim().toLowerCase()
+  if (!trimmed) return null
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`
+  const wildcard = withScheme.includes('://*.')
+
+  let url: URL
+  try {
+    url = new URL(wildcard ? withScheme.replace('://*.', '://') : withScheme)
+  } catch {
+    return null
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+  if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null
+
+  const host = url.port ? `${url.hostname}:${url.port}` : url.hostname
+  return `${url.protocol}//${wildcard ? '*.' : ''}${host}`
+}
+
+/**
+ * Confere o cabeçalho Origin do navegador com as origens permitidas da chave.
+ * "*.exemplo.com.br" aceita qualquer subdomínio, mas não o próprio domínio.
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  const normalized = normalizeOrigin(origin)
+  if (!normalized || normalized.includes('*')) return false
+
+  return allowedOrigins.some(allowed => {
+    if (allowed === normalized) return true
+    if (!allowed.includes('://*.')) return false
+
+    const [scheme, domain] = allowed.split('://*.')
+    const [originScheme, originHost] = normalized.split('://')
+    return originScheme === scheme && originHost.endsWith(`.${domain}`)
+  })
+}
+
+const MAX_ALLOWED_ORIGINS = 20
+
+// Nome e origens permitidas, na criação e na edição da chave
+export const companyApiKeySchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter pelo menos 2 caracteres').max(60),
+  allowedOrigins: z.array(z.string())
+    .max(MAX_ALLOWED_ORIGINS, `Informe no máximo ${MAX_ALLOWED_ORIGINS} domínios`)
+    .transform((origins, ctx) => {
+      const normalized = new Set<string>()
+      for (const origin of origins) {
+        if (!origin.trim()) continue
+        const value = normalizeOrigin(origin)
+        if (!value) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Domínio inválido: ${origin}` })
+          return z.NEVER
+        }
+        normalized.add(value)
+      }
+      return Array.from(normalized)
+    })
+})
+
+/**
+ * Busca a chave ativa correspondente ao valor enviado na requisição, com a empresa dona.
+ */
+export async function authenticateApiKey(key: string, now: Date = new Date()) {
+  if (!key.startsWith(API_KEY_PREFIX)) return null
+
+  const apiKey = await db.companyApiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: {
+      company: {
+        include: {
+          user: {
+            select: {
+              email: true,
+              name: true
+            }
+          }
+        }
+      }
+    }
+  })
+
+  if (!apiKey || apiKey.revokedAt) return null
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await db.companyApiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now }
+    })
+  }
+
+  return apiKey
+}
@@ -0,0 +1,13 @@
+import { sendAppointmentReminders } from './appointments/reminders'
+import { ScheduledJob } from './scheduler'
+
+/**
+ * Appointment reminder job: email customers about visits in the next 24 hours
+ */
+export const appointmentReminderScheduler = new ScheduledJob({
+  name: 'Appointment reminder',
+  run: async () => ({ reminded: await sendAppointmentReminders() }),
+  defaultIntervalMinutes: 5,
+  enabledEnv: 'ENABLE_APPOINTMENT_REMINDERS',
+  intervalEnv: 'APPOINTMENT_REMINDER_INTERVAL_MINUTES'
+})
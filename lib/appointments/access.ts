@@ -0,0 +1,45 @@
+import { generateAccessToken } from '../access-tokens'
+import { db } from '../db'
+
+// Remarcações que o cliente pode fazer sozinho; depois disso, combina com a empresa
+export const MAX_CUSTOMER_RESCHEDULES = 2
+
+export type AppointmentCustomerAction = 'confirm' | 'cancel' | 'reschedule'
+
+export function getAppointmentManageUrl(appointmentId: string, accessToken: string): string {
+  return `${process.env.NEXTAUTH_URL}/visita/${appointmentId}?token=${accessToken}`
+}
+
+/**
+ * Token do link do cliente. Visitas criadas antes do link ganham um no primeiro envio.
+ */
+export async function ensureAppointmentAccessToken(appointment: { id: string; accessToken: string | null }): Promise<string> {
+  if (appointment.accessToken) return appointment.accessToken
+
+  const accessToken = generateAccessToken()
+  await db.appointment.update({
+    where: { id: appointment.id },
+    data: { accessToken }
+  })
+
+  return accessToken
+}
+
+/**
+ * Motivo pelo qual o cliente não pode mais mexer na visita, ou null se pode.
+ */
+export function getAppointmentChangeBlocker(
+  appointment: { status: string; date: Date; rescheduleCount: number },
+  action: AppointmentCustomerAction,
+  now: Date = new Date()
+): string | null {
+  if (appointment.status === 'CANCELLED') return 'Esta visita foi cancelada'
+  if (appointment.status === 'COMPLETED') return 'Esta visita já foi realizada'
+  if (appointment.date <= now) return 'O horário desta visita já passou'
+
+  if (action === 'reschedule' && appointment.rescheduleCount >= MAX_CUSTOMER_RESCHEDULES) {
+    return 'Esta visita já foi remarcada o máximo de vezes pelo link. Fale com a empresa para mudar o horário'
+  }
+
+  return null
+}
@@ -0,0 +1,204 @@
+import type { AvailabilityConfig, WeeklyHours } from '../validations'
+import { getNationalHoliday } from './holidays'
+
+// Toda a agenda trabalha no horário de Brasília (sem horário de verão desde 2019)
+const BRASILIA_OFFSET = '-03:00'
+const BRASILIA_OFFSET_MS = -3 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado']
+
+// Visitas que ocupam a agenda
+export const BLOCKING_APPOINTMENT_STATUSES = ['SCHEDULED', 'CONFIRMED', 'RESCHEDULED'] as const
+
+export interface AvailabilityTechnician {
+  id: string
+  workingHours: WeeklyHours | null
+}
+
+export interface AvailabilityBlackout {
+  startDate: string
+  endDate: string
+  reason: string | null
+  technicianId: string | null
+}
+
+export interface BusyAppointment {
+  date: Date
+  duration: number
+  technicianId: string | null
+}
+
+export interface TimeSlot {
+  time: string // HH:MM
+  available: boolean
+  technicianIds: string[] // Técnicos livres no horário
+}
+
+export interface DayAvailability {
+  date: string
+  closedReason: string | null
+  slots: TimeSlot[]
+}
+
+export interface DayAvailabilityInput {
+  date: string // AAAA-MM-DD
+  config: AvailabilityConfig
+  technicians: AvailabilityTechnician[]
+  blackouts: AvailabilityBlackout[]
+  appointments: BusyAppointment[]
+  duration?: number // minutos; padrão é a duração da visita configurada
+  now?: Date
+}
+
+function toMinutes(time: string): number {
+  return parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(3, 5), 10)
+}
+
+function toTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+export function toBrasiliaDate(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00${BRASILIA_OFFSET}`)
+}
+
+export function getBrasiliaDateKey(date: Date): string {
+  return new Date(date.getTime() + BRASILIA_OFFSET_MS).toISOString().slice(0, 10)
+}
+
+export function getBrasiliaTime(date: Date): string {
+  return new Date(date.getTime() + BRASILIA_OFFSET_MS).toISOString().slice(11, 16)
+}
+
+export function getWeekday(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay()
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T12:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function coversDate(blackout: AvailabilityBlackout, date: string): boolean {
+  return blackout.startDate <= date && blackout.endDate >= date
+}
+
+// Motivo de a empresa inteira não atender no dia, ou null quando há expediente
+function getClosedReason(input: DayAvailabilityInput, now: Date): string | null {
+  const { date, config, blackouts } = input
+  const today = getBrasiliaDateKey(now)
+
+  if (date < today) return 'Data já passou'
+  if (date > addDays(today, config.maxAdvanceDays)) {
+    return `Agenda aberta apenas para os próximos ${config.maxAdvanceDays} dias`
+  }
+
+  if (config.observeNationalHolidays) {
+    const holiday = getNationalHoliday(date)
+    if (holiday) return `Feriado: ${holiday.name}`
+  }
+
+  const blackout = blackouts.find(item => !item.technicianId && coversDate(item, date))
+  if (blackout) return blackout.reason || 'Empresa sem atendimento nesta data'
+
+  return null
+}
+
+/**
+ * Horários do dia para uma visita. Cada técnico segue o próprio expediente (ou o
+ * da empresa) e precisa do intervalo de deslocamento antes e depois de cada visita.
+ * Sem técnicos cadastrados, a empresa atende uma visita por vez. Visitas sem
+ * técnico definido ocupam a vaga de qualquer um deles.
+ */
+export function getDayAvailability(input: DayAvailabilityInput): DayAvailability {
+  const { date, config, technicians, blackouts, appointments } = input
+  const now = input.now ?? new Date()
+  const duration = input.duration ?? config.visitDurationMinutes
+
+  const closedReason = getClosedReason(input, now)
+  if (closedReason) {
+    return { date, closedReason, slots: [] }
+  }
+
+  const weekday = getWeekday(date)
+  const knownIds = technicians.map(technician => technician.id)
+
+  const resources = technicians.length
+    ? technicians
+      .filter(technician => !blackouts.some(item => item.technicianId === technician.id && coversDate(item, date)))
+      .map(technician => ({
+        id: technician.id as string | null,
+        intervals: (technician.workingHours ?? config.weeklyHours)[weekday],
+        appointments: appointments.filter(appointment => appointment.technicianId === technician.id)
+      }))
+    : [{ id: null, intervals: config.weeklyHours[weekday], appointments }]
+
+  if (resources.length === 0) {
+    return { date, closedReason: 'Nenhum técnico disponível nesta data', slots: [] }
+  }
+
+  if (resources.every(resource => resource.intervals.length === 0)) {
+    return { date, closedReason: `Sem visitas neste dia da semana (${WEEKDAY_LABELS[weekday].toLowerCase()})`, slots: [] }
+  }
+
+  const unassigned = technicians.length
+    ? appointments.filter(appointment => !appointment.technicianId || knownIds.indexOf(appointment.technicianId) === -1)
+    : []
+
+  const buffer = config.bufferMinutes * MINUTE_MS
+  const overlaps = (start: number, end: number, appointment: BusyAppointment) => {
+    const appointmentStart = new Date(appointment.date).getTime()
+    const appointmentEnd = appointmentStart + appointment.duration * MINUTE_MS
+    return start < appointmentEnd + buffer && appointmentStart < end + buffer
+  }
+
+  // Início de cada horário possível, por técnico
+  const startsByResource = resources.map(resource => {
+    const starts: number[] = []
+    for (const interval of resource.intervals) {
+      const end = toMinutes(interval.end)
+      for (let minute = toMinutes(interval.start); minute + duration <= end; minute += config.slotIntervalMinutes) {
+        starts.push(minute)
+      }
+    }
+    return starts
+  })
+
+  const times = Array.from(new Set(([] as number[]).concat(...startsByResource))).sort((a, b) => a - b)
+  const earliest = now.getTime() + config.minNoticeHours * 60 * MINUTE_MS
+
+  const slots = times.map(minute => {
+    const time = toTime(minute)
+    const start = toBrasiliaDate(date, time).getTime()
+    const end = start + duration * MINUTE_MS
+
+    const free = resources.filter((resource, index) =>
+      startsByResource[index].indexOf(minute) !== -1 &&
+      !resource.appointments.some(appointment => overlaps(start, end, appointment))
+    )
+    const taken = unassigned.filter(appointment => overlaps(start, end, appointment)).length
+    const available = start >= earliest && free.length > taken
+
+    return {
+      time,
+      available,
+      technicianIds: available
+        ? free.map(resource => resource.id).filter((id): id is string => id !== null)
+        : []
+    }
+  })
+
+  return { date, closedReason: null, slots }
+}
+
+/**
+ * Técnico para uma nova visita: entre os livres no horário, o que tem menos
+ * visitas no dia.
+ */
+export function chooseTechnician(technicianIds: string[], appointments: BusyAppointment[]): string | null {
+  if (technicianIds.length === 0) return null
+
+  const load = (id: string) => appointments.filter(appointment => appointment.technicianId === id).length
+  return technicianIds.reduce((best, id) => (load(id) < load(best) ? id : best))
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto'
+import { Prisma } from '@prisma/client'
+import { db } from '../db'
+import { sendEmail, createAppointmentEmailTemplate } from '../email'
+import { buildCalendar, toCalendarEvent, type CalendarAudience } from './ical'
+import { ensureAppointmentAccessToken, getAppointmentManageUrl } from './access'
+
+// Visitas antigas ficam no link por este período, para o histórico no calendário
+export const CALENDAR_FEED_PAST_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const calendarAppointmentInclude = {
+  company: { select: { name: true, email: true, user: { select: { email: true } } } },
+  user: { select: { name: true, email: true } },
+  technician: { select: { name: true } }
+} satisfies Prisma.AppointmentInclude
+
+export type AppointmentInviteKind = 'scheduled' | 'confirmed' | 'rescheduled' | 'cancelled'
+
+const INVITE_COPY: Record<AppointmentInviteKind, { subject: string; customer: string; company: string }> = {
+  scheduled: {
+    subject: 'Visita agendada',
+    customer: 'Sua visita técnica foi agendada. A empresa vai confirmar o horário em breve.',
+    company: 'Uma nova visita técnica foi agendada pelo cliente.'
+  },
+  confirmed: {
+    subject: 'Visita confirmada',
+    customer: 'Sua visita técnica está confirmada.',
+    company: 'A visita técnica abaixo está confirmada.'
+  },
+  rescheduled: {
+    subject: 'Visita remarcada',
+    customer: 'Sua visita técnica foi remarcada para o horário abaixo.',
+    company: 'O cliente remarcou a visita técnica para o horário abaixo.'
+  },
+  cancelled: {
+    subject: 'Visita cancelada',
+    customer: 'A visita técnica abaixo foi cancelada.',
+    company: 'A visita técnica abaixo foi cancelada.'
+  }
+}
+
+export function generateCalendarFeedToken(): string {
+  return crypto.randomBytes(32).toString('base64url')
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${process.env.NEXTAUTH_URL}/api/calendar/feed/${token}.ics`
+}
+
+/**
+ * Envia o convite .ics da visita para o cliente e para a empresa. Cancelamentos
+ * vão com METHOD:CANCEL, que remove o evento do calendário de quem já o aceitou.
+ * O email do cliente leva o link para confirmar, remarcar ou cancelar.
+ */
+export async function sendAppointmentInvites(appointmentId: string, kind: AppointmentInviteKind) {
+  try {
+    const appointment = await db.appointment.findUnique({
+      where: { id: appointmentId },
+      include: calendarAppointmentInclude
+    })
+
+    if (!appointment) return
+
+    const copy = INVITE_COPY[kind]
+    const method = kind === 'cancelled' ? 'CANCEL' : 'REQUEST'
+    const customerName = appointment.user.name || appointment.user.email
+    const companyEmail = appointment.company.email || appointment.company.user.email
+    const manageUrl = kind === 'cancelled'
+      ? undefined
+      : getAppointmentManageUrl(appointment.id, await ensureAppointmentAccessToken(appointment))
+
+    const recipients: Array<{ audience: CalendarAudience; email: string; name: string; message: string }> = [
+      { audience: 'customer', email: appointment.user.email, name: customerName, message: copy.customer },
+      { audience: 'company', email: companyEmail, name: appointment.company.name, message: copy.company }
+    ]
+
+    await Promise.all(recipients.map(recipient => sendEmail({
+      to: recipient.email,
+      subject: `${copy.subject}: ${appointment.title}`,
+      html: createAppointmentEmailTemplate({
+        recipientName: recipient.name,
+        headline: copy.subject,
+        message: recipient.message,
+        appointmentTitle: appointment.title,
+        date: appointment.date,
+        duration: appointment.duration,
+        location: appointment.location,
+        counterpartLabel: recipient.audience === 'customer' ? 'Empresa' : 'Cliente',
+        counterpartName: recipient.audience === 'customer' ? appointment.company.name : customerName,
+        technicianName: appointment.technician?.name,
+        cancelled: kind === 'cancelled',
+        manageUrl: recipient.audience === 'customer' ? manageUrl : undefined
+      }),
+      replyTo: recipient.audience === 'customer' ? companyEmail : appointment.user.email,
+      attachments: [{
+        filename: kind === 'cancelled' ? 'cancelamento.ics' : 'convite.ics',
+        content: buildCalendar(
+          [toCalendarEvent(appointment, { audience: recipient.audience, withParticipants: true })],
+          { method }
+        ),
+        contentType: `text/calendar; charset=utf-8; method=${method}`
+      }]
+    })))
+  } catch (error) {
+    console.error('Error sending appointment invites:', error)
+    // Não falha a operação se o email não for enviado
+  }
+}
+
+/**
+ * Conteúdo do link de agenda: visitas da empresa (link do usuário da empresa),
+ * do técnico ou do cliente. Retorna null quando o token não existe.
+ */
+export async function buildCalendarFeed(token: string, now: Date = new Date()): Promise<string | null> {
+  const since = new Date(now.getTime() - CALENDAR_FEED_PAST_DAYS * DAY_MS)
+
+  const technician = await db.technician.findUnique({
+    where: { calendarFeedToken: token },
+    select: { id: true, name: true, company: { select: { name: true } } }
+  })
+
+  let owner: { where: Prisma.AppointmentWhereInput; audience: CalendarAudience; name: string } | null = null
+
+  if (technician) {
+    owner = {
+      where: { technicianId: technician.id },
+      audience: 'company',
+      name: `Visitas - ${technician.name} (${technician.company.name})`
+    }
+  } else {
+    const user = await db.user.findUnique({
+      where: { calendarFeedToken: token },
+      select: { id: true, role: true, company: { select: { id: true, name: true } } }
+    })
+
+    if (user?.role === 'COMPANY' && user.company) {
+      owner = { where: { companyId: user.company.id }, audience: 'company', name: `Visitas - ${user.company.name}` }
+    } else if (user) {
+      owner = { where: { userId: user.id }, audience: 'customer', name: 'Minhas visitas - SolarConnect' }
+    }
+  }
+
+  if (!owner) return null
+
+  const appointments = await db.appointment.findMany({
+    where: { ...owner.where, date: { gte: since } },
+    include: calendarAppointmentInclude,
+    orderBy: { date: 'asc' }
+  })
+
+  return buildCalendar(
+    appointments.map(appointment => toCalendarEvent(appointment, { audience: owner!.audience })),
+    { name: owner.name, now }
+  )
+}
@@ -0,0 +1,66 @@
+export interface Holiday {
+  date: string // AAAA-MM-DD
+  name: string
+}
+
+const FIXED_HOLIDAYS: Array<[string, string]> = [
+  ['01-01', 'Confraternização Universal'],
+  ['04-21', 'Tiradentes'],
+  ['05-01', 'Dia do Trabalho'],
+  ['09-07', 'Independência do Brasil'],
+  ['10-12', 'Nossa Senhora Aparecida'],
+  ['11-02', 'Finados'],
+  ['11-15', 'Proclamação da República'],
+  ['11-20', 'Dia Nacional de Zumbi e da Consciência Negra'],
+  ['12-25', 'Natal']
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Domingo de Páscoa pelo algoritmo de Meeus/Jones/Butcher (calendário gregoriano)
+export function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * Feriados nacionais do ano, incluindo os pontos facultativos de Carnaval e
+ * Corpus Christi, quando quase todo o comércio fecha.
+ */
+export function getBrazilianNationalHolidays(year: number): Holiday[] {
+  const easter = getEasterSunday(year).getTime()
+  const fromEaster = (days: number, name: string): Holiday => ({
+    date: toDateKey(new Date(easter + days * DAY_MS)),
+    name
+  })
+
+  return [
+    ...FIXED_HOLIDAYS.map(([monthDay, name]) => ({ date: `${year}-${monthDay}`, name })),
+    fromEaster(-48, 'Carnaval'),
+    fromEaster(-47, 'Carnaval'),
+    fromEaster(-2, 'Sexta-feira Santa'),
+    fromEaster(60, 'Corpus Christi')
+  ].sort((a, b) => (a.date < b.date ? -1 : 1))
+}
+
+export function getNationalHoliday(date: string): Holiday | null {
+  return getBrazilianNationalHolidays(parseInt(date.slice(0, 4), 10)).find(holiday => holiday.date === date) ?? null
+}
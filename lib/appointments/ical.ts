@@ -0,0 +1,200 @@
+// Geração de arquivos iCalendar (RFC 5545) para convites e links de agenda
+
+export type CalendarMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL'
+export type CalendarEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'
+
+export interface CalendarPerson {
+  name: string
+  email: string
+}
+
+export interface CalendarEvent {
+  uid: string
+  sequence: number
+  start: Date
+  end: Date
+  summary: string
+  description?: string | null
+  location?: string | null
+  status: CalendarEventStatus
+  updatedAt: Date
+  url?: string
+  organizer?: CalendarPerson
+  attendees?: CalendarPerson[]
+}
+
+export interface CalendarAppointment {
+  id: string
+  title: string
+  description?: string | null
+  date: Date
+  duration: number
+  location: string
+  status: string
+  notes?: string | null
+  sequence: number
+  updatedAt: Date
+  company: { name: string; email?: string | null; user?: { email: string } | null }
+  user: { name?: string | null; email: string }
+  technician?: { name: string } | null
+}
+
+// Quem recebe o evento: o cliente vê a empresa no título; a empresa e o técnico veem o cliente
+export type CalendarAudience = 'customer' | 'company'
+
+const PRODUCT_ID = '-//SolarConnect//Agenda de Visitas//PT-BR'
+const MAX_LINE_OCTETS = 75
+const MINUTE_MS = 60 * 1000
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Quebra linhas acima de 75 bytes sem partir caracteres acentuados
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of Array.from(line)) {
+    const bytes = Buffer.byteLength(char)
+    // Linhas de continuação começam com um espaço, que conta no limite
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+
+    current += char
+    currentBytes += bytes
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatPerson(property: 'ORGANIZER' | 'ATTENDEE', person: CalendarPerson, extra: string = ''): string {
+  return `${property};CN="${person.name.replace(/"/g, "'")}"${extra}:mailto:${person.email}`
+}
+
+function buildEvent(event: CalendarEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `LAST-MODIFIED:${formatDateTime(event.updatedAt)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`
+  ]
+
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+  if (event.organizer) lines.push(formatPerson('ORGANIZER', event.organizer))
+
+  for (const attendee of event.attendees ?? []) {
+    lines.push(formatPerson('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE'))
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Monta o arquivo .ics. PUBLISH é usado nos links de assinatura e downloads;
+ * REQUEST e CANCEL nos convites anexados aos emails.
+ */
+export function buildCalendar(
+  events: CalendarEvent[],
+  options: { method?: CalendarMethod; name?: string; now?: Date } = {}
+): string {
+  const now = options.now ?? new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method ?? 'PUBLISH'}`
+  ]
+
+  if (options.name) {
+    lines.push(
+      `X-WR-CALNAME:${escapeText(options.name)}`,
+      'X-WR-TIMEZONE:America/Sao_Paulo',
+      // Sugestão de frequência de atualização para apps de agenda
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H'
+    )
+  }
+
+  for (const event of events) {
+    lines.push(...buildEvent(event, now))
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export function getAppointmentUid(appointmentId: string): string {
+  return `appointment-${appointmentId}@solarconnect.com.br`
+}
+
+export function getCalendarEventStatus(status: string): CalendarEventStatus {
+  if (status === 'CANCELLED') return 'CANCELLED'
+  if (status === 'SCHEDULED') return 'TENTATIVE'
+  return 'CONFIRMED'
+}
+
+/**
+ * Evento da visita. Com participantes, vira convite: a empresa organiza e o
+ * cliente é convidado.
+ */
+export function toCalendarEvent(
+  appointment: CalendarAppointment,
+  options: { audience: CalendarAudience; withParticipants?: boolean; url?: string }
+): CalendarEvent {
+  const customerName = appointment.user.name || appointment.user.email
+  const companyEmail = appointment.company.email || appointment.company.user?.email
+
+  const description = [
+    appointment.description,
+    options.audience === 'company' ? `Cliente: ${customerName} (${appointment.user.email})` : `Empresa: ${appointment.company.name}`,
+    appointment.technician && `Técnico: ${appointment.technician.name}`,
+    options.audience === 'company' && appointment.notes && `Observações: ${appointment.notes}`
+  ].filter(Boolean).join('\n')
+
+  const event: CalendarEvent = {
+    uid: getAppointmentUid(appointment.id),
+    sequence: appointment.sequence,
+    start: new Date(appointment.date),
+    end: new Date(new Date(appointment.date).getTime() + appointment.duration * MINUTE_MS),
+    summary: `${appointment.title} - ${options.audience === 'company' ? customerName : appointment.company.name}`,
+    description,
+    location: appointment.location,
+    status: getCalendarEventStatus(appointment.status),
+    updatedAt: new Date(appointment.updatedAt),
+    url: options.url
+  }
+
+  if (options.withParticipants && companyEmail) {
+    event.organizer = { name: appointment.company.name, email: companyEmail }
+    event.attendees = [{ name: customerName, email: appointment.user.email }]
+  }
+
+  return event
+}
@@ -0,0 +1,7 @@
+export * from './holidays'
+export * from './availability'
+export * from './scheduling'
+export * from './ical'
+export * from './calendar'
+export * from './access'
+export * from './reminders'
@@ -0,0 +1,119 @@
+import { db } from '../db'
+import { sendEmail, createAppointmentEmailTemplate } from '../email'
+import { BLOCKING_APPOINTMENT_STATUSES } from './availability'
+import { calendarAppointmentInclude } from './calendar'
+import { ensureAppointmentAccessToken, getAppointmentManageUrl } from './access'
+
+export type AppointmentReminderStage = '24h' | '2h'
+
+// Antecedência, em horas, de cada lembrete enviado ao cliente
+export const APPOINTMENT_REMINDER_HOURS: Record<AppointmentReminderStage, number> = {
+  '24h': 24,
+  '2h': 2
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Lembrete devido agora, ou null. Perto da visita vale só o de 2h, mesmo que o
+ * de 24h não tenha saído; visitas marcadas há menos de 24h pulam o de 24h, pois
+ * o email do agendamento acabou de chegar.
+ */
+export function getAppointmentReminderStage(
+  appointment: {
+    date: Date
+    createdAt: Date
+    reminder24hSentAt: Date | null
+    reminder2hSentAt: Date | null
+  },
+  now: Date = new Date()
+): AppointmentReminderStage | null {
+  const msLeft = appointment.date.getTime() - now.getTime()
+  if (msLeft <= 0) return null
+
+  if (msLeft <= APPOINTMENT_REMINDER_HOURS['2h'] * HOUR_MS) {
+    return appointment.reminder2hSentAt ? null : '2h'
+  }
+
+  if (msLeft <= APPOINTMENT_REMINDER_HOURS['24h'] * HOUR_MS) {
+    const windowStart = appointment.date.getTime() - APPOINTMENT_REMINDER_HOURS['24h'] * HOUR_MS
+    if (appointment.reminder24hSentAt || appointment.createdAt.getTime() > windowStart) return null
+    return '24h'
+  }
+
+  return null
+}
+
+function getReminderMessage(stage: AppointmentReminderStage, confirmed: boolean): string {
+  if (stage === '2h') {
+    return 'Sua visita técnica começa em cerca de 2 horas. Se não puder receber a equipe, remarque ou cancele pelo botão abaixo para liberar o horário.'
+  }
+
+  return confirmed
+    ? 'Falta um dia para sua visita técnica. A equipe conta com você no local.'
+    : 'Falta um dia para sua visita técnica. Confirme sua presença pelo botão abaixo ou, se não puder receber a equipe, remarque para outro horário.'
+}
+
+/**
+ * Envia os lembretes de 24h e 2h ao cliente, um de cada por visita. Remarcar a
+ * visita zera os lembretes.
+ */
+export async function sendAppointmentReminders(now: Date = new Date()): Promise<number> {
+  const upcoming = await db.appointment.findMany({
+    where: {
+      status: { in: [...BLOCKING_APPOINTMENT_STATUSES] },
+      date: { gt: now, lte: new Date(now.getTime() + APPOINTMENT_REMINDER_HOURS['24h'] * HOUR_MS) },
+      OR: [{ reminder24hSentAt: null }, { reminder2hSentAt: null }]
+    },
+    include: calendarAppointmentInclude
+  })
+
+  let reminded = 0
+  for (const appointment of upcoming) {
+    const stage = getAppointmentReminderStage(appointment, now)
+    if (!stage) continue
+
+    try {
+      // A condição evita lembrete duplicado com dois servidores rodando o job
+      const { count } = await db.appointment.updateMany({
+        where: stage === '2h'
+          ? { id: appointment.id, reminder2hSentAt: null }
+          : { id: appointment.id, reminder24hSentAt: null },
+        data: stage === '2h'
+          ? { reminder2hSentAt: now, reminder24hSentAt: appointment.reminder24hSentAt ?? now }
+          : { reminder24hSentAt: now }
+      })
+      if (count === 0) continue
+
+      const accessToken = await ensureAppointmentAccessToken(appointment)
+
+      await sendEmail({
+        to: appointment.user.email,
+        subject: stage === '2h'
+          ? `Sua visita começa em 2 horas: ${appointment.title}`
+          : `Lembrete: sua visita é amanhã - ${appointment.title}`,
+        html: createAppointmentEmailTemplate({
+          recipientName: appointment.user.name || appointment.user.email,
+          headline: stage === '2h' ? 'Sua visita começa em breve' : 'Lembrete da sua visita',
+          message: getReminderMessage(stage, !!appointment.customerConfirmedAt),
+          appointmentTitle: appointment.title,
+          date: appointment.date,
+          duration: appointment.duration,
+          location: appointment.location,
+          counterpartLabel: 'Empresa',
+          counterpartName: appointment.company.name,
+          technicianName: appointment.technician?.name,
+          withInvite: false,
+          manageUrl: getAppointmentManageUrl(appointment.id, accessToken)
+        }),
+        replyTo: appointment.company.email || appointment.company.user.email
+      })
+
+      reminded++
+    } catch (error) {
+      console.error('Appointment reminder error:', error)
+    }
+  }
+
+  return reminded
+}
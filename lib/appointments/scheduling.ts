@@ -0,0 +1,94 @@
+import type { Prisma } from '@prisma/client'
+import { db } from '../db'
+import { availabilityConfigSchema, weeklyHoursSchema, type AvailabilityConfig, type WeeklyHours } from '../validations'
+import {
+  BLOCKING_APPOINTMENT_STATUSES,
+  getDayAvailability,
+  toBrasiliaDate,
+  type BusyAppointment,
+  type DayAvailability
+} from './availability'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Configuração da agenda com os padrões aplicados. Valores inválidos caem no
+ * padrão em vez de travar o agendamento.
+ */
+export function parseAvailabilityConfig(value: unknown): AvailabilityConfig {
+  const parsed = availabilityConfigSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : availabilityConfigSchema.parse({})
+}
+
+// Expediente próprio do técnico, ou null para seguir o da empresa
+export function parseWeeklyHours(value: unknown): WeeklyHours | null {
+  const parsed = weeklyHoursSchema.safeParse(value)
+  return parsed.success ? parsed.data : null
+}
+
+export interface CompanyDayAvailability extends DayAvailability {
+  config: AvailabilityConfig
+  appointments: BusyAppointment[]
+}
+
+/**
+ * Carrega expediente, técnicos ativos, bloqueios e visitas da empresa e calcula
+ * os horários do dia. Retorna null quando a empresa não existe. Ao remarcar,
+ * `excludeAppointmentId` libera o horário atual da própria visita. `client` permite
+ * conferir o horário dentro da transação que grava a visita.
+ */
+export async function getCompanyDayAvailability(
+  companyId: string,
+  date: string,
+  options: { duration?: number; now?: Date; excludeAppointmentId?: string; client?: Prisma.TransactionClient } = {}
+): Promise<CompanyDayAvailability | null> {
+  const client = options.client ?? db
+  const company = await client.companyProfile.findUnique({
+    where: { id: companyId },
+    select: { availabilityConfig: true }
+  })
+
+  if (!company) return null
+
+  const config = parseAvailabilityConfig(company.availabilityConfig)
+
+  // Visitas que terminam depois da meia-noite ainda pesam no deslocamento do dia seguinte
+  const dayStart = toBrasiliaDate(date, '00:00')
+  const dayEnd = new Date(dayStart.getTime() + 24 * HOUR_MS)
+
+  const [technicians, blackouts, appointments] = await Promise.all([
+    client.technician.findMany({
+      where: { companyId, active: true },
+      select: { id: true, workingHours: true },
+      orderBy: { name: 'asc' }
+    }),
+    client.companyBlackoutDate.findMany({
+      where: { companyId, startDate: { lte: date }, endDate: { gte: date } },
+      select: { startDate: true, endDate: true, reason: true, technicianId: true }
+    }),
+    client.appointment.findMany({
+      where: {
+        companyId,
+        ...(options.excludeAppointmentId && { id: { not: options.excludeAppointmentId } }),
+        status: { in: [...BLOCKING_APPOINTMENT_STATUSES] },
+        date: { gte: new Date(dayStart.getTime() - 12 * HOUR_MS), lt: dayEnd }
+      },
+      select: { date: true, duration: true, technicianId: true }
+    })
+  ])
+
+  const availability = getDayAvailability({
+    date,
+    config,
+    technicians: technicians.map(technician => ({
+      id: technician.id,
+      workingHours: parseWeeklyHours(technician.workingHours)
+    })),
+    blackouts,
+    appointments,
+    duration: options.duration,
+    now: options.now
+  })
+
+  return { ...availability, config, appointments }
+}
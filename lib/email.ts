@@ -1,16 +1,24 @@
 import { Resend } from 'resend'
+import type { QuotePaymentSummary } from './quotes/payment'
 
 const resend = new Resend(process.env.RESEND_API_KEY)
 
+export interface EmailAttachment {
+  filename: string
+  content: string | Buffer
+  contentType?: string
+}
+
 export interface EmailData {
   to: string | string[]
   subject: string
   html: string
   from?: string
   replyTo?: string
+  attachments?: EmailAttachment[]
 }
 
-export async function sendEmail({ to, subject, html, from, replyTo }: EmailData) {
+export async function sendEmail({ to, subject, html, from, replyTo, attachments }: EmailData) {
   try {
     const result = await resend.emails.send({
       from: from || 'SolarConnect <noreply@solarconnect.com.br>',
@@ -18,6 +26,7 @@ export async function sendEmail({ to, subject, html, from, replyTo }: EmailData)
       subject,
       html,
       replyTo,
+      attachments,
     })
 
     console.log('Email sent successfully:', result)
@@ -209,6 +218,46 @@ export function createNewLeadEmailTemplate({
   })
 }
 
+// Bloco de condições de pagamento do orçamento: à vista, cartão, financiamento e tributos
+function createQuotePaymentHtml(payment: QuotePaymentSummary, formatCurrency: (value: number) => string) {
+  const lastCardOption = payment.cardInstallments[payment.cardInstallments.length - 1]
+  const interestFreeCount = payment.cardInstallments.filter(option => option.interestFree).length
+  const comparison = payment.billComparison
+
+  return `
+    <div style="background-color: #fff7ed; padding: 20px; border-radius: 6px; margin: 20px 0;">
+      <h3 style="margin-top: 0; color: #f97316;">Condições de Pagamento</h3>
+      <p><strong>À vista:</strong> ${formatCurrency(payment.cashPrice)}${payment.cashDiscountPercent > 0 ? ` (${payment.cashDiscountPercent}% de desconto)` : ''}</p>
+      ${lastCardOption ? `
+        <p><strong>Cartão de crédito:</strong> em até ${lastCardOption.count}x de ${formatCurrency(lastCardOption.amount)}${interestFreeCount > 1 ? ` (até ${interestFreeCount}x sem juros)` : ''}</p>
+      ` : ''}
+      ${payment.financing ? `
+        <p><strong>Financiamento solar${payment.financing.institution ? ` (${payment.financing.institution})` : ''}:</strong>
+          ${payment.financing.downPayment > 0 ? `entrada de ${formatCurrency(payment.financing.downPayment)} + ` : ''}${payment.financing.termMonths}x de ${formatCurrency(payment.financing.installment)}
+          <span style="color: #666; font-size: 13px;">(taxa de ${payment.financing.monthlyInterestRate.toLocaleString('pt-BR')}% a.m.)</span>
+        </p>
+      ` : ''}
+      ${comparison ? `
+        <div style="background-color: #ffffff; border: 1px solid #fed7aa; padding: 15px; border-radius: 6px; margin-top: 15px;">
+          <p style="margin: 0 0 8px 0;"><strong>Parcela x conta de luz</strong></p>
+          <p style="margin: 4px 0;">Sua conta de luz hoje: ${formatCurrency(comparison.currentMonthlyBill)}/mês</p>
+          <p style="margin: 4px 0;">Parcela: ${formatCurrency(comparison.monthlyInstallment)}/mês${comparison.estimatedBillWithSolar !== null ? ` + conta estimada com energia solar: ${formatCurrency(comparison.estimatedBillWithSolar)}/mês` : ''}</p>
+          <p style="margin: 8px 0 0 0; font-weight: 600; color: ${comparison.difference >= 0 ? '#16a34a' : '#374151'};">
+            ${comparison.difference >= 0
+              ? `Você gasta ${formatCurrency(comparison.difference)} a menos por mês desde a primeira parcela`
+              : `Diferença de ${formatCurrency(-comparison.difference)} por mês em relação à conta atual`}
+          </p>
+        </div>
+      ` : ''}
+      ${payment.taxes.length > 0 ? `
+        <p style="font-size: 13px; color: #666; margin-bottom: 0;">
+          Tributos inclusos no preço: ${payment.taxes.map(line => `${line.label} (${line.rate.toLocaleString('pt-BR')}%): ${formatCurrency(line.value)}`).join(' · ')}
+        </p>
+      ` : ''}
+    </div>
+  `
+}
+
 // Template para orçamento enviado
 export function createQuoteEmailTemplate({
   customerName,
@@ -219,6 +268,7 @@ export function createQuoteEmailTemplate({
   validUntil,
   items,
   terms,
+  payment,
   quoteUrl
 }: {
   customerName: string
@@ -234,6 +284,7 @@ export function createQuoteEmailTemplate({
     totalPrice: number
   }>
   terms?: string
+  payment?: QuotePaymentSummary
   quoteUrl: string
 }) {
   const formatCurrency = (value: number) => {
@@ -256,6 +307,8 @@ export function createQuoteEmailTemplate({
     </tr>
   `).join('')
 
+  const paymentHtml = payment ? createQuotePaymentHtml(payment, formatCurrency) : ''
+
   const content = `
     <p>Olá <strong>${customerName}</strong>,</p>
     
@@ -290,6 +343,8 @@ export function createQuoteEmailTemplate({
       </tbody>
     </table>
     
+    ${paymentHtml}
+    
     ${terms ? `
       <div style="background-color: #e3f2fd; padding: 20px; border-radius: 6px; margin: 20px 0;">
         <h3 style="margin-top: 0; color: #1976d2;">Termos e Condições</h3>
@@ -309,6 +364,205 @@ export function createQuoteEmailTemplate({
   })
 }
 
+// Template para lembrete de vencimento do orçamento
+export function createQuoteExpiryReminderEmailTemplate({
+  customerName,
+  companyName,
+  quoteTitle,
+  totalValue,
+  validUntil,
+  quoteUrl
+}: {
+  customerName: string
+  companyName: string
+  quoteTitle: string
+  totalValue: number
+  validUntil: string
+  quoteUrl: string
+}) {
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value)
+  }
+
+  const content = `
+    <p>Olá <strong>${customerName}</strong>,</p>
+    
+    <p>O orçamento que a <strong>${companyName}</strong> preparou para você está perto do vencimento.</p>
+    
+    <div style="background-color: #fff7ed; padding: 20px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #f97316;">
+      <h3 style="margin-top: 0; color: #f97316;">${quoteTitle}</h3>
+      <p><strong>Valor total:</strong> ${formatCurrency(totalValue)}</p>
+      <p><strong>Válido até:</strong> ${new Date(validUntil).toLocaleDateString('pt-BR')}</p>
+    </div>
+    
+    <p>Depois dessa data os valores e condições podem mudar. Se quiser seguir com o projeto, aceite o orçamento pelo link abaixo ou fale com a empresa.</p>
+  `
+
+  return createEmailTemplate({
+    title: `Seu orçamento de ${companyName} vence em breve`,
+    content,
+    ctaText: 'Ver Orçamento',
+    ctaUrl: quoteUrl,
+    footerText: `Orçamento enviado por ${companyName} através do SolarConnect`
+  })
+}
+
+// Template para visitas técnicas agendadas, confirmadas, remarcadas, canceladas e lembretes
+export function createAppointmentEmailTemplate({
+  recipientName,
+  headline,
+  message,
+  appointmentTitle,
+  date,
+  duration,
+  location,
+  counterpartLabel,
+  counterpartName,
+  technicianName,
+  cancelled = false,
+  withInvite = true,
+  manageUrl
+}: {
+  recipientName: string
+  headline: string
+  message: string
+  appointmentTitle: string
+  date: Date
+  duration: number
+  location: string
+  counterpartLabel: string
+  counterpartName: string
+  technicianName?: string | null
+  cancelled?: boolean
+  withInvite?: boolean
+  manageUrl?: string
+}) {
+  const formattedDate = date.toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    weekday: 'long',
+    day: '2-digit',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+  const color = cancelled ? '#dc2626' : '#16a34a'
+
+  const content = `
+    <p>Olá <strong>${recipientName}</strong>,</p>
+    
+    <p>${message}</p>
+    
+    <div style="background-color: #f8f9fa; padding: 20px; border-radius: 6px; margin: 20px 0; border-left: 4px solid ${color};">
+      <h3 style="margin-top: 0; color: ${color};">${appointmentTitle}</h3>
+      <p><strong>Quando:</strong> ${formattedDate} (${duration} min, horário de Brasília)</p>
+      <p><strong>Local:</strong> ${location}</p>
+      <p><strong>${counterpartLabel}:</strong> ${counterpartName}</p>
+      ${technicianName ? `<p><strong>Técnico:</strong> ${technicianName}</p>` : ''}
+    </div>
+    
+    ${withInvite ? `<p>${cancelled
+      ? 'O convite anexo remove a visita da sua agenda.'
+      : 'Abra o convite anexo (.ics) para adicionar a visita ao seu calendário.'}</p>` : ''}
+    ${manageUrl ? '<p>Pelo botão abaixo você confirma sua presença, remarca para outro horário livre ou cancela a visita, sem precisar entrar na sua conta.</p>' : ''}
+  `
+
+  return createEmailTemplate({
+    title: headline,
+    content,
+    ...(manageUrl && { ctaText: 'Confirmar, remarcar ou cancelar', ctaUrl: manageUrl })
+  })
+}
+
+// Template para as atualizações do acompanhamento da instalação
+export function createInstallationUpdateEmailTemplate({
+  customerName,
+  companyName,
+  headline,
+  message,
+  stageLabel,
+  expectedDate,
+  progress,
+  trackerUrl
+}: {
+  customerName: string
+  companyName: string
+  headline: string
+  message: string
+  stageLabel: string
+  expectedDate?: string | null
+  progress: number
+  trackerUrl: string
+}) {
+  const content = `
+    <p>Olá <strong>${customerName}</strong>,</p>
+    
+    <p>${message}</p>
+    
+    <div style="background-color: #fff7ed; padding: 20px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #f97316;">
+      <p style="margin-top: 0;"><strong>Etapa atual:</strong> ${stageLabel}</p>
+      ${expectedDate ? `<p><strong>Previsão:</strong> ${expectedDate}</p>` : ''}
+      <p style="margin-bottom: 0;"><strong>Progresso:</strong> ${progress}%</p>
+    </div>
+    
+    <p>Pelo botão abaixo você acompanha todas as etapas, as previsões e os documentos do seu projeto, sem precisar entrar na sua conta.</p>
+  `
+
+  return createEmailTemplate({
+    title: headline,
+    content,
+    ctaText: 'Acompanhar instalação',
+    ctaUrl: trackerUrl,
+    footerText: `Instalação realizada por ${companyName} através do SolarConnect`
+  })
+}
+
+// Template para lembrete de tarefa enviado ao integrante responsável
+export function createTaskReminderEmailTemplate({
+  assigneeName,
+  companyName,
+  taskTitle,
+  leadName,
+  dueAt,
+  overdue
+}: {
+  assigneeName: string
+  companyName: string
+  taskTitle: string
+  leadName: string
+  dueAt: Date
+  overdue: boolean
+}) {
+  const formattedDate = dueAt.toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    dateStyle: 'short',
+    timeStyle: 'short'
+  })
+  const color = overdue ? '#dc2626' : '#f97316'
+
+  const content = `
+    <p>Olá <strong>${assigneeName}</strong>,</p>
+    
+    <p>${overdue
+      ? 'Uma tarefa sob sua responsabilidade passou do prazo.'
+      : 'Uma tarefa sob sua responsabilidade está perto do prazo.'}</p>
+    
+    <div style="background-color: #f8f9fa; padding: 20px; border-radius: 6px; margin: 20px 0; border-left: 4px solid ${color};">
+      <h3 style="margin-top: 0; color: ${color};">${taskTitle}</h3>
+      <p><strong>Lead:</strong> ${leadName}</p>
+      <p style="margin-bottom: 0;"><strong>Prazo:</strong> ${formattedDate} (horário de Brasília)</p>
+    </div>
+  `
+
+  return createEmailTemplate({
+    title: overdue ? 'Tarefa atrasada' : 'Tarefa perto do prazo',
+    content,
+    footerText: `Lembrete enviado por ${companyName} através do SolarConnect`
+  })
+}
+
 // Template para confirmação de lead
 export function createLeadConfirmationEmailTemplate({
   customerName,
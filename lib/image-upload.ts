@@ -77,6 +77,17 @@ export class ImageUploadService {
     }
   }
 
+  // Square thumbnail of an image file, ready to be uploaded alongside the original
+  async createThumbnail(file: File, size: number = this.defaultOptions.thumbnailSize!): Promise<File> {
+    const format = this.getOutputFormat(file.type)
+    const thumbnail = await this.generateThumbnail({ blob: file, width: 0, height: 0, format }, size)
+    const extension = format.split('/')[1]
+
+    return new File([thumbnail.blob], `thumb_${this.generateFilename(file.name).replace(/\.[^.]+$/, '')}.${extension}`, {
+      type: format
+    })
+  }
+
   private validateFile(file: File, options: ImageUploadOptions): void {
     // Check file size
     if (file.size > options.maxSize!) {
@@ -89,7 +100,22 @@ export class ImageUploadService {
     }
   }
 
-  private async processImage(file: File, options: ImageUploadOptions): Promise<ProcessedImage> {
+  // Resized JPEG copy of a photo, for files that end up embedded in PDF reports
+  async toJpeg(file: File, maxSize: number = 1600, quality: number = 80): Promise<File> {
+    const processed = await this.processImage(
+      file,
+      { ...this.defaultOptions, maxWidth: maxSize, maxHeight: maxSize, quality },
+      'image/jpeg'
+    )
+
+    return new File([processed.blob], `${file.name.replace(/\.[^.]+$/, '')}.jpg`, { type: 'image/jpeg' })
+  }
+
+  private async processImage(
+    file: File,
+    options: ImageUploadOptions,
+    format: string = this.getOutputFormat(file.type)
+  ): Promise<ProcessedImage> {
     return new Promise((resolve, reject) => {
       const canvas = document.createElement('canvas')
       const ctx = canvas.getContext('2d')!
@@ -119,13 +145,13 @@ export class ImageUploadService {
                 blob,
                 width,
                 height,
-                format: this.getOutputFormat(file.type)
+                format
               })
             } else {
               reject(new Error('Failed to process image'))
             }
           },
-          this.getOutputFormat(file.type),
+          format,
           options.quality! / 100
         )
       }
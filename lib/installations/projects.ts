@@ -0,0 +1,276 @@
+import { Prisma } from '@prisma/client'
+import { UTApi } from 'uploadthing/server'
+import { generateAccessToken } from '../access-tokens'
+import { db } from '../db'
+import { createInstallationUpdateEmailTemplate, sendEmail } from '../email'
+import { createInstallationUpdateNotification } from '../notifications'
+import type { InstallationStepUpdateInput } from '../validations'
+import {
+  formatExpectedDate,
+  getCurrentInstallationStage,
+  getInstallationProgress,
+  getInstallationStepBlocker,
+  INSTALLATION_STAGE_LABELS,
+  INSTALLATION_STAGES,
+  parseExpectedDate,
+  type InstallationStage
+} from './stages'
+
+// Validade dos links assinados dos documentos, em segundos
+const SIGNED_URL_EXPIRES_IN = 5 * 60
+
+export const installationDocumentSelect = {
+  id: true,
+  stage: true,
+  name: true,
+  mimeType: true,
+  size: true,
+  visibleToCustomer: true,
+  createdAt: true
+} satisfies Prisma.InstallationDocumentSelect
+
+export type InstallationChange =
+  | { kind: 'created' }
+  | { kind: 'completed'; stage: InstallationStage }
+  | { kind: 'reopened'; stage: InstallationStage }
+  | { kind: 'expected_date'; stage: InstallationStage; expectedDate: Date | null }
+  | { kind: 'document'; stage: InstallationStage; name: string }
+
+export class InstallationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InstallationError'
+  }
+}
+
+let utapi: UTApi | null = null
+
+function getUploadThingApi() {
+  if (!utapi) utapi = new UTApi()
+  return utapi
+}
+
+export function getInstallationTrackerUrl(projectId: string, accessToken: string): string {
+  return `${process.env.NEXTAUTH_URL}/instalacao/${projectId}?token=${accessToken}`
+}
+
+/**
+ * Abre o acompanhamento da instalação de um orçamento aceito, com o contrato já
+ * assinado. Chamado de novo para o mesmo orçamento, devolve o existente.
+ */
+export async function createInstallationProject(
+  quoteId: string,
+  acceptance: { signedAt?: Date; signerName?: string; signerEmail?: string | null } = {}
+) {
+  const existing = await db.installationProject.findUnique({ where: { quoteId } })
+  if (existing) return existing
+
+  const quote = await db.quote.findUnique({
+    where: { id: quoteId },
+    include: {
+      lead: { select: { name: true, email: true } },
+      user: { select: { name: true, email: true } }
+    }
+  })
+
+  if (!quote) throw new InstallationError('Orçamento não encontrado')
+
+  const signedAt = acceptance.signedAt ?? new Date()
+
+  let project
+  try {
+    project = await db.installationProject.create({
+      data: {
+        quoteId: quote.id,
+        companyId: quote.companyId,
+        leadId: quote.leadId,
+        userId: quote.userId,
+        customerName: quote.lead?.name ?? quote.user?.name ?? acceptance.signerName ?? 'Cliente',
+        customerEmail: quote.user?.email ?? quote.lead?.email ?? acceptance.signerEmail ?? null,
+        accessToken: generateAccessToken(),
+        currentStage: 'EQUIPMENT_PURCHASED',
+        steps: {
+          create: INSTALLATION_STAGES.map(stage => ({
+            stage,
+            completedAt: stage === 'CONTRACT_SIGNED' ? signedAt : null
+          }))
+        }
+      }
+    })
+  } catch (error) {
+    // Aceite pelo link e pela empresa ao mesmo tempo
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return db.installationProject.findUniqueOrThrow({ where: { quoteId } })
+    }
+    throw error
+  }
+
+  await notifyInstallationChange(project.id, { kind: 'created' })
+
+  return project
+}
+
+/**
+ * Conclui/reabre uma etapa ou muda a previsão e a observação. Devolve as
+ * mudanças que o cliente precisa saber.
+ */
+export async function updateInstallationStep(
+  projectId: string,
+  stage: InstallationStage,
+  input: InstallationStepUpdateInput,
+  now: Date = new Date()
+): Promise<InstallationChange[]> {
+  const project = await db.installationProject.findUnique({
+    where: { id: projectId },
+    include: { steps: true }
+  })
+  const step = project?.steps.find(item => item.stage === stage)
+
+  if (!project || !step) throw new InstallationError('Etapa não encontrada')
+
+  const changes: InstallationChange[] = []
+  const data: Prisma.InstallationStepUpdateInput = {}
+
+  if (input.completed !== undefined && input.completed !== !!step.completedAt) {
+    const blocker = getInstallationStepBlocker(project.steps, stage, input.completed)
+    if (blocker) throw new InstallationError(blocker)
+
+    data.completedAt = input.completed ? now : null
+    changes.push({ kind: input.completed ? 'completed' : 'reopened', stage })
+  }
+
+  if (input.expectedDate !== undefined) {
+    const expectedDate = input.expectedDate ? parseExpectedDate(input.expectedDate) : null
+    if ((expectedDate?.getTime() ?? null) !== (step.expectedDate?.getTime() ?? null)) {
+      data.expectedDate = expectedDate
+      // A previsão de uma etapa já concluída não interessa mais ao cliente
+      if (!step.completedAt || input.completed === false) {
+        changes.push({ kind: 'expected_date', stage, expectedDate })
+      }
+    }
+  }
+
+  if (input.notes !== undefined) {
+    data.notes = input.notes || null
+  }
+
+  const completedAt = data.completedAt === undefined ? step.completedAt : data.completedAt as Date | null
+  const updatedSteps = project.steps.map(item => (item.id === step.id ? { ...item, completedAt } : item))
+  const connected = updatedSteps.every(item => item.completedAt)
+
+  await db.$transaction([
+    db.installationStep.update({ where: { id: step.id }, data }),
+    db.installationProject.update({
+      where: { id: projectId },
+      data: {
+        currentStage: getCurrentInstallationStage(updatedSteps),
+        connectedAt: connected ? project.connectedAt ?? now : null
+      }
+    })
+  ])
+
+  for (const change of changes) {
+    await notifyInstallationChange(projectId, change)
+  }
+
+  return changes
+}
+
+function describeChange(change: InstallationChange, companyName: string): { title: string; message: string } {
+  switch (change.kind) {
+    case 'created':
+      return {
+        title: 'Acompanhe a instalação do seu sistema',
+        message: `A ${companyName} abriu o acompanhamento do seu projeto. Você vai receber um aviso a cada etapa, da compra dos equipamentos até a conexão na rede.`
+      }
+    case 'completed':
+      return change.stage === 'CONNECTED'
+        ? {
+            title: 'Seu sistema solar está conectado!',
+            message: `A homologação foi concluída e o seu sistema já está ligado à rede. Obrigado por escolher a ${companyName}!`
+          }
+        : {
+            title: `Etapa concluída: ${INSTALLATION_STAGE_LABELS[change.stage]}`,
+            message: `A ${companyName} concluiu a etapa "${INSTALLATION_STAGE_LABELS[change.stage]}" do seu projeto.`
+          }
+    case 'reopened':
+      return {
+        title: `Etapa em andamento: ${INSTALLATION_STAGE_LABELS[change.stage]}`,
+        message: `A etapa "${INSTALLATION_STAGE_LABELS[change.stage]}" voltou para andamento. Em caso de dúvida, fale com a ${companyName}.`
+      }
+    case 'expected_date':
+      return {
+        title: `Nova previsão: ${INSTALLATION_STAGE_LABELS[change.stage]}`,
+        message: change.expectedDate
+          ? `A previsão da etapa "${INSTALLATION_STAGE_LABELS[change.stage]}" agora é ${formatExpectedDate(change.expectedDate)}.`
+          : `A etapa "${INSTALLATION_STAGE_LABELS[change.stage]}" está sem previsão no momento.`
+      }
+    case 'document':
+      return {
+        title: `Novo documento: ${INSTALLATION_STAGE_LABELS[change.stage]}`,
+        message: `A ${companyName} anexou o documento "${change.name}" à etapa "${INSTALLATION_STAGE_LABELS[change.stage]}".`
+      }
+  }
+}
+
+/**
+ * Avisa o cliente por email e, se ele tiver conta, no site. Uma falha no aviso
+ * não desfaz a mudança.
+ */
+export async function notifyInstallationChange(projectId: string, change: InstallationChange): Promise<void> {
+  try {
+    const project = await db.installationProject.findUnique({
+      where: { id: projectId },
+      include: {
+        steps: true,
+        company: { select: { name: true, email: true } }
+      }
+    })
+
+    if (!project) return
+
+    const { title, message } = describeChange(change, project.company.name)
+    const trackerUrl = getInstallationTrackerUrl(project.id, project.accessToken)
+    const currentStep = project.steps.find(step => step.stage === project.currentStage)
+
+    if (project.customerEmail) {
+      await sendEmail({
+        to: project.customerEmail,
+        subject: `${title} - ${project.company.name}`,
+        html: createInstallationUpdateEmailTemplate({
+          customerName: project.customerName,
+          companyName: project.company.name,
+          headline: title,
+          message,
+          stageLabel: project.connectedAt ? 'Concluído' : INSTALLATION_STAGE_LABELS[project.currentStage],
+          expectedDate: !project.connectedAt && currentStep?.expectedDate ? formatExpectedDate(currentStep.expectedDate) : null,
+          progress: getInstallationProgress(project.steps),
+          trackerUrl
+        }),
+        from: `${project.company.name} <noreply@solarconnect.com.br>`,
+        replyTo: project.company.email || undefined
+      })
+    }
+
+    if (project.userId) {
+      await createInstallationUpdateNotification(project.userId, project, title, message, trackerUrl)
+    }
+  } catch (error) {
+    console.error('Error notifying installation change:', error)
+  }
+}
+
+export async function getInstallationDocumentUrl(fileKey: string): Promise<string> {
+  const { ufsUrl } = await getUploadThingApi().generateSignedURL(fileKey, { expiresIn: SIGNED_URL_EXPIRES_IN })
+  return ufsUrl
+}
+
+export async function deleteInstallationDocument(document: { id: string; fileKey: string }): Promise<void> {
+  await db.installationDocument.delete({ where: { id: document.id } })
+
+  try {
+    await getUploadThingApi().deleteFiles(document.fileKey)
+  } catch (error) {
+    console.error('Error deleting installation document:', error)
+  }
+}
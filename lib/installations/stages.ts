@@ -0,0 +1,98 @@
+// Etapas do pós-venda, usadas também no navegador (sem acesso ao banco)
+import { INSTALLATION_STAGES, type InstallationStage } from '../validations'
+
+export { INSTALLATION_STAGES, type InstallationStage }
+
+export const INSTALLATION_STAGE_LABELS: Record<InstallationStage, string> = {
+  CONTRACT_SIGNED: 'Contrato assinado',
+  EQUIPMENT_PURCHASED: 'Compra dos equipamentos',
+  INSTALLATION: 'Instalação',
+  ART_ISSUED: 'ART emitida',
+  ACCESS_REQUEST: 'Solicitação de acesso',
+  INSPECTION: 'Vistoria da distribuidora',
+  METER_SWAP: 'Troca do medidor',
+  CONNECTED: 'Sistema conectado'
+}
+
+// O que acontece em cada etapa, explicado para o cliente
+export const INSTALLATION_STAGE_DESCRIPTIONS: Record<InstallationStage, string> = {
+  CONTRACT_SIGNED: 'Proposta aceita e contrato assinado.',
+  EQUIPMENT_PURCHASED: 'Painéis, inversor e estrutura comprados e a caminho.',
+  INSTALLATION: 'Equipe no local montando a estrutura, os painéis e o inversor.',
+  ART_ISSUED: 'Anotação de Responsabilidade Técnica do engenheiro registrada no CREA.',
+  ACCESS_REQUEST: 'Projeto enviado à distribuidora, que analisa e emite o parecer de acesso.',
+  INSPECTION: 'A distribuidora confere a instalação no local.',
+  METER_SWAP: 'A distribuidora troca o medidor pelo bidirecional, que registra a energia injetada.',
+  CONNECTED: 'Homologação concluída: o sistema está gerando créditos na conta de luz.'
+}
+
+export interface InstallationStepState {
+  stage: InstallationStage
+  expectedDate: Date | string | null
+  completedAt: Date | string | null
+}
+
+const stageIndex = (stage: InstallationStage) => INSTALLATION_STAGES.indexOf(stage)
+
+/**
+ * Etapa em andamento: a primeira não concluída, ou CONNECTED quando todas
+ * foram concluídas.
+ */
+export function getCurrentInstallationStage(steps: InstallationStepState[]): InstallationStage {
+  const completed = new Set(steps.filter(step => step.completedAt).map(step => step.stage))
+  const pending = INSTALLATION_STAGES.filter(stage => !completed.has(stage))
+
+  return pending.length > 0 ? pending[0] : 'CONNECTED'
+}
+
+/**
+ * Motivo pelo qual a etapa não pode ser concluída (ou reaberta), ou null se pode.
+ * As etapas andam em ordem; só a última concluída pode ser reaberta.
+ */
+export function getInstallationStepBlocker(
+  steps: InstallationStepState[],
+  stage: InstallationStage,
+  completed: boolean
+): string | null {
+  const isDone = (target: InstallationStage) => steps.some(step => step.stage === target && step.completedAt)
+  const index = stageIndex(stage)
+
+  if (completed) {
+    if (isDone(stage)) return 'Esta etapa já foi concluída'
+    const previous = INSTALLATION_STAGES.slice(0, index).filter(target => !isDone(target))
+    return previous.length > 0
+      ? `Conclua antes a etapa "${INSTALLATION_STAGE_LABELS[previous[0]]}"`
+      : null
+  }
+
+  if (!isDone(stage)) return 'Esta etapa ainda não foi concluída'
+  const later = INSTALLATION_STAGES.slice(index + 1).filter(isDone)
+  return later.length > 0
+    ? `Reabra antes a etapa "${INSTALLATION_STAGE_LABELS[later[later.length - 1]]}"`
+    : null
+}
+
+export function isInstallationStepOverdue(step: InstallationStepState, now: Date = new Date()): boolean {
+  return !step.completedAt && !!step.expectedDate && new Date(step.expectedDate) < now
+}
+
+/**
+ * Percentual de etapas concluídas, para a barra de progresso.
+ */
+export function getInstallationProgress(steps: InstallationStepState[]): number {
+  const completed = steps.filter(step => step.completedAt).length
+  return Math.round((completed / INSTALLATION_STAGES.length) * 100)
+}
+
+// Previsões são por dia; gravadas ao meio-dia de Brasília para não mudarem de dia no fuso
+export function parseExpectedDate(dateKey: string): Date {
+  return new Date(`${dateKey}T12:00:00-03:00`)
+}
+
+export function toExpectedDateKey(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-CA', { timeZone: 'America/Sao_Paulo' })
+}
+
+export function formatExpectedDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+}
@@ -0,0 +1,13 @@
+import { sendDueTaskReminders } from './leads/tasks'
+import { ScheduledJob } from './scheduler'
+
+/**
+ * Lead task reminder job: notify about tasks close to their due date
+ */
+export const leadTaskReminderScheduler = new ScheduledJob({
+  name: 'Lead task reminder',
+  run: async () => ({ reminded: await sendDueTaskReminders() }),
+  defaultIntervalMinutes: 5,
+  enabledEnv: 'ENABLE_LEAD_TASK_REMINDERS',
+  intervalEnv: 'LEAD_TASK_REMINDER_INTERVAL_MINUTES'
+})
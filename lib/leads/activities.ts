@@ -0,0 +1,222 @@
+import { LEAD_STAGE_LABELS, type LeadStage } from './sla'
+
+export type LeadActivityType = 'NOTE' | 'CALL' | 'WHATSAPP' | 'EMAIL'
+
+export const LEAD_ACTIVITY_TYPES: LeadActivityType[] = ['NOTE', 'CALL', 'WHATSAPP', 'EMAIL']
+
+export const LEAD_ACTIVITY_LABELS: Record<LeadActivityType, string> = {
+  NOTE: 'Nota',
+  CALL: 'Ligação',
+  WHATSAPP: 'WhatsApp',
+  EMAIL: 'Email'
+}
+
+// Tarefas que vencem dentro deste prazo aparecem como "vence em breve"
+export const TASK_DUE_SOON_MINUTES = 24 * 60
+
+export type LeadTaskDueState = 'done' | 'overdue' | 'due_soon' | 'upcoming'
+
+type Author = { id: string; name: string | null } | null
+
+export type LeadTimelineEntry =
+  | {
+      kind: 'activity'
+      id: string
+      at: Date
+      type: LeadActivityType
+      content: string
+      outcome: string | null
+      durationMinutes: number | null
+      author: Author
+    }
+  | {
+      kind: 'stage'
+      id: string
+      at: Date
+      fromStatus: LeadStage | null
+      toStatus: LeadStage
+      label: string
+      timeInStageMinutes: number | null
+      author: Author
+    }
+  | {
+      kind: 'task'
+      id: string
+      at: Date
+      title: string
+      assigneeName: string | null
+    }
+  | {
+      kind: 'message'
+      id: string
+      at: Date
+      conversationId: string
+      content: string
+      senderName: string | null
+      fromCustomer: boolean
+      attachmentCount: number
+    }
+  | {
+      kind: 'quote'
+      id: string
+      at: Date
+      quoteId: string
+      event: LeadQuoteEvent
+      label: string
+    }
+
+export type LeadQuoteEvent = 'created' | 'sent' | 'viewed' | 'accepted' | 'rejected'
+
+export const LEAD_QUOTE_EVENT_LABELS: Record<LeadQuoteEvent, string> = {
+  created: 'Orçamento criado',
+  sent: 'Orçamento enviado',
+  viewed: 'Orçamento visualizado pelo cliente',
+  accepted: 'Orçamento aceito',
+  rejected: 'Orçamento recusado'
+}
+
+const MINUTE_MS = 60 * 1000
+
+export function getTaskDueState(
+  task: { dueAt: Date | string; completedAt?: Date | string | null },
+  now: Date = new Date()
+): LeadTaskDueState {
+  if (task.completedAt) return 'done'
+
+  const minutesLeft = (new Date(task.dueAt).getTime() - now.getTime()) / MINUTE_MS
+  if (minutesLeft < 0) return 'overdue'
+  return minutesLeft <= TASK_DUE_SOON_MINUTES ? 'due_soon' : 'upcoming'
+}
+
+type TimelineQuote = {
+  id: string
+  title: string
+  createdAt: Date | string
+  sentAt?: Date | string | null
+  viewedAt?: Date | string | null
+  acceptance?: { decision: string; signedAt: Date | string } | null
+}
+
+// Marcos de cada orçamento do lead: criação, envio, visualização e resposta do cliente
+function quoteTimelineEntries(quote: TimelineQuote) {
+  const milestones: Array<[LeadQuoteEvent, Date | string | null | undefined]> = [
+    ['created', quote.createdAt],
+    ['sent', quote.sentAt],
+    ['viewed', quote.viewedAt]
+  ]
+
+  if (quote.acceptance) {
+    milestones.push([
+      quote.acceptance.decision === 'ACCEPTED' ? 'accepted' : 'rejected',
+      quote.acceptance.signedAt
+    ])
+  }
+
+  return milestones
+    .filter(([, at]) => at)
+    .map(([event, at]) => ({
+      kind: 'quote' as const,
+      id: `${quote.id}:${event}`,
+      at: new Date(at as Date | string),
+      quoteId: quote.id,
+      event,
+      label: `${LEAD_QUOTE_EVENT_LABELS[event]}: ${quote.title}`
+    }))
+}
+
+/**
+ * Junta atividades registradas, mudanças de etapa, tarefas concluídas, marcos
+ * dos orçamentos e mensagens trocadas com o cliente em uma única linha do
+ * tempo, da mais recente para a mais antiga. Tarefas pendentes ficam fora:
+ * aparecem na lista de tarefas, não no histórico.
+ */
+export function buildLeadTimeline({
+  activities = [],
+  stageChanges = [],
+  tasks = [],
+  quotes = [],
+  messages = [],
+  companyUserId
+}: {
+  activities?: Array<{
+    id: string
+    type: string
+    content: string
+    outcome?: string | null
+    durationMinutes?: number | null
+    occurredAt: Date | string
+    author?: Author
+  }>
+  stageChanges?: Array<{
+    id: string
+    fromStatus: string | null
+    toStatus: string
+    timeInStageMinutes: number | null
+    changedAt: Date | string
+    changedBy?: Author
+  }>
+  tasks?: Array<{
+    id: string
+    title: string
+    completedAt: Date | string | null
+    assignee?: { name: string } | null
+  }>
+  quotes?: TimelineQuote[]
+  messages?: Array<{
+    id: string
+    conversationId: string
+    content: string
+    createdAt: Date | string
+    sender: { id: string; name: string | null }
+    _count?: { attachments: number }
+  }>
+  // Conta da empresa; mensagens de qualquer outro remetente vêm do cliente
+  companyUserId?: string
+}): LeadTimelineEntry[] {
+  const entries: LeadTimelineEntry[] = [
+    ...activities.map(activity => ({
+      kind: 'activity' as const,
+      id: activity.id,
+      at: new Date(activity.occurredAt),
+      type: activity.type as LeadActivityType,
+      content: activity.content,
+      outcome: activity.outcome ?? null,
+      durationMinutes: activity.durationMinutes ?? null,
+      author: activity.author ?? null
+    })),
+    ...stageChanges.map(change => ({
+      kind: 'stage' as const,
+      id: change.id,
+      at: new Date(change.changedAt),
+      fromStatus: change.fromStatus as LeadStage | null,
+      toStatus: change.toStatus as LeadStage,
+      label: change.fromStatus
+        ? `${LEAD_STAGE_LABELS[change.fromStatus as LeadStage]} → ${LEAD_STAGE_LABELS[change.toStatus as LeadStage]}`
+        : `Lead recebido em ${LEAD_STAGE_LABELS[change.toStatus as LeadStage]}`,
+      timeInStageMinutes: change.timeInStageMinutes,
+      author: change.changedBy ?? null
+    })),
+    ...tasks
+      .filter(task => task.completedAt)
+      .map(task => ({
+        kind: 'task' as const,
+        id: task.id,
+        at: new Date(task.completedAt as Date | string),
+        title: task.title,
+        assigneeName: task.assignee?.name ?? null
+      })),
+    ...([] as LeadTimelineEntry[]).concat(...quotes.map(quoteTimelineEntries)),
+    ...messages.map(message => ({
+      kind: 'message' as const,
+      id: message.id,
+      at: new Date(message.createdAt),
+      conversationId: message.conversationId,
+      content: message.content,
+      senderName: message.sender.name,
+      fromCustomer: message.sender.id !== companyUserId,
+      attachmentCount: message._count?.attachments ?? 0
+    }))
+  ]
+
+  return entries.sort((a, b) => b.at.getTime() - a.at.getTime())
+}
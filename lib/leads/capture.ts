@@ -0,0 +1,160 @@
+import { db } from '../db'
+import {
+  sendEmail,
+  createNewLeadEmailTemplate,
+  createLeadConfirmationEmailTemplate
+} from '../email'
+import { dispatchWebhookEvent, serializeWebhookLead } from '../webhooks'
+import { getLeadMatchKeys } from './duplicates'
+import { attachSubmissionToLead, findOpenDuplicateLead, type LeadSubmission } from './merge'
+
+export interface LeadCaptureSubmission extends LeadSubmission {
+  location: string
+}
+
+// Empresa que recebe o lead, com o email do dono da conta para a notificação
+export interface LeadCaptureCompany {
+  id: string
+  name: string
+  userId: string
+  autoMergeDuplicateLeads: boolean
+  user: { email: string }
+}
+
+export interface LeadCaptureOptions {
+  defaultSource?: string
+  apiKeyId?: string // Chave da API pública que enviou o lead
+  sourceUrl?: string
+}
+
+async function sendLeadConfirmationEmail(companyName: string, submission: LeadCaptureSubmission) {
+  try {
+    const confirmationHtml = createLeadConfirmationEmailTemplate({
+      customerName: submission.name,
+      companyName,
+      projectType: submission.projectType,
+      message: submission.message
+    })
+
+    await sendEmail({
+      to: submission.email,
+      subject: `Confirmação: Sua solicitação foi enviada para ${companyName}`,
+      html: confirmationHtml
+    })
+  } catch (emailError) {
+    console.error('Error sending lead confirmation email:', emailError)
+    // Não falha a operação se o email não for enviado
+  }
+}
+
+async function sendNewLeadEmail(company: LeadCaptureCompany, submission: LeadCaptureSubmission) {
+  try {
+    const emailHtml = createNewLeadEmailTemplate({
+      companyName: company.name,
+      leadName: submission.name,
+      leadEmail: submission.email,
+      leadPhone: submission.phone,
+      projectType: submission.projectType,
+      location: submission.location,
+      budget: submission.budget,
+      message: submission.message,
+      dashboardUrl: `${process.env.NEXTAUTH_URL}/dashboard/leads`
+    })
+
+    await sendEmail({
+      to: company.user.email,
+      subject: `Novo Lead: ${submission.name} - ${submission.projectType}`,
+      html: emailHtml,
+      replyTo: submission.email
+    })
+  } catch (emailError) {
+    console.error('Error sending lead notification email:', emailError)
+    // Não falha a operação se o email não for enviado
+  }
+}
+
+/**
+ * Registra uma solicitação de orçamento vinda do formulário do site ou da API pública:
+ * cria o lead (ou anexa ao lead aberto do mesmo cliente, se a empresa usa a mesclagem
+ * automática), notifica a empresa e confirma o envio para o cliente.
+ */
+export async function captureLead(
+  company: LeadCaptureCompany,
+  submission: LeadCaptureSubmission,
+  options: LeadCaptureOptions = {}
+) {
+  const source = submission.source || options.defaultSource || 'website'
+
+  // Cliente que já tem um lead aberto: a nova solicitação entra no histórico dele
+  const openLead = company.autoMergeDuplicateLeads
+    ? await findOpenDuplicateLead(company.id, submission)
+    : null
+
+  if (openLead) {
+    const lead = await attachSubmissionToLead(openLead.id, { ...submission, source })
+
+    await db.notification.create({
+      data: {
+        title: 'Nova Solicitação de Lead Existente',
+        message: `${submission.name} enviou uma nova solicitação; ela foi anexada ao lead de ${openLead.name}`,
+        type: 'LEAD_RECEIVED',
+        userId: company.userId,
+        data: {
+          leadId: lead.id,
+          leadName: openLead.name,
+          projectType: submission.projectType,
+          attached: true
+        }
+      }
+    })
+
+    await sendLeadConfirmationEmail(company.name, submission)
+
+    return { lead, attached: true }
+  }
+
+  const lead = await db.lead.create({
+    data: {
+      name: submission.name,
+      email: submission.email,
+      phone: submission.phone,
+      location: submission.location,
+      projectType: submission.projectType,
+      budget: submission.budget,
+      message: submission.message,
+      source,
+      simulation: submission.simulation as object | undefined,
+      electricityBill: submission.electricityBill as object | undefined,
+      sourceUrl: options.sourceUrl,
+      apiKeyId: options.apiKeyId,
+      ...getLeadMatchKeys(submission),
+      companyId: company.id,
+      status: 'NEW',
+      stageChanges: {
+        create: { toStatus: 'NEW' }
+      }
+    }
+  })
+
+  // Criar notificação para a empresa
+  await db.notification.create({
+    data: {
+      title: 'Novo Lead Recebido',
+      message: `${submission.name} enviou uma solicitação de orçamento para ${submission.projectType}`,
+      type: 'LEAD_RECEIVED',
+      userId: company.userId,
+      data: {
+        leadId: lead.id,
+        leadName: submission.name,
+        projectType: submission.projectType
+      }
+    }
+  })
+
+  await dispatchWebhookEvent(company.id, 'lead.created', { lead: serializeWebhookLead(lead) })
+
+  await sendNewLeadEmail(company, submission)
+  await sendLeadConfirmationEmail(company.name, submission)
+
+  return { lead, attached: false }
+}
@@ -0,0 +1,160 @@
+// Similaridade mínima entre nomes normalizados para sugerir um duplicado
+export const NAME_SIMILARITY_THRESHOLD = 0.85
+
+// Leads com o mesmo nome só são comparados dentro desta janela
+export const NAME_MATCH_WINDOW_DAYS = 30
+
+export type DuplicateReason = 'email' | 'phone' | 'name'
+
+export type DuplicateConfidence = 'high' | 'medium'
+
+export interface DuplicateMatch {
+  reasons: DuplicateReason[]
+  confidence: DuplicateConfidence
+  nameSimilarity: number
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: 'Mesmo email',
+  phone: 'Mesmo telefone',
+  name: 'Nome parecido'
+}
+
+interface DuplicateCandidateFields {
+  name: string
+  emailKey?: string | null
+  phoneKey?: string | null
+  createdAt: Date | string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Chave de comparação de email: minúsculo e sem espaços.
+ */
+export function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase()
+  return normalized.includes('@') ? normalized : null
+}
+
+/**
+ * Chave de comparação de telefone: DDD + últimos 8 dígitos. Ignora o +55, o zero
+ * de longa distância e o nono dígito, para que "(11) 98765-4321", "+55 11 8765-4321"
+ * e "011987654321" caiam na mesma chave. Sem DDD não há como comparar com segurança.
+ */
+export function normalizePhone(phone: string): string | null {
+  let digits = phone.replace(/\D/g, '')
+  if (digits.length > 11 && digits.startsWith('55')) {
+    digits = digits.slice(2)
+  }
+  digits = digits.replace(/^0+/, '')
+
+  if (digits.length < 10) return null
+  return `${digits.slice(0, 2)}${digits.slice(-8)}`
+}
+
+export function getLeadMatchKeys(lead: { email: string; phone: string }) {
+  return {
+    emailKey: normalizeEmail(lead.email),
+    phoneKey: normalizePhone(lead.phone)
+  }
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Similaridade entre 0 e 1 de dois nomes. Considera também o mesmo primeiro e
+ * último nome ("Maria Silva" x "Maria Aparecida da Silva").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a)
+  const right = normalizeName(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  const editSimilarity = 1 - levenshtein(left, right) / Math.max(left.length, right.length)
+
+  const leftTokens = left.split(' ')
+  const rightTokens = right.split(' ')
+  const sameEnds = leftTokens.length > 1 && rightTokens.length > 1
+    && leftTokens[0] === rightTokens[0]
+    && leftTokens[leftTokens.length - 1] === rightTokens[rightTokens.length - 1]
+
+  return Math.max(editSimilarity, sameEnds ? 0.9 : 0)
+}
+
+/**
+ * Compara dois leads da mesma empresa. Email ou telefone iguais indicam duplicado
+ * com alta confiança; nome parecido sozinho só conta para leads próximos no tempo.
+ */
+export function matchDuplicate(
+  lead: DuplicateCandidateFields,
+  candidate: DuplicateCandidateFields
+): DuplicateMatch | null {
+  const reasons: DuplicateReason[] = []
+
+  if (lead.emailKey && lead.emailKey === candidate.emailKey) reasons.push('email')
+  if (lead.phoneKey && lead.phoneKey === candidate.phoneKey) reasons.push('phone')
+
+  const similarity = nameSimilarity(lead.name, candidate.name)
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) reasons.push('name')
+
+  if (reasons.length === 0) return null
+
+  if (reasons.includes('email') || reasons.includes('phone')) {
+    return { reasons, confidence: 'high', nameSimilarity: similarity }
+  }
+
+  const daysApart = Math.abs(new Date(lead.createdAt).getTime() - new Date(candidate.createdAt).getTime()) / DAY_MS
+  return daysApart <= NAME_MATCH_WINDOW_DAYS
+    ? { reasons, confidence: 'medium', nameSimilarity: similarity }
+    : null
+}
+
+/**
+ * Possíveis duplicados de um lead, primeiro os de alta confiança e, dentro de cada
+ * grupo, os com mais motivos em comum.
+ */
+export function findDuplicateCandidates<T extends DuplicateCandidateFields & { id: string }>(
+  lead: DuplicateCandidateFields & { id: string },
+  candidates: T[]
+): Array<T & { match: DuplicateMatch }> {
+  return candidates
+    .filter(candidate => candidate.id !== lead.id)
+    .map(candidate => ({ candidate, match: matchDuplicate(lead, candidate) }))
+    .filter((entry): entry is { candidate: T; match: DuplicateMatch } => entry.match !== null)
+    .sort((a, b) => {
+      if (a.match.confidence !== b.match.confidence) {
+        return a.match.confidence === 'high' ? -1 : 1
+      }
+      return b.match.reasons.length - a.match.reasons.length
+        || b.match.nameSimilarity - a.match.nameSimilarity
+    })
+    .map(({ candidate, match }) => ({ ...candidate, match }))
+}
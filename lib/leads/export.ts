@@ -0,0 +1,157 @@
+import { getQuotePaymentSummary, splitQuoteValue } from '../quotes/payment'
+import type { SpreadsheetCell } from '../spreadsheet'
+import { LEAD_STAGE_LABELS, type LeadStage } from './sla'
+
+export type ExportDataset = 'leads' | 'quotes'
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  leads: 'Leads',
+  quotes: 'Orçamentos'
+}
+
+const QUOTE_STATUS_LABELS: Record<string, string> = {
+  DRAFT: 'Rascunho',
+  SENT: 'Enviado',
+  VIEWED: 'Visualizado',
+  ACCEPTED: 'Aceito',
+  REJECTED: 'Rejeitado',
+  EXPIRED: 'Expirado'
+}
+
+// Os cabeçalhos dos leads batem com os apelidos da importação, para o arquivo voltar sem remapear
+export const LEAD_EXPORT_HEADERS = [
+  'id',
+  'nome',
+  'email',
+  'telefone',
+  'localizacao',
+  'tipo_projeto',
+  'orcamento',
+  'mensagem',
+  'origem',
+  'etapa',
+  'total_orcamentos',
+  'valor_aceito',
+  'recebido_em'
+]
+
+export const QUOTE_EXPORT_HEADERS = [
+  'id',
+  'titulo',
+  'cliente',
+  'email_cliente',
+  'lead_id',
+  'status',
+  'subtotal',
+  'desconto_percentual',
+  'valor_total',
+  'valor_equipamentos',
+  'valor_servicos',
+  'icms',
+  'iss',
+  'criado_em',
+  'enviado_em',
+  'visualizado_em',
+  'validade',
+  'respondido_em',
+  'assinado_por'
+]
+
+export interface LeadExportSource {
+  id: string
+  name: string
+  email: string
+  phone: string
+  location: string
+  projectType: string
+  budget: string | null
+  message: string
+  source: string | null
+  status: string
+  createdAt: Date
+  quotes: Array<{ status: string; totalValue: unknown }>
+}
+
+export interface QuoteExportSource {
+  id: string
+  title: string
+  status: string
+  subtotal: unknown
+  discountPercent: number | null
+  totalValue: unknown
+  paymentConditions?: unknown
+  validUntil: Date
+  sentAt: Date | null
+  viewedAt: Date | null
+  createdAt: Date
+  leadId: string | null
+  lead: { name: string; email: string; simulation?: unknown } | null
+  items: Array<{ type?: string | null; totalPrice: unknown }>
+  acceptance: { signerName: string; signedAt: Date } | null
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+export function buildLeadExportRows(leads: LeadExportSource[]): SpreadsheetCell[][] {
+  return [
+    LEAD_EXPORT_HEADERS,
+    ...leads.map(lead => [
+      lead.id,
+      lead.name,
+      lead.email,
+      lead.phone,
+      lead.location,
+      lead.projectType,
+      lead.budget,
+      lead.message,
+      lead.source,
+      LEAD_STAGE_LABELS[lead.status as LeadStage] ?? lead.status,
+      lead.quotes.length,
+      lead.quotes
+        .filter(quote => quote.status === 'ACCEPTED')
+        .reduce((sum, quote) => sum + Number(quote.totalValue), 0),
+      lead.createdAt
+    ])
+  ]
+}
+
+/**
+ * Linhas de orçamentos para conciliação: total separado entre equipamentos e
+ * serviços e tributos destacados quando o orçamento tem condições de pagamento.
+ */
+export function buildQuoteExportRows(quotes: QuoteExportSource[]): SpreadsheetCell[][] {
+  return [
+    QUOTE_EXPORT_HEADERS,
+    ...quotes.map(quote => {
+      const totalValue = Number(quote.totalValue)
+      const summary = getQuotePaymentSummary(quote)
+      const split = summary ?? splitQuoteValue(
+        quote.items.map(item => ({ type: item.type, totalPrice: Number(item.totalPrice) })),
+        totalValue
+      )
+      const tax = (name: 'ICMS' | 'ISS') => summary?.taxes.find(line => line.tax === name)?.value ?? 0
+
+      return [
+        quote.id,
+        quote.title,
+        quote.lead?.name ?? null,
+        quote.lead?.email ?? null,
+        quote.leadId,
+        QUOTE_STATUS_LABELS[quote.status] ?? quote.status,
+        toNumber(quote.subtotal),
+        quote.discountPercent,
+        totalValue,
+        split.equipmentValue,
+        split.serviceValue,
+        tax('ICMS'),
+        tax('ISS'),
+        quote.createdAt,
+        quote.sentAt,
+        quote.viewedAt,
+        quote.validUntil,
+        quote.acceptance?.signedAt ?? null,
+        quote.acceptance?.signerName ?? null
+      ]
+    })
+  ]
+}
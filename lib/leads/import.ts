@@ -0,0 +1,333 @@
+import { z } from 'zod'
+import { getLeadMatchKeys } from './duplicates'
+import { LEAD_STAGES, LEAD_STAGE_LABELS, type LeadStage } from './sla'
+import { parseSpreadsheet, SpreadsheetError } from '../spreadsheet'
+import { slugify } from '../utils'
+import { leadImportMappingSchema, type LeadImportMapping } from '../validations'
+
+export class LeadImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LeadImportError'
+  }
+}
+
+export type LeadImportField = keyof LeadImportMapping
+
+export interface LeadImportFieldDefinition {
+  field: LeadImportField
+  label: string
+  required: boolean
+  aliases: string[] // Cabeçalhos reconhecidos na sugestão de mapeamento
+}
+
+export const LEAD_IMPORT_FIELDS: LeadImportFieldDefinition[] = [
+  { field: 'name', label: 'Nome', required: true, aliases: ['nome', 'nome completo', 'cliente', 'contato', 'name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'mail'] },
+  { field: 'phone', label: 'Telefone', required: true, aliases: ['telefone', 'celular', 'whatsapp', 'fone', 'phone'] },
+  { field: 'location', label: 'Cidade', required: true, aliases: ['localizacao', 'cidade', 'municipio', 'cidade uf', 'local', 'location'] },
+  { field: 'projectType', label: 'Tipo de projeto', required: false, aliases: ['tipo projeto', 'tipo de projeto', 'tipo', 'segmento'] },
+  { field: 'budget', label: 'Orçamento', required: false, aliases: ['orcamento', 'investimento', 'valor', 'budget'] },
+  { field: 'message', label: 'Mensagem', required: false, aliases: ['mensagem', 'observacao', 'observacoes', 'interesse', 'message'] },
+  { field: 'source', label: 'Origem', required: false, aliases: ['origem', 'fonte', 'evento', 'source'] },
+  { field: 'status', label: 'Etapa', required: false, aliases: ['etapa', 'status', 'fase'] }
+]
+
+export const LEAD_IMPORT_MAX_ROWS = 5000
+export const LEAD_IMPORT_MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+
+// Valores usados quando a coluna opcional não foi mapeada ou veio vazia
+export const LEAD_IMPORT_DEFAULTS = {
+  projectType: 'A definir',
+  message: 'Lead importado de planilha',
+  source: 'importacao'
+}
+
+export interface LeadImportRow {
+  line: number // Linha na planilha, contando o cabeçalho
+  name: string
+  email: string
+  phone: string
+  location: string
+  projectType: string
+  budget: string | null
+  message: string
+  source: string
+  status: LeadStage
+  emailKey: string | null
+  phoneKey: string | null
+}
+
+export interface LeadImportIssue {
+  line: number | null // null para problemas do arquivo ou do mapeamento
+  field?: LeadImportField
+  message: string
+}
+
+export interface LeadImportReport {
+  totalRows: number
+  validRows: number
+  invalidRows: number
+  duplicateRows: number
+  issues: LeadImportIssue[]
+}
+
+export interface LeadImportResult extends LeadImportReport {
+  rows: LeadImportRow[] // Linhas prontas para criar
+}
+
+// Chaves de email e telefone dos leads que a empresa já tem
+export interface ExistingLeadKeys {
+  emailKeys: Set<string>
+  phoneKeys: Set<string>
+}
+
+export interface LeadImportUpload {
+  fileName: string
+  headers: string[]
+  dataRows: string[][]
+  mapping: LeadImportMapping | null // null: usar a sugestão pelos cabeçalhos
+  skipDuplicates: boolean
+}
+
+const MAX_REPORTED_ISSUES = 100
+
+const headerKey = (header: string) => slugify(header).replace(/-/g, '')
+
+/**
+ * Sugere a coluna de cada campo pelo nome do cabeçalho: primeiro nome exato
+ * (sem acento, espaço ou pontuação), depois cabeçalho que contém o apelido.
+ */
+export function suggestLeadColumnMapping(headers: string[]): LeadImportMapping {
+  const keys = headers.map(headerKey)
+  const used = new Set<number>()
+  const mapping: LeadImportMapping = {}
+
+  for (const matchExact of [true, false]) {
+    for (const definition of LEAD_IMPORT_FIELDS) {
+      if (mapping[definition.field] !== undefined) continue
+
+      const aliases = definition.aliases.map(headerKey)
+      const index = keys.findIndex((key, i) =>
+        !used.has(i) && key !== '' &&
+        aliases.some(alias => (matchExact ? key === alias : key.includes(alias)))
+      )
+
+      if (index >= 0) {
+        mapping[definition.field] = index
+        used.add(index)
+      }
+    }
+  }
+
+  return mapping
+}
+
+const STAGE_BY_KEY = new Map<string, LeadStage>(
+  LEAD_STAGES.flatMap(stage => [
+    [headerKey(stage), stage] as [string, LeadStage],
+    [headerKey(LEAD_STAGE_LABELS[stage]), stage] as [string, LeadStage]
+  ])
+)
+
+const importRowSchema = z.object({
+  name: z.string().min(2, 'Nome deve ter pelo menos 2 caracteres'),
+  email: z.string().email('Email inválido'),
+  phone: z.string().min(1, 'Telefone é obrigatório'),
+  location: z.string().min(2, 'Localização é obrigatória'),
+  projectType: z.string(),
+  budget: z.string().nullable(),
+  message: z.string(),
+  source: z.string(),
+  status: z.string()
+})
+
+/**
+ * Valida as linhas da planilha (sem o cabeçalho) com o mapeamento escolhido.
+ * Linhas com o mesmo email ou telefone de um lead existente, ou de uma linha
+ * anterior do arquivo, contam como duplicadas e ficam de fora quando `skipDuplicates`.
+ */
+export function validateLeadImport(
+  dataRows: string[][],
+  mapping: LeadImportMapping,
+  existing: ExistingLeadKeys,
+  options: { skipDuplicates?: boolean } = {}
+): LeadImportResult {
+  const skipDuplicates = options.skipDuplicates ?? true
+  const issues: LeadImportIssue[] = []
+  const rows: LeadImportRow[] = []
+  let invalidRows = 0
+  let duplicateRows = 0
+
+  const missingFields = LEAD_IMPORT_FIELDS.filter(definition =>
+    definition.required && mapping[definition.field] === undefined
+  )
+
+  if (missingFields.length > 0) {
+    return {
+      totalRows: dataRows.length,
+      validRows: 0,
+      invalidRows: dataRows.length,
+      duplicateRows: 0,
+      issues: missingFields.map(definition => ({
+        line: null,
+        field: definition.field,
+        message: `Selecione a coluna de ${definition.label}`
+      })),
+      rows: []
+    }
+  }
+
+  if (dataRows.length > LEAD_IMPORT_MAX_ROWS) {
+    return {
+      totalRows: dataRows.length,
+      validRows: 0,
+      invalidRows: dataRows.length,
+      duplicateRows: 0,
+      issues: [{ line: null, message: `A planilha tem mais de ${LEAD_IMPORT_MAX_ROWS} linhas; divida o arquivo` }],
+      rows: []
+    }
+  }
+
+  const emailKeys = new Set(existing.emailKeys)
+  const phoneKeys = new Set(existing.phoneKeys)
+
+  const addIssue = (issue: LeadImportIssue) => {
+    if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue)
+  }
+
+  dataRows.forEach((cells, index) => {
+    const line = index + 2
+    const read = (field: LeadImportField) => {
+      const column = mapping[field]
+      return column === undefined ? '' : (cells[column] ?? '').trim()
+    }
+
+    const parsed = importRowSchema.safeParse({
+      name: read('name'),
+      email: read('email'),
+      phone: read('phone'),
+      location: read('location'),
+      projectType: read('projectType') || LEAD_IMPORT_DEFAULTS.projectType,
+      budget: read('budget') || null,
+      message: read('message') || LEAD_IMPORT_DEFAULTS.message,
+      source: read('source') || LEAD_IMPORT_DEFAULTS.source,
+      status: read('status')
+    })
+
+    if (!parsed.success) {
+      invalidRows++
+      parsed.error.errors.forEach(error => addIssue({
+        line,
+        field: error.path[0] as LeadImportField,
+        message: error.message
+      }))
+      return
+    }
+
+    const data = parsed.data
+    const { emailKey, phoneKey } = getLeadMatchKeys(data)
+
+    if (!phoneKey) {
+      invalidRows++
+      addIssue({ line, field: 'phone', message: 'Telefone deve incluir o DDD' })
+      return
+    }
+
+    const status = data.status ? STAGE_BY_KEY.get(headerKey(data.status)) : 'NEW'
+    if (!status) {
+      invalidRows++
+      addIssue({ line, field: 'status', message: `Etapa "${data.status}" não reconhecida` })
+      return
+    }
+
+    const isDuplicate = (!!emailKey && emailKeys.has(emailKey)) || phoneKeys.has(phoneKey)
+    if (isDuplicate) {
+      duplicateRows++
+      addIssue({
+        line,
+        message: skipDuplicates
+          ? `${data.name} já está na sua lista de leads e será ignorado`
+          : `${data.name} já está na sua lista de leads`
+      })
+      if (skipDuplicates) return
+    }
+
+    if (emailKey) emailKeys.add(emailKey)
+    phoneKeys.add(phoneKey)
+
+    rows.push({
+      line,
+      name: data.name,
+      email: data.email,
+      phone: data.phone,
+      location: data.location,
+      projectType: data.projectType,
+      budget: data.budget,
+      message: data.message,
+      source: data.source,
+      status,
+      emailKey,
+      phoneKey
+    })
+  })
+
+  return {
+    totalRows: dataRows.length,
+    validRows: rows.length,
+    invalidRows,
+    duplicateRows,
+    issues,
+    rows
+  }
+}
+
+/**
+ * Lê o formulário de importação: arquivo (`file`, CSV ou XLSX), mapeamento de colunas
+ * em JSON (`mapping`, opcional) e `skipDuplicates` ("false" para importar repetidos).
+ */
+export async function readLeadImportUpload(formData: FormData): Promise<LeadImportUpload> {
+  const file = formData.get('file')
+
+  if (!file || typeof file === 'string') {
+    throw new LeadImportError('Arquivo não fornecido')
+  }
+
+  if (!/\.(csv|xlsx)$/i.test(file.name)) {
+    throw new LeadImportError('Apenas arquivos CSV ou XLSX são aceitos')
+  }
+
+  if (file.size > LEAD_IMPORT_MAX_FILE_SIZE) {
+    throw new LeadImportError('Arquivo muito grande. Máximo 10MB')
+  }
+
+  let rows: string[][]
+  try {
+    rows = parseSpreadsheet(file.name, Buffer.from(await file.arrayBuffer()))
+  } catch (error) {
+    if (error instanceof SpreadsheetError) throw new LeadImportError(error.message)
+    throw error
+  }
+
+  if (rows.length < 2) {
+    throw new LeadImportError('A planilha precisa ter um cabeçalho e ao menos uma linha de dados')
+  }
+
+  let mapping: LeadImportMapping | null = null
+  const rawMapping = formData.get('mapping')
+  if (typeof rawMapping === 'string' && rawMapping) {
+    try {
+      mapping = leadImportMappingSchema.parse(JSON.parse(rawMapping))
+    } catch {
+      throw new LeadImportError('Mapeamento de colunas inválido')
+    }
+  }
+
+  return {
+    fileName: file.name,
+    headers: rows[0],
+    dataRows: rows.slice(1),
+    mapping,
+    skipDuplicates: formData.get('skipDuplicates') !== 'false'
+  }
+}
@@ -0,0 +1,11 @@
+export * from './sla'
+export * from './pipeline'
+export * from './activities'
+export * from './tasks'
+export * from './duplicates'
+export * from './merge'
+export * from './scoring'
+export * from './import'
+export * from './export'
+export * from './capture'
+export * from './widget'
@@ -0,0 +1,258 @@
+import { db } from '../db'
+import { findDuplicateCandidates, getLeadMatchKeys, NAME_MATCH_WINDOW_DAYS } from './duplicates'
+import { LEAD_STAGE_LABELS, OPEN_LEAD_STAGES, type LeadStage } from './sla'
+import type { ExistingLeadKeys } from './import'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class LeadMergeError extends Error {
+  constructor(message: string = 'Este lead já foi mesclado por outra pessoa. Atualize a página.') {
+    super(message)
+    this.name = 'LeadMergeError'
+  }
+}
+
+export interface LeadSubmission {
+  name: string
+  email: string
+  phone: string
+  projectType: string
+  budget?: string
+  message: string
+  source?: string
+  simulation?: unknown
+  electricityBill?: unknown
+}
+
+const candidateSelect = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  status: true,
+  location: true,
+  emailKey: true,
+  phoneKey: true,
+  createdAt: true,
+  _count: { select: { quotes: true, activities: true } }
+}
+
+/**
+ * Possíveis duplicados de um lead dentro da empresa: mesmo email, mesmo telefone
+ * ou nome parecido entre os leads recebidos perto da mesma data.
+ */
+export async function findLeadDuplicates(lead: {
+  id: string
+  companyId: string
+  name: string
+  emailKey: string | null
+  phoneKey: string | null
+  createdAt: Date
+}) {
+  const keyFilters = [
+    ...(lead.emailKey ? [{ emailKey: lead.emailKey }] : []),
+    ...(lead.phoneKey ? [{ phoneKey: lead.phoneKey }] : [])
+  ]
+  const windowMs = NAME_MATCH_WINDOW_DAYS * DAY_MS
+
+  const candidates = await db.lead.findMany({
+    where: {
+      companyId: lead.companyId,
+      id: { not: lead.id },
+      OR: [
+        ...keyFilters,
+        {
+          createdAt: {
+            gte: new Date(lead.createdAt.getTime() - windowMs),
+            lte: new Date(lead.createdAt.getTime() + windowMs)
+          }
+        }
+      ]
+    },
+    select: candidateSelect,
+    take: 500
+  })
+
+  return findDuplicateCandidates(lead, candidates)
+}
+
+/**
+ * Quantos outros leads da empresa têm o mesmo email ou telefone de cada lead da lista.
+ */
+export async function getDuplicateCounts(
+  companyId: string,
+  leads: Array<{ id: string; emailKey: string | null; phoneKey: string | null }>
+): Promise<Record<string, number>> {
+  const emailKeys = leads.map(lead => lead.emailKey).filter((key): key is string => !!key)
+  const phoneKeys = leads.map(lead => lead.phoneKey).filter((key): key is string => !!key)
+  if (emailKeys.length === 0 && phoneKeys.length === 0) return {}
+
+  const matches = await db.lead.findMany({
+    where: {
+      companyId,
+      OR: [
+        { emailKey: { in: emailKeys } },
+        { phoneKey: { in: phoneKeys } }
+      ]
+    },
+    select: { id: true, emailKey: true, phoneKey: true }
+  })
+
+  return Object.fromEntries(leads.map(lead => [
+    lead.id,
+    matches.filter(match => match.id !== lead.id && (
+      (lead.emailKey && match.emailKey === lead.emailKey) ||
+      (lead.phoneKey && match.phoneKey === lead.phoneKey)
+    )).length
+  ]))
+}
+
+/**
+ * Chaves de email e telefone de todos os leads da empresa, para marcar linhas
+ * repetidas na importação de planilhas.
+ */
+export async function getExistingLeadKeys(companyId: string): Promise<ExistingLeadKeys> {
+  const leads = await db.lead.findMany({
+    where: { companyId },
+    select: { emailKey: true, phoneKey: true }
+  })
+
+  return {
+    emailKeys: new Set(leads.map(lead => lead.emailKey).filter((key): key is string => !!key)),
+    phoneKeys: new Set(leads.map(lead => lead.phoneKey).filter((key): key is string => !!key))
+  }
+}
+
+/**
+ * Lead aberto do mesmo cliente (email ou telefone iguais) que deve receber uma nova
+ * solicitação em vez de gerar outro lead. O mais recente ganha.
+ */
+export async function findOpenDuplicateLead(companyId: string, submission: { email: string; phone: string }) {
+  const { emailKey, phoneKey } = getLeadMatchKeys(submission)
+  const keyFilters = [
+    ...(emailKey ? [{ emailKey }] : []),
+    ...(phoneKey ? [{ phoneKey }] : [])
+  ]
+  if (keyFilters.length === 0) return null
+
+  return db.lead.findFirst({
+    where: {
+      companyId,
+      status: { in: OPEN_LEAD_STAGES },
+      OR: keyFilters
+    },
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+/**
+ * Registra uma nova solicitação do formulário no lead existente: a mensagem entra
+ * na linha do tempo e a simulação mais recente substitui a anterior.
+ */
+export async function attachSubmissionToLead(
+  leadId: string,
+  submission: LeadSubmission,
+  now: Date = new Date()
+) {
+  const details = [
+    `Tipo: ${submission.projectType}`,
+    submission.budget ? `Orçamento: ${submission.budget}` : null,
+    `Contato: ${submission.email} · ${submission.phone}`
+  ].filter(Boolean).join(' · ')
+
+  return db.$transaction(async (tx) => {
+    await tx.leadActivity.create({
+      data: {
+        leadId,
+        type: 'NOTE',
+        occurredAt: now,
+        content: `Nova solicitação pelo formulário (${submission.source || 'website'}) de ${submission.name}.\n${details}\n\n${submission.message}`
+      }
+    })
+
+    return tx.lead.update({
+      where: { id: leadId },
+      data: {
+        budget: submission.budget || undefined,
+        simulation: submission.simulation || undefined,
+        electricityBill: submission.electricityBill || undefined
+      }
+    })
+  })
+}
+
+function buildMergeNote(duplicate: {
+  name: string
+  email: string
+  phone: string
+  status: string
+  message: string
+  createdAt: Date
+}): string {
+  return [
+    `Lead duplicado mesclado: ${duplicate.name} · ${duplicate.email} · ${duplicate.phone}`,
+    `Recebido em ${duplicate.createdAt.toLocaleDateString('pt-BR')}, na etapa ${LEAD_STAGE_LABELS[duplicate.status as LeadStage]}.`,
+    '',
+    duplicate.message
+  ].join('\n')
+}
+
+/**
+ * Mescla `duplicateId` em `primaryId`: orçamentos, atividades, tarefas, conversas,
+ * vistorias e acompanhamentos de instalação passam para o lead principal, campos
+ * vazios do principal são preenchidos e o duplicado é excluído.
+ * A etapa do funil e o histórico de etapas do principal são mantidos.
+ */
+export async function mergeLeads(
+  primaryId: string,
+  duplicateId: string,
+  { mergedById, now = new Date() }: { mergedById?: string; now?: Date } = {}
+) {
+  if (primaryId === duplicateId) {
+    throw new LeadMergeError('Escolha outro lead para mesclar')
+  }
+
+  const [primary, duplicate] = await Promise.all([
+    db.lead.findUnique({ where: { id: primaryId } }),
+    db.lead.findUnique({ where: { id: duplicateId } })
+  ])
+
+  if (!primary || !duplicate || primary.companyId !== duplicate.companyId) {
+    throw new LeadMergeError()
+  }
+
+  return db.$transaction(async (tx) => {
+    await tx.quote.updateMany({ where: { leadId: duplicate.id }, data: { leadId: primary.id } })
+    await tx.leadActivity.updateMany({ where: { leadId: duplicate.id }, data: { leadId: primary.id } })
+    await tx.leadTask.updateMany({ where: { leadId: duplicate.id }, data: { leadId: primary.id } })
+    await tx.conversation.updateMany({ where: { leadId: duplicate.id }, data: { leadId: primary.id } })
+    await tx.siteSurvey.updateMany({ where: { leadId: duplicate.id }, data: { leadId: primary.id } })
+    await tx.installationProject.updateMany({ where: { leadId: duplicate.id }, data: { leadId: primary.id } })
+
+    await tx.leadActivity.create({
+      data: {
+        leadId: primary.id,
+        authorId: mergedById,
+        type: 'NOTE',
+        occurredAt: now,
+        content: buildMergeNote(duplicate)
+      }
+    })
+
+    // Só um dos vendedores consegue excluir o duplicado; o outro desfaz tudo
+    const { count } = await tx.lead.deleteMany({ where: { id: duplicate.id } })
+    if (count === 0) {
+      throw new LeadMergeError()
+    }
+
+    return tx.lead.update({
+      where: { id: primary.id },
+      data: {
+        budget: primary.budget ?? duplicate.budget,
+        source: primary.source ?? duplicate.source,
+        ...(!primary.simulation && duplicate.simulation ? { simulation: duplicate.simulation } : {}),
+        ...(!primary.electricityBill && duplicate.electricityBill ? { electricityBill: duplicate.electricityBill } : {})
+      }
+    })
+  })
+}
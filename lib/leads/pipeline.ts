@@ -0,0 +1,172 @@
+import { db } from '../db'
+import {
+  getLeadSlaStatus,
+  LEAD_STAGE_LABELS,
+  LEAD_STAGE_SLA_MINUTES,
+  OPEN_LEAD_STAGES,
+  type LeadStage
+} from './sla'
+
+const MINUTE_MS = 60 * 1000
+
+export class LeadStageConflictError extends Error {
+  constructor(message: string = 'O lead foi movido por outra pessoa. Atualize a página e tente novamente.') {
+    super(message)
+    this.name = 'LeadStageConflictError'
+  }
+}
+
+export interface PipelineStageMetrics {
+  stage: LeadStage
+  label: string
+  slaMinutes: number | null
+  currentCount: number
+  overdueCount: number
+  currentAverageAgeMinutes: number | null // Idade média dos leads parados na etapa agora
+  completedCount: number // Saídas da etapa no período
+  averageMinutes: number | null
+  medianMinutes: number | null
+  slaComplianceRate: number | null // Fração das saídas dentro do prazo (0-1)
+}
+
+/**
+ * Move o lead de etapa e registra o histórico com o tempo de permanência na etapa
+ * anterior. A troca só vale se o lead ainda estiver na etapa lida, para que dois
+ * vendedores arrastando o mesmo card não gerem histórico inconsistente.
+ */
+export async function changeLeadStage(
+  leadId: string,
+  toStatus: LeadStage,
+  { changedById, now = new Date() }: { changedById?: string; now?: Date } = {}
+) {
+  const lead = await db.lead.findUnique({
+    where: { id: leadId },
+    select: { id: true, status: true, stageChangedAt: true }
+  })
+
+  if (!lead) {
+    return null
+  }
+
+  if (lead.status === toStatus) {
+    return db.lead.findUnique({ where: { id: leadId } })
+  }
+
+  const timeInStageMinutes = Math.max(0, Math.round((now.getTime() - lead.stageChangedAt.getTime()) / MINUTE_MS))
+
+  return db.$transaction(async (tx) => {
+    const claimed = await tx.lead.updateMany({
+      where: { id: leadId, status: lead.status },
+      data: { status: toStatus, stageChangedAt: now }
+    })
+
+    if (claimed.count === 0) {
+      throw new LeadStageConflictError()
+    }
+
+    await tx.leadStageChange.create({
+      data: {
+        leadId,
+        fromStatus: lead.status,
+        toStatus,
+        timeInStageMinutes,
+        changedAt: now,
+        changedById
+      }
+    })
+
+    return tx.lead.findUnique({ where: { id: leadId } })
+  })
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle]
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
+
+/**
+ * Tempo em cada etapa aberta do funil: saídas da etapa no período (histórico) e
+ * leads que estão nela agora, com os que já estouraram o SLA.
+ */
+export function calculatePipelineMetrics(
+  changes: Array<{ fromStatus: string | null; timeInStageMinutes: number | null }>,
+  openLeads: Array<{ status: string; stageChangedAt: Date | string }>,
+  now: Date = new Date()
+): PipelineStageMetrics[] {
+  return OPEN_LEAD_STAGES.map(stage => {
+    const durations = changes
+      .filter(change => change.fromStatus === stage && change.timeInStageMinutes !== null)
+      .map(change => change.timeInStageMinutes as number)
+    const current = openLeads
+      .filter(lead => lead.status === stage)
+      .map(lead => getLeadSlaStatus(lead, now))
+    const slaMinutes = LEAD_STAGE_SLA_MINUTES[stage] ?? null
+
+    return {
+      stage,
+      label: LEAD_STAGE_LABELS[stage],
+      slaMinutes,
+      currentCount: current.length,
+      overdueCount: current.filter(sla => sla.state === 'overdue').length,
+      currentAverageAgeMinutes: average(current.map(sla => sla.elapsedMinutes)),
+      completedCount: durations.length,
+      averageMinutes: average(durations),
+      medianMinutes: median(durations),
+      slaComplianceRate: slaMinutes !== null && durations.length > 0
+        ? durations.filter(minutes => minutes <= slaMinutes).length / durations.length
+        : null
+    }
+  })
+}
+
+/**
+ * Etapa onde os leads mais param: mais leads com SLA estourado e, no empate,
+ * maior tempo mediano. Null quando não há dados suficientes.
+ */
+export function findPipelineBottleneck(metrics: PipelineStageMetrics[]): PipelineStageMetrics | null {
+  const candidates = metrics.filter(metric => metric.overdueCount > 0 || metric.medianMinutes !== null)
+  if (candidates.length === 0) return null
+
+  return candidates.reduce((worst, metric) => {
+    if (metric.overdueCount !== worst.overdueCount) {
+      return metric.overdueCount > worst.overdueCount ? metric : worst
+    }
+    return (metric.medianMinutes ?? 0) > (worst.medianMinutes ?? 0) ? metric : worst
+  })
+}
+
+export async function getPipelineMetrics(companyId: string, since: Date, now: Date = new Date()) {
+  const [changes, openLeads] = await Promise.all([
+    db.leadStageChange.findMany({
+      where: {
+        lead: { companyId },
+        fromStatus: { not: null },
+        changedAt: { gte: since }
+      },
+      select: { fromStatus: true, timeInStageMinutes: true }
+    }),
+    db.lead.findMany({
+      where: {
+        companyId,
+        status: { in: OPEN_LEAD_STAGES }
+      },
+      select: { status: true, stageChangedAt: true }
+    })
+  ])
+
+  const stages = calculatePipelineMetrics(changes, openLeads, now)
+  return {
+    stages,
+    bottleneck: findPipelineBottleneck(stages)
+  }
+}
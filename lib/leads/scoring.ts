@@ -0,0 +1,287 @@
+import { leadScoringConfigSchema, type LeadScoringConfig } from '../validations'
+import {
+  getCoverageScore,
+  getMunicipalityByCode,
+  resolveMunicipality,
+  type Municipality,
+  type ServiceAreaCompany
+} from '../solar'
+import { slugify } from '../utils'
+
+export type LeadScoreFactor = 'budget' | 'projectType' | 'distance' | 'engagement' | 'responsiveness'
+
+export type LeadScoreGrade = 'hot' | 'warm' | 'cold'
+
+export interface LeadScoreFactorResult {
+  factor: LeadScoreFactor
+  label: string
+  value: number // Nota do fator, de 0 a 1
+  weight: number
+  points: number // Contribuição para a pontuação final
+  detail: string
+}
+
+export interface LeadScore {
+  score: number // 0 a 100
+  grade: LeadScoreGrade
+  label: string
+  factors: LeadScoreFactorResult[]
+}
+
+export interface ScoringLead {
+  budget?: string | null
+  projectType: string
+  location: string
+  simulation?: unknown
+  quotes?: Array<{
+    status: string
+    sentAt?: Date | string | null
+    viewedAt?: Date | string | null
+  }>
+}
+
+export type ScoringCompany = ServiceAreaCompany
+
+export const LEAD_SCORE_FACTOR_LABELS: Record<LeadScoreFactor, string> = {
+  budget: 'Investimento',
+  projectType: 'Tipo de projeto',
+  distance: 'Distância',
+  engagement: 'Engajamento',
+  responsiveness: 'Tempo de resposta'
+}
+
+export const LEAD_SCORE_GRADE_LABELS: Record<LeadScoreGrade, string> = {
+  hot: 'Quente',
+  warm: 'Morno',
+  cold: 'Frio'
+}
+
+// Nota usada quando não há informação para avaliar o fator
+export const UNKNOWN_FACTOR_SCORE = 0.5
+
+const HOUR_MS = 60 * 60 * 1000
+const EARTH_RADIUS_KM = 6371
+const VIEWED_STATUSES = ['VIEWED', 'ACCEPTED', 'REJECTED']
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', maximumFractionDigits: 0 }).format(value)
+
+/**
+ * Configuração da empresa com os padrões aplicados. Valores inválidos gravados
+ * antes de uma mudança de regra caem no padrão em vez de quebrar a listagem.
+ */
+export function parseLeadScoringConfig(value: unknown): LeadScoringConfig {
+  const parsed = leadScoringConfigSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : leadScoringConfigSchema.parse({})
+}
+
+/**
+ * Investimento estimado do lead: custo do sistema da simulação ou o valor da faixa
+ * de orçamento ("R$ 10.000 - R$ 25.000", "Até R$ 10.000", "50k-100k", "Acima de R$ 100.000").
+ */
+export function estimateLeadInvestment(lead: Pick<ScoringLead, 'budget' | 'simulation'>): number | null {
+  const simulation = lead.simulation as { systemCost?: unknown } | null | undefined
+  if (simulation && typeof simulation.systemCost === 'number' && simulation.systemCost > 0) {
+    return simulation.systemCost
+  }
+
+  if (!lead.budget) return null
+
+  const text = lead.budget.toLowerCase()
+  const values = Array.from(text.matchAll(/(\d{1,3}(?:\.\d{3})+|\d+)(?:,\d+)?\s*(k|mil)?/g))
+    .map(match => parseInt(match[1].replace(/\./g, '')) * (match[2] ? 1000 : 1))
+    .filter(value => value >= 1000)
+
+  if (values.length === 0) return null
+  if (values.length >= 2) return (values[0] + values[1]) / 2
+
+  if (/at[eé]/.test(text)) return values[0] * 0.7
+  if (/acima|mais/.test(text)) return values[0] * 1.25
+  return values[0]
+}
+
+function distanceKm(a: Municipality, b: Municipality): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLon = toRadians(b.longitude - a.longitude)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
+
+function getLeadMunicipality(lead: Pick<ScoringLead, 'location' | 'simulation'>): Municipality | undefined {
+  const simulation = lead.simulation as { municipality?: { ibgeCode?: unknown } } | null | undefined
+  const ibgeCode = simulation?.municipality?.ibgeCode
+  if (typeof ibgeCode === 'string') {
+    const municipality = getMunicipalityByCode(ibgeCode)
+    if (municipality) return municipality
+  }
+  return resolveMunicipality(lead.location)
+}
+
+/**
+ * Distância em km do lead até o ponto de atendimento mais próximo da empresa (sede
+ * ou cidades das áreas atendidas). Zero quando a cidade do lead está nas áreas
+ * atendidas; null quando não é possível localizar um dos lados.
+ */
+export function getLeadDistanceKm(
+  lead: Pick<ScoringLead, 'location' | 'simulation'>,
+  company: ScoringCompany
+): number | null {
+  const municipality = getLeadMunicipality(lead)
+  if (!municipality) return null
+
+  if (getCoverageScore(company, municipality) >= 2) return 0
+
+  const servicePoints = [
+    company.city ? `${company.city}, ${company.state ?? ''}` : null,
+    ...company.serviceAreas
+  ]
+    .filter((area): area is string => !!area)
+    .map(area => resolveMunicipality(area))
+    .filter((point): point is Municipality => !!point)
+
+  if (servicePoints.length === 0) return null
+
+  return Math.round(Math.min(...servicePoints.map(point => distanceKm(municipality, point))))
+}
+
+function scoreBudget(lead: ScoringLead, config: LeadScoringConfig): Pick<LeadScoreFactorResult, 'value' | 'detail'> {
+  const investment = estimateLeadInvestment(lead)
+  if (investment === null) {
+    return { value: UNKNOWN_FACTOR_SCORE, detail: 'Orçamento não informado' }
+  }
+  return {
+    value: clamp(investment / config.idealBudget),
+    detail: `Cerca de ${formatCurrency(investment)}`
+  }
+}
+
+function scoreProjectType(lead: ScoringLead, config: LeadScoringConfig): Pick<LeadScoreFactorResult, 'value' | 'detail'> {
+  const score = config.projectTypeScores[slugify(lead.projectType)]
+  return {
+    value: score ?? UNKNOWN_FACTOR_SCORE,
+    detail: lead.projectType
+  }
+}
+
+function scoreDistance(
+  lead: ScoringLead,
+  company: ScoringCompany,
+  config: LeadScoringConfig
+): Pick<LeadScoreFactorResult, 'value' | 'detail'> {
+  const km = getLeadDistanceKm(lead, company)
+  if (km === null) {
+    return { value: UNKNOWN_FACTOR_SCORE, detail: 'Localização não identificada' }
+  }
+  return {
+    value: clamp(1 - km / config.maxDistanceKm),
+    detail: km === 0 ? 'Dentro da área atendida' : `${km} km da área atendida`
+  }
+}
+
+function scoreEngagement(lead: ScoringLead): Pick<LeadScoreFactorResult, 'value' | 'detail'> {
+  const quotes = lead.quotes ?? []
+  if (quotes.some(quote => quote.status === 'ACCEPTED')) {
+    return { value: 1, detail: 'Aceitou um orçamento' }
+  }
+  if (quotes.some(quote => quote.viewedAt || VIEWED_STATUSES.includes(quote.status))) {
+    return { value: 1, detail: 'Visualizou um orçamento' }
+  }
+  if (quotes.some(quote => quote.sentAt || quote.status === 'SENT' || quote.status === 'EXPIRED')) {
+    return { value: 0.2, detail: 'Não abriu o orçamento enviado' }
+  }
+  return { value: UNKNOWN_FACTOR_SCORE, detail: 'Nenhum orçamento enviado' }
+}
+
+/**
+ * Latência entre o primeiro envio de orçamento e a primeira visualização. Enquanto
+ * o cliente não abre, a nota fica neutra até o prazo de resposta rápida e depois cai.
+ */
+function scoreResponsiveness(
+  lead: ScoringLead,
+  config: LeadScoringConfig,
+  now: Date
+): Pick<LeadScoreFactorResult, 'value' | 'detail'> {
+  const sent = (lead.quotes ?? [])
+    .filter(quote => quote.sentAt)
+    .sort((a, b) => new Date(a.sentAt as Date | string).getTime() - new Date(b.sentAt as Date | string).getTime())[0]
+
+  if (!sent) {
+    return { value: UNKNOWN_FACTOR_SCORE, detail: 'Sem envio registrado' }
+  }
+
+  const sentAt = new Date(sent.sentAt as Date | string).getTime()
+  const viewedAt = (lead.quotes ?? [])
+    .map(quote => (quote.viewedAt ? new Date(quote.viewedAt).getTime() : null))
+    .filter((time): time is number => time !== null && time >= sentAt)
+    .sort((a, b) => a - b)[0]
+
+  const range = config.slowResponseHours - config.fastResponseHours
+  const hours = ((viewedAt ?? now.getTime()) - sentAt) / HOUR_MS
+  const decay = clamp(1 - (hours - config.fastResponseHours) / range)
+
+  if (viewedAt !== undefined) {
+    return {
+      value: decay,
+      detail: `Abriu o orçamento em ${hours < 1 ? 'menos de 1h' : `${Math.round(hours)}h`}`
+    }
+  }
+
+  return {
+    value: Math.min(UNKNOWN_FACTOR_SCORE, decay),
+    detail: `Aguardando há ${Math.round(hours)}h`
+  }
+}
+
+export function getLeadScoreGrade(score: number): LeadScoreGrade {
+  if (score >= 70) return 'hot'
+  if (score >= 40) return 'warm'
+  return 'cold'
+}
+
+/**
+ * Pontuação de 0 a 100 do lead: média ponderada das notas de cada fator com os
+ * pesos da empresa. Fatores sem informação entram com nota neutra.
+ */
+export function calculateLeadScore(
+  lead: ScoringLead,
+  company: ScoringCompany,
+  config: LeadScoringConfig = parseLeadScoringConfig(null),
+  now: Date = new Date()
+): LeadScore {
+  const results: Record<LeadScoreFactor, Pick<LeadScoreFactorResult, 'value' | 'detail'>> = {
+    budget: scoreBudget(lead, config),
+    projectType: scoreProjectType(lead, config),
+    distance: scoreDistance(lead, company, config),
+    engagement: scoreEngagement(lead),
+    responsiveness: scoreResponsiveness(lead, config, now)
+  }
+
+  const totalWeight = Object.values(config.weights).reduce((sum, weight) => sum + weight, 0)
+
+  const factors = (Object.keys(results) as LeadScoreFactor[]).map(factor => {
+    const weight = config.weights[factor]
+    const { value, detail } = results[factor]
+    return {
+      factor,
+      label: LEAD_SCORE_FACTOR_LABELS[factor],
+      value: Math.round(value * 100) / 100,
+      weight,
+      points: totalWeight > 0 ? Math.round(value * weight / totalWeight * 1000) / 10 : 0,
+      detail
+    }
+  })
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0))
+  const grade = getLeadScoreGrade(score)
+
+  return {
+    score,
+    grade,
+    label: LEAD_SCORE_GRADE_LABELS[grade],
+    factors
+  }
+}
@@ -0,0 +1,83 @@
+export type LeadStage = 'NEW' | 'CONTACTED' | 'PROPOSAL_SENT' | 'NEGOTIATING' | 'CLOSED' | 'LOST'
+
+// Ordem das colunas do funil
+export const LEAD_STAGES: LeadStage[] = ['NEW', 'CONTACTED', 'PROPOSAL_SENT', 'NEGOTIATING', 'CLOSED', 'LOST']
+
+export const OPEN_LEAD_STAGES: LeadStage[] = ['NEW', 'CONTACTED', 'PROPOSAL_SENT', 'NEGOTIATING']
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  NEW: 'Novo',
+  CONTACTED: 'Contatado',
+  PROPOSAL_SENT: 'Proposta Enviada',
+  NEGOTIATING: 'Negociando',
+  CLOSED: 'Fechado',
+  LOST: 'Perdido'
+}
+
+// Prazo máximo em cada etapa, em minutos. Etapas finais não têm SLA.
+export const LEAD_STAGE_SLA_MINUTES: Partial<Record<LeadStage, number>> = {
+  NEW: 2 * 60, // Primeiro contato em até 2h
+  CONTACTED: 2 * 24 * 60, // Proposta em até 2 dias
+  PROPOSAL_SENT: 5 * 24 * 60, // Retorno sobre a proposta em até 5 dias
+  NEGOTIATING: 10 * 24 * 60 // Fechamento em até 10 dias
+}
+
+// A partir desta fração do prazo o lead aparece como "atenção"
+export const SLA_WARNING_THRESHOLD = 0.75
+
+export type LeadSlaState = 'none' | 'ok' | 'warning' | 'overdue'
+
+export interface LeadSlaStatus {
+  state: LeadSlaState
+  limitMinutes: number | null
+  elapsedMinutes: number
+  remainingMinutes: number | null // Negativo quando estourado
+  dueAt: Date | null
+}
+
+const MINUTE_MS = 60 * 1000
+
+export function getLeadSlaStatus(
+  lead: { status: string; stageChangedAt: Date | string },
+  now: Date = new Date()
+): LeadSlaStatus {
+  const enteredAt = new Date(lead.stageChangedAt)
+  const elapsedMinutes = Math.max(0, Math.floor((now.getTime() - enteredAt.getTime()) / MINUTE_MS))
+  const limitMinutes = LEAD_STAGE_SLA_MINUTES[lead.status as LeadStage] ?? null
+
+  if (limitMinutes === null) {
+    return { state: 'none', limitMinutes, elapsedMinutes, remainingMinutes: null, dueAt: null }
+  }
+
+  const state: LeadSlaState = elapsedMinutes > limitMinutes
+    ? 'overdue'
+    : elapsedMinutes >= limitMinutes * SLA_WARNING_THRESHOLD
+      ? 'warning'
+      : 'ok'
+
+  return {
+    state,
+    limitMinutes,
+    elapsedMinutes,
+    remainingMinutes: limitMinutes - elapsedMinutes,
+    dueAt: new Date(enteredAt.getTime() + limitMinutes * MINUTE_MS)
+  }
+}
+
+/**
+ * Duração legível em português: "45 min", "3h 20min", "2d 4h".
+ */
+export function formatStageDuration(minutes: number): string {
+  const total = Math.max(0, Math.round(Math.abs(minutes)))
+  if (total < 60) return `${total} min`
+
+  const hours = Math.floor(total / 60)
+  if (hours < 24) {
+    const rest = total % 60
+    return rest > 0 ? `${hours}h ${rest}min` : `${hours}h`
+  }
+
+  const days = Math.floor(hours / 24)
+  const restHours = hours % 24
+  return restHours > 0 ? `${days}d ${restHours}h` : `${days}d`
+}
@@ -0,0 +1,83 @@
+import { db } from '../db'
+import { createTaskReminderEmailTemplate, sendEmail } from '../email'
+import { createTaskReminderNotification } from '../notifications'
+
+export const DEFAULT_TASK_REMINDER_MINUTES = 30
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Antecedência, em minutos, do lembrete de tarefa (LEAD_TASK_REMINDER_MINUTES).
+ */
+export function getTaskReminderMinutes(): number {
+  const minutes = parseInt(process.env.LEAD_TASK_REMINDER_MINUTES || '')
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_TASK_REMINDER_MINUTES
+}
+
+/**
+ * Envia um único lembrete por tarefa pendente que vence dentro de `reminderMinutes`
+ * (ou que já venceu sem lembrete, como tarefas criadas com prazo no passado).
+ * A empresa é avisada nas notificações e o responsável, quando houver, por email:
+ * integrantes da equipe não são vinculados a contas da plataforma.
+ */
+export async function sendDueTaskReminders(
+  now: Date = new Date(),
+  reminderMinutes: number = getTaskReminderMinutes()
+): Promise<number> {
+  const dueTasks = await db.leadTask.findMany({
+    where: {
+      completedAt: null,
+      reminderSentAt: null,
+      dueAt: { lte: new Date(now.getTime() + reminderMinutes * MINUTE_MS) }
+    },
+    select: {
+      id: true,
+      title: true,
+      dueAt: true,
+      assignee: { select: { name: true, email: true } },
+      lead: {
+        select: {
+          id: true,
+          name: true,
+          company: { select: { userId: true, name: true, email: true } }
+        }
+      }
+    }
+  })
+
+  let reminded = 0
+  for (const task of dueTasks) {
+    try {
+      // A condição evita lembrete duplicado com dois servidores rodando o job
+      const { count } = await db.leadTask.updateMany({
+        where: { id: task.id, reminderSentAt: null, completedAt: null },
+        data: { reminderSentAt: now }
+      })
+      if (count === 0) continue
+
+      if (task.assignee) {
+        await sendEmail({
+          to: task.assignee.email,
+          subject: `${task.dueAt < now ? 'Tarefa atrasada' : 'Tarefa perto do prazo'}: ${task.title}`,
+          html: createTaskReminderEmailTemplate({
+            assigneeName: task.assignee.name,
+            companyName: task.lead.company.name,
+            taskTitle: task.title,
+            leadName: task.lead.name,
+            dueAt: task.dueAt,
+            overdue: task.dueAt < now
+          }),
+          from: `${task.lead.company.name} <noreply@solarconnect.com.br>`,
+          replyTo: task.lead.company.email || undefined
+        })
+      }
+
+      await createTaskReminderNotification(task.lead.company.userId, task, task.lead, now)
+      reminded++
+    } catch (error) {
+      console.error('Lead task reminder error:', error)
+    }
+  }
+
+  return reminded
+}
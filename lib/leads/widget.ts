@@ -0,0 +1,176 @@
+// Opções do formulário de projeto, iguais às do formulário de solicitação da plataforma
+const WIDGET_PROJECT_TYPES = ['Residencial', 'Comercial', 'Industrial', 'Rural', 'Público']
+
+const WIDGET_STYLES = `
+.sc-lead-widget{font-family:system-ui,-apple-system,"Segoe UI",Roboto,sans-serif;max-width:480px;color:#111827}
+.sc-lead-widget h3{font-size:1.25rem;font-weight:600;margin:0 0 12px}
+.sc-lead-widget label{display:block;font-size:.875rem;font-weight:500;margin:10px 0 4px}
+.sc-lead-widget input,.sc-lead-widget select,.sc-lead-widget textarea{box-sizing:border-box;width:100%;padding:8px 10px;border:1px solid #d1d5db;border-radius:6px;font:inherit;font-size:.875rem}
+.sc-lead-widget textarea{min-height:96px;resize:vertical}
+.sc-lead-widget button{margin-top:14px;width:100%;padding:10px;border:0;border-radius:6px;background:var(--sc-lead-widget-color,#f59e0b);color:#fff;font:inherit;font-weight:600;cursor:pointer}
+.sc-lead-widget button:disabled{opacity:.6;cursor:default}
+.sc-lead-widget .sc-lead-widget-message{margin-top:12px;font-size:.875rem}
+.sc-lead-widget .sc-lead-widget-error{color:#dc2626}
+.sc-lead-widget .sc-lead-widget-success{color:#16a34a}
+.sc-lead-widget .sc-lead-widget-hp{position:absolute;left:-9999px}
+`
+
+/**
+ * Script do formulário incorporável. A empresa inclui a tag
+ * `<script src=".../api/public/v1/widget.js" data-api-key="sc_live_...">` no próprio
+ * site; o formulário é montado no elemento de `data-target` (ou logo após o script)
+ * e envia as solicitações para a API pública com a chave informada.
+ */
+export function renderLeadWidgetScript(apiUrl: string): string {
+  return `(function () {
+  'use strict';
+  var script = document.currentScript;
+  if (!script) return;
+
+  var apiUrl = ${JSON.stringify(apiUrl)};
+  var projectTypes = ${JSON.stringify(WIDGET_PROJECT_TYPES)};
+  var apiKey = script.getAttribute('data-api-key');
+  var source = script.getAttribute('data-source') || 'widget';
+  var title = script.getAttribute('data-title') || 'Solicite um orçamento';
+  var buttonText = script.getAttribute('data-button') || 'Enviar solicitação';
+  var color = script.getAttribute('data-color');
+
+  if (!apiKey) {
+    console.error('[SolarConnect] Informe a chave em data-api-key');
+    return;
+  }
+
+  if (!document.getElementById('sc-lead-widget-styles')) {
+    var style = document.createElement('style');
+    style.id = 'sc-lead-widget-styles';
+    style.textContent = ${JSON.stringify(WIDGET_STYLES)};
+    document.head.appendChild(style);
+  }
+
+  function field(form, name, label, type, required) {
+    var wrapper = document.createElement('div');
+    var labelEl = document.createElement('label');
+    var input = type === 'textarea' ? document.createElement('textarea') : document.createElement('input');
+    var id = 'sc-lead-' + name + '-' + Math.random().toString(36).slice(2, 8);
+    labelEl.htmlFor = id;
+    labelEl.textContent = label + (required ? ' *' : '');
+    input.id = id;
+    input.name = name;
+    if (type !== 'textarea') input.type = type;
+    input.required = required;
+    wrapper.appendChild(labelEl);
+    wrapper.appendChild(input);
+    form.appendChild(wrapper);
+  }
+
+  function render(container) {
+    var form = document.createElement('form');
+    form.className = 'sc-lead-widget';
+    if (color) form.style.setProperty('--sc-lead-widget-color', color);
+
+    var heading = document.createElement('h3');
+    heading.textContent = title;
+    form.appendChild(heading);
+
+    field(form, 'name', 'Nome', 'text', true);
+    field(form, 'email', 'Email', 'email', true);
+    field(form, 'phone', 'Telefone com DDD', 'tel', true);
+    field(form, 'location', 'Cidade / UF', 'text', true);
+
+    var typeLabel = document.createElement('label');
+    var typeSelect = document.createElement('select');
+    typeSelect.id = 'sc-lead-projectType-' + Math.random().toString(36).slice(2, 8);
+    typeSelect.name = 'projectType';
+    typeLabel.htmlFor = typeSelect.id;
+    typeLabel.textContent = 'Tipo de projeto';
+    projectTypes.forEach(function (type) {
+      var option = document.createElement('option');
+      option.value = type;
+      option.textContent = type;
+      typeSelect.appendChild(option);
+    });
+    form.appendChild(typeLabel);
+    form.appendChild(typeSelect);
+
+    field(form, 'message', 'Mensagem', 'textarea', false);
+
+    // Campo invisível: robôs que preenchem todos os campos são descartados
+    var honeypot = document.createElement('input');
+    honeypot.name = 'company';
+    honeypot.tabIndex = -1;
+    honeypot.autocomplete = 'off';
+    honeypot.className = 'sc-lead-widget-hp';
+    honeypot.setAttribute('aria-hidden', 'true');
+    form.appendChild(honeypot);
+
+    var button = document.createElement('button');
+    button.type = 'submit';
+    button.textContent = buttonText;
+    form.appendChild(button);
+
+    var feedback = document.createElement('div');
+    feedback.className = 'sc-lead-widget-message';
+    feedback.setAttribute('role', 'status');
+    form.appendChild(feedback);
+
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      if (honeypot.value) return;
+
+      var data = {};
+      ['name', 'email', 'phone', 'location', 'projectType', 'message'].forEach(function (name) {
+        var value = form.elements[name].value.trim();
+        if (value) data[name] = value;
+      });
+      data.source = source;
+      data.pageUrl = window.location.href;
+
+      button.disabled = true;
+      feedback.className = 'sc-lead-widget-message';
+      feedback.textContent = 'Enviando...';
+
+      fetch(apiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+        body: JSON.stringify(data)
+      })
+        .then(function (response) {
+          return response.json().catch(function () { return {}; }).then(function (body) {
+            if (!response.ok) {
+              var detail = body.errors && body.errors.length ? body.errors[0].message : body.message;
+              throw new Error(detail || 'Não foi possível enviar sua solicitação');
+            }
+            form.reset();
+            feedback.className = 'sc-lead-widget-message sc-lead-widget-success';
+            feedback.textContent = 'Solicitação enviada! Em breve entraremos em contato.';
+          });
+        })
+        .catch(function (error) {
+          feedback.className = 'sc-lead-widget-message sc-lead-widget-error';
+          feedback.textContent = error.message || 'Não foi possível enviar sua solicitação';
+        })
+        .then(function () {
+          button.disabled = false;
+        });
+    });
+
+    container.appendChild(form);
+  }
+
+  var target = script.getAttribute('data-target');
+  if (target) {
+    var mount = function () {
+      var container = document.querySelector(target);
+      if (container) render(container);
+      else console.error('[SolarConnect] Elemento ' + target + ' não encontrado');
+    };
+    if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', mount);
+    else mount();
+  } else {
+    var inline = document.createElement('div');
+    script.parentNode.insertBefore(inline, script.nextSibling);
+    render(inline);
+  }
+})();
+`
+}
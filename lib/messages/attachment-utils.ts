@@ -0,0 +1,15 @@
+// Regras dos anexos do chat usadas também no navegador (sem acesso ao banco)
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+// Tipos aceitos no seletor de arquivos; os limites de tamanho ficam na rota do UploadThing
+export const MESSAGE_ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf'
+
+export function isImageAttachment(mimeType: string): boolean {
+  return mimeType.startsWith('image/')
+}
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1).replace('.', ',')} MB`
+}
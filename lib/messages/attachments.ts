@@ -0,0 +1,108 @@
+import { Prisma } from '@prisma/client'
+import { UTApi } from 'uploadthing/server'
+import { db } from '../db'
+import { MAX_ATTACHMENTS_PER_MESSAGE } from './attachment-utils'
+
+// Validade dos links assinados de download, em segundos
+const SIGNED_URL_EXPIRES_IN = 5 * 60
+
+// Campos do anexo devolvidos com as mensagens; as chaves dos arquivos não saem da API
+export const messageAttachmentSelect = {
+  id: true,
+  name: true,
+  mimeType: true,
+  size: true
+} satisfies Prisma.MessageAttachmentSelect
+
+export class MessageAttachmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MessageAttachmentError'
+  }
+}
+
+let utapi: UTApi | null = null
+
+function getUploadThingApi() {
+  if (!utapi) utapi = new UTApi()
+  return utapi
+}
+
+/**
+ * Confere se os anexos podem ir na mensagem: enviados pelo próprio remetente,
+ * para a mesma conversa e ainda não usados em outra mensagem.
+ */
+export async function assertPendingAttachments(
+  conversationId: string,
+  uploaderId: string,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    throw new MessageAttachmentError(`Envie no máximo ${MAX_ATTACHMENTS_PER_MESSAGE} anexos por mensagem`)
+  }
+
+  const count = await db.messageAttachment.count({
+    where: {
+      id: { in: attachmentIds },
+      conversationId,
+      uploaderId,
+      messageId: null
+    }
+  })
+
+  if (count !== new Set(attachmentIds).size) {
+    throw new MessageAttachmentError('Anexo inválido ou já enviado')
+  }
+}
+
+/**
+ * Link assinado e temporário para o arquivo (ou a miniatura), só para quem
+ * participa da conversa. Anexos ainda não enviados só são visíveis para quem
+ * os carregou.
+ */
+export async function getAttachmentDownloadUrl(
+  attachmentId: string,
+  userId: string,
+  thumbnail: boolean = false
+): Promise<string | null> {
+  const attachment = await db.messageAttachment.findFirst({
+    where: {
+      id: attachmentId,
+      conversation: { participants: { some: { id: userId } } },
+      OR: [
+        { messageId: { not: null } },
+        { uploaderId: userId }
+      ]
+    },
+    select: { fileKey: true, thumbnailKey: true }
+  })
+
+  if (!attachment) return null
+
+  const key = thumbnail && attachment.thumbnailKey ? attachment.thumbnailKey : attachment.fileKey
+  const { ufsUrl } = await getUploadThingApi().generateSignedURL(key, { expiresIn: SIGNED_URL_EXPIRES_IN })
+
+  return ufsUrl
+}
+
+// Remove um anexo carregado e ainda não enviado (o usuário desistiu dele)
+export async function deletePendingAttachment(attachmentId: string, userId: string): Promise<boolean> {
+  const attachment = await db.messageAttachment.findFirst({
+    where: { id: attachmentId, uploaderId: userId, messageId: null },
+    select: { id: true, fileKey: true, thumbnailKey: true }
+  })
+
+  if (!attachment) return false
+
+  await db.messageAttachment.delete({ where: { id: attachment.id } })
+
+  try {
+    await getUploadThingApi().deleteFiles(
+      attachment.thumbnailKey ? [attachment.fileKey, attachment.thumbnailKey] : attachment.fileKey
+    )
+  } catch (error) {
+    console.error('Error deleting attachment files:', error)
+  }
+
+  return true
+}
@@ -0,0 +1,199 @@
+import { Prisma } from '@prisma/client'
+import { db } from '../db'
+import { isValidAccessToken } from '../access-tokens'
+
+// Assunto da conversa a ser iniciada; o token do link do orçamento identifica o cliente sem conta vinculada
+export type ConversationContextInput =
+  | { productId: string }
+  | { quoteId: string; token?: string }
+  | { leadId: string }
+
+interface ConversationStarter {
+  id: string
+  email: string
+}
+
+interface ConversationTarget {
+  otherUserId: string
+  leadId?: string | null
+  quoteId?: string
+  productId?: string
+}
+
+export class ConversationStartError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConversationStartError'
+  }
+}
+
+// Dados exibidos no cartão de contexto da conversa
+export const conversationContextInclude = {
+  lead: {
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      projectType: true,
+      company: { select: { userId: true } }
+    }
+  },
+  quote: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      totalValue: true,
+      validUntil: true
+    }
+  },
+  product: {
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      images: true,
+      company: { select: { name: true, slug: true } }
+    }
+  }
+} satisfies Prisma.ConversationInclude
+
+type ConversationWithContext = Prisma.ConversationGetPayload<{ include: typeof conversationContextInclude }>
+
+/**
+ * O lead é um registro interno da empresa: só aparece para o dono da empresa,
+ * nunca para o cliente do outro lado da conversa.
+ */
+export function withVisibleContext<T extends Pick<ConversationWithContext, 'lead'>>(conversation: T, viewerId: string) {
+  const { lead, ...rest } = conversation
+
+  return {
+    ...rest,
+    lead: lead && lead.company.userId === viewerId
+      ? { id: lead.id, name: lead.name, status: lead.status, projectType: lead.projectType }
+      : null
+  }
+}
+
+async function findUserByEmail(email: string) {
+  return db.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    select: { id: true }
+  })
+}
+
+async function resolveConversationTarget(
+  starter: ConversationStarter,
+  input: ConversationContextInput
+): Promise<ConversationTarget | null> {
+  if ('productId' in input) {
+    const product = await db.product.findFirst({
+      where: { id: input.productId, status: 'APPROVED' },
+      select: { id: true, company: { select: { userId: true } } }
+    })
+
+    return product ? { otherUserId: product.company.userId, productId: product.id } : null
+  }
+
+  if ('quoteId' in input) {
+    const quote = await db.quote.findUnique({
+      where: { id: input.quoteId },
+      select: {
+        id: true,
+        userId: true,
+        leadId: true,
+        acceptanceToken: true,
+        company: { select: { userId: true } },
+        lead: { select: { email: true } }
+      }
+    })
+
+    if (!quote) return null
+
+    // A empresa fala com o cliente do orçamento, se ele tiver conta
+    if (quote.company.userId === starter.id) {
+      const customerId = quote.userId ?? (quote.lead && (await findUserByEmail(quote.lead.email))?.id)
+
+      if (!customerId) {
+        throw new ConversationStartError('O cliente ainda não tem conta na plataforma; entre em contato por telefone ou email')
+      }
+
+      return { otherUserId: customerId, quoteId: quote.id, leadId: quote.leadId }
+    }
+
+    const isRecipient =
+      quote.userId === starter.id ||
+      (!!quote.lead && quote.lead.email.toLowerCase() === starter.email.toLowerCase()) ||
+      (!!input.token && isValidAccessToken(quote.acceptanceToken, input.token))
+
+    return isRecipient ? { otherUserId: quote.company.userId, quoteId: quote.id, leadId: quote.leadId } : null
+  }
+
+  const lead = await db.lead.findFirst({
+    where: { id: input.leadId, company: { userId: starter.id } },
+    select: { id: true, email: true }
+  })
+
+  if (!lead) return null
+
+  const customer = await findUserByEmail(lead.email)
+
+  if (!customer) {
+    throw new ConversationStartError('O cliente ainda não tem conta na plataforma; entre em contato por telefone ou email')
+  }
+
+  return { otherUserId: customer.id, leadId: lead.id }
+}
+
+/**
+ * Abre a conversa sobre um produto, orçamento ou lead, reaproveitando a conversa
+ * que os dois participantes já têm sobre o mesmo assunto. Retorna null quando o
+ * assunto não existe ou o usuário não tem acesso a ele.
+ */
+export async function startConversation(starter: ConversationStarter, input: ConversationContextInput) {
+  const target = await resolveConversationTarget(starter, input)
+
+  if (!target) return null
+
+  if (target.otherUserId === starter.id) {
+    throw new ConversationStartError('Você não pode iniciar uma conversa com você mesmo')
+  }
+
+  const subject = target.quoteId
+    ? { quoteId: target.quoteId }
+    : target.productId
+      ? { productId: target.productId }
+      : { leadId: target.leadId }
+
+  const existing = await db.conversation.findFirst({
+    where: {
+      AND: [
+        { participants: { some: { id: starter.id } } },
+        { participants: { some: { id: target.otherUserId } } }
+      ],
+      ...subject
+    },
+    select: { id: true }
+  })
+
+  if (existing) {
+    return { conversationId: existing.id, created: false }
+  }
+
+  const conversation = await db.conversation.create({
+    data: {
+      participants: {
+        connect: [
+          { id: starter.id },
+          { id: target.otherUserId }
+        ]
+      },
+      leadId: target.leadId ?? null,
+      quoteId: target.quoteId ?? null,
+      productId: target.productId ?? null
+    },
+    select: { id: true }
+  })
+
+  return { conversationId: conversation.id, created: true }
+}
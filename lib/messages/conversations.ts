@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client'
+import { db } from '../db'
+import { publishConversationEvent } from './realtime'
+import { messageAttachmentSelect } from './attachments'
+
+// Dados do remetente e do destinatário devolvidos com cada mensagem
+export const conversationMessageInclude = {
+  sender: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    }
+  },
+  receiver: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    }
+  },
+  attachments: {
+    select: messageAttachmentSelect,
+    orderBy: { createdAt: 'asc' }
+  }
+} satisfies Prisma.MessageInclude
+
+export type ConversationMessage = Prisma.MessageGetPayload<{ include: typeof conversationMessageInclude }>
+
+export async function isConversationParticipant(conversationId: string, userId: string): Promise<boolean> {
+  const conversation = await db.conversation.findFirst({
+    where: {
+      id: conversationId,
+      participants: { some: { id: userId } }
+    },
+    select: { id: true }
+  })
+
+  return conversation !== null
+}
+
+/**
+ * Marca como lidas as mensagens recebidas pelo usuário na conversa e avisa o
+ * remetente pelo canal da conversa (confirmação de leitura).
+ */
+export async function markConversationAsRead(conversationId: string, userId: string, now: Date = new Date()) {
+  const unread = await db.message.findMany({
+    where: { conversationId, receiverId: userId, read: false },
+    select: { id: true }
+  })
+
+  if (unread.length === 0) return []
+
+  const messageIds = unread.map(message => message.id)
+
+  await db.message.updateMany({
+    where: { id: { in: messageIds }, read: false },
+    data: { read: true, readAt: now }
+  })
+
+  await publishConversationEvent(conversationId, {
+    type: 'read',
+    readerId: userId,
+    messageIds,
+    readAt: now.toISOString()
+  })
+
+  return messageIds
+}
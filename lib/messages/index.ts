@@ -0,0 +1,5 @@
+export * from './conversations'
+export * from './realtime'
+export * from './attachment-utils'
+export * from './attachments'
+export * from './context'
@@ -0,0 +1,149 @@
+import { EventEmitter } from 'events'
+import { redis } from '../redis'
+import type { ConversationMessage } from './conversations'
+
+// Eventos entregues pelo canal de uma conversa
+export type ConversationEvent =
+  | { type: 'message'; message: ConversationMessage }
+  | { type: 'typing'; userId: string; name: string | null; isTyping: boolean }
+  | { type: 'read'; readerId: string; messageIds: string[]; readAt: string }
+
+export type ConversationListener = (event: ConversationEvent) => void
+
+type RedisSubscriber = ReturnType<NonNullable<typeof redis>['subscribe']>
+
+const CHANNEL_PREFIX = 'solarconnect:conversation:'
+const HEARTBEAT_INTERVAL_MS = 25 * 1000
+const RECONNECT_DELAY_MS = 3000
+
+// Uma instância por processo, mantida entre recargas do servidor de desenvolvimento
+const globalForRealtime = globalThis as unknown as {
+  conversationEvents: EventEmitter | undefined
+  conversationSubscribers: Map<string, RedisSubscriber> | undefined
+}
+
+const events = globalForRealtime.conversationEvents ?? new EventEmitter()
+events.setMaxListeners(0)
+const subscribers = globalForRealtime.conversationSubscribers ?? new Map<string, RedisSubscriber>()
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForRealtime.conversationEvents = events
+  globalForRealtime.conversationSubscribers = subscribers
+}
+
+function getChannel(conversationId: string) {
+  return `${CHANNEL_PREFIX}${conversationId}`
+}
+
+/**
+ * Publica um evento para todos que acompanham a conversa. Com Redis configurado,
+ * o evento passa pelo pub/sub e chega às demais instâncias; sem Redis (ou se a
+ * publicação falhar), é entregue só aos clientes conectados a esta instância.
+ */
+export async function publishConversationEvent(conversationId: string, event: ConversationEvent): Promise<void> {
+  const channel = getChannel(conversationId)
+
+  if (redis) {
+    try {
+      await redis.publish(channel, JSON.stringify(event))
+      return
+    } catch (error) {
+      console.error('Redis publish error:', error)
+    }
+  }
+
+  events.emit(channel, event)
+}
+
+/**
+ * Acompanha os eventos de uma conversa. A instância mantém uma única assinatura
+ * no Redis por conversa, compartilhada pelos clientes conectados a ela.
+ * Retorna a função que encerra o acompanhamento.
+ */
+export function subscribeToConversation(conversationId: string, listener: ConversationListener): () => void {
+  const channel = getChannel(conversationId)
+  events.on(channel, listener)
+
+  if (redis && !subscribers.has(channel)) {
+    const subscriber = redis.subscribe<string | ConversationEvent>(channel)
+    subscriber.on('message', ({ message }) => {
+      try {
+        events.emit(channel, typeof message === 'string' ? JSON.parse(message) : message)
+      } catch (error) {
+        console.error('Conversation event parse error:', error)
+      }
+    })
+    subscriber.on('error', error => {
+      console.error('Redis subscribe error:', error)
+    })
+    subscribers.set(channel, subscriber)
+  }
+
+  return () => {
+    events.off(channel, listener)
+
+    const subscriber = subscribers.get(channel)
+    if (subscriber && events.listenerCount(channel) === 0) {
+      subscribers.delete(channel)
+      subscriber.unsubscribe().catch(error => {
+        console.error('Redis unsubscribe error:', error)
+      })
+    }
+  }
+}
+
+export function formatServerSentEvent(event: ConversationEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Stream SSE da conversa: repassa os eventos e envia um comentário periódico
+ * para que proxies não encerrem a conexão ociosa. Termina quando o cliente
+ * desconecta (`signal`).
+ */
+export function createConversationStream(conversationId: string, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeToConversation(conversationId, event => send(formatServerSentEvent(event)))
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        signal.removeEventListener('abort', close)
+        cleanup = () => {}
+      }
+
+      const close = () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Stream já encerrado
+        }
+      }
+
+      if (signal.aborted) {
+        close()
+        return
+      }
+
+      signal.addEventListener('abort', close)
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+}
@@ -8,6 +8,15 @@ export type NotificationType =
   | 'PROJECT_REJECTED'
   | 'REVIEW_RECEIVED'
   | 'MESSAGE_RECEIVED'
+  | 'QUOTE_ACCEPTED'
+  | 'QUOTE_REJECTED'
+  | 'QUOTE_EXPIRING'
+  | 'QUOTE_EXPIRED'
+  | 'TASK_DUE'
+  | 'APPOINTMENT_SCHEDULED'
+  | 'APPOINTMENT_CONFIRMED'
+  | 'APPOINTMENT_CANCELLED'
+  | 'INSTALLATION_UPDATE'
   | 'SYSTEM_UPDATE'
 
 interface CreateNotificationParams {
@@ -99,4 +108,120 @@ export async function createReviewNotification(companyUserId: string, reviewData
       customerName: reviewData.customerName
     }
   })
-}
\ No newline at end of file
+}
+
+export async function createQuoteResponseNotification(
+  companyUserId: string,
+  quote: { id: string; title: string },
+  signerName: string,
+  accepted: boolean,
+  reason?: string
+) {
+  return createNotification({
+    userId: companyUserId,
+    title: accepted ? 'Orçamento aceito!' : 'Orçamento recusado',
+    message: accepted
+      ? `${signerName} aceitou o orçamento "${quote.title}"`
+      : `${signerName} recusou o orçamento "${quote.title}". ${reason ? `Motivo: ${reason}` : ''}`,
+    type: accepted ? 'QUOTE_ACCEPTED' : 'QUOTE_REJECTED',
+    data: { quoteId: quote.id, signerName, reason }
+  })
+}
+
+export async function createQuoteExpiryNotification(
+  companyUserId: string,
+  quote: { id: string; title: string; validUntil: Date },
+  expired: boolean
+) {
+  const validUntil = quote.validUntil.toLocaleDateString('pt-BR')
+
+  return createNotification({
+    userId: companyUserId,
+    title: expired ? 'Orçamento expirado' : 'Orçamento perto do vencimento',
+    message: expired
+      ? `O orçamento "${quote.title}" expirou em ${validUntil}. Você pode renová-lo por mais 15 dias no painel`
+      : `O orçamento "${quote.title}" vence em ${validUntil}. Enviamos um lembrete ao cliente`,
+    type: expired ? 'QUOTE_EXPIRED' : 'QUOTE_EXPIRING',
+    data: { quoteId: quote.id, validUntil: quote.validUntil.toISOString() }
+  })
+}
+
+export async function createTaskReminderNotification(
+  userId: string,
+  task: { id: string; title: string; dueAt: Date },
+  lead: { id: string; name: string },
+  now: Date = new Date()
+) {
+  const dueAt = task.dueAt.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+  const overdue = task.dueAt < now
+
+  return createNotification({
+    userId,
+    title: overdue ? 'Tarefa atrasada' : 'Tarefa perto do prazo',
+    message: overdue
+      ? `A tarefa "${task.title}" do lead ${lead.name} venceu em ${dueAt}`
+      : `A tarefa "${task.title}" do lead ${lead.name} vence em ${dueAt}`,
+    type: 'TASK_DUE',
+    data: { taskId: task.id, leadId: lead.id, dueAt: task.dueAt.toISOString() }
+  })
+}
+
+export async function createAppointmentResponseNotification(
+  companyUserId: string,
+  appointment: { id: string; title: string; date: Date },
+  customerName: string,
+  response: 'confirmed' | 'cancelled' | 'rescheduled',
+  details: { previousDate?: Date; reason?: string } = {}
+) {
+  const formatDate = (date: Date) => date.toLocaleString('pt-BR', {
+    timeZone: 'America/Sao_Paulo',
+    dateStyle: 'short',
+    timeStyle: 'short'
+  })
+  const date = formatDate(appointment.date)
+
+  const content = {
+    confirmed: {
+      title: 'Presença confirmada',
+      message: `${customerName} confirmou a visita "${appointment.title}" de ${date}`,
+      type: 'APPOINTMENT_CONFIRMED' as const
+    },
+    cancelled: {
+      title: 'Visita cancelada pelo cliente',
+      message: `${customerName} cancelou a visita "${appointment.title}" de ${date}. ${details.reason ? `Motivo: ${details.reason}` : ''}`,
+      type: 'APPOINTMENT_CANCELLED' as const
+    },
+    rescheduled: {
+      title: 'Visita remarcada',
+      message: `${customerName} remarcou a visita "${appointment.title}"${details.previousDate ? ` de ${formatDate(details.previousDate)}` : ''} para ${date}`,
+      type: 'APPOINTMENT_SCHEDULED' as const
+    }
+  }[response]
+
+  return createNotification({
+    userId: companyUserId,
+    ...content,
+    data: {
+      appointmentId: appointment.id,
+      date: appointment.date.toISOString(),
+      previousDate: details.previousDate?.toISOString(),
+      reason: details.reason
+    }
+  })
+}
+
+export async function createInstallationUpdateNotification(
+  customerUserId: string,
+  project: { id: string; quoteId: string },
+  title: string,
+  message: string,
+  trackerUrl: string
+) {
+  return createNotification({
+    userId: customerUserId,
+    title,
+    message,
+    type: 'INSTALLATION_UPDATE',
+    data: { installationId: project.id, quoteId: project.quoteId, url: trackerUrl }
+  })
+}
@@ -0,0 +1,962 @@
+import { inflateSync } from 'zlib'
+
+/**
+ * Extração de texto de PDFs gerados digitalmente (faturas, boletos, relatórios),
+ * feita localmente como o gerador em lib/pdf.ts: sem OCR nem serviço externo.
+ * Lê objetos e object streams, descomprime FlateDecode, decodifica as fontes pelo
+ * ToUnicode (ou WinAnsi nas fontes simples) e remonta as linhas de cada página
+ * pela posição do texto. PDFs escaneados (só imagem) não têm texto para extrair.
+ */
+
+export class PdfTextError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PdfTextError'
+  }
+}
+
+// Limite do conteúdo descomprimido de cada stream, contra arquivos maliciosos
+const MAX_STREAM_SIZE = 20 * 1024 * 1024
+// Limite da soma de tudo o que é descomprimido no documento (cada etapa de filtro conta)
+const MAX_DOCUMENT_DECODED_SIZE = 50 * 1024 * 1024
+// Profundidade máxima de Form XObjects aninhados
+const MAX_XOBJECT_DEPTH = 5
+// Profundidade máxima de arrays e dicionários aninhados
+const MAX_NESTING_DEPTH = 100
+// Objetos por documento; faturas reais têm algumas centenas
+const MAX_OBJECTS = 50000
+// Tempo máximo de leitura: um arquivo montado para travar o parser não segura o servidor
+const MAX_PARSE_TIME_MS = 5000
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+class PdfString {
+  constructor(readonly bytes: string) {} // bytes em latin1
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>
+type PdfValue = null | boolean | number | PdfName | PdfRef | PdfString | PdfDict | PdfValue[]
+
+interface PdfObject {
+  value: PdfValue
+}
+
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ]
+}
+
+// ---------------------------------------------------------------------------
+// Léxico e parser de objetos PDF
+// ---------------------------------------------------------------------------
+
+const WHITESPACE = '\0\t\n\f\r '
+const DELIMITERS = '()<>[]{}/%'
+
+function isWhitespace(char: string) {
+  return char !== '' && WHITESPACE.indexOf(char) !== -1
+}
+
+function isRegular(char: string) {
+  return char !== '' && !isWhitespace(char) && DELIMITERS.indexOf(char) === -1
+}
+
+type Token =
+  | { type: 'value'; value: PdfValue }
+  | { type: 'keyword'; value: string }
+  | { type: 'open'; value: '[' | '<<' }
+  | { type: 'close'; value: ']' | '>>' }
+
+class Lexer {
+  pos: number
+
+  constructor(readonly src: string, start: number = 0) {
+    this.pos = start
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.src.length) {
+      const char = this.src[this.pos]
+      if (isWhitespace(char)) {
+        this.pos++
+      } else if (char === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  next(): Token | null {
+    let char: string
+    for (;;) {
+      this.skipWhitespace()
+      if (this.pos >= this.src.length) return null
+
+      char = this.src[this.pos]
+      if (isRegular(char) || '/(<[]'.indexOf(char) !== -1 || (char === '>' && this.src[this.pos + 1] === '>')) break
+
+      // Delimitadores soltos ({, }, >) só aparecem em funções PostScript; ignorados.
+      // Laço em vez de recursão: uma sequência longa deles não estoura a pilha
+      this.pos++
+    }
+
+    if (char === '/') {
+      let end = this.pos + 1
+      while (end < this.src.length && isRegular(this.src[end])) end++
+      const raw = this.src.slice(this.pos + 1, end)
+      this.pos = end
+      return { type: 'value', value: new PdfName(raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))) }
+    }
+
+    if (char === '(') return { type: 'value', value: this.readLiteralString() }
+
+    if (char === '<') {
+      if (this.src[this.pos + 1] === '<') {
+        this.pos += 2
+        return { type: 'open', value: '<<' }
+      }
+      const end = this.src.indexOf('>', this.pos)
+      const hex = this.src.slice(this.pos + 1, end === -1 ? this.src.length : end).replace(/[^0-9a-fA-F]/g, '')
+      this.pos = end === -1 ? this.src.length : end + 1
+      const padded = hex.length % 2 ? `${hex}0` : hex
+      let bytes = ''
+      for (let i = 0; i < padded.length; i += 2) bytes += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16))
+      return { type: 'value', value: new PdfString(bytes) }
+    }
+
+    if (char === '>' && this.src[this.pos + 1] === '>') {
+      this.pos += 2
+      return { type: 'close', value: '>>' }
+    }
+
+    if (char === '[') {
+      this.pos++
+      return { type: 'open', value: '[' }
+    }
+
+    if (char === ']') {
+      this.pos++
+      return { type: 'close', value: ']' }
+    }
+
+    let end = this.pos
+    while (end < this.src.length && isRegular(this.src[end])) end++
+    const word = this.src.slice(this.pos, end)
+    this.pos = end
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: 'value', value: parseFloat(word) }
+    if (word === 'true' || word === 'false') return { type: 'value', value: word === 'true' }
+    if (word === 'null') return { type: 'value', value: null }
+
+    return { type: 'keyword', value: word }
+  }
+
+  private readLiteralString(): PdfString {
+    let depth = 1
+    let bytes = ''
+    this.pos++
+
+    while (this.pos < this.src.length && depth > 0) {
+      const char = this.src[this.pos++]
+
+      if (char === '\\') {
+        const escaped = this.src[this.pos++]
+        if (escaped === 'n') bytes += '\n'
+        else if (escaped === 'r') bytes += '\r'
+        else if (escaped === 't') bytes += '\t'
+        else if (escaped === 'b') bytes += '\b'
+        else if (escaped === 'f') bytes += '\f'
+        else if (escaped === '\r') {
+          if (this.src[this.pos] === '\n') this.pos++
+        } else if (escaped === '\n') {
+          // Continuação de linha
+        } else if (escaped >= '0' && escaped <= '7') {
+          let octal = escaped
+          while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') octal += this.src[this.pos++]
+          bytes += String.fromCharCode(parseInt(octal, 8) & 0xff)
+        } else {
+          bytes += escaped
+        }
+      } else if (char === '(') {
+        depth++
+        bytes += char
+      } else if (char === ')') {
+        depth--
+        if (depth > 0) bytes += char
+      } else {
+        bytes += char
+      }
+    }
+
+    return new PdfString(bytes)
+  }
+}
+
+/**
+ * Lê um valor completo (dicionário, array ou escalar). Com `allowRefs`, a sequência
+ * "n g R" vira uma referência; em content streams isso não existe.
+ */
+function readValue(lexer: Lexer, first: Token | null, allowRefs: boolean, depth: number = 0): PdfValue | PdfOperator {
+  if (!first) return null
+  if (depth > MAX_NESTING_DEPTH) throw new PdfTextError('PDF complexo demais para ser lido')
+
+  if (first.type === 'keyword') return new PdfOperator(first.value)
+  if (first.type === 'close') return null
+
+  if (first.type === 'open' && first.value === '[') {
+    const items: PdfValue[] = []
+    let token = lexer.next()
+    while (token && !(token.type === 'close' && token.value === ']')) {
+      const item = readValue(lexer, token, allowRefs, depth + 1)
+      if (item instanceof PdfOperator) {
+        if (allowRefs && item.op === 'R' && items.length >= 2) {
+          items.splice(items.length - 2, 2, new PdfRef(items[items.length - 2] as number))
+        }
+      } else {
+        items.push(item)
+      }
+      token = lexer.next()
+    }
+    return items
+  }
+
+  if (first.type === 'open' && first.value === '<<') {
+    const dict: PdfDict = new Map()
+    let token = lexer.next()
+    while (token && !(token.type === 'close' && token.value === '>>')) {
+      if (token.type === 'value' && token.value instanceof PdfName) {
+        const key = token.value.name
+        let value = readValue(lexer, lexer.next(), allowRefs, depth + 1)
+
+        if (allowRefs && typeof value === 'number') {
+          // Possível referência indireta: "12 0 R"
+          const saved = lexer.pos
+          const generation = lexer.next()
+          const marker = lexer.next()
+          if (generation?.type === 'value' && typeof generation.value === 'number' && marker?.type === 'keyword' && marker.value === 'R') {
+            value = new PdfRef(value)
+          } else {
+            lexer.pos = saved
+          }
+        }
+
+        dict.set(key, value instanceof PdfOperator ? null : value)
+      }
+      token = lexer.next()
+    }
+    return dict
+  }
+
+  return first.value as PdfValue
+}
+
+function parseObjectValue(src: string): PdfValue {
+  const lexer = new Lexer(src)
+  const value = readValue(lexer, lexer.next(), true)
+  if (value instanceof PdfOperator) return null
+
+  // Objeto que é só uma referência ("5 0 R") ou número
+  if (typeof value === 'number') {
+    const generation = lexer.next()
+    const marker = lexer.next()
+    if (generation?.type === 'value' && marker?.type === 'keyword' && marker.value === 'R') return new PdfRef(value)
+  }
+
+  return value
+}
+
+// ---------------------------------------------------------------------------
+// Documento: objetos, streams e árvore de páginas
+// ---------------------------------------------------------------------------
+
+function asDict(value: PdfValue | undefined): PdfDict | null {
+  return value instanceof Map ? value : null
+}
+
+function asName(value: PdfValue | undefined): string | null {
+  return value instanceof PdfName ? value.name : null
+}
+
+function asNumber(value: PdfValue | undefined): number | null {
+  return typeof value === 'number' ? value : null
+}
+
+class PdfReader {
+  private readonly objects = new Map<number, PdfObject>()
+  private readonly rawStreams = new Map<number, { dict: PdfDict; data: string }>()
+  private decodedSize = 0
+  private readonly deadline: number
+  private steps = 0
+
+  constructor(
+    private readonly src: string,
+    private readonly maxDecodedSize: number = MAX_DOCUMENT_DECODED_SIZE,
+    maxParseTime: number = MAX_PARSE_TIME_MS
+  ) {
+    this.deadline = Date.now() + maxParseTime
+    this.readObjects()
+    this.readObjectStreams()
+  }
+
+  // Chamado a cada passo dos laços do parser; só consulta o relógio a cada 1024 passos
+  tick() {
+    if ((++this.steps & 1023) === 0 && Date.now() > this.deadline) {
+      throw new PdfTextError('PDF complexo demais para ser lido')
+    }
+  }
+
+  private readObjects() {
+    // O \b inicial evita recomeçar a busca em cada dígito de uma sequência longa
+    const header = /\b(\d+)\s+\d+\s+obj\b/g
+    let match: RegExpExecArray | null
+    let count = 0
+
+    // Próximo "endobj" a partir de uma posição; a última busca é reaproveitada
+    // para que arquivos sem endobj não sejam varridos de novo a cada objeto
+    let foundEndObj = 0
+    const findEndObj = (from: number) => {
+      if (foundEndObj !== -1 && foundEndObj < from) foundEndObj = this.src.indexOf('endobj', from)
+      return foundEndObj
+    }
+
+    while ((match = header.exec(this.src))) {
+      if (++count > MAX_OBJECTS) throw new PdfTextError('PDF complexo demais para ser lido')
+      this.tick()
+
+      const num = parseInt(match[1], 10)
+      const start = match.index + match[0].length
+      const endObj = findEndObj(start)
+      const end = endObj === -1 ? this.src.length : endObj
+      // O stream é procurado só dentro do próprio objeto, senão cada objeto varreria o resto do arquivo
+      const stream = /(>>)\s*stream(\r\n|\n|\r)/.exec(this.src.slice(start, end))
+
+      if (stream) {
+        const streamStart = start + stream.index
+        const dataStart = streamStart + stream[0].length
+        const endStream = this.src.indexOf('endstream', dataStart)
+        if (endStream === -1) break
+
+        const value = parseObjectValue(this.src.slice(start, streamStart + 2))
+        const dict = asDict(value)
+        const data = this.src.slice(dataStart, endStream).replace(/(\r\n|\n|\r)$/, '')
+        if (dict) this.rawStreams.set(num, { dict, data })
+        this.objects.set(num, { value })
+
+        const after = findEndObj(endStream)
+        header.lastIndex = after === -1 ? endStream : after
+      } else {
+        this.objects.set(num, { value: parseObjectValue(this.src.slice(start, end)) })
+        header.lastIndex = end
+      }
+    }
+  }
+
+  private readObjectStreams() {
+    this.rawStreams.forEach(({ dict }, num) => {
+      if (asName(dict.get('Type')) !== 'ObjStm') return
+
+      const content = this.getStream(num)
+      const count = asNumber(this.resolve(dict.get('N')))
+      const first = asNumber(this.resolve(dict.get('First')))
+      if (content === null || count === null || first === null) return
+
+      const offsets = content.slice(0, first).trim().split(/\s+/).map(Number)
+      for (let i = 0; i < count; i++) {
+        this.tick()
+        const objectNum = offsets[i * 2]
+        const start = first + offsets[i * 2 + 1]
+        const end = i + 1 < count ? first + offsets[(i + 1) * 2 + 1] : content.length
+        // Objetos definidos fora do object stream (atualizações incrementais) prevalecem
+        if (!this.objects.has(objectNum)) {
+          this.objects.set(objectNum, { value: parseObjectValue(content.slice(start, end)) })
+        }
+      }
+    })
+  }
+
+  get isEncrypted(): boolean {
+    return /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(this.src)
+  }
+
+  resolve(value: PdfValue | undefined, depth: number = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < 10) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1)
+    }
+    return value
+  }
+
+  // Conteúdo decodificado de um stream; null para filtros não suportados (imagens).
+  // Nada fica em cache: cada leitura descomprime de novo e conta no limite do documento
+  getStream(num: number): string | null {
+    const raw = this.rawStreams.get(num)
+    if (!raw) return null
+
+    const filterValue = this.resolve(raw.dict.get('Filter'))
+    const filters = (Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [])
+      .map(filter => asName(filter))
+
+    let data = raw.data
+    for (const filter of filters) {
+      if (filter !== 'FlateDecode' && filter !== 'Fl') return null
+
+      const remaining = this.maxDecodedSize - this.decodedSize
+      if (remaining <= 0) throw new PdfTextError('PDF grande demais para ser lido')
+
+      try {
+        data = inflateSync(Buffer.from(data, 'latin1'), {
+          maxOutputLength: Math.min(MAX_STREAM_SIZE, remaining)
+        }).toString('latin1')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' && remaining < MAX_STREAM_SIZE) {
+          throw new PdfTextError('PDF grande demais para ser lido')
+        }
+        return null
+      }
+      this.decodedSize += data.length
+    }
+
+    return data
+  }
+
+  streamOf(value: PdfValue | undefined): string | null {
+    return value instanceof PdfRef ? this.getStream(value.num) : null
+  }
+
+  findByType(type: string): PdfDict[] {
+    const found: PdfDict[] = []
+    this.objects.forEach(object => {
+      const dict = asDict(object.value)
+      if (dict && asName(dict.get('Type')) === type) found.push(dict)
+    })
+    return found
+  }
+
+  // Páginas na ordem da árvore, com os recursos herdados dos nós intermediários
+  getPages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const catalog = this.findByType('Catalog')[0]
+    const root = catalog ? asDict(this.resolve(catalog.get('Pages'))) : null
+
+    if (!root) {
+      return this.findByType('Page').map(page => ({ page, resources: asDict(this.resolve(page.get('Resources'))) }))
+    }
+
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = []
+    const visit = (node: PdfDict, inherited: PdfDict | null, depth: number) => {
+      if (depth > 50) return
+      const resources = asDict(this.resolve(node.get('Resources'))) ?? inherited
+
+      if (asName(node.get('Type')) === 'Page' || !node.has('Kids')) {
+        pages.push({ page: node, resources })
+        return
+      }
+
+      const kids = this.resolve(node.get('Kids'))
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          const child = asDict(this.resolve(kid))
+          if (child) visit(child, resources, depth + 1)
+        }
+      }
+    }
+
+    visit(root, null, 0)
+    return pages
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fontes: códigos → Unicode e larguras
+// ---------------------------------------------------------------------------
+
+// Nomes de glifo usados em /Differences para os caracteres do português
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', period: '.', comma: ',', colon: ':', semicolon: ';', hyphen: '-', slash: '/',
+  parenleft: '(', parenright: ')', percent: '%', dollar: '$', numbersign: '#', ordmasculine: 'º',
+  ordfeminine: 'ª', degree: '°', zero: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+  aacute: 'á', agrave: 'à', acircumflex: 'â', atilde: 'ã', ccedilla: 'ç', eacute: 'é',
+  ecircumflex: 'ê', iacute: 'í', oacute: 'ó', ocircumflex: 'ô', otilde: 'õ', uacute: 'ú',
+  udieresis: 'ü', Aacute: 'Á', Agrave: 'À', Acircumflex: 'Â', Atilde: 'Ã', Ccedilla: 'Ç',
+  Eacute: 'É', Ecircumflex: 'Ê', Iacute: 'Í', Oacute: 'Ó', Ocircumflex: 'Ô', Otilde: 'Õ',
+  Uacute: 'Ú', Udieresis: 'Ü'
+}
+
+// Diferenças entre WinAnsiEncoding e Latin-1 na faixa 0x80–0x9F
+const WIN_ANSI_EXTRAS: Record<number, string> = {
+  0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—'
+}
+
+function glyphNameToUnicode(name: string): string | null {
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name]
+  if (/^[A-Za-z]$/.test(name)) return name
+  const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name)
+  return uni ? String.fromCharCode(parseInt(uni[1], 16)) : null
+}
+
+function decodeUtf16(bytes: string): string {
+  let text = ''
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1))
+  }
+  return text
+}
+
+function bytesToCode(bytes: string): number {
+  let code = 0
+  for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i)
+  return code
+}
+
+interface ToUnicodeMap {
+  codeLengths: number[] // tamanhos (em bytes) dos códigos, do menor para o maior
+  map: Map<number, string>
+}
+
+function parseToUnicode(doc: PdfReader, cmap: string): ToUnicodeMap {
+  const lexer = new Lexer(cmap)
+  const map = new Map<number, string>()
+  const lengths: number[] = []
+  const operands: PdfValue[] = []
+  let section: string | null = null
+
+  let token = lexer.next()
+  while (token) {
+    doc.tick()
+    if (token.type === 'keyword') {
+      if (/^begin(codespacerange|bfchar|bfrange)$/.test(token.value)) {
+        section = token.value.slice(5)
+        operands.length = 0
+      } else if (/^end(codespacerange|bfchar|bfrange)$/.test(token.value)) {
+        section = null
+      }
+    } else {
+      const value = readValue(lexer, token, false)
+      if (section && !(value instanceof PdfOperator)) {
+        operands.push(value)
+
+        if (section === 'codespacerange' && operands.length === 2) {
+          const low = operands[0]
+          if (low instanceof PdfString && lengths.indexOf(low.bytes.length) === -1) lengths.push(low.bytes.length)
+          operands.length = 0
+        } else if (section === 'bfchar' && operands.length === 2) {
+          const [source, target] = operands
+          if (source instanceof PdfString) {
+            const text = target instanceof PdfString ? decodeUtf16(target.bytes) : glyphNameToUnicode(asName(target) ?? '')
+            if (text !== null) map.set(bytesToCode(source.bytes), text)
+          }
+          operands.length = 0
+        } else if (section === 'bfrange' && operands.length === 3) {
+          const [low, high, target] = operands
+          if (low instanceof PdfString && high instanceof PdfString) {
+            const start = bytesToCode(low.bytes)
+            const end = Math.min(bytesToCode(high.bytes), start + 0xffff)
+            for (let code = start; code <= end; code++) {
+              doc.tick()
+              if (Array.isArray(target)) {
+                const item = target[code - start]
+                if (item instanceof PdfString) map.set(code, decodeUtf16(item.bytes))
+              } else if (target instanceof PdfString) {
+                const base = decodeUtf16(target.bytes)
+                const last = base.charCodeAt(base.length - 1) + (code - start)
+                map.set(code, base.slice(0, -1) + String.fromCharCode(last))
+              }
+            }
+          }
+          operands.length = 0
+        }
+      }
+    }
+    token = lexer.next()
+  }
+
+  return { codeLengths: lengths.sort((a, b) => a - b), map }
+}
+
+interface PdfFont {
+  decode(bytes: string): Array<{ text: string; width: number; isSpace: boolean }>
+}
+
+function loadFont(doc: PdfReader, fontDict: PdfDict): PdfFont {
+  const subtype = asName(fontDict.get('Subtype'))
+  const isComposite = subtype === 'Type0'
+  const toUnicodeStream = doc.streamOf(fontDict.get('ToUnicode'))
+  const toUnicode = toUnicodeStream ? parseToUnicode(doc, toUnicodeStream) : null
+
+  // Larguras em milésimos de em
+  const widths = new Map<number, number>()
+  let defaultWidth = isComposite ? 1000 : 500
+
+  if (isComposite) {
+    const descendants = doc.resolve(fontDict.get('DescendantFonts'))
+    const descendant = Array.isArray(descendants) ? asDict(doc.resolve(descendants[0])) : null
+    if (descendant) {
+      defaultWidth = asNumber(doc.resolve(descendant.get('DW'))) ?? 1000
+      const w = doc.resolve(descendant.get('W'))
+      if (Array.isArray(w)) {
+        for (let i = 0; i < w.length;) {
+          const first = asNumber(doc.resolve(w[i]))
+          const next = doc.resolve(w[i + 1])
+          if (first === null) break
+          if (Array.isArray(next)) {
+            next.forEach((width, offset) => widths.set(first + offset, asNumber(doc.resolve(width)) ?? defaultWidth))
+            i += 2
+          } else {
+            const last = asNumber(next) ?? first
+            const width = asNumber(doc.resolve(w[i + 2])) ?? defaultWidth
+            for (let code = first; code <= last && code - first < 0xffff; code++) {
+              doc.tick()
+              widths.set(code, width)
+            }
+            i += 3
+          }
+        }
+      }
+    }
+  } else {
+    const firstChar = asNumber(doc.resolve(fontDict.get('FirstChar'))) ?? 0
+    const list = doc.resolve(fontDict.get('Widths'))
+    if (Array.isArray(list)) {
+      list.forEach((width, index) => widths.set(firstChar + index, asNumber(doc.resolve(width)) ?? defaultWidth))
+    }
+  }
+
+  // Fontes simples sem ToUnicode: WinAnsi/Latin-1 com as /Differences aplicadas
+  const differences = new Map<number, string>()
+  const encoding = asDict(doc.resolve(fontDict.get('Encoding')))
+  const diffList = encoding ? doc.resolve(encoding.get('Differences')) : null
+  if (Array.isArray(diffList)) {
+    let code = 0
+    for (const item of diffList) {
+      if (typeof item === 'number') {
+        code = item
+      } else if (item instanceof PdfName) {
+        const text = glyphNameToUnicode(item.name)
+        if (text !== null) differences.set(code, text)
+        code++
+      }
+    }
+  }
+
+  const codeLengths = toUnicode?.codeLengths.length ? toUnicode.codeLengths : [isComposite ? 2 : 1]
+
+  return {
+    decode(bytes: string) {
+      const glyphs: Array<{ text: string; width: number; isSpace: boolean }> = []
+      let pos = 0
+
+      while (pos < bytes.length) {
+        // Códigos de tamanho variável: usa o menor tamanho que tenha mapeamento
+        let length = codeLengths[codeLengths.length - 1]
+        if (toUnicode && codeLengths.length > 1) {
+          const fitting = codeLengths.filter(size => toUnicode.map.has(bytesToCode(bytes.slice(pos, pos + size))))
+          if (fitting.length) length = fitting[0]
+        }
+
+        const code = bytesToCode(bytes.slice(pos, pos + length))
+        pos += length
+
+        let text = toUnicode?.map.get(code)
+        if (text === undefined) {
+          text = isComposite ? '' : differences.get(code) ?? WIN_ANSI_EXTRAS[code] ?? String.fromCharCode(code)
+        }
+
+        glyphs.push({
+          text,
+          width: (widths.get(code) ?? defaultWidth) / 1000,
+          isSpace: length === 1 && code === 32
+        })
+      }
+
+      return glyphs
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Interpretação dos content streams
+// ---------------------------------------------------------------------------
+
+interface TextSegment {
+  x: number
+  y: number
+  endX: number
+  size: number
+  text: string
+}
+
+interface TextState {
+  font: PdfFont | null
+  fontSize: number
+  charSpacing: number
+  wordSpacing: number
+  horizontalScale: number
+  leading: number
+}
+
+class PageTextCollector {
+  readonly segments: TextSegment[] = []
+  private readonly fontCache = new Map<PdfDict, PdfFont>()
+
+  constructor(private readonly doc: PdfReader) {}
+
+  private getFonts(resources: PdfDict | null): Map<string, PdfFont> {
+    const fonts = new Map<string, PdfFont>()
+    const fontResources = resources ? asDict(this.doc.resolve(resources.get('Font'))) : null
+
+    fontResources?.forEach((value, name) => {
+      const dict = asDict(this.doc.resolve(value))
+      if (!dict) return
+      if (!this.fontCache.has(dict)) this.fontCache.set(dict, loadFont(this.doc, dict))
+      fonts.set(name, this.fontCache.get(dict)!)
+    })
+
+    return fonts
+  }
+
+  run(content: string, resources: PdfDict | null, baseMatrix: Matrix = IDENTITY, depth: number = 0) {
+    const fonts = this.getFonts(resources)
+    const xObjects = resources ? asDict(this.doc.resolve(resources.get('XObject'))) : null
+    const lexer = new Lexer(content)
+    const operands: PdfValue[] = []
+    const stack: Array<{ ctm: Matrix; state: TextState }> = []
+
+    let ctm = baseMatrix
+    let state: TextState = { font: null, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0 }
+    let textMatrix: Matrix = IDENTITY
+    let lineMatrix: Matrix = IDENTITY
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix)
+      textMatrix = lineMatrix
+    }
+
+    const show = (items: PdfValue[]) => {
+      if (!state.font) return
+
+      const start = multiply(textMatrix, ctm)
+      const scale = Math.hypot(start[2], start[3]) || 1
+      let text = ''
+
+      for (const item of items) {
+        if (typeof item === 'number') {
+          // Ajuste do TJ em milésimos de em; recuos grandes separam palavras
+          const adjust = -item / 1000 * state.fontSize * state.horizontalScale
+          if (item < -200 && !text.endsWith(' ')) text += ' '
+          textMatrix = multiply([1, 0, 0, 1, adjust, 0], textMatrix)
+        } else if (item instanceof PdfString) {
+          for (const glyph of state.font.decode(item.bytes)) {
+            text += glyph.text
+            const advance = (glyph.width * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0)) *
+              state.horizontalScale
+            textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix)
+          }
+        }
+      }
+
+      if (text.trim()) {
+        const end = multiply(textMatrix, ctm)
+        this.segments.push({ x: start[4], y: start[5], endX: end[4], size: state.fontSize * scale, text })
+      }
+    }
+
+    let token = lexer.next()
+    while (token) {
+      this.doc.tick()
+      const value = readValue(lexer, token, false)
+
+      if (!(value instanceof PdfOperator)) {
+        operands.push(value)
+        token = lexer.next()
+        continue
+      }
+
+      const numbers = operands.map(operand => (typeof operand === 'number' ? operand : 0))
+
+      switch (value.op) {
+        case 'q':
+          stack.push({ ctm, state: { ...state } })
+          break
+        case 'Q': {
+          const saved = stack.pop()
+          if (saved) {
+            ctm = saved.ctm
+            state = saved.state
+          }
+          break
+        }
+        case 'cm':
+          if (numbers.length === 6) ctm = multiply(numbers as Matrix, ctm)
+          break
+        case 'BT':
+          textMatrix = IDENTITY
+          lineMatrix = IDENTITY
+          break
+        case 'Tf': {
+          const name = asName(operands[0])
+          state.font = (name && fonts.get(name)) || null
+          state.fontSize = numbers[1] ?? 0
+          break
+        }
+        case 'Tc':
+          state.charSpacing = numbers[0] ?? 0
+          break
+        case 'Tw':
+          state.wordSpacing = numbers[0] ?? 0
+          break
+        case 'Tz':
+          state.horizontalScale = (numbers[0] ?? 100) / 100
+          break
+        case 'TL':
+          state.leading = numbers[0] ?? 0
+          break
+        case 'Td':
+          moveLine(numbers[0] ?? 0, numbers[1] ?? 0)
+          break
+        case 'TD':
+          state.leading = -(numbers[1] ?? 0)
+          moveLine(numbers[0] ?? 0, numbers[1] ?? 0)
+          break
+        case 'Tm':
+          if (numbers.length === 6) {
+            lineMatrix = numbers as Matrix
+            textMatrix = lineMatrix
+          }
+          break
+        case 'T*':
+          moveLine(0, -state.leading)
+          break
+        case 'Tj':
+          show([operands[0]])
+          break
+        case "'":
+          moveLine(0, -state.leading)
+          show([operands[0]])
+          break
+        case '"':
+          state.wordSpacing = numbers[0] ?? 0
+          state.charSpacing = numbers[1] ?? 0
+          moveLine(0, -state.leading)
+          show([operands[2]])
+          break
+        case 'TJ':
+          if (Array.isArray(operands[0])) show(operands[0])
+          break
+        case 'Do': {
+          const name = asName(operands[0])
+          const ref = name && xObjects ? xObjects.get(name) : undefined
+          const form = asDict(this.doc.resolve(ref))
+          if (ref instanceof PdfRef && form && asName(form.get('Subtype')) === 'Form' && depth < MAX_XOBJECT_DEPTH) {
+            const formContent = this.doc.getStream(ref.num)
+            const matrix = this.doc.resolve(form.get('Matrix'))
+            const formMatrix = Array.isArray(matrix) && matrix.length === 6 ? (matrix as number[]) as Matrix : IDENTITY
+            if (formContent) {
+              this.run(
+                formContent,
+                asDict(this.doc.resolve(form.get('Resources'))) ?? resources,
+                multiply(formMatrix, ctm),
+                depth + 1
+              )
+            }
+          }
+          break
+        }
+        case 'BI': {
+          // Imagem inline: pula os dados binários até o EI
+          const end = content.indexOf('EI', lexer.pos)
+          const dataEnd = /\sEI(\s|$)/g
+          dataEnd.lastIndex = lexer.pos
+          const found = dataEnd.exec(content)
+          lexer.pos = found ? found.index + found[0].length : end === -1 ? content.length : end + 2
+          break
+        }
+      }
+
+      operands.length = 0
+      token = lexer.next()
+    }
+  }
+
+  // Agrupa os trechos em linhas (de cima para baixo) e ordena cada linha da esquerda para a direita
+  toLines(): string[] {
+    const sorted = [...this.segments].sort((a, b) => b.y - a.y || a.x - b.x)
+    const lines: TextSegment[][] = []
+
+    for (const segment of sorted) {
+      const line = lines[lines.length - 1]
+      const tolerance = Math.max(1, segment.size * 0.3)
+      if (line && Math.abs(line[0].y - segment.y) <= tolerance) {
+        line.push(segment)
+      } else {
+        lines.push([segment])
+      }
+    }
+
+    return lines.map(line => {
+      const ordered = line.sort((a, b) => a.x - b.x)
+      let text = ordered[0].text
+      for (let i = 1; i < ordered.length; i++) {
+        const gap = ordered[i].x - ordered[i - 1].endX
+        const needsSpace = gap > ordered[i].size * 0.2 && !text.endsWith(' ') && !ordered[i].text.startsWith(' ')
+        text += (needsSpace ? ' ' : '') + ordered[i].text
+      }
+      return text.replace(/\s+/g, ' ').trim()
+    }).filter(Boolean)
+  }
+}
+
+/**
+ * Texto do PDF, uma linha por linha visual, com as páginas separadas por linha em
+ * branco. Lança PdfTextError para arquivos que não são PDF ou estão criptografados;
+ * um PDF só de imagens retorna texto vazio.
+ */
+export function extractPdfText(data: Buffer, maxDecodedSize: number = MAX_DOCUMENT_DECODED_SIZE): string {
+  const src = data.toString('latin1')
+
+  if (!src.startsWith('%PDF-') && src.slice(0, 1024).indexOf('%PDF-') === -1) {
+    throw new PdfTextError('O arquivo não é um PDF válido')
+  }
+
+  const doc = new PdfReader(src, maxDecodedSize)
+
+  if (doc.isEncrypted) {
+    throw new PdfTextError('PDF protegido por senha ou criptografado; baixe a fatura novamente sem proteção')
+  }
+
+  return doc.getPages()
+    .map(({ page, resources }) => {
+      const collector = new PageTextCollector(doc)
+      const contents = page.get('Contents')
+      const resolved = doc.resolve(contents)
+      const refs = Array.isArray(resolved) ? resolved : [contents]
+      const content = refs
+        .map(ref => doc.streamOf(ref as PdfValue))
+        .filter((stream): stream is string => stream !== null)
+        .join('\n')
+
+      collector.run(content, resources)
+      return collector.toLines().join('\n')
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
@@ -0,0 +1,283 @@
+/**
+ * Gerador de PDF mínimo (PDF 1.4) para relatórios renderizados no servidor.
+ * Usa as fontes padrão Helvetica/Helvetica-Bold com WinAnsiEncoding, que cobre
+ * a acentuação do português. As coordenadas partem do canto superior esquerdo, em pontos.
+ */
+
+export type RGB = [number, number, number]
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: RGB
+  align?: 'left' | 'center' | 'right'
+}
+
+export interface ShapeOptions {
+  fill?: RGB
+  stroke?: RGB
+  lineWidth?: number
+}
+
+export interface JpegInfo {
+  width: number
+  height: number
+  components: number
+}
+
+export const A4 = { width: 595.28, height: 841.89 }
+
+// Larguras AFM da Helvetica (1/1000 em) para os caracteres ASCII 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+// Caracteres fora do Latin-1 que aparecem nos relatórios
+const CHARACTER_FALLBACKS: Record<string, string> = {
+  '₂': '2',
+  '–': '-',
+  '—': '-',
+  '•': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+  '−': '-'
+}
+
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map(char => CHARACTER_FALLBACKS[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+function formatColor([r, g, b]: RGB): string {
+  return [r, g, b].map(channel => formatNumber(channel / 255)).join(' ')
+}
+
+const JPEG_COLOR_SPACES: Record<number, string> = {
+  1: '/DeviceGray',
+  3: '/DeviceRGB',
+  // JPEGs CMYK do Photoshop gravam os canais invertidos
+  4: '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]'
+}
+
+/**
+ * Dimensões e canais de cor de um JPEG, lidos do cabeçalho SOF. Retorna null
+ * para arquivos que não são JPEG ou com canais não suportados.
+ */
+export function readJpegInfo(data: Buffer): JpegInfo | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null
+
+  let offset = 2
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return null
+
+    const marker = data[offset + 1]
+    // Bytes de preenchimento e marcadores sem tamanho
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2
+      continue
+    }
+
+    // SOF0 a SOF15, menos DHT (C4), JPG (C8) e DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 10 > data.length) return null
+
+      const components = data[offset + 9]
+      return JPEG_COLOR_SPACES[components]
+        ? { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7), components }
+        : null
+    }
+
+    offset += 2 + data.readUInt16BE(offset + 2)
+  }
+
+  return null
+}
+
+export class PdfDocument {
+  private pages: string[][] = []
+  private images: Array<{ data: Buffer; info: JpegInfo }> = []
+  readonly width: number
+  readonly height: number
+
+  constructor(size: { width: number; height: number } = A4) {
+    this.width = size.width
+    this.height = size.height
+    this.addPage()
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): void {
+    this.pages.push([])
+  }
+
+  /**
+   * Largura do texto em pontos. Letras acentuadas usam a largura da letra base.
+   */
+  measureText(text: string, size = 10): number {
+    const units = Array.from(toWinAnsi(text).normalize('NFD').replace(/[\u0300-\u036f]/g, ''))
+      .reduce((total, char) => {
+        const code = char.charCodeAt(0)
+        return total + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556)
+      }, 0)
+
+    return units * size / 1000
+  }
+
+  /**
+   * Quebra o texto em linhas que cabem na largura informada, respeitando parágrafos.
+   */
+  wrapText(text: string, maxWidth: number, size = 10): string[] {
+    return text.split(/\r?\n/).flatMap(paragraph => {
+      const lines: string[] = []
+      let current = ''
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word
+        if (current && this.measureText(candidate, size) > maxWidth) {
+          lines.push(current)
+          current = word
+        } else {
+          current = candidate
+        }
+      }
+
+      return [...lines, current]
+    })
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, color = [0, 0, 0], align = 'left' } = options
+    const width = this.measureText(text, size)
+    const offset = align === 'right' ? width : align === 'center' ? width / 2 : 0
+
+    this.draw(
+      'BT',
+      `/${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf`,
+      `${formatColor(color)} rg`,
+      `${formatNumber(x - offset)} ${formatNumber(this.height - y - size)} Td`,
+      `(${escapeText(toWinAnsi(text))}) Tj`,
+      'ET'
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions = {}): void {
+    const { fill, stroke, lineWidth = 1 } = options
+    const operator = fill && stroke ? 'B' : fill ? 'f' : 'S'
+
+    this.draw(
+      'q',
+      ...(fill ? [`${formatColor(fill)} rg`] : []),
+      ...(stroke || !fill ? [`${formatColor(stroke ?? [0, 0, 0])} RG`, `${formatNumber(lineWidth)} w`] : []),
+      `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re ${operator}`,
+      'Q'
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: ShapeOptions = {}): void {
+    const { stroke = [0, 0, 0], lineWidth = 1 } = options
+
+    this.draw(
+      'q',
+      `${formatColor(stroke)} RG`,
+      `${formatNumber(lineWidth)} w`,
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`,
+      'Q'
+    )
+  }
+
+  /**
+   * Desenha um JPEG, que vai para o PDF sem recompressão (DCTDecode). Lança erro
+   * para arquivos que não são JPEG.
+   */
+  image(x: number, y: number, width: number, height: number, jpeg: Buffer): void {
+    const info = readJpegInfo(jpeg)
+    if (!info) throw new Error('Imagem não suportada: use JPEG')
+
+    this.images.push({ data: jpeg, info })
+
+    this.draw(
+      'q',
+      `${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(this.height - y - height)} cm`,
+      `/Im${this.images.length} Do`,
+      'Q'
+    )
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '', // Páginas, preenchido abaixo
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    ]
+    const pageIds: number[] = []
+
+    // Os bytes do JPEG passam intactos pela string Latin-1
+    const imageRefs = this.images.map(({ data, info }, index) => {
+      objects.push(
+        `<< /Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} ` +
+        `/ColorSpace ${JPEG_COLOR_SPACES[info.components]} /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\n` +
+        `stream\n${data.toString('latin1')}\nendstream`
+      )
+      return `/Im${index + 1} ${objects.length} 0 R`
+    })
+    const xObjects = imageRefs.length ? ` /XObject << ${imageRefs.join(' ')} >>` : ''
+
+    for (const operations of this.pages) {
+      const content = operations.join('\n')
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+      const contentId = objects.length
+
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects} >> /Contents ${contentId} 0 R >>`
+      )
+      pageIds.push(objects.length)
+    }
+
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+    // O conteúdo é todo Latin-1 (imagens inclusive), então o tamanho da string é o tamanho em bytes
+    let output = '%PDF-1.4\n'
+    const offsets = objects.map((object, index) => {
+      const offset = output.length
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`
+      return offset
+    })
+
+    const xrefOffset = output.length
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+
+  private draw(...operations: string[]): void {
+    this.pages[this.pages.length - 1].push(...operations)
+  }
+}
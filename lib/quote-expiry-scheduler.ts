@@ -0,0 +1,14 @@
+import { processQuoteExpirations } from './quotes/expiry'
+import { ScheduledJob } from './scheduler'
+
+/**
+ * Quote expiry job: reminders for quotes about to expire,
+ * then EXPIRED status for quotes past their validity
+ */
+export const quoteExpiryScheduler = new ScheduledJob({
+  name: 'Quote expiry',
+  run: () => processQuoteExpirations(),
+  defaultIntervalMinutes: 60,
+  enabledEnv: 'ENABLE_QUOTE_EXPIRY_JOB',
+  intervalEnv: 'QUOTE_EXPIRY_INTERVAL_MINUTES'
+})
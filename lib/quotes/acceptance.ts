@@ -0,0 +1,121 @@
+import crypto from 'crypto'
+import type { QuotePaymentConditions } from '../validations'
+import { parsePaymentConditions } from './payment'
+
+// Status em que o cliente ainda pode aceitar ou recusar o orçamento
+export const RESPONDABLE_QUOTE_STATUSES = ['SENT', 'VIEWED']
+
+export interface QuoteSnapshotSource {
+  id: string
+  title: string
+  description?: string | null
+  totalValue: unknown // Decimal do Prisma
+  validUntil: Date
+  terms?: string | null
+  discountPercent?: number | null
+  paymentConditions?: unknown // JSON do Prisma
+  items: Array<{
+    description: string
+    quantity: number
+    unitPrice: unknown
+    totalPrice: unknown
+    category?: string | null
+    type?: string | null
+    power?: number | null
+    warranty?: number | null
+  }>
+  company: { name: string }
+}
+
+export interface QuoteSnapshot {
+  quoteId: string
+  title: string
+  description: string | null
+  companyName: string
+  totalValue: number
+  validUntil: string
+  terms: string | null
+  // Ausentes nos registros gravados antes das condições de pagamento
+  discountPercent?: number | null
+  paymentConditions?: QuotePaymentConditions | null
+  items: Array<{
+    description: string
+    quantity: number
+    unitPrice: number
+    totalPrice: number
+    category: string | null
+    // Ausentes nos registros gravados antes do catálogo
+    type?: string | null
+    power?: number | null
+    warranty?: number | null
+  }>
+}
+
+export function getPublicQuoteUrl(quoteId: string, acceptanceToken?: string | null): string {
+  const url = `${process.env.NEXTAUTH_URL}/orcamento/${quoteId}`
+  return acceptanceToken ? `${url}?token=${acceptanceToken}` : url
+}
+
+/**
+ * Congela o conteúdo do orçamento no momento da assinatura, para que o registro
+ * de aceite continue válido mesmo que o orçamento seja editado depois.
+ */
+export function createQuoteSnapshot(quote: QuoteSnapshotSource): QuoteSnapshot {
+  return {
+    quoteId: quote.id,
+    title: quote.title,
+    description: quote.description ?? null,
+    companyName: quote.company.name,
+    totalValue: Number(quote.totalValue),
+    validUntil: quote.validUntil.toISOString(),
+    terms: quote.terms ?? null,
+    discountPercent: quote.discountPercent ?? null,
+    paymentConditions: parsePaymentConditions(quote.paymentConditions),
+    items: quote.items.map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice),
+      totalPrice: Number(item.totalPrice),
+      category: item.category ?? null,
+      type: item.type ?? null,
+      power: item.power ?? null,
+      warranty: item.warranty ?? null
+    }))
+  }
+}
+
+export function hashQuoteSnapshot(snapshot: QuoteSnapshot): string {
+  return crypto.createHash('sha256').update(JSON.stringify(snapshot)).digest('hex')
+}
+
+/**
+ * Motivo pelo qual o orçamento não aceita mais resposta, ou null se ainda aceita.
+ */
+export function getQuoteResponseBlocker(quote: { status: string; validUntil: Date }): string | null {
+  if (quote.status === 'ACCEPTED' || quote.status === 'REJECTED') {
+    return 'Este orçamento já foi respondido'
+  }
+
+  if (quote.status === 'EXPIRED') {
+    return 'Este orçamento já expirou'
+  }
+
+  if (!RESPONDABLE_QUOTE_STATUSES.includes(quote.status)) {
+    return 'Este orçamento não está disponível para resposta'
+  }
+
+  if (quote.validUntil < new Date()) {
+    return 'Este orçamento já expirou'
+  }
+
+  return null
+}
+
+export function getRequestMetadata(headers: Headers): { ipAddress: string; userAgent: string } {
+  return {
+    ipAddress: headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+      headers.get('x-real-ip') ||
+      'unknown',
+    userAgent: headers.get('user-agent') || 'unknown'
+  }
+}
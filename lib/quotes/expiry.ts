@@ -0,0 +1,149 @@
+import type { QuoteStatus } from '@prisma/client'
+import { db } from '../db'
+import { sendEmail, createQuoteExpiryReminderEmailTemplate } from '../email'
+import { createQuoteExpiryNotification } from '../notifications'
+import { getPublicQuoteUrl, RESPONDABLE_QUOTE_STATUSES } from './acceptance'
+
+// Prazo concedido ao renovar um orçamento vencido
+export const QUOTE_RENEWAL_DAYS = 15
+export const DEFAULT_EXPIRY_REMINDER_DAYS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PENDING_STATUSES = RESPONDABLE_QUOTE_STATUSES as QuoteStatus[]
+
+export interface QuoteExpiryResult {
+  expired: number
+  reminded: number
+}
+
+/**
+ * Antecedência, em dias, do lembrete enviado ao cliente (QUOTE_EXPIRY_REMINDER_DAYS).
+ */
+export function getExpiryReminderDays(): number {
+  const days = parseInt(process.env.QUOTE_EXPIRY_REMINDER_DAYS || '')
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_EXPIRY_REMINDER_DAYS
+}
+
+export function getRenewedValidUntil(now: Date = new Date()): Date {
+  return new Date(now.getTime() + QUOTE_RENEWAL_DAYS * DAY_MS)
+}
+
+/**
+ * Orçamentos aceitos ou recusados não podem ser renovados; os demais podem,
+ * desde que já tenham vencido ou estejam marcados como expirados.
+ */
+export function canRenewQuote(quote: { status: string; validUntil: Date }, now: Date = new Date()): boolean {
+  if (quote.status === 'ACCEPTED' || quote.status === 'REJECTED') return false
+  return quote.status === 'EXPIRED' || quote.validUntil < now
+}
+
+/**
+ * Marca como EXPIRED os orçamentos enviados cuja validade já passou e avisa a empresa.
+ * Rascunhos não expiram: a empresa ajusta a validade antes de enviar.
+ */
+export async function expireOverdueQuotes(now: Date = new Date()): Promise<number> {
+  const overdue = await db.quote.findMany({
+    where: {
+      status: { in: PENDING_STATUSES },
+      validUntil: { lt: now }
+    },
+    select: {
+      id: true,
+      title: true,
+      validUntil: true,
+      company: { select: { userId: true } }
+    }
+  })
+
+  let expired = 0
+  for (const quote of overdue) {
+    try {
+      // A condição de status evita sobrescrever um aceite registrado durante o ciclo
+      const { count } = await db.quote.updateMany({
+        where: { id: quote.id, status: { in: PENDING_STATUSES } },
+        data: { status: 'EXPIRED', expiredAt: now }
+      })
+      if (count === 0) continue
+
+      expired++
+      await createQuoteExpiryNotification(quote.company.userId, quote, true)
+    } catch (error) {
+      console.error('Quote expiry error:', error)
+    }
+  }
+
+  return expired
+}
+
+/**
+ * Envia ao cliente um único lembrete quando faltam `reminderDays` dias ou menos
+ * para o vencimento, e avisa a empresa.
+ */
+export async function sendExpiryReminders(
+  now: Date = new Date(),
+  reminderDays: number = getExpiryReminderDays()
+): Promise<number> {
+  const expiring = await db.quote.findMany({
+    where: {
+      status: { in: PENDING_STATUSES },
+      expiryReminderSentAt: null,
+      validUntil: { gte: now, lte: new Date(now.getTime() + reminderDays * DAY_MS) }
+    },
+    select: {
+      id: true,
+      title: true,
+      totalValue: true,
+      validUntil: true,
+      acceptanceToken: true,
+      lead: { select: { name: true, email: true } },
+      user: { select: { name: true, email: true } },
+      company: { select: { name: true, email: true, userId: true } }
+    }
+  })
+
+  let reminded = 0
+  for (const quote of expiring) {
+    try {
+      const { count } = await db.quote.updateMany({
+        where: { id: quote.id, expiryReminderSentAt: null },
+        data: { expiryReminderSentAt: now }
+      })
+      if (count === 0) continue
+
+      const customer = quote.lead ?? quote.user
+      if (customer?.email) {
+        await sendEmail({
+          to: customer.email,
+          subject: `Seu orçamento de ${quote.company.name} vence em breve - ${quote.title}`,
+          html: createQuoteExpiryReminderEmailTemplate({
+            customerName: customer.name || 'cliente',
+            companyName: quote.company.name,
+            quoteTitle: quote.title,
+            totalValue: Number(quote.totalValue),
+            validUntil: quote.validUntil.toISOString(),
+            quoteUrl: getPublicQuoteUrl(quote.id, quote.acceptanceToken)
+          }),
+          from: `${quote.company.name} <noreply@solarconnect.com.br>`,
+          replyTo: quote.company.email || undefined
+        })
+      }
+
+      reminded++
+      await createQuoteExpiryNotification(quote.company.userId, quote, false)
+    } catch (error) {
+      console.error('Quote expiry reminder error:', error)
+    }
+  }
+
+  return reminded
+}
+
+/**
+ * Ciclo completo do job de vencimento: lembretes primeiro, depois a expiração.
+ */
+export async function processQuoteExpirations(now: Date = new Date()): Promise<QuoteExpiryResult> {
+  const reminded = await sendExpiryReminders(now)
+  const expired = await expireOverdueQuotes(now)
+
+  return { expired, reminded }
+}
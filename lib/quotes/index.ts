@@ -0,0 +1,7 @@
+export * from './acceptance'
+export * from './pdf'
+export * from './revisions'
+export * from './expiry'
+export * from './pricing'
+export * from './templates'
+export * from './payment'
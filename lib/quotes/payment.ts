@@ -0,0 +1,224 @@
+import { quotePaymentConditionsSchema, type QuotePaymentConditions } from '../validations'
+import {
+  calculatePriceInstallment,
+  roundCurrency,
+  simulateInstallments,
+  type InstallmentOption,
+  type QuoteItemType
+} from './pricing'
+
+export interface QuoteTaxLine {
+  tax: 'ICMS' | 'ISS'
+  label: string
+  base: number
+  rate: number
+  value: number
+}
+
+export interface FinancingSimulation {
+  institution: string | null
+  downPayment: number
+  financedAmount: number
+  monthlyInterestRate: number
+  annualInterestRate: number
+  termMonths: number
+  installment: number
+  totalPaid: number
+  totalInterest: number
+}
+
+export interface BillComparison {
+  currentMonthlyBill: number
+  estimatedBillWithSolar: number | null
+  monthlyInstallment: number
+  monthlyOutlay: number // Parcela + conta estimada com o sistema
+  difference: number // Positivo: o cliente gasta menos por mês que hoje
+}
+
+export interface QuotePaymentSummary {
+  totalValue: number
+  equipmentValue: number
+  serviceValue: number
+  taxes: QuoteTaxLine[]
+  totalTaxes: number
+  cashDiscountPercent: number
+  cashDiscountValue: number
+  cashPrice: number
+  cardInstallments: InstallmentOption[]
+  financing: FinancingSimulation | null
+  billComparison: BillComparison | null
+}
+
+export interface PaymentSummaryOptions {
+  currentMonthlyBill?: number | null // Conta de luz atual (R$/mês)
+  estimatedMonthlySavings?: number | null // Economia mensal estimada pela simulação
+}
+
+/**
+ * Lê as condições gravadas no orçamento (JSON). Retorna null para orçamentos
+ * sem condições estruturadas ou com um formato que não é mais aceito.
+ */
+export function parsePaymentConditions(value: unknown): QuotePaymentConditions | null {
+  if (!value) return null
+
+  const parsed = quotePaymentConditionsSchema.safeParse(value)
+  return parsed.success ? parsed.data : null
+}
+
+/**
+ * Conta de luz e economia estimada da simulação da calculadora anexada ao lead.
+ */
+export function getLeadBillReference(simulation: unknown): PaymentSummaryOptions {
+  if (!simulation || typeof simulation !== 'object') return {}
+
+  const { monthlyBill, monthlySavings } = simulation as { monthlyBill?: unknown; monthlySavings?: unknown }
+  return {
+    currentMonthlyBill: typeof monthlyBill === 'number' ? monthlyBill : null,
+    estimatedMonthlySavings: typeof monthlySavings === 'number' ? monthlySavings : null
+  }
+}
+
+/**
+ * Separa o total entre equipamentos e serviços, aplicando o desconto do orçamento
+ * proporcionalmente. O arredondamento fica nos serviços para a soma fechar com o total.
+ */
+export function splitQuoteValue(
+  items: Array<{ type?: QuoteItemType | string | null; totalPrice: number }>,
+  totalValue: number
+): { equipmentValue: number; serviceValue: number } {
+  const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0)
+  if (subtotal === 0) {
+    return { equipmentValue: 0, serviceValue: 0 }
+  }
+
+  const equipmentSubtotal = items
+    .filter(item => item.type !== 'SERVICE')
+    .reduce((sum, item) => sum + item.totalPrice, 0)
+  const equipmentValue = roundCurrency(equipmentSubtotal * totalValue / subtotal)
+
+  return {
+    equipmentValue,
+    serviceValue: roundCurrency(totalValue - equipmentValue)
+  }
+}
+
+export function simulateFinancing(
+  totalValue: number,
+  financing: NonNullable<QuotePaymentConditions['financing']>
+): FinancingSimulation {
+  const downPayment = roundCurrency(totalValue * financing.downPaymentPercent / 100)
+  const financedAmount = roundCurrency(totalValue - downPayment)
+  const installment = roundCurrency(
+    calculatePriceInstallment(financedAmount, financing.monthlyInterestRate, financing.termMonths)
+  )
+  const totalPaid = roundCurrency(downPayment + installment * financing.termMonths)
+
+  return {
+    institution: financing.institution || null,
+    downPayment,
+    financedAmount,
+    monthlyInterestRate: financing.monthlyInterestRate,
+    annualInterestRate: roundCurrency((Math.pow(1 + financing.monthlyInterestRate / 100, 12) - 1) * 100),
+    termMonths: financing.termMonths,
+    installment,
+    totalPaid,
+    totalInterest: roundCurrency(totalPaid - totalValue)
+  }
+}
+
+/**
+ * Monta as condições de pagamento exibidas ao cliente. Os tributos são destacados
+ * sobre o preço final (já inclusos nele): ICMS sobre equipamentos e ISS sobre serviços.
+ * A comparação com a conta de luz usa a parcela do financiamento ou, sem ele, a do
+ * maior parcelamento no cartão.
+ */
+export function calculatePaymentSummary(
+  items: Array<{ type?: QuoteItemType | string | null; totalPrice: number }>,
+  totalValue: number,
+  conditions: QuotePaymentConditions,
+  options: PaymentSummaryOptions = {}
+): QuotePaymentSummary {
+  const { equipmentValue, serviceValue } = splitQuoteValue(items, totalValue)
+
+  const taxes: QuoteTaxLine[] = []
+  if (conditions.icmsRate > 0 && equipmentValue > 0) {
+    taxes.push({
+      tax: 'ICMS',
+      label: 'ICMS sobre equipamentos',
+      base: equipmentValue,
+      rate: conditions.icmsRate,
+      value: roundCurrency(equipmentValue * conditions.icmsRate / 100)
+    })
+  }
+  if (conditions.issRate > 0 && serviceValue > 0) {
+    taxes.push({
+      tax: 'ISS',
+      label: 'ISS sobre serviços',
+      base: serviceValue,
+      rate: conditions.issRate,
+      value: roundCurrency(serviceValue * conditions.issRate / 100)
+    })
+  }
+
+  const cashDiscountValue = roundCurrency(totalValue * conditions.cashDiscountPercent / 100)
+  const cardInstallments = conditions.card
+    ? simulateInstallments(totalValue, conditions.card)
+    : []
+  const financing = conditions.financing
+    ? simulateFinancing(totalValue, conditions.financing)
+    : null
+
+  const currentMonthlyBill = conditions.currentMonthlyBill ?? options.currentMonthlyBill ?? null
+  const monthlyInstallment = financing?.installment ?? cardInstallments[cardInstallments.length - 1]?.amount
+
+  let billComparison: BillComparison | null = null
+  if (currentMonthlyBill && monthlyInstallment) {
+    const estimatedBillWithSolar = options.estimatedMonthlySavings
+      ? roundCurrency(Math.max(currentMonthlyBill - options.estimatedMonthlySavings, 0))
+      : null
+    const monthlyOutlay = roundCurrency(monthlyInstallment + (estimatedBillWithSolar ?? 0))
+
+    billComparison = {
+      currentMonthlyBill,
+      estimatedBillWithSolar,
+      monthlyInstallment,
+      monthlyOutlay,
+      difference: roundCurrency(currentMonthlyBill - monthlyOutlay)
+    }
+  }
+
+  return {
+    totalValue,
+    equipmentValue,
+    serviceValue,
+    taxes,
+    totalTaxes: roundCurrency(taxes.reduce((sum, line) => sum + line.value, 0)),
+    cashDiscountPercent: conditions.cashDiscountPercent,
+    cashDiscountValue,
+    cashPrice: roundCurrency(totalValue - cashDiscountValue),
+    cardInstallments,
+    financing,
+    billComparison
+  }
+}
+
+/**
+ * Condições de pagamento de um orçamento gravado, ou null quando não foram definidas.
+ * Sem conta informada no orçamento, usa a da simulação que originou o lead.
+ */
+export function getQuotePaymentSummary(quote: {
+  paymentConditions?: unknown
+  totalValue: unknown // Decimal do Prisma
+  items: Array<{ type?: string | null; totalPrice: unknown }>
+  lead?: { simulation?: unknown } | null
+}): QuotePaymentSummary | null {
+  const conditions = parsePaymentConditions(quote.paymentConditions)
+  if (!conditions) return null
+
+  return calculatePaymentSummary(
+    quote.items.map(item => ({ type: item.type, totalPrice: Number(item.totalPrice) })),
+    Number(quote.totalValue),
+    conditions,
+    getLeadBillReference(quote.lead?.simulation)
+  )
+}
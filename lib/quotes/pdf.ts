@@ -0,0 +1,202 @@
+import { PdfDocument, type RGB } from '../pdf'
+import type { QuoteSnapshot } from './acceptance'
+
+export interface QuotePdfData {
+  snapshot: QuoteSnapshot
+  company: {
+    name: string
+    email?: string | null
+    phone?: string | null
+    city?: string | null
+    state?: string | null
+  }
+  acceptance?: {
+    decision: string
+    signerName: string
+    signerEmail?: string | null
+    reason?: string | null
+    ipAddress: string
+    userAgent: string
+    documentHash: string
+    signedAt: Date
+  } | null
+}
+
+const MARGIN = 40
+const BRAND: RGB = [234, 88, 12]
+const MUTED: RGB = [107, 114, 128]
+const LIGHT: RGB = [249, 250, 251]
+const BORDER: RGB = [229, 231, 235]
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+
+class QuotePdfLayout {
+  readonly pdf = new PdfDocument()
+  y = MARGIN
+
+  get contentWidth() {
+    return this.pdf.width - MARGIN * 2
+  }
+
+  // Abre uma nova página quando o bloco não cabe no espaço restante
+  ensureSpace(height: number) {
+    if (this.y + height > this.pdf.height - MARGIN) {
+      this.pdf.addPage()
+      this.y = MARGIN
+    }
+  }
+
+  paragraph(text: string, size = 9, color: RGB = [55, 65, 81]) {
+    for (const line of this.pdf.wrapText(text, this.contentWidth, size)) {
+      this.ensureSpace(size + 4)
+      this.pdf.text(MARGIN, this.y, line, { size, color })
+      this.y += size + 4
+    }
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(40)
+    this.pdf.text(MARGIN, this.y, title, { size: 12, bold: true })
+    this.pdf.line(MARGIN, this.y + 18, this.pdf.width - MARGIN, this.y + 18, { stroke: BORDER })
+    this.y += 28
+  }
+}
+
+function itemsTable(layout: QuotePdfLayout, snapshot: QuoteSnapshot) {
+  const { pdf } = layout
+  const rowHeight = 20
+  const columns = {
+    description: MARGIN + 6,
+    quantity: MARGIN + 330,
+    unitPrice: MARGIN + 420,
+    total: pdf.width - MARGIN - 6
+  }
+
+  const header = () => {
+    pdf.rect(MARGIN, layout.y, layout.contentWidth, rowHeight, { fill: [255, 237, 213] })
+    pdf.text(columns.description, layout.y + 6, 'Item', { size: 8, bold: true })
+    pdf.text(columns.quantity, layout.y + 6, 'Qtd', { size: 8, bold: true, align: 'right' })
+    pdf.text(columns.unitPrice, layout.y + 6, 'Preço unit.', { size: 8, bold: true, align: 'right' })
+    pdf.text(columns.total, layout.y + 6, 'Total', { size: 8, bold: true, align: 'right' })
+    layout.y += rowHeight
+  }
+
+  header()
+  snapshot.items.forEach((item, index) => {
+    const lines = pdf.wrapText(item.description, 300, 8)
+    const height = Math.max(rowHeight, lines.length * 11 + 9)
+
+    if (layout.y + height > pdf.height - MARGIN) {
+      layout.ensureSpace(height + rowHeight)
+      header()
+    }
+
+    if (index % 2 === 0) {
+      pdf.rect(MARGIN, layout.y, layout.contentWidth, height, { fill: LIGHT })
+    }
+
+    lines.forEach((line, lineIndex) => {
+      pdf.text(columns.description, layout.y + 6 + lineIndex * 11, line, { size: 8 })
+    })
+    pdf.text(columns.quantity, layout.y + 6, item.quantity.toString(), { size: 8, align: 'right' })
+    pdf.text(columns.unitPrice, layout.y + 6, formatCurrency(item.unitPrice), { size: 8, align: 'right' })
+    pdf.text(columns.total, layout.y + 6, formatCurrency(item.totalPrice), { size: 8, align: 'right' })
+    layout.y += height
+  })
+
+  layout.ensureSpace(30)
+  pdf.line(MARGIN, layout.y, pdf.width - MARGIN, layout.y, { stroke: BRAND, lineWidth: 1.5 })
+  pdf.text(columns.unitPrice, layout.y + 8, 'TOTAL GERAL', { size: 9, bold: true, align: 'right' })
+  pdf.text(columns.total, layout.y + 8, formatCurrency(snapshot.totalValue), { size: 10, bold: true, color: BRAND, align: 'right' })
+  layout.y += 32
+}
+
+function signatureBlock(layout: QuotePdfLayout, acceptance: NonNullable<QuotePdfData['acceptance']>) {
+  const { pdf } = layout
+  const accepted = acceptance.decision === 'ACCEPTED'
+  const lines = [
+    `${accepted ? 'Aceito' : 'Recusado'} eletronicamente por ${acceptance.signerName}` +
+      (acceptance.signerEmail ? ` (${acceptance.signerEmail})` : ''),
+    `Data e hora: ${formatDateTime(acceptance.signedAt)} (horário de Brasília)`,
+    `Endereço IP: ${acceptance.ipAddress}`,
+    ...pdf.wrapText(`Navegador: ${acceptance.userAgent}`, layout.contentWidth - 20, 8),
+    `Hash SHA-256 do documento: ${acceptance.documentHash}`,
+    ...(acceptance.reason ? pdf.wrapText(`Motivo: ${acceptance.reason}`, layout.contentWidth - 20, 8) : [])
+  ]
+  const height = 30 + lines.length * 12
+
+  layout.ensureSpace(height + 10)
+  pdf.rect(MARGIN, layout.y, layout.contentWidth, height, {
+    fill: accepted ? [240, 253, 244] : [254, 242, 242],
+    stroke: accepted ? [22, 163, 74] : [220, 38, 38]
+  })
+  pdf.text(MARGIN + 10, layout.y + 10, accepted ? 'ORÇAMENTO ACEITO' : 'ORÇAMENTO RECUSADO', {
+    size: 10,
+    bold: true,
+    color: accepted ? [22, 163, 74] : [220, 38, 38]
+  })
+  lines.forEach((line, index) => {
+    pdf.text(MARGIN + 10, layout.y + 28 + index * 12, line, { size: 8 })
+  })
+  layout.y += height + 10
+}
+
+/**
+ * Gera o PDF do orçamento a partir do snapshot. Quando há registro de aceite,
+ * inclui o bloco de assinatura eletrônica com os dados de auditoria.
+ */
+export function renderQuotePdf(data: QuotePdfData): Buffer {
+  const { snapshot, company, acceptance } = data
+  const layout = new QuotePdfLayout()
+  const { pdf } = layout
+
+  // Cabeçalho
+  pdf.rect(0, 0, pdf.width, 80, { fill: BRAND })
+  pdf.text(MARGIN, 22, snapshot.title, { size: 18, bold: true, color: [255, 255, 255] })
+  pdf.text(MARGIN, 48, `Orçamento de ${company.name}`, { size: 10, color: [255, 237, 213] })
+  pdf.text(pdf.width - MARGIN, 26, 'SolarConnect', { size: 12, bold: true, color: [255, 255, 255], align: 'right' })
+  layout.y = 100
+
+  const contact = [
+    [company.city, company.state].filter(Boolean).join(' - '),
+    company.phone,
+    company.email
+  ].filter(Boolean).join(' · ')
+  if (contact) {
+    pdf.text(MARGIN, layout.y, contact, { size: 9, color: MUTED })
+    layout.y += 14
+  }
+  pdf.text(
+    MARGIN,
+    layout.y,
+    `Válido até ${new Date(snapshot.validUntil).toLocaleDateString('pt-BR')} · Nº ${snapshot.quoteId}`,
+    { size: 9, color: MUTED }
+  )
+  layout.y += 26
+
+  if (snapshot.description) {
+    layout.sectionTitle('Descrição')
+    layout.paragraph(snapshot.description)
+    layout.y += 10
+  }
+
+  layout.sectionTitle('Itens do orçamento')
+  itemsTable(layout, snapshot)
+
+  if (snapshot.terms) {
+    layout.sectionTitle('Termos e condições')
+    layout.paragraph(snapshot.terms)
+    layout.y += 10
+  }
+
+  if (acceptance) {
+    layout.sectionTitle('Assinatura eletrônica')
+    signatureBlock(layout, acceptance)
+  }
+
+  return pdf.toBuffer()
+}
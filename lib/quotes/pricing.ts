@@ -0,0 +1,187 @@
+import { db } from '../db'
+
+export const MAX_INSTALLMENTS = 24
+
+// Equipamentos recolhem ICMS; serviços (instalação, projeto, homologação) recolhem ISS
+export type QuoteItemType = 'EQUIPMENT' | 'SERVICE'
+
+// Categoria do item no orçamento a partir da categoria do produto
+const PRODUCT_CATEGORY_LABELS: Record<string, string> = {
+  PAINEL_SOLAR: 'Painéis Solares',
+  INVERSOR: 'Inversores',
+  BATERIA: 'Baterias',
+  ESTRUTURA: 'Estruturas',
+  CABO: 'Cabos',
+  ACESSORIO: 'Acessórios',
+  KIT_COMPLETO: 'Kit Completo'
+}
+
+// Linha enviada pelo formulário ou vinda de um modelo: produto do catálogo ou item livre
+export interface QuoteLineInput {
+  productId?: string | null
+  description?: string | null
+  quantity: number
+  unitPrice?: number | null
+  category?: string | null
+  type?: QuoteItemType | null
+}
+
+export interface CatalogProductSource {
+  id: string
+  name: string
+  price: unknown // Decimal do Prisma
+  power?: number | null
+  warranty?: number | null
+  category?: string | null
+}
+
+export interface PricedQuoteItem {
+  description: string
+  quantity: number
+  unitPrice: number
+  totalPrice: number
+  category: string | null
+  type: QuoteItemType
+  productId: string | null
+  power: number | null
+  warranty: number | null
+}
+
+export interface QuoteTotals {
+  subtotal: number
+  discountPercent: number
+  discountValue: number
+  totalValue: number
+}
+
+export interface InstallmentOption {
+  count: number
+  amount: number
+  total: number
+  interestFree: boolean
+}
+
+export class QuotePricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QuotePricingError'
+  }
+}
+
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Calcula o preço de cada linha. Itens do catálogo herdam nome, preço, potência
+ * e garantia do produto; o preço só pode ser sobrescrito quando informado.
+ */
+export function priceQuoteItems(lines: QuoteLineInput[], catalog: CatalogProductSource[]): PricedQuoteItem[] {
+  const products = new Map(catalog.map(product => [product.id, product]))
+
+  return lines.map(line => {
+    if (line.productId) {
+      const product = products.get(line.productId)
+      if (!product) {
+        throw new QuotePricingError('Produto não encontrado no catálogo da empresa')
+      }
+
+      const unitPrice = roundCurrency(line.unitPrice ?? Number(product.price))
+      return {
+        description: line.description?.trim() || product.name,
+        quantity: line.quantity,
+        unitPrice,
+        totalPrice: roundCurrency(unitPrice * line.quantity),
+        category: line.category || (product.category ? PRODUCT_CATEGORY_LABELS[product.category] ?? product.category : null),
+        type: line.type || 'EQUIPMENT',
+        productId: product.id,
+        power: product.power ?? null,
+        warranty: product.warranty ?? null
+      }
+    }
+
+    if (!line.description?.trim() || line.unitPrice === undefined || line.unitPrice === null) {
+      throw new QuotePricingError('Itens fora do catálogo precisam de descrição e preço unitário')
+    }
+
+    const unitPrice = roundCurrency(line.unitPrice)
+    return {
+      description: line.description.trim(),
+      quantity: line.quantity,
+      unitPrice,
+      totalPrice: roundCurrency(unitPrice * line.quantity),
+      category: line.category || null,
+      type: line.type || 'SERVICE',
+      productId: null,
+      power: null,
+      warranty: null
+    }
+  })
+}
+
+export function calculateQuoteTotals(items: Array<{ totalPrice: number }>, discountPercent: number = 0): QuoteTotals {
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.totalPrice, 0))
+  const discountValue = roundCurrency(subtotal * discountPercent / 100)
+
+  return {
+    subtotal,
+    discountPercent,
+    discountValue,
+    totalValue: roundCurrency(subtotal - discountValue)
+  }
+}
+
+/**
+ * Parcela fixa pela tabela Price para a taxa mensal informada (em %).
+ */
+export function calculatePriceInstallment(principal: number, monthlyInterestRate: number, installments: number): number {
+  const rate = monthlyInterestRate / 100
+  if (rate === 0) return principal / installments
+
+  return principal * rate / (1 - Math.pow(1 + rate, -installments))
+}
+
+/**
+ * Simula o parcelamento pela tabela Price. Até `interestFreeInstallments` parcelas
+ * não há juros; acima disso aplica-se a taxa mensal informada.
+ */
+export function simulateInstallments(
+  total: number,
+  {
+    maxInstallments = 12,
+    interestFreeInstallments = maxInstallments,
+    monthlyInterestRate = 0
+  }: { maxInstallments?: number; interestFreeInstallments?: number; monthlyInterestRate?: number } = {}
+): InstallmentOption[] {
+  const count = Math.min(Math.max(Math.floor(maxInstallments), 1), MAX_INSTALLMENTS)
+
+  return Array.from({ length: count }, (_, index) => {
+    const installments = index + 1
+    const interestFree = installments <= interestFreeInstallments || monthlyInterestRate === 0
+    const amount = calculatePriceInstallment(total, interestFree ? 0 : monthlyInterestRate, installments)
+
+    return {
+      count: installments,
+      amount: roundCurrency(amount),
+      total: roundCurrency(amount * installments),
+      interestFree
+    }
+  })
+}
+
+/**
+ * Carrega os produtos referenciados pelas linhas, restritos ao catálogo da empresa,
+ * e calcula os itens.
+ */
+export async function resolveQuoteItems(companyId: string, lines: QuoteLineInput[]): Promise<PricedQuoteItem[]> {
+  const productIds = Array.from(new Set(lines.map(line => line.productId).filter(Boolean))) as string[]
+
+  const catalog = productIds.length > 0
+    ? await db.product.findMany({
+        where: { id: { in: productIds }, companyId },
+        select: { id: true, name: true, price: true, power: true, warranty: true, category: true }
+      })
+    : []
+
+  return priceQuoteItems(lines, catalog)
+}
@@ -0,0 +1,167 @@
+import { Prisma } from '@prisma/client'
+import { db } from '../db'
+import { createQuoteSnapshot, hashQuoteSnapshot, type QuoteSnapshot, type QuoteSnapshotSource } from './acceptance'
+
+type SnapshotItem = QuoteSnapshot['items'][number]
+
+export interface QuoteItemChange {
+  description: string
+  from: Pick<SnapshotItem, 'quantity' | 'unitPrice' | 'totalPrice'>
+  to: Pick<SnapshotItem, 'quantity' | 'unitPrice' | 'totalPrice'>
+}
+
+export interface QuoteRevisionDiff {
+  total: { from: number; to: number; delta: number }
+  addedItems: SnapshotItem[]
+  removedItems: SnapshotItem[]
+  changedItems: QuoteItemChange[]
+  titleChanged: boolean
+  descriptionChanged: boolean
+  termsChanged: boolean
+  validUntilChanged: boolean
+  paymentConditionsChanged: boolean
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+// Os itens são recriados a cada edição, então a correspondência é feita pela descrição
+function itemKey(item: SnapshotItem): string {
+  return item.description.trim().toLowerCase()
+}
+
+/**
+ * Compara duas versões de um orçamento: variação do total e itens incluídos,
+ * removidos ou com quantidade/preço alterados.
+ */
+export function diffQuoteSnapshots(previous: QuoteSnapshot, current: QuoteSnapshot): QuoteRevisionDiff {
+  const previousItems = new Map(previous.items.map(item => [itemKey(item), item]))
+  const currentItems = new Map(current.items.map(item => [itemKey(item), item]))
+
+  const changedItems: QuoteItemChange[] = []
+  for (const [key, item] of Array.from(currentItems)) {
+    const before = previousItems.get(key)
+    if (before && (
+      before.quantity !== item.quantity ||
+      before.unitPrice !== item.unitPrice ||
+      before.totalPrice !== item.totalPrice
+    )) {
+      changedItems.push({
+        description: item.description,
+        from: { quantity: before.quantity, unitPrice: before.unitPrice, totalPrice: before.totalPrice },
+        to: { quantity: item.quantity, unitPrice: item.unitPrice, totalPrice: item.totalPrice }
+      })
+    }
+  }
+
+  return {
+    total: {
+      from: previous.totalValue,
+      to: current.totalValue,
+      delta: current.totalValue - previous.totalValue
+    },
+    addedItems: current.items.filter(item => !previousItems.has(itemKey(item))),
+    removedItems: previous.items.filter(item => !currentItems.has(itemKey(item))),
+    changedItems,
+    titleChanged: previous.title !== current.title,
+    descriptionChanged: previous.description !== current.description,
+    termsChanged: previous.terms !== current.terms,
+    validUntilChanged: previous.validUntil !== current.validUntil,
+    paymentConditionsChanged:
+      (previous.discountPercent ?? null) !== (current.discountPercent ?? null) ||
+      JSON.stringify(previous.paymentConditions ?? null) !== JSON.stringify(current.paymentConditions ?? null)
+  }
+}
+
+export function summarizeQuoteDiff(diff: QuoteRevisionDiff): string {
+  const parts: string[] = []
+
+  if (diff.total.delta !== 0) {
+    const sign = diff.total.delta > 0 ? '+' : '-'
+    parts.push(
+      `Total ${formatCurrency(diff.total.from)} → ${formatCurrency(diff.total.to)} ` +
+      `(${sign}${formatCurrency(Math.abs(diff.total.delta))})`
+    )
+  }
+  if (diff.addedItems.length > 0) parts.push(`${diff.addedItems.length} item(s) incluído(s)`)
+  if (diff.removedItems.length > 0) parts.push(`${diff.removedItems.length} item(s) removido(s)`)
+  if (diff.changedItems.length > 0) parts.push(`${diff.changedItems.length} item(s) alterado(s)`)
+  if (diff.termsChanged) parts.push('termos alterados')
+  if (diff.validUntilChanged) parts.push('nova validade')
+  if (diff.paymentConditionsChanged) parts.push('condições de pagamento alteradas')
+  if (diff.titleChanged || diff.descriptionChanged) parts.push('descrição alterada')
+
+  return parts.length > 0 ? parts.join('; ') : 'Sem alterações'
+}
+
+export interface SentQuoteSnapshot {
+  snapshot: QuoteSnapshot
+  documentHash: string
+}
+
+/**
+ * Versão que o cliente vê no link público e que é assinada no aceite ou na recusa:
+ * a última revisão enviada (`revisions` em ordem decrescente de versão). Retorna null
+ * se o conteúdo atual divergir dela, ou seja, se o orçamento foi editado sem novo envio.
+ * Orçamentos enviados antes das revisões assinam o conteúdo atual.
+ */
+export function getSentQuoteSnapshot(
+  quote: QuoteSnapshotSource & { revisions: Array<{ snapshot: unknown; documentHash: string }> }
+): SentQuoteSnapshot | null {
+  const current = createQuoteSnapshot(quote)
+  const currentHash = hashQuoteSnapshot(current)
+  const latest = quote.revisions[0]
+
+  if (!latest) {
+    return { snapshot: current, documentHash: currentHash }
+  }
+
+  if (latest.documentHash !== currentHash) {
+    return null
+  }
+
+  return { snapshot: latest.snapshot as QuoteSnapshot, documentHash: latest.documentHash }
+}
+
+/**
+ * Grava uma nova revisão quando o orçamento é enviado ao cliente. Se o conteúdo
+ * não mudou desde a última revisão, nada é gravado e a revisão atual é retornada.
+ */
+export async function recordQuoteRevision(quoteId: string) {
+  const quote = await db.quote.findUnique({
+    where: { id: quoteId },
+    include: {
+      items: true,
+      company: { select: { name: true } },
+      revisions: {
+        orderBy: { version: 'desc' },
+        take: 1
+      }
+    }
+  })
+
+  if (!quote) {
+    throw new Error(`Quote ${quoteId} not found`)
+  }
+
+  const snapshot = createQuoteSnapshot(quote)
+  const documentHash = hashQuoteSnapshot(snapshot)
+  const latest = quote.revisions[0]
+
+  if (latest?.documentHash === documentHash) {
+    return latest
+  }
+
+  return db.quoteRevision.create({
+    data: {
+      quoteId,
+      version: (latest?.version ?? 0) + 1,
+      totalValue: snapshot.totalValue,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      documentHash,
+      changeSummary: latest
+        ? summarizeQuoteDiff(diffQuoteSnapshots(latest.snapshot as unknown as QuoteSnapshot, snapshot))
+        : null
+    }
+  })
+}
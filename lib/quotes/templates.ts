@@ -0,0 +1,77 @@
+import { db } from '../db'
+import type { QuoteItemType, QuoteLineInput } from './pricing'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface QuoteTemplateItemSource {
+  position: number
+  description: string
+  quantity: number
+  unitPrice?: unknown | null // Decimal do Prisma
+  category?: string | null
+  type?: QuoteItemType | null
+  productId?: string | null
+}
+
+/**
+ * Converte os itens do modelo em linhas de orçamento. Itens do catálogo sem preço
+ * fixo no modelo usam o preço atual do produto; se o produto foi removido, o item
+ * continua no orçamento como item livre, desde que tenha preço.
+ */
+export function templateItemsToLines(items: QuoteTemplateItemSource[]): QuoteLineInput[] {
+  return [...items]
+    .sort((a, b) => a.position - b.position)
+    .map(item => ({
+      productId: item.productId ?? null,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice === null || item.unitPrice === undefined ? null : Number(item.unitPrice),
+      category: item.category ?? null,
+      type: item.type ?? null
+    }))
+}
+
+export function getTemplateValidUntil(validityDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() + validityDays * DAY_MS)
+}
+
+/**
+ * Confere se os produtos pertencem ao catálogo da empresa e monta os itens do modelo,
+ * usando o nome do produto como descrição quando não informada. Retorna null se
+ * algum produto não for da empresa.
+ */
+export async function buildTemplateItems(companyId: string, items: QuoteLineInput[]) {
+  const productIds = Array.from(new Set(items.map(item => item.productId).filter(Boolean))) as string[]
+  const products = productIds.length > 0
+    ? await db.product.findMany({
+        where: { id: { in: productIds }, companyId },
+        select: { id: true, name: true }
+      })
+    : []
+  const productNames = new Map<string, string>(products.map(product => [product.id, product.name]))
+
+  if (productNames.size !== productIds.length) {
+    return null
+  }
+
+  return items.map((item, position) => ({
+    position,
+    productId: item.productId ?? null,
+    description: item.description || productNames.get(item.productId!)!,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice ?? null,
+    category: item.category ?? null,
+    type: item.type || (item.productId ? 'EQUIPMENT' : 'SERVICE')
+  }))
+}
+
+export async function findCompanyQuoteTemplate(companyId: string, templateId: string) {
+  return db.quoteTemplate.findFirst({
+    where: { id: templateId, companyId },
+    include: {
+      items: {
+        orderBy: { position: 'asc' }
+      }
+    }
+  })
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto'
 import { redis } from './redis'
 import { NextRequest } from 'next/server'
 
@@ -23,7 +24,7 @@ export class RateLimiter {
 
   constructor(config: RateLimitConfig) {
     this.config = {
-      keyGenerator: (req) => this.getClientIP(req),
+      keyGenerator: getClientIP,
       skipSuccessfulRequests: false,
       skipFailedRequests: false,
       message: 'Too many requests, please try again later.',
@@ -73,21 +74,27 @@ export class RateLimiter {
       }
     }
   }
+}
 
-  private getClientIP(req: NextRequest): string {
-    const forwarded = req.headers.get('x-forwarded-for')
-    const realIP = req.headers.get('x-real-ip')
-    
-    if (forwarded) {
-      return forwarded.split(',')[0].trim()
-    }
-    
-    if (realIP) {
-      return realIP
-    }
-    
-    return req.ip || 'unknown'
+export function getClientIP(req: NextRequest): string {
+  const forwarded = req.headers.get('x-forwarded-for')
+  const realIP = req.headers.get('x-real-ip')
+  
+  if (forwarded) {
+    return forwarded.split(',')[0].trim()
+  }
+  
+  if (realIP) {
+    return realIP
   }
+  
+  return req.ip || 'unknown'
+}
+
+// Identifies the public API key without storing the key itself in Redis
+function getApiKeyId(req: NextRequest): string {
+  const apiKey = req.headers.get('x-api-key') || ''
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16)
 }
 
 // Predefined rate limiters for different endpoints
@@ -144,6 +151,30 @@ export const rateLimiters = {
     windowMs: 60 * 60 * 1000, // 1 hour
     maxRequests: 3,
     message: 'Too many password reset attempts, please try again in 1 hour.'
+  }),
+
+  // Public lead capture API, per visitor: stops a single browser from flooding the pipeline
+  publicLeads: new RateLimiter({
+    windowMs: 10 * 60 * 1000, // 10 minutes
+    maxRequests: 5,
+    keyGenerator: (req) => `public-leads:${getApiKeyId(req)}:${getClientIP(req)}`,
+    message: 'Muitas solicitações enviadas. Tente novamente em alguns minutos.'
+  }),
+
+  // Public lead capture API, per API key: caps the total volume a single key can send
+  publicLeadsPerKey: new RateLimiter({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxRequests: 300,
+    keyGenerator: (req) => `public-leads-key:${getApiKeyId(req)}`,
+    message: 'Limite de solicitações desta chave atingido. Tente novamente mais tarde.'
+  }),
+
+  // Leitura da conta de luz na calculadora: pública e pesada (descompressão do PDF)
+  electricityBill: new RateLimiter({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 10,
+    keyGenerator: (req) => `electricity-bill:${getClientIP(req)}`,
+    message: 'Muitas faturas enviadas. Tente novamente em alguns minutos.'
   })
 }
 
@@ -0,0 +1,180 @@
+import { logger, LogCategory } from './logger'
+
+const MINUTE_MS = 60 * 1000
+
+export interface ScheduledJobOptions<T extends object> {
+  // Label used in the logs, e.g. "Quote expiry"
+  name: string
+  run: () => Promise<T>
+  defaultIntervalMinutes: number
+  // Environment variables read by initialize()
+  enabledEnv: string
+  intervalEnv: string
+}
+
+export interface ScheduledJobStatus<T extends object> {
+  isRunning: boolean
+  inProgress: boolean
+  intervalMinutes: number
+  nextRunTime?: Date
+  lastResult?: T & { finishedAt: Date }
+}
+
+/**
+ * Recurring in-process job started from instrumentation.ts.
+ * A tick that fires while the previous cycle is still running is skipped,
+ * so a slow cycle never overlaps the next one.
+ */
+export class ScheduledJob<T extends object> {
+  private intervalId: NodeJS.Timeout | null = null
+  private isRunning = false
+  private inProgress = false
+  private intervalMinutes: number
+  private lastResult?: T & { finishedAt: Date }
+
+  constructor(private readonly options: ScheduledJobOptions<T>) {
+    this.intervalMinutes = options.defaultIntervalMinutes
+  }
+
+  /**
+   * Start the job: run one cycle now, then every `intervalMinutes`.
+   * Resolves without waiting for the first cycle, so startup is not held up by it.
+   */
+  async start(intervalMinutes: number = this.options.defaultIntervalMinutes): Promise<void> {
+    if (this.isRunning) {
+      await logger.warn(
+        LogCategory.SYSTEM,
+        `${this.options.name} scheduler is already running`
+      )
+      return
+    }
+
+    this.intervalMinutes = intervalMinutes
+    this.isRunning = true
+
+    await logger.info(
+      LogCategory.SYSTEM,
+      `Starting ${this.options.name.toLowerCase()} scheduler with ${intervalMinutes} minute intervals`
+    )
+
+    void this.runCycle()
+
+    this.intervalId = setInterval(() => {
+      void this.runCycle()
+    }, intervalMinutes * MINUTE_MS)
+  }
+
+  /**
+   * Stop the job; a cycle already in progress is allowed to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+
+    this.isRunning = false
+
+    await logger.info(
+      LogCategory.SYSTEM,
+      `${this.options.name} scheduler stopped`
+    )
+  }
+
+  /**
+   * Start the job unless disabled via `enabledEnv`, with the interval from `intervalEnv`.
+   * Never throws, so a failing job does not prevent the application from starting.
+   */
+  async initialize(): Promise<void> {
+    try {
+      if (process.env[this.options.enabledEnv] === 'false') {
+        await logger.info(
+          LogCategory.SYSTEM,
+          `${this.options.name} job is disabled via environment variable`
+        )
+        return
+      }
+
+      const intervalMinutes = parseInt(process.env[this.options.intervalEnv] || '')
+      await this.start(intervalMinutes > 0 ? intervalMinutes : this.options.defaultIntervalMinutes)
+    } catch (error) {
+      await logger.error(
+        LogCategory.SYSTEM,
+        `Failed to initialize ${this.options.name.toLowerCase()} job`,
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Stop the job, logging instead of throwing on failure
+   */
+  async shutdown(): Promise<void> {
+    try {
+      await this.stop()
+    } catch (error) {
+      await logger.error(
+        LogCategory.SYSTEM,
+        `Error during ${this.options.name.toLowerCase()} job shutdown`,
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Force a cycle immediately, unless one is already in progress
+   */
+  async runNow(): Promise<void> {
+    await logger.info(
+      LogCategory.SYSTEM,
+      `Running ${this.options.name.toLowerCase()} cycle on demand`
+    )
+    await this.runCycle()
+  }
+
+  getStatus(): ScheduledJobStatus<T> {
+    return {
+      isRunning: this.isRunning,
+      inProgress: this.inProgress,
+      intervalMinutes: this.intervalMinutes,
+      nextRunTime: this.intervalId
+        ? new Date(Date.now() + this.intervalMinutes * MINUTE_MS)
+        : undefined,
+      lastResult: this.lastResult
+    }
+  }
+
+  private async runCycle(): Promise<void> {
+    if (this.inProgress) {
+      await logger.warn(
+        LogCategory.SYSTEM,
+        `${this.options.name} cycle skipped: previous cycle still running`
+      )
+      return
+    }
+
+    this.inProgress = true
+    try {
+      const result = await this.options.run()
+      this.lastResult = { ...result, finishedAt: new Date() }
+
+      await logger.info(
+        LogCategory.SYSTEM,
+        `${this.options.name} cycle completed successfully`,
+        { ...result }
+      )
+    } catch (error) {
+      await logger.error(
+        LogCategory.SYSTEM,
+        `${this.options.name} cycle failed`,
+        error as Error
+      )
+    } finally {
+      this.inProgress = false
+    }
+  }
+}
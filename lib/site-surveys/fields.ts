@@ -0,0 +1,176 @@
+// Formulário da vistoria técnica, usado também no navegador (sem acesso ao banco)
+import {
+  siteSurveyConfigSchema,
+  type SiteSurveyConfig,
+  type SiteSurveyStandardField
+} from '../validations'
+
+export type SiteSurveyFieldType = 'text' | 'number' | 'yesno' | 'select'
+export type SiteSurveyAnswer = string | number | boolean | null
+export type SiteSurveyAnswers = Record<string, SiteSurveyAnswer>
+
+export interface SiteSurveyField {
+  key: string
+  label: string
+  type: SiteSurveyFieldType
+  required: boolean
+  options?: string[]
+  unit?: string | null
+  min?: number
+  max?: number
+  hint?: string
+}
+
+// Formulário congelado na conclusão da vistoria
+export interface SiteSurveyForm {
+  fields: SiteSurveyField[]
+  minPhotos: number
+}
+
+export const STANDARD_SITE_SURVEY_FIELDS: Record<SiteSurveyStandardField, Omit<SiteSurveyField, 'key' | 'required'>> = {
+  roofType: {
+    label: 'Tipo de telhado',
+    type: 'select',
+    options: ['Cerâmica', 'Fibrocimento', 'Metálico', 'Laje', 'Solo', 'Outro']
+  },
+  structureCondition: {
+    label: 'Estado da estrutura',
+    type: 'select',
+    options: ['Boa', 'Regular', 'Precisa de reforço']
+  },
+  azimuth: {
+    label: 'Azimute',
+    type: 'number',
+    unit: '°',
+    min: 0,
+    max: 359,
+    hint: 'Orientação do telhado; 0° é o norte'
+  },
+  tilt: {
+    label: 'Inclinação',
+    type: 'number',
+    unit: '°',
+    min: 0,
+    max: 90
+  },
+  shading: {
+    label: 'Sombreamento',
+    type: 'select',
+    options: ['Sem sombreamento', 'Parcial (parte do dia)', 'Significativo']
+  },
+  meterDistance: {
+    label: 'Distância até o padrão de entrada',
+    type: 'number',
+    unit: 'm',
+    min: 0,
+    max: 1000
+  },
+  panelBoardCapacity: {
+    label: 'Disjuntor geral do quadro',
+    type: 'number',
+    unit: 'A',
+    min: 0,
+    max: 2000
+  }
+}
+
+export const SITE_SURVEY_FIELD_TYPE_LABELS: Record<SiteSurveyFieldType, string> = {
+  text: 'Texto',
+  number: 'Número',
+  yesno: 'Sim/Não',
+  select: 'Lista de opções'
+}
+
+/**
+ * Configuração com os padrões aplicados. Valores inválidos caem no padrão em vez
+ * de travar a vistoria.
+ */
+export function parseSiteSurveyConfig(value: unknown): SiteSurveyConfig {
+  const parsed = siteSurveyConfigSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : siteSurveyConfigSchema.parse({})
+}
+
+// Campos padrão, na ordem fixa, seguidos dos campos da empresa
+export function buildSiteSurveyForm(config: SiteSurveyConfig): SiteSurveyForm {
+  const standard = (Object.keys(STANDARD_SITE_SURVEY_FIELDS) as SiteSurveyStandardField[]).map(key => ({
+    key,
+    ...STANDARD_SITE_SURVEY_FIELDS[key],
+    required: config.requiredFields.indexOf(key) !== -1
+  }))
+
+  const custom = config.customFields.map(field => ({
+    key: field.id,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    options: field.type === 'select' ? field.options : undefined,
+    unit: field.unit
+  }))
+
+  return { fields: [...standard, ...custom], minPhotos: config.minPhotos }
+}
+
+export function isEmptyAnswer(value: SiteSurveyAnswer | undefined): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+/**
+ * Mensagem de erro da resposta, ou null quando ela é válida (ou está vazia).
+ */
+export function getSurveyAnswerError(field: SiteSurveyField, value: SiteSurveyAnswer | undefined): string | null {
+  if (isEmptyAnswer(value)) return null
+
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number') return `${field.label}: informe um número`
+      if (field.min !== undefined && value < field.min) return `${field.label}: mínimo de ${field.min}${field.unit ?? ''}`
+      if (field.max !== undefined && value > field.max) return `${field.label}: máximo de ${field.max}${field.unit ?? ''}`
+      return null
+    case 'yesno':
+      return typeof value === 'boolean' ? null : `${field.label}: responda sim ou não`
+    case 'select':
+      return typeof value === 'string' && (field.options ?? []).indexOf(value) !== -1
+        ? null
+        : `${field.label}: escolha uma das opções`
+    default:
+      return typeof value === 'string' ? null : `${field.label}: resposta inválida`
+  }
+}
+
+/**
+ * O que falta para concluir a vistoria: campos obrigatórios vazios, respostas
+ * inválidas e fotos abaixo do mínimo.
+ */
+export function getSiteSurveyPendingItems(
+  form: SiteSurveyForm,
+  answers: SiteSurveyAnswers,
+  photoCount: number
+): string[] {
+  const pending: string[] = []
+
+  for (const field of form.fields) {
+    const value = answers[field.key]
+    const error = getSurveyAnswerError(field, value)
+
+    if (error) {
+      pending.push(error)
+    } else if (field.required && isEmptyAnswer(value)) {
+      pending.push(`${field.label}: obrigatório`)
+    }
+  }
+
+  if (photoCount < form.minPhotos) {
+    pending.push(`Fotos: envie pelo menos ${form.minPhotos} (${photoCount} enviada${photoCount === 1 ? '' : 's'})`)
+  }
+
+  return pending
+}
+
+export function formatSurveyAnswer(field: SiteSurveyField, value: SiteSurveyAnswer | undefined): string {
+  if (isEmptyAnswer(value)) return '—'
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não'
+  if (typeof value === 'number') {
+    return `${value.toLocaleString('pt-BR')}${field.unit ? (field.unit === '°' ? '°' : ` ${field.unit}`) : ''}`
+  }
+  return String(value)
+}
@@ -0,0 +1,3 @@
+export * from './fields'
+export * from './surveys'
+export * from './report'
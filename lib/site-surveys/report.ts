@@ -0,0 +1,182 @@
+import { PdfDocument, readJpegInfo, type RGB } from '../pdf'
+import { formatSurveyAnswer, type SiteSurveyAnswers, type SiteSurveyForm } from './fields'
+
+export interface SiteSurveyReportData {
+  form: SiteSurveyForm
+  answers: SiteSurveyAnswers
+  notes?: string | null
+  completedAt?: Date | null
+  completedByName?: string | null
+  appointment: {
+    title: string
+    date: Date
+    location: string
+    technicianName?: string | null
+  }
+  customer: { name: string; email?: string | null; phone?: string | null }
+  company: { name: string; phone?: string | null; email?: string | null }
+  // Fotos já baixadas; as que não são JPEG entram só pela legenda
+  photos: Array<{ name: string; caption?: string | null; data: Buffer | null }>
+}
+
+const MARGIN = 40
+const BRAND: RGB = [234, 88, 12]
+const MUTED: RGB = [107, 114, 128]
+const LIGHT: RGB = [249, 250, 251]
+const BORDER: RGB = [229, 231, 235]
+const PHOTO_COLUMNS = 2
+const PHOTO_GAP = 12
+const PHOTO_HEIGHT = 190
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo', dateStyle: 'short', timeStyle: 'short' })
+
+class SiteSurveyPdfLayout {
+  readonly pdf = new PdfDocument()
+  y = MARGIN
+
+  get contentWidth() {
+    return this.pdf.width - MARGIN * 2
+  }
+
+  // Abre uma nova página quando o bloco não cabe no espaço restante
+  ensureSpace(height: number) {
+    if (this.y + height > this.pdf.height - MARGIN) {
+      this.pdf.addPage()
+      this.y = MARGIN
+    }
+  }
+
+  paragraph(text: string, size = 9, color: RGB = [55, 65, 81]) {
+    for (const line of this.pdf.wrapText(text, this.contentWidth, size)) {
+      this.ensureSpace(size + 4)
+      this.pdf.text(MARGIN, this.y, line, { size, color })
+      this.y += size + 4
+    }
+  }
+
+  sectionTitle(title: string) {
+    this.ensureSpace(40)
+    this.pdf.text(MARGIN, this.y, title, { size: 12, bold: true })
+    this.pdf.line(MARGIN, this.y + 18, this.pdf.width - MARGIN, this.y + 18, { stroke: BORDER })
+    this.y += 28
+  }
+}
+
+function answersTable(layout: SiteSurveyPdfLayout, form: SiteSurveyForm, answers: SiteSurveyAnswers) {
+  const { pdf } = layout
+  const labelWidth = 200
+
+  form.fields.forEach((field, index) => {
+    const lines = pdf.wrapText(formatSurveyAnswer(field, answers[field.key]), layout.contentWidth - labelWidth - 12, 9)
+    const height = Math.max(20, lines.length * 12 + 8)
+
+    layout.ensureSpace(height)
+    if (index % 2 === 0) {
+      pdf.rect(MARGIN, layout.y, layout.contentWidth, height, { fill: LIGHT })
+    }
+
+    pdf.text(MARGIN + 6, layout.y + 6, field.label, { size: 9, bold: true })
+    lines.forEach((line, lineIndex) => {
+      pdf.text(MARGIN + labelWidth, layout.y + 6 + lineIndex * 12, line, { size: 9 })
+    })
+    layout.y += height
+  })
+
+  layout.y += 16
+}
+
+function photoGrid(layout: SiteSurveyPdfLayout, photos: SiteSurveyReportData['photos']) {
+  const { pdf } = layout
+  const cellWidth = (layout.contentWidth - PHOTO_GAP * (PHOTO_COLUMNS - 1)) / PHOTO_COLUMNS
+  const rowHeight = PHOTO_HEIGHT + 28
+
+  photos.forEach((photo, index) => {
+    const column = index % PHOTO_COLUMNS
+    if (column === 0) {
+      if (index > 0) layout.y += rowHeight
+      layout.ensureSpace(rowHeight)
+    }
+
+    const x = MARGIN + column * (cellWidth + PHOTO_GAP)
+    const info = photo.data ? readJpegInfo(photo.data) : null
+
+    if (photo.data && info) {
+      // Mantém a proporção dentro da célula, centralizada
+      const scale = Math.min(cellWidth / info.width, PHOTO_HEIGHT / info.height)
+      const width = info.width * scale
+      const height = info.height * scale
+      pdf.rect(x, layout.y, cellWidth, PHOTO_HEIGHT, { fill: LIGHT })
+      pdf.image(x + (cellWidth - width) / 2, layout.y + (PHOTO_HEIGHT - height) / 2, width, height, photo.data)
+    } else {
+      pdf.rect(x, layout.y, cellWidth, PHOTO_HEIGHT, { stroke: BORDER })
+      pdf.text(x + cellWidth / 2, layout.y + PHOTO_HEIGHT / 2 - 5, 'Foto indisponível no relatório', {
+        size: 8,
+        color: MUTED,
+        align: 'center'
+      })
+    }
+
+    const caption = pdf.wrapText(photo.caption || photo.name, cellWidth, 8)[0]
+    pdf.text(x, layout.y + PHOTO_HEIGHT + 6, `${index + 1}. ${caption}`, { size: 8, color: MUTED })
+  })
+
+  if (photos.length > 0) layout.y += rowHeight
+}
+
+/**
+ * Gera o relatório da vistoria técnica: dados da visita, respostas do
+ * formulário, observações e as fotos tiradas no local.
+ */
+export function renderSiteSurveyPdf(data: SiteSurveyReportData): Buffer {
+  const layout = new SiteSurveyPdfLayout()
+  const { pdf } = layout
+
+  // Cabeçalho
+  pdf.rect(0, 0, pdf.width, 80, { fill: BRAND })
+  pdf.text(MARGIN, 22, 'Relatório de Vistoria Técnica', { size: 18, bold: true, color: [255, 255, 255] })
+  pdf.text(MARGIN, 48, data.company.name, { size: 10, color: [255, 237, 213] })
+  pdf.text(pdf.width - MARGIN, 26, 'SolarConnect', { size: 12, bold: true, color: [255, 255, 255], align: 'right' })
+  layout.y = 100
+
+  const contact = [data.company.phone, data.company.email].filter(Boolean).join(' · ')
+  if (contact) {
+    pdf.text(MARGIN, layout.y, contact, { size: 9, color: MUTED })
+    layout.y += 14
+  }
+  pdf.text(
+    MARGIN,
+    layout.y,
+    data.completedAt
+      ? `Concluída em ${formatDateTime(data.completedAt)}${data.completedByName ? ` por ${data.completedByName}` : ''}`
+      : 'Rascunho - vistoria ainda não concluída',
+    { size: 9, color: data.completedAt ? MUTED : BRAND }
+  )
+  layout.y += 26
+
+  layout.sectionTitle('Visita')
+  const visit = [
+    `Cliente: ${data.customer.name}${data.customer.phone ? ` · ${data.customer.phone}` : ''}${data.customer.email ? ` · ${data.customer.email}` : ''}`,
+    `Data: ${formatDateTime(data.appointment.date)} (horário de Brasília)`,
+    `Endereço: ${data.appointment.location}`,
+    ...(data.appointment.technicianName ? [`Técnico: ${data.appointment.technicianName}`] : [])
+  ]
+  visit.forEach(line => layout.paragraph(line))
+  layout.y += 10
+
+  layout.sectionTitle('Levantamento')
+  answersTable(layout, data.form, data.answers)
+
+  if (data.notes) {
+    layout.sectionTitle('Observações')
+    layout.paragraph(data.notes)
+    layout.y += 10
+  }
+
+  if (data.photos.length > 0) {
+    layout.sectionTitle(`Fotos (${data.photos.length})`)
+    photoGrid(layout, data.photos)
+  }
+
+  return pdf.toBuffer()
+}
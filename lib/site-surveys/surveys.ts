@@ -0,0 +1,335 @@
+import { Prisma } from '@prisma/client'
+import { UTApi } from 'uploadthing/server'
+import { db } from '../db'
+import { normalizeEmail } from '../leads/duplicates'
+import {
+  buildSiteSurveyForm,
+  formatSurveyAnswer,
+  getSiteSurveyPendingItems,
+  getSurveyAnswerError,
+  parseSiteSurveyConfig,
+  type SiteSurveyAnswers,
+  type SiteSurveyForm
+} from './fields'
+import type { SiteSurveyReportData } from './report'
+import type { SiteSurveyUpdateInput } from '../validations'
+
+// Validade dos links assinados das fotos, em segundos
+const SIGNED_URL_EXPIRES_IN = 5 * 60
+
+// Limite de fotos por vistoria
+export const MAX_SITE_SURVEY_PHOTOS = 30
+
+export const siteSurveyPhotoSelect = {
+  id: true,
+  name: true,
+  mimeType: true,
+  size: true,
+  caption: true,
+  createdAt: true
+} satisfies Prisma.SiteSurveyPhotoSelect
+
+export class SiteSurveyError extends Error {
+  constructor(message: string, readonly pending: string[] = []) {
+    super(message)
+    this.name = 'SiteSurveyError'
+  }
+}
+
+let utapi: UTApi | null = null
+
+function getUploadThingApi() {
+  if (!utapi) utapi = new UTApi()
+  return utapi
+}
+
+/**
+ * Formulário da vistoria: o congelado na conclusão ou, no rascunho, o atual da
+ * empresa.
+ */
+export function getSurveyForm(survey: { form: Prisma.JsonValue | null }, companyConfig: Prisma.JsonValue | null): SiteSurveyForm {
+  if (survey.form && typeof survey.form === 'object' && !Array.isArray(survey.form)) {
+    return survey.form as unknown as SiteSurveyForm
+  }
+  return buildSiteSurveyForm(parseSiteSurveyConfig(companyConfig))
+}
+
+export function getSurveyAnswers(answers: Prisma.JsonValue): SiteSurveyAnswers {
+  return answers && typeof answers === 'object' && !Array.isArray(answers) ? answers as SiteSurveyAnswers : {}
+}
+
+/**
+ * Lead mais recente da empresa com o email do cliente da visita.
+ */
+export async function findLeadForAppointment(companyId: string, customerEmail: string): Promise<string | null> {
+  const emailKey = normalizeEmail(customerEmail)
+  if (!emailKey) return null
+
+  const lead = await db.lead.findFirst({
+    where: { companyId, emailKey },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  })
+
+  return lead?.id ?? null
+}
+
+/**
+ * Vistoria da visita, criada no primeiro acesso já ligada ao lead do cliente
+ * quando houver um.
+ */
+export async function getOrCreateSiteSurvey(appointment: {
+  id: string
+  companyId: string
+  status: string
+  user: { email: string }
+}) {
+  const existing = await db.siteSurvey.findUnique({ where: { appointmentId: appointment.id } })
+  if (existing) return existing
+
+  if (appointment.status === 'CANCELLED') {
+    throw new SiteSurveyError('Esta visita foi cancelada')
+  }
+
+  const leadId = await findLeadForAppointment(appointment.companyId, appointment.user.email)
+
+  try {
+    return await db.siteSurvey.create({
+      data: {
+        appointmentId: appointment.id,
+        companyId: appointment.companyId,
+        leadId
+      }
+    })
+  } catch (error) {
+    // Dois aparelhos abrindo a mesma visita ao mesmo tempo
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return db.siteSurvey.findUniqueOrThrow({ where: { appointmentId: appointment.id } })
+    }
+    throw error
+  }
+}
+
+/**
+ * Salva o rascunho. Respostas de campos que não existem no formulário são
+ * descartadas; respostas inválidas são recusadas.
+ */
+export async function updateSiteSurveyDraft(
+  survey: { id: string; companyId: string; answers: Prisma.JsonValue },
+  form: SiteSurveyForm,
+  input: SiteSurveyUpdateInput
+) {
+  const answers = getSurveyAnswers(survey.answers)
+  const updates = input.answers ?? {}
+
+  for (const field of form.fields) {
+    if (!(field.key in updates)) continue
+
+    const value = updates[field.key]
+    const error = getSurveyAnswerError(field, value)
+    if (error) throw new SiteSurveyError(error)
+    answers[field.key] = value
+  }
+
+  if (input.leadId) {
+    const lead = await db.lead.findFirst({ where: { id: input.leadId, companyId: survey.companyId }, select: { id: true } })
+    if (!lead) throw new SiteSurveyError('Lead não encontrado')
+  }
+
+  return db.siteSurvey.update({
+    where: { id: survey.id },
+    data: {
+      answers: answers as Prisma.InputJsonObject,
+      ...(input.notes !== undefined && { notes: input.notes || null }),
+      ...(input.leadId !== undefined && { leadId: input.leadId })
+    }
+  })
+}
+
+/**
+ * Conclui a vistoria: congela o formulário, marca a visita como realizada e
+ * registra uma nota no lead.
+ */
+export async function completeSiteSurvey(surveyId: string, userId: string) {
+  const survey = await db.siteSurvey.findUnique({
+    where: { id: surveyId },
+    include: {
+      company: { select: { siteSurveyConfig: true } },
+      appointment: { select: { id: true, status: true } },
+      _count: { select: { photos: true } }
+    }
+  })
+
+  if (!survey) throw new SiteSurveyError('Vistoria não encontrada')
+  if (survey.status === 'COMPLETED') throw new SiteSurveyError('Vistoria já concluída')
+
+  const form = getSurveyForm({ form: null }, survey.company.siteSurveyConfig)
+  const pending = getSiteSurveyPendingItems(form, getSurveyAnswers(survey.answers), survey._count.photos)
+
+  if (pending.length > 0) {
+    throw new SiteSurveyError('Vistoria incompleta', pending)
+  }
+
+  const completedAt = new Date()
+
+  return db.$transaction(async (tx) => {
+    const completed = await tx.siteSurvey.update({
+      where: { id: survey.id },
+      data: {
+        status: 'COMPLETED',
+        form: form as unknown as Prisma.InputJsonObject,
+        completedAt,
+        completedById: userId
+      }
+    })
+
+    if (survey.appointment.status !== 'COMPLETED') {
+      await tx.appointment.update({
+        where: { id: survey.appointment.id },
+        data: { status: 'COMPLETED', sequence: { increment: 1 } }
+      })
+    }
+
+    if (survey.leadId) {
+      await tx.leadActivity.create({
+        data: {
+          leadId: survey.leadId,
+          authorId: userId,
+          type: 'NOTE',
+          content: `Vistoria técnica concluída com ${survey._count.photos} foto${survey._count.photos === 1 ? '' : 's'}. Relatório: /api/site-surveys/${survey.id}/pdf`,
+          occurredAt: completedAt
+        }
+      })
+    }
+
+    return completed
+  })
+}
+
+export interface LeadSiteSurveySummary {
+  id: string
+  status: 'DRAFT' | 'COMPLETED'
+  appointmentId: string
+  appointmentDate: Date
+  completedAt: Date | null
+  photoCount: number
+  answers: Array<{ label: string; value: string }>
+  notes: string | null
+}
+
+/**
+ * Vistorias do lead com as respostas já formatadas, para a ficha do lead e a
+ * montagem do orçamento.
+ */
+export async function getLeadSiteSurveys(
+  leadId: string,
+  company: { id: string; siteSurveyConfig: Prisma.JsonValue | null }
+): Promise<LeadSiteSurveySummary[]> {
+  const surveys = await db.siteSurvey.findMany({
+    where: { leadId, companyId: company.id },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      appointment: { select: { date: true } },
+      _count: { select: { photos: true } }
+    }
+  })
+
+  return surveys.map(survey => {
+    const answers = getSurveyAnswers(survey.answers)
+
+    return {
+      id: survey.id,
+      status: survey.status,
+      appointmentId: survey.appointmentId,
+      appointmentDate: survey.appointment.date,
+      completedAt: survey.completedAt,
+      photoCount: survey._count.photos,
+      answers: getSurveyForm(survey, company.siteSurveyConfig).fields.map(field => ({
+        label: field.label,
+        value: formatSurveyAnswer(field, answers[field.key])
+      })),
+      notes: survey.notes
+    }
+  })
+}
+
+export async function getSiteSurveyPhotoUrl(fileKey: string): Promise<string> {
+  const { ufsUrl } = await getUploadThingApi().generateSignedURL(fileKey, { expiresIn: SIGNED_URL_EXPIRES_IN })
+  return ufsUrl
+}
+
+export async function deleteSiteSurveyPhoto(photo: { id: string; fileKey: string }): Promise<void> {
+  await db.siteSurveyPhoto.delete({ where: { id: photo.id } })
+
+  try {
+    await getUploadThingApi().deleteFiles(photo.fileKey)
+  } catch (error) {
+    console.error('Error deleting site survey photo:', error)
+  }
+}
+
+// Baixa a foto para o PDF; uma foto que falhar não impede o relatório
+async function downloadPhoto(fileKey: string): Promise<Buffer | null> {
+  try {
+    const response = await fetch(await getSiteSurveyPhotoUrl(fileKey))
+    if (!response.ok) return null
+    return Buffer.from(await response.arrayBuffer())
+  } catch (error) {
+    console.error('Error downloading site survey photo:', error)
+    return null
+  }
+}
+
+/**
+ * Reúne os dados do relatório em PDF de uma vistoria da empresa.
+ */
+export async function getSiteSurveyReportData(surveyId: string, companyId: string): Promise<SiteSurveyReportData | null> {
+  const survey = await db.siteSurvey.findFirst({
+    where: { id: surveyId, companyId },
+    include: {
+      company: { select: { name: true, phone: true, email: true, siteSurveyConfig: true } },
+      appointment: {
+        select: {
+          title: true,
+          date: true,
+          location: true,
+          technician: { select: { name: true } },
+          user: { select: { name: true, email: true } }
+        }
+      },
+      lead: { select: { name: true, email: true, phone: true } },
+      completedBy: { select: { name: true } },
+      photos: { orderBy: { createdAt: 'asc' }, select: { name: true, caption: true, fileKey: true } }
+    }
+  })
+
+  if (!survey) return null
+
+  const photos = []
+  for (const photo of survey.photos) {
+    photos.push({ name: photo.name, caption: photo.caption, data: await downloadPhoto(photo.fileKey) })
+  }
+
+  const customer = survey.lead ?? survey.appointment.user
+
+  return {
+    form: getSurveyForm(survey, survey.company.siteSurveyConfig),
+    answers: getSurveyAnswers(survey.answers),
+    notes: survey.notes,
+    completedAt: survey.completedAt,
+    completedByName: survey.completedBy?.name,
+    appointment: {
+      title: survey.appointment.title,
+      date: survey.appointment.date,
+      location: survey.appointment.location,
+      technicianName: survey.appointment.technician?.name
+    },
+    customer: {
+      name: customer.name ?? customer.email,
+      email: customer.email,
+      phone: survey.lead?.phone
+    },
+    company: { name: survey.company.name, phone: survey.company.phone, email: survey.company.email },
+    photos
+  }
+}
@@ -0,0 +1,252 @@
+import type { ConnectionType } from './financial'
+
+export type BillDistributor = 'CEMIG' | 'ENEL' | 'CPFL' | 'LIGHT' | 'COPEL'
+
+export interface ConsumptionRecord {
+  month: string // AAAA-MM
+  consumption: number // kWh
+}
+
+export interface ElectricityBill {
+  distributor: BillDistributor | null
+  ucNumber: string | null // Unidade consumidora (número da instalação)
+  connectionType: ConnectionType | null
+  tariff: number | null // R$/kWh com tributos
+  amountDue: number | null // R$
+  referenceMonth: string | null // AAAA-MM
+  consumptionHistory: ConsumptionRecord[] // Até 12 meses, do mais antigo para o mais recente
+  averageConsumption: number | null // kWh/mês
+}
+
+interface BillLayout {
+  name: string
+  detect: RegExp
+  // Rótulos do número da unidade consumidora, na ordem de preferência
+  ucPatterns: RegExp[]
+}
+
+const UC_NUMBER = '(\\d[\\d.\\-/ ]{4,18}\\d)'
+
+function ucPattern(label: string): RegExp {
+  return new RegExp(`${label}\\s*(?:n[º°o.]*)?\\s*:?\\s*${UC_NUMBER}`, 'i')
+}
+
+const INSTALLATION_LABEL = 'n[º°o.]*\\s*(?:da\\s+)?instala[çc][ãa]o'
+
+// Onde cada distribuidora imprime o número da unidade consumidora
+export const BILL_LAYOUTS: Record<BillDistributor, BillLayout> = {
+  CEMIG: {
+    name: 'Cemig',
+    detect: /\bCEMIG\b/i,
+    ucPatterns: [ucPattern(INSTALLATION_LABEL)]
+  },
+  ENEL: {
+    name: 'Enel',
+    detect: /\bENEL\b|enel\.com\.br/i,
+    ucPatterns: [ucPattern(INSTALLATION_LABEL), ucPattern('\\bUC\\b'), ucPattern('n[º°o.]*\\s*do\\s+cliente')]
+  },
+  CPFL: {
+    name: 'CPFL',
+    detect: /\bCPFL\b/i,
+    ucPatterns: [ucPattern(INSTALLATION_LABEL), ucPattern('seu\\s+c[óo]digo')]
+  },
+  LIGHT: {
+    name: 'Light',
+    detect: /\bLIGHT\s+(?:S\.?\s?A|SERVI[ÇC]OS)|light\.com\.br/i,
+    ucPatterns: [ucPattern('c[óo]digo\\s+(?:do\\s+)?cliente'), ucPattern(INSTALLATION_LABEL)]
+  },
+  COPEL: {
+    name: 'Copel',
+    detect: /\bCOPEL\b/i,
+    ucPatterns: [ucPattern('unidade\\s+consumidora'), ucPattern('\\bUC\\b')]
+  }
+}
+
+const DISTRIBUTORS: BillDistributor[] = ['CEMIG', 'ENEL', 'CPFL', 'LIGHT', 'COPEL']
+
+// Rótulos genéricos, para distribuidoras fora da lista ou layouts novos
+const FALLBACK_UC_PATTERNS = [
+  ucPattern('unidade\\s+consumidora'),
+  ucPattern(INSTALLATION_LABEL),
+  ucPattern('\\bUC\\b')
+]
+
+const MONTHS = ['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ']
+const MONTH_PATTERN = MONTHS.join('|')
+
+// "MAR/25 250", "MAR 2025 250", "03/2025 250 30" (kWh seguido dos dias, opcional)
+const HISTORY_PATTERN = new RegExp(
+  `(?:\\b(${MONTH_PATTERN})\\s*[/.\\-]?\\s*(\\d{4}|\\d{2})|(?:^|[^\\d/])(0[1-9]|1[0-2])/(\\d{4}))\\s+(\\d{1,3}(?:\\.\\d{3})+|\\d+)(?:,\\d+)?(?![\\d/])`,
+  'gi'
+)
+
+const REFERENCE_PATTERN = new RegExp(
+  `(?:refer[êe]ncia|m[êe]s\\s+(?:de\\s+)?refer[êe]ncia|conta\\s+m[êe]s)\\s*:?\\s*(${MONTH_PATTERN})\\s*[/.\\-]?\\s*(\\d{4}|\\d{2})`,
+  'i'
+)
+
+const AMOUNT_DUE_PATTERN =
+  /(?:total\s+a\s+pagar|valor\s+a\s+pagar|valor\s+total|total\s+da\s+fatura)\s*:?\s*(?:\(?R\$\)?)?\s*(\d{1,3}(?:\.\d{3})*,\d{2})/i
+
+// Itens de consumo da fatura (TE, TUSD ou "energia elétrica") e o que não é tarifa de consumo
+const CONSUMPTION_ITEM = /consumo|energia\s+el[ée]t/i
+const EXCLUDED_ITEM = /inje|compens|ilumina|bandeira|cr[ée]dito|gera[çc][ãa]o|devolu|multa|juros|reativ|demanda/i
+
+function parseBrazilianNumber(value: string): number {
+  return parseFloat(value.replace(/\./g, '').replace(',', '.'))
+}
+
+function toMonthKey(month: string, year: string): string | null {
+  const index = /^\d+$/.test(month) ? parseInt(month, 10) - 1 : MONTHS.indexOf(month.toUpperCase())
+  if (index < 0 || index > 11) return null
+
+  const fullYear = year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10)
+  return `${fullYear}-${String(index + 1).padStart(2, '0')}`
+}
+
+export function detectDistributor(text: string): BillDistributor | null {
+  return DISTRIBUTORS.find(distributor => BILL_LAYOUTS[distributor].detect.test(text)) ?? null
+}
+
+function parseUcNumber(text: string, distributor: BillDistributor | null): string | null {
+  const patterns = distributor ? [...BILL_LAYOUTS[distributor].ucPatterns, ...FALLBACK_UC_PATTERNS] : FALLBACK_UC_PATTERNS
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(text)
+    const digits = match?.[1].replace(/\D/g, '')
+    if (digits && digits.length >= 6 && digits.length <= 15) return digits
+  }
+
+  return null
+}
+
+function parseConnectionType(text: string): ConnectionType | null {
+  const match = /\b(mono|bi|tri)f[áa]sic[oa]\b/i.exec(text)
+  if (!match) return null
+
+  const phases = match[1].toLowerCase()
+  return phases === 'mono' ? 'MONOFASICO' : phases === 'bi' ? 'BIFASICO' : 'TRIFASICO'
+}
+
+// Linhas que são itens da fatura (com valores em R$), não a tabela de histórico
+function isChargeLine(line: string): boolean {
+  return /tusd|\bte\b|r\$|tarifa|tributo|pre[çc]o/i.test(line)
+}
+
+function parseConsumptionHistory(lines: string[]): ConsumptionRecord[] {
+  const byMonth = new Map<string, number>()
+
+  for (const line of lines) {
+    if (isChargeLine(line)) continue
+
+    HISTORY_PATTERN.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = HISTORY_PATTERN.exec(line))) {
+      const key = match[1] ? toMonthKey(match[1], match[2]) : toMonthKey(match[3], match[4])
+      const consumption = parseBrazilianNumber(match[5])
+
+      if (key && !byMonth.has(key) && consumption > 0 && consumption < 1000000) {
+        byMonth.set(key, consumption)
+      }
+    }
+  }
+
+  return Array.from(byMonth.entries())
+    .map(([month, consumption]) => ({ month, consumption }))
+    .sort((a, b) => (a.month < b.month ? 1 : -1))
+    .slice(0, 12)
+    .reverse()
+}
+
+// Preço unitário do item: o maior valor com 4+ casas decimais (coluna "com tributos")
+function getUnitPrice(line: string): number | null {
+  const prices = (line.match(/\d+,\d{4,}/g) ?? [])
+    .map(parseBrazilianNumber)
+    .filter(price => price > 0.05 && price < 5)
+
+  return prices.length ? Math.max(...prices) : null
+}
+
+/**
+ * Tarifa cheia (R$/kWh com tributos) pelos itens de consumo. Faturas que separam
+ * TE e TUSD somam as duas; as demais trazem um único item de energia elétrica.
+ */
+function parseTariff(lines: string[]): number | null {
+  const items = lines.filter(line => CONSUMPTION_ITEM.test(line) && !EXCLUDED_ITEM.test(line))
+
+  const tusd = items.find(line => /tusd|uso\s+(?:do\s+)?sistema/i.test(line) && getUnitPrice(line) !== null)
+  const te = items.find(line => line !== tusd && /\bte\b|energia\s+el[ée]t\w*\s+consumo/i.test(line) && getUnitPrice(line) !== null)
+
+  if (tusd && te) {
+    return getUnitPrice(tusd)! + getUnitPrice(te)!
+  }
+
+  const single = items.find(line => getUnitPrice(line) !== null)
+  return single ? getUnitPrice(single) : null
+}
+
+function parseReferenceMonth(text: string): string | null {
+  const match = REFERENCE_PATTERN.exec(text)
+  return match ? toMonthKey(match[1], match[2]) : null
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Lê os dados da conta de luz a partir do texto extraído do PDF da distribuidora.
+ * Campos não encontrados ficam nulos para o cliente completar no formulário.
+ */
+export function parseElectricityBill(text: string): ElectricityBill {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean)
+  const flat = lines.join(' ')
+
+  const distributor = detectDistributor(flat)
+  const consumptionHistory = parseConsumptionHistory(lines)
+  const referenceMonth = parseReferenceMonth(flat) ?? consumptionHistory[consumptionHistory.length - 1]?.month ?? null
+  const amountDueMatch = AMOUNT_DUE_PATTERN.exec(flat)
+  const amountDue = amountDueMatch ? parseBrazilianNumber(amountDueMatch[1]) : null
+
+  let tariff = parseTariff(lines)
+
+  // Sem itens legíveis, estima pela fatura do mês de referência
+  if (tariff === null && amountDue !== null) {
+    const current = consumptionHistory.find(record => record.month === referenceMonth)
+    if (current) tariff = amountDue / current.consumption
+  }
+
+  const averageConsumption = consumptionHistory.length
+    ? consumptionHistory.reduce((sum, record) => sum + record.consumption, 0) / consumptionHistory.length
+    : null
+
+  return {
+    distributor,
+    ucNumber: parseUcNumber(flat, distributor),
+    connectionType: parseConnectionType(flat),
+    tariff: tariff !== null ? roundTo(tariff, 4) : null,
+    amountDue,
+    referenceMonth,
+    consumptionHistory,
+    averageConsumption: averageConsumption !== null ? roundTo(averageConsumption, 1) : null
+  }
+}
+
+/**
+ * Consumo de cada mês do ano (jan–dez) a partir do histórico da fatura, usado na
+ * simulação no lugar do consumo médio. Meses sem leitura recebem a média.
+ */
+export function getMonthlyConsumptionProfile(history: ConsumptionRecord[]): number[] | undefined {
+  if (history.length === 0) return undefined
+
+  const average = history.reduce((sum, record) => sum + record.consumption, 0) / history.length
+  const profile: Array<number | undefined> = new Array(12).fill(undefined)
+
+  // O histórico vem do mais antigo para o mais recente; a leitura mais recente de cada mês prevalece
+  for (const record of history) {
+    profile[parseInt(record.month.slice(5, 7), 10) - 1] = record.consumption
+  }
+
+  return profile.map(value => value ?? average)
+}
@@ -0,0 +1,234 @@
+export type ConnectionType = 'MONOFASICO' | 'BIFASICO' | 'TRIFASICO'
+
+export type CompensationRule = 'GD_I' | 'GD_II'
+
+// Consumo mínimo faturado (custo de disponibilidade) por tipo de ligação, em kWh/mês
+export const MINIMUM_BILLED_CONSUMPTION: Record<ConnectionType, number> = {
+  MONOFASICO: 30,
+  BIFASICO: 50,
+  TRIFASICO: 100
+}
+
+// Lei 14.300/2022, art. 27: percentual da TUSD Fio B cobrado sobre a energia compensada
+// por unidades GD II. A partir de 2029 vale a regra definida pela ANEEL (cobrança integral).
+export const FIO_B_TRANSITION_SCHEDULE: Record<number, number> = {
+  2023: 0.15,
+  2024: 0.30,
+  2025: 0.45,
+  2026: 0.60,
+  2027: 0.75,
+  2028: 0.90
+}
+
+// Unidades com solicitação de acesso protocolada até 07/01/2023 mantêm a isenção até 2045
+export const GD_I_PROTOCOL_DEADLINE = new Date('2023-01-07T23:59:59-03:00')
+export const GD_I_EXEMPTION_END_YEAR = 2045
+
+export interface FinancialModelInput {
+  systemCost: number
+  monthlyGeneration: number[] // kWh do primeiro ano, 12 valores
+  monthlyConsumption: number // kWh/mês
+  monthlyConsumptionProfile?: number[] // kWh de cada mês (jan–dez); substitui a média mês a mês
+  tariff: number // R$/kWh com impostos
+  connectionType: ConnectionType
+  startDate?: Date // Data do protocolo de acesso; define a regra de compensação
+  years?: number
+  fioBShare?: number // Participação da TUSD Fio B na tarifa (0-1)
+  simultaneity?: number // Fração da geração consumida instantaneamente (0-1)
+  tariffEscalation?: number // Reajuste tarifário anual (0-1)
+  degradation?: number // Perda anual de eficiência dos módulos (0-1)
+  discountRate?: number // Taxa mínima de atratividade anual (0-1)
+  maintenanceCostShare?: number // Custo anual de O&M como fração do investimento
+  inverterReplacementYear?: number
+  inverterReplacementCostShare?: number
+}
+
+export interface YearlyCashFlow {
+  year: number
+  calendarYear: number
+  generation: number // kWh
+  tariff: number // R$/kWh
+  fioBRate: number // Percentual do Fio B cobrado (0-1)
+  billWithoutSolar: number
+  billWithSolar: number
+  savings: number
+  costs: number
+  cashFlow: number
+  cumulativeCashFlow: number
+  discountedCashFlow: number
+  cumulativeDiscountedCashFlow: number
+}
+
+export interface FinancialModelResult {
+  compensationRule: CompensationRule
+  minimumBilledConsumption: number
+  firstYearSavings: number
+  monthlySavings: number // média do primeiro ano
+  totalSavings: number
+  netPresentValue: number
+  internalRateOfReturn: number | null
+  paybackPeriod: number | null // anos
+  discountedPaybackPeriod: number | null // anos
+  cashFlows: YearlyCashFlow[]
+}
+
+export function getCompensationRule(startDate: Date): CompensationRule {
+  return startDate <= GD_I_PROTOCOL_DEADLINE ? 'GD_I' : 'GD_II'
+}
+
+export function getFioBRate(rule: CompensationRule, calendarYear: number): number {
+  if (rule === 'GD_I') {
+    return calendarYear <= GD_I_EXEMPTION_END_YEAR ? 0 : 1
+  }
+
+  if (calendarYear < 2023) return 0
+  return FIO_B_TRANSITION_SCHEDULE[calendarYear] ?? 1
+}
+
+/**
+ * Taxa interna de retorno por bisseção. Retorna null quando o fluxo não muda de sinal
+ * dentro do intervalo pesquisado (-99% a 1000% a.a.).
+ */
+export function calculateIRR(cashFlows: number[]): number | null {
+  const npv = (rate: number) =>
+    cashFlows.reduce((sum, value, year) => sum + value / Math.pow(1 + rate, year), 0)
+
+  let low = -0.99
+  let high = 10
+  if (npv(low) * npv(high) > 0) return null
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const value = npv(mid)
+    if (Math.abs(value) < 1e-6) return mid
+    if (npv(low) * value < 0) {
+      high = mid
+    } else {
+      low = mid
+    }
+  }
+
+  return (low + high) / 2
+}
+
+function findPaybackPeriod(initialInvestment: number, flows: number[]): number | null {
+  let cumulative = -initialInvestment
+
+  for (let i = 0; i < flows.length; i++) {
+    const previous = cumulative
+    cumulative += flows[i]
+    if (cumulative >= 0 && flows[i] > 0) {
+      return i + (-previous / flows[i])
+    }
+  }
+
+  return null
+}
+
+/**
+ * Modelo de fluxo de caixa de um sistema de micro/minigeração distribuída sob o
+ * Sistema de Compensação de Energia Elétrica da Lei 14.300/2022.
+ *
+ * Para cada mês, a energia consumida no instante da geração não passa pela rede; o
+ * excedente injetado vira crédito que abate o consumo da rede (com saldo acumulado
+ * entre meses). Sobre a energia compensada incide o percentual vigente da TUSD Fio B,
+ * e a fatura nunca fica abaixo do custo de disponibilidade do tipo de ligação.
+ */
+export function calculateFinancialModel(input: FinancialModelInput): FinancialModelResult {
+  const {
+    systemCost,
+    monthlyGeneration,
+    monthlyConsumption,
+    monthlyConsumptionProfile,
+    tariff,
+    connectionType,
+    startDate = new Date(),
+    years = 25,
+    fioBShare = 0.28,
+    simultaneity = 0.3,
+    tariffEscalation = 0.06,
+    degradation = 0.005,
+    discountRate = 0.1,
+    maintenanceCostShare = 0.005,
+    inverterReplacementYear = 12,
+    inverterReplacementCostShare = 0.12
+  } = input
+
+  const compensationRule = getCompensationRule(startDate)
+  const minimumBilledConsumption = MINIMUM_BILLED_CONSUMPTION[connectionType]
+  const startYear = startDate.getFullYear()
+
+  const cashFlows: YearlyCashFlow[] = []
+  let creditBalance = 0 // kWh
+  let cumulativeCashFlow = -systemCost
+  let cumulativeDiscountedCashFlow = -systemCost
+
+  for (let year = 1; year <= years; year++) {
+    const calendarYear = startYear + year - 1
+    const yearTariff = tariff * Math.pow(1 + tariffEscalation, year - 1)
+    const degradationFactor = Math.pow(1 - degradation, year - 1)
+    const fioBRate = getFioBRate(compensationRule, calendarYear)
+
+    let generation = 0
+    let billWithoutSolar = 0
+    let billWithSolar = 0
+
+    for (let month = 0; month < monthlyGeneration.length; month++) {
+      const monthGeneration = monthlyGeneration[month] * degradationFactor
+      const monthConsumption = monthlyConsumptionProfile?.[month] ?? monthlyConsumption
+      const selfConsumed = Math.min(monthGeneration * simultaneity, monthConsumption)
+      const injected = monthGeneration - selfConsumed
+      const gridConsumption = monthConsumption - selfConsumed
+
+      const availableCredits = creditBalance + injected
+      const compensated = Math.min(availableCredits, Math.max(0, gridConsumption - minimumBilledConsumption))
+      creditBalance = availableCredits - compensated
+
+      const billedConsumption = Math.max(gridConsumption - compensated, minimumBilledConsumption)
+
+      generation += monthGeneration
+      billWithoutSolar += Math.max(monthConsumption, minimumBilledConsumption) * yearTariff
+      billWithSolar += billedConsumption * yearTariff + compensated * yearTariff * fioBShare * fioBRate
+    }
+
+    const savings = billWithoutSolar - billWithSolar
+    const costs = systemCost * maintenanceCostShare +
+      (year === inverterReplacementYear ? systemCost * inverterReplacementCostShare : 0)
+    const cashFlow = savings - costs
+    const discountedCashFlow = cashFlow / Math.pow(1 + discountRate, year)
+
+    cumulativeCashFlow += cashFlow
+    cumulativeDiscountedCashFlow += discountedCashFlow
+
+    cashFlows.push({
+      year,
+      calendarYear,
+      generation,
+      tariff: yearTariff,
+      fioBRate,
+      billWithoutSolar,
+      billWithSolar,
+      savings,
+      costs,
+      cashFlow,
+      cumulativeCashFlow,
+      discountedCashFlow,
+      cumulativeDiscountedCashFlow
+    })
+  }
+
+  const firstYearSavings = cashFlows[0]?.savings ?? 0
+
+  return {
+    compensationRule,
+    minimumBilledConsumption,
+    firstYearSavings,
+    monthlySavings: firstYearSavings / 12,
+    totalSavings: cashFlows.reduce((sum, flow) => sum + flow.savings, 0),
+    netPresentValue: cumulativeDiscountedCashFlow,
+    internalRateOfReturn: calculateIRR([-systemCost, ...cashFlows.map(flow => flow.cashFlow)]),
+    paybackPeriod: findPaybackPeriod(systemCost, cashFlows.map(flow => flow.cashFlow)),
+    discountedPaybackPeriod: findPaybackPeriod(systemCost, cashFlows.map(flow => flow.discountedCashFlow)),
+    cashFlows
+  }
+}
@@ -0,0 +1,8 @@
+export * from './municipalities'
+export * from './irradiance'
+export * from './sizing'
+export * from './financial'
+export * from './matching'
+export * from './simulation'
+export * from './report'
+export * from './bill'
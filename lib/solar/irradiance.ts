@@ -0,0 +1,170 @@
+import type { MonthlyValues } from './municipalities'
+
+const SOLAR_CONSTANT = 1367 // W/m²
+const GROUND_ALBEDO = 0.2
+const STEPS_PER_DAY = 96 // passos de 15 minutos
+
+// Dia representativo de cada mês (Klein, 1977)
+const REPRESENTATIVE_DAYS = [17, 47, 75, 105, 135, 162, 198, 228, 258, 288, 318, 344]
+
+export const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+export interface PlaneOfArrayOptions {
+  latitude: number
+  tilt: number // Inclinação do módulo em graus (0 = horizontal)
+  azimuth: number // Azimute da face do módulo em graus (0 = Norte, 90 = Leste, 180 = Sul, 270 = Oeste)
+  moduleTemperatureCoefficient?: number // %/°C, ex: -0.37
+  nominalOperatingCellTemperature?: number // NOCT em °C
+}
+
+export interface MonthlyIrradiance {
+  month: number // 1-12
+  horizontal: number // kWh/m²/dia
+  planeOfArray: number // kWh/m²/dia
+  clearnessIndex: number
+  cellTemperature: number // °C, ponderada pela irradiância
+  temperatureFactor: number // Fator multiplicativo de perdas térmicas
+}
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180
+
+/**
+ * Transpõe a irradiação global horizontal média de um mês para o plano dos módulos.
+ *
+ * Usa a fração difusa mensal de Erbs, a distribuição horária de Collares-Pereira & Rabl
+ * (global) e Liu & Jordan (difusa) e o modelo de céu isotrópico. A temperatura de célula
+ * é estimada pelo modelo NOCT a cada passo, ponderada pela energia incidente.
+ */
+export function calculateMonthlyIrradiance(
+  month: number,
+  horizontalIrradiation: number,
+  ambientTemperature: number,
+  options: PlaneOfArrayOptions
+): MonthlyIrradiance {
+  const {
+    latitude,
+    tilt,
+    azimuth,
+    moduleTemperatureCoefficient = -0.37,
+    nominalOperatingCellTemperature = 45
+  } = options
+
+  const dayOfYear = REPRESENTATIVE_DAYS[month - 1]
+  const phi = toRadians(latitude)
+  const beta = toRadians(tilt)
+  // Convenção de Duffie & Beckman: 0 = Sul, negativo para Leste, positivo para Oeste
+  const gamma = toRadians(azimuth - 180)
+
+  const declination = toRadians(23.45 * Math.sin(toRadians(360 * (284 + dayOfYear) / 365)))
+  const sunsetHourAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))))
+
+  // Irradiação extraterrestre diária (kWh/m²/dia)
+  const eccentricity = 1 + 0.033 * Math.cos(toRadians(360 * dayOfYear / 365))
+  const extraterrestrial = (24 / Math.PI) * SOLAR_CONSTANT * eccentricity * (
+    Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetHourAngle) +
+    sunsetHourAngle * Math.sin(phi) * Math.sin(declination)
+  ) / 1000
+
+  const clearnessIndex = Math.min(0.8, Math.max(0.3, horizontalIrradiation / extraterrestrial))
+
+  const diffuseFraction = sunsetHourAngle <= toRadians(81.4)
+    ? 1.391 - 3.560 * clearnessIndex + 4.189 * clearnessIndex ** 2 - 2.137 * clearnessIndex ** 3
+    : 1.311 - 3.022 * clearnessIndex + 3.427 * clearnessIndex ** 2 - 1.821 * clearnessIndex ** 3
+  const diffuseIrradiation = horizontalIrradiation * diffuseFraction
+
+  const a = 0.409 + 0.5016 * Math.sin(sunsetHourAngle - toRadians(60))
+  const b = 0.6609 - 0.4767 * Math.sin(sunsetHourAngle - toRadians(60))
+  const cosSunset = Math.cos(sunsetHourAngle)
+
+  const step = (2 * sunsetHourAngle) / STEPS_PER_DAY
+  const stepHours = (step * 12) / Math.PI
+
+  // Primeiro passo: pesos relativos das distribuições horárias, para normalizar a soma diária
+  const samples: Array<{ omega: number; globalWeight: number; diffuseWeight: number }> = []
+  let globalWeightSum = 0
+  let diffuseWeightSum = 0
+
+  for (let i = 0; i < STEPS_PER_DAY; i++) {
+    const omega = -sunsetHourAngle + (i + 0.5) * step
+    const shape = Math.max(0, Math.cos(omega) - cosSunset)
+    const globalWeight = (a + b * Math.cos(omega)) * shape
+    const diffuseWeight = shape
+
+    samples.push({ omega, globalWeight, diffuseWeight })
+    globalWeightSum += globalWeight
+    diffuseWeightSum += diffuseWeight
+  }
+
+  const sinDelta = Math.sin(declination)
+  const cosDelta = Math.cos(declination)
+  const sinPhi = Math.sin(phi)
+  const cosPhi = Math.cos(phi)
+  const cosBeta = Math.cos(beta)
+  const sinBeta = Math.sin(beta)
+
+  let planeOfArray = 0
+  let weightedCellTemperature = 0
+
+  for (const sample of samples) {
+    if (globalWeightSum === 0) break
+
+    const global = horizontalIrradiation * sample.globalWeight / globalWeightSum
+    const diffuse = diffuseWeightSum > 0
+      ? Math.min(global, diffuseIrradiation * sample.diffuseWeight / diffuseWeightSum)
+      : 0
+    const beam = Math.max(0, global - diffuse)
+
+    const cosOmega = Math.cos(sample.omega)
+    const cosZenith = cosPhi * cosDelta * cosOmega + sinPhi * sinDelta
+    const cosIncidence =
+      sinDelta * sinPhi * cosBeta -
+      sinDelta * cosPhi * sinBeta * Math.cos(gamma) +
+      cosDelta * cosPhi * cosBeta * cosOmega +
+      cosDelta * sinPhi * sinBeta * Math.cos(gamma) * cosOmega +
+      cosDelta * sinBeta * Math.sin(gamma) * Math.sin(sample.omega)
+
+    // Sol muito baixo: a razão geométrica diverge, então o feixe direto é desprezado
+    const beamFactor = cosZenith > 0.087 ? Math.max(0, cosIncidence) / cosZenith : 0
+
+    const tilted =
+      beam * beamFactor +
+      diffuse * (1 + cosBeta) / 2 +
+      global * GROUND_ALBEDO * (1 - cosBeta) / 2
+
+    const irradianceWm2 = (tilted * 1000) / stepHours
+    const cellTemperature = ambientTemperature + ((nominalOperatingCellTemperature - 20) / 800) * irradianceWm2
+
+    planeOfArray += tilted
+    weightedCellTemperature += cellTemperature * tilted
+  }
+
+  const cellTemperature = planeOfArray > 0 ? weightedCellTemperature / planeOfArray : ambientTemperature
+  const temperatureFactor = 1 + (moduleTemperatureCoefficient / 100) * (cellTemperature - 25)
+
+  return {
+    month,
+    horizontal: horizontalIrradiation,
+    planeOfArray,
+    clearnessIndex,
+    cellTemperature,
+    temperatureFactor: Math.min(1.05, temperatureFactor)
+  }
+}
+
+export function calculateYearlyIrradiance(
+  irradiation: MonthlyValues,
+  temperature: MonthlyValues,
+  options: PlaneOfArrayOptions
+): MonthlyIrradiance[] {
+  return irradiation.map((value, index) =>
+    calculateMonthlyIrradiance(index + 1, value, temperature[index], options)
+  )
+}
+
+/**
+ * Inclinação ótima aproximada para sistemas conectados à rede: próxima à latitude local,
+ * limitada a 10° para garantir autolimpeza dos módulos.
+ */
+export function getRecommendedTilt(latitude: number): number {
+  return Math.max(10, Math.round(Math.abs(latitude)))
+}
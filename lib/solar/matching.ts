@@ -0,0 +1,156 @@
+import { slugify } from '../utils'
+import type { Municipality } from './municipalities'
+
+export type CatalogCategory = 'KIT_COMPLETO' | 'PAINEL_SOLAR' | 'INVERSOR'
+
+export interface CatalogProduct {
+  id: string
+  name: string
+  category: CatalogCategory
+  power: number // W
+  price: number
+  companyId: string
+  brand?: string | null
+  warranty?: number | null
+}
+
+export interface ServiceAreaCompany {
+  id: string
+  city?: string | null
+  state?: string | null
+  serviceAreas: string[]
+}
+
+export interface EquipmentItem {
+  productId: string
+  name: string
+  category: CatalogCategory
+  quantity: number
+  unitPrice: number
+  power: number // W
+}
+
+export interface EquipmentMatch {
+  type: 'KIT' | 'COMPONENTS'
+  companyId: string
+  items: EquipmentItem[]
+  totalPower: number // W de pico instalados
+  totalPrice: number
+}
+
+// Faixa aceitável entre a potência oferecida e a dimensionada
+const KIT_POWER_TOLERANCE = { min: 0.9, max: 1.2 }
+// Relação entre potência CC dos módulos e CA do inversor (carregamento)
+const INVERTER_LOADING = { min: 0.75, max: 1.35 }
+
+/**
+ * Pontua o quanto uma empresa cobre o município: 3 quando a cidade aparece nas áreas
+ * atendidas, 2 quando a sede fica na cidade, 1 quando atende o estado, 0 caso contrário.
+ */
+export function getCoverageScore(company: ServiceAreaCompany, municipality: Municipality): number {
+  const city = slugify(municipality.name)
+  const areas = company.serviceAreas.map(area => slugify(area))
+
+  if (areas.some(area => area.includes(city))) {
+    return 3
+  }
+
+  if (company.city && slugify(company.city) === city) {
+    return 2
+  }
+
+  const state = municipality.state.toLowerCase()
+  const coversState = areas.some(area => area.split('-').includes(state))
+  if (coversState || company.state?.toUpperCase() === municipality.state) {
+    return 1
+  }
+
+  return 0
+}
+
+function matchKits(products: CatalogProduct[], targetPower: number): EquipmentMatch[] {
+  return products
+    .filter(product =>
+      product.category === 'KIT_COMPLETO' &&
+      product.power >= targetPower * KIT_POWER_TOLERANCE.min &&
+      product.power <= targetPower * KIT_POWER_TOLERANCE.max
+    )
+    .map(kit => ({
+      type: 'KIT' as const,
+      companyId: kit.companyId,
+      items: [{
+        productId: kit.id,
+        name: kit.name,
+        category: kit.category,
+        quantity: 1,
+        unitPrice: kit.price,
+        power: kit.power
+      }],
+      totalPower: kit.power,
+      totalPrice: kit.price
+    }))
+}
+
+function matchComponents(products: CatalogProduct[], targetPower: number): EquipmentMatch[] {
+  const matches: EquipmentMatch[] = []
+  const panels = products.filter(product => product.category === 'PAINEL_SOLAR')
+  const inverters = products.filter(product => product.category === 'INVERSOR')
+
+  for (const panel of panels) {
+    const panelCount = Math.ceil(targetPower / panel.power)
+    const arrayPower = panelCount * panel.power
+
+    // Inversor da mesma empresa, para que o orçamento saia de um único fornecedor
+    const inverter = inverters
+      .filter(inverter =>
+        inverter.companyId === panel.companyId &&
+        arrayPower / inverter.power >= INVERTER_LOADING.min &&
+        arrayPower / inverter.power <= INVERTER_LOADING.max
+      )
+      .sort((a, b) => a.price - b.price)[0]
+
+    if (!inverter) continue
+
+    matches.push({
+      type: 'COMPONENTS',
+      companyId: panel.companyId,
+      items: [
+        {
+          productId: panel.id,
+          name: panel.name,
+          category: panel.category,
+          quantity: panelCount,
+          unitPrice: panel.price,
+          power: panel.power
+        },
+        {
+          productId: inverter.id,
+          name: inverter.name,
+          category: inverter.category,
+          quantity: 1,
+          unitPrice: inverter.price,
+          power: inverter.power
+        }
+      ],
+      totalPower: arrayPower,
+      totalPrice: panelCount * panel.price + inverter.price
+    })
+  }
+
+  return matches
+}
+
+/**
+ * Combina produtos do catálogo que atendem à potência dimensionada: kits completos
+ * dentro da tolerância ou módulos + inversor compatível de uma mesma empresa.
+ * O resultado é ordenado pelo custo por Wp.
+ */
+export function matchEquipment(products: CatalogProduct[], systemSize: number): EquipmentMatch[] {
+  const targetPower = systemSize * 1000
+  const validProducts = products.filter(product => product.power > 0 && product.price > 0)
+
+  return [
+    ...matchKits(validProducts, targetPower),
+    ...matchComponents(validProducts, targetPower)
+  ].sort((a, b) => a.totalPrice / a.totalPower - b.totalPrice / b.totalPower)
+}
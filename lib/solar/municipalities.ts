@@ -0,0 +1,535 @@
+import { slugify } from '../utils'
+
+/** Doze valores mensais, de janeiro a dezembro */
+export type MonthlyValues = [
+  number, number, number, number, number, number,
+  number, number, number, number, number, number
+]
+
+export interface Municipality {
+  ibgeCode: string
+  name: string
+  state: string
+  latitude: number
+  longitude: number
+  irradiation: MonthlyValues // Irradiação global horizontal média diária (kWh/m²/dia)
+  temperature: MonthlyValues // Temperatura média do ar (°C)
+}
+
+// Base de referência por município (código IBGE). Os valores são médias mensais
+// arredondadas a partir do Atlas Brasileiro de Energia Solar (INPE) e das normais
+// climatológicas do INMET. Para novos municípios, inclua as 12 médias mensais.
+export const MUNICIPALITIES: Municipality[] = [
+  {
+    ibgeCode: '1100205',
+    name: 'Porto Velho',
+    state: 'RO',
+    latitude: -8.76,
+    longitude: -63.90,
+    irradiation: [4.43, 4.44, 4.44, 4.42, 4.29, 4.53, 4.78, 5.20, 5.09, 5.01, 4.85, 4.58],
+    temperature: [25.9, 25.9, 26.1, 26.1, 25.8, 25.3, 25.6, 26.8, 27.4, 27.0, 26.6, 26.2]
+  },
+  {
+    ibgeCode: '1200401',
+    name: 'Rio Branco',
+    state: 'AC',
+    latitude: -9.97,
+    longitude: -67.81,
+    irradiation: [4.48, 4.52, 4.44, 4.36, 4.03, 4.19, 4.47, 5.00, 5.07, 5.02, 4.86, 4.57],
+    temperature: [25.6, 25.7, 25.7, 25.5, 24.5, 23.3, 23.2, 24.8, 25.9, 26.2, 26.0, 25.7]
+  },
+  {
+    ibgeCode: '1302603',
+    name: 'Manaus',
+    state: 'AM',
+    latitude: -3.12,
+    longitude: -60.02,
+    irradiation: [4.42, 4.33, 4.36, 4.21, 4.35, 4.71, 4.96, 5.35, 5.36, 5.09, 4.87, 4.54],
+    temperature: [26.5, 26.4, 26.6, 26.7, 26.9, 26.9, 27.1, 27.9, 28.4, 28.4, 27.8, 27.1]
+  },
+  {
+    ibgeCode: '1400100',
+    name: 'Boa Vista',
+    state: 'RR',
+    latitude: 2.82,
+    longitude: -60.67,
+    irradiation: [5.28, 5.41, 5.57, 5.18, 4.63, 4.46, 4.67, 5.10, 5.58, 5.65, 5.42, 5.14],
+    temperature: [27.9, 28.2, 28.6, 28.3, 27.2, 26.4, 26.1, 26.8, 27.9, 28.6, 28.6, 28.2]
+  },
+  {
+    ibgeCode: '1501402',
+    name: 'Belém',
+    state: 'PA',
+    latitude: -1.46,
+    longitude: -48.50,
+    irradiation: [4.51, 4.21, 4.24, 4.38, 4.73, 5.02, 5.18, 5.37, 5.38, 5.28, 5.20, 4.84],
+    temperature: [26.1, 25.8, 25.9, 26.2, 26.5, 26.6, 26.5, 26.8, 26.9, 27.1, 27.3, 26.8]
+  },
+  {
+    ibgeCode: '1506807',
+    name: 'Santarém',
+    state: 'PA',
+    latitude: -2.44,
+    longitude: -54.71,
+    irradiation: [4.47, 4.26, 4.22, 4.26, 4.51, 4.85, 5.08, 5.45, 5.54, 5.43, 5.24, 4.82],
+    temperature: [26.3, 26.1, 26.1, 26.2, 26.4, 26.4, 26.5, 27.3, 27.9, 28.1, 27.9, 27.1]
+  },
+  {
+    ibgeCode: '1600303',
+    name: 'Macapá',
+    state: 'AP',
+    latitude: 0.03,
+    longitude: -51.07,
+    irradiation: [4.71, 4.43, 4.43, 4.50, 4.74, 5.05, 5.33, 5.78, 6.00, 5.95, 5.70, 5.21],
+    temperature: [26.6, 26.3, 26.4, 26.6, 26.8, 26.7, 26.7, 27.4, 28.0, 28.3, 28.1, 27.4]
+  },
+  {
+    ibgeCode: '1721000',
+    name: 'Palmas',
+    state: 'TO',
+    latitude: -10.18,
+    longitude: -48.33,
+    irradiation: [5.16, 5.16, 5.04, 5.20, 5.35, 5.50, 5.76, 6.19, 5.68, 5.36, 5.12, 5.05],
+    temperature: [26.3, 26.2, 26.4, 26.6, 26.9, 26.4, 26.5, 27.9, 29.0, 28.1, 27.0, 26.5]
+  },
+  {
+    ibgeCode: '2105302',
+    name: 'Imperatriz',
+    state: 'MA',
+    latitude: -5.53,
+    longitude: -47.48,
+    irradiation: [4.75, 4.72, 4.74, 4.83, 5.06, 5.39, 5.64, 6.06, 5.86, 5.39, 5.08, 4.83],
+    temperature: [26.6, 26.5, 26.6, 26.8, 26.9, 26.6, 26.7, 27.6, 28.4, 28.2, 27.6, 27.0]
+  },
+  {
+    ibgeCode: '2111300',
+    name: 'São Luís',
+    state: 'MA',
+    latitude: -2.53,
+    longitude: -44.30,
+    irradiation: [4.63, 4.42, 4.38, 4.33, 4.61, 4.98, 5.20, 5.63, 5.96, 5.92, 5.72, 5.31],
+    temperature: [26.6, 26.2, 26.2, 26.3, 26.6, 26.6, 26.5, 26.9, 27.3, 27.6, 27.8, 27.5]
+  },
+  {
+    ibgeCode: '2211001',
+    name: 'Teresina',
+    state: 'PI',
+    latitude: -5.09,
+    longitude: -42.80,
+    irradiation: [5.03, 4.98, 4.91, 4.87, 5.03, 5.29, 5.59, 6.13, 6.44, 6.33, 6.03, 5.62],
+    temperature: [27.0, 26.6, 26.6, 26.8, 26.9, 26.7, 27.0, 28.2, 29.6, 30.0, 29.6, 28.4]
+  },
+  {
+    ibgeCode: '2304400',
+    name: 'Fortaleza',
+    state: 'CE',
+    latitude: -3.72,
+    longitude: -38.54,
+    irradiation: [5.67, 5.56, 5.20, 4.88, 5.15, 5.27, 5.58, 6.15, 6.37, 6.30, 6.24, 5.96],
+    temperature: [27.5, 27.2, 26.7, 26.6, 26.6, 26.3, 26.1, 26.5, 26.9, 27.3, 27.5, 27.8]
+  },
+  {
+    ibgeCode: '2307304',
+    name: 'Juazeiro do Norte',
+    state: 'CE',
+    latitude: -7.21,
+    longitude: -39.32,
+    irradiation: [5.72, 5.61, 5.45, 5.22, 5.08, 4.92, 5.21, 5.97, 6.45, 6.50, 6.44, 6.05],
+    temperature: [26.4, 25.9, 25.5, 25.3, 24.9, 24.3, 24.3, 25.2, 26.6, 27.5, 27.6, 27.1]
+  },
+  {
+    ibgeCode: '2408003',
+    name: 'Mossoró',
+    state: 'RN',
+    latitude: -5.19,
+    longitude: -37.34,
+    irradiation: [6.06, 6.02, 5.82, 5.39, 5.31, 5.18, 5.41, 6.06, 6.49, 6.53, 6.45, 6.21],
+    temperature: [28.2, 27.8, 27.3, 27.1, 27.0, 26.7, 26.6, 27.2, 27.9, 28.3, 28.5, 28.5]
+  },
+  {
+    ibgeCode: '2408102',
+    name: 'Natal',
+    state: 'RN',
+    latitude: -5.79,
+    longitude: -35.21,
+    irradiation: [5.98, 6.06, 5.81, 5.25, 4.97, 4.57, 4.73, 5.46, 6.04, 6.26, 6.35, 6.14],
+    temperature: [27.4, 27.5, 27.3, 26.9, 26.4, 25.6, 25.0, 25.1, 25.8, 26.4, 26.9, 27.2]
+  },
+  {
+    ibgeCode: '2504009',
+    name: 'Campina Grande',
+    state: 'PB',
+    latitude: -7.23,
+    longitude: -35.88,
+    irradiation: [5.96, 6.02, 5.75, 5.00, 4.50, 4.06, 4.24, 5.04, 5.74, 6.12, 6.27, 6.10],
+    temperature: [24.6, 24.8, 24.6, 24.0, 23.0, 21.8, 21.1, 21.2, 22.3, 23.5, 24.2, 24.5]
+  },
+  {
+    ibgeCode: '2507507',
+    name: 'João Pessoa',
+    state: 'PB',
+    latitude: -7.12,
+    longitude: -34.86,
+    irradiation: [5.97, 6.02, 5.78, 5.05, 4.66, 4.27, 4.44, 5.25, 5.85, 6.13, 6.26, 6.09],
+    temperature: [27.3, 27.4, 27.2, 26.8, 26.1, 25.3, 24.6, 24.7, 25.4, 26.1, 26.6, 27.0]
+  },
+  {
+    ibgeCode: '2611101',
+    name: 'Petrolina',
+    state: 'PE',
+    latitude: -9.39,
+    longitude: -40.50,
+    irradiation: [6.14, 6.04, 5.89, 5.49, 5.00, 4.74, 5.03, 5.88, 6.48, 6.47, 6.50, 6.24],
+    temperature: [27.6, 27.3, 27.0, 26.6, 25.7, 24.6, 24.3, 25.0, 26.9, 28.3, 28.7, 28.0]
+  },
+  {
+    ibgeCode: '2611606',
+    name: 'Recife',
+    state: 'PE',
+    latitude: -8.05,
+    longitude: -34.88,
+    irradiation: [6.03, 6.07, 5.78, 5.06, 4.60, 4.23, 4.40, 5.21, 5.83, 6.12, 6.30, 6.15],
+    temperature: [27.3, 27.4, 27.2, 26.7, 26.0, 25.2, 24.6, 24.7, 25.4, 26.2, 26.8, 27.1]
+  },
+  {
+    ibgeCode: '2704302',
+    name: 'Maceió',
+    state: 'AL',
+    latitude: -9.67,
+    longitude: -35.74,
+    irradiation: [6.12, 6.10, 5.87, 4.98, 4.45, 4.11, 4.28, 5.04, 5.67, 6.06, 6.31, 6.26],
+    temperature: [26.9, 27.0, 27.0, 26.4, 25.6, 24.7, 24.1, 24.2, 24.9, 25.7, 26.3, 26.6]
+  },
+  {
+    ibgeCode: '2800308',
+    name: 'Aracaju',
+    state: 'SE',
+    latitude: -10.91,
+    longitude: -37.07,
+    irradiation: [6.12, 6.08, 5.86, 5.00, 4.45, 4.13, 4.29, 4.99, 5.62, 6.00, 6.23, 6.20],
+    temperature: [27.1, 27.3, 27.4, 26.8, 25.9, 25.0, 24.4, 24.5, 25.2, 25.9, 26.5, 26.8]
+  },
+  {
+    ibgeCode: '2910800',
+    name: 'Feira de Santana',
+    state: 'BA',
+    latitude: -12.27,
+    longitude: -38.97,
+    irradiation: [5.89, 5.94, 5.73, 4.90, 4.34, 4.05, 4.24, 4.92, 5.48, 5.73, 5.71, 5.86],
+    temperature: [26.3, 26.5, 26.5, 25.5, 24.2, 23.0, 22.4, 22.7, 24.0, 25.4, 25.9, 26.1]
+  },
+  {
+    ibgeCode: '2927408',
+    name: 'Salvador',
+    state: 'BA',
+    latitude: -12.97,
+    longitude: -38.50,
+    irradiation: [6.09, 6.14, 5.93, 4.94, 4.35, 4.04, 4.24, 4.90, 5.47, 5.85, 5.98, 6.11],
+    temperature: [27.0, 27.2, 27.3, 26.6, 25.6, 24.6, 24.0, 24.1, 24.8, 25.7, 26.2, 26.6]
+  },
+  {
+    ibgeCode: '2933307',
+    name: 'Vitória da Conquista',
+    state: 'BA',
+    latitude: -14.86,
+    longitude: -40.84,
+    irradiation: [5.68, 6.01, 5.36, 4.67, 4.11, 3.80, 3.93, 4.62, 5.22, 5.47, 5.15, 5.44],
+    temperature: [22.0, 22.3, 22.1, 21.1, 19.6, 18.2, 17.6, 18.2, 19.7, 20.9, 21.1, 21.4]
+  },
+  {
+    ibgeCode: '3106200',
+    name: 'Belo Horizonte',
+    state: 'MG',
+    latitude: -19.92,
+    longitude: -43.94,
+    irradiation: [5.54, 5.93, 5.23, 4.93, 4.46, 4.27, 4.51, 5.22, 5.41, 5.60, 5.21, 5.25],
+    temperature: [23.1, 23.5, 23.0, 21.9, 20.0, 18.8, 18.4, 19.5, 21.1, 22.2, 22.5, 22.6]
+  },
+  {
+    ibgeCode: '3136702',
+    name: 'Juiz de Fora',
+    state: 'MG',
+    latitude: -21.76,
+    longitude: -43.35,
+    irradiation: [5.17, 5.51, 4.76, 4.33, 3.77, 3.56, 3.74, 4.47, 4.56, 4.92, 4.77, 4.94],
+    temperature: [21.9, 22.3, 21.7, 20.2, 18.1, 16.9, 16.4, 17.5, 18.7, 19.8, 20.6, 21.3]
+  },
+  {
+    ibgeCode: '3143302',
+    name: 'Montes Claros',
+    state: 'MG',
+    latitude: -16.73,
+    longitude: -43.86,
+    irradiation: [6.08, 6.33, 5.68, 5.28, 4.86, 4.64, 4.93, 5.60, 5.94, 5.96, 5.52, 5.84],
+    temperature: [24.1, 24.5, 24.1, 23.2, 21.3, 19.9, 19.7, 21.1, 23.1, 24.2, 23.7, 23.7]
+  },
+  {
+    ibgeCode: '3170206',
+    name: 'Uberlândia',
+    state: 'MG',
+    latitude: -18.92,
+    longitude: -48.28,
+    irradiation: [5.31, 5.60, 5.11, 5.05, 4.72, 4.53, 4.77, 5.56, 5.37, 5.42, 5.19, 5.20],
+    temperature: [23.2, 23.4, 23.1, 22.3, 20.3, 19.1, 19.2, 21.2, 23.1, 23.6, 23.1, 22.9]
+  },
+  {
+    ibgeCode: '3205309',
+    name: 'Vitória',
+    state: 'ES',
+    latitude: -20.32,
+    longitude: -40.34,
+    irradiation: [6.11, 6.36, 5.48, 4.71, 4.06, 3.77, 3.90, 4.59, 4.73, 5.15, 5.23, 5.75],
+    temperature: [26.6, 27.1, 26.7, 25.2, 23.7, 22.6, 22.0, 22.4, 22.9, 23.7, 24.6, 25.7]
+  },
+  {
+    ibgeCode: '3303302',
+    name: 'Niterói',
+    state: 'RJ',
+    latitude: -22.88,
+    longitude: -43.10,
+    irradiation: [5.90, 6.12, 5.27, 4.52, 3.86, 3.59, 3.71, 4.40, 4.50, 5.10, 5.46, 5.78],
+    temperature: [26.2, 26.5, 25.8, 24.2, 22.6, 21.5, 21.0, 21.6, 22.0, 23.0, 24.2, 25.4]
+  },
+  {
+    ibgeCode: '3304557',
+    name: 'Rio de Janeiro',
+    state: 'RJ',
+    latitude: -22.91,
+    longitude: -43.17,
+    irradiation: [5.93, 6.15, 5.29, 4.53, 3.87, 3.60, 3.72, 4.42, 4.52, 5.13, 5.49, 5.81],
+    temperature: [26.5, 26.8, 26.0, 24.4, 22.8, 21.7, 21.2, 21.8, 22.2, 23.2, 24.4, 25.6]
+  },
+  {
+    ibgeCode: '3509502',
+    name: 'Campinas',
+    state: 'SP',
+    latitude: -22.91,
+    longitude: -47.06,
+    irradiation: [5.46, 5.68, 5.11, 4.71, 3.96, 3.75, 3.93, 4.82, 4.87, 5.38, 5.52, 5.64],
+    temperature: [23.7, 23.9, 23.4, 21.8, 19.3, 18.0, 17.8, 19.6, 21.1, 22.2, 22.8, 23.2]
+  },
+  {
+    ibgeCode: '3543402',
+    name: 'Ribeirão Preto',
+    state: 'SP',
+    latitude: -21.18,
+    longitude: -47.81,
+    irradiation: [5.49, 5.73, 5.22, 5.02, 4.44, 4.24, 4.48, 5.31, 5.21, 5.52, 5.56, 5.55],
+    temperature: [24.4, 24.6, 24.3, 23.0, 20.6, 19.6, 19.6, 21.8, 23.5, 24.2, 24.3, 24.2]
+  },
+  {
+    ibgeCode: '3548500',
+    name: 'Santos',
+    state: 'SP',
+    latitude: -23.96,
+    longitude: -46.33,
+    irradiation: [4.97, 5.10, 4.40, 3.78, 3.14, 2.86, 2.94, 3.54, 3.56, 4.14, 4.63, 4.95],
+    temperature: [26.0, 26.4, 25.7, 23.8, 21.5, 20.2, 19.6, 20.1, 20.8, 22.1, 23.5, 25.0]
+  },
+  {
+    ibgeCode: '3549904',
+    name: 'São José dos Campos',
+    state: 'SP',
+    latitude: -23.18,
+    longitude: -45.88,
+    irradiation: [5.21, 5.45, 4.79, 4.25, 3.51, 3.27, 3.42, 4.25, 4.33, 4.87, 5.15, 5.41],
+    temperature: [23.0, 23.3, 22.6, 20.8, 18.2, 16.8, 16.5, 17.9, 19.1, 20.3, 21.3, 22.3]
+  },
+  {
+    ibgeCode: '3550308',
+    name: 'São Paulo',
+    state: 'SP',
+    latitude: -23.55,
+    longitude: -46.63,
+    irradiation: [5.19, 5.41, 4.72, 4.13, 3.38, 3.13, 3.25, 4.12, 4.24, 4.77, 5.13, 5.42],
+    temperature: [22.8, 23.1, 22.3, 20.5, 18.0, 16.8, 16.4, 17.6, 18.6, 19.8, 21.0, 22.2]
+  },
+  {
+    ibgeCode: '3552205',
+    name: 'Sorocaba',
+    state: 'SP',
+    latitude: -23.50,
+    longitude: -47.46,
+    irradiation: [5.39, 5.59, 5.03, 4.54, 3.74, 3.48, 3.68, 4.55, 4.67, 5.20, 5.49, 5.63],
+    temperature: [23.2, 23.4, 22.7, 20.8, 18.0, 16.7, 16.5, 18.1, 19.6, 21.0, 22.0, 22.7]
+  },
+  {
+    ibgeCode: '4104808',
+    name: 'Cascavel',
+    state: 'PR',
+    latitude: -24.96,
+    longitude: -53.46,
+    irradiation: [5.99, 5.76, 5.34, 4.64, 3.68, 3.30, 3.59, 4.47, 4.71, 5.46, 6.05, 6.21],
+    temperature: [22.8, 22.6, 22.0, 19.9, 16.8, 15.2, 15.4, 17.2, 18.4, 20.5, 21.7, 22.4]
+  },
+  {
+    ibgeCode: '4106902',
+    name: 'Curitiba',
+    state: 'PR',
+    latitude: -25.43,
+    longitude: -49.27,
+    irradiation: [5.21, 5.16, 4.61, 3.87, 3.15, 2.85, 3.05, 3.92, 3.88, 4.49, 5.15, 5.41],
+    temperature: [20.9, 21.2, 20.1, 17.8, 14.9, 13.4, 12.8, 14.0, 15.0, 16.7, 18.5, 20.0]
+  },
+  {
+    ibgeCode: '4113700',
+    name: 'Londrina',
+    state: 'PR',
+    latitude: -23.31,
+    longitude: -51.16,
+    irradiation: [5.91, 5.77, 5.34, 4.76, 3.85, 3.52, 3.78, 4.65, 4.80, 5.50, 6.04, 6.14],
+    temperature: [23.8, 23.8, 23.2, 21.3, 18.2, 16.9, 17.0, 18.9, 20.2, 22.1, 23.0, 23.4]
+  },
+  {
+    ibgeCode: '4115200',
+    name: 'Maringá',
+    state: 'PR',
+    latitude: -23.42,
+    longitude: -51.94,
+    irradiation: [5.95, 5.79, 5.37, 4.76, 3.83, 3.48, 3.75, 4.63, 4.82, 5.55, 6.07, 6.17],
+    temperature: [24.3, 24.2, 23.7, 21.8, 18.7, 17.3, 17.4, 19.5, 20.9, 22.8, 23.6, 24.0]
+  },
+  {
+    ibgeCode: '4205407',
+    name: 'Florianópolis',
+    state: 'SC',
+    latitude: -27.60,
+    longitude: -48.55,
+    irradiation: [5.71, 5.35, 4.65, 3.91, 3.13, 2.69, 2.83, 3.47, 3.72, 4.56, 5.45, 5.85],
+    temperature: [24.8, 25.0, 24.2, 22.1, 19.3, 17.3, 16.5, 17.1, 18.1, 19.8, 21.5, 23.4]
+  },
+  {
+    ibgeCode: '4209102',
+    name: 'Joinville',
+    state: 'SC',
+    latitude: -26.30,
+    longitude: -48.85,
+    irradiation: [4.96, 4.81, 4.21, 3.63, 2.98, 2.59, 2.72, 3.28, 3.36, 4.02, 4.77, 5.13],
+    temperature: [24.4, 24.6, 23.8, 21.5, 18.7, 16.7, 16.0, 16.9, 18.1, 19.8, 21.4, 23.2]
+  },
+  {
+    ibgeCode: '4305108',
+    name: 'Caxias do Sul',
+    state: 'RS',
+    latitude: -29.17,
+    longitude: -51.18,
+    irradiation: [6.05, 5.58, 4.77, 3.85, 2.94, 2.51, 2.70, 3.39, 3.95, 5.02, 6.01, 6.39],
+    temperature: [21.2, 21.2, 19.8, 17.2, 14.3, 12.3, 12.0, 13.2, 14.5, 16.7, 18.6, 20.3]
+  },
+  {
+    ibgeCode: '4314902',
+    name: 'Porto Alegre',
+    state: 'RS',
+    latitude: -30.03,
+    longitude: -51.23,
+    irradiation: [6.23, 5.77, 4.83, 3.88, 2.90, 2.43, 2.58, 3.24, 3.89, 5.08, 6.08, 6.53],
+    temperature: [24.8, 24.9, 23.4, 20.4, 17.2, 14.6, 14.2, 15.5, 16.8, 19.3, 21.5, 23.5]
+  },
+  {
+    ibgeCode: '5002704',
+    name: 'Campo Grande',
+    state: 'MS',
+    latitude: -20.47,
+    longitude: -54.62,
+    irradiation: [5.69, 5.58, 5.30, 4.81, 4.18, 3.95, 4.19, 5.04, 5.05, 5.52, 5.88, 5.92],
+    temperature: [25.1, 25.0, 24.6, 23.2, 20.6, 19.6, 19.3, 21.5, 23.0, 24.2, 24.6, 24.9]
+  },
+  {
+    ibgeCode: '5003702',
+    name: 'Dourados',
+    state: 'MS',
+    latitude: -22.22,
+    longitude: -54.81,
+    irradiation: [5.91, 5.73, 5.38, 4.77, 3.95, 3.66, 3.90, 4.78, 4.90, 5.56, 6.05, 6.14],
+    temperature: [25.5, 25.2, 24.7, 22.7, 19.6, 18.4, 18.3, 20.3, 21.8, 23.8, 24.7, 25.1]
+  },
+  {
+    ibgeCode: '5103403',
+    name: 'Cuiabá',
+    state: 'MT',
+    latitude: -15.60,
+    longitude: -56.10,
+    irradiation: [5.39, 5.35, 5.21, 5.15, 4.61, 4.50, 4.75, 5.45, 5.14, 5.42, 5.50, 5.48],
+    temperature: [27.0, 26.9, 26.9, 26.4, 24.5, 23.3, 23.1, 25.5, 27.5, 28.0, 27.6, 27.2]
+  },
+  {
+    ibgeCode: '5107602',
+    name: 'Rondonópolis',
+    state: 'MT',
+    latitude: -16.47,
+    longitude: -54.64,
+    irradiation: [5.45, 5.48, 5.24, 5.16, 4.66, 4.50, 4.75, 5.48, 5.18, 5.45, 5.56, 5.54],
+    temperature: [26.0, 25.9, 25.9, 25.2, 23.1, 21.9, 21.9, 24.1, 26.0, 26.6, 26.5, 26.1]
+  },
+  {
+    ibgeCode: '5201108',
+    name: 'Anápolis',
+    state: 'GO',
+    latitude: -16.33,
+    longitude: -48.95,
+    irradiation: [5.33, 5.56, 5.14, 5.16, 4.96, 4.77, 5.04, 5.77, 5.48, 5.42, 5.17, 5.26],
+    temperature: [22.7, 22.8, 22.8, 22.5, 20.8, 19.7, 19.8, 21.7, 23.5, 23.6, 23.0, 22.6]
+  },
+  {
+    ibgeCode: '5208707',
+    name: 'Goiânia',
+    state: 'GO',
+    latitude: -16.68,
+    longitude: -49.25,
+    irradiation: [5.38, 5.60, 5.18, 5.20, 4.98, 4.78, 5.05, 5.78, 5.50, 5.45, 5.22, 5.30],
+    temperature: [23.6, 23.7, 23.7, 23.5, 21.8, 20.6, 20.7, 22.6, 24.6, 24.7, 24.0, 23.5]
+  },
+  {
+    ibgeCode: '5300108',
+    name: 'Brasília',
+    state: 'DF',
+    latitude: -15.78,
+    longitude: -47.93,
+    irradiation: [5.37, 5.61, 5.16, 5.17, 4.95, 4.84, 5.14, 5.92, 5.62, 5.39, 4.98, 5.20],
+    temperature: [21.6, 21.8, 22.0, 21.4, 20.2, 19.1, 19.1, 21.0, 22.5, 22.4, 21.7, 21.5]
+  }
+]
+
+const STATE_CAPITALS: Record<string, string> = {
+  AC: '1200401', AL: '2704302', AM: '1302603', AP: '1600303', BA: '2927408',
+  CE: '2304400', DF: '5300108', ES: '3205309', GO: '5208707', MA: '2111300',
+  MG: '3106200', MS: '5002704', MT: '5103403', PA: '1501402', PB: '2507507',
+  PE: '2611606', PI: '2211001', PR: '4106902', RJ: '3304557', RN: '2408102',
+  RO: '1100205', RR: '1400100', RS: '4314902', SC: '4205407', SE: '2800308',
+  SP: '3550308', TO: '1721000'
+}
+
+export function getMunicipalityByCode(ibgeCode: string): Municipality | undefined {
+  return MUNICIPALITIES.find(municipality => municipality.ibgeCode === ibgeCode)
+}
+
+export function searchMunicipalities(query: string, limit: number = 10): Municipality[] {
+  const normalizedQuery = slugify(query)
+  if (!normalizedQuery) return []
+
+  return MUNICIPALITIES
+    .filter(municipality =>
+      slugify(`${municipality.name} ${municipality.state}`).includes(normalizedQuery)
+    )
+    .slice(0, limit)
+}
+
+/**
+ * Resolve um texto livre como "Campinas, SP" para um município da base.
+ * Se a cidade não estiver cadastrada, usa a capital do estado informado.
+ */
+export function resolveMunicipality(location: string): Municipality | undefined {
+  const [cityPart, statePart] = location.split(/[,\-\/]/).map(part => part.trim())
+  const city = slugify(cityPart || '')
+  const state = (statePart || '').toUpperCase()
+
+  const candidates = MUNICIPALITIES.filter(municipality => slugify(municipality.name) === city)
+  const exactMatch = candidates.find(municipality => !state || municipality.state === state)
+  if (exactMatch) return exactMatch
+
+  if (state && STATE_CAPITALS[state]) {
+    return getMunicipalityByCode(STATE_CAPITALS[state])
+  }
+
+  return undefined
+}
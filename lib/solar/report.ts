@@ -0,0 +1,189 @@
+import { PdfDocument, type RGB } from '../pdf'
+import type { SolarSimulationReport } from './simulation'
+
+export interface SimulationReportData {
+  title?: string | null
+  createdAt: Date
+  shareUrl?: string
+  result: SolarSimulationReport
+}
+
+const MARGIN = 40
+const BRAND: RGB = [234, 88, 12]
+const GENERATION: RGB = [250, 204, 21]
+const MUTED: RGB = [107, 114, 128]
+const LIGHT: RGB = [249, 250, 251]
+const BORDER: RGB = [229, 231, 235]
+const POSITIVE: RGB = [22, 163, 74]
+const NEGATIVE: RGB = [220, 38, 38]
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value)
+
+const formatNumber = (value: number, decimals = 0) =>
+  new Intl.NumberFormat('pt-BR', { maximumFractionDigits: decimals, minimumFractionDigits: decimals }).format(value)
+
+const formatYears = (value: number | null) =>
+  value === null ? 'Acima de 25 anos' : `${formatNumber(value, 1)} anos`
+
+function sectionTitle(pdf: PdfDocument, y: number, title: string): number {
+  pdf.text(MARGIN, y, title, { size: 13, bold: true })
+  pdf.line(MARGIN, y + 19, pdf.width - MARGIN, y + 19, { stroke: BORDER })
+  return y + 30
+}
+
+// Grade de indicadores com rótulo e valor, em colunas de mesma largura
+function metricGrid(pdf: PdfDocument, y: number, metrics: Array<[string, string]>, columns = 4): number {
+  const columnWidth = (pdf.width - MARGIN * 2) / columns
+  const rowHeight = 42
+
+  metrics.forEach(([label, value], index) => {
+    const x = MARGIN + (index % columns) * columnWidth
+    const top = y + Math.floor(index / columns) * rowHeight
+    pdf.text(x, top, label, { size: 8, color: MUTED })
+    pdf.text(x, top + 13, value, { size: 12, bold: true })
+  })
+
+  return y + Math.ceil(metrics.length / columns) * rowHeight
+}
+
+function monthlyGenerationChart(pdf: PdfDocument, y: number, report: SolarSimulationReport): number {
+  const chartHeight = 140
+  const chartWidth = pdf.width - MARGIN * 2
+  const slot = chartWidth / report.monthly.length
+  const barWidth = slot * 0.6
+  const maxValue = Math.max(...report.monthly.flatMap(month => [month.generation, month.consumption]))
+  const baseline = y + chartHeight
+
+  report.monthly.forEach((month, index) => {
+    const x = MARGIN + index * slot + (slot - barWidth) / 2
+    const barHeight = maxValue > 0 ? (month.generation / maxValue) * (chartHeight - 14) : 0
+    const consumptionY = baseline - (month.consumption / maxValue) * (chartHeight - 14)
+
+    pdf.rect(x, baseline - barHeight, barWidth, barHeight, { fill: GENERATION })
+    pdf.line(x - 2, consumptionY, x + barWidth + 2, consumptionY, { stroke: [37, 99, 235], lineWidth: 1.5 })
+    pdf.text(x + barWidth / 2, baseline - barHeight - 11, formatNumber(month.generation), { size: 7, align: 'center', color: MUTED })
+    pdf.text(x + barWidth / 2, baseline + 4, month.label, { size: 8, align: 'center' })
+  })
+
+  pdf.line(MARGIN, baseline, pdf.width - MARGIN, baseline, { stroke: BORDER })
+
+  const legendY = baseline + 20
+  pdf.rect(MARGIN, legendY + 1, 8, 8, { fill: GENERATION })
+  pdf.text(MARGIN + 12, legendY, 'Geração estimada (kWh)', { size: 8, color: MUTED })
+  pdf.line(MARGIN + 140, legendY + 5, MARGIN + 152, legendY + 5, { stroke: [37, 99, 235], lineWidth: 1.5 })
+  pdf.text(MARGIN + 156, legendY, 'Consumo (kWh)', { size: 8, color: MUTED })
+
+  return legendY + 24
+}
+
+function cashFlowTable(pdf: PdfDocument, y: number, report: SolarSimulationReport): number {
+  const columns: Array<{ label: string; x: number }> = [
+    { label: 'Ano', x: MARGIN + 6 },
+    { label: 'Geração (kWh)', x: MARGIN + 150 },
+    { label: 'Fio B cobrado', x: MARGIN + 230 },
+    { label: 'Economia', x: MARGIN + 320 },
+    { label: 'Custos', x: MARGIN + 390 },
+    { label: 'Acumulado', x: pdf.width - MARGIN - 6 }
+  ]
+  const rowHeight = 20
+
+  pdf.rect(MARGIN, y, pdf.width - MARGIN * 2, rowHeight, { fill: [255, 237, 213] })
+  columns.forEach((column, index) => {
+    pdf.text(column.x, y + 6, column.label, { size: 8, bold: true, align: index === 0 ? 'left' : 'right' })
+  })
+
+  report.financial.cashFlows.forEach((flow, index) => {
+    const top = y + rowHeight * (index + 1)
+    const values = [
+      `${flow.year} (${flow.calendarYear})`,
+      formatNumber(flow.generation),
+      `${Math.round(flow.fioBRate * 100)}%`,
+      formatCurrency(flow.savings),
+      formatCurrency(flow.costs),
+      formatCurrency(flow.cumulativeCashFlow)
+    ]
+
+    if (index % 2 === 0) {
+      pdf.rect(MARGIN, top, pdf.width - MARGIN * 2, rowHeight, { fill: LIGHT })
+    }
+
+    values.forEach((value, column) => {
+      const isCumulative = column === values.length - 1
+      pdf.text(columns[column].x, top + 6, value, {
+        size: 8,
+        bold: isCumulative,
+        align: column === 0 ? 'left' : 'right',
+        color: isCumulative ? (flow.cumulativeCashFlow >= 0 ? POSITIVE : NEGATIVE) : undefined
+      })
+    })
+  })
+
+  return y + rowHeight * (report.financial.cashFlows.length + 1)
+}
+
+/**
+ * Gera o relatório em PDF de uma simulação salva: dimensionamento, gráfico de
+ * geração mensal, indicadores financeiros e fluxo de caixa de 25 anos.
+ */
+export function renderSimulationPdf(data: SimulationReportData): Buffer {
+  const { result } = data
+  const { financial } = result
+  const pdf = new PdfDocument()
+
+  // Cabeçalho
+  pdf.rect(0, 0, pdf.width, 90, { fill: BRAND })
+  pdf.text(MARGIN, 26, data.title || 'Relatório de Simulação Solar', { size: 20, bold: true, color: [255, 255, 255] })
+  pdf.text(
+    MARGIN,
+    54,
+    `${result.municipality.name} - ${result.municipality.state} · Gerado em ${data.createdAt.toLocaleDateString('pt-BR')}`,
+    { size: 10, color: [255, 237, 213] }
+  )
+  pdf.text(pdf.width - MARGIN, 30, 'SolarConnect', { size: 12, bold: true, color: [255, 255, 255], align: 'right' })
+
+  let y = sectionTitle(pdf, 115, 'Sistema recomendado')
+  y = metricGrid(pdf, y, [
+    ['Potência instalada', `${formatNumber(result.systemSize, 2)} kWp`],
+    ['Painéis', `${result.panelCount} x ${result.panelPower} W`],
+    ['Área de telhado', `${formatNumber(result.roofArea)} m²`],
+    ['Inclinação', `${formatNumber(result.tilt)}°`],
+    ['Geração mensal média', `${formatNumber(result.monthlyGeneration)} kWh`],
+    ['Geração anual', `${formatNumber(result.yearlyGeneration)} kWh`],
+    ['Produtividade', `${formatNumber(result.specificYield)} kWh/kWp`],
+    ['CO₂ evitado por ano', `${formatNumber(result.co2Reduction)} kg`]
+  ])
+
+  y = sectionTitle(pdf, y + 10, 'Geração mensal estimada')
+  y = monthlyGenerationChart(pdf, y + 10, result)
+
+  y = sectionTitle(pdf, y + 10, 'Análise financeira')
+  y = metricGrid(pdf, y, [
+    ['Investimento estimado', formatCurrency(result.systemCost)],
+    ['Economia mensal (1º ano)', formatCurrency(financial.monthlySavings)],
+    ['Payback simples', formatYears(financial.paybackPeriod)],
+    ['Payback descontado', formatYears(financial.discountedPaybackPeriod)],
+    ['Valor presente líquido', formatCurrency(financial.netPresentValue)],
+    ['Taxa interna de retorno', financial.internalRateOfReturn !== null
+      ? `${formatNumber(financial.internalRateOfReturn * 100, 1)}% a.a.`
+      : '-'],
+    ['Economia em 25 anos', formatCurrency(financial.totalSavings)],
+    ['Regra de compensação', financial.compensationRule === 'GD_I' ? 'GD I (isento)' : 'GD II (Lei 14.300)']
+  ])
+
+  pdf.text(
+    MARGIN,
+    y + 4,
+    'Simulação aproximada. Os valores reais dependem do local, dos equipamentos e da instalação.',
+    { size: 8, color: MUTED }
+  )
+  if (data.shareUrl) {
+    pdf.text(MARGIN, y + 16, `Acesse online: ${data.shareUrl}`, { size: 8, color: MUTED })
+  }
+
+  pdf.addPage()
+  y = sectionTitle(pdf, MARGIN, 'Fluxo de caixa (25 anos)')
+  cashFlowTable(pdf, y, result)
+
+  return pdf.toBuffer()
+}
@@ -0,0 +1,62 @@
+import type { SolarSimulationRequest } from '../validations'
+import { calculateFinancialModel, MINIMUM_BILLED_CONSUMPTION, type FinancialModelResult } from './financial'
+import { getMunicipalityByCode, resolveMunicipality } from './municipalities'
+import { simulateSolarSystem, type SolarSimulationResult } from './sizing'
+
+export interface SolarSimulationReport extends SolarSimulationResult {
+  financial: FinancialModelResult
+}
+
+const SHADING_LOSSES = {
+  none: 0,
+  partial: 0.15,
+  heavy: 0.3
+}
+
+/**
+ * Executa a simulação completa (dimensionamento + modelo financeiro) a partir dos
+ * dados do formulário da calculadora. Retorna null quando o município não é encontrado.
+ */
+export function runSolarSimulation(request: SolarSimulationRequest): SolarSimulationReport | null {
+  const municipality = request.ibgeCode
+    ? getMunicipalityByCode(request.ibgeCode)
+    : resolveMunicipality(request.location!)
+
+  if (!municipality) {
+    return null
+  }
+
+  // Com o histórico da fatura, o consumo médio vem das leituras e não da conta informada
+  const monthlyConsumptionProfile = request.consumptionProfile
+  const monthlyConsumption = monthlyConsumptionProfile
+    ? monthlyConsumptionProfile.reduce((sum, value) => sum + value, 0) / 12
+    : request.monthlyBill / request.energyRate
+
+  const simulation = simulateSolarSystem({
+    municipality,
+    monthlyConsumption,
+    monthlyConsumptionProfile,
+    minimumBilledConsumption: MINIMUM_BILLED_CONSUMPTION[request.connectionType],
+    panelPower: request.panelPower,
+    tilt: request.tilt,
+    azimuth: request.azimuth,
+    shadingLoss: SHADING_LOSSES[request.shading],
+    inverterEfficiency: request.inverterEfficiency
+  })
+
+  const financial = calculateFinancialModel({
+    systemCost: simulation.systemCost,
+    monthlyGeneration: simulation.monthly.map(month => month.generation),
+    monthlyConsumption,
+    monthlyConsumptionProfile,
+    tariff: request.energyRate,
+    connectionType: request.connectionType,
+    startDate: request.connectionDate ? new Date(request.connectionDate) : undefined,
+    tariffEscalation: request.tariffEscalation,
+    discountRate: request.discountRate,
+    fioBShare: request.fioBShare,
+    simultaneity: request.simultaneity
+  })
+
+  return { ...simulation, financial }
+}
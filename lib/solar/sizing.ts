@@ -0,0 +1,150 @@
+import type { Municipality } from './municipalities'
+import { calculateYearlyIrradiance, getRecommendedTilt, DAYS_IN_MONTH } from './irradiance'
+
+export const MONTH_LABELS = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez']
+
+// Fator de emissão médio do Sistema Interligado Nacional (kg CO₂/kWh)
+const GRID_EMISSION_FACTOR = 0.0817
+const ROOF_AREA_PER_KWP = 6 // m²
+
+export interface SystemLosses {
+  soiling: number
+  mismatch: number
+  dcWiring: number
+  acWiring: number
+  availability: number
+}
+
+export const DEFAULT_SYSTEM_LOSSES: SystemLosses = {
+  soiling: 0.02,
+  mismatch: 0.02,
+  dcWiring: 0.015,
+  acWiring: 0.01,
+  availability: 0.005
+}
+
+// Custo médio instalado (R$/kWp) por faixa de potência: sistemas maiores diluem custos fixos
+export const COST_PER_KWP_BANDS: Array<{ upTo: number; costPerKwp: number }> = [
+  { upTo: 3, costPerKwp: 5200 },
+  { upTo: 5, costPerKwp: 4700 },
+  { upTo: 10, costPerKwp: 4300 },
+  { upTo: 30, costPerKwp: 3900 },
+  { upTo: Infinity, costPerKwp: 3500 }
+]
+
+export interface SolarSimulationInput {
+  municipality: Municipality
+  monthlyConsumption: number // kWh/mês
+  monthlyConsumptionProfile?: number[] // kWh de cada mês (jan–dez), quando há histórico da fatura
+  panelPower: number // W
+  azimuth: number // graus, 0 = Norte
+  tilt?: number // graus; se omitido, usa a inclinação recomendada para a latitude
+  shadingLoss?: number // 0-1
+  inverterEfficiency?: number // 0-1
+  losses?: Partial<SystemLosses>
+  systemSize?: number // kWp; se omitido, dimensiona para compensar o consumo anual
+  minimumBilledConsumption?: number // kWh/mês que será faturado de qualquer forma (custo de disponibilidade)
+}
+
+export interface MonthlyGeneration {
+  month: number
+  label: string
+  horizontalIrradiation: number // kWh/m²/dia
+  planeOfArrayIrradiation: number // kWh/m²/dia
+  cellTemperature: number // °C
+  generation: number // kWh
+  consumption: number // kWh
+}
+
+export interface SolarSimulationResult {
+  municipality: Pick<Municipality, 'ibgeCode' | 'name' | 'state'>
+  systemSize: number // kWp
+  panelCount: number
+  panelPower: number // W
+  tilt: number
+  azimuth: number
+  monthly: MonthlyGeneration[]
+  monthlyGeneration: number // kWh, média mensal
+  yearlyGeneration: number // kWh
+  specificYield: number // kWh/kWp/ano
+  performanceRatio: number
+  systemCost: number
+  co2Reduction: number // kg/ano
+  roofArea: number // m²
+}
+
+export function estimateSystemCost(systemSize: number): number {
+  const band = COST_PER_KWP_BANDS.find(band => systemSize <= band.upTo)!
+  return systemSize * band.costPerKwp
+}
+
+function getDeratingFactor(input: SolarSimulationInput): number {
+  const losses = { ...DEFAULT_SYSTEM_LOSSES, ...input.losses }
+  const systemLoss = Object.values(losses).reduce((factor, loss) => factor * (1 - loss), 1)
+  return systemLoss * (1 - (input.shadingLoss ?? 0)) * (input.inverterEfficiency ?? 0.97)
+}
+
+/**
+ * Simula a geração mês a mês de um sistema fotovoltaico conectado à rede no município
+ * informado e dimensiona a potência para compensar o consumo médio anual.
+ */
+export function simulateSolarSystem(input: SolarSimulationInput): SolarSimulationResult {
+  const { municipality, monthlyConsumption, panelPower, azimuth } = input
+  const tilt = input.tilt ?? getRecommendedTilt(municipality.latitude)
+
+  const irradiance = calculateYearlyIrradiance(municipality.irradiation, municipality.temperature, {
+    latitude: municipality.latitude,
+    tilt,
+    azimuth
+  })
+  const deratingFactor = getDeratingFactor(input)
+
+  // Geração mensal de 1 kWp instalado (kWh)
+  const yieldPerKwp = irradiance.map((month, index) =>
+    month.planeOfArray * DAYS_IN_MONTH[index] * month.temperatureFactor * deratingFactor
+  )
+  const specificYield = yieldPerKwp.reduce((sum, value) => sum + value, 0)
+
+  // Não compensa dimensionar para o consumo que será faturado pelo custo de disponibilidade
+  const compensableConsumption = Math.max(0, monthlyConsumption - (input.minimumBilledConsumption ?? 0))
+  const targetSize = input.systemSize ?? (compensableConsumption * 12) / specificYield
+  const panelCount = Math.max(1, Math.ceil((targetSize * 1000) / panelPower))
+  const systemSize = (panelCount * panelPower) / 1000
+
+  const monthly: MonthlyGeneration[] = irradiance.map((month, index) => ({
+    month: month.month,
+    label: MONTH_LABELS[index],
+    horizontalIrradiation: month.horizontal,
+    planeOfArrayIrradiation: month.planeOfArray,
+    cellTemperature: month.cellTemperature,
+    generation: yieldPerKwp[index] * systemSize,
+    consumption: input.monthlyConsumptionProfile?.[index] ?? monthlyConsumption
+  }))
+
+  const yearlyGeneration = monthly.reduce((sum, month) => sum + month.generation, 0)
+  const yearlyPlaneOfArray = irradiance.reduce(
+    (sum, month, index) => sum + month.planeOfArray * DAYS_IN_MONTH[index],
+    0
+  )
+
+  return {
+    municipality: {
+      ibgeCode: municipality.ibgeCode,
+      name: municipality.name,
+      state: municipality.state
+    },
+    systemSize,
+    panelCount,
+    panelPower,
+    tilt,
+    azimuth,
+    monthly,
+    monthlyGeneration: yearlyGeneration / 12,
+    yearlyGeneration,
+    specificYield: yearlyGeneration / systemSize,
+    performanceRatio: yearlyGeneration / (systemSize * yearlyPlaneOfArray),
+    systemCost: estimateSystemCost(systemSize),
+    co2Reduction: yearlyGeneration * GRID_EMISSION_FACTOR,
+    roofArea: systemSize * ROOF_AREA_PER_KWP
+  }
+}
@@ -0,0 +1,488 @@
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+/**
+ * Leitura e geração de planilhas CSV e XLSX para importação e exportação de dados.
+ * O XLSX é montado à mão (ZIP + SpreadsheetML) como o gerador de PDF em lib/pdf.ts:
+ * uma aba por conjunto de dados, textos em inlineStr e datas como número serial do Excel.
+ */
+
+export type SpreadsheetCell = string | number | boolean | Date | null | undefined
+
+export interface SpreadsheetSheet {
+  name: string
+  rows: SpreadsheetCell[][]
+}
+
+export const CSV_MIME_TYPE = 'text/csv; charset=utf-8'
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SpreadsheetError'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+// Excel em português salva CSV com ponto e vírgula; o separador é o mais frequente na primeira linha
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const count = (char: string) => firstLine.split(char).length - 1
+  return count(';') > count(',') ? ';' : ','
+}
+
+/**
+ * Converte o texto CSV em linhas de células, respeitando aspas, aspas duplicadas
+ * e quebras de linha dentro de campos. Linhas totalmente vazias são descartadas.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(content)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const pushRow = () => {
+    row.push(cell)
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row.map(value => value.trim()))
+    }
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      pushRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) pushRow()
+
+  return rows
+}
+
+function formatCsvCell(value: SpreadsheetCell): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'boolean') return value ? 'SIM' : 'NAO'
+
+  let text = String(value)
+
+  // Textos vindos de formulários públicos não podem virar fórmula ao abrir no Excel;
+  // telefones e números com sinal ("+55 11 ...", "-10") continuam como estão
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^[+-][\d\s().-]+$/.test(text)) {
+    text = `'${text}`
+  }
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Gera CSV separado por vírgula com BOM, para o Excel abrir a acentuação corretamente.
+ */
+export function buildCsv(rows: SpreadsheetCell[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(formatCsvCell).join(',')).join('\r\n')
+}
+
+// ---------------------------------------------------------------------------
+// ZIP (apenas o necessário para o XLSX)
+// ---------------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function createZip(files: Array<{ name: string; content: string }>): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8')
+    const data = Buffer.from(file.content, 'utf8')
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // Versão necessária
+    local.writeUInt16LE(0x0800, 6) // Nomes em UTF-8
+    local.writeUInt16LE(8, 8) // Deflate
+    local.writeUInt16LE(0, 10) // Hora
+    local.writeUInt16LE(0x21, 12) // Data (1980-01-01)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(0, 12)
+    central.writeUInt16LE(0x21, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+interface ZipEntry {
+  method: number
+  data: Buffer // Conteúdo ainda compactado
+}
+
+// Só lê o diretório do ZIP: cada entrada é descompactada quando (e se) for usada
+function readZip(buffer: Buffer): Map<string, ZipEntry> {
+  let endOffset = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i
+      break
+    }
+  }
+
+  if (endOffset < 0) {
+    throw new SpreadsheetError('Arquivo XLSX inválido ou corrompido')
+  }
+
+  const entries = new Map<string, ZipEntry>()
+  const count = buffer.readUInt16LE(endOffset + 10)
+  let pointer = buffer.readUInt32LE(endOffset + 16)
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(pointer) !== 0x02014b50) {
+      throw new SpreadsheetError('Arquivo XLSX inválido ou corrompido')
+    }
+
+    const method = buffer.readUInt16LE(pointer + 10)
+    const compressedSize = buffer.readUInt32LE(pointer + 20)
+    const nameLength = buffer.readUInt16LE(pointer + 28)
+    const extraLength = buffer.readUInt16LE(pointer + 30)
+    const commentLength = buffer.readUInt16LE(pointer + 32)
+    const localOffset = buffer.readUInt32LE(pointer + 42)
+    const name = buffer.toString('utf8', pointer + 46, pointer + 46 + nameLength)
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const data = buffer.subarray(dataStart, dataStart + compressedSize)
+    entries.set(name, { method, data })
+
+    pointer += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+function inflateZipEntry(entry: ZipEntry, maxSize: number): Buffer {
+  if (entry.method !== 8) {
+    if (entry.data.length > maxSize) throw new SpreadsheetError('A planilha é grande demais para importar')
+    return Buffer.from(entry.data)
+  }
+
+  try {
+    return inflateRawSync(entry.data, { maxOutputLength: Math.max(1, maxSize) })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new SpreadsheetError('A planilha é grande demais para importar')
+    }
+    throw new SpreadsheetError('Arquivo XLSX inválido ou corrompido')
+  }
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+// Limite do conteúdo descompactado lido de um XLSX enviado
+const MAX_XLSX_UNCOMPRESSED_SIZE = 50 * 1024 * 1024
+// Última coluna do Excel (XFD); referências além dela só aparecem em arquivos adulterados
+const MAX_XLSX_COLUMNS = 16384
+
+const EXCEL_EPOCH_OFFSET_DAYS = 25569 // 1970-01-01 no calendário do Excel
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Estilos: 0 padrão, 1 cabeçalho em negrito, 2 data e hora
+const HEADER_STYLE = 1
+const DATE_STYLE = 2
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caracteres de controle não são aceitos em XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '')
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function buildCellXml(value: SpreadsheetCell, reference: string, isHeader: boolean): string {
+  if (value === null || value === undefined || value === '') return ''
+
+  if (value instanceof Date) {
+    const serial = value.getTime() / DAY_MS + EXCEL_EPOCH_OFFSET_DAYS
+    return `<c r="${reference}" s="${DATE_STYLE}"><v>${serial}</v></c>`
+  }
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${reference}"${isHeader ? ` s="${HEADER_STYLE}"` : ''}><v>${value}</v></c>`
+  }
+
+  const text = typeof value === 'boolean' ? (value ? 'SIM' : 'NAO') : String(value)
+  return `<c r="${reference}" t="inlineStr"${isHeader ? ` s="${HEADER_STYLE}"` : ''}>` +
+    `<is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`
+}
+
+function buildSheetXml(rows: SpreadsheetCell[][]): string {
+  const rowsXml = rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, colIndex) => buildCellXml(value, `${columnName(colIndex)}${rowIndex + 1}`, rowIndex === 0))
+      .join('')
+    return `<row r="${rowIndex + 1}">${cells}</row>`
+  }).join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rowsXml}</sheetData></worksheet>`
+}
+
+// Nomes de aba: até 31 caracteres, sem : \ / ? * [ ]
+const sanitizeSheetName = (name: string) => name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31) || 'Planilha'
+
+/**
+ * Gera um arquivo XLSX com uma aba por item de `sheets`. A primeira linha de cada
+ * aba é tratada como cabeçalho (negrito e congelada).
+ */
+export function buildXlsx(sheets: SpreadsheetSheet[]): Buffer {
+  const sheetEntries = sheets.map((sheet, index) => ({
+    id: index + 1,
+    name: sanitizeSheetName(sheet.name),
+    path: `worksheets/sheet${index + 1}.xml`,
+    rows: sheet.rows
+  }))
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheetEntries.map(sheet =>
+          `<Override PartName="/xl/${sheet.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheetEntries.map(sheet =>
+          `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`
+        ).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheetEntries.map(sheet =>
+          `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="${sheet.path}"/>`
+        ).join('') +
+        `<Relationship Id="rId${sheetEntries.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm"/></numFmts>' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '</cellXfs></styleSheet>'
+    },
+    ...sheetEntries.map(sheet => ({ name: `xl/${sheet.path}`, content: buildSheetXml(sheet.rows) }))
+  ]
+
+  return createZip(files)
+}
+
+const getXmlText = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => unescapeXml(match[1])).join('')
+
+/**
+ * Lê a primeira aba de um arquivo XLSX como linhas de texto. Números e datas vêm
+ * como o valor gravado na célula (datas como número serial do Excel).
+ */
+export function parseXlsx(buffer: Buffer, maxUncompressedSize: number = MAX_XLSX_UNCOMPRESSED_SIZE): string[][] {
+  let entries: Map<string, ZipEntry>
+  try {
+    entries = readZip(buffer)
+  } catch (error) {
+    // Offsets fora do arquivo ou deflate inválido também indicam arquivo corrompido
+    if (error instanceof SpreadsheetError) throw error
+    throw new SpreadsheetError('Arquivo XLSX inválido ou corrompido')
+  }
+
+  // Um ZIP pequeno pode se expandir para gigabytes: só as duas partes lidas são
+  // descompactadas, dentro de um limite total
+  let remaining = maxUncompressedSize
+  const readEntry = (name: string): string => {
+    const entry = entries.get(name)
+    if (!entry) return ''
+
+    const data = inflateZipEntry(entry, remaining)
+    remaining -= data.length
+    return data.toString('utf8')
+  }
+
+  const sharedStringsXml = readEntry('xl/sharedStrings.xml')
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(match => getXmlText(match[1]))
+
+  const sheetPath = Array.from(entries.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, '')) - parseInt(b.replace(/\D/g, '')))[0]
+
+  if (!sheetPath) {
+    throw new SpreadsheetError('A planilha não possui abas')
+  }
+
+  const sheetXml = readEntry(sheetPath)
+  const rows: string[][] = []
+
+  for (const rowMatch of Array.from(sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g))) {
+    const row: string[] = []
+
+    for (const cellMatch of Array.from(rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cellMatch[1]
+      const body = cellMatch[2] ?? ''
+      const reference = attributes.match(/\br="([A-Z]+)\d+"/)?.[1]
+      const type = attributes.match(/\bt="(\w+)"/)?.[1]
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let value = ''
+      if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = getXmlText(body)
+      } else if (rawValue !== undefined) {
+        value = unescapeXml(rawValue)
+      }
+
+      const index = reference ? columnIndex(reference) : row.length
+      if (index >= MAX_XLSX_COLUMNS) {
+        throw new SpreadsheetError('A planilha tem colunas além do limite do Excel')
+      }
+      while (row.length < index) row.push('')
+      row[index] = value.trim()
+    }
+
+    if (row.some(value => value !== '')) rows.push(row)
+  }
+
+  return rows
+}
+
+/**
+ * Lê um arquivo enviado pelo usuário pelo nome: .xlsx como planilha do Excel,
+ * demais como CSV.
+ */
+export function parseSpreadsheet(fileName: string, content: Buffer): string[][] {
+  if (fileName.toLowerCase().endsWith('.xlsx')) {
+    return parseXlsx(content)
+  }
+  return parseCsv(content.toString('utf8'))
+}
@@ -80,9 +80,244 @@ export const contactFormSchema = z.object({
   location: z.string().min(5, 'Localização é obrigatória'),
 })
 
+export const solarSimulationSchema = z.object({
+  ibgeCode: z.string().regex(/^\d{7}$/, 'Código IBGE inválido').optional(),
+  location: z.string().min(2, 'Localização é obrigatória').optional(),
+  monthlyBill: z.number().positive('Valor da conta deve ser positivo'),
+  energyRate: z.number().positive('Tarifa deve ser positiva').max(5, 'Tarifa inválida'),
+  panelPower: z.number().int().min(100, 'Potência do painel inválida').max(1000, 'Potência do painel inválida'),
+  tilt: z.number().min(0).max(90).optional(),
+  azimuth: z.number().min(0).max(360).default(0),
+  shading: z.enum(['none', 'partial', 'heavy']).default('none'),
+  inverterEfficiency: z.number().min(0.8).max(1).optional(),
+  connectionType: z.enum(['MONOFASICO', 'BIFASICO', 'TRIFASICO']).default('BIFASICO'),
+  connectionDate: z.string().datetime().optional(),
+  tariffEscalation: z.number().min(0).max(0.3).optional(),
+  discountRate: z.number().min(0).max(0.5).optional(),
+  fioBShare: z.number().min(0).max(1).optional(),
+  simultaneity: z.number().min(0).max(1).optional(),
+  consumptionProfile: z.array(z.number().nonnegative().max(1000000)).length(12).optional() // kWh jan–dez, da conta de luz
+}).refine(data => data.ibgeCode || data.location, {
+  message: 'Informe o município',
+  path: ['location']
+})
+
+// Dados da conta de luz lidos do PDF da distribuidora (lib/solar/bill.ts), anexados ao lead
+export const electricityBillSchema = z.object({
+  distributor: z.enum(['CEMIG', 'ENEL', 'CPFL', 'LIGHT', 'COPEL']).nullable(),
+  ucNumber: z.string().regex(/^\d{6,15}$/, 'Unidade consumidora inválida').nullable(),
+  connectionType: z.enum(['MONOFASICO', 'BIFASICO', 'TRIFASICO']).nullable(),
+  tariff: z.number().positive().max(5, 'Tarifa inválida').nullable(),
+  amountDue: z.number().nonnegative().nullable(),
+  referenceMonth: z.string().regex(/^\d{4}-\d{2}$/).nullable(),
+  consumptionHistory: z.array(z.object({
+    month: z.string().regex(/^\d{4}-\d{2}$/),
+    consumption: z.number().nonnegative()
+  })).max(12),
+  averageConsumption: z.number().nonnegative().nullable()
+})
+
+// Condições de pagamento do orçamento: tributos destacados, à vista, cartão e financiamento
+export const quotePaymentConditionsSchema = z.object({
+  icmsRate: z.number().min(0).max(25, 'Alíquota de ICMS deve ser entre 0 e 25%').default(0),
+  issRate: z.number().min(0).max(5, 'Alíquota de ISS deve ser entre 0 e 5%').default(0),
+  cashDiscountPercent: z.number().min(0).max(30, 'Desconto à vista deve ser entre 0 e 30%').default(0),
+  card: z.object({
+    maxInstallments: z.number().int().min(1).max(24, 'Máximo de 24 parcelas no cartão'),
+    interestFreeInstallments: z.number().int().min(0).max(24).default(0),
+    monthlyInterestRate: z.number().min(0).max(10, 'Taxa mensal deve ser no máximo 10%').default(0)
+  }).optional(),
+  financing: z.object({
+    institution: z.string().max(100).optional(),
+    monthlyInterestRate: z.number().min(0).max(10, 'Taxa mensal deve ser no máximo 10%'),
+    termMonths: z.number().int().min(6, 'Prazo mínimo de 6 meses').max(120, 'Prazo máximo de 120 meses'),
+    downPaymentPercent: z.number().min(0).max(90, 'Entrada deve ser entre 0 e 90%').default(0)
+  }).optional(),
+  currentMonthlyBill: z.number().positive('Valor da conta deve ser positivo').optional()
+})
+
+// Pontuação de leads: peso de cada fator (somados e normalizados para 0-100) e parâmetros.
+// Campos ausentes usam o padrão, então configurações antigas continuam válidas.
+const leadScoreWeightSchema = z.number().min(0).max(100)
+
+export const leadScoringConfigSchema = z.object({
+  weights: z.object({
+    budget: leadScoreWeightSchema.default(30),
+    projectType: leadScoreWeightSchema.default(15),
+    distance: leadScoreWeightSchema.default(20),
+    engagement: leadScoreWeightSchema.default(20),
+    responsiveness: leadScoreWeightSchema.default(15)
+  }).default({}),
+  // Nota de 0 a 1 por tipo de projeto, pela chave em minúsculas sem acento
+  projectTypeScores: z.record(z.number().min(0).max(1)).default({
+    residencial: 0.6,
+    comercial: 0.9,
+    industrial: 1,
+    rural: 0.8,
+    publico: 0.5
+  }),
+  idealBudget: z.number().positive('Investimento de referência deve ser positivo').default(50000),
+  maxDistanceKm: z.number().min(10).max(3000).default(300),
+  fastResponseHours: z.number().min(0).max(720).default(2),
+  slowResponseHours: z.number().min(1).max(720).default(72)
+}).refine(config => config.slowResponseHours > config.fastResponseHours, {
+  message: 'O prazo de resposta lenta deve ser maior que o de resposta rápida',
+  path: ['slowResponseHours']
+})
+
+// Importação de leads: índice da coluna da planilha escolhida para cada campo
+const importColumnSchema = z.number().int().min(0)
+
+export const leadImportMappingSchema = z.object({
+  name: importColumnSchema.optional(),
+  email: importColumnSchema.optional(),
+  phone: importColumnSchema.optional(),
+  location: importColumnSchema.optional(),
+  projectType: importColumnSchema.optional(),
+  budget: importColumnSchema.optional(),
+  message: importColumnSchema.optional(),
+  source: importColumnSchema.optional(),
+  status: importColumnSchema.optional()
+})
+
+// Agenda de visitas: horários no formato HH:MM, no horário de Brasília
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido (use HH:MM)')
+const dateKeySchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Data inválida (use AAAA-MM-DD)')
+
+const workingIntervalSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema
+}).refine(interval => interval.end > interval.start, {
+  message: 'O fim do expediente deve ser depois do início',
+  path: ['end']
+})
+
+// Um item por dia da semana, de domingo (0) a sábado (6); dia sem intervalos não tem visitas
+export const weeklyHoursSchema = z.array(
+  z.array(workingIntervalSchema).max(4).refine(
+    intervals => intervals.every((interval, index) => index === 0 || interval.start >= intervals[index - 1].end),
+    { message: 'Os intervalos do dia devem estar em ordem e não podem se sobrepor' }
+  )
+).length(7)
+
+const businessDay = [{ start: '09:00', end: '18:00' }]
+
+export const availabilityConfigSchema = z.object({
+  weeklyHours: weeklyHoursSchema.default([[], businessDay, businessDay, businessDay, businessDay, businessDay, []]),
+  slotIntervalMinutes: z.number().int().min(15).max(240).default(30),
+  visitDurationMinutes: z.number().int().min(15).max(480).default(60),
+  // Deslocamento entre uma visita e a próxima do mesmo técnico
+  bufferMinutes: z.number().int().min(0).max(480).default(30),
+  minNoticeHours: z.number().int().min(0).max(720).default(24),
+  maxAdvanceDays: z.number().int().min(1).max(365).default(60),
+  observeNationalHolidays: z.boolean().default(true)
+})
+
+export const technicianSchema = z.object({
+  name: z.string().trim().min(2, 'Nome deve ter pelo menos 2 caracteres').max(100),
+  phone: z.string().trim().max(20).optional().nullable(),
+  active: z.boolean().optional(),
+  workingHours: weeklyHoursSchema.optional().nullable()
+})
+
+export const blackoutDateSchema = z.object({
+  startDate: dateKeySchema,
+  endDate: dateKeySchema.optional(),
+  reason: z.string().trim().max(120).optional().nullable(),
+  technicianId: z.string().optional().nullable()
+}).refine(blackout => !blackout.endDate || blackout.endDate >= blackout.startDate, {
+  message: 'A data final deve ser igual ou posterior à inicial',
+  path: ['endDate']
+})
+
+// Campos padrão da vistoria técnica; rótulos, unidades e opções ficam em lib/site-surveys
+export const SITE_SURVEY_STANDARD_FIELDS = [
+  'roofType',
+  'structureCondition',
+  'azimuth',
+  'tilt',
+  'shading',
+  'meterDistance',
+  'panelBoardCapacity'
+] as const
+
+export const siteSurveyCustomFieldSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,40}$/, 'Identificador inválido'),
+  label: z.string().trim().min(2, 'Nome do campo deve ter pelo menos 2 caracteres').max(80),
+  type: z.enum(['text', 'number', 'yesno', 'select']),
+  options: z.array(z.string().trim().min(1).max(60)).max(20).default([]),
+  unit: z.string().trim().max(10).optional().nullable(),
+  required: z.boolean().default(false)
+}).refine(field => field.type !== 'select' || field.options.length >= 2, {
+  message: 'Informe pelo menos duas opções',
+  path: ['options']
+})
+
+export const siteSurveyConfigSchema = z.object({
+  requiredFields: z.array(z.enum(SITE_SURVEY_STANDARD_FIELDS)).default([...SITE_SURVEY_STANDARD_FIELDS]),
+  customFields: z.array(siteSurveyCustomFieldSchema).max(20, 'Máximo de 20 campos').default([]),
+  minPhotos: z.number().int().min(0).max(20).default(4)
+}).refine(config => {
+  const ids = config.customFields.map(field => field.id)
+  return new Set(ids).size === ids.length &&
+    ids.every(id => (SITE_SURVEY_STANDARD_FIELDS as readonly string[]).indexOf(id) === -1)
+}, {
+  message: 'Campos com identificador repetido',
+  path: ['customFields']
+})
+
+// Respostas de campos padrão e da empresa, pelo identificador do campo
+export const siteSurveyUpdateSchema = z.object({
+  answers: z.record(
+    z.string().max(40),
+    z.union([z.string().trim().max(1000), z.number().finite(), z.boolean(), z.null()])
+  ).optional(),
+  notes: z.string().trim().max(5000).optional().nullable(),
+  leadId: z.string().optional().nullable()
+})
+
+// Etapas do pós-venda, na ordem; rótulos e descrições ficam em lib/installations
+export const INSTALLATION_STAGES = [
+  'CONTRACT_SIGNED',
+  'EQUIPMENT_PURCHASED',
+  'INSTALLATION',
+  'ART_ISSUED',
+  'ACCESS_REQUEST',
+  'INSPECTION',
+  'METER_SWAP',
+  'CONNECTED'
+] as const
+
+export const installationStepUpdateSchema = z.object({
+  completed: z.boolean().optional(),
+  expectedDate: dateKeySchema.optional().nullable(),
+  notes: z.string().trim().max(1000).optional().nullable()
+})
+
+export const installationProjectUpdateSchema = z.object({
+  customerName: z.string().trim().min(2, 'Nome deve ter pelo menos 2 caracteres').max(120).optional(),
+  customerEmail: z.string().trim().email('Email inválido').optional().nullable()
+})
+
 export type CompanyRegistrationInput = z.infer<typeof companyRegistrationSchema>
 export type ProductInput = z.infer<typeof productSchema>
 export type ReviewInput = z.infer<typeof reviewSchema>
 export type ProjectInput = z.infer<typeof projectSchema>
 export type SearchFiltersInput = z.infer<typeof searchFiltersSchema>
-export type ContactFormInput = z.infer<typeof contactFormSchema>
\ No newline at end of file
+export type ContactFormInput = z.infer<typeof contactFormSchema>
+export type SolarSimulationRequest = z.infer<typeof solarSimulationSchema>
+export type ElectricityBillInput = z.infer<typeof electricityBillSchema>
+export type QuotePaymentConditions = z.infer<typeof quotePaymentConditionsSchema>
+export type LeadScoringConfig = z.infer<typeof leadScoringConfigSchema>
+export type LeadImportMapping = z.infer<typeof leadImportMappingSchema>
+export type WeeklyHours = z.infer<typeof weeklyHoursSchema>
+export type AvailabilityConfig = z.infer<typeof availabilityConfigSchema>
+export type TechnicianInput = z.infer<typeof technicianSchema>
+export type BlackoutDateInput = z.infer<typeof blackoutDateSchema>
+export type SiteSurveyStandardField = typeof SITE_SURVEY_STANDARD_FIELDS[number]
+export type SiteSurveyCustomField = z.infer<typeof siteSurveyCustomFieldSchema>
+export type SiteSurveyConfig = z.infer<typeof siteSurveyConfigSchema>
+export type SiteSurveyUpdateInput = z.infer<typeof siteSurveyUpdateSchema>
+export type InstallationStage = typeof INSTALLATION_STAGES[number]
+export type InstallationStepUpdateInput = z.infer<typeof installationStepUpdateSchema>
+export type InstallationProjectUpdateInput = z.infer<typeof installationProjectUpdateSchema>
@@ -0,0 +1,13 @@
+import { processPendingWebhookDeliveries } from './webhooks'
+import { ScheduledJob } from './scheduler'
+
+/**
+ * Webhook delivery job: retry due webhook deliveries and purge old delivery logs
+ */
+export const webhookDeliveryScheduler = new ScheduledJob({
+  name: 'Webhook delivery',
+  run: () => processPendingWebhookDeliveries(),
+  defaultIntervalMinutes: 1,
+  enabledEnv: 'ENABLE_WEBHOOK_DELIVERY_JOB',
+  intervalEnv: 'WEBHOOK_RETRY_INTERVAL_MINUTES'
+})
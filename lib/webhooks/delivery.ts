@@ -0,0 +1,318 @@
+import { promises as dns, type LookupAddress } from 'dns'
+import http from 'http'
+import https from 'https'
+import { Prisma } from '@prisma/client'
+import { db } from '../db'
+import {
+  buildWebhookPayload,
+  isPrivateAddress,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type WebhookEvent
+} from './events'
+
+const MINUTE_MS = 60 * 1000
+
+// Espera antes de cada nova tentativa; esgotada a lista, o envio fica como FAILED
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720]
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1
+
+const REQUEST_TIMEOUT_MS = 10 * 1000
+// Tempo em que um envio fica reservado para quem o pegou, para o job não repetir uma tentativa em curso
+const CLAIM_LEASE_MS = 2 * MINUTE_MS
+const MAX_RESPONSE_BODY_LENGTH = 1000
+const DELIVERY_RETENTION_DAYS = 30
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookDeliveryError'
+  }
+}
+
+/**
+ * Momento da próxima tentativa depois de `attempts` tentativas com falha,
+ * ou null quando não há mais tentativas.
+ */
+export function getNextWebhookAttempt(attempts: number, now: Date = new Date()): Date | null {
+  const delay = WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1]
+  return delay === undefined ? null : new Date(now.getTime() + delay * MINUTE_MS)
+}
+
+/**
+ * O cadastro só vê o nome do host; o DNS pode apontar para a rede interna depois.
+ * Em produção o host é resolvido a cada envio e recusado se algum endereço não for
+ * público. Retorna o endereço em que o envio deve conectar (null fora de produção).
+ */
+export async function resolveWebhookTarget(
+  url: string,
+  production: boolean = process.env.NODE_ENV === 'production'
+): Promise<LookupAddress | null> {
+  if (!production) return null
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '')
+  let addresses: LookupAddress[]
+  try {
+    addresses = await dns.lookup(host, { all: true })
+  } catch {
+    throw new WebhookDeliveryError('Não foi possível resolver o endereço do endpoint')
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new WebhookDeliveryError('O endpoint aponta para um endereço que não é público')
+  }
+
+  return addresses[0]
+}
+
+interface WebhookResponse {
+  status: number
+  body: string
+}
+
+/**
+ * POST ao endpoint. Com `target`, a conexão vai para o endereço já validado em vez
+ * de resolver o host de novo: uma troca de DNS entre a checagem e o envio (DNS
+ * rebinding) não desvia a requisição. Host e SNI continuam sendo os da URL.
+ * Redirecionamentos não são seguidos.
+ */
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  target: LookupAddress | null
+): Promise<WebhookResponse> {
+  return new Promise((resolve, reject) => {
+    const client = new URL(url).protocol === 'https:' ? https : http
+    const request = client.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      ...(target && {
+        lookup: (_hostname, options, callback) => {
+          if (options.all) callback(null, [target])
+          else callback(null, target.address, target.family)
+        }
+      })
+    }, response => {
+      const chunks: Buffer[] = []
+      let length = 0
+      const finish = () => {
+        clearTimeout(timer)
+        resolve({
+          status: response.statusCode ?? 0,
+          body: Buffer.concat(chunks).toString('utf8').slice(0, MAX_RESPONSE_BODY_LENGTH)
+        })
+      }
+
+      response.on('data', (chunk: Buffer) => {
+        chunks.push(chunk)
+        length += chunk.length
+        // Só o início da resposta é guardado; o resto não é lido
+        if (length >= MAX_RESPONSE_BODY_LENGTH) {
+          finish()
+          response.destroy()
+        }
+      })
+      response.on('end', finish)
+      response.on('error', error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+
+    const timer = setTimeout(() => {
+      const timeout = new Error('Timeout')
+      timeout.name = 'TimeoutError'
+      request.destroy(timeout)
+    }, REQUEST_TIMEOUT_MS)
+
+    request.on('error', error => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    request.end(body)
+  })
+}
+
+/**
+ * Faz uma tentativa de envio. O envio é reservado antes da requisição, então
+ * chamadas simultâneas (envio imediato e job de reenvio) não enviam duas vezes.
+ */
+export async function deliverWebhook(deliveryId: string, now: Date = new Date()): Promise<boolean> {
+  const claimed = await db.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: 'PENDING',
+      nextAttemptAt: { lte: now }
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) }
+  })
+
+  if (claimed.count === 0) return false
+
+  const delivery = await db.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true }
+  })
+
+  if (!delivery) return false
+
+  if (!delivery.endpoint.active) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'FAILED', nextAttemptAt: null, error: 'Endpoint desativado' }
+    })
+    return false
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(now.getTime() / 1000)
+  const attempts = delivery.attempts + 1
+
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  try {
+    const target = await resolveWebhookTarget(delivery.endpoint.url)
+
+    const response = await postWebhook(delivery.endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'SolarConnect-Webhooks/1.0',
+      'X-SolarConnect-Event': delivery.event,
+      'X-SolarConnect-Delivery': delivery.id,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.endpoint.secret, timestamp, body)
+    }, body, target)
+
+    responseStatus = response.status
+    responseBody = response.body
+    if (response.status < 200 || response.status >= 300) error = `Resposta HTTP ${response.status}`
+  } catch (requestError) {
+    error = requestError instanceof WebhookDeliveryError
+      ? requestError.message
+      : requestError instanceof Error && requestError.name === 'TimeoutError'
+        ? `Sem resposta em ${REQUEST_TIMEOUT_MS / 1000} segundos`
+        : `Falha na conexão: ${requestError instanceof Error ? requestError.message : String(requestError)}`
+  }
+
+  const succeeded = error === null
+  const nextAttemptAt = succeeded ? null : getNextWebhookAttempt(attempts, now)
+
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: succeeded ? 'SUCCESS' : nextAttemptAt ? 'PENDING' : 'FAILED',
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt,
+      responseStatus,
+      responseBody,
+      error
+    }
+  })
+
+  return succeeded
+}
+
+// O envio imediato não segura a resposta da requisição que gerou o evento
+function deliverInBackground(deliveryIds: string[]) {
+  for (const id of deliveryIds) {
+    deliverWebhook(id).catch(error => {
+      console.error('Webhook delivery error:', error)
+    })
+  }
+}
+
+/**
+ * Registra o evento para os endpoints ativos da empresa que o assinaram e faz a
+ * primeira tentativa em segundo plano; falhas ficam para o job de reenvio.
+ * Nunca lança: um webhook com problema não pode quebrar a operação que o gerou.
+ */
+export async function dispatchWebhookEvent(
+  companyId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { companyId, active: true, events: { has: event } },
+      select: { id: true }
+    })
+
+    if (endpoints.length === 0) return
+
+    const payload = buildWebhookPayload(event, data)
+    const deliveries = await db.$transaction(endpoints.map(endpoint => db.webhookDelivery.create({
+      data: {
+        endpointId: endpoint.id,
+        event,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        nextAttemptAt: new Date()
+      },
+      select: { id: true }
+    })))
+
+    deliverInBackground(deliveries.map(delivery => delivery.id))
+  } catch (error) {
+    console.error(`Webhook dispatch error (${event}):`, error)
+  }
+}
+
+/**
+ * Reenvia o corpo de um envio anterior como um novo envio, mantendo o id do
+ * evento para que o receptor possa ignorar duplicados.
+ */
+export async function resendWebhookDelivery(deliveryId: string, companyId: string) {
+  const original = await db.webhookDelivery.findFirst({
+    where: { id: deliveryId, endpoint: { companyId } },
+    include: { endpoint: { select: { active: true } } }
+  })
+
+  if (!original) return null
+
+  if (!original.endpoint.active) {
+    throw new WebhookDeliveryError('Reative o endpoint para reenviar')
+  }
+
+  const delivery = await db.webhookDelivery.create({
+    data: {
+      endpointId: original.endpointId,
+      event: original.event,
+      payload: original.payload as Prisma.InputJsonValue,
+      nextAttemptAt: new Date()
+    }
+  })
+
+  await deliverWebhook(delivery.id)
+
+  return db.webhookDelivery.findUnique({ where: { id: delivery.id } })
+}
+
+/**
+ * Tentativas vencidas (falhas anteriores ou envios imediatos interrompidos),
+ * executadas pelo job. Também remove o histórico antigo.
+ */
+export async function processPendingWebhookDeliveries(now: Date = new Date(), batchSize: number = 50) {
+  const due = await db.webhookDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: batchSize,
+    select: { id: true }
+  })
+
+  let delivered = 0
+  for (const { id } of due) {
+    if (await deliverWebhook(id)) delivered++
+  }
+
+  const { count: purged } = await db.webhookDelivery.deleteMany({
+    where: {
+      status: { not: 'PENDING' },
+      createdAt: { lt: new Date(now.getTime() - DELIVERY_RETENTION_DAYS * 24 * 60 * MINUTE_MS) }
+    }
+  })
+
+  return { attempted: due.length, delivered, purged }
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto'
+import { z } from 'zod'
+
+export const WEBHOOK_EVENTS = [
+  'lead.created',
+  'lead.status_changed',
+  'quote.viewed',
+  'quote.accepted',
+  'review.published'
+] as const
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'lead.created': 'Novo lead',
+  'lead.status_changed': 'Lead mudou de etapa',
+  'quote.viewed': 'Orçamento visualizado',
+  'quote.accepted': 'Orçamento aceito',
+  'review.published': 'Avaliação publicada'
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-SolarConnect-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-SolarConnect-Timestamp'
+
+// Corpo enviado ao endpoint; o id do evento se repete nas tentativas e reenvios
+export interface WebhookPayload {
+  id: string
+  event: WebhookEvent
+  createdAt: string
+  data: Record<string, unknown>
+}
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).indexOf(value) !== -1
+}
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/
+
+/**
+ * Endereços que não podem receber webhooks em produção: rede privada, loopback,
+ * link-local, CGNAT, multicast e não especificado, em IPv4 e IPv6.
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 mapeado em IPv6; o parser de URL escreve ::ffff:127.0.0.1 como ::ffff:7f00:1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)
+  if (mapped) return isPrivateAddress(mapped[1])
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address)
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16)
+    const low = parseInt(mappedHex[2], 16)
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'))
+  }
+
+  if (IPV4_PATTERN.test(address)) {
+    const [a, b] = address.split('.').map(Number)
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    )
+  }
+  if (address.indexOf(':') !== -1) {
+    const host = address.toLowerCase()
+    return (
+      host === '::' ||
+      host === '::1' ||
+      /^f[cd]/.test(host) ||
+      /^fe[89ab]/.test(host) ||
+      host.startsWith('ff')
+    )
+  }
+  return true
+}
+
+// Em produção os webhooks só saem para endereços HTTPS públicos
+export function isAllowedWebhookUrl(value: string, production: boolean = process.env.NODE_ENV === 'production'): boolean {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false
+  if (!production) return true
+  if (url.protocol !== 'https:') return false
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  if (IPV4_PATTERN.test(host) || host.indexOf(':') !== -1) return !isPrivateAddress(host)
+  return !(
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal')
+  )
+}
+
+// Endpoint na criação e na edição
+export const webhookEndpointSchema = z.object({
+  url: z.string().trim().url('URL inválida').max(500)
+    .refine(url => isAllowedWebhookUrl(url), 'Use uma URL HTTPS pública'),
+  description: z.string().trim().max(120).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Selecione ao menos um evento'),
+  active: z.boolean().optional()
+})
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * Assinatura HMAC-SHA256 de `${timestamp}.${body}`, no formato "sha256=<hex>".
+ * O timestamp assinado permite ao receptor recusar reenvios antigos (replay).
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+export function buildWebhookPayload(event: WebhookEvent, data: Record<string, unknown>, now: Date = new Date()): WebhookPayload {
+  return {
+    id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+    event,
+    createdAt: now.toISOString(),
+    data
+  }
+}
+
+// Campos do lead enviados nos eventos lead.*
+export function serializeWebhookLead(lead: {
+  id: string
+  name: string
+  email: string
+  phone: string
+  location: string
+  projectType: string
+  budget: string | null
+  message: string
+  status: string
+  source: string | null
+  sourceUrl?: string | null
+  createdAt: Date
+}) {
+  return {
+    id: lead.id,
+    name: lead.name,
+    email: lead.email,
+    phone: lead.phone,
+    location: lead.location,
+    projectType: lead.projectType,
+    budget: lead.budget,
+    message: lead.message,
+    status: lead.status,
+    source: lead.source,
+    sourceUrl: lead.sourceUrl ?? null,
+    createdAt: lead.createdAt.toISOString()
+  }
+}
+
+// Campos do orçamento enviados nos eventos quote.*
+export function serializeWebhookQuote(quote: {
+  id: string
+  title: string
+  status: string
+  totalValue: unknown
+  validUntil: Date
+  leadId: string | null
+  sentAt?: Date | null
+  viewedAt?: Date | null
+}) {
+  return {
+    id: quote.id,
+    title: quote.title,
+    status: quote.status,
+    totalValue: Number(quote.totalValue),
+    validUntil: quote.validUntil.toISOString(),
+    leadId: quote.leadId,
+    sentAt: quote.sentAt?.toISOString() ?? null,
+    viewedAt: quote.viewedAt?.toISOString() ?? null
+  }
+}
+
+// Campos da avaliação enviados no evento review.published
+export function serializeWebhookReview(review: {
+  id: string
+  rating: number
+  title: string
+  comment: string
+  customerName: string
+  customerLocation: string
+  projectType: string
+  createdAt: Date
+}) {
+  return {
+    id: review.id,
+    rating: review.rating,
+    title: review.title,
+    comment: review.comment,
+    customerName: review.customerName,
+    customerLocation: review.customerLocation,
+    projectType: review.projectType,
+    createdAt: review.createdAt.toISOString()
+  }
+}
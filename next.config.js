@@ -1,6 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
     output: 'standalone',
+    experimental: {
+        instrumentationHook: true,
+    },
     images: {
         domains: ['localhost', 'uploadthing.com'],
         formats: ['image/webp', 'image/avif'],
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "simulations" (
+    "id" TEXT NOT NULL,
+    "title" TEXT,
+    "municipalityCode" TEXT NOT NULL,
+    "municipalityName" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "monthlyBill" DECIMAL(65,30) NOT NULL,
+    "systemSize" DOUBLE PRECISION NOT NULL,
+    "systemCost" DECIMAL(65,30) NOT NULL,
+    "input" JSONB NOT NULL,
+    "result" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "simulations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "simulations_userId_idx" ON "simulations"("userId");
+
+-- AddForeignKey
+ALTER TABLE "simulations" ADD CONSTRAINT "simulations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "acceptanceToken" TEXT;
+
+-- CreateTable
+CREATE TABLE "quote_acceptances" (
+    "id" TEXT NOT NULL,
+    "decision" "QuoteStatus" NOT NULL,
+    "signerName" TEXT NOT NULL,
+    "signerEmail" TEXT,
+    "reason" TEXT,
+    "ipAddress" TEXT NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "documentHash" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "quoteId" TEXT NOT NULL,
+
+    CONSTRAINT "quote_acceptances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quotes_acceptanceToken_key" ON "quotes"("acceptanceToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quote_acceptances_quoteId_key" ON "quote_acceptances"("quoteId");
+
+-- AddForeignKey
+ALTER TABLE "quote_acceptances" ADD CONSTRAINT "quote_acceptances_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Aceites são somente inserção: bloqueia alterações posteriores ao registro
+CREATE FUNCTION "prevent_quote_acceptance_update"() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'quote_acceptances records are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "quote_acceptances_immutable"
+BEFORE UPDATE ON "quote_acceptances"
+FOR EACH ROW EXECUTE FUNCTION "prevent_quote_acceptance_update"();
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "quote_revisions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "totalValue" DECIMAL(65,30) NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "documentHash" TEXT NOT NULL,
+    "changeSummary" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "quoteId" TEXT NOT NULL,
+
+    CONSTRAINT "quote_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "quote_revisions_quoteId_version_key" ON "quote_revisions"("quoteId", "version");
+
+-- AddForeignKey
+ALTER TABLE "quote_revisions" ADD CONSTRAINT "quote_revisions_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Revisões enviadas ao cliente não podem ser alteradas
+CREATE FUNCTION "prevent_quote_revision_update"() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'quote_revisions records are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "quote_revisions_immutable"
+BEFORE UPDATE ON "quote_revisions"
+FOR EACH ROW EXECUTE FUNCTION "prevent_quote_revision_update"();
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "expiryReminderSentAt" TIMESTAMP(3),
+ADD COLUMN "expiredAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "quotes_status_validUntil_idx" ON "quotes"("status", "validUntil");
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'QUOTE_EXPIRING';
+ALTER TYPE "NotificationType" ADD VALUE 'QUOTE_EXPIRED';
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "subtotal" DECIMAL(65,30),
+ADD COLUMN "discountPercent" DOUBLE PRECISION,
+ADD COLUMN "templateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "quote_items" ADD COLUMN "power" INTEGER,
+ADD COLUMN "warranty" INTEGER,
+ADD COLUMN "productId" TEXT;
+
+-- CreateTable
+CREATE TABLE "quote_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "terms" TEXT,
+    "validityDays" INTEGER NOT NULL DEFAULT 30,
+    "discountPercent" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "quote_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "quote_template_items" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPrice" DECIMAL(65,30),
+    "category" TEXT,
+    "templateId" TEXT NOT NULL,
+    "productId" TEXT,
+
+    CONSTRAINT "quote_template_items_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "quotes" ADD CONSTRAINT "quotes_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "quote_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_items" ADD CONSTRAINT "quote_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_templates" ADD CONSTRAINT "quote_templates_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_template_items" ADD CONSTRAINT "quote_template_items_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "quote_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quote_template_items" ADD CONSTRAINT "quote_template_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "QuoteItemType" AS ENUM ('EQUIPMENT', 'SERVICE');
+
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "paymentConditions" JSONB;
+
+-- AlterTable
+ALTER TABLE "quote_items" ADD COLUMN "type" "QuoteItemType" NOT NULL DEFAULT 'EQUIPMENT';
+
+-- AlterTable
+ALTER TABLE "quote_template_items" ADD COLUMN "type" "QuoteItemType" NOT NULL DEFAULT 'EQUIPMENT';
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "stageChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Leads existentes: a última atualização é a melhor aproximação da entrada na etapa atual
+UPDATE "leads" SET "stageChangedAt" = "updatedAt";
+
+-- CreateTable
+CREATE TABLE "lead_stage_changes" (
+    "id" TEXT NOT NULL,
+    "fromStatus" "LeadStatus",
+    "toStatus" "LeadStatus" NOT NULL,
+    "timeInStageMinutes" INTEGER,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leadId" TEXT NOT NULL,
+    "changedById" TEXT,
+
+    CONSTRAINT "lead_stage_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "leads_companyId_status_idx" ON "leads"("companyId", "status");
+
+-- CreateIndex
+CREATE INDEX "lead_stage_changes_leadId_changedAt_idx" ON "lead_stage_changes"("leadId", "changedAt");
+
+-- CreateIndex
+CREATE INDEX "lead_stage_changes_fromStatus_changedAt_idx" ON "lead_stage_changes"("fromStatus", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "lead_stage_changes" ADD CONSTRAINT "lead_stage_changes_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_stage_changes" ADD CONSTRAINT "lead_stage_changes_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
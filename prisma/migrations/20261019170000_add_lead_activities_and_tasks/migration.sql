@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "LeadActivityType" AS ENUM ('NOTE', 'CALL', 'WHATSAPP', 'EMAIL');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TASK_DUE';
+
+-- CreateTable
+CREATE TABLE "lead_activities" (
+    "id" TEXT NOT NULL,
+    "type" "LeadActivityType" NOT NULL,
+    "content" TEXT NOT NULL,
+    "outcome" TEXT,
+    "durationMinutes" INTEGER,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leadId" TEXT NOT NULL,
+    "authorId" TEXT,
+
+    CONSTRAINT "lead_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "lead_tasks" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "reminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "assigneeId" TEXT,
+    "createdById" TEXT,
+
+    CONSTRAINT "lead_tasks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "company_members" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "company_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lead_activities_leadId_occurredAt_idx" ON "lead_activities"("leadId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "lead_tasks_leadId_dueAt_idx" ON "lead_tasks"("leadId", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "lead_tasks_completedAt_reminderSentAt_dueAt_idx" ON "lead_tasks"("completedAt", "reminderSentAt", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "company_members_companyId_email_key" ON "company_members"("companyId", "email");
+
+-- AddForeignKey
+ALTER TABLE "lead_activities" ADD CONSTRAINT "lead_activities_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_activities" ADD CONSTRAINT "lead_activities_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_tasks" ADD CONSTRAINT "lead_tasks_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_tasks" ADD CONSTRAINT "lead_tasks_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "company_members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lead_tasks" ADD CONSTRAINT "lead_tasks_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_members" ADD CONSTRAINT "company_members_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_members" ADD CONSTRAINT "company_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
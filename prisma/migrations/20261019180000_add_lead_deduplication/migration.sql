@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "company_profiles" ADD COLUMN "autoMergeDuplicateLeads" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "emailKey" TEXT,
+ADD COLUMN "phoneKey" TEXT;
+
+-- Chaves dos leads existentes, com as mesmas regras de lib/leads/duplicates.ts
+UPDATE "leads" SET "emailKey" = lower(trim("email")) WHERE position('@' in "email") > 0;
+
+WITH "digits" AS (
+    SELECT "id", regexp_replace("phone", '\D', '', 'g') AS "value" FROM "leads"
+), "normalized" AS (
+    SELECT "id", ltrim(
+        CASE WHEN length("value") > 11 AND "value" LIKE '55%' THEN substr("value", 3) ELSE "value" END,
+        '0'
+    ) AS "value" FROM "digits"
+)
+UPDATE "leads" SET "phoneKey" = left("normalized"."value", 2) || right("normalized"."value", 8)
+FROM "normalized"
+WHERE "normalized"."id" = "leads"."id" AND length("normalized"."value") >= 10;
+
+-- CreateIndex
+CREATE INDEX "leads_companyId_emailKey_idx" ON "leads"("companyId", "emailKey");
+
+-- CreateIndex
+CREATE INDEX "leads_companyId_phoneKey_idx" ON "leads"("companyId", "phoneKey");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "company_profiles" ADD COLUMN "leadScoringConfig" JSONB;
+
+-- AlterTable
+ALTER TABLE "quotes" ADD COLUMN "sentAt" TIMESTAMP(3),
+ADD COLUMN "viewedAt" TIMESTAMP(3);
+
+-- Orçamentos já enviados: a primeira revisão é gravada no envio
+UPDATE "quotes" SET "sentAt" = (
+    SELECT MIN("createdAt") FROM "quote_revisions" WHERE "quote_revisions"."quoteId" = "quotes"."id"
+)
+WHERE "status" <> 'DRAFT';
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "apiKeyId" TEXT,
+ADD COLUMN "sourceUrl" TEXT;
+
+-- CreateTable
+CREATE TABLE "company_api_keys" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "allowedOrigins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "company_api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "company_api_keys_keyHash_key" ON "company_api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "company_api_keys_companyId_idx" ON "company_api_keys"("companyId");
+
+-- AddForeignKey
+ALTER TABLE "company_api_keys" ADD CONSTRAINT "company_api_keys_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leads" ADD CONSTRAINT "leads_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "company_api_keys"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN "leadId" TEXT,
+ADD COLUMN "productId" TEXT,
+ADD COLUMN "quoteId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "conversations_leadId_idx" ON "conversations"("leadId");
+
+-- CreateIndex
+CREATE INDEX "conversations_quoteId_idx" ON "conversations"("quoteId");
+
+-- CreateIndex
+CREATE INDEX "conversations_productId_idx" ON "conversations"("productId");
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "electricityBill" JSONB;
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "company_profiles" ADD COLUMN "availabilityConfig" JSONB;
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "technicianId" TEXT;
+
+-- CreateTable
+CREATE TABLE "technicians" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "workingHours" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "technicians_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "company_blackout_dates" (
+    "id" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT NOT NULL,
+    "technicianId" TEXT,
+
+    CONSTRAINT "company_blackout_dates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointments_companyId_date_idx" ON "appointments"("companyId", "date");
+
+-- CreateIndex
+CREATE INDEX "appointments_technicianId_date_idx" ON "appointments"("technicianId", "date");
+
+-- CreateIndex
+CREATE INDEX "technicians_companyId_idx" ON "technicians"("companyId");
+
+-- CreateIndex
+CREATE INDEX "company_blackout_dates_companyId_endDate_idx" ON "company_blackout_dates"("companyId", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_technicianId_fkey" FOREIGN KEY ("technicianId") REFERENCES "technicians"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "technicians" ADD CONSTRAINT "technicians_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_blackout_dates" ADD CONSTRAINT "company_blackout_dates_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "company_blackout_dates" ADD CONSTRAINT "company_blackout_dates_technicianId_fkey" FOREIGN KEY ("technicianId") REFERENCES "technicians"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "calendarFeedToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "technicians" ADD COLUMN "calendarFeedToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_calendarFeedToken_key" ON "users"("calendarFeedToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "technicians_calendarFeedToken_key" ON "technicians"("calendarFeedToken");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "accessToken" TEXT,
+ADD COLUMN "customerConfirmedAt" TIMESTAMP(3),
+ADD COLUMN "rescheduleCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "reminder24hSentAt" TIMESTAMP(3),
+ADD COLUMN "reminder2hSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointments_accessToken_key" ON "appointments"("accessToken");
+
+-- CreateIndex
+CREATE INDEX "appointments_status_date_idx" ON "appointments"("status", "date");
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "SiteSurveyStatus" AS ENUM ('DRAFT', 'COMPLETED');
+
+-- AlterTable
+ALTER TABLE "company_profiles" ADD COLUMN "siteSurveyConfig" JSONB;
+
+-- CreateTable
+CREATE TABLE "site_surveys" (
+    "id" TEXT NOT NULL,
+    "status" "SiteSurveyStatus" NOT NULL DEFAULT 'DRAFT',
+    "answers" JSONB NOT NULL DEFAULT '{}',
+    "form" JSONB,
+    "notes" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "leadId" TEXT,
+    "completedById" TEXT,
+
+    CONSTRAINT "site_surveys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "site_survey_photos" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "caption" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "surveyId" TEXT NOT NULL,
+
+    CONSTRAINT "site_survey_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_surveys_appointmentId_key" ON "site_surveys"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "site_surveys_companyId_status_idx" ON "site_surveys"("companyId", "status");
+
+-- CreateIndex
+CREATE INDEX "site_surveys_leadId_idx" ON "site_surveys"("leadId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_survey_photos_fileKey_key" ON "site_survey_photos"("fileKey");
+
+-- CreateIndex
+CREATE INDEX "site_survey_photos_surveyId_idx" ON "site_survey_photos"("surveyId");
+
+-- AddForeignKey
+ALTER TABLE "site_surveys" ADD CONSTRAINT "site_surveys_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_surveys" ADD CONSTRAINT "site_surveys_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_surveys" ADD CONSTRAINT "site_surveys_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_surveys" ADD CONSTRAINT "site_surveys_completedById_fkey" FOREIGN KEY ("completedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "site_survey_photos" ADD CONSTRAINT "site_survey_photos_surveyId_fkey" FOREIGN KEY ("surveyId") REFERENCES "site_surveys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "InstallationStage" AS ENUM ('CONTRACT_SIGNED', 'EQUIPMENT_PURCHASED', 'INSTALLATION', 'ART_ISSUED', 'ACCESS_REQUEST', 'INSPECTION', 'METER_SWAP', 'CONNECTED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'INSTALLATION_UPDATE';
+
+-- CreateTable
+CREATE TABLE "installation_projects" (
+    "id" TEXT NOT NULL,
+    "currentStage" "InstallationStage" NOT NULL DEFAULT 'CONTRACT_SIGNED',
+    "customerName" TEXT NOT NULL,
+    "customerEmail" TEXT,
+    "accessToken" TEXT NOT NULL,
+    "connectedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "quoteId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "leadId" TEXT,
+    "userId" TEXT,
+
+    CONSTRAINT "installation_projects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "installation_steps" (
+    "id" TEXT NOT NULL,
+    "stage" "InstallationStage" NOT NULL,
+    "expectedDate" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "installation_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "installation_documents" (
+    "id" TEXT NOT NULL,
+    "stage" "InstallationStage" NOT NULL,
+    "name" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "fileKey" TEXT NOT NULL,
+    "visibleToCustomer" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    "uploadedById" TEXT,
+
+    CONSTRAINT "installation_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installation_projects_accessToken_key" ON "installation_projects"("accessToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installation_projects_quoteId_key" ON "installation_projects"("quoteId");
+
+-- CreateIndex
+CREATE INDEX "installation_projects_companyId_currentStage_idx" ON "installation_projects"("companyId", "currentStage");
+
+-- CreateIndex
+CREATE INDEX "installation_projects_userId_idx" ON "installation_projects"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installation_steps_projectId_stage_key" ON "installation_steps"("projectId", "stage");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installation_documents_fileKey_key" ON "installation_documents"("fileKey");
+
+-- CreateIndex
+CREATE INDEX "installation_documents_projectId_stage_idx" ON "installation_documents"("projectId", "stage");
+
+-- AddForeignKey
+ALTER TABLE "installation_projects" ADD CONSTRAINT "installation_projects_quoteId_fkey" FOREIGN KEY ("quoteId") REFERENCES "quotes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installation_projects" ADD CONSTRAINT "installation_projects_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "company_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installation_projects" ADD CONSTRAINT "installation_projects_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installation_projects" ADD CONSTRAINT "installation_projects_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installation_steps" ADD CONSTRAINT "installation_steps_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "installation_projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installation_documents" ADD CONSTRAINT "installation_documents_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "installation_projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installation_documents" ADD CONSTRAINT "installation_documents_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
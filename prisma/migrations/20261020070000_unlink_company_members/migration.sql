@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "company_members" DROP CONSTRAINT "company_members_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "company_members" DROP COLUMN "userId";